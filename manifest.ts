@@ -31,7 +31,9 @@ const manifest: any = {
         page: "src/options/index.html",
         open_in_tab: true,
     },
-    permissions: ["activeTab", "storage"],
+    permissions: ["activeTab", "alarms", "storage"],
+    // Sync provider APIs live wherever the user points them; access is asked for when sync is set up
+    optional_host_permissions: ["https://*/*", "http://*/*"],
     web_accessible_resources: [
         {
             resources: ["assets/images/*", "assets/*.js"],
@@ -0,0 +1,31 @@
+/**
+ * Runs async tasks one at a time per key.
+ *
+ * A task waits for every earlier task that shares one of its keys, so two
+ * read-modify-write cycles on the same storage key never overlap. Tasks on
+ * unrelated keys run concurrently. A failing task does not block the ones
+ * queued behind it.
+ */
+export class KeyedTaskQueue {
+    private readonly tails = new Map<string, Promise<void>>();
+
+    run<T>(keys: readonly string[], task: () => Promise<T>): Promise<T> {
+        const previous = keys.map((key) => this.tails.get(key) ?? Promise.resolve());
+        const result = Promise.all(previous).then(task);
+        const settled = result.then(
+            () => undefined,
+            () => undefined,
+        );
+
+        keys.forEach((key) => this.tails.set(key, settled));
+        void settled.then(() => {
+            keys.forEach((key) => {
+                if (this.tails.get(key) === settled) {
+                    this.tails.delete(key);
+                }
+            });
+        });
+
+        return result;
+    }
+}
@@ -0,0 +1,223 @@
+import type { AnimeRequest, AnimeRequestType, AnimeResponse } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { LocalAnimeService } from "@/commons/services/LocalAnimeService";
+import { KeyedTaskQueue } from "./KeyedTaskQueue";
+
+/**
+ * Keys a status transition may read or write; transitions validate against
+ * all of them. Their activity log appends are ordered by these keys too, so
+ * only requests that log activity without holding them lock the log.
+ */
+const ANIME_LIST_KEYS = [
+    StorageKeys.EPISODE_PROGRESS,
+    StorageKeys.PLAN_TO_WATCH,
+    StorageKeys.HIDDEN_ANIME,
+    StorageKeys.COMPLETED,
+    StorageKeys.DROPPED,
+    StorageKeys.ON_HOLD,
+];
+
+/**
+ * Storage keys each request is serialized on. Reads take no lock; in-place
+ * updates lock only the record they touch.
+ */
+const REQUEST_KEYS: Record<AnimeRequestType, readonly StorageKeys[]> = {
+    GET_STATUS: [],
+    GET_STATUSES: [],
+    GET_DETAILS: [],
+    GET_ALL_ANIME: [],
+    ADD_TO_PLAN: ANIME_LIST_KEYS,
+    REMOVE_FROM_PLAN: ANIME_LIST_KEYS,
+    START_WATCHING: [...ANIME_LIST_KEYS, StorageKeys.WATCH_HISTORY],
+    UPDATE_EPISODE: [StorageKeys.EPISODE_PROGRESS, StorageKeys.WATCH_HISTORY, StorageKeys.ACTIVITY_LOG],
+    UNDO_AUTO_EPISODE: [StorageKeys.EPISODE_PROGRESS, StorageKeys.WATCH_HISTORY, StorageKeys.ACTIVITY_LOG],
+    UPDATE_POSTER: [StorageKeys.EPISODE_PROGRESS],
+    UPDATE_HIDDEN_DETAILS: [StorageKeys.HIDDEN_ANIME],
+    STOP_WATCHING: ANIME_LIST_KEYS,
+    COMPLETE: [...ANIME_LIST_KEYS, StorageKeys.WATCH_HISTORY],
+    DROP: ANIME_LIST_KEYS,
+    PUT_ON_HOLD: ANIME_LIST_KEYS,
+    RESUME: ANIME_LIST_KEYS,
+    REMOVE_FROM_COMPLETED: ANIME_LIST_KEYS,
+    REMOVE_FROM_DROPPED: ANIME_LIST_KEYS,
+    REMOVE_FROM_ON_HOLD: ANIME_LIST_KEYS,
+    HIDE: ANIME_LIST_KEYS,
+    UNHIDE: [StorageKeys.HIDDEN_ANIME, StorageKeys.ACTIVITY_LOG],
+    CLEAR_ANIME: ANIME_LIST_KEYS,
+    CLEAR_ALL_HIDDEN: [StorageKeys.HIDDEN_ANIME, StorageKeys.ACTIVITY_LOG],
+    GET_IDENTITIES: [],
+    MERGE_ANIME: [
+        ...ANIME_LIST_KEYS,
+        StorageKeys.ANIME_IDENTITIES,
+        StorageKeys.CUSTOM_LISTS,
+        StorageKeys.USER_DATA,
+        StorageKeys.WATCH_HISTORY,
+    ],
+    SPLIT_ANIME: [...ANIME_LIST_KEYS, StorageKeys.ANIME_IDENTITIES],
+    GET_CUSTOM_LISTS: [],
+    CREATE_CUSTOM_LIST: [StorageKeys.CUSTOM_LISTS],
+    RENAME_CUSTOM_LIST: [StorageKeys.CUSTOM_LISTS],
+    DELETE_CUSTOM_LIST: [StorageKeys.CUSTOM_LISTS],
+    ADD_TO_CUSTOM_LIST: [StorageKeys.CUSTOM_LISTS],
+    REMOVE_FROM_CUSTOM_LIST: [StorageKeys.CUSTOM_LISTS],
+    GET_USER_DATA: [],
+    UPDATE_USER_DATA: [StorageKeys.USER_DATA],
+    GET_WATCH_HISTORY: [],
+    GET_ACTIVITY: [],
+    SAVE_FOLDER_ORDER: [StorageKeys.FOLDER_ORDER],
+    SAVE_TILE_ORDER: [StorageKeys.TILE_ORDER],
+    CLEAR_TILE_ORDER: [StorageKeys.TILE_ORDER],
+    IMPORT_LIBRARY: [
+        ...ANIME_LIST_KEYS,
+        StorageKeys.USER_DATA,
+        StorageKeys.FOLDER_ORDER,
+        StorageKeys.TILE_ORDER,
+        StorageKeys.WATCH_HISTORY,
+    ],
+    GET_SETTINGS: [],
+    UPDATE_SETTINGS: [StorageKeys.SETTINGS],
+    GET_HIDE_RULES: [],
+    SAVE_HIDE_RULE: [StorageKeys.HIDE_RULES],
+    UPDATE_HIDE_RULE: [StorageKeys.HIDE_RULES],
+    DELETE_HIDE_RULE: [StorageKeys.HIDE_RULES],
+    GET_CUSTOM_ADAPTERS: [],
+    SAVE_CUSTOM_ADAPTER: [StorageKeys.CUSTOM_ADAPTERS],
+    DELETE_CUSTOM_ADAPTER: [StorageKeys.CUSTOM_ADAPTERS],
+};
+
+export function isAnimeRequest(message: unknown): message is AnimeRequest {
+    const type = (message as { type?: unknown } | null)?.type;
+    return typeof type === "string" && Object.prototype.hasOwnProperty.call(REQUEST_KEYS, type);
+}
+
+function dispatch(service: LocalAnimeService, request: AnimeRequest): Promise<unknown> {
+    switch (request.type) {
+        case "GET_STATUS":
+            return service.getAnimeStatus(request.animeId);
+        case "GET_STATUSES":
+            return service.getAnimeStatuses(request.animeIds);
+        case "GET_DETAILS":
+            return service.getAnimeDetails(request.animeId);
+        case "GET_ALL_ANIME":
+            return service.getAllAnime();
+        case "ADD_TO_PLAN":
+            return service.addToPlanToWatch(request.animeData);
+        case "REMOVE_FROM_PLAN":
+            return service.removeFromPlanToWatch(request.animeId);
+        case "START_WATCHING":
+            return service.startWatching(request.animeData, request.episodeNumber, request.source);
+        case "UPDATE_EPISODE":
+            return service.updateEpisodeProgress(
+                request.animeId,
+                request.episodeNumber,
+                request.totalEpisodes,
+                request.source,
+            );
+        case "UNDO_AUTO_EPISODE":
+            return service.undoAutoEpisodeUpdate(request.animeId, request.episodeNumber, request.previousEpisode);
+        case "UPDATE_POSTER":
+            return service.updatePosterUrl(request.animeId, request.posterUrl);
+        case "UPDATE_HIDDEN_DETAILS":
+            return service.updateHiddenDetails(request.animeData);
+        case "STOP_WATCHING":
+            return service.stopWatching(request.animeId);
+        case "COMPLETE":
+            return service.completeAnime(request.animeId);
+        case "DROP":
+            return service.dropAnime(request.animeId);
+        case "PUT_ON_HOLD":
+            return service.putOnHold(request.animeId);
+        case "RESUME":
+            return service.resumeWatching(request.animeId);
+        case "REMOVE_FROM_COMPLETED":
+            return service.removeFromCompleted(request.animeId);
+        case "REMOVE_FROM_DROPPED":
+            return service.removeFromDropped(request.animeId);
+        case "REMOVE_FROM_ON_HOLD":
+            return service.removeFromOnHold(request.animeId);
+        case "HIDE":
+            return service.hideAnime(request.animeData);
+        case "UNHIDE":
+            return service.unhideAnime(request.animeId);
+        case "CLEAR_ANIME":
+            return service.clearAnimeData(request.animeId);
+        case "CLEAR_ALL_HIDDEN":
+            return service.clearAllHidden();
+        case "GET_IDENTITIES":
+            return service.getAnimeIdentities();
+        case "MERGE_ANIME":
+            return service.mergeAnime(request.keepId, request.mergeId);
+        case "SPLIT_ANIME":
+            return service.splitAnime(request.animeId);
+        case "GET_CUSTOM_LISTS":
+            return service.getCustomLists();
+        case "CREATE_CUSTOM_LIST":
+            return service.createCustomList(request.name);
+        case "RENAME_CUSTOM_LIST":
+            return service.renameCustomList(request.listId, request.name);
+        case "DELETE_CUSTOM_LIST":
+            return service.deleteCustomList(request.listId);
+        case "ADD_TO_CUSTOM_LIST":
+            return service.addToCustomList(request.listId, request.animeData);
+        case "REMOVE_FROM_CUSTOM_LIST":
+            return service.removeFromCustomList(request.listId, request.animeId);
+        case "GET_USER_DATA":
+            return service.getUserData();
+        case "UPDATE_USER_DATA":
+            return service.updateUserData(request.animeId, request.changes);
+        case "GET_WATCH_HISTORY":
+            return service.getWatchHistory(request.animeId);
+        case "GET_ACTIVITY":
+            return service.getActivity();
+        case "SAVE_FOLDER_ORDER":
+            return service.saveFolderOrder(request.folderOrder);
+        case "SAVE_TILE_ORDER":
+            return service.saveTileOrder(request.animeIds);
+        case "CLEAR_TILE_ORDER":
+            return service.clearTileOrder();
+        case "IMPORT_LIBRARY":
+            return service.importLibrary(request.backup, request.modes);
+        case "GET_SETTINGS":
+            return service.getSettings();
+        case "UPDATE_SETTINGS":
+            return service.updateSettings(request.section, request.changes);
+        case "GET_HIDE_RULES":
+            return service.getHideRules();
+        case "SAVE_HIDE_RULE":
+            return service.saveHideRule(request.rule);
+        case "UPDATE_HIDE_RULE":
+            return service.updateHideRule(request.ruleId, request.changes);
+        case "DELETE_HIDE_RULE":
+            return service.deleteHideRule(request.ruleId);
+        case "GET_CUSTOM_ADAPTERS":
+            return service.getCustomAdapters();
+        case "SAVE_CUSTOM_ADAPTER":
+            return service.saveCustomAdapter(request.definition, request.replaceId);
+        case "DELETE_CUSTOM_ADAPTER":
+            return service.deleteCustomAdapter(request.adapterId);
+    }
+}
+
+/**
+ * Executes anime requests from other extension contexts against local storage.
+ * Each request first waits for `ready`, so nothing reads or writes the lists
+ * while storage is still in an older schema.
+ */
+export class AnimeRequestHandler {
+    constructor(
+        private readonly service: LocalAnimeService = new LocalAnimeService(),
+        readonly queue: KeyedTaskQueue = new KeyedTaskQueue(),
+        private readonly ready: () => Promise<void> = () => Promise.resolve(),
+    ) {}
+
+    async handle(request: AnimeRequest): Promise<AnimeResponse> {
+        try {
+            await this.ready();
+            const result = await this.queue.run(REQUEST_KEYS[request.type], () => dispatch(this.service, request));
+            return { ok: true, result };
+        } catch (error) {
+            console.error(`[Background] ${request.type} failed:`, error);
+            return { ok: false, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+}
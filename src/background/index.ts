@@ -1 +1,374 @@
-console.log("Hello from background script!");
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import { MigrationRunner } from "@/commons/migrations";
+import type {
+    ActionResult,
+    EpisodeProgress,
+    SyncReport,
+    SyncRequest,
+    SyncRequestType,
+    SyncSettings,
+    SyncState,
+    SyncStatus,
+    SyncToken,
+} from "@/commons/models";
+import { StorageKeys, SYNC_PROVIDERS } from "@/commons/models";
+import { LocalAnimeService } from "@/commons/services/LocalAnimeService";
+import { parseAnimeItemKey } from "@/commons/utils/storageKeys";
+import { apiHostPattern } from "@/commons/utils/syncPermissions";
+import { AnimeRequestHandler, isAnimeRequest } from "./animeMessages";
+import { KeyedTaskQueue } from "./KeyedTaskQueue";
+import { HttpSyncProvider, SyncEngine, SyncRetryQueue, SyncTokenStore } from "./sync";
+
+const migrationRunner = new MigrationRunner();
+
+/** Owns every anime list write; shares its per-key queue with sync */
+const animeRequests = new AnimeRequestHandler(new LocalAnimeService(), new KeyedTaskQueue(), ensureStorageMigrated);
+
+/** Alarm that wakes the worker when the next queued sync push is due */
+export const SYNC_RETRY_ALARM = "sync-retry";
+
+const SYNC_REQUEST_TYPES: Record<SyncRequestType, true> = {
+    SYNC_NOW: true,
+    GET_SYNC_STATUS: true,
+    CONFIGURE_SYNC: true,
+    SIGN_IN_SYNC: true,
+    SIGN_OUT_SYNC: true,
+    RESOLVE_SYNC_CONFLICT: true,
+};
+
+const CONFLICT_STRATEGIES: SyncSettings["strategy"][] = ["newest", "local", "ask"];
+
+/** The migration run requests wait on; cleared when it fails so the next caller retries */
+let migrated: Promise<void> | null = null;
+
+/**
+ * Bring stored data up to the current schema before the new code's
+ * repositories touch it. Starts with the worker and is shared by every caller;
+ * a failed run is logged and tried again by the next one.
+ */
+export function ensureStorageMigrated(): Promise<void> {
+    if (!migrated) {
+        migrated = migrationRunner.run().then(
+            (report) => {
+                if (report.applied.length > 0) {
+                    console.log(
+                        `[Background] Migrated storage schema v${report.fromVersion} -> v${report.toVersion}`,
+                        report.applied,
+                    );
+                }
+            },
+            (error) => {
+                migrated = null;
+                console.error("[Background] Storage migration failed:", error);
+                throw error;
+            },
+        );
+    }
+    return migrated;
+}
+
+/**
+ * Start migrating without waiting on the result. Failures are already logged
+ * and the next request retries them.
+ */
+export async function runStorageMigrations(): Promise<void> {
+    try {
+        await ensureStorageMigrated();
+    } catch {
+        // Logged by ensureStorageMigrated
+    }
+}
+
+/**
+ * Build the sync engine for the configured provider, if sync is enabled
+ */
+async function createSyncEngine(): Promise<{ engine: SyncEngine; settings: SyncSettings } | null> {
+    const settings = await StorageAdapter.get<SyncSettings>(StorageKeys.SYNC_SETTINGS);
+    if (!settings?.enabled || !settings.baseUrl || !SYNC_PROVIDERS[settings.providerId]) {
+        return null;
+    }
+    const provider = new HttpSyncProvider(settings.providerId, SYNC_PROVIDERS[settings.providerId], settings.baseUrl);
+    return { engine: new SyncEngine(provider), settings };
+}
+
+/**
+ * Wake the worker when the provider's next queued push is due, or stop waking
+ * it once nothing is waiting
+ */
+async function scheduleSyncRetry(providerId: string): Promise<void> {
+    const next = await new SyncRetryQueue().nextAttemptAt(providerId);
+    if (next) {
+        await chrome.alarms.create(SYNC_RETRY_ALARM, { when: next.getTime() });
+    } else {
+        await chrome.alarms.clear(SYNC_RETRY_ALARM);
+    }
+}
+
+function syncFailure(message: string, error: unknown): ActionResult {
+    return { success: false, message, error: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Run a full sync with the configured provider
+ */
+export async function runSync(): Promise<ActionResult & { report?: SyncReport }> {
+    try {
+        await ensureStorageMigrated();
+        const configured = await createSyncEngine();
+        if (!configured) {
+            return { success: false, message: "Sync is not configured" };
+        }
+        const report = await animeRequests.queue.run([StorageKeys.EPISODE_PROGRESS, StorageKeys.SYNC_STATE], () =>
+            configured.engine.sync(configured.settings.strategy),
+        );
+        await scheduleSyncRetry(configured.settings.providerId);
+        return {
+            success: true,
+            message: `Synced: ${report.pushed} pushed, ${report.pulled} pulled, ${report.conflicts} conflicts`,
+            report,
+        };
+    } catch (error) {
+        console.error("[Background] Sync failed:", error);
+        return syncFailure("Sync failed", error);
+    }
+}
+
+/**
+ * Queue pushes for episode progress that changed locally and try to send them
+ */
+export async function trackProgressChanges(
+    oldValue?: Record<string, EpisodeProgress>,
+    newValue?: Record<string, EpisodeProgress>,
+): Promise<void> {
+    try {
+        await ensureStorageMigrated();
+        const configured = await createSyncEngine();
+        if (!configured) return;
+        await animeRequests.queue.run([StorageKeys.SYNC_STATE], async () => {
+            const scheduled = await configured.engine.trackLocalChanges(oldValue, newValue);
+            if (scheduled > 0) {
+                await configured.engine.flushQueue();
+            }
+        });
+        await scheduleSyncRetry(configured.settings.providerId);
+    } catch (error) {
+        console.warn("[Background] Failed to push progress changes:", error);
+    }
+}
+
+/**
+ * Send the queued pushes that are due; run when the retry alarm fires
+ */
+export async function flushSyncQueue(): Promise<void> {
+    try {
+        await ensureStorageMigrated();
+        const configured = await createSyncEngine();
+        if (!configured) {
+            await chrome.alarms.clear(SYNC_RETRY_ALARM);
+            return;
+        }
+        await animeRequests.queue.run([StorageKeys.SYNC_STATE], () => configured.engine.flushQueue());
+        await scheduleSyncRetry(configured.settings.providerId);
+    } catch (error) {
+        console.warn("[Background] Failed to retry queued sync pushes:", error);
+    }
+}
+
+/**
+ * Save the sync settings after checking them. Turning sync on needs access
+ * to the provider's API, which the options page asks the user for first.
+ */
+export async function configureSync(settings: SyncSettings): Promise<ActionResult> {
+    if (!SYNC_PROVIDERS[settings.providerId]) {
+        return { success: false, message: `Unknown sync provider: ${settings.providerId}` };
+    }
+    if (!CONFLICT_STRATEGIES.includes(settings.strategy)) {
+        return { success: false, message: `Unknown conflict strategy: ${settings.strategy}` };
+    }
+    const hostPattern = apiHostPattern(settings.baseUrl);
+    if (!hostPattern) {
+        return { success: false, message: "Enter the provider's API address, starting with https://" };
+    }
+    if (settings.enabled && !(await chrome.permissions.contains({ origins: [hostPattern] }))) {
+        return { success: false, message: `Allow access to ${hostPattern} to sync with it` };
+    }
+
+    try {
+        const saved: SyncSettings = {
+            enabled: settings.enabled,
+            providerId: settings.providerId,
+            baseUrl: settings.baseUrl.trim(),
+            strategy: settings.strategy,
+        };
+        await animeRequests.queue.run([StorageKeys.SYNC_SETTINGS], () =>
+            StorageAdapter.set(StorageKeys.SYNC_SETTINGS, saved),
+        );
+        if (saved.enabled) {
+            await scheduleSyncRetry(saved.providerId);
+        } else {
+            await chrome.alarms.clear(SYNC_RETRY_ALARM);
+        }
+        return { success: true, message: saved.enabled ? "Sync settings saved" : "Sync turned off" };
+    } catch (error) {
+        console.error("[Background] Failed to save sync settings:", error);
+        return syncFailure("Failed to save sync settings", error);
+    }
+}
+
+/**
+ * Store the credentials for a provider. Pushes that waited on a sign-in are
+ * retried when they are next due.
+ */
+export async function signInToSync(providerId: string, token: SyncToken): Promise<ActionResult> {
+    if (!SYNC_PROVIDERS[providerId]) {
+        return { success: false, message: `Unknown sync provider: ${providerId}` };
+    }
+    if (!token?.accessToken?.trim()) {
+        return { success: false, message: "An access token is required" };
+    }
+
+    try {
+        await animeRequests.queue.run([StorageKeys.SYNC_TOKENS], () =>
+            new SyncTokenStore().set(providerId, { ...token, accessToken: token.accessToken.trim() }),
+        );
+        await scheduleSyncRetry(providerId);
+        return { success: true, message: `Signed in to ${SYNC_PROVIDERS[providerId]}` };
+    } catch (error) {
+        console.error("[Background] Failed to save sync credentials:", error);
+        return syncFailure("Failed to sign in", error);
+    }
+}
+
+/**
+ * Forget the credentials for a provider
+ */
+export async function signOutOfSync(providerId: string): Promise<ActionResult> {
+    try {
+        await animeRequests.queue.run([StorageKeys.SYNC_TOKENS], () => new SyncTokenStore().clear(providerId));
+        return { success: true, message: `Signed out of ${SYNC_PROVIDERS[providerId] ?? providerId}` };
+    } catch (error) {
+        console.error("[Background] Failed to clear sync credentials:", error);
+        return syncFailure("Failed to sign out", error);
+    }
+}
+
+/**
+ * Settle a conflict the "ask" strategy kept, keeping one side's episode
+ */
+export async function resolveSyncConflict(animeId: string, keep: "local" | "remote"): Promise<ActionResult> {
+    try {
+        await ensureStorageMigrated();
+        const configured = await createSyncEngine();
+        if (!configured) {
+            return { success: false, message: "Sync is not configured" };
+        }
+        const resolved = await animeRequests.queue.run([StorageKeys.EPISODE_PROGRESS, StorageKeys.SYNC_STATE], () =>
+            configured.engine.resolveConflict(animeId, keep),
+        );
+        if (!resolved) {
+            return { success: false, message: "No conflict to resolve for this anime" };
+        }
+        await scheduleSyncRetry(configured.settings.providerId);
+        return {
+            success: true,
+            message:
+                keep === "local"
+                    ? "Kept your episode"
+                    : `Kept the ${SYNC_PROVIDERS[configured.settings.providerId]} episode`,
+        };
+    } catch (error) {
+        console.error("[Background] Failed to resolve sync conflict:", error);
+        return syncFailure("Failed to resolve the conflict", error);
+    }
+}
+
+/**
+ * What the settings page shows about sync
+ */
+export async function getSyncStatus(): Promise<SyncStatus> {
+    const settings = await StorageAdapter.get<SyncSettings>(StorageKeys.SYNC_SETTINGS);
+    if (!settings) {
+        return { settings: null, signedIn: false, conflicts: [], queued: 0 };
+    }
+    const [token, state, queued] = await Promise.all([
+        new SyncTokenStore().get(settings.providerId),
+        StorageAdapter.get<SyncState>(StorageKeys.SYNC_STATE),
+        new SyncRetryQueue().all(),
+    ]);
+    const providerState = state?.providers?.[settings.providerId];
+    return {
+        settings,
+        signedIn: token !== null,
+        ...(providerState?.lastSyncAt ? { lastSyncAt: providerState.lastSyncAt } : {}),
+        conflicts: Object.values(providerState?.conflicts ?? {}),
+        queued: queued.filter((item) => item.providerId === settings.providerId).length,
+    };
+}
+
+export function isSyncRequest(message: unknown): message is SyncRequest {
+    const type = (message as { type?: unknown } | null)?.type;
+    return typeof type === "string" && Object.prototype.hasOwnProperty.call(SYNC_REQUEST_TYPES, type);
+}
+
+function handleSyncRequest(request: SyncRequest): Promise<ActionResult | SyncStatus> {
+    switch (request.type) {
+        case "SYNC_NOW":
+            return runSync();
+        case "GET_SYNC_STATUS":
+            return getSyncStatus();
+        case "CONFIGURE_SYNC":
+            return configureSync(request.settings);
+        case "SIGN_IN_SYNC":
+            return signInToSync(request.providerId, request.token);
+        case "SIGN_OUT_SYNC":
+            return signOutOfSync(request.providerId);
+        case "RESOLVE_SYNC_CONFLICT":
+            return resolveSyncConflict(request.animeId, request.keep);
+    }
+}
+
+void runStorageMigrations();
+
+chrome.runtime.onInstalled.addListener((details) => {
+    if (details.reason === "install" || details.reason === "update") {
+        void runStorageMigrations();
+    }
+});
+
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    if (isAnimeRequest(message)) {
+        void animeRequests.handle(message).then(sendResponse);
+        return true; // Keep the channel open for the async response
+    }
+    if (isSyncRequest(message)) {
+        void handleSyncRequest(message).then(sendResponse, (error) =>
+            sendResponse(syncFailure("Sync request failed", error)),
+        );
+        return true; // Keep the channel open for the async response
+    }
+    return false;
+});
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === SYNC_RETRY_ALARM) {
+        void flushSyncQueue();
+    }
+});
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== "local") return;
+
+    // Progress is stored one key per anime; collect the changed records
+    const oldValue: Record<string, EpisodeProgress> = {};
+    const newValue: Record<string, EpisodeProgress> = {};
+    for (const [key, change] of Object.entries(changes)) {
+        const item = parseAnimeItemKey(key);
+        if (item?.list !== StorageKeys.EPISODE_PROGRESS) continue;
+        if (change.oldValue) oldValue[item.animeId] = change.oldValue;
+        if (change.newValue) newValue[item.animeId] = change.newValue;
+    }
+
+    if (Object.keys(newValue).length > 0) {
+        void trackProgressChanges(oldValue, newValue);
+    }
+});
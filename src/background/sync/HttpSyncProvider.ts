@@ -0,0 +1,99 @@
+import type { ExternalListStatus, RemoteEntry, SyncToken } from "@/commons/models";
+import { SyncAuthError, SyncHttpError } from "./errors";
+import type { SyncProvider } from "./types";
+
+const LIST_STATUSES: readonly ExternalListStatus[] = ["watching", "completed", "on_hold", "dropped", "plan_to_watch"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a value from the provider has every field of a remote entry
+ */
+function isRemoteEntry(value: unknown): value is RemoteEntry {
+    return (
+        isRecord(value) &&
+        typeof value.malId === "number" &&
+        typeof value.episode === "number" &&
+        typeof value.updatedAt === "string" &&
+        LIST_STATUSES.includes(value.status as ExternalListStatus)
+    );
+}
+
+/**
+ * Provider for a MAL/AniList-compatible REST API:
+ * - GET  {baseUrl}/entries           -> { entries: RemoteEntry[] }
+ * - PUT  {baseUrl}/entries/{malId}   -> RemoteEntry
+ * - POST {baseUrl}/oauth/token       -> { access_token, refresh_token?, expires_in? }
+ */
+export class HttpSyncProvider implements SyncProvider {
+    private readonly baseUrl: string;
+
+    constructor(
+        readonly id: string,
+        readonly label: string,
+        baseUrl: string,
+        private readonly fetchImpl: typeof fetch = (input, init) => fetch(input, init),
+    ) {
+        this.baseUrl = baseUrl.replace(/\/+$/, "");
+    }
+
+    async fetchEntries(token: SyncToken): Promise<RemoteEntry[]> {
+        const body = await this.request("GET", "/entries", token);
+        const entries = isRecord(body) && Array.isArray(body.entries) ? body.entries : [];
+        return entries.filter(isRemoteEntry);
+    }
+
+    /**
+     * Save an entry. A provider that answers without the saved entry is
+     * taken to have saved it as sent.
+     */
+    async pushEntry(token: SyncToken, entry: RemoteEntry): Promise<RemoteEntry> {
+        const body = await this.request("PUT", `/entries/${entry.malId}`, token, entry);
+        return isRemoteEntry(body) ? body : entry;
+    }
+
+    async refreshToken(token: SyncToken): Promise<SyncToken> {
+        if (!token.refreshToken) {
+            throw new SyncAuthError(`${this.label} session expired`);
+        }
+        const body = await this.request("POST", "/oauth/token", undefined, {
+            grant_type: "refresh_token",
+            refresh_token: token.refreshToken,
+        });
+        if (!isRecord(body) || typeof body.access_token !== "string") {
+            throw new SyncAuthError(`${this.label} did not return an access token`);
+        }
+        return {
+            accessToken: body.access_token,
+            refreshToken: typeof body.refresh_token === "string" ? body.refresh_token : token.refreshToken,
+            ...(typeof body.expires_in === "number"
+                ? { expiresAt: new Date(Date.now() + body.expires_in * 1000).toISOString() }
+                : {}),
+        };
+    }
+
+    private async request(method: string, path: string, token?: SyncToken, payload?: unknown): Promise<unknown> {
+        const headers: Record<string, string> = { Accept: "application/json" };
+        if (token) headers.Authorization = `Bearer ${token.accessToken}`;
+        if (payload !== undefined) headers["Content-Type"] = "application/json";
+
+        const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+            method,
+            headers,
+            body: payload === undefined ? undefined : JSON.stringify(payload),
+        });
+
+        if (response.status === 401) {
+            throw new SyncAuthError(`${this.label} rejected the access token`);
+        }
+        if (!response.ok) {
+            throw new SyncHttpError(
+                response.status,
+                `${this.label} request failed: ${method} ${path} (${response.status})`,
+            );
+        }
+        return response.status === 204 ? null : response.json();
+    }
+}
@@ -0,0 +1,303 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type {
+    ConflictStrategy,
+    EpisodeProgress,
+    ProviderSyncState,
+    RemoteEntry,
+    SyncConflict,
+    SyncReport,
+    SyncState,
+    SyncToken,
+} from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { EpisodeProgressRepository } from "@/commons/repositories";
+import { SyncAuthError } from "./errors";
+import { SyncRetryQueue } from "./SyncRetryQueue";
+import { SyncTokenStore } from "./SyncTokenStore";
+import type { SyncProvider } from "./types";
+
+export interface SyncEngineDependencies {
+    tokens?: SyncTokenStore;
+    queue?: SyncRetryQueue;
+    progress?: EpisodeProgressRepository;
+    now?: () => Date;
+}
+
+type Resolution = "push" | "pull" | "conflict" | "in-sync";
+
+function emptyProviderState(): ProviderSyncState {
+    return { entries: {}, conflicts: {} };
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Keeps local episode progress and one provider's list in step.
+ *
+ * Each anime remembers the episode both sides agreed on at its last sync, so
+ * a later sync can tell which side changed. When both did, the configured
+ * strategy decides. Failed pushes go to a persisted retry queue.
+ */
+export class SyncEngine {
+    private readonly tokens: SyncTokenStore;
+    private readonly queue: SyncRetryQueue;
+    private readonly progress: EpisodeProgressRepository;
+    private readonly now: () => Date;
+
+    constructor(
+        private readonly provider: SyncProvider,
+        dependencies: SyncEngineDependencies = {},
+    ) {
+        this.tokens = dependencies.tokens ?? new SyncTokenStore();
+        this.queue = dependencies.queue ?? new SyncRetryQueue();
+        this.progress = dependencies.progress ?? new EpisodeProgressRepository();
+        this.now = dependencies.now ?? (() => new Date());
+    }
+
+    /**
+     * Flush the retry queue, then reconcile every linked anime with the provider
+     */
+    async sync(strategy: ConflictStrategy): Promise<SyncReport> {
+        const report: SyncReport = { pushed: 0, pulled: 0, conflicts: 0, queued: 0, unlinked: 0 };
+        const token = await this.tokens.getValidToken(this.provider, this.now());
+        const state = await this.loadState();
+        const providerState = this.providerState(state);
+
+        report.pushed += await this.flushQueue(token, state);
+
+        const remote = new Map((await this.provider.fetchEntries(token)).map((entry) => [entry.malId, entry]));
+        const localEntries = await this.progress.findAll();
+
+        for (const local of localEntries) {
+            if (local.malId === undefined) {
+                report.unlinked += 1;
+                continue;
+            }
+
+            const remoteEntry = remote.get(local.malId);
+            const resolution = this.resolve(local, remoteEntry, state, strategy);
+            if (resolution !== "conflict") {
+                delete providerState.conflicts[local.animeId];
+            }
+
+            switch (resolution) {
+                case "push":
+                    if (await this.push(token, local, state)) report.pushed += 1;
+                    else report.queued += 1;
+                    break;
+                case "pull":
+                    await this.pull(local, remoteEntry as RemoteEntry, state);
+                    report.pulled += 1;
+                    break;
+                case "conflict":
+                    providerState.conflicts[local.animeId] = this.toConflict(local, remoteEntry as RemoteEntry, state);
+                    report.conflicts += 1;
+                    break;
+                case "in-sync":
+                    this.markSynced(providerState, local, remoteEntry?.updatedAt);
+                    break;
+            }
+        }
+
+        providerState.lastSyncAt = this.now().toISOString();
+        await this.saveState(state);
+        return report;
+    }
+
+    /**
+     * Settle a conflict kept by the "ask" strategy
+     */
+    async resolveConflict(animeId: string, keep: "local" | "remote"): Promise<boolean> {
+        const state = await this.loadState();
+        const providerState = this.providerState(state);
+        const conflict = providerState.conflicts[animeId];
+        const local = await this.progress.findById(animeId);
+        if (!conflict || !local) return false;
+
+        if (keep === "local") {
+            const token = await this.tokens.getValidToken(this.provider, this.now());
+            await this.push(token, local, state);
+        } else {
+            await this.pull(
+                local,
+                {
+                    malId: conflict.malId,
+                    status: "watching",
+                    episode: conflict.remoteEpisode,
+                    updatedAt: conflict.remoteModifiedAt,
+                },
+                state,
+            );
+        }
+
+        delete providerState.conflicts[animeId];
+        await this.saveState(state);
+        return true;
+    }
+
+    /**
+     * Record local progress changes and queue pushes for them. Fed from
+     * storage change events; changes this engine made itself by pulling are
+     * recognised by matching the synced episode and ignored.
+     */
+    async trackLocalChanges(
+        oldValue: Record<string, EpisodeProgress> = {},
+        newValue: Record<string, EpisodeProgress> = {},
+    ): Promise<number> {
+        const state = await this.loadState();
+        const providerState = this.providerState(state);
+        const now = this.now();
+        let scheduled = 0;
+
+        for (const [animeId, record] of Object.entries(newValue)) {
+            if (oldValue[animeId]?.currentEpisode === record.currentEpisode) continue;
+            if (providerState.entries[animeId]?.syncedEpisode === record.currentEpisode) continue;
+
+            state.localModifiedAt[animeId] = now.toISOString();
+            if (record.malId !== undefined) {
+                await this.queue.schedule(this.provider.id, animeId, this.toRemote(record, now), now);
+                scheduled += 1;
+            }
+        }
+
+        await this.saveState(state);
+        return scheduled;
+    }
+
+    /**
+     * Send queued pushes whose next attempt is due
+     */
+    async flushQueue(token?: SyncToken, syncState?: SyncState): Promise<number> {
+        const due = await this.queue.due(this.provider.id, this.now());
+        if (due.length === 0) return 0;
+
+        const state = syncState ?? (await this.loadState());
+        const activeToken = token ?? (await this.tokens.getValidToken(this.provider, this.now()));
+
+        let pushed = 0;
+        for (const item of due) {
+            const local = await this.progress.findById(item.animeId);
+            if (!local || local.malId === undefined) {
+                await this.queue.remove(this.provider.id, item.animeId);
+                continue;
+            }
+            if (await this.push(activeToken, local, state)) pushed += 1;
+        }
+
+        if (!syncState) await this.saveState(state);
+        return pushed;
+    }
+
+    private resolve(
+        local: EpisodeProgress,
+        remote: RemoteEntry | undefined,
+        state: SyncState,
+        strategy: ConflictStrategy,
+    ): Resolution {
+        if (!remote) return "push";
+        if (remote.episode === local.currentEpisode) return "in-sync";
+
+        const synced = this.providerState(state).entries[local.animeId];
+        const localChanged = !synced || local.currentEpisode !== synced.syncedEpisode;
+        const remoteChanged = !synced || remote.episode !== synced.syncedEpisode;
+
+        if (localChanged && !remoteChanged) return "push";
+        if (remoteChanged && !localChanged) return "pull";
+
+        switch (strategy) {
+            case "local":
+                return "push";
+            case "ask":
+                return "conflict";
+            case "newest":
+            default: {
+                const localModified = Date.parse(this.localModifiedAt(local, state));
+                return Date.parse(remote.updatedAt) > localModified ? "pull" : "push";
+            }
+        }
+    }
+
+    private async push(token: SyncToken, local: EpisodeProgress, state: SyncState): Promise<boolean> {
+        const now = this.now();
+        const entry = this.toRemote(local, now);
+        try {
+            const saved = await this.provider.pushEntry(token, entry);
+            await this.queue.remove(this.provider.id, local.animeId);
+            this.markSynced(this.providerState(state), local, saved?.updatedAt ?? entry.updatedAt);
+            return true;
+        } catch (error) {
+            if (error instanceof SyncAuthError) throw error;
+            console.warn(`[Sync] Push to ${this.provider.label} failed for ${local.animeId}:`, error);
+            await this.queue.recordFailure(this.provider.id, local.animeId, entry, errorMessage(error), now);
+            return false;
+        }
+    }
+
+    private async pull(local: EpisodeProgress, remote: RemoteEntry, state: SyncState): Promise<void> {
+        const update: Partial<EpisodeProgress> = {
+            currentEpisode: remote.episode,
+            episodeId: `${local.animeSlug}-episode-${remote.episode}`,
+        };
+        if (remote.totalEpisodes !== undefined) update.totalEpisodes = remote.totalEpisodes;
+
+        // Save the synced episode first so the storage change this write triggers is not pushed back
+        this.markSynced(this.providerState(state), { ...local, currentEpisode: remote.episode }, remote.updatedAt);
+        await this.saveState(state);
+        await this.progress.update(local.animeId, update);
+    }
+
+    private markSynced(providerState: ProviderSyncState, local: EpisodeProgress, remoteModifiedAt?: string): void {
+        providerState.entries[local.animeId] = {
+            malId: local.malId as number,
+            syncedEpisode: local.currentEpisode,
+            syncedAt: this.now().toISOString(),
+            ...(remoteModifiedAt ? { remoteModifiedAt } : {}),
+        };
+    }
+
+    private toRemote(local: EpisodeProgress, now: Date): RemoteEntry {
+        return {
+            malId: local.malId as number,
+            title: local.animeTitle,
+            status: "watching",
+            episode: local.currentEpisode,
+            ...(local.totalEpisodes !== undefined ? { totalEpisodes: local.totalEpisodes } : {}),
+            updatedAt: now.toISOString(),
+        };
+    }
+
+    private toConflict(local: EpisodeProgress, remote: RemoteEntry, state: SyncState): SyncConflict {
+        return {
+            animeId: local.animeId,
+            malId: remote.malId,
+            title: local.animeTitle,
+            localEpisode: local.currentEpisode,
+            remoteEpisode: remote.episode,
+            localModifiedAt: this.localModifiedAt(local, state),
+            remoteModifiedAt: remote.updatedAt,
+        };
+    }
+
+    private localModifiedAt(local: EpisodeProgress, state: SyncState): string {
+        return state.localModifiedAt[local.animeId] ?? local.lastWatched;
+    }
+
+    private providerState(state: SyncState): ProviderSyncState {
+        state.providers[this.provider.id] ??= emptyProviderState();
+        return state.providers[this.provider.id];
+    }
+
+    private async loadState(): Promise<SyncState> {
+        const stored = await StorageAdapter.get<SyncState>(StorageKeys.SYNC_STATE);
+        return {
+            localModifiedAt: stored?.localModifiedAt ?? {},
+            providers: stored?.providers ?? {},
+        };
+    }
+
+    private async saveState(state: SyncState): Promise<void> {
+        await StorageAdapter.set(StorageKeys.SYNC_STATE, state);
+    }
+}
@@ -0,0 +1,90 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { RemoteEntry, SyncRetryItem } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+
+export const MAX_SYNC_ATTEMPTS = 5;
+const BASE_DELAY_MS = 60_000;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Persisted pushes waiting to be (re)sent. Holds at most one item per anime
+ * and provider — a newer push replaces the one still waiting.
+ */
+export class SyncRetryQueue {
+    async all(): Promise<SyncRetryItem[]> {
+        return (await StorageAdapter.get<SyncRetryItem[]>(StorageKeys.SYNC_QUEUE)) || [];
+    }
+
+    /**
+     * Items for the provider whose next attempt is due
+     */
+    async due(providerId: string, now: Date = new Date()): Promise<SyncRetryItem[]> {
+        return (await this.all()).filter(
+            (item) => item.providerId === providerId && Date.parse(item.nextAttemptAt) <= now.getTime(),
+        );
+    }
+
+    /**
+     * When the provider's earliest waiting push is next due, or null when
+     * nothing is waiting
+     */
+    async nextAttemptAt(providerId: string): Promise<Date | null> {
+        const times = (await this.all())
+            .filter((item) => item.providerId === providerId)
+            .map((item) => Date.parse(item.nextAttemptAt))
+            .filter((time) => !Number.isNaN(time));
+        return times.length > 0 ? new Date(Math.min(...times)) : null;
+    }
+
+    /**
+     * Queue a push to be sent on the next flush
+     */
+    async schedule(providerId: string, animeId: string, entry: RemoteEntry, now: Date = new Date()): Promise<void> {
+        await this.upsert({ providerId, animeId, entry, attempts: 0, nextAttemptAt: now.toISOString() });
+    }
+
+    /**
+     * Record a failed push and back off exponentially. Returns false once the
+     * item ran out of attempts and was dropped.
+     */
+    async recordFailure(
+        providerId: string,
+        animeId: string,
+        entry: RemoteEntry,
+        error: string,
+        now: Date = new Date(),
+    ): Promise<boolean> {
+        const existing = (await this.all()).find((item) => item.providerId === providerId && item.animeId === animeId);
+        const attempts = (existing?.attempts ?? 0) + 1;
+        if (attempts >= MAX_SYNC_ATTEMPTS) {
+            await this.remove(providerId, animeId);
+            return false;
+        }
+
+        const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+        await this.upsert({
+            providerId,
+            animeId,
+            entry,
+            attempts,
+            nextAttemptAt: new Date(now.getTime() + delay).toISOString(),
+            lastError: error,
+        });
+        return true;
+    }
+
+    async remove(providerId: string, animeId: string): Promise<void> {
+        const items = await this.all();
+        const remaining = items.filter((item) => !(item.providerId === providerId && item.animeId === animeId));
+        if (remaining.length !== items.length) {
+            await StorageAdapter.set(StorageKeys.SYNC_QUEUE, remaining);
+        }
+    }
+
+    private async upsert(item: SyncRetryItem): Promise<void> {
+        const items = (await this.all()).filter(
+            (existing) => !(existing.providerId === item.providerId && existing.animeId === item.animeId),
+        );
+        await StorageAdapter.set(StorageKeys.SYNC_QUEUE, [...items, item]);
+    }
+}
@@ -0,0 +1,52 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { SyncToken } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { SyncAuthError } from "./errors";
+import type { SyncProvider } from "./types";
+
+/** Refresh tokens this long before they actually expire */
+const EXPIRY_MARGIN_MS = 60_000;
+
+/**
+ * Per-provider OAuth credentials in extension storage
+ */
+export class SyncTokenStore {
+    async get(providerId: string): Promise<SyncToken | null> {
+        const tokens = (await StorageAdapter.get<Record<string, SyncToken>>(StorageKeys.SYNC_TOKENS)) || {};
+        return tokens[providerId] ?? null;
+    }
+
+    async set(providerId: string, token: SyncToken): Promise<void> {
+        const tokens = (await StorageAdapter.get<Record<string, SyncToken>>(StorageKeys.SYNC_TOKENS)) || {};
+        tokens[providerId] = token;
+        await StorageAdapter.set(StorageKeys.SYNC_TOKENS, tokens);
+    }
+
+    async clear(providerId: string): Promise<void> {
+        const tokens = (await StorageAdapter.get<Record<string, SyncToken>>(StorageKeys.SYNC_TOKENS)) || {};
+        delete tokens[providerId];
+        await StorageAdapter.set(StorageKeys.SYNC_TOKENS, tokens);
+    }
+
+    /**
+     * The stored token, refreshed first when it is about to expire
+     */
+    async getValidToken(provider: SyncProvider, now: Date = new Date()): Promise<SyncToken> {
+        const token = await this.get(provider.id);
+        if (!token) {
+            throw new SyncAuthError(`Not signed in to ${provider.label}`);
+        }
+
+        const expiresAt = token.expiresAt ? Date.parse(token.expiresAt) : NaN;
+        if (isNaN(expiresAt) || expiresAt - now.getTime() > EXPIRY_MARGIN_MS) {
+            return token;
+        }
+        if (!provider.refreshToken || !token.refreshToken) {
+            throw new SyncAuthError(`${provider.label} session expired`);
+        }
+
+        const refreshed = await provider.refreshToken(token);
+        await this.set(provider.id, refreshed);
+        return refreshed;
+    }
+}
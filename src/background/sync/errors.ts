@@ -0,0 +1,23 @@
+/**
+ * The provider rejected or is missing the user's credentials. Retrying will
+ * not help until the user signs in again.
+ */
+export class SyncAuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SyncAuthError";
+    }
+}
+
+/**
+ * The provider answered with a non-success HTTP status
+ */
+export class SyncHttpError extends Error {
+    constructor(
+        readonly status: number,
+        message: string,
+    ) {
+        super(message);
+        this.name = "SyncHttpError";
+    }
+}
@@ -0,0 +1,7 @@
+export { SyncAuthError, SyncHttpError } from "./errors";
+export { HttpSyncProvider } from "./HttpSyncProvider";
+export { SyncEngine } from "./SyncEngine";
+export type { SyncEngineDependencies } from "./SyncEngine";
+export { MAX_SYNC_ATTEMPTS, SyncRetryQueue } from "./SyncRetryQueue";
+export { SyncTokenStore } from "./SyncTokenStore";
+export type { SyncProvider } from "./types";
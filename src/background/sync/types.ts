@@ -0,0 +1,15 @@
+import type { RemoteEntry, SyncToken } from "@/commons/models";
+
+/**
+ * A tracking site the background worker can sync episode progress with.
+ * Entries are addressed by MAL id, which both MAL and AniList expose.
+ */
+export interface SyncProvider {
+    id: string;
+    label: string;
+    fetchEntries(token: SyncToken): Promise<RemoteEntry[]>;
+    /** Store one entry remotely and return it as the provider saved it */
+    pushEntry(token: SyncToken, entry: RemoteEntry): Promise<RemoteEntry>;
+    /** Exchange a refresh token for new credentials */
+    refreshToken?(token: SyncToken): Promise<SyncToken>;
+}
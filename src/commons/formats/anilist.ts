@@ -0,0 +1,82 @@
+import type { ExternalListEntry, ExternalListStatus, ExternalParseResult } from "@/commons/models";
+import type { ListImporter } from "./types";
+
+/**
+ * AniList list export: the MediaListCollection GraphQL response, either
+ * as returned by the API or unwrapped from its `data` envelope
+ */
+
+const ANILIST_STATUSES: Record<string, ExternalListStatus> = {
+    CURRENT: "watching",
+    REPEATING: "watching",
+    COMPLETED: "completed",
+    PAUSED: "on_hold",
+    DROPPED: "dropped",
+    PLANNING: "plan_to_watch",
+};
+
+type JsonObject = Record<string, any>;
+
+function isObject(value: unknown): value is JsonObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toCount(value: unknown): number {
+    return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+}
+
+function toEntry(entry: JsonObject, listStatus: unknown): ExternalListEntry | null {
+    const status = ANILIST_STATUSES[String(entry.status ?? listStatus)];
+    const media = isObject(entry.media) ? entry.media : {};
+    const mediaTitle = isObject(media.title) ? media.title : {};
+    const titles = [mediaTitle.english, mediaTitle.romaji, mediaTitle.native].filter(
+        (title): title is string => typeof title === "string" && title.trim() !== "",
+    );
+    if (!status || titles.length === 0) return null;
+
+    const totalEpisodes = toCount(media.episodes);
+    const malId = toCount(media.idMal);
+    return {
+        title: titles[0],
+        ...(titles.length > 1 ? { alternativeTitles: titles.slice(1) } : {}),
+        status,
+        watchedEpisodes: toCount(entry.progress),
+        ...(totalEpisodes > 0 ? { totalEpisodes } : {}),
+        ...(malId > 0 ? { malId } : {}),
+    };
+}
+
+/**
+ * Read the anime entries of an AniList MediaListCollection export
+ */
+export function parseAniListJson(text: string): ExternalParseResult {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        return { success: false, error: "File is not valid JSON" };
+    }
+
+    const root = isObject(raw) && isObject(raw.data) ? raw.data : raw;
+    const collection = isObject(root) && isObject(root.MediaListCollection) ? root.MediaListCollection : root;
+    if (!isObject(collection) || !Array.isArray(collection.lists)) {
+        return { success: false, error: "File is not an AniList export" };
+    }
+
+    // Custom lists repeat entries that already sit in a status list
+    const entries = collection.lists
+        .filter((list: unknown) => isObject(list) && !list.isCustomList && Array.isArray(list.entries))
+        .flatMap((list: JsonObject) =>
+            list.entries.filter(isObject).map((entry: JsonObject) => toEntry(entry, list.status)),
+        )
+        .filter((entry: ExternalListEntry | null): entry is ExternalListEntry => entry !== null);
+
+    return { success: true, entries };
+}
+
+export const anilistImporter: ListImporter = {
+    id: "anilist",
+    label: "AniList",
+    accept: "application/json,.json",
+    parse: parseAniListJson,
+};
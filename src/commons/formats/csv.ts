@@ -0,0 +1,110 @@
+import type { AnimeUserData, EpisodeProgress, HiddenAnime, LibraryData, PlanToWatch } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import type { CsvColumn, CsvExportOptions, CsvList } from "./types";
+
+/**
+ * Spreadsheet export: one RFC 4180 row per anime across every list
+ */
+
+export const CSV_COLUMNS: { id: CsvColumn; label: string }[] = [
+    { id: "title", label: "Title" },
+    { id: "slug", label: "Slug" },
+    { id: "status", label: "Status" },
+    { id: "currentEpisode", label: "Current Episode" },
+    { id: "totalEpisodes", label: "Total Episodes" },
+    { id: "lastWatched", label: "Last Watched" },
+    { id: "addedAt", label: "Added At" },
+    { id: "folder", label: "Folder" },
+    { id: "posterUrl", label: "Poster URL" },
+    { id: "score", label: "Score" },
+    { id: "tags", label: "Tags" },
+    { id: "notes", label: "Notes" },
+];
+
+export const CSV_LISTS: { id: CsvList; label: string }[] = [
+    { id: "watching", label: "Watching" },
+    { id: "plan_to_watch", label: "Plan to Watch" },
+    { id: "completed", label: "Completed" },
+    { id: "on_hold", label: "On Hold" },
+    { id: "dropped", label: "Dropped" },
+    { id: "hidden", label: "Hidden" },
+];
+
+const RECORD_LISTS = [
+    ["watching", StorageKeys.EPISODE_PROGRESS],
+    ["plan_to_watch", StorageKeys.PLAN_TO_WATCH],
+    ["completed", StorageKeys.COMPLETED],
+    ["on_hold", StorageKeys.ON_HOLD],
+    ["dropped", StorageKeys.DROPPED],
+    ["hidden", StorageKeys.HIDDEN_ANIME],
+] as const;
+
+type CsvRow = Record<CsvColumn, string>;
+
+/**
+ * Quote a field when it holds a comma, quote or line break, doubling any quotes.
+ * A field a spreadsheet would run as a formula (e.g. a title starting with
+ * "=") gets a leading apostrophe so it opens as text.
+ */
+export function escapeCsvField(value: string): string {
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** anime id -> name of the folder it sits in */
+function folderNames(data: LibraryData): Map<string, string> {
+    const names = new Map<string, string>();
+    const order = data[StorageKeys.FOLDER_ORDER];
+    order?.folders.forEach((folder) => {
+        (order.folderContents[folder.id] ?? []).forEach((animeId) => names.set(animeId, folder.name));
+    });
+    return names;
+}
+
+function toRow(
+    record: EpisodeProgress | PlanToWatch | HiddenAnime,
+    list: CsvList,
+    folder: string,
+    userData: AnimeUserData | undefined,
+): CsvRow {
+    const progress = "currentEpisode" in record ? record : undefined;
+    return {
+        title: record.animeTitle,
+        slug: record.animeSlug,
+        status: CSV_LISTS.find((entry) => entry.id === list)?.label ?? list,
+        currentEpisode: progress ? String(progress.currentEpisode) : "",
+        totalEpisodes: progress?.totalEpisodes !== undefined ? String(progress.totalEpisodes) : "",
+        lastWatched: progress?.lastWatched ?? "",
+        addedAt: "addedAt" in record ? record.addedAt : "hiddenAt" in record ? record.hiddenAt : "",
+        folder,
+        posterUrl: ("posterUrl" in record && record.posterUrl) || "",
+        score: userData?.score !== undefined ? String(userData.score) : "",
+        tags: userData?.tags.join(", ") ?? "",
+        notes: userData?.notes ?? "",
+    };
+}
+
+/**
+ * Write the library as CSV with a header row and CRLF line endings
+ */
+export function exportLibraryCsv(data: LibraryData, options: CsvExportOptions = {}): string {
+    const columns = options.columns ?? CSV_COLUMNS.map((column) => column.id);
+    const lists = new Set(options.lists ?? CSV_LISTS.map((list) => list.id));
+    const folders = folderNames(data);
+    const rows: CsvRow[] = [];
+
+    RECORD_LISTS.forEach(([list, key]) => {
+        if (!lists.has(list)) return;
+        Object.values(data[key] as Record<string, EpisodeProgress | PlanToWatch | HiddenAnime>).forEach((record) => {
+            rows.push(
+                toRow(record, list, folders.get(record.animeId) ?? "", data[StorageKeys.USER_DATA][record.animeId]),
+            );
+        });
+    });
+
+    const header = columns.map((id) => CSV_COLUMNS.find((column) => column.id === id)?.label ?? id);
+    return [header, ...rows.map((row) => columns.map((id) => row[id]))]
+        .map((fields) => fields.map(escapeCsvField).join(","))
+        .map((line) => `${line}\r\n`)
+        .join("");
+}
@@ -0,0 +1,20 @@
+import { anilistImporter } from "./anilist";
+import { kitsuImporter } from "./kitsu";
+import { malImporter } from "./mal";
+import type { ListImporter } from "./types";
+
+export const importers: ListImporter[] = [malImporter, anilistImporter, kitsuImporter];
+
+/**
+ * Look up a registered importer by id
+ */
+export function selectImporter(id: string, candidates: readonly ListImporter[] = importers): ListImporter | null {
+    return candidates.find((importer) => importer.id === id) ?? null;
+}
+
+export type { CsvColumn, CsvExportOptions, CsvList, ListImporter } from "./types";
+export { anilistImporter, parseAniListJson } from "./anilist";
+export { kitsuImporter, parseKitsuJson } from "./kitsu";
+export { CSV_COLUMNS, CSV_LISTS, escapeCsvField, exportLibraryCsv } from "./csv";
+export { exportMalXml, malImporter, parseMalXml } from "./mal";
+export { matchExternalEntries, normalizeTitle } from "./matching";
@@ -0,0 +1,95 @@
+import type { ExternalListEntry, ExternalListStatus, ExternalParseResult } from "@/commons/models";
+import type { ListImporter } from "./types";
+
+/**
+ * Kitsu list export: the JSON:API library-entries document with the anime
+ * (and optionally their MAL mappings) in `included`
+ */
+
+const KITSU_STATUSES: Record<string, ExternalListStatus> = {
+    current: "watching",
+    completed: "completed",
+    on_hold: "on_hold",
+    dropped: "dropped",
+    planned: "plan_to_watch",
+};
+
+type JsonObject = Record<string, any>;
+
+function isObject(value: unknown): value is JsonObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toCount(value: unknown): number {
+    const parsed = typeof value === "string" ? parseInt(value, 10) : value;
+    return typeof parsed === "number" && Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : 0;
+}
+
+/** anime id -> MAL id, from `mappings` resources pointing at MyAnimeList */
+function malIdsByAnime(included: JsonObject[]): Map<string, number> {
+    const ids = new Map<string, number>();
+    included
+        .filter((item) => item.type === "mappings" && item.attributes?.externalSite === "myanimelist/anime")
+        .forEach((mapping) => {
+            const animeId = mapping.relationships?.item?.data?.id;
+            const malId = toCount(mapping.attributes?.externalId);
+            if (animeId !== undefined && malId > 0) ids.set(String(animeId), malId);
+        });
+    return ids;
+}
+
+/**
+ * Read the anime entries of a Kitsu library export
+ */
+export function parseKitsuJson(text: string): ExternalParseResult {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        return { success: false, error: "File is not valid JSON" };
+    }
+
+    if (!isObject(raw) || !Array.isArray(raw.data)) {
+        return { success: false, error: "File is not a Kitsu export" };
+    }
+
+    const included: JsonObject[] = Array.isArray(raw.included) ? raw.included.filter(isObject) : [];
+    const anime = new Map(included.filter((item) => item.type === "anime").map((item) => [String(item.id), item]));
+    const malIds = malIdsByAnime(included);
+
+    const entries = raw.data.filter(isObject).flatMap((entry: JsonObject): ExternalListEntry[] => {
+        const status = KITSU_STATUSES[String(entry.attributes?.status)];
+        const ref = entry.relationships?.anime?.data ?? entry.relationships?.media?.data;
+        const media = ref ? anime.get(String(ref.id)) : undefined;
+        if (!status || !media) return [];
+
+        const attributes = isObject(media.attributes) ? media.attributes : {};
+        const titles = [
+            attributes.canonicalTitle,
+            ...(isObject(attributes.titles) ? Object.values(attributes.titles) : []),
+        ].filter((title, index, all): title is string => typeof title === "string" && all.indexOf(title) === index);
+        if (titles.length === 0) return [];
+
+        const totalEpisodes = toCount(attributes.episodeCount);
+        const malId = malIds.get(String(media.id));
+        return [
+            {
+                title: titles[0],
+                ...(titles.length > 1 ? { alternativeTitles: titles.slice(1) } : {}),
+                status,
+                watchedEpisodes: toCount(entry.attributes?.progress),
+                ...(totalEpisodes > 0 ? { totalEpisodes } : {}),
+                ...(malId !== undefined ? { malId } : {}),
+            },
+        ];
+    });
+
+    return { success: true, entries };
+}
+
+export const kitsuImporter: ListImporter = {
+    id: "kitsu",
+    label: "Kitsu",
+    accept: "application/json,.json",
+    parse: parseKitsuJson,
+};
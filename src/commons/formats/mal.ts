@@ -0,0 +1,159 @@
+import type {
+    AnimeUserData,
+    EpisodeProgress,
+    ExternalListStatus,
+    ExternalParseResult,
+    LibraryData,
+    PlanToWatch,
+} from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import type { ListImporter } from "./types";
+
+/**
+ * MyAnimeList list export (the XML file from "Export My List")
+ */
+
+/** MAL writes statuses as text; older exports and third-party tools use the numeric codes */
+const MAL_STATUSES: Record<string, ExternalListStatus> = {
+    watching: "watching",
+    completed: "completed",
+    "on-hold": "on_hold",
+    dropped: "dropped",
+    "plan to watch": "plan_to_watch",
+    "1": "watching",
+    "2": "completed",
+    "3": "on_hold",
+    "4": "dropped",
+    "6": "plan_to_watch",
+};
+
+const STATUS_LABELS: Record<ExternalListStatus, string> = {
+    watching: "Watching",
+    completed: "Completed",
+    on_hold: "On-Hold",
+    dropped: "Dropped",
+    plan_to_watch: "Plan to Watch",
+};
+
+const EXPORT_LISTS = [
+    [StorageKeys.EPISODE_PROGRESS, "watching"],
+    [StorageKeys.COMPLETED, "completed"],
+    [StorageKeys.ON_HOLD, "on_hold"],
+    [StorageKeys.DROPPED, "dropped"],
+    [StorageKeys.PLAN_TO_WATCH, "plan_to_watch"],
+] as const;
+
+function childText(parent: Element, tag: string): string {
+    return parent.getElementsByTagName(tag)[0]?.textContent?.trim() ?? "";
+}
+
+function toCount(value: string): number {
+    const parsed = parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+/**
+ * Read the anime entries of a MAL XML export
+ */
+export function parseMalXml(text: string): ExternalParseResult {
+    const doc = new DOMParser().parseFromString(text, "application/xml");
+    if (doc.getElementsByTagName("parsererror").length > 0) {
+        return { success: false, error: "File is not valid XML" };
+    }
+    if (doc.documentElement.nodeName !== "myanimelist") {
+        return { success: false, error: "File is not a MyAnimeList export" };
+    }
+
+    const entries = Array.from(doc.getElementsByTagName("anime")).flatMap((node) => {
+        const status = MAL_STATUSES[childText(node, "my_status").toLowerCase()];
+        const title = childText(node, "series_title");
+        if (!status || !title) return [];
+
+        const malId = toCount(childText(node, "series_animedb_id"));
+        const totalEpisodes = toCount(childText(node, "series_episodes"));
+        return [
+            {
+                title,
+                status,
+                watchedEpisodes: toCount(childText(node, "my_watched_episodes")),
+                ...(totalEpisodes > 0 ? { totalEpisodes } : {}),
+                ...(malId > 0 ? { malId } : {}),
+            },
+        ];
+    });
+
+    return { success: true, entries };
+}
+
+export const malImporter: ListImporter = {
+    id: "mal",
+    label: "MyAnimeList",
+    accept: "application/xml,text/xml,.xml",
+    parse: parseMalXml,
+};
+
+function cdata(value: string): string {
+    return `<![CDATA[${value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function animeNode(
+    record: EpisodeProgress | PlanToWatch,
+    status: ExternalListStatus,
+    userData: AnimeUserData | undefined,
+): string {
+    const progress = "currentEpisode" in record ? record : undefined;
+    const totalEpisodes = progress?.totalEpisodes ?? 0;
+    const watched = status === "completed" ? totalEpisodes || progress?.currentEpisode : progress?.currentEpisode;
+
+    return [
+        "    <anime>",
+        `        <series_animedb_id>${record.malId ?? 0}</series_animedb_id>`,
+        `        <series_title>${cdata(record.animeTitle)}</series_title>`,
+        `        <series_episodes>${totalEpisodes}</series_episodes>`,
+        `        <my_watched_episodes>${watched ?? 0}</my_watched_episodes>`,
+        `        <my_score>${userData?.score ?? 0}</my_score>`,
+        `        <my_status>${STATUS_LABELS[status]}</my_status>`,
+        `        <my_comments>${cdata(userData?.notes ?? "")}</my_comments>`,
+        `        <my_tags>${cdata(userData?.tags.join(", ") ?? "")}</my_tags>`,
+        "        <update_on_import>1</update_on_import>",
+        "    </anime>",
+    ].join("\n");
+}
+
+/**
+ * Write the library as a MAL XML export that MAL's list importer accepts
+ */
+export function exportMalXml(data: LibraryData): string {
+    const nodes: string[] = [];
+    const totals: Record<ExternalListStatus, number> = {
+        watching: 0,
+        completed: 0,
+        on_hold: 0,
+        dropped: 0,
+        plan_to_watch: 0,
+    };
+
+    EXPORT_LISTS.forEach(([key, status]) => {
+        Object.values(data[key] as Record<string, EpisodeProgress | PlanToWatch>).forEach((record) => {
+            nodes.push(animeNode(record, status, data[StorageKeys.USER_DATA][record.animeId]));
+            totals[status] += 1;
+        });
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8" ?>',
+        "<myanimelist>",
+        "    <myinfo>",
+        "        <user_export_type>1</user_export_type>",
+        `        <user_total_anime>${nodes.length}</user_total_anime>`,
+        `        <user_total_watching>${totals.watching}</user_total_watching>`,
+        `        <user_total_completed>${totals.completed}</user_total_completed>`,
+        `        <user_total_onhold>${totals.on_hold}</user_total_onhold>`,
+        `        <user_total_dropped>${totals.dropped}</user_total_dropped>`,
+        `        <user_total_plantowatch>${totals.plan_to_watch}</user_total_plantowatch>`,
+        "    </myinfo>",
+        ...nodes,
+        "</myanimelist>",
+        "",
+    ].join("\n");
+}
@@ -0,0 +1,129 @@
+import type { EpisodeProgress, ExternalImport, ExternalListEntry, LibraryData, PlanToWatch } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { LibraryBackupService } from "@/commons/services/LibraryBackupService";
+
+type LocalRecord = EpisodeProgress | PlanToWatch;
+
+/** Local lists searched for a match, most specific progress first */
+const MATCH_LISTS = [
+    StorageKeys.EPISODE_PROGRESS,
+    StorageKeys.ON_HOLD,
+    StorageKeys.DROPPED,
+    StorageKeys.COMPLETED,
+    StorageKeys.PLAN_TO_WATCH,
+] as const;
+
+/**
+ * Reduce a title to lowercase ASCII letters and digits so "Re:Zero", "Re Zero"
+ * and "RE:ZERO" compare equal
+ */
+export function normalizeTitle(title: string): string {
+    return title
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "");
+}
+
+function isProgress(record: LocalRecord): record is EpisodeProgress {
+    return "currentEpisode" in record;
+}
+
+function toProgress(record: LocalRecord, entry: ExternalListEntry, now: string): EpisodeProgress {
+    const previous = isProgress(record) ? record : undefined;
+    const totalEpisodes = entry.totalEpisodes ?? previous?.totalEpisodes;
+    const watched =
+        entry.status === "completed" && entry.watchedEpisodes === 0 ? (totalEpisodes ?? 0) : entry.watchedEpisodes;
+    const currentEpisode = Math.max(1, watched);
+
+    const progress: EpisodeProgress = {
+        animeId: record.animeId,
+        animeTitle: record.animeTitle,
+        animeSlug: record.animeSlug,
+        currentEpisode,
+        episodeId:
+            previous?.currentEpisode === currentEpisode
+                ? previous.episodeId
+                : `${record.animeSlug}-episode-${currentEpisode}`,
+        lastWatched: previous?.lastWatched ?? now,
+    };
+    if (totalEpisodes !== undefined) progress.totalEpisodes = totalEpisodes;
+    if (previous?.posterUrl) progress.posterUrl = previous.posterUrl;
+    const malId = entry.malId ?? record.malId;
+    if (malId !== undefined) progress.malId = malId;
+    return progress;
+}
+
+/**
+ * Put one matched entry into the list its status maps to. Timestamps the local
+ * record already has for that list are kept.
+ */
+function placeEntry(data: LibraryData, record: LocalRecord, entry: ExternalListEntry, now: string): void {
+    const id = record.animeId;
+    const keep = (field: string): string => (record as unknown as Record<string, string | undefined>)[field] ?? now;
+
+    switch (entry.status) {
+        case "watching":
+            data[StorageKeys.EPISODE_PROGRESS][id] = toProgress(record, entry, now);
+            break;
+        case "completed":
+            data[StorageKeys.COMPLETED][id] = { ...toProgress(record, entry, now), completedAt: keep("completedAt") };
+            break;
+        case "on_hold":
+            data[StorageKeys.ON_HOLD][id] = { ...toProgress(record, entry, now), pausedAt: keep("pausedAt") };
+            break;
+        case "dropped":
+            data[StorageKeys.DROPPED][id] = { ...toProgress(record, entry, now), droppedAt: keep("droppedAt") };
+            break;
+        case "plan_to_watch": {
+            const plan: PlanToWatch = {
+                animeId: id,
+                animeTitle: record.animeTitle,
+                animeSlug: record.animeSlug,
+                addedAt: keep("addedAt"),
+            };
+            const malId = entry.malId ?? record.malId;
+            if (malId !== undefined) plan.malId = malId;
+            data[StorageKeys.PLAN_TO_WATCH][id] = plan;
+            break;
+        }
+    }
+}
+
+/**
+ * Match another tracker's entries onto anime the library already knows, by
+ * MAL id first and normalized title (or any alternative title) second. Anime
+ * the user never opened on a supported site have no slug to link to, so they
+ * come back as unmatched.
+ */
+export function matchExternalEntries(local: LibraryData, entries: ExternalListEntry[]): ExternalImport {
+    const byMalId = new Map<number, LocalRecord>();
+    const byTitle = new Map<string, LocalRecord>();
+    for (const key of MATCH_LISTS) {
+        Object.values(local[key] as Record<string, LocalRecord>).forEach((record) => {
+            if (record.malId !== undefined && !byMalId.has(record.malId)) byMalId.set(record.malId, record);
+            const title = normalizeTitle(record.animeTitle || "");
+            if (title && !byTitle.has(title)) byTitle.set(title, record);
+        });
+    }
+
+    const now = new Date().toISOString();
+    const data = LibraryBackupService.emptyLibrary();
+    const unmatched: ExternalListEntry[] = [];
+    let matched = 0;
+
+    entries.forEach((entry) => {
+        const titles = [entry.title, ...(entry.alternativeTitles ?? [])];
+        const record =
+            (entry.malId !== undefined ? byMalId.get(entry.malId) : undefined) ??
+            titles.map((title) => byTitle.get(normalizeTitle(title))).find(Boolean);
+        if (!record) {
+            unmatched.push(entry);
+            return;
+        }
+        placeEntry(data, record, entry, now);
+        matched += 1;
+    });
+
+    return { backup: LibraryBackupService.createBackup(data), matched, unmatched };
+}
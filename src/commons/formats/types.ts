@@ -0,0 +1,38 @@
+import type { ExternalParseResult } from "@/commons/models";
+
+/**
+ * Reads another tracker's list export. Importers only parse — matching onto
+ * the library and merging is shared by all of them.
+ */
+export interface ListImporter {
+    id: string;
+    /** Tracker name shown in the options page */
+    label: string;
+    /** `accept` attribute for the file picker */
+    accept: string;
+    parse(text: string): ExternalParseResult;
+}
+
+export type CsvColumn =
+    | "title"
+    | "slug"
+    | "status"
+    | "currentEpisode"
+    | "totalEpisodes"
+    | "lastWatched"
+    | "addedAt"
+    | "folder"
+    | "posterUrl"
+    | "score"
+    | "tags"
+    | "notes";
+
+/** Lists a CSV export can be filtered to */
+export type CsvList = "watching" | "plan_to_watch" | "completed" | "on_hold" | "dropped" | "hidden";
+
+export interface CsvExportOptions {
+    /** Columns in output order; defaults to every column */
+    columns?: CsvColumn[];
+    /** Lists to include; defaults to every list */
+    lists?: CsvList[];
+}
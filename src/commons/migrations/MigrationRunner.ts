@@ -0,0 +1,71 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import { StorageKeys } from "@/commons/models";
+import { MIGRATIONS } from "./registry";
+import type { MigrationReport, StorageMigration } from "./types";
+
+/**
+ * Applies pending storage migrations in version order.
+ *
+ * The schema version is persisted after each step, so an interrupted run
+ * resumes from the last completed step instead of starting over.
+ */
+export class MigrationRunner {
+    private readonly migrations: readonly StorageMigration[];
+    private running: Promise<MigrationReport> | null = null;
+
+    constructor(migrations: readonly StorageMigration[] = MIGRATIONS) {
+        const versions = migrations.map((m) => m.version);
+        const isOrdered = versions.every((v, i) => i === 0 || v > versions[i - 1]);
+        if (!isOrdered) {
+            throw new Error("Migrations must be registered in strictly increasing version order");
+        }
+        this.migrations = migrations;
+    }
+
+    /**
+     * Get the schema version currently stored (0 for data written before versioning)
+     */
+    async getStoredVersion(): Promise<number> {
+        const stored = await StorageAdapter.get<number>(StorageKeys.SCHEMA_VERSION);
+        return typeof stored === "number" ? stored : 0;
+    }
+
+    /**
+     * Run every migration newer than the stored version.
+     * Concurrent calls share the same run.
+     */
+    run(): Promise<MigrationReport> {
+        if (!this.running) {
+            this.running = this.applyPending().finally(() => {
+                this.running = null;
+            });
+        }
+        return this.running;
+    }
+
+    private async applyPending(): Promise<MigrationReport> {
+        const fromVersion = await this.getStoredVersion();
+        const applied: number[] = [];
+        let version = fromVersion;
+
+        for (const migration of this.migrations) {
+            if (migration.version <= version) continue;
+
+            const snapshot = await StorageAdapter.getMultiple(migration.keys);
+            const changes = migration.migrate(snapshot);
+
+            if (changes.set && Object.keys(changes.set).length > 0) {
+                await StorageAdapter.setMultiple(changes.set);
+            }
+            if (changes.remove && changes.remove.length > 0) {
+                await StorageAdapter.removeMultiple(changes.remove);
+            }
+
+            version = migration.version;
+            await StorageAdapter.set(StorageKeys.SCHEMA_VERSION, version);
+            applied.push(version);
+        }
+
+        return { fromVersion, toVersion: version, applied };
+    }
+}
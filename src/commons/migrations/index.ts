@@ -0,0 +1,3 @@
+export { MigrationRunner } from "./MigrationRunner";
+export { CURRENT_SCHEMA_VERSION, MIGRATIONS } from "./registry";
+export type { MigrationReport, StorageChanges, StorageMigration, StorageSnapshot } from "./types";
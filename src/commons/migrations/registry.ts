@@ -0,0 +1,24 @@
+import { folderOrderFromTileOrder } from "./steps/v1FolderOrderFromTileOrder";
+import { normalizeEpisodeProgress } from "./steps/v2NormalizeEpisodeProgress";
+import { normalizeHiddenAnime } from "./steps/v3NormalizeHiddenAnime";
+import { splitPerAnimeKeys } from "./steps/v4SplitPerAnimeKeys";
+import { hiddenAnimeRecords } from "./steps/v5HiddenAnimeRecords";
+import { dailyWatchHistory } from "./steps/v6DailyWatchHistory";
+import { dailyActivityLog } from "./steps/v7DailyActivityLog";
+import type { StorageMigration } from "./types";
+
+/**
+ * Ordered storage migrations. Append new steps with the next version number;
+ * never renumber or remove a shipped step.
+ */
+export const MIGRATIONS: readonly StorageMigration[] = [
+    folderOrderFromTileOrder,
+    normalizeEpisodeProgress,
+    normalizeHiddenAnime,
+    splitPerAnimeKeys,
+    hiddenAnimeRecords,
+    dailyWatchHistory,
+    dailyActivityLog,
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
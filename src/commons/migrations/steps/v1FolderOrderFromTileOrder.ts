@@ -0,0 +1,28 @@
+import type { FolderOrder, TileOrder } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import type { StorageMigration } from "../types";
+
+/**
+ * Seed `folderOrder` from the legacy flat `tileOrder` so the content script's
+ * runtime fallback in `loadFolderOrder` is no longer the only place the old
+ * layout is understood.
+ */
+export const folderOrderFromTileOrder: StorageMigration = {
+    version: 1,
+    description: "Create folderOrder from legacy tileOrder",
+    keys: [StorageKeys.FOLDER_ORDER, StorageKeys.TILE_ORDER],
+    migrate(snapshot) {
+        if (snapshot[StorageKeys.FOLDER_ORDER]) return {};
+
+        const tileOrder = snapshot[StorageKeys.TILE_ORDER] as TileOrder | undefined;
+        if (!tileOrder || !Array.isArray(tileOrder.animeIds) || tileOrder.animeIds.length === 0) return {};
+
+        const folderOrder: FolderOrder = {
+            folders: [],
+            rootItems: [...tileOrder.animeIds],
+            folderContents: {},
+            lastUpdated: tileOrder.lastUpdated || new Date().toISOString(),
+        };
+        return { set: { [StorageKeys.FOLDER_ORDER]: folderOrder } };
+    },
+};
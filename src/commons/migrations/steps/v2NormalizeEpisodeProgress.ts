@@ -0,0 +1,61 @@
+import type { EpisodeProgress } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import type { StorageMigration } from "../types";
+
+function toEpisodeNumber(value: unknown): number | undefined {
+    const parsed = typeof value === "string" ? Number.parseInt(value, 10) : value;
+    return typeof parsed === "number" && Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : undefined;
+}
+
+/**
+ * Bring every `episodeProgress` record to the current `EpisodeProgress` shape:
+ * numeric episode fields, an `episodeId`, and a map key equal to `animeId`.
+ * Records without an anime id cannot be addressed by any repository and are
+ * dropped.
+ */
+export const normalizeEpisodeProgress: StorageMigration = {
+    version: 2,
+    description: "Normalize episodeProgress records",
+    keys: [StorageKeys.EPISODE_PROGRESS],
+    migrate(snapshot) {
+        const stored = snapshot[StorageKeys.EPISODE_PROGRESS];
+        if (!stored || typeof stored !== "object" || Array.isArray(stored)) return {};
+
+        let changed = false;
+        const normalized: Record<string, EpisodeProgress> = {};
+
+        for (const [key, raw] of Object.entries(stored as Record<string, Partial<EpisodeProgress>>)) {
+            const animeId = raw?.animeId || key;
+            if (!raw || typeof raw !== "object" || !animeId) {
+                changed = true;
+                continue;
+            }
+
+            const animeSlug = raw.animeSlug || animeId;
+            const currentEpisode = toEpisodeNumber(raw.currentEpisode) ?? 1;
+            const record: EpisodeProgress = {
+                ...(raw as EpisodeProgress),
+                animeId,
+                animeTitle: raw.animeTitle || animeSlug,
+                animeSlug,
+                currentEpisode,
+                episodeId: raw.episodeId || `${animeSlug}-episode-${currentEpisode}`,
+                lastWatched: raw.lastWatched || new Date(0).toISOString(),
+            };
+
+            const totalEpisodes = toEpisodeNumber(raw.totalEpisodes);
+            if (totalEpisodes === undefined) {
+                delete record.totalEpisodes;
+            } else {
+                record.totalEpisodes = totalEpisodes;
+            }
+
+            if (key !== animeId || JSON.stringify(record) !== JSON.stringify(raw)) {
+                changed = true;
+            }
+            normalized[animeId] = record;
+        }
+
+        return changed ? { set: { [StorageKeys.EPISODE_PROGRESS]: normalized } } : {};
+    },
+};
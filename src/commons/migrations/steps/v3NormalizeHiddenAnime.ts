@@ -0,0 +1,21 @@
+import { StorageKeys } from "@/commons/models";
+import type { StorageMigration } from "../types";
+
+/**
+ * `hiddenAnime` must be an array of unique, non-empty anime ids.
+ */
+export const normalizeHiddenAnime: StorageMigration = {
+    version: 3,
+    description: "Deduplicate hiddenAnime ids",
+    keys: [StorageKeys.HIDDEN_ANIME],
+    migrate(snapshot) {
+        const stored = snapshot[StorageKeys.HIDDEN_ANIME];
+        if (stored === undefined || stored === null) return {};
+
+        const ids = Array.isArray(stored) ? stored : [];
+        const normalized = [...new Set(ids.filter((id): id is string => typeof id === "string" && id.length > 0))];
+
+        if (Array.isArray(stored) && normalized.length === stored.length) return {};
+        return { set: { [StorageKeys.HIDDEN_ANIME]: normalized } };
+    },
+};
@@ -0,0 +1,38 @@
+import { StorageKeys } from "@/commons/models";
+import { animeItemKey, PER_ANIME_LISTS, type PerAnimeList } from "@/commons/utils/storageKeys";
+import type { StorageChanges, StorageMigration } from "../types";
+
+const LISTS = Object.keys(PER_ANIME_LISTS) as PerAnimeList[];
+
+/**
+ * Move `episodeProgress` and `planToWatch` from one `animeId -> record` map
+ * to one storage key per anime plus an id index, then drop the old map.
+ * Ids already in an index (written by a newer build) are kept in front.
+ */
+export const splitPerAnimeKeys: StorageMigration = {
+    version: 4,
+    description: "Store episodeProgress and planToWatch one key per anime",
+    keys: [StorageKeys.EPISODE_PROGRESS, StorageKeys.PLAN_TO_WATCH, ...LISTS.map((list) => PER_ANIME_LISTS[list])],
+    migrate(snapshot) {
+        const changes: Required<StorageChanges> = { set: {}, remove: [] };
+
+        for (const list of LISTS) {
+            const stored = snapshot[list];
+            if (stored === undefined) continue;
+            changes.remove.push(list);
+            if (!stored || typeof stored !== "object" || Array.isArray(stored)) continue;
+
+            const existing = snapshot[PER_ANIME_LISTS[list]];
+            const index = Array.isArray(existing) ? [...existing] : [];
+            for (const [animeId, record] of Object.entries(stored as Record<string, unknown>)) {
+                if (!record || typeof record !== "object") continue;
+                changes.set[animeItemKey(list, animeId)] = record;
+                if (!index.includes(animeId)) index.push(animeId);
+            }
+            changes.set[PER_ANIME_LISTS[list]] = index;
+        }
+
+        if (changes.remove.length === 0) return {};
+        return changes;
+    },
+};
@@ -0,0 +1,30 @@
+import type { HiddenAnime } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import type { StorageMigration } from "../types";
+
+/**
+ * Turn the `hiddenAnime` id array into an `animeId -> HiddenAnime` map. Old
+ * entries only have an id, so it stands in for the title and slug, and the
+ * unknown hide date is the epoch.
+ */
+export const hiddenAnimeRecords: StorageMigration = {
+    version: 5,
+    description: "Store hiddenAnime as records",
+    keys: [StorageKeys.HIDDEN_ANIME],
+    migrate(snapshot) {
+        const stored = snapshot[StorageKeys.HIDDEN_ANIME];
+        if (!Array.isArray(stored)) return {};
+
+        const records: Record<string, HiddenAnime> = {};
+        for (const animeId of stored) {
+            if (typeof animeId !== "string" || !animeId || records[animeId]) continue;
+            records[animeId] = {
+                animeId,
+                animeTitle: animeId,
+                animeSlug: animeId,
+                hiddenAt: new Date(0).toISOString(),
+            };
+        }
+        return { set: { [StorageKeys.HIDDEN_ANIME]: records } };
+    },
+};
@@ -0,0 +1,30 @@
+import { StorageKeys } from "@/commons/models";
+import { groupByDay } from "@/commons/repositories/DailyLogRepository";
+import { dayBucketKey } from "@/commons/utils/storageKeys";
+import type { StorageChanges, StorageMigration } from "../types";
+
+/**
+ * Move `watchHistory` from one array to one storage key per day plus a day
+ * index, then drop the array. Entries keep their order within a day.
+ */
+export const dailyWatchHistory: StorageMigration = {
+    version: 6,
+    description: "Store watchHistory one key per day",
+    keys: [StorageKeys.WATCH_HISTORY],
+    migrate(snapshot) {
+        const stored = snapshot[StorageKeys.WATCH_HISTORY];
+        if (stored === undefined) return {};
+
+        const changes: Required<StorageChanges> = { set: {}, remove: [StorageKeys.WATCH_HISTORY] };
+        if (!Array.isArray(stored)) return changes;
+
+        const days = groupByDay(
+            stored.filter((entry): entry is { timestamp: string } => typeof entry?.timestamp === "string"),
+        );
+        days.forEach((entries, day) => {
+            changes.set[dayBucketKey(StorageKeys.WATCH_HISTORY, day)] = entries;
+        });
+        changes.set[StorageKeys.WATCH_HISTORY_INDEX] = [...days.keys()].sort();
+        return changes;
+    },
+};
@@ -0,0 +1,30 @@
+import { StorageKeys } from "@/commons/models";
+import { groupByDay } from "@/commons/repositories/DailyLogRepository";
+import { dayBucketKey } from "@/commons/utils/storageKeys";
+import type { StorageChanges, StorageMigration } from "../types";
+
+/**
+ * Move `activityLog` from one array to one storage key per day plus a day
+ * index, then drop the array, like `watchHistory` in v6.
+ */
+export const dailyActivityLog: StorageMigration = {
+    version: 7,
+    description: "Store activityLog one key per day",
+    keys: [StorageKeys.ACTIVITY_LOG],
+    migrate(snapshot) {
+        const stored = snapshot[StorageKeys.ACTIVITY_LOG];
+        if (stored === undefined) return {};
+
+        const changes: Required<StorageChanges> = { set: {}, remove: [StorageKeys.ACTIVITY_LOG] };
+        if (!Array.isArray(stored)) return changes;
+
+        const days = groupByDay(
+            stored.filter((event): event is { timestamp: string } => typeof event?.timestamp === "string"),
+        );
+        days.forEach((events, day) => {
+            changes.set[dayBucketKey(StorageKeys.ACTIVITY_LOG, day)] = events;
+        });
+        changes.set[StorageKeys.ACTIVITY_LOG_INDEX] = [...days.keys()].sort();
+        return changes;
+    },
+};
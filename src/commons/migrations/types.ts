@@ -0,0 +1,36 @@
+/**
+ * Values read from storage for the keys a migration declares.
+ * Keys that are not present in storage are simply absent.
+ */
+export type StorageSnapshot = Record<string, unknown>;
+
+/**
+ * Writes produced by a migration step. Keys listed in `remove` are deleted
+ * after `set` is applied.
+ */
+export interface StorageChanges {
+    set?: Record<string, unknown>;
+    remove?: string[];
+}
+
+/**
+ * One step of the storage schema history.
+ *
+ * `migrate` is a pure function of the snapshot so it can be unit-tested
+ * without chrome.storage, and it must be idempotent: running it on data it
+ * already migrated has to return no changes (or the same values).
+ */
+export interface StorageMigration {
+    /** Schema version the data is at once this step has run */
+    version: number;
+    description: string;
+    /** Storage keys read into the snapshot */
+    keys: string[];
+    migrate(snapshot: StorageSnapshot): StorageChanges;
+}
+
+export interface MigrationReport {
+    fromVersion: number;
+    toVersion: number;
+    applied: number[];
+}
@@ -0,0 +1,30 @@
+/** Kinds of change recorded in the activity log */
+export type ActivityAction =
+    | "started"
+    | "episode"
+    | "planned"
+    | "completed"
+    | "dropped"
+    | "paused"
+    | "resumed"
+    | "hidden"
+    | "unhidden"
+    | "removed";
+
+/**
+ * One successful change to an anime's list status, as shown in the activity
+ * feed. Unlike the watch history this covers every transition, not just
+ * episode progress.
+ */
+export interface ActivityEvent {
+    animeId: string;
+    /** Title when the change was made; the anime id when it wasn't known */
+    animeTitle: string;
+    action: ActivityAction;
+    /** Episode the anime is at afterwards, for changes that involve progress */
+    episode?: number;
+    timestamp: string;
+}
+
+/** Events kept in the log; the oldest are dropped beyond this */
+export const MAX_ACTIVITY_EVENTS = 2000;
@@ -11,6 +11,13 @@ export enum AnimeAction {
     UPDATE_EPISODE = "updateEpisode",
     HIDE = "hide",
     UNHIDE = "unhide",
+    COMPLETE = "complete",
+    DROP = "drop",
+    PUT_ON_HOLD = "putOnHold",
+    RESUME = "resume",
+    REMOVE_FROM_COMPLETED = "removeFromCompleted",
+    REMOVE_FROM_DROPPED = "removeFromDropped",
+    REMOVE_FROM_ON_HOLD = "removeFromOnHold",
 }
 
 // Validation result for state transitions
@@ -34,8 +41,15 @@ export interface AnimeStatus {
     isTracked: boolean;
     isPlanned: boolean;
     isHidden: boolean;
+    isCompleted?: boolean;
+    isDropped?: boolean;
+    isOnHold?: boolean;
     progress?: EpisodeProgress;
     plan?: PlanToWatch;
+    completed?: CompletedAnime;
+    dropped?: DroppedAnime;
+    onHold?: OnHoldAnime;
+    hidden?: HiddenAnime;
 }
 
 // UI Control configuration
@@ -53,6 +67,10 @@ export enum ButtonType {
     EPISODE_CONTROLS = "episodeControls",
     HIDE = "hide",
     UNHIDE = "unhide",
+    COMPLETE = "complete",
+    DROP = "drop",
+    PUT_ON_HOLD = "putOnHold",
+    RESUME = "resume",
 }
 
 // Toast notification types
@@ -64,7 +82,15 @@ export interface Toast {
 }
 
 // Import existing models
-import type { AnimeData, EpisodeProgress, PlanToWatch } from "./index";
+import type {
+    AnimeData,
+    CompletedAnime,
+    DroppedAnime,
+    EpisodeProgress,
+    HiddenAnime,
+    OnHoldAnime,
+    PlanToWatch,
+} from "./index";
 
 // Re-export existing models for convenience
-export type { AnimeData, EpisodeProgress, PlanToWatch };
+export type { AnimeData, CompletedAnime, DroppedAnime, EpisodeProgress, OnHoldAnime, PlanToWatch };
@@ -0,0 +1,122 @@
+import type {
+    AnimeUserData,
+    CompletedAnime,
+    DroppedAnime,
+    EpisodeProgress,
+    FolderOrder,
+    HiddenAnime,
+    OnHoldAnime,
+    PlanToWatch,
+    TileOrder,
+} from "./index";
+import { StorageKeys } from "./index";
+
+/**
+ * Library backup / import models
+ */
+
+/** Storage keys that hold one entry per anime */
+export type AnimeListKey =
+    | StorageKeys.EPISODE_PROGRESS
+    | StorageKeys.PLAN_TO_WATCH
+    | StorageKeys.COMPLETED
+    | StorageKeys.ON_HOLD
+    | StorageKeys.DROPPED
+    | StorageKeys.HIDDEN_ANIME;
+
+/** Storage keys that describe how the user arranged their listing pages */
+export type LayoutKey = StorageKeys.FOLDER_ORDER | StorageKeys.TILE_ORDER;
+
+export type BackupListKey = AnimeListKey | StorageKeys.USER_DATA | LayoutKey;
+
+/**
+ * Everything a backup carries, keyed by storage key
+ */
+export interface LibraryData {
+    [StorageKeys.EPISODE_PROGRESS]: Record<string, EpisodeProgress>;
+    [StorageKeys.PLAN_TO_WATCH]: Record<string, PlanToWatch>;
+    [StorageKeys.COMPLETED]: Record<string, CompletedAnime>;
+    [StorageKeys.ON_HOLD]: Record<string, OnHoldAnime>;
+    [StorageKeys.DROPPED]: Record<string, DroppedAnime>;
+    [StorageKeys.HIDDEN_ANIME]: Record<string, HiddenAnime>;
+    [StorageKeys.USER_DATA]: Record<string, AnimeUserData>;
+    [StorageKeys.FOLDER_ORDER]: FolderOrder | null;
+    [StorageKeys.TILE_ORDER]: TileOrder | null;
+}
+
+export interface LibraryBackup {
+    format: "anime-list-backup";
+    /** Version of the backup envelope */
+    version: number;
+    /** Storage schema version the data was written with */
+    schemaVersion: number;
+    exportedAt: string;
+    data: LibraryData;
+}
+
+export type BackupParseResult = { success: true; backup: LibraryBackup } | { success: false; error: string };
+
+/**
+ * How an incoming list is combined with the local one
+ * - merge: add new entries, overwrite changed ones, keep local-only entries
+ * - replace: the list becomes the incoming one
+ * - skip: the list is left untouched
+ */
+export type ImportMode = "merge" | "replace" | "skip";
+
+export interface ImportEntry {
+    id: string;
+    title: string;
+}
+
+export interface ImportConflict extends ImportEntry {
+    reason: string;
+}
+
+export interface ImportListPlan {
+    key: BackupListKey;
+    mode: ImportMode;
+    added: ImportEntry[];
+    changed: ImportEntry[];
+    removed: ImportEntry[];
+    conflicts: ImportConflict[];
+    unchanged: number;
+}
+
+export interface ImportPlan {
+    lists: Record<BackupListKey, ImportListPlan>;
+    /** Library as it will be stored once the plan is applied */
+    result: LibraryData;
+    /** Keys whose stored value changes when the plan is applied */
+    touched: BackupListKey[];
+}
+
+/**
+ * Other trackers' list exports
+ */
+
+/** List statuses every supported tracker knows */
+export type ExternalListStatus = "watching" | "completed" | "on_hold" | "dropped" | "plan_to_watch";
+
+/** One entry of another tracker's export, reduced to what maps onto our lists */
+export interface ExternalListEntry {
+    title: string;
+    /** Other titles the tracker knows the anime by (romaji, English, ...) */
+    alternativeTitles?: string[];
+    status: ExternalListStatus;
+    watchedEpisodes: number;
+    totalEpisodes?: number;
+    malId?: number;
+}
+
+export type ExternalParseResult = { success: true; entries: ExternalListEntry[] } | { success: false; error: string };
+
+/**
+ * External entries matched onto local anime. Matched entries are carried in
+ * `backup` so they go through the regular import preview.
+ */
+export interface ExternalImport {
+    backup: LibraryBackup;
+    matched: number;
+    unmatched: ExternalListEntry[];
+}
@@ -0,0 +1,23 @@
+/** An anime on a user-created list, with what's needed to show it without a watch status */
+export interface CustomListEntry {
+    animeId: string;
+    animeTitle: string;
+    animeSlug: string;
+    posterUrl?: string;
+    siteId?: string;
+    episodeUrlTemplate?: string;
+    addedAt: string;
+}
+
+/**
+ * A list the user named themselves ("Rewatch with friends", "Seasonal 2026").
+ * Membership is independent of an anime's watch status, and an anime can be
+ * on any number of these lists.
+ */
+export interface CustomList {
+    id: string;
+    name: string;
+    entries: CustomListEntry[];
+    createdAt: string;
+    updatedAt: string;
+}
@@ -0,0 +1,21 @@
+/**
+ * How a hide rule reads a listing tile's title
+ * - keyword: the title contains the text, ignoring case
+ * - pattern: the title matches the text as a regular expression, ignoring case
+ */
+export type HideRuleKind = "keyword" | "pattern";
+
+/**
+ * A rule that hides listing tiles by their title ("Recap", "Season 2 Dub").
+ * Matched tiles are collapsed on the page; the anime is never added to the
+ * hidden list, so removing the rule brings it back.
+ */
+export interface HideRule {
+    id: string;
+    kind: HideRuleKind;
+    /** Keyword, or regular expression source for patterns */
+    value: string;
+    /** Disabled rules are kept but match nothing */
+    enabled: boolean;
+    createdAt: string;
+}
@@ -0,0 +1,35 @@
+import type { CompletedAnime, DroppedAnime, EpisodeProgress, HiddenAnime, OnHoldAnime, PlanToWatch } from "./index";
+
+/** The list records one entry has, whichever lists it is on */
+export interface AnimeListRecords {
+    progress?: EpisodeProgress;
+    plan?: PlanToWatch;
+    completed?: CompletedAnime;
+    dropped?: DroppedAnime;
+    onHold?: OnHoldAnime;
+    hidden?: HiddenAnime;
+}
+
+/** One site's entry for a show that was merged into another entry */
+export interface AnimeAlias {
+    animeId: string;
+    animeSlug: string;
+    /** Site adapter the entry came from; unknown for entries tracked before sites were recorded */
+    siteId?: string;
+    /** The entry's own list records at the time of the merge, given back when it is split off */
+    records?: AnimeListRecords;
+}
+
+/**
+ * Entries on different sites known to be the same show. `animeId` is the
+ * canonical entry, which keeps the more advanced of the merged list records;
+ * requests for any alias are answered from it.
+ */
+export interface AnimeIdentity {
+    animeId: string;
+    animeTitle: string;
+    aliases: AnimeAlias[];
+    /** MyAnimeList id of the show, when either entry had one */
+    malId?: number;
+    updatedAt: string;
+}
@@ -7,9 +7,29 @@ export interface Link {
 export enum StorageKeys {
     EPISODE_PROGRESS = "episodeProgress",
     PLAN_TO_WATCH = "planToWatch",
+    EPISODE_PROGRESS_INDEX = "episodeProgressIndex",
+    PLAN_TO_WATCH_INDEX = "planToWatchIndex",
     HIDDEN_ANIME = "hiddenAnime",
     TILE_ORDER = "tileOrder",
     FOLDER_ORDER = "folderOrder",
+    COMPLETED = "completed",
+    DROPPED = "dropped",
+    ON_HOLD = "onHold",
+    SCHEMA_VERSION = "schemaVersion",
+    SYNC_SETTINGS = "syncSettings",
+    SYNC_TOKENS = "syncTokens",
+    SYNC_STATE = "syncState",
+    SYNC_QUEUE = "syncQueue",
+    SETTINGS = "settings",
+    CUSTOM_ADAPTERS = "customAdapters",
+    ANIME_IDENTITIES = "animeIdentities",
+    CUSTOM_LISTS = "customLists",
+    USER_DATA = "userData",
+    WATCH_HISTORY = "watchHistory",
+    WATCH_HISTORY_INDEX = "watchHistoryIndex",
+    ACTIVITY_LOG = "activityLog",
+    ACTIVITY_LOG_INDEX = "activityLogIndex",
+    HIDE_RULES = "hideRules",
 }
 
 export interface EpisodeProgress {
@@ -21,6 +41,12 @@ export interface EpisodeProgress {
     lastWatched: string;
     totalEpisodes?: number;
     posterUrl?: string;
+    /** MyAnimeList id, set once the entry was matched against a MAL list */
+    malId?: number;
+    /** Site the anime was tracked on; entries from before sites were recorded have none */
+    siteId?: string;
+    /** Episode URL on that site, with `{slug}` and `{episode}` placeholders */
+    episodeUrlTemplate?: string;
 }
 
 export interface PlanToWatch {
@@ -28,6 +54,47 @@ export interface PlanToWatch {
     animeTitle: string;
     animeSlug: string;
     addedAt: string;
+    malId?: number;
+    /** Site the anime was planned from */
+    siteId?: string;
+    /** Episode URL on that site, with `{slug}` and `{episode}` placeholders */
+    episodeUrlTemplate?: string;
+}
+
+/**
+ * Finished series. Keeps the progress fields so a rewatch or a later look at
+ * the library still knows where the user ended up.
+ */
+export interface CompletedAnime extends EpisodeProgress {
+    completedAt: string;
+}
+
+/**
+ * Abandoned series. Progress is preserved so the user can pick it back up.
+ */
+export interface DroppedAnime extends EpisodeProgress {
+    droppedAt: string;
+}
+
+/**
+ * Paused series. Progress is preserved so resuming restores the episode.
+ */
+export interface OnHoldAnime extends EpisodeProgress {
+    pausedAt: string;
+}
+
+/**
+ * Anime kept out of listings. Holds what the listing tile showed, since a
+ * hidden anime has no other record to take a title or poster from.
+ */
+export interface HiddenAnime {
+    animeId: string;
+    animeTitle: string;
+    animeSlug: string;
+    posterUrl?: string;
+    hiddenAt: string;
+    /** Site the anime was hidden on; entries from before sites were recorded have none */
+    siteId?: string;
 }
 
 export interface AnimeData {
@@ -35,6 +102,10 @@ export interface AnimeData {
     animeTitle: string;
     animeSlug: string;
     posterUrl?: string;
+    /** Id of the site adapter the anime was read from */
+    siteId?: string;
+    /** That site's episode URL, with `{slug}` and `{episode}` placeholders */
+    episodeUrlTemplate?: string;
 }
 
 export interface TileOrder {
@@ -58,3 +129,36 @@ export interface FolderOrder {
 
 // Export architecture types
 export * from "./architecture";
+
+// Export backup / import types
+export * from "./backup";
+
+// Export remote sync types
+export * from "./sync";
+
+// Export background message types
+export * from "./messages";
+
+// Export user settings types
+export * from "./settings";
+
+// Export declarative site adapter types
+export * from "./siteAdapter";
+
+// Export cross-site anime identity types
+export * from "./identity";
+
+// Export user-created list types
+export * from "./customList";
+
+// Export ratings, notes and tags types
+export * from "./userData";
+
+// Export watch history types
+export * from "./watchHistory";
+
+// Export activity feed types
+export * from "./activity";
+
+// Export rule-based hiding types
+export * from "./hideRule";
@@ -0,0 +1,93 @@
+import type {
+    AnimeData,
+    AnimeUserDataChanges,
+    BackupListKey,
+    ExtensionSettings,
+    FolderOrder,
+    HideRule,
+    ImportMode,
+    LibraryBackup,
+    SiteAdapterDefinition,
+    SyncSettings,
+    SyncToken,
+    WatchSource,
+} from "./index";
+
+/**
+ * Messages the background service worker accepts for anime list operations.
+ * Every storage write goes through one of these so the worker can serialize
+ * mutations per storage key.
+ */
+export type AnimeRequest =
+    | { type: "GET_STATUS"; animeId: string }
+    | { type: "GET_STATUSES"; animeIds: string[] }
+    | { type: "GET_DETAILS"; animeId: string }
+    | { type: "GET_ALL_ANIME" }
+    | { type: "ADD_TO_PLAN"; animeData: AnimeData }
+    | { type: "REMOVE_FROM_PLAN"; animeId: string }
+    | { type: "START_WATCHING"; animeData: AnimeData; episodeNumber?: number; source?: WatchSource }
+    | { type: "UPDATE_EPISODE"; animeId: string; episodeNumber: number; totalEpisodes?: number; source?: WatchSource }
+    | { type: "UNDO_AUTO_EPISODE"; animeId: string; episodeNumber: number; previousEpisode: number }
+    | { type: "UPDATE_POSTER"; animeId: string; posterUrl: string }
+    | { type: "UPDATE_HIDDEN_DETAILS"; animeData: AnimeData }
+    | { type: "STOP_WATCHING"; animeId: string }
+    | { type: "COMPLETE"; animeId: string }
+    | { type: "DROP"; animeId: string }
+    | { type: "PUT_ON_HOLD"; animeId: string }
+    | { type: "RESUME"; animeId: string }
+    | { type: "REMOVE_FROM_COMPLETED"; animeId: string }
+    | { type: "REMOVE_FROM_DROPPED"; animeId: string }
+    | { type: "REMOVE_FROM_ON_HOLD"; animeId: string }
+    | { type: "HIDE"; animeData: AnimeData }
+    | { type: "UNHIDE"; animeId: string }
+    | { type: "CLEAR_ANIME"; animeId: string }
+    | { type: "CLEAR_ALL_HIDDEN" }
+    | { type: "GET_IDENTITIES" }
+    | { type: "MERGE_ANIME"; keepId: string; mergeId: string }
+    | { type: "SPLIT_ANIME"; animeId: string }
+    | { type: "GET_CUSTOM_LISTS" }
+    | { type: "CREATE_CUSTOM_LIST"; name: string }
+    | { type: "RENAME_CUSTOM_LIST"; listId: string; name: string }
+    | { type: "DELETE_CUSTOM_LIST"; listId: string }
+    | { type: "ADD_TO_CUSTOM_LIST"; listId: string; animeData: AnimeData }
+    | { type: "REMOVE_FROM_CUSTOM_LIST"; listId: string; animeId: string }
+    | { type: "GET_USER_DATA" }
+    | { type: "UPDATE_USER_DATA"; animeId: string; changes: AnimeUserDataChanges }
+    | { type: "GET_WATCH_HISTORY"; animeId?: string }
+    | { type: "GET_ACTIVITY" }
+    | { type: "SAVE_FOLDER_ORDER"; folderOrder: FolderOrder }
+    | { type: "SAVE_TILE_ORDER"; animeIds: string[] }
+    | { type: "CLEAR_TILE_ORDER" }
+    | { type: "IMPORT_LIBRARY"; backup: LibraryBackup; modes: Partial<Record<BackupListKey, ImportMode>> }
+    | { type: "GET_SETTINGS" }
+    | {
+          type: "UPDATE_SETTINGS";
+          section: keyof ExtensionSettings;
+          changes: Partial<ExtensionSettings[keyof ExtensionSettings]>;
+      }
+    | { type: "GET_HIDE_RULES" }
+    | { type: "SAVE_HIDE_RULE"; rule: HideRule }
+    | { type: "UPDATE_HIDE_RULE"; ruleId: string; changes: Partial<HideRule> }
+    | { type: "DELETE_HIDE_RULE"; ruleId: string }
+    | { type: "GET_CUSTOM_ADAPTERS" }
+    | { type: "SAVE_CUSTOM_ADAPTER"; definition: SiteAdapterDefinition; replaceId?: string }
+    | { type: "DELETE_CUSTOM_ADAPTER"; adapterId: string };
+
+export type AnimeRequestType = AnimeRequest["type"];
+
+/**
+ * Messages the background service worker accepts for remote list sync. They
+ * are answered with an ActionResult, or the SyncStatus for GET_SYNC_STATUS.
+ */
+export type SyncRequest =
+    | { type: "SYNC_NOW" }
+    | { type: "GET_SYNC_STATUS" }
+    | { type: "CONFIGURE_SYNC"; settings: SyncSettings }
+    | { type: "SIGN_IN_SYNC"; providerId: string; token: SyncToken }
+    | { type: "SIGN_OUT_SYNC"; providerId: string }
+    | { type: "RESOLVE_SYNC_CONFLICT"; animeId: string; keep: "local" | "remote" };
+
+export type SyncRequestType = SyncRequest["type"];
+
+/** Envelope the worker answers every anime request with */
+export type AnimeResponse<T = unknown> = { ok: true; result: T } | { ok: false; error: string };
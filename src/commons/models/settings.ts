@@ -0,0 +1,36 @@
+/**
+ * What marks an episode as watched
+ * - playback: the site's player reached the watched threshold
+ * - visit: the episode page stayed open for the dwell time
+ */
+export type AutoTrackTrigger = "playback" | "visit";
+
+/**
+ * Automatic episode tracking on watch pages. Off until the user turns it on.
+ */
+export interface AutoTrackSettings {
+    enabled: boolean;
+    /** Sites whose player cannot be observed always use "visit" */
+    trigger: AutoTrackTrigger;
+    /** Seconds a watch page must stay open before progress is recorded; 0 records on arrival */
+    dwellSeconds: number;
+    /** Share of the episode, in percent, that counts as watched */
+    watchedPercent: number;
+    /** Playback also counts as watched once this few seconds remain, so ending credits can be skipped */
+    watchedRemainingSeconds: number;
+}
+
+/** User preferences, stored together under StorageKeys.SETTINGS */
+export interface ExtensionSettings {
+    autoTrack: AutoTrackSettings;
+}
+
+export const DEFAULT_SETTINGS: ExtensionSettings = {
+    autoTrack: {
+        enabled: false,
+        trigger: "playback",
+        dwellSeconds: 60,
+        watchedPercent: 85,
+        watchedRemainingSeconds: 120,
+    },
+};
@@ -0,0 +1,72 @@
+/**
+ * Plain-data description of how to read an anime site, compiled into a
+ * content-script SiteAdapter at runtime. Patterns are regular expression
+ * sources (strings) so a definition can be kept in extension storage or a
+ * JSON file as-is.
+ */
+export interface SiteAdapterDefinition {
+    /** Unique adapter id, also recorded as the source of tracked entries */
+    id: string;
+    /** Name shown to the user */
+    label: string;
+    /** Host names the adapter handles; their subdomains match too */
+    hosts: string[];
+    list: ListPageDefinition;
+    /** Omit for sites without a recognisable episode page */
+    watchPage?: WatchPageDefinition;
+}
+
+export interface ListPageDefinition {
+    /** Element holding the anime cards */
+    containerSelector: string;
+    /** One anime card */
+    cardSelector: string;
+    /** Element inside the card holding the title text */
+    titleSelector: string;
+    /** Attribute to read the title from instead of the element text */
+    titleAttribute?: string;
+    /** Link inside the card pointing at the anime; defaults to the title element */
+    linkSelector?: string;
+    /** Matched against the link's path; the `slug` named group becomes the anime id */
+    linkPattern: string;
+    /** Poster image inside the card */
+    posterSelector?: string;
+    /** Image attributes tried in order for the poster URL; defaults to src then data-src */
+    posterAttributes?: string[];
+    /** Element the controls are placed on; it is made position: relative */
+    injectionSelector: string;
+    /** Ancestor of the card treated as the tile for hiding and reordering */
+    tileSelector?: string;
+    supportsClearHiddenButton?: boolean;
+    supportsDragAndDrop?: boolean;
+}
+
+export interface WatchPageDefinition {
+    /** Matched against the page path; named groups `slug` and, when the site has one, `episode` */
+    pathPattern: string;
+    /**
+     * Absolute URL of an episode page with `{slug}` and `{episode}`
+     * placeholders, used for "continue watching" links. Recorded with every
+     * entry tracked on the site.
+     */
+    urlTemplate?: string;
+    /** Removed from the start of document.title (case-insensitive) */
+    titlePrefixPatterns?: string[];
+    /** Removed from the end of document.title, in order (case-insensitive) */
+    titleSuffixPatterns?: string[];
+    /** Headings tried in order when document.title gives nothing */
+    titleSelectors?: string[];
+    /**
+     * Element holding the current episode number, for sites whose watch URL
+     * has no episode in it. Read after the path's `episode` group.
+     */
+    episodeSelector?: string;
+    /** Attribute of episodeSelector holding the number instead of its text */
+    episodeAttribute?: string;
+    /** Element whose content attribute holds the poster URL */
+    posterMetaSelector?: string;
+    /** Inline episode video; omit when the player cannot be reached */
+    videoSelector?: string;
+    /** Whether the embedded player posts its progress to the page */
+    playerMessages?: boolean;
+}
@@ -0,0 +1,105 @@
+import type { ExternalListStatus } from "./backup";
+
+/**
+ * Remote list sync models
+ */
+
+/** One anime as a tracking site stores it; entries are keyed by MAL id */
+export interface RemoteEntry {
+    malId: number;
+    title?: string;
+    status: ExternalListStatus;
+    episode: number;
+    totalEpisodes?: number;
+    /** When the remote entry last changed */
+    updatedAt: string;
+}
+
+/** OAuth-style credentials for one provider */
+export interface SyncToken {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: string;
+}
+
+/**
+ * How an anime changed on both sides since the last sync is settled
+ * - newest: the side modified most recently wins
+ * - local: the local progress is pushed
+ * - ask: the conflict is kept for the user to resolve
+ */
+export type ConflictStrategy = "newest" | "local" | "ask";
+
+/** Tracking sites a sync can be configured for; both speak the same REST API */
+export const SYNC_PROVIDERS: Record<string, string> = {
+    mal: "MyAnimeList",
+    anilist: "AniList",
+};
+
+export interface SyncSettings {
+    enabled: boolean;
+    providerId: string;
+    /** Base URL of the provider API */
+    baseUrl: string;
+    strategy: ConflictStrategy;
+}
+
+/** What was agreed on for one anime at its last successful sync */
+export interface SyncEntryState {
+    malId: number;
+    syncedEpisode: number;
+    syncedAt: string;
+    remoteModifiedAt?: string;
+}
+
+export interface SyncConflict {
+    animeId: string;
+    malId: number;
+    title: string;
+    localEpisode: number;
+    remoteEpisode: number;
+    localModifiedAt: string;
+    remoteModifiedAt: string;
+}
+
+export interface ProviderSyncState {
+    entries: Record<string, SyncEntryState>;
+    conflicts: Record<string, SyncConflict>;
+    lastSyncAt?: string;
+}
+
+export interface SyncState {
+    /** When each anime's local progress last changed, keyed by anime id */
+    localModifiedAt: Record<string, string>;
+    providers: Record<string, ProviderSyncState>;
+}
+
+/** A push that failed and waits for its next attempt */
+export interface SyncRetryItem {
+    providerId: string;
+    animeId: string;
+    entry: RemoteEntry;
+    attempts: number;
+    nextAttemptAt: string;
+    lastError?: string;
+}
+
+export interface SyncReport {
+    pushed: number;
+    pulled: number;
+    conflicts: number;
+    queued: number;
+    /** Local anime without a MAL id, which no provider can address */
+    unlinked: number;
+}
+
+/** What the settings page shows about sync; tokens never leave the worker */
+export interface SyncStatus {
+    settings: SyncSettings | null;
+    signedIn: boolean;
+    lastSyncAt?: string;
+    /** Conflicts kept by the "ask" strategy, waiting for the user */
+    conflicts: SyncConflict[];
+    /** Pushes waiting in the retry queue */
+    queued: number;
+}
@@ -0,0 +1,27 @@
+/** Lowest and highest score an anime can be rated */
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+
+/**
+ * What the user noted about an anime: a rating, free-text notes and tags.
+ * Kept apart from the list records, so it survives status changes (a plan
+ * that becomes watching, then completed, keeps its notes).
+ */
+export interface AnimeUserData {
+    animeId: string;
+    /** Whole number from MIN_SCORE to MAX_SCORE; unset until the anime is rated */
+    score?: number;
+    notes?: string;
+    tags: string[];
+    updatedAt: string;
+}
+
+/**
+ * Changes to an anime's user data. Omitted fields keep their value; a null
+ * score or empty notes clear them.
+ */
+export interface AnimeUserDataChanges {
+    score?: number | null;
+    notes?: string;
+    tags?: string[];
+}
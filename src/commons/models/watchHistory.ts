@@ -0,0 +1,28 @@
+/** Where a progress change came from */
+export type WatchSource = "manual" | "auto" | "import";
+
+/**
+ * One change of an anime's current episode. Progress records only keep the
+ * latest episode and when it was set; the history keeps every change.
+ */
+export interface WatchHistoryEntry {
+    animeId: string;
+    /** Title when the change was made, so entries outlive the anime's list record */
+    animeTitle: string;
+    episode: number;
+    timestamp: string;
+    source: WatchSource;
+}
+
+/** Entries kept before the history is compacted */
+export const MAX_WATCH_HISTORY_ENTRIES = 5000;
+
+/** Entries older than this are dropped when the history is compacted */
+export const WATCH_HISTORY_RETENTION_DAYS = 730;
+
+/**
+ * Changes to one anime this close together count as a single sitting (e.g.
+ * clicking +1 three times, or an auto-tracked episode and its undo), so
+ * compaction keeps only the last of them
+ */
+export const WATCH_HISTORY_BURST_MINUTES = 10;
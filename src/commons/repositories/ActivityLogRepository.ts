@@ -0,0 +1,21 @@
+import type { ActivityEvent } from "@/commons/models";
+import { MAX_ACTIVITY_EVENTS, StorageKeys } from "@/commons/models";
+import { DailyLogRepository } from "./DailyLogRepository";
+
+/**
+ * Append-only log of list status changes, oldest first, stored one key per
+ * day. Only the newest events up to the limit are kept.
+ */
+export class ActivityLogRepository extends DailyLogRepository<ActivityEvent> {
+    constructor(private readonly maxEvents: number = MAX_ACTIVITY_EVENTS) {
+        super(StorageKeys.ACTIVITY_LOG);
+    }
+
+    protected firstKeptDay(): null {
+        return null;
+    }
+
+    protected trim(log: ActivityEvent[]): ActivityEvent[] {
+        return log.slice(Math.max(0, log.length - this.maxEvents));
+    }
+}
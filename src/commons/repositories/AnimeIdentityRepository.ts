@@ -0,0 +1,43 @@
+import type { AnimeIdentity } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { AnimeRecordRepository } from "./AnimeRecordRepository";
+
+/**
+ * Repository for cross-site anime identities
+ * Keyed by the canonical anime id; each identity lists the entries merged into it
+ */
+export class AnimeIdentityRepository extends AnimeRecordRepository<AnimeIdentity> {
+    constructor() {
+        super(StorageKeys.ANIME_IDENTITIES);
+    }
+
+    /**
+     * Find the identity an anime id belongs to, as canonical entry or alias
+     */
+    async findByAnyId(animeId: string): Promise<AnimeIdentity | null> {
+        const identities = await this.getAllAsRecord();
+        return (
+            identities[animeId] ??
+            Object.values(identities).find((identity) => identity.aliases.some((alias) => alias.animeId === animeId)) ??
+            null
+        );
+    }
+
+    /**
+     * Map anime ids to their canonical ids; ids without an identity map to themselves
+     */
+    async resolveIds(animeIds: string[]): Promise<Record<string, string>> {
+        const canonicalByAlias = new Map<string, string>();
+        for (const identity of Object.values(await this.getAllAsRecord())) {
+            identity.aliases.forEach((alias) => canonicalByAlias.set(alias.animeId, identity.animeId));
+        }
+        return Object.fromEntries(animeIds.map((animeId) => [animeId, canonicalByAlias.get(animeId) ?? animeId]));
+    }
+
+    /**
+     * Canonical id of one anime id
+     */
+    async resolveId(animeId: string): Promise<string> {
+        return (await this.resolveIds([animeId]))[animeId];
+    }
+}
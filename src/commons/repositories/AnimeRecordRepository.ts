@@ -0,0 +1,90 @@
+import { BaseRepository } from "./BaseRepository";
+
+/**
+ * Repository for lists stored as a single `animeId -> record` map
+ * Shared by the status lists (completed, dropped, on-hold) whose records all
+ * carry an `animeId` and need nothing beyond plain CRUD
+ */
+export abstract class AnimeRecordRepository<T extends { animeId: string }> extends BaseRepository<T> {
+    /**
+     * Create or replace a record
+     */
+    async create(record: T): Promise<void> {
+        const allRecords = await this.getAllAsRecord();
+        allRecords[record.animeId] = record;
+        await this.setAllAsRecord(allRecords);
+    }
+
+    /**
+     * Find a record by anime ID
+     */
+    async findById(animeId: string): Promise<T | null> {
+        const allRecords = await this.getAllAsRecord();
+        return allRecords[animeId] || null;
+    }
+
+    /**
+     * Find all records
+     */
+    async findAll(): Promise<T[]> {
+        const allRecords = await this.getAllAsRecord();
+        return Object.values(allRecords);
+    }
+
+    /**
+     * Update an existing record
+     */
+    async update(animeId: string, data: Partial<T>): Promise<void> {
+        const allRecords = await this.getAllAsRecord();
+        if (allRecords[animeId]) {
+            allRecords[animeId] = { ...allRecords[animeId], ...data };
+            await this.setAllAsRecord(allRecords);
+        }
+    }
+
+    /**
+     * Delete a record by anime ID
+     */
+    async delete(animeId: string): Promise<void> {
+        const allRecords = await this.getAllAsRecord();
+        delete allRecords[animeId];
+        await this.setAllAsRecord(allRecords);
+    }
+
+    /**
+     * Check if a record exists
+     */
+    async exists(animeId: string): Promise<boolean> {
+        const allRecords = await this.getAllAsRecord();
+        return animeId in allRecords;
+    }
+
+    /**
+     * Clear all records
+     */
+    async clear(): Promise<void> {
+        await this.clearStorage();
+    }
+
+    /**
+     * Get count of records
+     */
+    async count(): Promise<number> {
+        const allRecords = await this.getAllAsRecord();
+        return Object.keys(allRecords).length;
+    }
+
+    /**
+     * Remove a record (alias for delete)
+     */
+    async remove(animeId: string): Promise<void> {
+        await this.delete(animeId);
+    }
+
+    /**
+     * Get all records as a record map
+     */
+    async getAll(): Promise<Record<string, T>> {
+        return this.getAllAsRecord();
+    }
+}
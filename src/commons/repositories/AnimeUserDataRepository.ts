@@ -0,0 +1,44 @@
+import type { AnimeUserData } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { AnimeRecordRepository } from "./AnimeRecordRepository";
+
+/**
+ * Repository for the ratings, notes and tags the user keeps per anime
+ */
+export class AnimeUserDataRepository extends AnimeRecordRepository<AnimeUserData> {
+    constructor() {
+        super(StorageKeys.USER_DATA);
+    }
+
+    /**
+     * Re-key one anime's data to another id (when entries are merged). When
+     * both have data it is combined: the target's score wins unless it has
+     * none, notes are joined and tags are pooled.
+     */
+    async replaceAnimeId(fromId: string, toId: string): Promise<void> {
+        const allRecords = await this.getAllAsRecord();
+        const source = allRecords[fromId];
+        if (!source) return;
+
+        const target = allRecords[toId];
+        allRecords[toId] = target ? AnimeUserDataRepository.combine(target, source) : { ...source, animeId: toId };
+        delete allRecords[fromId];
+        await this.setAllAsRecord(allRecords);
+    }
+
+    private static combine(target: AnimeUserData, source: AnimeUserData): AnimeUserData {
+        const score = target.score ?? source.score;
+        const notes = [...new Set([target.notes?.trim(), source.notes?.trim()].filter(Boolean))].join("\n\n");
+        const tags = [
+            ...target.tags,
+            ...source.tags.filter((tag) => !target.tags.some((own) => own.toLowerCase() === tag.toLowerCase())),
+        ];
+        return {
+            ...target,
+            ...(score !== undefined && { score }),
+            ...(notes && { notes }),
+            tags,
+            updatedAt: target.updatedAt > source.updatedAt ? target.updatedAt : source.updatedAt,
+        };
+    }
+}
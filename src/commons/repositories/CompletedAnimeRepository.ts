@@ -0,0 +1,30 @@
+import type { CompletedAnime } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { AnimeRecordRepository } from "./AnimeRecordRepository";
+
+/**
+ * Repository for managing completed anime
+ * Handles series the user has finished watching
+ */
+export class CompletedAnimeRepository extends AnimeRecordRepository<CompletedAnime> {
+    constructor() {
+        super(StorageKeys.COMPLETED);
+    }
+
+    /**
+     * Get recently completed anime (sorted by completedAt)
+     */
+    async getRecentlyCompleted(limit: number = 5): Promise<CompletedAnime[]> {
+        const allCompleted = await this.findAll();
+        return allCompleted
+            .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime())
+            .slice(0, limit);
+    }
+
+    /**
+     * Check if anime is completed (alias for exists)
+     */
+    async isCompleted(animeId: string): Promise<boolean> {
+        return this.exists(animeId);
+    }
+}
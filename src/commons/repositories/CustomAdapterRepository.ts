@@ -0,0 +1,85 @@
+import type { SiteAdapterDefinition } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { BaseRepository } from "./BaseRepository";
+
+/**
+ * Repository for site adapters the user defined on the options page
+ * Stored as an array so the order adapters are tried in is kept
+ */
+export class CustomAdapterRepository extends BaseRepository<SiteAdapterDefinition> {
+    constructor() {
+        super(StorageKeys.CUSTOM_ADAPTERS);
+    }
+
+    /**
+     * Add a definition, replacing one with the same id
+     */
+    async create(definition: SiteAdapterDefinition): Promise<void> {
+        const definitions = await this.getAllAsArray();
+        const index = definitions.findIndex((existing) => existing.id === definition.id);
+        if (index === -1) {
+            definitions.push(definition);
+        } else {
+            definitions[index] = definition;
+        }
+        await this.setAllAsArray(definitions);
+    }
+
+    /**
+     * Find a definition by adapter id
+     */
+    async findById(id: string): Promise<SiteAdapterDefinition | null> {
+        const definitions = await this.getAllAsArray();
+        return definitions.find((definition) => definition.id === id) ?? null;
+    }
+
+    /**
+     * Find all definitions, in the order they are tried
+     */
+    async findAll(): Promise<SiteAdapterDefinition[]> {
+        return this.getAllAsArray();
+    }
+
+    /**
+     * Update a definition in place; changing its id keeps its position
+     */
+    async update(id: string, data: Partial<SiteAdapterDefinition>): Promise<void> {
+        const definitions = await this.getAllAsArray();
+        const index = definitions.findIndex((definition) => definition.id === id);
+        if (index === -1) {
+            throw new Error(`Custom adapter "${id}" not found`);
+        }
+        definitions[index] = { ...definitions[index], ...data };
+        await this.setAllAsArray(definitions);
+    }
+
+    /**
+     * Delete a definition by adapter id
+     */
+    async delete(id: string): Promise<void> {
+        const definitions = await this.getAllAsArray();
+        await this.setAllAsArray(definitions.filter((definition) => definition.id !== id));
+    }
+
+    /**
+     * Check if a definition with this id exists
+     */
+    async exists(id: string): Promise<boolean> {
+        return (await this.findById(id)) !== null;
+    }
+
+    /**
+     * Remove every custom definition
+     */
+    async clear(): Promise<void> {
+        await this.clearStorage();
+    }
+
+    /**
+     * Get count of custom definitions
+     */
+    async count(): Promise<number> {
+        const definitions = await this.getAllAsArray();
+        return definitions.length;
+    }
+}
@@ -0,0 +1,105 @@
+import type { CustomList } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { BaseRepository } from "./BaseRepository";
+
+/**
+ * Repository for lists the user created
+ * Stored as an array so lists keep the order they were created in
+ */
+export class CustomListRepository extends BaseRepository<CustomList> {
+    constructor() {
+        super(StorageKeys.CUSTOM_LISTS);
+    }
+
+    /**
+     * Add a list, replacing one with the same id
+     */
+    async create(list: CustomList): Promise<void> {
+        const lists = await this.getAllAsArray();
+        const index = lists.findIndex((existing) => existing.id === list.id);
+        if (index === -1) {
+            lists.push(list);
+        } else {
+            lists[index] = list;
+        }
+        await this.setAllAsArray(lists);
+    }
+
+    /**
+     * Find a list by id
+     */
+    async findById(id: string): Promise<CustomList | null> {
+        const lists = await this.getAllAsArray();
+        return lists.find((list) => list.id === id) ?? null;
+    }
+
+    /**
+     * Find all lists, oldest first
+     */
+    async findAll(): Promise<CustomList[]> {
+        return this.getAllAsArray();
+    }
+
+    /**
+     * Update a list in place
+     */
+    async update(id: string, data: Partial<CustomList>): Promise<void> {
+        const lists = await this.getAllAsArray();
+        const index = lists.findIndex((list) => list.id === id);
+        if (index === -1) {
+            throw new Error(`Custom list "${id}" not found`);
+        }
+        lists[index] = { ...lists[index], ...data };
+        await this.setAllAsArray(lists);
+    }
+
+    /**
+     * Delete a list by id
+     */
+    async delete(id: string): Promise<void> {
+        const lists = await this.getAllAsArray();
+        await this.setAllAsArray(lists.filter((list) => list.id !== id));
+    }
+
+    /**
+     * Check if a list with this id exists
+     */
+    async exists(id: string): Promise<boolean> {
+        return (await this.findById(id)) !== null;
+    }
+
+    /**
+     * Point every entry for one anime id at another, e.g. after the two were
+     * merged. A list that already has the new id keeps its existing entry.
+     */
+    async replaceAnimeId(fromId: string, toId: string): Promise<void> {
+        const lists = await this.getAllAsArray();
+        let changed = false;
+        for (const list of lists) {
+            if (!list.entries.some((entry) => entry.animeId === fromId)) continue;
+            const hasTarget = list.entries.some((entry) => entry.animeId === toId);
+            list.entries = hasTarget
+                ? list.entries.filter((entry) => entry.animeId !== fromId)
+                : list.entries.map((entry) => (entry.animeId === fromId ? { ...entry, animeId: toId } : entry));
+            changed = true;
+        }
+        if (changed) {
+            await this.setAllAsArray(lists);
+        }
+    }
+
+    /**
+     * Remove every list
+     */
+    async clear(): Promise<void> {
+        await this.clearStorage();
+    }
+
+    /**
+     * Get count of lists
+     */
+    async count(): Promise<number> {
+        const lists = await this.getAllAsArray();
+        return lists.length;
+    }
+}
@@ -0,0 +1,182 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import { DAILY_LOGS, dayBucketKey, type DailyLog } from "@/commons/utils/storageKeys";
+
+/**
+ * Day an entry belongs to, as `YYYY-MM-DD` in UTC
+ */
+export function dayOf(timestamp: string): string {
+    const time = Date.parse(timestamp);
+    return new Date(Number.isNaN(time) ? Date.now() : time).toISOString().slice(0, 10);
+}
+
+/**
+ * Split entries into their days, keeping their order within a day
+ */
+export function groupByDay<T extends { timestamp: string }>(entries: T[]): Map<string, T[]> {
+    const days = new Map<string, T[]>();
+    entries.forEach((entry) => {
+        const day = dayOf(entry.timestamp);
+        days.set(day, [...(days.get(day) ?? []), entry]);
+    });
+    return days;
+}
+
+/**
+ * Repository for append-only logs stored one storage key per day plus an
+ * index of the days
+ *
+ * An append reads and rewrites only the buckets of the days it adds to, and
+ * the index only when a day is added or expires. The limits that need the
+ * whole log (`trim`) are applied once a new day starts rather than on every
+ * append.
+ */
+export abstract class DailyLogRepository<T extends { animeId: string; timestamp: string }> {
+    private readonly indexKey: string;
+
+    constructor(private readonly log: DailyLog) {
+        this.indexKey = DAILY_LOGS[log];
+    }
+
+    /**
+     * Oldest day still kept, or null when days never expire
+     */
+    protected abstract firstKeptDay(now: Date): string | null;
+
+    /**
+     * The part of the whole log (oldest first) that is kept once a new day starts
+     */
+    protected abstract trim(entries: T[], now: Date): T[];
+
+    /**
+     * Add entries to the end of their days, dropping expired days and
+     * trimming the log when a new day starts
+     */
+    async append(...entries: T[]): Promise<void> {
+        if (entries.length === 0) return;
+        const now = new Date();
+        const firstKept = this.firstKeptDay(now);
+
+        const added = groupByDay(entries);
+        if (firstKept) {
+            [...added.keys()].filter((day) => day < firstKept).forEach((day) => added.delete(day));
+        }
+
+        const index = await this.readIndex();
+        const newDays = [...added.keys()].filter((day) => !index.includes(day));
+        const expired = firstKept ? index.filter((day) => day < firstKept) : [];
+
+        const items: Record<string, unknown> = {};
+        if (added.size > 0) {
+            const stored = await StorageAdapter.getMultiple([...added.keys()].map((day) => this.bucketKey(day)));
+            added.forEach((dayEntries, day) => {
+                const bucket = (stored[this.bucketKey(day)] as T[] | undefined) ?? [];
+                items[this.bucketKey(day)] = [...bucket, ...dayEntries];
+            });
+        }
+        if (newDays.length > 0 || expired.length > 0) {
+            items[this.indexKey] = [...index.filter((day) => !expired.includes(day)), ...newDays].sort();
+        }
+        if (Object.keys(items).length === 0) return;
+
+        await StorageAdapter.setMultiple(items);
+        if (expired.length > 0) {
+            await StorageAdapter.removeMultiple(expired.map((day) => this.bucketKey(day)));
+        }
+        if (newDays.length > 0) {
+            await this.rewrite((all) => this.trim(all, now));
+        }
+    }
+
+    /**
+     * Every entry, oldest day first
+     */
+    async findAll(): Promise<T[]> {
+        const index = await this.readIndex();
+        if (index.length === 0) return [];
+
+        const stored = await StorageAdapter.getMultiple(index.map((day) => this.bucketKey(day)));
+        return index.flatMap((day) => (stored[this.bucketKey(day)] as T[] | undefined) ?? []);
+    }
+
+    /**
+     * Entries for one anime, oldest first
+     */
+    async findByAnimeId(animeId: string): Promise<T[]> {
+        return (await this.findAll()).filter((entry) => entry.animeId === animeId);
+    }
+
+    /**
+     * Move one anime's entries to another id, e.g. after the two were merged
+     */
+    async replaceAnimeId(fromId: string, toId: string): Promise<void> {
+        await this.rewrite((entries) =>
+            entries.map((entry) => (entry.animeId === fromId ? { ...entry, animeId: toId } : entry)),
+        );
+    }
+
+    /**
+     * Remove the newest entry that matches, e.g. one added by a change that
+     * was undone
+     */
+    async removeLast(matches: (entry: T) => boolean): Promise<void> {
+        await this.rewrite((entries) => {
+            const last = entries.map(matches).lastIndexOf(true);
+            return last === -1 ? entries : entries.filter((_, index) => index !== last);
+        });
+    }
+
+    /**
+     * Remove every entry and the index
+     */
+    async clear(): Promise<void> {
+        const index = await this.readIndex();
+        await StorageAdapter.removeMultiple([...index.map((day) => this.bucketKey(day)), this.indexKey]);
+    }
+
+    /**
+     * Get count of entries
+     */
+    async count(): Promise<number> {
+        return (await this.findAll()).length;
+    }
+
+    /**
+     * Replace the whole log with what `change` makes of it, writing only the
+     * days that changed
+     */
+    protected async rewrite(change: (entries: T[]) => T[]): Promise<void> {
+        const index = await this.readIndex();
+        if (index.length === 0) return;
+
+        const stored = await StorageAdapter.getMultiple(index.map((day) => this.bucketKey(day)));
+        const before = index.flatMap((day) => (stored[this.bucketKey(day)] as T[] | undefined) ?? []);
+        const after = groupByDay(change(before));
+
+        const items: Record<string, unknown> = {};
+        index.forEach((day) => {
+            const bucket = after.get(day);
+            if (bucket && JSON.stringify(bucket) !== JSON.stringify(stored[this.bucketKey(day)])) {
+                items[this.bucketKey(day)] = bucket;
+            }
+        });
+        const emptied = index.filter((day) => !after.has(day));
+        if (emptied.length > 0) {
+            items[this.indexKey] = index.filter((day) => after.has(day));
+        }
+
+        if (Object.keys(items).length > 0) {
+            await StorageAdapter.setMultiple(items);
+        }
+        if (emptied.length > 0) {
+            await StorageAdapter.removeMultiple(emptied.map((day) => this.bucketKey(day)));
+        }
+    }
+
+    private bucketKey(day: string): string {
+        return dayBucketKey(this.log, day);
+    }
+
+    private async readIndex(): Promise<string[]> {
+        return (await StorageAdapter.get<string[]>(this.indexKey)) ?? [];
+    }
+}
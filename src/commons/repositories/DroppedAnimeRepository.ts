@@ -0,0 +1,20 @@
+import type { DroppedAnime } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { AnimeRecordRepository } from "./AnimeRecordRepository";
+
+/**
+ * Repository for managing dropped anime
+ * Handles series the user has abandoned, keeping the episode they stopped at
+ */
+export class DroppedAnimeRepository extends AnimeRecordRepository<DroppedAnime> {
+    constructor() {
+        super(StorageKeys.DROPPED);
+    }
+
+    /**
+     * Check if anime is dropped (alias for exists)
+     */
+    async isDropped(animeId: string): Promise<boolean> {
+        return this.exists(animeId);
+    }
+}
@@ -0,0 +1,31 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { Folder, FolderOrder } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+
+/**
+ * The folders the user arranged listing tiles into. The content script lays
+ * them out; its saves are written here by the background worker.
+ */
+export class FolderOrderRepository {
+    async get(): Promise<FolderOrder | null> {
+        return (await StorageAdapter.get<FolderOrder>(StorageKeys.FOLDER_ORDER)) ?? null;
+    }
+
+    async save(order: FolderOrder): Promise<void> {
+        await StorageAdapter.set(StorageKeys.FOLDER_ORDER, order);
+    }
+
+    /**
+     * The folder holding any of the given ids (an anime and the ids merged
+     * into it), if there is one
+     */
+    async findFolderOf(animeIds: string[]): Promise<Folder | null> {
+        const order = await this.get();
+        if (!order) return null;
+        return (
+            order.folders.find((folder) =>
+                (order.folderContents[folder.id] ?? []).some((animeId) => animeIds.includes(animeId)),
+            ) ?? null
+        );
+    }
+}
@@ -0,0 +1,85 @@
+import type { HideRule } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { BaseRepository } from "./BaseRepository";
+
+/**
+ * Repository for the user's hide rules
+ * Stored as an array so rules are shown and tried in the order they were added
+ */
+export class HideRuleRepository extends BaseRepository<HideRule> {
+    constructor() {
+        super(StorageKeys.HIDE_RULES);
+    }
+
+    /**
+     * Add a rule, replacing one with the same id
+     */
+    async create(rule: HideRule): Promise<void> {
+        const rules = await this.getAllAsArray();
+        const index = rules.findIndex((existing) => existing.id === rule.id);
+        if (index === -1) {
+            rules.push(rule);
+        } else {
+            rules[index] = rule;
+        }
+        await this.setAllAsArray(rules);
+    }
+
+    /**
+     * Find a rule by id
+     */
+    async findById(id: string): Promise<HideRule | null> {
+        const rules = await this.getAllAsArray();
+        return rules.find((rule) => rule.id === id) ?? null;
+    }
+
+    /**
+     * Find all rules, oldest first
+     */
+    async findAll(): Promise<HideRule[]> {
+        return this.getAllAsArray();
+    }
+
+    /**
+     * Update a rule in place
+     */
+    async update(id: string, data: Partial<HideRule>): Promise<void> {
+        const rules = await this.getAllAsArray();
+        const index = rules.findIndex((rule) => rule.id === id);
+        if (index === -1) {
+            throw new Error(`Hide rule "${id}" not found`);
+        }
+        rules[index] = { ...rules[index], ...data, id };
+        await this.setAllAsArray(rules);
+    }
+
+    /**
+     * Delete a rule by id
+     */
+    async delete(id: string): Promise<void> {
+        const rules = await this.getAllAsArray();
+        await this.setAllAsArray(rules.filter((rule) => rule.id !== id));
+    }
+
+    /**
+     * Check if a rule with this id exists
+     */
+    async exists(id: string): Promise<boolean> {
+        return (await this.findById(id)) !== null;
+    }
+
+    /**
+     * Remove every rule
+     */
+    async clear(): Promise<void> {
+        await this.clearStorage();
+    }
+
+    /**
+     * Get count of rules
+     */
+    async count(): Promise<number> {
+        const rules = await this.getAllAsArray();
+        return rules.length;
+    }
+}
@@ -0,0 +1,20 @@
+import type { OnHoldAnime } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { AnimeRecordRepository } from "./AnimeRecordRepository";
+
+/**
+ * Repository for managing on-hold anime
+ * Handles paused series, keeping the episode so resuming restores progress
+ */
+export class OnHoldAnimeRepository extends AnimeRecordRepository<OnHoldAnime> {
+    constructor() {
+        super(StorageKeys.ON_HOLD);
+    }
+
+    /**
+     * Check if anime is on hold (alias for exists)
+     */
+    async isOnHold(animeId: string): Promise<boolean> {
+        return this.exists(animeId);
+    }
+}
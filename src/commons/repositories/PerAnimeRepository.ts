@@ -0,0 +1,149 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import { animeItemKey, PER_ANIME_LISTS, type PerAnimeList } from "@/commons/utils/storageKeys";
+import { BaseRepository } from "./BaseRepository";
+
+/**
+ * Repository for lists stored one storage key per anime plus an id index
+ *
+ * Reading or updating a single anime touches only that anime's key, so the
+ * cost of an update does not grow with the library. Creating or deleting an
+ * anime also rewrites the index, which holds ids only. `findAll` reads the
+ * index and then every item in one `getMultiple` call.
+ */
+export abstract class PerAnimeRepository<T extends { animeId: string }> extends BaseRepository<T> {
+    private readonly indexKey: string;
+
+    constructor(private readonly list: PerAnimeList) {
+        super(list);
+        this.indexKey = PER_ANIME_LISTS[list];
+    }
+
+    /**
+     * Create or replace a record
+     */
+    async create(record: T): Promise<void> {
+        const index = await this.readIndex();
+        if (index.includes(record.animeId)) {
+            await StorageAdapter.set(this.itemKey(record.animeId), record);
+            return;
+        }
+        await StorageAdapter.setMultiple({
+            [this.itemKey(record.animeId)]: record,
+            [this.indexKey]: [...index, record.animeId],
+        });
+    }
+
+    /**
+     * Find a record by anime ID
+     */
+    async findById(animeId: string): Promise<T | null> {
+        return StorageAdapter.get<T>(this.itemKey(animeId));
+    }
+
+    /**
+     * Find the records for several anime with one storage read. Ids without
+     * a record are left out of the result.
+     */
+    async findByIds(animeIds: string[]): Promise<Record<string, T>> {
+        if (animeIds.length === 0) return {};
+
+        const stored = await StorageAdapter.getMultiple(animeIds.map((animeId) => this.itemKey(animeId)));
+        const found: Record<string, T> = {};
+        animeIds.forEach((animeId) => {
+            const record = stored[this.itemKey(animeId)] as T | undefined;
+            if (record) found[animeId] = record;
+        });
+        return found;
+    }
+
+    /**
+     * Find all records, in the order they were added
+     */
+    async findAll(): Promise<T[]> {
+        const index = await this.readIndex();
+        if (index.length === 0) return [];
+
+        const stored = await StorageAdapter.getMultiple(index.map((animeId) => this.itemKey(animeId)));
+        return index.map((animeId) => stored[this.itemKey(animeId)] as T | undefined).filter((record) => !!record);
+    }
+
+    /**
+     * Update an existing record
+     */
+    async update(animeId: string, data: Partial<T>): Promise<void> {
+        const existing = await this.findById(animeId);
+        if (existing) {
+            await StorageAdapter.set(this.itemKey(animeId), { ...existing, ...data });
+        }
+    }
+
+    /**
+     * Delete a record by anime ID
+     */
+    async delete(animeId: string): Promise<void> {
+        const index = await this.readIndex();
+        await StorageAdapter.remove(this.itemKey(animeId));
+        if (index.includes(animeId)) {
+            await StorageAdapter.set(
+                this.indexKey,
+                index.filter((id) => id !== animeId),
+            );
+        }
+    }
+
+    /**
+     * Check if a record exists
+     */
+    async exists(animeId: string): Promise<boolean> {
+        return (await this.findById(animeId)) !== null;
+    }
+
+    /**
+     * Clear all records and the index
+     */
+    async clear(): Promise<void> {
+        const index = await this.readIndex();
+        await StorageAdapter.removeMultiple([...index.map((animeId) => this.itemKey(animeId)), this.indexKey]);
+    }
+
+    /**
+     * Get count of records
+     */
+    async count(): Promise<number> {
+        return (await this.readIndex()).length;
+    }
+
+    /**
+     * Get all records as an `animeId -> record` map
+     */
+    async getAll(): Promise<Record<string, T>> {
+        const records = await this.findAll();
+        return Object.fromEntries(records.map((record) => [record.animeId, record]));
+    }
+
+    /**
+     * Replace the whole list with `records` (used by library import), removing
+     * items that are no longer present
+     */
+    async replaceAll(records: Record<string, T>): Promise<void> {
+        const ids = Object.keys(records);
+        const stale = (await this.readIndex()).filter((animeId) => !(animeId in records));
+
+        const items: Record<string, unknown> = { [this.indexKey]: ids };
+        ids.forEach((animeId) => {
+            items[this.itemKey(animeId)] = records[animeId];
+        });
+        await StorageAdapter.setMultiple(items);
+        if (stale.length > 0) {
+            await StorageAdapter.removeMultiple(stale.map((animeId) => this.itemKey(animeId)));
+        }
+    }
+
+    private itemKey(animeId: string): string {
+        return animeItemKey(this.list, animeId);
+    }
+
+    private async readIndex(): Promise<string[]> {
+        return (await StorageAdapter.get<string[]>(this.indexKey)) ?? [];
+    }
+}
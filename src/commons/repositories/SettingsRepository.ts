@@ -0,0 +1,30 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { ExtensionSettings } from "@/commons/models";
+import { DEFAULT_SETTINGS, StorageKeys } from "@/commons/models";
+
+/**
+ * User preferences in extension storage. Sections missing from storage (or
+ * missing fields within them) read as their defaults, so new settings need
+ * no migration.
+ */
+export class SettingsRepository {
+    async get(): Promise<ExtensionSettings> {
+        const stored = (await StorageAdapter.get<Partial<ExtensionSettings>>(StorageKeys.SETTINGS)) || {};
+        return {
+            autoTrack: { ...DEFAULT_SETTINGS.autoTrack, ...stored.autoTrack },
+        };
+    }
+
+    /**
+     * Change some fields of one settings section, keeping the rest
+     */
+    async update<K extends keyof ExtensionSettings>(
+        section: K,
+        changes: Partial<ExtensionSettings[K]>,
+    ): Promise<ExtensionSettings> {
+        const settings = await this.get();
+        settings[section] = { ...settings[section], ...changes };
+        await StorageAdapter.set(StorageKeys.SETTINGS, settings);
+        return settings;
+    }
+}
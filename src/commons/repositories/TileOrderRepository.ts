@@ -0,0 +1,21 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { TileOrder } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+
+/**
+ * The order the user dragged listing tiles into. The content script lays the
+ * tiles out; its saves are written here by the background worker.
+ */
+export class TileOrderRepository {
+    async get(): Promise<TileOrder | null> {
+        return (await StorageAdapter.get<TileOrder>(StorageKeys.TILE_ORDER)) ?? null;
+    }
+
+    async save(order: TileOrder): Promise<void> {
+        await StorageAdapter.set(StorageKeys.TILE_ORDER, order);
+    }
+
+    async clear(): Promise<void> {
+        await StorageAdapter.remove(StorageKeys.TILE_ORDER);
+    }
+}
@@ -0,0 +1,75 @@
+import type { WatchHistoryEntry } from "@/commons/models";
+import { DailyLogRepository, dayOf } from "./DailyLogRepository";
+import {
+    MAX_WATCH_HISTORY_ENTRIES,
+    StorageKeys,
+    WATCH_HISTORY_BURST_MINUTES,
+    WATCH_HISTORY_RETENTION_DAYS,
+} from "@/commons/models";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Entries still inside the retention period
+ */
+function withinRetention(entries: WatchHistoryEntry[], now: Date): WatchHistoryEntry[] {
+    const cutoff = now.getTime() - WATCH_HISTORY_RETENTION_DAYS * DAY_MS;
+    return entries.filter((entry) => Date.parse(entry.timestamp) >= cutoff);
+}
+
+/**
+ * Shrink a history (oldest first) to fit the retention limits: entries past
+ * the retention period are dropped, bursts of changes to one anime collapse
+ * to their last entry, and if that is still too many the oldest go.
+ */
+export function compactWatchHistory(
+    entries: WatchHistoryEntry[],
+    now: Date = new Date(),
+    maxEntries: number = MAX_WATCH_HISTORY_ENTRIES,
+): WatchHistoryEntry[] {
+    const recent = withinRetention(entries, now);
+
+    // Walk newest first so each entry can be checked against the next change to the same anime
+    const nextChange = new Map<string, number>();
+    const kept: WatchHistoryEntry[] = [];
+    for (let index = recent.length - 1; index >= 0; index--) {
+        const entry = recent[index];
+        const time = Date.parse(entry.timestamp);
+        const next = nextChange.get(entry.animeId);
+        nextChange.set(entry.animeId, time);
+        if (next !== undefined && next - time <= WATCH_HISTORY_BURST_MINUTES * MINUTE_MS) continue;
+        kept.push(entry);
+    }
+    kept.reverse();
+
+    return kept.length > maxEntries ? kept.slice(kept.length - maxEntries) : kept;
+}
+
+/**
+ * Append-only log of episode progress changes, oldest first, stored one key
+ * per day. Entries are never edited; days past the retention period drop off
+ * as new entries are added, and once the log outgrows its limit it is
+ * compacted.
+ */
+export class WatchHistoryRepository extends DailyLogRepository<WatchHistoryEntry> {
+    constructor(private readonly maxEntries: number = MAX_WATCH_HISTORY_ENTRIES) {
+        super(StorageKeys.WATCH_HISTORY);
+    }
+
+    /**
+     * Apply the retention limits now rather than when the next day starts
+     */
+    async compact(now: Date = new Date()): Promise<void> {
+        await this.rewrite((history) => compactWatchHistory(history, now, this.maxEntries));
+    }
+
+    protected firstKeptDay(now: Date): string {
+        return dayOf(new Date(now.getTime() - WATCH_HISTORY_RETENTION_DAYS * DAY_MS).toISOString());
+    }
+
+    protected trim(history: WatchHistoryEntry[], now: Date): WatchHistoryEntry[] {
+        const recent = withinRetention(history, now);
+        return recent.length > this.maxEntries ? compactWatchHistory(recent, now, this.maxEntries) : recent;
+    }
+}
@@ -1,7 +1,25 @@
 // Base repository
+export { AnimeRecordRepository } from "./AnimeRecordRepository";
 export { BaseRepository } from "./BaseRepository";
+export { DailyLogRepository } from "./DailyLogRepository";
+export { PerAnimeRepository } from "./PerAnimeRepository";
 
 // Specific repositories
+export { ActivityLogRepository } from "./ActivityLogRepository";
+export { AnimeIdentityRepository } from "./AnimeIdentityRepository";
+export { AnimeUserDataRepository } from "./AnimeUserDataRepository";
+export { CompletedAnimeRepository } from "./CompletedAnimeRepository";
+export { CustomAdapterRepository } from "./CustomAdapterRepository";
+export { CustomListRepository } from "./CustomListRepository";
+export { DroppedAnimeRepository } from "./DroppedAnimeRepository";
 export { EpisodeProgressRepository } from "./EpisodeProgressRepository";
+export { FolderOrderRepository } from "./FolderOrderRepository";
 export { HiddenAnimeRepository } from "./HiddenAnimeRepository";
+export { HideRuleRepository } from "./HideRuleRepository";
+export { OnHoldAnimeRepository } from "./OnHoldAnimeRepository";
 export { PlanToWatchRepository } from "./PlanToWatchRepository";
+export { TileOrderRepository } from "./TileOrderRepository";
+export { WatchHistoryRepository, compactWatchHistory } from "./WatchHistoryRepository";
+
+// Preferences
+export { SettingsRepository } from "./SettingsRepository";
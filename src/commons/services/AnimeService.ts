@@ -1,554 +1,441 @@
 import type {
     ActionResult,
+    ActivityEvent,
     AnimeData,
+    AnimeIdentity,
+    AnimeRequest,
+    AnimeResponse,
     AnimeStatus,
-    EpisodeProgress,
-    PlanToWatch,
-    ValidationResult,
+    AnimeUserData,
+    AnimeUserDataChanges,
+    BackupListKey,
+    CustomList,
+    ExtensionSettings,
+    FolderOrder,
+    HideRule,
+    ImportMode,
+    LibraryBackup,
+    SiteAdapterDefinition,
+    WatchHistoryEntry,
+    WatchSource,
 } from "@/commons/models";
-import { AnimeAction } from "@/commons/models";
-import { EpisodeProgressRepository, HiddenAnimeRepository, PlanToWatchRepository } from "@/commons/repositories";
-import { AnimeStateValidator } from "./AnimeStateValidator";
+import type { LocalAnimeService } from "./LocalAnimeService";
+
+type AnimeDetails = Awaited<ReturnType<LocalAnimeService["getAnimeDetails"]>>;
+type AllAnime = Awaited<ReturnType<LocalAnimeService["getAllAnime"]>>;
 
 /**
- * Service class that coordinates anime-related operations across multiple repositories
- * Implements high-level business logic for anime state management
+ * Client for anime list operations in the content script, popup and options page
+ *
+ * Each call is forwarded to the background service worker, which owns all
+ * storage writes and applies them one at a time per storage key. Method
+ * signatures mirror LocalAnimeService, which does the work in the worker.
  */
 export class AnimeService {
-    private readonly episodeProgressRepository: EpisodeProgressRepository;
-    private readonly planToWatchRepository: PlanToWatchRepository;
-    private readonly hiddenAnimeRepository: HiddenAnimeRepository;
-    private readonly stateValidator: AnimeStateValidator;
-
-    constructor(
-        episodeProgressRepository?: EpisodeProgressRepository,
-        planToWatchRepository?: PlanToWatchRepository,
-        hiddenAnimeRepository?: HiddenAnimeRepository,
-    ) {
-        this.episodeProgressRepository = episodeProgressRepository ?? new EpisodeProgressRepository();
-        this.planToWatchRepository = planToWatchRepository ?? new PlanToWatchRepository();
-        this.hiddenAnimeRepository = hiddenAnimeRepository ?? new HiddenAnimeRepository();
-        this.stateValidator = new AnimeStateValidator();
-    }
-
     /**
      * Get the current status of an anime
      */
     async getAnimeStatus(animeId: string): Promise<AnimeStatus> {
-        const [episodeProgress, planToWatch, isHidden] = await Promise.all([
-            this.episodeProgressRepository.findById(animeId),
-            this.planToWatchRepository.findById(animeId),
-            this.hiddenAnimeRepository.exists(animeId),
-        ]);
-
-        return {
-            isTracked: !!episodeProgress,
-            isPlanned: !!planToWatch,
-            isHidden,
-            progress: episodeProgress || undefined,
-            plan: planToWatch || undefined,
-        };
+        return this.request<AnimeStatus>({ type: "GET_STATUS", animeId });
     }
 
     /**
-     * Validate if an action is allowed for an anime
+     * Get the status of many anime in one round trip (listing pages)
      */
-    private async validateAction(animeId: string, action: AnimeAction): Promise<ValidationResult> {
-        const currentStatus = await this.getAnimeStatus(animeId);
-        return AnimeStateValidator.validateTransition(currentStatus, action);
+    async getAnimeStatuses(animeIds: string[]): Promise<Record<string, AnimeStatus>> {
+        return this.request<Record<string, AnimeStatus>>({ type: "GET_STATUSES", animeIds });
     }
 
     /**
      * Add anime to plan to watch list
-     * This is the main "add to watch list" functionality
      */
     async addToPlanToWatch(animeData: AnimeData): Promise<ActionResult> {
-        try {
-            const currentStatus = await this.getAnimeStatus(animeData.animeId);
-            const validation = await this.validateAction(animeData.animeId, AnimeAction.ADD_TO_PLAN);
-
-            if (!validation.allowed) {
-                return {
-                    success: false,
-                    message: validation.reason || "Cannot add anime to plan to watch",
-                    newStatus: currentStatus,
-                };
-            }
-
-            // Create plan to watch entry
-            const planToWatchEntry: PlanToWatch = {
-                animeId: animeData.animeId,
-                animeTitle: animeData.animeTitle,
-                animeSlug: animeData.animeSlug,
-                addedAt: new Date().toISOString(),
-            };
-
-            await this.planToWatchRepository.create(planToWatchEntry);
-
-            return {
-                success: true,
-                message: `Added "${animeData.animeTitle}" to plan to watch`,
-                newStatus: {
-                    isTracked: false,
-                    isPlanned: true,
-                    isHidden: false,
-                },
-            };
-        } catch (error) {
-            return {
-                success: false,
-                message: "Failed to add anime to plan to watch",
-                error: error instanceof Error ? error.message : String(error),
-            };
-        }
+        return this.action({ type: "ADD_TO_PLAN", animeData });
     }
 
     /**
      * Remove anime from plan to watch list
      */
     async removeFromPlanToWatch(animeId: string): Promise<ActionResult> {
-        try {
-            const currentStatus = await this.getAnimeStatus(animeId);
-            const validation = await this.validateAction(animeId, AnimeAction.REMOVE_FROM_PLAN);
+        return this.action({ type: "REMOVE_FROM_PLAN", animeId });
+    }
 
-            if (!validation.allowed) {
-                return {
-                    success: false,
-                    message: validation.reason || "Cannot remove anime from plan to watch",
-                    newStatus: currentStatus,
-                };
-            }
+    /**
+     * Start watching an anime, moving it out of the plan list when needed.
+     * `source` tells the watch history whether the user or auto-tracking did it.
+     */
+    async startWatching(
+        animeData: AnimeData,
+        episodeNumber: number = 1,
+        source: WatchSource = "manual",
+    ): Promise<ActionResult> {
+        return this.action({ type: "START_WATCHING", animeData, episodeNumber, source });
+    }
 
-            // Get the anime title before removing
-            const planEntry = await this.planToWatchRepository.findById(animeId);
-            const animeTitle = planEntry?.animeTitle || "Unknown anime";
+    /**
+     * Update episode progress for a watched anime
+     */
+    async updateEpisodeProgress(
+        animeId: string,
+        episodeNumber: number,
+        totalEpisodes?: number,
+        source: WatchSource = "manual",
+    ): Promise<ActionResult> {
+        return this.action({ type: "UPDATE_EPISODE", animeId, episodeNumber, totalEpisodes, source });
+    }
 
-            await this.planToWatchRepository.delete(animeId);
+    /**
+     * Take back an automatic move to `episodeNumber`, leaving no history of
+     * it or of the undo
+     */
+    async undoAutoEpisodeUpdate(
+        animeId: string,
+        episodeNumber: number,
+        previousEpisode: number,
+    ): Promise<ActionResult> {
+        return this.action({ type: "UNDO_AUTO_EPISODE", animeId, episodeNumber, previousEpisode });
+    }
 
-            return {
-                success: true,
-                message: `Removed "${animeTitle}" from plan to watch`,
-                newStatus: {
-                    isTracked: false,
-                    isPlanned: false,
-                    isHidden: false,
-                },
-            };
+    /**
+     * Store a poster URL for a tracked anime that has none. Errors are
+     * swallowed so callers can fire-and-forget.
+     */
+    async updatePosterUrl(animeId: string, posterUrl: string): Promise<void> {
+        try {
+            await this.request<void>({ type: "UPDATE_POSTER", animeId, posterUrl });
         } catch (error) {
-            return {
-                success: false,
-                message: "Failed to remove anime from plan to watch",
-                error: error instanceof Error ? error.message : String(error),
-            };
+            console.error("Failed to update poster URL:", error);
         }
     }
 
     /**
-     * Start watching an anime (adds episode progress)
+     * Fill in the title and poster of a hidden record stored with only its
+     * id. Errors are swallowed so callers can fire-and-forget.
      */
-    async startWatching(animeData: AnimeData, episodeNumber: number = 1): Promise<ActionResult> {
+    async updateHiddenDetails(animeData: AnimeData): Promise<void> {
         try {
-            const currentStatus = await this.getAnimeStatus(animeData.animeId);
-            const validation = await this.validateAction(animeData.animeId, AnimeAction.ADD_TO_WATCH);
-
-            if (!validation.allowed) {
-                return {
-                    success: false,
-                    message: validation.reason || "Cannot start watching anime",
-                    newStatus: currentStatus,
-                };
-            }
-
-            // Create episode progress entry
-            const episodeProgress: EpisodeProgress = {
-                animeId: animeData.animeId,
-                animeTitle: animeData.animeTitle,
-                animeSlug: animeData.animeSlug,
-                currentEpisode: episodeNumber,
-                episodeId: `${animeData.animeSlug}-episode-${episodeNumber}`,
-                lastWatched: new Date().toISOString(),
-            };
+            await this.request<void>({ type: "UPDATE_HIDDEN_DETAILS", animeData });
+        } catch (error) {
+            console.error("Failed to update hidden anime details:", error);
+        }
+    }
 
-            // Same storage chokepoint guard as updatePosterUrl: only persist
-            // absolute http/https URLs since they are later bound to <img :src>.
-            if (animeData.posterUrl && AnimeService.isSafePosterUrl(animeData.posterUrl)) {
-                episodeProgress.posterUrl = animeData.posterUrl;
-            }
+    /**
+     * Stop watching an anime (removes from episode progress)
+     */
+    async stopWatching(animeId: string): Promise<ActionResult> {
+        return this.action({ type: "STOP_WATCHING", animeId });
+    }
 
-            await this.episodeProgressRepository.create(episodeProgress);
+    /**
+     * Move a watched or on-hold anime to the completed list
+     */
+    async completeAnime(animeId: string): Promise<ActionResult> {
+        return this.action({ type: "COMPLETE", animeId });
+    }
 
-            // Remove from plan to watch if it was there
-            if (validation.removesFromPlan) {
-                await this.planToWatchRepository.delete(animeData.animeId);
-            }
+    /**
+     * Move a watched or on-hold anime to the dropped list
+     */
+    async dropAnime(animeId: string): Promise<ActionResult> {
+        return this.action({ type: "DROP", animeId });
+    }
 
-            return {
-                success: true,
-                message: `Started watching "${animeData.animeTitle}" from episode ${episodeNumber}`,
-                newStatus: {
-                    isTracked: true,
-                    isPlanned: false,
-                    isHidden: false,
-                },
-            };
-        } catch (error) {
-            return {
-                success: false,
-                message: "Failed to start watching anime",
-                error: error instanceof Error ? error.message : String(error),
-            };
-        }
+    /**
+     * Move a watched anime to the on-hold list
+     */
+    async putOnHold(animeId: string): Promise<ActionResult> {
+        return this.action({ type: "PUT_ON_HOLD", animeId });
     }
 
     /**
-     * Update episode progress for currently watching anime
+     * Move an on-hold or dropped anime back to currently watching
      */
-    async updateEpisodeProgress(animeId: string, episodeNumber: number, totalEpisodes?: number): Promise<ActionResult> {
-        try {
-            const currentStatus = await this.getAnimeStatus(animeId);
-            const validation = await this.validateAction(animeId, AnimeAction.UPDATE_EPISODE);
-
-            if (!validation.allowed) {
-                return {
-                    success: false,
-                    message: validation.reason || "Cannot update episode progress",
-                    newStatus: currentStatus,
-                };
-            }
-
-            const existingProgress = await this.episodeProgressRepository.findById(animeId);
-            if (!existingProgress) {
-                return {
-                    success: false,
-                    message: "No episode progress found for this anime",
-                    newStatus: currentStatus,
-                };
-            }
-
-            // Update the episode progress
-            const updatedProgress: Partial<EpisodeProgress> = {
-                currentEpisode: episodeNumber,
-                episodeId: `${existingProgress.animeSlug}-episode-${episodeNumber}`,
-                lastWatched: new Date().toISOString(),
-            };
+    async resumeWatching(animeId: string): Promise<ActionResult> {
+        return this.action({ type: "RESUME", animeId });
+    }
 
-            if (totalEpisodes !== undefined) {
-                updatedProgress.totalEpisodes = totalEpisodes;
-            }
+    /**
+     * Remove an anime from the completed list
+     */
+    async removeFromCompleted(animeId: string): Promise<ActionResult> {
+        return this.action({ type: "REMOVE_FROM_COMPLETED", animeId });
+    }
 
-            await this.episodeProgressRepository.update(animeId, updatedProgress);
+    /**
+     * Remove an anime from the dropped list
+     */
+    async removeFromDropped(animeId: string): Promise<ActionResult> {
+        return this.action({ type: "REMOVE_FROM_DROPPED", animeId });
+    }
 
-            return {
-                success: true,
-                message: `Updated "${existingProgress.animeTitle}" to episode ${episodeNumber}`,
-                newStatus: {
-                    isTracked: true,
-                    isPlanned: false,
-                    isHidden: false,
-                },
-            };
-        } catch (error) {
-            return {
-                success: false,
-                message: "Failed to update episode progress",
-                error: error instanceof Error ? error.message : String(error),
-            };
-        }
+    /**
+     * Remove an anime from the on-hold list
+     */
+    async removeFromOnHold(animeId: string): Promise<ActionResult> {
+        return this.action({ type: "REMOVE_FROM_ON_HOLD", animeId });
     }
 
     /**
-     * Backfill/refresh the stored poster URL for a tracked anime.
-     * No-op when the URL is not an absolute http/https URL, the anime is not
-     * tracked, or the stored URL is already up to date. Errors are swallowed
-     * so callers can safely fire-and-forget (used by the content-script
-     * backfill).
+     * Hide an anime from listings
      */
-    async updatePosterUrl(animeId: string, posterUrl: string): Promise<void> {
-        try {
-            // Storage chokepoint guard: poster URLs originate from untrusted
-            // page content and are later bound to <img :src> in extension
-            // pages, so anything but an absolute http/https URL is rejected.
-            if (!AnimeService.isSafePosterUrl(posterUrl)) {
-                return;
-            }
-
-            const existingProgress = await this.episodeProgressRepository.findById(animeId);
-            if (!existingProgress || existingProgress.posterUrl === posterUrl) {
-                return;
-            }
-
-            await this.episodeProgressRepository.update(animeId, { posterUrl });
-        } catch (error) {
-            console.error("Failed to update poster URL:", error);
-        }
+    async hideAnime(animeData: AnimeData): Promise<ActionResult> {
+        return this.action({ type: "HIDE", animeData });
     }
 
     /**
-     * Returns true only for absolute http/https URLs — the only scheme family
-     * safe to persist and later render as an <img> source.
+     * Unhide a previously hidden anime
      */
-    private static isSafePosterUrl(posterUrl: string): boolean {
-        if (!posterUrl) {
-            return false;
-        }
-        try {
-            const url = new URL(posterUrl);
-            return url.protocol === "http:" || url.protocol === "https:";
-        } catch {
-            return false;
-        }
+    async unhideAnime(animeId: string): Promise<ActionResult> {
+        return this.action({ type: "UNHIDE", animeId });
     }
 
     /**
-     * Stop watching an anime (removes from episode progress)
+     * Get detailed anime information including status and progress
      */
-    async stopWatching(animeId: string): Promise<ActionResult> {
-        try {
-            const currentStatus = await this.getAnimeStatus(animeId);
-            const validation = await this.validateAction(animeId, AnimeAction.REMOVE_FROM_WATCH);
+    async getAnimeDetails(animeId: string): Promise<AnimeDetails> {
+        return this.request<AnimeDetails>({ type: "GET_DETAILS", animeId });
+    }
 
-            if (!validation.allowed) {
-                return {
-                    success: false,
-                    message: validation.reason || "Cannot stop watching anime",
-                    newStatus: currentStatus,
-                };
-            }
+    /**
+     * Get all anime across different states (dashboard view)
+     */
+    async getAllAnime(): Promise<AllAnime> {
+        return this.request<AllAnime>({ type: "GET_ALL_ANIME" });
+    }
 
-            // Get the anime title before removing
-            const progressEntry = await this.episodeProgressRepository.findById(animeId);
-            const animeTitle = progressEntry?.animeTitle || "Unknown anime";
+    /**
+     * Clear all data for an anime (removes from all repositories)
+     */
+    async clearAnimeData(animeId: string): Promise<ActionResult> {
+        return this.action({ type: "CLEAR_ANIME", animeId });
+    }
 
-            await this.episodeProgressRepository.delete(animeId);
+    /**
+     * Clear all hidden anime (unhide all previously hidden anime)
+     */
+    async clearAllHidden(): Promise<ActionResult> {
+        return this.action({ type: "CLEAR_ALL_HIDDEN" });
+    }
 
-            return {
-                success: true,
-                message: `Stopped watching "${animeTitle}"`,
-                newStatus: {
-                    isTracked: false,
-                    isPlanned: false,
-                    isHidden: false,
-                },
-            };
-        } catch (error) {
-            return {
-                success: false,
-                message: "Failed to stop watching anime",
-                error: error instanceof Error ? error.message : String(error),
-            };
-        }
+    /**
+     * Get every cross-site identity (entries merged into one another)
+     */
+    async getAnimeIdentities(): Promise<AnimeIdentity[]> {
+        return this.request<AnimeIdentity[]>({ type: "GET_IDENTITIES" });
     }
 
     /**
-     * Hide an anime from all listings
+     * Merge one entry into another so both resolve to the kept entry
      */
-    async hideAnime(animeId: string): Promise<ActionResult> {
-        try {
-            const currentStatus = await this.getAnimeStatus(animeId);
-            const validation = await this.validateAction(animeId, AnimeAction.HIDE);
-
-            if (!validation.allowed) {
-                return {
-                    success: false,
-                    message: validation.reason || "Cannot hide anime",
-                    newStatus: currentStatus,
-                };
-            }
-
-            // Get anime title for the message
-            let animeTitle = "Unknown anime";
-            const progressEntry = await this.episodeProgressRepository.findById(animeId);
-            const planEntry = await this.planToWatchRepository.findById(animeId);
-
-            if (progressEntry) {
-                animeTitle = progressEntry.animeTitle;
-            } else if (planEntry) {
-                animeTitle = planEntry.animeTitle;
-            }
-
-            await this.hiddenAnimeRepository.add(animeId);
+    async mergeAnime(keepId: string, mergeId: string): Promise<ActionResult> {
+        return this.action({ type: "MERGE_ANIME", keepId, mergeId });
+    }
 
-            return {
-                success: true,
-                message: `Hidden "${animeTitle}" from listings`,
-                newStatus: {
-                    isTracked: currentStatus.isTracked,
-                    isPlanned: currentStatus.isPlanned,
-                    isHidden: true,
-                },
-            };
-        } catch (error) {
-            return {
-                success: false,
-                message: "Failed to hide anime",
-                error: error instanceof Error ? error.message : String(error),
-            };
-        }
+    /**
+     * Unlink an entry from the one it was merged into
+     */
+    async splitAnime(animeId: string): Promise<ActionResult> {
+        return this.action({ type: "SPLIT_ANIME", animeId });
     }
 
     /**
-     * Unhide an anime (restore to previous status)
+     * Get every user-created list
      */
-    async unhideAnime(animeId: string): Promise<ActionResult> {
-        try {
-            const currentStatus = await this.getAnimeStatus(animeId);
-            const validation = await this.validateAction(animeId, AnimeAction.UNHIDE);
+    async getCustomLists(): Promise<CustomList[]> {
+        return this.request<CustomList[]>({ type: "GET_CUSTOM_LISTS" });
+    }
 
-            if (!validation.allowed) {
-                return {
-                    success: false,
-                    message: validation.reason || "Cannot unhide anime",
-                    newStatus: currentStatus,
-                };
-            }
+    /**
+     * Create an empty user list
+     */
+    async createCustomList(name: string): Promise<ActionResult> {
+        return this.action({ type: "CREATE_CUSTOM_LIST", name });
+    }
 
-            await this.hiddenAnimeRepository.remove(animeId);
+    /**
+     * Rename a user list
+     */
+    async renameCustomList(listId: string, name: string): Promise<ActionResult> {
+        return this.action({ type: "RENAME_CUSTOM_LIST", listId, name });
+    }
 
-            // Determine new status after unhiding
-            const newStatus = await this.getAnimeStatus(animeId);
+    /**
+     * Delete a user list
+     */
+    async deleteCustomList(listId: string): Promise<ActionResult> {
+        return this.action({ type: "DELETE_CUSTOM_LIST", listId });
+    }
 
-            return {
-                success: true,
-                message: "Anime unhidden from listings",
-                newStatus,
-            };
-        } catch (error) {
-            return {
-                success: false,
-                message: "Failed to unhide anime",
-                error: error instanceof Error ? error.message : String(error),
-            };
-        }
+    /**
+     * Add an anime to a user list
+     */
+    async addToCustomList(listId: string, animeData: AnimeData): Promise<ActionResult> {
+        return this.action({ type: "ADD_TO_CUSTOM_LIST", listId, animeData });
     }
 
     /**
-     * Get detailed anime information including status and progress
+     * Take an anime off a user list
      */
-    async getAnimeDetails(animeId: string): Promise<{
-        status: AnimeStatus;
-        episodeProgress?: EpisodeProgress;
-        planToWatch?: PlanToWatch;
-        isHidden: boolean;
-    }> {
-        const [status, episodeProgress, planToWatch, isHidden] = await Promise.all([
-            this.getAnimeStatus(animeId),
-            this.episodeProgressRepository.findById(animeId),
-            this.planToWatchRepository.findById(animeId),
-            this.hiddenAnimeRepository.exists(animeId),
-        ]);
+    async removeFromCustomList(listId: string, animeId: string): Promise<ActionResult> {
+        return this.action({ type: "REMOVE_FROM_CUSTOM_LIST", listId, animeId });
+    }
 
-        return {
-            status,
-            episodeProgress: episodeProgress || undefined,
-            planToWatch: planToWatch || undefined,
-            isHidden,
-        };
+    /**
+     * Get the rating, notes and tags of every anime that has any, keyed by anime id
+     */
+    async getUserData(): Promise<Record<string, AnimeUserData>> {
+        return this.request<Record<string, AnimeUserData>>({ type: "GET_USER_DATA" });
     }
 
     /**
-     * Get all anime across different states (dashboard view)
+     * Rate an anime or edit its notes and tags
      */
-    async getAllAnime(): Promise<{
-        currentlyWatching: EpisodeProgress[];
-        planToWatch: PlanToWatch[];
-        hiddenAnime: string[];
-        totalCount: number;
-    }> {
-        const [currentlyWatching, planToWatch, hiddenAnime] = await Promise.all([
-            this.episodeProgressRepository.findAll(),
-            this.planToWatchRepository.findAll(),
-            this.hiddenAnimeRepository.findAll(),
-        ]);
+    async updateUserData(animeId: string, changes: AnimeUserDataChanges): Promise<ActionResult> {
+        return this.action({ type: "UPDATE_USER_DATA", animeId, changes });
+    }
 
-        return {
-            currentlyWatching,
-            planToWatch,
-            hiddenAnime,
-            totalCount: currentlyWatching.length + planToWatch.length + hiddenAnime.length,
-        };
+    /**
+     * Get every recorded progress change, oldest first, or only those of one anime
+     */
+    async getWatchHistory(animeId?: string): Promise<WatchHistoryEntry[]> {
+        return this.request<WatchHistoryEntry[]>({ type: "GET_WATCH_HISTORY", animeId });
     }
 
     /**
-     * Clear all data for an anime (removes from all repositories)
+     * Get every recorded status change, oldest first
      */
-    async clearAnimeData(animeId: string): Promise<ActionResult> {
-        try {
-            // Get anime title before clearing
-            let animeTitle = "Unknown anime";
-            const progressEntry = await this.episodeProgressRepository.findById(animeId);
-            const planEntry = await this.planToWatchRepository.findById(animeId);
-
-            if (progressEntry) {
-                animeTitle = progressEntry.animeTitle;
-            } else if (planEntry) {
-                animeTitle = planEntry.animeTitle;
-            }
-
-            // Remove from all repositories
-            await Promise.all([
-                this.episodeProgressRepository.delete(animeId).catch(() => {}), // Ignore errors if not found
-                this.planToWatchRepository.delete(animeId).catch(() => {}),
-                this.hiddenAnimeRepository.remove(animeId).catch(() => {}),
-            ]);
+    async getActivity(): Promise<ActivityEvent[]> {
+        return this.request<ActivityEvent[]>({ type: "GET_ACTIVITY" });
+    }
 
-            return {
-                success: true,
-                message: `Cleared all data for "${animeTitle}"`,
-                newStatus: {
-                    isTracked: false,
-                    isPlanned: false,
-                    isHidden: false,
-                },
-            };
-        } catch (error) {
-            return {
-                success: false,
-                message: "Failed to clear anime data",
-                error: error instanceof Error ? error.message : String(error),
-            };
-        }
+    /**
+     * Store the folders and tile order laid out on a listing page
+     */
+    async saveFolderOrder(folderOrder: FolderOrder): Promise<ActionResult> {
+        return this.action({ type: "SAVE_FOLDER_ORDER", folderOrder });
     }
 
     /**
-     * Clear all hidden anime (unhide all previously hidden anime)
-     * This is more efficient than unhiding each anime individually
+     * Store the order listing tiles were dragged into
      */
-    async clearAllHidden(): Promise<ActionResult> {
-        try {
-            // Get count before clearing for the message
-            const hiddenAnime = await this.hiddenAnimeRepository.findAll();
-            const count = hiddenAnime.length;
-
-            if (count === 0) {
-                return {
-                    success: true,
-                    message: "No hidden anime to restore",
-                    newStatus: {
-                        isTracked: false,
-                        isPlanned: false,
-                        isHidden: false,
-                    },
-                };
-            }
-
-            // Clear all hidden anime at once
-            await this.hiddenAnimeRepository.clear();
+    async saveTileOrder(animeIds: string[]): Promise<ActionResult> {
+        return this.action({ type: "SAVE_TILE_ORDER", animeIds });
+    }
 
-            return {
-                success: true,
-                message: `Restored ${count} hidden anime`,
-                newStatus: {
-                    isTracked: false,
-                    isPlanned: false,
-                    isHidden: false,
-                },
-            };
+    /**
+     * Forget the dragged tile order
+     */
+    async clearTileOrder(): Promise<ActionResult> {
+        return this.action({ type: "CLEAR_TILE_ORDER" });
+    }
+
+    /**
+     * Import a parsed backup with the given per-list modes
+     */
+    async importLibrary(
+        backup: LibraryBackup,
+        modes: Partial<Record<BackupListKey, ImportMode>> = {},
+    ): Promise<ActionResult> {
+        return this.action({ type: "IMPORT_LIBRARY", backup, modes });
+    }
+
+    /**
+     * User preferences, with defaults for anything not yet saved
+     */
+    async getSettings(): Promise<ExtensionSettings> {
+        return this.request<ExtensionSettings>({ type: "GET_SETTINGS" });
+    }
+
+    /**
+     * Change some fields of one settings section
+     */
+    async updateSettings<K extends keyof ExtensionSettings>(
+        section: K,
+        changes: Partial<ExtensionSettings[K]>,
+    ): Promise<ActionResult> {
+        return this.action({ type: "UPDATE_SETTINGS", section, changes });
+    }
+
+    /**
+     * The user's hide rules, oldest first
+     */
+    async getHideRules(): Promise<HideRule[]> {
+        return this.request<HideRule[]>({ type: "GET_HIDE_RULES" });
+    }
+
+    /**
+     * Add a hide rule
+     */
+    async saveHideRule(rule: HideRule): Promise<ActionResult> {
+        return this.action({ type: "SAVE_HIDE_RULE", rule });
+    }
+
+    /**
+     * Change a hide rule, e.g. to turn it off
+     */
+    async updateHideRule(ruleId: string, changes: Partial<HideRule>): Promise<ActionResult> {
+        return this.action({ type: "UPDATE_HIDE_RULE", ruleId, changes });
+    }
+
+    /**
+     * Delete a hide rule
+     */
+    async deleteHideRule(ruleId: string): Promise<ActionResult> {
+        return this.action({ type: "DELETE_HIDE_RULE", ruleId });
+    }
+
+    /**
+     * Site adapters the user defined, in the order they are tried
+     */
+    async getCustomAdapters(): Promise<SiteAdapterDefinition[]> {
+        return this.request<SiteAdapterDefinition[]>({ type: "GET_CUSTOM_ADAPTERS" });
+    }
+
+    /**
+     * Save a custom adapter, replacing the one with `replaceId` when editing
+     */
+    async saveCustomAdapter(definition: SiteAdapterDefinition, replaceId?: string): Promise<ActionResult> {
+        return this.action({ type: "SAVE_CUSTOM_ADAPTER", definition, replaceId });
+    }
+
+    /**
+     * Delete a custom adapter
+     */
+    async deleteCustomAdapter(adapterId: string): Promise<ActionResult> {
+        return this.action({ type: "DELETE_CUSTOM_ADAPTER", adapterId });
+    }
+
+    /**
+     * Send a mutation and turn a failed round trip into a failed ActionResult,
+     * matching how LocalAnimeService reports its own errors
+     */
+    private async action(message: AnimeRequest): Promise<ActionResult> {
+        try {
+            return await this.request<ActionResult>(message);
         } catch (error) {
             return {
                 success: false,
-                message: "Failed to clear hidden anime",
+                message: "Could not reach the extension background",
                 error: error instanceof Error ? error.message : String(error),
             };
         }
     }
+
+    private request<T>(message: AnimeRequest): Promise<T> {
+        return new Promise((resolve, reject) => {
+            chrome.runtime.sendMessage(message, (response?: AnimeResponse<T>) => {
+                if (chrome.runtime.lastError) {
+                    return reject(new Error(chrome.runtime.lastError.message));
+                }
+                if (!response) {
+                    return reject(new Error(`No response to ${message.type}`));
+                }
+                if (!response.ok) {
+                    return reject(new Error(response.error));
+                }
+                resolve(response.result);
+            });
+        });
+    }
 }
@@ -1,4 +1,4 @@
-import type { AnimeStatus, ValidationResult } from "@/commons/models/architecture";
+import type { AnimeStatus, EpisodeProgress, ValidationResult } from "@/commons/models/architecture";
 import { AnimeAction } from "@/commons/models/architecture";
 
 /**
@@ -7,7 +7,11 @@ import { AnimeAction } from "@/commons/models/architecture";
  *
  * Clean State: Can add to plan, can add to watch, can hide
  * Plan State: Can remove from plan, can add to watch (removes from plan), CANNOT hide
- * Watch State: Can remove from watch, can update episode, CANNOT add to plan, CANNOT hide
+ * Watch State: Can remove from watch, can update episode, can complete (at any episode), drop
+ *              or put on hold, CANNOT add to plan, CANNOT hide
+ * On-Hold State: Can resume, complete, drop or remove from on-hold, CANNOT add to plan, CANNOT hide
+ * Dropped State: Can resume or remove from dropped, CANNOT add to plan, CANNOT hide
+ * Completed State: Can remove from completed, CANNOT add to plan, CANNOT add to watch, CANNOT hide
  * Hidden State: Can unhide, CANNOT add to plan, CANNOT add to watch
  */
 export class AnimeStateValidator {
@@ -38,6 +42,12 @@ export class AnimeStateValidator {
                     return { allowed: true };
                 case AnimeAction.UPDATE_EPISODE:
                     return { allowed: true };
+                case AnimeAction.COMPLETE:
+                    return { allowed: true };
+                case AnimeAction.DROP:
+                    return { allowed: true };
+                case AnimeAction.PUT_ON_HOLD:
+                    return { allowed: true };
                 case AnimeAction.ADD_TO_PLAN:
                     return { allowed: false, reason: "Cannot add to plan while watching" };
                 case AnimeAction.HIDE:
@@ -49,6 +59,64 @@ export class AnimeStateValidator {
             }
         }
 
+        // On-Hold State - can resume, finish, drop or clear, but cannot plan or hide
+        if (currentStatus.isOnHold) {
+            switch (action) {
+                case AnimeAction.RESUME:
+                    return { allowed: true };
+                case AnimeAction.COMPLETE:
+                    return { allowed: true };
+                case AnimeAction.DROP:
+                    return { allowed: true };
+                case AnimeAction.REMOVE_FROM_ON_HOLD:
+                    return { allowed: true };
+                case AnimeAction.PUT_ON_HOLD:
+                    return { allowed: false, reason: "Anime is already on hold" };
+                case AnimeAction.ADD_TO_PLAN:
+                    return { allowed: false, reason: "Cannot add to plan while on hold" };
+                case AnimeAction.HIDE:
+                    return { allowed: false, reason: "Cannot hide anime that is on hold" };
+                default:
+                    return { allowed: false, reason: "Action not available for on-hold anime" };
+            }
+        }
+
+        // Dropped State - can resume or clear, but cannot plan or hide
+        if (currentStatus.isDropped) {
+            switch (action) {
+                case AnimeAction.RESUME:
+                    return { allowed: true };
+                case AnimeAction.REMOVE_FROM_DROPPED:
+                    return { allowed: true };
+                case AnimeAction.DROP:
+                    return { allowed: false, reason: "Anime is already dropped" };
+                case AnimeAction.ADD_TO_PLAN:
+                    return { allowed: false, reason: "Cannot add dropped anime to plan list" };
+                case AnimeAction.HIDE:
+                    return { allowed: false, reason: "Cannot hide dropped anime" };
+                default:
+                    return { allowed: false, reason: "Action not available for dropped anime" };
+            }
+        }
+
+        // Completed State - can only be cleared
+        if (currentStatus.isCompleted) {
+            switch (action) {
+                case AnimeAction.REMOVE_FROM_COMPLETED:
+                    return { allowed: true };
+                case AnimeAction.COMPLETE:
+                    return { allowed: false, reason: "Anime is already completed" };
+                case AnimeAction.ADD_TO_PLAN:
+                    return { allowed: false, reason: "Cannot add completed anime to plan list" };
+                case AnimeAction.ADD_TO_WATCH:
+                    return { allowed: false, reason: "Anime is already completed" };
+                case AnimeAction.HIDE:
+                    return { allowed: false, reason: "Cannot hide completed anime" };
+                default:
+                    return { allowed: false, reason: "Action not available for completed anime" };
+            }
+        }
+
         // Plan State - can remove from plan, add to watch (removes from plan), but cannot hide
         if (currentStatus.isPlanned) {
             switch (action) {
@@ -86,6 +154,10 @@ export class AnimeStateValidator {
                     return { allowed: false, reason: "Anime is not being watched" };
                 case AnimeAction.UNHIDE:
                     return { allowed: false, reason: "Anime is not hidden" };
+                case AnimeAction.COMPLETE:
+                case AnimeAction.DROP:
+                case AnimeAction.PUT_ON_HOLD:
+                    return { allowed: false, reason: "Anime is not being watched" };
                 default:
                     return { allowed: false, reason: "Unknown action" };
             }
@@ -112,6 +184,21 @@ export class AnimeStateValidator {
         return availableActions;
     }
 
+    /**
+     * Whether the tracked progress has reached the last known episode.
+     * Unknown totals never count as finished.
+     *
+     * Only used to recommend COMPLETE: completing is allowed at any episode,
+     * since the user may have finished the series elsewhere or the site may
+     * not know how many episodes there are.
+     */
+    static hasReachedFinale(progress?: EpisodeProgress): boolean {
+        if (!progress || progress.totalEpisodes === undefined) {
+            return false;
+        }
+        return progress.currentEpisode >= progress.totalEpisodes;
+    }
+
     /**
      * Get user-friendly state description
      */
@@ -122,6 +209,15 @@ export class AnimeStateValidator {
         if (currentStatus.isTracked) {
             return `Watching (Episode ${currentStatus.progress?.currentEpisode || 1})`;
         }
+        if (currentStatus.isOnHold) {
+            return `On Hold (Episode ${currentStatus.onHold?.currentEpisode || 1})`;
+        }
+        if (currentStatus.isDropped) {
+            return `Dropped (Episode ${currentStatus.dropped?.currentEpisode || 1})`;
+        }
+        if (currentStatus.isCompleted) {
+            return "Completed";
+        }
         if (currentStatus.isPlanned) {
             return "Planned to Watch";
         }
@@ -136,8 +232,21 @@ export class AnimeStateValidator {
             return [AnimeAction.UNHIDE];
         }
         if (currentStatus.isTracked) {
+            // Once the last episode is reached, finishing the series is the natural next step
+            if (this.hasReachedFinale(currentStatus.progress)) {
+                return [AnimeAction.COMPLETE, AnimeAction.UPDATE_EPISODE];
+            }
             return [AnimeAction.UPDATE_EPISODE, AnimeAction.REMOVE_FROM_WATCH];
         }
+        if (currentStatus.isOnHold) {
+            return [AnimeAction.RESUME, AnimeAction.DROP];
+        }
+        if (currentStatus.isDropped) {
+            return [AnimeAction.RESUME, AnimeAction.REMOVE_FROM_DROPPED];
+        }
+        if (currentStatus.isCompleted) {
+            return [AnimeAction.REMOVE_FROM_COMPLETED];
+        }
         if (currentStatus.isPlanned) {
             return [AnimeAction.ADD_TO_WATCH, AnimeAction.REMOVE_FROM_PLAN];
         }
@@ -0,0 +1,608 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS } from "@/commons/migrations";
+import type {
+    ActionResult,
+    AnimeListKey,
+    AnimeStatus,
+    BackupListKey,
+    EpisodeProgress,
+    BackupParseResult,
+    FolderOrder,
+    ImportConflict,
+    ImportEntry,
+    ImportListPlan,
+    ImportMode,
+    ImportPlan,
+    LibraryBackup,
+    LibraryData,
+    WatchHistoryEntry,
+} from "@/commons/models";
+import { AnimeAction, StorageKeys } from "@/commons/models";
+import {
+    EpisodeProgressRepository,
+    PlanToWatchRepository,
+    WatchHistoryRepository,
+    type PerAnimeRepository,
+} from "@/commons/repositories";
+import { PER_ANIME_LISTS, type PerAnimeList } from "@/commons/utils/storageKeys";
+import { AnimeStateValidator } from "./AnimeStateValidator";
+
+const BACKUP_FORMAT = "anime-list-backup";
+const BACKUP_VERSION = 1;
+const HIDDEN_RECORDS_SCHEMA_VERSION = 5;
+
+/**
+ * Per-anime lists in the order incoming entries are evaluated. Watching comes
+ * first so a backup that lists an anime both as watched and hidden keeps the
+ * progress and reports the hidden entry as the conflict.
+ */
+const ANIME_LISTS: AnimeListKey[] = [
+    StorageKeys.EPISODE_PROGRESS,
+    StorageKeys.COMPLETED,
+    StorageKeys.ON_HOLD,
+    StorageKeys.DROPPED,
+    StorageKeys.PLAN_TO_WATCH,
+    StorageKeys.HIDDEN_ANIME,
+];
+
+const LAYOUT_KEYS = [StorageKeys.FOLDER_ORDER, StorageKeys.TILE_ORDER] as const;
+
+export const BACKUP_KEYS: BackupListKey[] = [...ANIME_LISTS, StorageKeys.USER_DATA, ...LAYOUT_KEYS];
+
+/** Lists kept one key per anime; read and written through their repositories */
+const isPerAnimeList = (key: string): key is PerAnimeList => key in PER_ANIME_LISTS;
+
+/** Record type each per-anime list holds */
+type PerAnimeRecords = { [K in PerAnimeList]: LibraryData[K][string] };
+
+type PerAnimeRepositories = { [K in PerAnimeList]: PerAnimeRepository<PerAnimeRecords[K]> };
+
+/** Lists kept under a single storage key */
+const WHOLE_KEYS = BACKUP_KEYS.filter((key) => !isPerAnimeList(key));
+
+/**
+ * The validator action an import into each list corresponds to. Status lists
+ * can only be reached through watching, so they are checked as ADD_TO_WATCH.
+ */
+const IMPORT_ACTIONS: Record<AnimeListKey, AnimeAction> = {
+    [StorageKeys.EPISODE_PROGRESS]: AnimeAction.ADD_TO_WATCH,
+    [StorageKeys.COMPLETED]: AnimeAction.ADD_TO_WATCH,
+    [StorageKeys.ON_HOLD]: AnimeAction.ADD_TO_WATCH,
+    [StorageKeys.DROPPED]: AnimeAction.ADD_TO_WATCH,
+    [StorageKeys.PLAN_TO_WATCH]: AnimeAction.ADD_TO_PLAN,
+    [StorageKeys.HIDDEN_ANIME]: AnimeAction.HIDE,
+};
+
+/** Lists an anime can only be in one of at a time */
+const STATUS_LISTS: AnimeListKey[] = [
+    StorageKeys.EPISODE_PROGRESS,
+    StorageKeys.COMPLETED,
+    StorageKeys.ON_HOLD,
+    StorageKeys.DROPPED,
+];
+
+/**
+ * The validator action for moving an anime that sits in another status list,
+ * e.g. a backup that has as completed what is still being watched locally.
+ */
+const MOVE_ACTIONS: Partial<Record<AnimeListKey, AnimeAction>> = {
+    [StorageKeys.EPISODE_PROGRESS]: AnimeAction.RESUME,
+    [StorageKeys.COMPLETED]: AnimeAction.COMPLETE,
+    [StorageKeys.ON_HOLD]: AnimeAction.PUT_ON_HOLD,
+    [StorageKeys.DROPPED]: AnimeAction.DROP,
+};
+
+function emptyLibrary(): LibraryData {
+    return {
+        [StorageKeys.EPISODE_PROGRESS]: {},
+        [StorageKeys.PLAN_TO_WATCH]: {},
+        [StorageKeys.COMPLETED]: {},
+        [StorageKeys.ON_HOLD]: {},
+        [StorageKeys.DROPPED]: {},
+        [StorageKeys.HIDDEN_ANIME]: {},
+        [StorageKeys.USER_DATA]: {},
+        [StorageKeys.FOLDER_ORDER]: null,
+        [StorageKeys.TILE_ORDER]: null,
+    };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Fill a raw storage / backup snapshot into a complete LibraryData. Every
+ * backed-up key holds an object, so anything else is left empty.
+ */
+function toLibraryData(raw: Record<string, unknown>): LibraryData {
+    const data = emptyLibrary();
+    const copy = <K extends BackupListKey>(key: K): void => {
+        const value: unknown = raw[key];
+        if (isPlainObject(value)) {
+            data[key] = value as unknown as LibraryData[K];
+        }
+    };
+    BACKUP_KEYS.forEach(copy);
+    return data;
+}
+
+function cloneLibrary(data: LibraryData): LibraryData {
+    return JSON.parse(JSON.stringify(data));
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Read a per-anime list as id -> title
+ */
+function listEntries(data: LibraryData, key: AnimeListKey): Map<string, { title: string; value: unknown }> {
+    const entries = new Map<string, { title: string; value: unknown }>();
+    Object.entries(data[key]).forEach(([id, record]) => {
+        entries.set(id, { title: record.animeTitle || id, value: record });
+    });
+    return entries;
+}
+
+function removeFromList(data: LibraryData, key: AnimeListKey, animeId: string): void {
+    delete data[key][animeId];
+}
+
+function putInList(data: LibraryData, key: AnimeListKey, animeId: string, value: unknown): void {
+    (data[key] as Record<string, unknown>)[animeId] = value;
+}
+
+/**
+ * Derive the state machine view of one anime from library data
+ */
+function statusOf(data: LibraryData, animeId: string): AnimeStatus {
+    return {
+        isTracked: animeId in data[StorageKeys.EPISODE_PROGRESS],
+        isPlanned: animeId in data[StorageKeys.PLAN_TO_WATCH],
+        isHidden: animeId in data[StorageKeys.HIDDEN_ANIME],
+        isCompleted: animeId in data[StorageKeys.COMPLETED],
+        isDropped: animeId in data[StorageKeys.DROPPED],
+        isOnHold: animeId in data[StorageKeys.ON_HOLD],
+    };
+}
+
+function emptyListPlan(key: BackupListKey, mode: ImportMode): ImportListPlan {
+    return { key, mode, added: [], changed: [], removed: [], conflicts: [], unchanged: 0 };
+}
+
+/**
+ * Service for exporting the whole library to a versioned JSON document and
+ * importing it back with a merge preview
+ */
+export class LibraryBackupService {
+    private readonly perAnimeRepositories: PerAnimeRepositories;
+    private readonly watchHistoryRepository: WatchHistoryRepository;
+
+    constructor(
+        episodeProgressRepository?: EpisodeProgressRepository,
+        planToWatchRepository?: PlanToWatchRepository,
+        watchHistoryRepository?: WatchHistoryRepository,
+    ) {
+        this.perAnimeRepositories = {
+            [StorageKeys.EPISODE_PROGRESS]: episodeProgressRepository ?? new EpisodeProgressRepository(),
+            [StorageKeys.PLAN_TO_WATCH]: planToWatchRepository ?? new PlanToWatchRepository(),
+        };
+        this.watchHistoryRepository = watchHistoryRepository ?? new WatchHistoryRepository();
+    }
+
+    /**
+     * Serialize every stored list into a backup document
+     */
+    async exportLibrary(): Promise<LibraryBackup> {
+        const stored = await this.readStored([StorageKeys.SCHEMA_VERSION]);
+        const schemaVersion = stored[StorageKeys.SCHEMA_VERSION];
+
+        return LibraryBackupService.createBackup(
+            toLibraryData(stored),
+            typeof schemaVersion === "number" ? schemaVersion : CURRENT_SCHEMA_VERSION,
+        );
+    }
+
+    /**
+     * Read every stored list the backup covers
+     */
+    async loadLibrary(): Promise<LibraryData> {
+        return toLibraryData(await this.readStored());
+    }
+
+    /**
+     * Compute what importing `backup` with the given per-list modes would do
+     */
+    async previewImport(
+        backup: LibraryBackup,
+        modes: Partial<Record<BackupListKey, ImportMode>> = {},
+    ): Promise<ImportPlan> {
+        return LibraryBackupService.planImport(await this.loadLibrary(), backup, modes);
+    }
+
+    /**
+     * Write the outcome of a planned import. Only the background worker calls
+     * this, queued on every key an import writes.
+     */
+    async applyImport(plan: ImportPlan): Promise<ActionResult> {
+        try {
+            if (plan.touched.length === 0) {
+                return { success: true, message: "Nothing to import" };
+            }
+
+            const previousProgress: Record<string, EpisodeProgress> = plan.touched.includes(
+                StorageKeys.EPISODE_PROGRESS,
+            )
+                ? await this.perAnimeRepositories[StorageKeys.EPISODE_PROGRESS].getAll()
+                : {};
+
+            const items: Record<string, unknown> = {};
+            for (const key of plan.touched) {
+                if (isPerAnimeList(key)) {
+                    await this.replacePerAnimeList(key, plan.result[key]);
+                } else {
+                    items[key] = plan.result[key];
+                }
+            }
+            if (Object.keys(items).length > 0) {
+                await StorageAdapter.setMultiple(items);
+            }
+            if (plan.touched.includes(StorageKeys.EPISODE_PROGRESS)) {
+                await this.recordImportedProgress(previousProgress, plan.result[StorageKeys.EPISODE_PROGRESS]);
+            }
+
+            const added = Object.values(plan.lists).reduce((sum, list) => sum + list.added.length, 0);
+            const skipped = Object.values(plan.lists).reduce((sum, list) => sum + list.conflicts.length, 0);
+            return {
+                success: true,
+                message:
+                    skipped > 0
+                        ? `Imported ${added} entries, skipped ${skipped} conflicting`
+                        : `Imported ${added} entries`,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to import library",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Write one per-anime list of an import result through its repository
+     */
+    private replacePerAnimeList<K extends PerAnimeList>(
+        key: K,
+        records: Record<string, PerAnimeRecords[K]>,
+    ): Promise<void> {
+        return this.perAnimeRepositories[key].replaceAll(records);
+    }
+
+    /**
+     * Log the episodes an import moved watched anime to. Best effort, like
+     * progress changes made through the anime service: the import itself
+     * already succeeded.
+     */
+    private async recordImportedProgress(
+        previous: Record<string, EpisodeProgress>,
+        imported: Record<string, EpisodeProgress>,
+    ): Promise<void> {
+        const timestamp = new Date().toISOString();
+        const entries: WatchHistoryEntry[] = Object.values(imported)
+            .filter((progress) => previous[progress.animeId]?.currentEpisode !== progress.currentEpisode)
+            .map((progress) => ({
+                animeId: progress.animeId,
+                animeTitle: progress.animeTitle,
+                episode: progress.currentEpisode,
+                timestamp,
+                source: "import",
+            }));
+        try {
+            await this.watchHistoryRepository.append(...entries);
+        } catch (error) {
+            console.warn("Failed to record imported watch history:", error);
+        }
+    }
+
+    /**
+     * Wrap library data in a backup document, e.g. for lists built from another tracker's export
+     */
+    static createBackup(data: LibraryData, schemaVersion: number = CURRENT_SCHEMA_VERSION): LibraryBackup {
+        return {
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            schemaVersion,
+            exportedAt: new Date().toISOString(),
+            data,
+        };
+    }
+
+    /**
+     * Library data with every list empty
+     */
+    static emptyLibrary(): LibraryData {
+        return emptyLibrary();
+    }
+
+    /**
+     * Read the backed-up lists in their `animeId -> record` form, plus any extra keys
+     */
+    private async readStored(extraKeys: string[] = []): Promise<Record<string, unknown>> {
+        const stored = await StorageAdapter.getMultiple([...WHOLE_KEYS, ...extraKeys]);
+        for (const [key, repository] of Object.entries(this.perAnimeRepositories)) {
+            stored[key] = await repository.getAll();
+        }
+        return stored;
+    }
+
+    /**
+     * Pretty-printed JSON for a backup file
+     */
+    static serialize(backup: LibraryBackup): string {
+        return JSON.stringify(backup, null, 2);
+    }
+
+    /**
+     * Validate a backup file and upgrade its data to the current schema
+     */
+    static parse(text: string): BackupParseResult {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(text);
+        } catch {
+            return { success: false, error: "File is not valid JSON" };
+        }
+
+        if (!isPlainObject(raw) || raw.format !== BACKUP_FORMAT) {
+            return { success: false, error: "File is not an AnimeList backup" };
+        }
+        if (typeof raw.version !== "number" || raw.version > BACKUP_VERSION) {
+            return { success: false, error: "Backup was created by a newer version of AnimeList" };
+        }
+        if (!isPlainObject(raw.data)) {
+            return { success: false, error: "Backup has no data" };
+        }
+
+        const schemaVersion = typeof raw.schemaVersion === "number" ? raw.schemaVersion : 0;
+        if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+            return { success: false, error: "Backup was created by a newer version of AnimeList" };
+        }
+
+        for (const key of BACKUP_KEYS) {
+            const value = raw.data[key];
+            if (value === undefined || value === null) continue;
+            // Hidden anime were a list of ids until they were stored as records
+            const expectsArray = key === StorageKeys.HIDDEN_ANIME && schemaVersion < HIDDEN_RECORDS_SCHEMA_VERSION;
+            if (expectsArray ? !Array.isArray(value) : !isPlainObject(value)) {
+                return { success: false, error: `Backup entry "${key}" has an invalid format` };
+            }
+        }
+
+        // Bring older backups up to the current storage schema with the same steps the background runs
+        let snapshot: Record<string, unknown> = { ...raw.data };
+        for (const migration of MIGRATIONS) {
+            if (migration.version <= schemaVersion) continue;
+            const changes = migration.migrate(snapshot);
+            snapshot = { ...snapshot, ...changes.set };
+            changes.remove?.forEach((key) => delete snapshot[key]);
+        }
+
+        return {
+            success: true,
+            backup: {
+                format: BACKUP_FORMAT,
+                version: raw.version,
+                schemaVersion: CURRENT_SCHEMA_VERSION,
+                exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+                data: toLibraryData(snapshot),
+            },
+        };
+    }
+
+    /**
+     * Diff a backup against local data and build the merged library.
+     *
+     * Every incoming anime entry is checked with AnimeStateValidator against the
+     * state the merged library has so far, so the result can never hold an anime
+     * that is e.g. both hidden and watching. Entries that fail the check are
+     * reported as conflicts and keep their local state. An anime that moves
+     * between status lists is checked as that transition (watching to completed
+     * is a COMPLETE) and leaves the list it came from.
+     */
+    static planImport(
+        local: LibraryData,
+        backup: LibraryBackup,
+        modes: Partial<Record<BackupListKey, ImportMode>> = {},
+    ): ImportPlan {
+        const modeOf = (key: BackupListKey): ImportMode => modes[key] ?? "merge";
+        const incoming = backup.data;
+        const result = cloneLibrary(local);
+        const lists = {} as Record<BackupListKey, ImportListPlan>;
+        BACKUP_KEYS.forEach((key) => {
+            lists[key] = emptyListPlan(key, modeOf(key));
+        });
+
+        // Replaced lists start empty so their incoming entries are validated against the final state
+        for (const key of ANIME_LISTS) {
+            if (modeOf(key) !== "replace") continue;
+            const incomingIds = listEntries(incoming, key);
+            listEntries(local, key).forEach((entry, id) => {
+                removeFromList(result, key, id);
+                if (!incomingIds.has(id)) lists[key].removed.push({ id, title: entry.title });
+            });
+        }
+
+        for (const key of ANIME_LISTS) {
+            if (modeOf(key) === "skip") continue;
+            const plan = lists[key];
+            const localEntries = listEntries(local, key);
+
+            listEntries(incoming, key).forEach((entry, id) => {
+                const importEntry: ImportEntry = { id, title: entry.title };
+                const localEntry = localEntries.get(id);
+                const stillInList = localEntry !== undefined && modeOf(key) === "merge";
+
+                if (stillInList) {
+                    if (isSame(localEntry.value, entry.value)) {
+                        plan.unchanged += 1;
+                    } else {
+                        plan.changed.push(importEntry);
+                        putInList(result, key, id, entry.value);
+                    }
+                    return;
+                }
+
+                const movedFrom = STATUS_LISTS.find(
+                    (other) => other !== key && modeOf(other) !== "skip" && listEntries(result, other).has(id),
+                );
+                const action = movedFrom && MOVE_ACTIONS[key] ? MOVE_ACTIONS[key] : IMPORT_ACTIONS[key];
+                const validation = AnimeStateValidator.validateTransition(statusOf(result, id), action);
+                if (!validation.allowed) {
+                    const conflict: ImportConflict = { ...importEntry, reason: validation.reason || "Not allowed" };
+                    plan.conflicts.push(conflict);
+                    return;
+                }
+
+                if (movedFrom) {
+                    removeFromList(result, movedFrom, id);
+                    lists[movedFrom].removed.push({ id, title: entry.title });
+                }
+                if (validation.removesFromPlan) {
+                    removeFromList(result, StorageKeys.PLAN_TO_WATCH, id);
+                    lists[StorageKeys.PLAN_TO_WATCH].removed.push({ id, title: entry.title });
+                }
+                putInList(result, key, id, entry.value);
+
+                if (localEntry === undefined) {
+                    plan.added.push(importEntry);
+                } else if (isSame(localEntry.value, entry.value)) {
+                    plan.unchanged += 1;
+                } else {
+                    plan.changed.push(importEntry);
+                }
+            });
+        }
+
+        LibraryBackupService.planUserData(local, incoming, result, lists[StorageKeys.USER_DATA]);
+        LibraryBackupService.planFolderOrder(local, incoming, result, lists[StorageKeys.FOLDER_ORDER]);
+        LibraryBackupService.planTileOrder(local, incoming, result, lists[StorageKeys.TILE_ORDER]);
+
+        const touched = BACKUP_KEYS.filter((key) => !isSame(local[key], result[key]));
+        return { lists, result, touched };
+    }
+
+    /**
+     * Ratings, notes and tags merge by anime id. They don't depend on list
+     * status, so they are never in conflict.
+     */
+    private static planUserData(
+        local: LibraryData,
+        incoming: LibraryData,
+        result: LibraryData,
+        plan: ImportListPlan,
+    ): void {
+        if (plan.mode === "skip") return;
+
+        const localData = local[StorageKeys.USER_DATA];
+        const incomingData = incoming[StorageKeys.USER_DATA];
+        const merged = plan.mode === "replace" ? {} : { ...localData };
+
+        Object.entries(incomingData).forEach(([id, record]) => {
+            const existing = localData[id];
+            if (!existing) plan.added.push({ id, title: id });
+            else if (isSame(existing, record)) plan.unchanged += 1;
+            else plan.changed.push({ id, title: id });
+            merged[id] = record;
+        });
+        if (plan.mode === "replace") {
+            Object.keys(localData)
+                .filter((id) => !(id in incomingData))
+                .forEach((id) => plan.removed.push({ id, title: id }));
+        }
+        result[StorageKeys.USER_DATA] = merged;
+    }
+
+    /**
+     * Folders merge by id; root items and folder contents are unioned
+     */
+    private static planFolderOrder(
+        local: LibraryData,
+        incoming: LibraryData,
+        result: LibraryData,
+        plan: ImportListPlan,
+    ): void {
+        const incomingOrder = incoming[StorageKeys.FOLDER_ORDER];
+        if (plan.mode === "skip" || !incomingOrder) return;
+
+        const localOrder = local[StorageKeys.FOLDER_ORDER];
+        const localFolders = new Map((localOrder?.folders ?? []).map((f) => [f.id, f]));
+
+        incomingOrder.folders.forEach((folder) => {
+            const existing = localFolders.get(folder.id);
+            if (!existing) plan.added.push({ id: folder.id, title: folder.name });
+            else if (isSame(existing, folder)) plan.unchanged += 1;
+            else plan.changed.push({ id: folder.id, title: folder.name });
+        });
+
+        if (plan.mode === "replace" || !localOrder) {
+            const incomingIds = new Set(incomingOrder.folders.map((f) => f.id));
+            localFolders.forEach((folder, id) => {
+                if (!incomingIds.has(id)) plan.removed.push({ id, title: folder.name });
+            });
+            result[StorageKeys.FOLDER_ORDER] = JSON.parse(JSON.stringify(incomingOrder));
+            return;
+        }
+
+        const merged: FolderOrder = JSON.parse(JSON.stringify(localOrder));
+        incomingOrder.folders.forEach((folder) => {
+            const index = merged.folders.findIndex((f) => f.id === folder.id);
+            if (index === -1) merged.folders.push({ ...folder });
+            else merged.folders[index] = { ...folder };
+        });
+        incomingOrder.rootItems.forEach((item) => {
+            if (!merged.rootItems.includes(item)) merged.rootItems.push(item);
+        });
+        Object.entries(incomingOrder.folderContents).forEach(([folderId, items]) => {
+            const contents = merged.folderContents[folderId] ?? [];
+            items.forEach((item) => {
+                if (!contents.includes(item)) contents.push(item);
+            });
+            merged.folderContents[folderId] = contents;
+        });
+        result[StorageKeys.FOLDER_ORDER] = merged;
+    }
+
+    /**
+     * Tile order merges by appending ids the local order does not have yet
+     */
+    private static planTileOrder(
+        local: LibraryData,
+        incoming: LibraryData,
+        result: LibraryData,
+        plan: ImportListPlan,
+    ): void {
+        const incomingOrder = incoming[StorageKeys.TILE_ORDER];
+        if (plan.mode === "skip" || !incomingOrder) return;
+
+        const localIds = local[StorageKeys.TILE_ORDER]?.animeIds ?? [];
+        const newIds = incomingOrder.animeIds.filter((id) => !localIds.includes(id));
+        newIds.forEach((id) => plan.added.push({ id, title: id }));
+        plan.unchanged = incomingOrder.animeIds.length - newIds.length;
+
+        if (plan.mode === "replace") {
+            localIds
+                .filter((id) => !incomingOrder.animeIds.includes(id))
+                .forEach((id) => plan.removed.push({ id, title: id }));
+            result[StorageKeys.TILE_ORDER] = { ...incomingOrder, animeIds: [...incomingOrder.animeIds] };
+            return;
+        }
+
+        if (newIds.length === 0) return;
+        result[StorageKeys.TILE_ORDER] = {
+            animeIds: [...localIds, ...newIds],
+            lastUpdated: incomingOrder.lastUpdated,
+        };
+    }
+}
@@ -0,0 +1,2036 @@
+import type {
+    ActionResult,
+    ActivityEvent,
+    AnimeAlias,
+    AnimeData,
+    AnimeIdentity,
+    AnimeListRecords,
+    AnimeStatus,
+    AnimeUserData,
+    AnimeUserDataChanges,
+    BackupListKey,
+    CompletedAnime,
+    CustomList,
+    CustomListEntry,
+    DroppedAnime,
+    EpisodeProgress,
+    ExtensionSettings,
+    Folder,
+    FolderOrder,
+    HiddenAnime,
+    HideRule,
+    ImportMode,
+    LibraryBackup,
+    OnHoldAnime,
+    PlanToWatch,
+    SiteAdapterDefinition,
+    ValidationResult,
+    WatchHistoryEntry,
+    WatchSource,
+} from "@/commons/models";
+import { AnimeAction, MAX_SCORE, MIN_SCORE } from "@/commons/models";
+import {
+    ActivityLogRepository,
+    AnimeIdentityRepository,
+    AnimeUserDataRepository,
+    CompletedAnimeRepository,
+    CustomAdapterRepository,
+    CustomListRepository,
+    DroppedAnimeRepository,
+    EpisodeProgressRepository,
+    FolderOrderRepository,
+    HiddenAnimeRepository,
+    HideRuleRepository,
+    OnHoldAnimeRepository,
+    PlanToWatchRepository,
+    SettingsRepository,
+    TileOrderRepository,
+    WatchHistoryRepository,
+} from "@/commons/repositories";
+import { validateHideRule } from "@/commons/utils/hideRules";
+import { hasListRecords, mergedRecordsWin } from "@/commons/utils/mergeRecords";
+import { isEpisodeUrlTemplate } from "@/commons/utils/watchUrl";
+import { AnimeStateValidator } from "./AnimeStateValidator";
+import { LibraryBackupService } from "./LibraryBackupService";
+
+const MAX_LIST_NAME_LENGTH = 60;
+const MAX_NOTES_LENGTH = 2000;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 30;
+
+/**
+ * Service class that coordinates anime-related operations across multiple repositories
+ * Implements high-level business logic for anime state management
+ *
+ * Reads and writes storage directly, so it only runs in the background service
+ * worker. Other contexts use the AnimeService client, which forwards each call
+ * to the worker where mutations are serialized per storage key.
+ */
+export class LocalAnimeService {
+    private readonly episodeProgressRepository: EpisodeProgressRepository;
+    private readonly planToWatchRepository: PlanToWatchRepository;
+    private readonly hiddenAnimeRepository: HiddenAnimeRepository;
+    private readonly completedAnimeRepository: CompletedAnimeRepository;
+    private readonly droppedAnimeRepository: DroppedAnimeRepository;
+    private readonly onHoldAnimeRepository: OnHoldAnimeRepository;
+    private readonly identityRepository: AnimeIdentityRepository;
+    private readonly customListRepository: CustomListRepository;
+    private readonly userDataRepository: AnimeUserDataRepository;
+    private readonly watchHistoryRepository: WatchHistoryRepository;
+    private readonly activityLogRepository: ActivityLogRepository;
+    private readonly folderOrderRepository: FolderOrderRepository;
+    private readonly tileOrderRepository: TileOrderRepository;
+    private readonly libraryBackupService: LibraryBackupService;
+    private readonly settingsRepository: SettingsRepository;
+    private readonly hideRuleRepository: HideRuleRepository;
+    private readonly customAdapterRepository: CustomAdapterRepository;
+    private readonly stateValidator: AnimeStateValidator;
+
+    constructor(
+        episodeProgressRepository?: EpisodeProgressRepository,
+        planToWatchRepository?: PlanToWatchRepository,
+        hiddenAnimeRepository?: HiddenAnimeRepository,
+        completedAnimeRepository?: CompletedAnimeRepository,
+        droppedAnimeRepository?: DroppedAnimeRepository,
+        onHoldAnimeRepository?: OnHoldAnimeRepository,
+        identityRepository?: AnimeIdentityRepository,
+        customListRepository?: CustomListRepository,
+        userDataRepository?: AnimeUserDataRepository,
+        watchHistoryRepository?: WatchHistoryRepository,
+        activityLogRepository?: ActivityLogRepository,
+        folderOrderRepository?: FolderOrderRepository,
+        tileOrderRepository?: TileOrderRepository,
+        libraryBackupService?: LibraryBackupService,
+        settingsRepository?: SettingsRepository,
+        hideRuleRepository?: HideRuleRepository,
+        customAdapterRepository?: CustomAdapterRepository,
+    ) {
+        this.episodeProgressRepository = episodeProgressRepository ?? new EpisodeProgressRepository();
+        this.planToWatchRepository = planToWatchRepository ?? new PlanToWatchRepository();
+        this.hiddenAnimeRepository = hiddenAnimeRepository ?? new HiddenAnimeRepository();
+        this.completedAnimeRepository = completedAnimeRepository ?? new CompletedAnimeRepository();
+        this.droppedAnimeRepository = droppedAnimeRepository ?? new DroppedAnimeRepository();
+        this.onHoldAnimeRepository = onHoldAnimeRepository ?? new OnHoldAnimeRepository();
+        this.identityRepository = identityRepository ?? new AnimeIdentityRepository();
+        this.customListRepository = customListRepository ?? new CustomListRepository();
+        this.userDataRepository = userDataRepository ?? new AnimeUserDataRepository();
+        this.watchHistoryRepository = watchHistoryRepository ?? new WatchHistoryRepository();
+        this.activityLogRepository = activityLogRepository ?? new ActivityLogRepository();
+        this.folderOrderRepository = folderOrderRepository ?? new FolderOrderRepository();
+        this.tileOrderRepository = tileOrderRepository ?? new TileOrderRepository();
+        this.libraryBackupService =
+            libraryBackupService ??
+            new LibraryBackupService(
+                this.episodeProgressRepository,
+                this.planToWatchRepository,
+                this.watchHistoryRepository,
+            );
+        this.settingsRepository = settingsRepository ?? new SettingsRepository();
+        this.hideRuleRepository = hideRuleRepository ?? new HideRuleRepository();
+        this.customAdapterRepository = customAdapterRepository ?? new CustomAdapterRepository();
+        this.stateValidator = new AnimeStateValidator();
+    }
+
+    /**
+     * Get the current status of an anime. An id merged into another entry
+     * gets that entry's status.
+     */
+    async getAnimeStatus(animeId: string): Promise<AnimeStatus> {
+        animeId = await this.canonicalId(animeId);
+        const [episodeProgress, planToWatch, isHidden, completed, dropped, onHold] = await Promise.all([
+            this.episodeProgressRepository.findById(animeId),
+            this.planToWatchRepository.findById(animeId),
+            this.hiddenAnimeRepository.exists(animeId),
+            this.completedAnimeRepository.findById(animeId),
+            this.droppedAnimeRepository.findById(animeId),
+            this.onHoldAnimeRepository.findById(animeId),
+        ]);
+        const hidden = isHidden ? await this.hiddenAnimeRepository.findById(animeId) : null;
+
+        return {
+            isTracked: !!episodeProgress,
+            isPlanned: !!planToWatch,
+            isHidden,
+            isCompleted: !!completed,
+            isDropped: !!dropped,
+            isOnHold: !!onHold,
+            progress: episodeProgress || undefined,
+            plan: planToWatch || undefined,
+            completed: completed || undefined,
+            dropped: dropped || undefined,
+            onHold: onHold || undefined,
+            hidden: hidden || undefined,
+        };
+    }
+
+    /**
+     * Get the status of many anime at once (listing pages). The number of
+     * storage reads is fixed, however many ids are asked for.
+     */
+    async getAnimeStatuses(animeIds: string[]): Promise<Record<string, AnimeStatus>> {
+        const requested = [...new Set(animeIds)];
+        if (requested.length === 0) return {};
+
+        const canonical = await this.identityRepository.resolveIds(requested);
+        const ids = [...new Set(Object.values(canonical))];
+
+        const [progress, plans, hidden, completed, dropped, onHold] = await Promise.all([
+            this.episodeProgressRepository.findByIds(ids),
+            this.planToWatchRepository.findByIds(ids),
+            this.hiddenAnimeRepository.getAll(),
+            this.completedAnimeRepository.getAll(),
+            this.droppedAnimeRepository.getAll(),
+            this.onHoldAnimeRepository.getAll(),
+        ]);
+
+        const statuses: Record<string, AnimeStatus> = {};
+        for (const requestedId of requested) {
+            const animeId = canonical[requestedId];
+            statuses[requestedId] = {
+                isTracked: !!progress[animeId],
+                isPlanned: !!plans[animeId],
+                isHidden: !!hidden[animeId],
+                isCompleted: !!completed[animeId],
+                isDropped: !!dropped[animeId],
+                isOnHold: !!onHold[animeId],
+                progress: progress[animeId],
+                plan: plans[animeId],
+                completed: completed[animeId],
+                dropped: dropped[animeId],
+                onHold: onHold[animeId],
+                hidden: hidden[animeId],
+            };
+        }
+        return statuses;
+    }
+
+    /**
+     * The entry an anime id was merged into, or the id itself
+     */
+    private async canonicalId(animeId: string): Promise<string> {
+        return this.identityRepository.resolveId(animeId);
+    }
+
+    private async withCanonicalId(animeData: AnimeData): Promise<AnimeData> {
+        const animeId = await this.canonicalId(animeData.animeId);
+        return animeId === animeData.animeId ? animeData : { ...animeData, animeId };
+    }
+
+    /**
+     * Validate if an action is allowed for an anime
+     */
+    private async validateAction(animeId: string, action: AnimeAction): Promise<ValidationResult> {
+        const currentStatus = await this.getAnimeStatus(animeId);
+        return AnimeStateValidator.validateTransition(currentStatus, action);
+    }
+
+    /**
+     * Add anime to plan to watch list
+     * This is the main "add to watch list" functionality
+     */
+    async addToPlanToWatch(animeData: AnimeData): Promise<ActionResult> {
+        try {
+            animeData = await this.withCanonicalId(animeData);
+            const currentStatus = await this.getAnimeStatus(animeData.animeId);
+            const validation = await this.validateAction(animeData.animeId, AnimeAction.ADD_TO_PLAN);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot add anime to plan to watch",
+                    newStatus: currentStatus,
+                };
+            }
+
+            // Create plan to watch entry
+            const planToWatchEntry: PlanToWatch = {
+                animeId: animeData.animeId,
+                animeTitle: animeData.animeTitle,
+                animeSlug: animeData.animeSlug,
+                addedAt: new Date().toISOString(),
+                ...LocalAnimeService.toSiteFields(animeData),
+            };
+
+            await this.planToWatchRepository.create(planToWatchEntry);
+
+            await this.recordActivity({
+                action: "planned",
+                animeId: animeData.animeId,
+                animeTitle: animeData.animeTitle,
+            });
+
+            return {
+                success: true,
+                message: `Added "${animeData.animeTitle}" to plan to watch`,
+                newStatus: {
+                    isTracked: false,
+                    isPlanned: true,
+                    isHidden: false,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to add anime to plan to watch",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Remove anime from plan to watch list
+     */
+    async removeFromPlanToWatch(animeId: string): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const currentStatus = await this.getAnimeStatus(animeId);
+            const validation = await this.validateAction(animeId, AnimeAction.REMOVE_FROM_PLAN);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot remove anime from plan to watch",
+                    newStatus: currentStatus,
+                };
+            }
+
+            // Get the anime title before removing
+            const planEntry = await this.planToWatchRepository.findById(animeId);
+            const animeTitle = planEntry?.animeTitle || "Unknown anime";
+
+            await this.planToWatchRepository.delete(animeId);
+
+            await this.recordActivity({ action: "removed", animeId, animeTitle: planEntry?.animeTitle ?? animeId });
+
+            return {
+                success: true,
+                message: `Removed "${animeTitle}" from plan to watch`,
+                newStatus: {
+                    isTracked: false,
+                    isPlanned: false,
+                    isHidden: false,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to remove anime from plan to watch",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Start watching an anime (adds episode progress)
+     */
+    async startWatching(
+        animeData: AnimeData,
+        episodeNumber: number = 1,
+        source: WatchSource = "manual",
+    ): Promise<ActionResult> {
+        try {
+            animeData = await this.withCanonicalId(animeData);
+            const currentStatus = await this.getAnimeStatus(animeData.animeId);
+            const validation = await this.validateAction(animeData.animeId, AnimeAction.ADD_TO_WATCH);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot start watching anime",
+                    newStatus: currentStatus,
+                };
+            }
+
+            // Create episode progress entry
+            const episodeProgress: EpisodeProgress = {
+                animeId: animeData.animeId,
+                animeTitle: animeData.animeTitle,
+                animeSlug: animeData.animeSlug,
+                currentEpisode: episodeNumber,
+                episodeId: `${animeData.animeSlug}-episode-${episodeNumber}`,
+                lastWatched: new Date().toISOString(),
+            };
+
+            // Same storage chokepoint guard as updatePosterUrl: only persist
+            // absolute http/https URLs since they are later bound to <img :src>.
+            if (animeData.posterUrl && LocalAnimeService.isSafePosterUrl(animeData.posterUrl)) {
+                episodeProgress.posterUrl = animeData.posterUrl;
+            }
+            // Anime started from the options page come without a site; the plan entry may know it
+            const planEntry =
+                validation.removesFromPlan && !animeData.siteId
+                    ? await this.planToWatchRepository.findById(animeData.animeId)
+                    : null;
+            Object.assign(episodeProgress, LocalAnimeService.toSiteFields(planEntry ?? animeData));
+
+            await this.episodeProgressRepository.create(episodeProgress);
+
+            // Remove from plan to watch if it was there
+            if (validation.removesFromPlan) {
+                await this.planToWatchRepository.delete(animeData.animeId);
+            }
+            await this.recordWatch(episodeProgress, source);
+            await this.recordActivity({
+                action: "started",
+                animeId: animeData.animeId,
+                animeTitle: animeData.animeTitle,
+                episode: episodeNumber,
+            });
+
+            return {
+                success: true,
+                message: `Started watching "${animeData.animeTitle}" from episode ${episodeNumber}`,
+                newStatus: {
+                    isTracked: true,
+                    isPlanned: false,
+                    isHidden: false,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to start watching anime",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Update episode progress for currently watching anime
+     */
+    async updateEpisodeProgress(
+        animeId: string,
+        episodeNumber: number,
+        totalEpisodes?: number,
+        source: WatchSource = "manual",
+    ): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const currentStatus = await this.getAnimeStatus(animeId);
+            const validation = await this.validateAction(animeId, AnimeAction.UPDATE_EPISODE);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot update episode progress",
+                    newStatus: currentStatus,
+                };
+            }
+
+            const existingProgress = await this.episodeProgressRepository.findById(animeId);
+            if (!existingProgress) {
+                return {
+                    success: false,
+                    message: "No episode progress found for this anime",
+                    newStatus: currentStatus,
+                };
+            }
+
+            // Update the episode progress
+            const updatedProgress: Partial<EpisodeProgress> = {
+                currentEpisode: episodeNumber,
+                episodeId: `${existingProgress.animeSlug}-episode-${episodeNumber}`,
+                lastWatched: new Date().toISOString(),
+            };
+
+            if (totalEpisodes !== undefined) {
+                updatedProgress.totalEpisodes = totalEpisodes;
+            }
+
+            await this.episodeProgressRepository.update(animeId, updatedProgress);
+            if (episodeNumber !== existingProgress.currentEpisode) {
+                await this.recordWatch({ ...existingProgress, ...updatedProgress }, source);
+                await this.recordActivity({
+                    action: "episode",
+                    animeId,
+                    animeTitle: existingProgress.animeTitle,
+                    episode: episodeNumber,
+                });
+            }
+
+            return {
+                success: true,
+                message: `Updated "${existingProgress.animeTitle}" to episode ${episodeNumber}`,
+                newStatus: {
+                    isTracked: true,
+                    isPlanned: false,
+                    isHidden: false,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to update episode progress",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Take back an automatic move to `episodeNumber`: progress returns to
+     * `previousEpisode` and the watch history and activity entries the move
+     * added are removed, so the undo leaves no trace of its own. Refused when
+     * progress has changed since.
+     */
+    async undoAutoEpisodeUpdate(
+        animeId: string,
+        episodeNumber: number,
+        previousEpisode: number,
+    ): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const existingProgress = await this.episodeProgressRepository.findById(animeId);
+            if (!existingProgress || existingProgress.currentEpisode !== episodeNumber) {
+                return {
+                    success: false,
+                    message: "Progress has changed since, so there is nothing to undo",
+                    newStatus: await this.getAnimeStatus(animeId),
+                };
+            }
+
+            await this.episodeProgressRepository.update(animeId, {
+                currentEpisode: previousEpisode,
+                episodeId: `${existingProgress.animeSlug}-episode-${previousEpisode}`,
+            });
+            await this.forgetAutoWatch(animeId, episodeNumber);
+
+            return {
+                success: true,
+                message: `Put "${existingProgress.animeTitle}" back to episode ${previousEpisode}`,
+                newStatus: await this.getAnimeStatus(animeId),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to undo the episode update",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Backfill/refresh the stored poster URL for a tracked anime.
+     * No-op when the URL is not an absolute http/https URL, the anime is not
+     * tracked, or the stored URL is already up to date. Errors are swallowed
+     * so callers can safely fire-and-forget (used by the content-script
+     * backfill).
+     */
+    async updatePosterUrl(animeId: string, posterUrl: string): Promise<void> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            // Storage chokepoint guard: poster URLs originate from untrusted
+            // page content and are later bound to <img :src> in extension
+            // pages, so anything but an absolute http/https URL is rejected.
+            if (!LocalAnimeService.isSafePosterUrl(posterUrl)) {
+                return;
+            }
+
+            const existingProgress = await this.episodeProgressRepository.findById(animeId);
+            if (!existingProgress || existingProgress.posterUrl === posterUrl) {
+                return;
+            }
+
+            await this.episodeProgressRepository.update(animeId, { posterUrl });
+        } catch (error) {
+            console.error("Failed to update poster URL:", error);
+        }
+    }
+
+    /**
+     * Fill in a hidden record from the tile that shows it, for records that
+     * were stored with only an id (the title and slug are the id) or without
+     * a poster. Fire-and-forget like the poster backfill; errors are
+     * swallowed.
+     */
+    async updateHiddenDetails(animeData: AnimeData): Promise<void> {
+        try {
+            const animeId = await this.canonicalId(animeData.animeId);
+            const record = await this.hiddenAnimeRepository.findById(animeId);
+            if (!record) return;
+
+            const changes: Partial<HiddenAnime> = {};
+            const hasPlaceholderTitle = record.animeTitle === record.animeId || record.animeTitle === record.animeSlug;
+            if (hasPlaceholderTitle && animeData.animeTitle && animeData.animeTitle !== record.animeTitle) {
+                changes.animeTitle = animeData.animeTitle;
+                if (
+                    record.animeSlug === record.animeId &&
+                    animeData.animeSlug &&
+                    animeData.animeSlug !== record.animeSlug
+                ) {
+                    changes.animeSlug = animeData.animeSlug;
+                }
+            }
+            if (!record.posterUrl && animeData.posterUrl && LocalAnimeService.isSafePosterUrl(animeData.posterUrl)) {
+                changes.posterUrl = animeData.posterUrl;
+            }
+            if (Object.keys(changes).length === 0) return;
+
+            await this.hiddenAnimeRepository.update(animeId, changes);
+        } catch (error) {
+            console.error("Failed to update hidden anime details:", error);
+        }
+    }
+
+    /**
+     * Returns true only for absolute http/https URLs — the only scheme family
+     * safe to persist and later render as an <img> source.
+     */
+    private static isSafePosterUrl(posterUrl: string): boolean {
+        if (!posterUrl) {
+            return false;
+        }
+        try {
+            const url = new URL(posterUrl);
+            return url.protocol === "http:" || url.protocol === "https:";
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Stop watching an anime (removes from episode progress)
+     */
+    async stopWatching(animeId: string): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const currentStatus = await this.getAnimeStatus(animeId);
+            const validation = await this.validateAction(animeId, AnimeAction.REMOVE_FROM_WATCH);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot stop watching anime",
+                    newStatus: currentStatus,
+                };
+            }
+
+            // Get the anime title before removing
+            const progressEntry = await this.episodeProgressRepository.findById(animeId);
+            const animeTitle = progressEntry?.animeTitle || "Unknown anime";
+
+            await this.episodeProgressRepository.delete(animeId);
+
+            await this.recordActivity({ action: "removed", animeId, animeTitle: progressEntry?.animeTitle ?? animeId });
+
+            return {
+                success: true,
+                message: `Stopped watching "${animeTitle}"`,
+                newStatus: {
+                    isTracked: false,
+                    isPlanned: false,
+                    isHidden: false,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to stop watching anime",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Mark an anime as completed (from watching or on-hold)
+     * Progress moves to the completed list, pinned to the last known episode
+     */
+    async completeAnime(animeId: string): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const currentStatus = await this.getAnimeStatus(animeId);
+            const validation = AnimeStateValidator.validateTransition(currentStatus, AnimeAction.COMPLETE);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot complete anime",
+                    newStatus: currentStatus,
+                };
+            }
+
+            const source = currentStatus.progress ?? currentStatus.onHold;
+            if (!source) {
+                return {
+                    success: false,
+                    message: "No episode progress found for this anime",
+                    newStatus: currentStatus,
+                };
+            }
+
+            const finalEpisode = source.totalEpisodes ?? source.currentEpisode;
+            const completedEntry: CompletedAnime = {
+                ...LocalAnimeService.toProgressFields(source),
+                currentEpisode: finalEpisode,
+                episodeId: `${source.animeSlug}-episode-${finalEpisode}`,
+                completedAt: new Date().toISOString(),
+            };
+
+            await this.completedAnimeRepository.create(completedEntry);
+            await this.removeFromProgressLists(currentStatus, animeId);
+
+            // Completing jumps to the last episode, which is a progress change of its own
+            if (finalEpisode !== source.currentEpisode) {
+                await this.recordWatch({ ...completedEntry, lastWatched: completedEntry.completedAt }, "manual");
+            }
+            await this.recordActivity({
+                action: "completed",
+                animeId,
+                animeTitle: source.animeTitle,
+                episode: finalEpisode,
+            });
+
+            return {
+                success: true,
+                message: `Completed "${source.animeTitle}"`,
+                newStatus: {
+                    isTracked: false,
+                    isPlanned: false,
+                    isHidden: false,
+                    isCompleted: true,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to complete anime",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Drop an anime (from watching or on-hold), keeping the episode reached
+     */
+    async dropAnime(animeId: string): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const currentStatus = await this.getAnimeStatus(animeId);
+            const validation = AnimeStateValidator.validateTransition(currentStatus, AnimeAction.DROP);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot drop anime",
+                    newStatus: currentStatus,
+                };
+            }
+
+            const source = currentStatus.progress ?? currentStatus.onHold;
+            if (!source) {
+                return {
+                    success: false,
+                    message: "No episode progress found for this anime",
+                    newStatus: currentStatus,
+                };
+            }
+
+            const droppedEntry: DroppedAnime = {
+                ...LocalAnimeService.toProgressFields(source),
+                droppedAt: new Date().toISOString(),
+            };
+
+            await this.droppedAnimeRepository.create(droppedEntry);
+            await this.removeFromProgressLists(currentStatus, animeId);
+
+            await this.recordActivity({
+                action: "dropped",
+                animeId,
+                animeTitle: source.animeTitle,
+                episode: source.currentEpisode,
+            });
+
+            return {
+                success: true,
+                message: `Dropped "${source.animeTitle}" at episode ${source.currentEpisode}`,
+                newStatus: {
+                    isTracked: false,
+                    isPlanned: false,
+                    isHidden: false,
+                    isDropped: true,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to drop anime",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Pause a currently watching anime, keeping the episode reached
+     */
+    async putOnHold(animeId: string): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const currentStatus = await this.getAnimeStatus(animeId);
+            const validation = AnimeStateValidator.validateTransition(currentStatus, AnimeAction.PUT_ON_HOLD);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot put anime on hold",
+                    newStatus: currentStatus,
+                };
+            }
+
+            const progress = currentStatus.progress;
+            if (!progress) {
+                return {
+                    success: false,
+                    message: "No episode progress found for this anime",
+                    newStatus: currentStatus,
+                };
+            }
+
+            const onHoldEntry: OnHoldAnime = {
+                ...LocalAnimeService.toProgressFields(progress),
+                pausedAt: new Date().toISOString(),
+            };
+
+            await this.onHoldAnimeRepository.create(onHoldEntry);
+            await this.episodeProgressRepository.delete(animeId);
+
+            await this.recordActivity({
+                action: "paused",
+                animeId,
+                animeTitle: progress.animeTitle,
+                episode: progress.currentEpisode,
+            });
+
+            return {
+                success: true,
+                message: `Put "${progress.animeTitle}" on hold at episode ${progress.currentEpisode}`,
+                newStatus: {
+                    isTracked: false,
+                    isPlanned: false,
+                    isHidden: false,
+                    isOnHold: true,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to put anime on hold",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Resume watching an on-hold or dropped anime from the episode it was left at
+     */
+    async resumeWatching(animeId: string): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const currentStatus = await this.getAnimeStatus(animeId);
+            const validation = AnimeStateValidator.validateTransition(currentStatus, AnimeAction.RESUME);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot resume anime",
+                    newStatus: currentStatus,
+                };
+            }
+
+            const source = currentStatus.onHold ?? currentStatus.dropped;
+            if (!source) {
+                return {
+                    success: false,
+                    message: "No paused progress found for this anime",
+                    newStatus: currentStatus,
+                };
+            }
+
+            const episodeProgress: EpisodeProgress = {
+                ...LocalAnimeService.toProgressFields(source),
+                lastWatched: new Date().toISOString(),
+            };
+
+            await this.episodeProgressRepository.create(episodeProgress);
+            if (currentStatus.isOnHold) {
+                await this.onHoldAnimeRepository.delete(animeId);
+            }
+            if (currentStatus.isDropped) {
+                await this.droppedAnimeRepository.delete(animeId);
+            }
+
+            await this.recordActivity({
+                action: "resumed",
+                animeId,
+                animeTitle: source.animeTitle,
+                episode: source.currentEpisode,
+            });
+
+            return {
+                success: true,
+                message: `Resumed "${source.animeTitle}" from episode ${source.currentEpisode}`,
+                newStatus: {
+                    isTracked: true,
+                    isPlanned: false,
+                    isHidden: false,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to resume anime",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Remove anime from the completed list
+     */
+    async removeFromCompleted(animeId: string): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const currentStatus = await this.getAnimeStatus(animeId);
+            const validation = AnimeStateValidator.validateTransition(currentStatus, AnimeAction.REMOVE_FROM_COMPLETED);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot remove anime from completed",
+                    newStatus: currentStatus,
+                };
+            }
+
+            await this.completedAnimeRepository.delete(animeId);
+            await this.recordActivity({
+                action: "removed",
+                animeId,
+                animeTitle: currentStatus.completed?.animeTitle ?? animeId,
+            });
+
+            return {
+                success: true,
+                message: `Removed "${currentStatus.completed?.animeTitle || "Unknown anime"}" from completed`,
+                newStatus: {
+                    isTracked: false,
+                    isPlanned: false,
+                    isHidden: false,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to remove anime from completed",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Remove anime from the dropped list
+     */
+    async removeFromDropped(animeId: string): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const currentStatus = await this.getAnimeStatus(animeId);
+            const validation = AnimeStateValidator.validateTransition(currentStatus, AnimeAction.REMOVE_FROM_DROPPED);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot remove anime from dropped",
+                    newStatus: currentStatus,
+                };
+            }
+
+            await this.droppedAnimeRepository.delete(animeId);
+            await this.recordActivity({
+                action: "removed",
+                animeId,
+                animeTitle: currentStatus.dropped?.animeTitle ?? animeId,
+            });
+
+            return {
+                success: true,
+                message: `Removed "${currentStatus.dropped?.animeTitle || "Unknown anime"}" from dropped`,
+                newStatus: {
+                    isTracked: false,
+                    isPlanned: false,
+                    isHidden: false,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to remove anime from dropped",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Remove anime from the on-hold list
+     */
+    async removeFromOnHold(animeId: string): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const currentStatus = await this.getAnimeStatus(animeId);
+            const validation = AnimeStateValidator.validateTransition(currentStatus, AnimeAction.REMOVE_FROM_ON_HOLD);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot remove anime from on hold",
+                    newStatus: currentStatus,
+                };
+            }
+
+            await this.onHoldAnimeRepository.delete(animeId);
+            await this.recordActivity({
+                action: "removed",
+                animeId,
+                animeTitle: currentStatus.onHold?.animeTitle ?? animeId,
+            });
+
+            return {
+                success: true,
+                message: `Removed "${currentStatus.onHold?.animeTitle || "Unknown anime"}" from on hold`,
+                newStatus: {
+                    isTracked: false,
+                    isPlanned: false,
+                    isHidden: false,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to remove anime from on hold",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Strip list-specific timestamps so a record can move between the
+     * watching / completed / dropped / on-hold lists
+     */
+    private static toProgressFields(source: EpisodeProgress): EpisodeProgress {
+        const progress: EpisodeProgress = {
+            animeId: source.animeId,
+            animeTitle: source.animeTitle,
+            animeSlug: source.animeSlug,
+            currentEpisode: source.currentEpisode,
+            episodeId: source.episodeId,
+            lastWatched: source.lastWatched,
+        };
+        if (source.totalEpisodes !== undefined) {
+            progress.totalEpisodes = source.totalEpisodes;
+        }
+        if (source.posterUrl) {
+            progress.posterUrl = source.posterUrl;
+        }
+        return { ...progress, ...LocalAnimeService.toSiteFields(source) };
+    }
+
+    /**
+     * The site an anime was tracked on, leaving out unknown keys and URL
+     * templates that would not produce an http(s) link
+     */
+    private static toSiteFields(
+        source: Pick<AnimeData, "siteId" | "episodeUrlTemplate">,
+    ): Pick<AnimeData, "siteId" | "episodeUrlTemplate"> {
+        const fields: Pick<AnimeData, "siteId" | "episodeUrlTemplate"> = {};
+        if (source.siteId) {
+            fields.siteId = source.siteId;
+        }
+        if (source.episodeUrlTemplate && isEpisodeUrlTemplate(source.episodeUrlTemplate)) {
+            fields.episodeUrlTemplate = source.episodeUrlTemplate;
+        }
+        return fields;
+    }
+
+    /**
+     * Remove the record a completed/dropped transition was sourced from
+     */
+    private async removeFromProgressLists(currentStatus: AnimeStatus, animeId: string): Promise<void> {
+        if (currentStatus.isTracked) {
+            await this.episodeProgressRepository.delete(animeId);
+        }
+        if (currentStatus.isOnHold) {
+            await this.onHoldAnimeRepository.delete(animeId);
+        }
+    }
+
+    /**
+     * Hide an anime from all listings, keeping what its listing tile showed
+     */
+    async hideAnime(animeData: AnimeData): Promise<ActionResult> {
+        try {
+            animeData = await this.withCanonicalId(animeData);
+            const { animeId } = animeData;
+            const currentStatus = await this.getAnimeStatus(animeId);
+            const validation = await this.validateAction(animeId, AnimeAction.HIDE);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot hide anime",
+                    newStatus: currentStatus,
+                };
+            }
+
+            const hiddenEntry: HiddenAnime = {
+                animeId,
+                animeTitle: animeData.animeTitle,
+                animeSlug: animeData.animeSlug,
+                hiddenAt: new Date().toISOString(),
+            };
+            if (animeData.posterUrl && LocalAnimeService.isSafePosterUrl(animeData.posterUrl)) {
+                hiddenEntry.posterUrl = animeData.posterUrl;
+            }
+            if (animeData.siteId) {
+                hiddenEntry.siteId = animeData.siteId;
+            }
+
+            await this.hiddenAnimeRepository.create(hiddenEntry);
+
+            await this.recordActivity({ action: "hidden", animeId, animeTitle: animeData.animeTitle });
+
+            return {
+                success: true,
+                message: `Hidden "${animeData.animeTitle}" from listings`,
+                newStatus: {
+                    isTracked: currentStatus.isTracked,
+                    isPlanned: currentStatus.isPlanned,
+                    isHidden: true,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to hide anime",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Unhide an anime (restore to previous status)
+     */
+    async unhideAnime(animeId: string): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const currentStatus = await this.getAnimeStatus(animeId);
+            const validation = await this.validateAction(animeId, AnimeAction.UNHIDE);
+
+            if (!validation.allowed) {
+                return {
+                    success: false,
+                    message: validation.reason || "Cannot unhide anime",
+                    newStatus: currentStatus,
+                };
+            }
+
+            const hiddenEntry = await this.hiddenAnimeRepository.findById(animeId);
+            await this.hiddenAnimeRepository.remove(animeId);
+
+            // Determine new status after unhiding
+            const newStatus = await this.getAnimeStatus(animeId);
+
+            await this.recordActivity({
+                action: "unhidden",
+                animeId,
+                animeTitle: hiddenEntry?.animeTitle ?? animeId,
+            });
+
+            return {
+                success: true,
+                message: "Anime unhidden from listings",
+                newStatus,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to unhide anime",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Get everything known about one anime: its status and list records, the
+     * user's notes, the lists and folder it is in, and its history. The
+     * returned animeId is the canonical one when an alias was asked for.
+     */
+    async getAnimeDetails(animeId: string): Promise<{
+        animeId: string;
+        status: AnimeStatus;
+        episodeProgress?: EpisodeProgress;
+        planToWatch?: PlanToWatch;
+        completed?: CompletedAnime;
+        dropped?: DroppedAnime;
+        onHold?: OnHoldAnime;
+        isHidden: boolean;
+        hidden?: HiddenAnime;
+        userData?: AnimeUserData;
+        customLists: CustomList[];
+        folder?: Folder;
+        watchHistory: WatchHistoryEntry[];
+        activity: ActivityEvent[];
+    }> {
+        animeId = await this.canonicalId(animeId);
+        const [status, episodeProgress, planToWatch, hidden, userData, lists, identity, watchHistory, activity] =
+            await Promise.all([
+                this.getAnimeStatus(animeId),
+                this.episodeProgressRepository.findById(animeId),
+                this.planToWatchRepository.findById(animeId),
+                this.hiddenAnimeRepository.findById(animeId),
+                this.userDataRepository.findById(animeId),
+                this.customListRepository.findAll(),
+                this.identityRepository.findById(animeId),
+                this.watchHistoryRepository.findByAnimeId(animeId),
+                this.activityLogRepository.findByAnimeId(animeId),
+            ]);
+        // Folders hold the ids of listing tiles, which may be any of the merged ids
+        const folder = await this.folderOrderRepository.findFolderOf([
+            animeId,
+            ...(identity?.aliases ?? []).map((alias) => alias.animeId),
+        ]);
+
+        return {
+            animeId,
+            status,
+            episodeProgress: episodeProgress || undefined,
+            planToWatch: planToWatch || undefined,
+            completed: status.completed,
+            dropped: status.dropped,
+            onHold: status.onHold,
+            isHidden: !!hidden,
+            hidden: hidden ?? undefined,
+            userData: userData ?? undefined,
+            customLists: lists.filter((list) => list.entries.some((entry) => entry.animeId === animeId)),
+            folder: folder ?? undefined,
+            watchHistory,
+            activity,
+        };
+    }
+
+    /**
+     * Get all anime across different states (dashboard view)
+     */
+    async getAllAnime(): Promise<{
+        currentlyWatching: EpisodeProgress[];
+        planToWatch: PlanToWatch[];
+        hiddenAnime: HiddenAnime[];
+        completed: CompletedAnime[];
+        dropped: DroppedAnime[];
+        onHold: OnHoldAnime[];
+        totalCount: number;
+    }> {
+        const [currentlyWatching, planToWatch, hiddenAnime, completed, dropped, onHold] = await Promise.all([
+            this.episodeProgressRepository.findAll(),
+            this.planToWatchRepository.findAll(),
+            this.hiddenAnimeRepository.findAll(),
+            this.completedAnimeRepository.findAll(),
+            this.droppedAnimeRepository.findAll(),
+            this.onHoldAnimeRepository.findAll(),
+        ]);
+
+        return {
+            currentlyWatching,
+            planToWatch,
+            hiddenAnime,
+            completed,
+            dropped,
+            onHold,
+            totalCount:
+                currentlyWatching.length +
+                planToWatch.length +
+                hiddenAnime.length +
+                completed.length +
+                dropped.length +
+                onHold.length,
+        };
+    }
+
+    /**
+     * Clear all data for an anime (removes from all repositories)
+     */
+    async clearAnimeData(animeId: string): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            // Get anime title before clearing
+            let animeTitle = "Unknown anime";
+            const progressEntry = await this.episodeProgressRepository.findById(animeId);
+            const planEntry = await this.planToWatchRepository.findById(animeId);
+
+            if (progressEntry) {
+                animeTitle = progressEntry.animeTitle;
+            } else if (planEntry) {
+                animeTitle = planEntry.animeTitle;
+            }
+
+            // Remove from all repositories
+            await Promise.all([
+                this.episodeProgressRepository.delete(animeId).catch(() => {}), // Ignore errors if not found
+                this.planToWatchRepository.delete(animeId).catch(() => {}),
+                this.hiddenAnimeRepository.remove(animeId).catch(() => {}),
+                this.completedAnimeRepository.delete(animeId).catch(() => {}),
+                this.droppedAnimeRepository.delete(animeId).catch(() => {}),
+                this.onHoldAnimeRepository.delete(animeId).catch(() => {}),
+            ]);
+
+            await this.recordActivity({
+                action: "removed",
+                animeId,
+                animeTitle: progressEntry?.animeTitle ?? planEntry?.animeTitle ?? animeId,
+            });
+
+            return {
+                success: true,
+                message: `Cleared all data for "${animeTitle}"`,
+                newStatus: {
+                    isTracked: false,
+                    isPlanned: false,
+                    isHidden: false,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to clear anime data",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Clear all hidden anime (unhide all previously hidden anime)
+     * This is more efficient than unhiding each anime individually
+     */
+    async clearAllHidden(): Promise<ActionResult> {
+        try {
+            // Get count before clearing for the message
+            const hiddenAnime = await this.hiddenAnimeRepository.findAll();
+            const count = hiddenAnime.length;
+
+            if (count === 0) {
+                return {
+                    success: true,
+                    message: "No hidden anime to restore",
+                    newStatus: {
+                        isTracked: false,
+                        isPlanned: false,
+                        isHidden: false,
+                    },
+                };
+            }
+
+            // Clear all hidden anime at once
+            await this.hiddenAnimeRepository.clear();
+
+            await this.recordActivity(
+                ...hiddenAnime.map(
+                    ({ animeId, animeTitle }): Omit<ActivityEvent, "timestamp"> => ({
+                        action: "unhidden",
+                        animeId,
+                        animeTitle,
+                    }),
+                ),
+            );
+
+            return {
+                success: true,
+                message: `Restored ${count} hidden anime`,
+                newStatus: {
+                    isTracked: false,
+                    isPlanned: false,
+                    isHidden: false,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to clear hidden anime",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * All cross-site identities (merge screen)
+     */
+    async getAnimeIdentities(): Promise<AnimeIdentity[]> {
+        return this.identityRepository.findAll();
+    }
+
+    /**
+     * Merge two entries for the same show, usually tracked on different sites.
+     * The more advanced list records win (see listRecordRank), the kept
+     * entry's on a tie, and end up under the kept id. The merged entry's own
+     * records are stashed on its alias so splitting it off gives them back.
+     * Afterwards the merged id (and anything already merged into it) resolves
+     * to the kept entry.
+     */
+    async mergeAnime(keepId: string, mergeId: string): Promise<ActionResult> {
+        try {
+            keepId = await this.canonicalId(keepId);
+            mergeId = await this.canonicalId(mergeId);
+            if (keepId === mergeId) {
+                return {
+                    success: false,
+                    message: "These entries are already linked",
+                    newStatus: await this.getAnimeStatus(keepId),
+                };
+            }
+
+            const [keepRecords, mergeRecords, keepIdentity, mergeIdentity] = await Promise.all([
+                this.findListRecords(keepId),
+                this.findListRecords(mergeId),
+                this.identityRepository.findById(keepId),
+                this.identityRepository.findById(mergeId),
+            ]);
+            const keepRecord = LocalAnimeService.primaryRecord(keepRecords);
+            const mergeRecord = LocalAnimeService.primaryRecord(mergeRecords);
+
+            if (mergedRecordsWin(keepRecords, mergeRecords)) {
+                if (hasListRecords(keepRecords)) {
+                    await this.deleteRecords(keepId);
+                }
+                await this.moveRecords(mergeRecords, mergeId, keepId);
+            } else if (hasListRecords(mergeRecords)) {
+                await this.deleteRecords(mergeId);
+            }
+
+            const alias: AnimeAlias = {
+                animeId: mergeId,
+                animeSlug: mergeRecord?.animeSlug ?? mergeRecords.hidden?.animeSlug ?? mergeId,
+                ...(mergeRecord?.siteId && { siteId: mergeRecord.siteId }),
+                ...(hasListRecords(mergeRecords) && { records: mergeRecords }),
+            };
+            const malId = keepRecord?.malId ?? keepIdentity?.malId ?? mergeRecord?.malId ?? mergeIdentity?.malId;
+            const identity: AnimeIdentity = {
+                animeId: keepId,
+                animeTitle: keepRecord?.animeTitle ?? keepIdentity?.animeTitle ?? mergeRecord?.animeTitle ?? keepId,
+                aliases: [...(keepIdentity?.aliases ?? []), alias, ...(mergeIdentity?.aliases ?? [])],
+                ...(malId !== undefined && { malId }),
+                updatedAt: new Date().toISOString(),
+            };
+
+            await this.identityRepository.create(identity);
+            if (mergeIdentity) {
+                await this.identityRepository.delete(mergeId);
+            }
+            await this.customListRepository.replaceAnimeId(mergeId, keepId);
+            await this.userDataRepository.replaceAnimeId(mergeId, keepId);
+            await this.watchHistoryRepository.replaceAnimeId(mergeId, keepId);
+            await this.activityLogRepository.replaceAnimeId(mergeId, keepId);
+
+            return {
+                success: true,
+                message: `Merged "${mergeRecord?.animeTitle ?? mergeId}" into "${identity.animeTitle}"`,
+                newStatus: await this.getAnimeStatus(keepId),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to merge anime",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Undo a merge for one alias. The split entry gets back the list records
+     * it had when it was merged; the entry it was merged into keeps its own.
+     */
+    async splitAnime(animeId: string): Promise<ActionResult> {
+        try {
+            const identity = await this.identityRepository.findByAnyId(animeId);
+            const alias = identity?.aliases.find((candidate) => candidate.animeId === animeId);
+            if (!identity || !alias) {
+                return {
+                    success: false,
+                    message: "This entry is not linked to another",
+                    newStatus: await this.getAnimeStatus(animeId),
+                };
+            }
+
+            const aliases = identity.aliases.filter((candidate) => candidate.animeId !== animeId);
+            if (aliases.length === 0) {
+                await this.identityRepository.delete(identity.animeId);
+            } else {
+                await this.identityRepository.update(identity.animeId, {
+                    aliases,
+                    updatedAt: new Date().toISOString(),
+                });
+            }
+            if (alias.records) {
+                await this.createRecords(alias.records, alias.animeId);
+            }
+
+            return {
+                success: true,
+                message: `Split "${alias.animeSlug}" from "${identity.animeTitle}"`,
+                newStatus: await this.getAnimeStatus(animeId),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to split anime",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * All user-created lists, oldest first
+     */
+    async getCustomLists(): Promise<CustomList[]> {
+        return this.customListRepository.findAll();
+    }
+
+    /**
+     * Create an empty list with a name no other list has
+     */
+    async createCustomList(name: string): Promise<ActionResult> {
+        try {
+            name = name.trim();
+            const lists = await this.customListRepository.findAll();
+            const invalid = LocalAnimeService.validateListName(name, lists);
+            if (invalid) {
+                return { success: false, message: invalid };
+            }
+
+            const now = new Date().toISOString();
+            await this.customListRepository.create({
+                id: `list-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+                name,
+                entries: [],
+                createdAt: now,
+                updatedAt: now,
+            });
+
+            return { success: true, message: `Created list "${name}"` };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to create list",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Rename a list
+     */
+    async renameCustomList(listId: string, name: string): Promise<ActionResult> {
+        try {
+            name = name.trim();
+            const lists = await this.customListRepository.findAll();
+            const list = lists.find((candidate) => candidate.id === listId);
+            if (!list) {
+                return { success: false, message: "List not found" };
+            }
+            const invalid = LocalAnimeService.validateListName(
+                name,
+                lists.filter((candidate) => candidate.id !== listId),
+            );
+            if (invalid) {
+                return { success: false, message: invalid };
+            }
+
+            await this.customListRepository.update(listId, { name, updatedAt: new Date().toISOString() });
+
+            return { success: true, message: `Renamed "${list.name}" to "${name}"` };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to rename list",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Delete a list; the anime on it keep their watch status
+     */
+    async deleteCustomList(listId: string): Promise<ActionResult> {
+        try {
+            const list = await this.customListRepository.findById(listId);
+            if (!list) {
+                return { success: false, message: "List not found" };
+            }
+
+            await this.customListRepository.delete(listId);
+
+            return { success: true, message: `Deleted list "${list.name}"` };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to delete list",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Add an anime to a list, whatever its watch status
+     */
+    async addToCustomList(listId: string, animeData: AnimeData): Promise<ActionResult> {
+        try {
+            animeData = await this.withCanonicalId(animeData);
+            const list = await this.customListRepository.findById(listId);
+            if (!list) {
+                return { success: false, message: "List not found" };
+            }
+            if (list.entries.some((entry) => entry.animeId === animeData.animeId)) {
+                return { success: false, message: `"${animeData.animeTitle}" is already on "${list.name}"` };
+            }
+
+            const now = new Date().toISOString();
+            const entry: CustomListEntry = {
+                animeId: animeData.animeId,
+                animeTitle: animeData.animeTitle,
+                animeSlug: animeData.animeSlug,
+                addedAt: now,
+                ...LocalAnimeService.toSiteFields(animeData),
+            };
+            if (animeData.posterUrl && LocalAnimeService.isSafePosterUrl(animeData.posterUrl)) {
+                entry.posterUrl = animeData.posterUrl;
+            }
+
+            await this.customListRepository.update(listId, { entries: [...list.entries, entry], updatedAt: now });
+
+            return { success: true, message: `Added "${animeData.animeTitle}" to "${list.name}"` };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to add anime to list",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Take an anime off a list
+     */
+    async removeFromCustomList(listId: string, animeId: string): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const list = await this.customListRepository.findById(listId);
+            const entry = list?.entries.find((candidate) => candidate.animeId === animeId);
+            if (!list || !entry) {
+                return { success: false, message: "Anime is not on this list" };
+            }
+
+            await this.customListRepository.update(listId, {
+                entries: list.entries.filter((candidate) => candidate.animeId !== animeId),
+                updatedAt: new Date().toISOString(),
+            });
+
+            return { success: true, message: `Removed "${entry.animeTitle}" from "${list.name}"` };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to remove anime from list",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Why a list name can't be used, or null when it can
+     */
+    private static validateListName(name: string, otherLists: CustomList[]): string | null {
+        if (!name) {
+            return "List name cannot be empty";
+        }
+        if (name.length > MAX_LIST_NAME_LENGTH) {
+            return `List name must be at most ${MAX_LIST_NAME_LENGTH} characters`;
+        }
+        const lowerName = name.toLowerCase();
+        if (otherLists.some((list) => list.name.toLowerCase() === lowerName)) {
+            return `A list named "${name}" already exists`;
+        }
+        return null;
+    }
+
+    /**
+     * Ratings, notes and tags of every anime that has any, keyed by anime id
+     */
+    async getUserData(): Promise<Record<string, AnimeUserData>> {
+        return this.userDataRepository.getAll();
+    }
+
+    /**
+     * Progress changes, oldest first; only those of one anime when an id is given
+     */
+    async getWatchHistory(animeId?: string): Promise<WatchHistoryEntry[]> {
+        if (animeId === undefined) {
+            return this.watchHistoryRepository.findAll();
+        }
+        return this.watchHistoryRepository.findByAnimeId(await this.canonicalId(animeId));
+    }
+
+    /**
+     * Every recorded status change, oldest first
+     */
+    async getActivity(): Promise<ActivityEvent[]> {
+        return this.activityLogRepository.findAll();
+    }
+
+    /**
+     * Rate an anime or edit its notes and tags. An anime left with no score,
+     * notes or tags has its record removed.
+     */
+    async updateUserData(animeId: string, changes: AnimeUserDataChanges): Promise<ActionResult> {
+        try {
+            animeId = await this.canonicalId(animeId);
+            const existing = await this.userDataRepository.findById(animeId);
+
+            const score = changes.score === undefined ? existing?.score : (changes.score ?? undefined);
+            if (score !== undefined && (!Number.isInteger(score) || score < MIN_SCORE || score > MAX_SCORE)) {
+                return { success: false, message: `Score must be a whole number from ${MIN_SCORE} to ${MAX_SCORE}` };
+            }
+            const notes = changes.notes === undefined ? existing?.notes : changes.notes.trim() || undefined;
+            if (notes && notes.length > MAX_NOTES_LENGTH) {
+                return { success: false, message: `Notes must be at most ${MAX_NOTES_LENGTH} characters` };
+            }
+            const tags =
+                changes.tags === undefined ? (existing?.tags ?? []) : LocalAnimeService.normalizeTags(changes.tags);
+            if (tags.length > MAX_TAGS) {
+                return { success: false, message: `An anime can have at most ${MAX_TAGS} tags` };
+            }
+            if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+                return { success: false, message: `Tags must be at most ${MAX_TAG_LENGTH} characters` };
+            }
+
+            if (score === undefined && !notes && tags.length === 0) {
+                await this.userDataRepository.delete(animeId);
+                return { success: true, message: "Cleared rating, notes and tags" };
+            }
+
+            await this.userDataRepository.create({
+                animeId,
+                ...(score !== undefined && { score }),
+                ...(notes && { notes }),
+                tags,
+                updatedAt: new Date().toISOString(),
+            });
+
+            return { success: true, message: "Saved rating, notes and tags" };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to save rating, notes and tags",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Store the folders and tile order the content script laid out
+     */
+    async saveFolderOrder(folderOrder: FolderOrder): Promise<ActionResult> {
+        try {
+            await this.folderOrderRepository.save(folderOrder);
+            return { success: true, message: "Saved folders" };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to save folders",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Store the order the user dragged listing tiles into
+     */
+    async saveTileOrder(animeIds: string[]): Promise<ActionResult> {
+        try {
+            await this.tileOrderRepository.save({ animeIds, lastUpdated: new Date().toISOString() });
+            return { success: true, message: "Saved tile order" };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to save tile order",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Forget the dragged tile order so listings show the site's own order
+     */
+    async clearTileOrder(): Promise<ActionResult> {
+        try {
+            await this.tileOrderRepository.clear();
+            return { success: true, message: "Reset tile order" };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to reset tile order",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * User preferences, with defaults for anything not yet saved
+     */
+    async getSettings(): Promise<ExtensionSettings> {
+        return this.settingsRepository.get();
+    }
+
+    /**
+     * Change some fields of one settings section, keeping the rest
+     */
+    async updateSettings<K extends keyof ExtensionSettings>(
+        section: K,
+        changes: Partial<ExtensionSettings[K]>,
+    ): Promise<ActionResult> {
+        try {
+            await this.settingsRepository.update(section, changes);
+            return { success: true, message: "Settings saved" };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to save settings",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * The user's hide rules, oldest first
+     */
+    async getHideRules(): Promise<HideRule[]> {
+        return this.hideRuleRepository.findAll();
+    }
+
+    /**
+     * Add a hide rule, or replace the one with the same id
+     */
+    async saveHideRule(rule: HideRule): Promise<ActionResult> {
+        const invalid = validateHideRule(rule.kind, rule.value);
+        if (invalid) {
+            return { success: false, message: invalid };
+        }
+        try {
+            await this.hideRuleRepository.create(rule);
+            return { success: true, message: "Saved hide rule" };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to save hide rule",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Change a hide rule in place
+     */
+    async updateHideRule(ruleId: string, changes: Partial<HideRule>): Promise<ActionResult> {
+        try {
+            await this.hideRuleRepository.update(ruleId, changes);
+            return { success: true, message: "Saved hide rule" };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to save hide rule",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Delete a hide rule
+     */
+    async deleteHideRule(ruleId: string): Promise<ActionResult> {
+        try {
+            await this.hideRuleRepository.delete(ruleId);
+            return { success: true, message: "Deleted hide rule" };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to delete hide rule",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Site adapters the user defined, in the order they are tried
+     */
+    async getCustomAdapters(): Promise<SiteAdapterDefinition[]> {
+        return this.customAdapterRepository.findAll();
+    }
+
+    /**
+     * Save a custom adapter. Editing passes the id it was saved under, so a
+     * renamed adapter keeps its place in the order.
+     */
+    async saveCustomAdapter(definition: SiteAdapterDefinition, replaceId?: string): Promise<ActionResult> {
+        try {
+            if (replaceId) {
+                // watchPage is optional, so clear it explicitly when the edit removed it
+                await this.customAdapterRepository.update(replaceId, { watchPage: undefined, ...definition });
+            } else {
+                await this.customAdapterRepository.create(definition);
+            }
+            return { success: true, message: `Saved "${definition.label}"` };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to save adapter",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Delete a custom adapter
+     */
+    async deleteCustomAdapter(adapterId: string): Promise<ActionResult> {
+        try {
+            await this.customAdapterRepository.delete(adapterId);
+            return { success: true, message: "Deleted adapter" };
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to delete adapter",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Import a backup with the given per-list modes. The import is planned
+     * against storage as it is now, not as it was when the user previewed it,
+     * so changes made since are merged rather than overwritten.
+     */
+    async importLibrary(
+        backup: LibraryBackup,
+        modes: Partial<Record<BackupListKey, ImportMode>>,
+    ): Promise<ActionResult> {
+        try {
+            return await this.libraryBackupService.applyImport(
+                await this.libraryBackupService.previewImport(backup, modes),
+            );
+        } catch (error) {
+            return {
+                success: false,
+                message: "Failed to import library",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    /**
+     * Trim tags and drop empty ones and case-insensitive duplicates, keeping
+     * the first spelling
+     */
+    private static normalizeTags(tags: string[]): string[] {
+        const seen = new Set<string>();
+        const normalized: string[] = [];
+        for (const tag of tags) {
+            const trimmed = tag.trim().replace(/\s+/g, " ");
+            const key = trimmed.toLowerCase();
+            if (!trimmed || seen.has(key)) continue;
+            seen.add(key);
+            normalized.push(trimmed);
+        }
+        return normalized;
+    }
+
+    /**
+     * The list record that describes an entry, whichever list it is on
+     */
+    private static primaryRecord(records: AnimeListRecords): EpisodeProgress | PlanToWatch | undefined {
+        return records.progress ?? records.plan ?? records.completed ?? records.dropped ?? records.onHold;
+    }
+
+    /**
+     * Log a progress change to the watch history. A failed write is only
+     * warned about: the progress itself was saved, so the action succeeded.
+     */
+    private async recordWatch(progress: EpisodeProgress, source: WatchSource): Promise<void> {
+        try {
+            await this.watchHistoryRepository.append({
+                animeId: progress.animeId,
+                animeTitle: progress.animeTitle,
+                episode: progress.currentEpisode,
+                timestamp: progress.lastWatched,
+                source,
+            });
+        } catch (error) {
+            console.warn("Failed to record watch history:", error);
+        }
+    }
+
+    /**
+     * Add successful status changes to the activity log. Best effort, like
+     * the watch history.
+     */
+    private async recordActivity(...events: Omit<ActivityEvent, "timestamp">[]): Promise<void> {
+        const timestamp = new Date().toISOString();
+        try {
+            await this.activityLogRepository.append(...events.map((event) => ({ ...event, timestamp })));
+        } catch (error) {
+            console.warn("Failed to record activity:", error);
+        }
+    }
+
+    /**
+     * Remove the watch history and activity entries of an automatic move to
+     * an episode. Best effort, like recording them.
+     */
+    private async forgetAutoWatch(animeId: string, episode: number): Promise<void> {
+        try {
+            await this.watchHistoryRepository.removeLast(
+                (entry) => entry.animeId === animeId && entry.episode === episode && entry.source === "auto",
+            );
+            await this.activityLogRepository.removeLast(
+                (event) => event.animeId === animeId && event.action === "episode" && event.episode === episode,
+            );
+        } catch (error) {
+            console.warn("Failed to remove the undone watch:", error);
+        }
+    }
+
+    /**
+     * Every list record of one entry, the hidden record included
+     */
+    private async findListRecords(animeId: string): Promise<AnimeListRecords> {
+        const { progress, plan, completed, dropped, onHold, hidden } = await this.getAnimeStatus(animeId);
+        return { progress, plan, completed, dropped, onHold, hidden };
+    }
+
+    private async moveRecords(records: AnimeListRecords, fromId: string, toId: string): Promise<void> {
+        await this.deleteRecords(fromId);
+        await this.createRecords(records, toId);
+    }
+
+    private async createRecords(records: AnimeListRecords, animeId: string): Promise<void> {
+        await Promise.all([
+            records.progress && this.episodeProgressRepository.create({ ...records.progress, animeId }),
+            records.plan && this.planToWatchRepository.create({ ...records.plan, animeId }),
+            records.completed && this.completedAnimeRepository.create({ ...records.completed, animeId }),
+            records.dropped && this.droppedAnimeRepository.create({ ...records.dropped, animeId }),
+            records.onHold && this.onHoldAnimeRepository.create({ ...records.onHold, animeId }),
+            records.hidden && this.hiddenAnimeRepository.create({ ...records.hidden, animeId }),
+        ]);
+    }
+
+    private async deleteRecords(animeId: string): Promise<void> {
+        await Promise.all([
+            this.episodeProgressRepository.delete(animeId).catch(() => {}),
+            this.planToWatchRepository.delete(animeId).catch(() => {}),
+            this.hiddenAnimeRepository.remove(animeId).catch(() => {}),
+            this.completedAnimeRepository.delete(animeId).catch(() => {}),
+            this.droppedAnimeRepository.delete(animeId).catch(() => {}),
+            this.onHoldAnimeRepository.delete(animeId).catch(() => {}),
+        ]);
+    }
+}
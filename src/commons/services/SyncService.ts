@@ -0,0 +1,94 @@
+import type { ActionResult, SyncReport, SyncRequest, SyncSettings, SyncStatus, SyncToken } from "@/commons/models";
+import { apiHostPattern } from "@/commons/utils/syncPermissions";
+
+/**
+ * Client for remote list sync in the options page
+ *
+ * Sync runs in the background service worker, which holds the credentials
+ * and shares its storage locks with anime list writes.
+ */
+export class SyncService {
+    /**
+     * Settings, sign-in state and open conflicts
+     */
+    async getStatus(): Promise<SyncStatus> {
+        return this.request<SyncStatus>({ type: "GET_SYNC_STATUS" });
+    }
+
+    /**
+     * Save which provider to sync with, and how. Turning sync on first asks
+     * for access to the provider's API; the browser only shows that prompt
+     * to a page the user clicked in, not to the background worker.
+     */
+    async configure(settings: SyncSettings): Promise<ActionResult> {
+        const hostPattern = apiHostPattern(settings.baseUrl);
+        if (settings.enabled && hostPattern) {
+            try {
+                if (!(await chrome.permissions.request({ origins: [hostPattern] }))) {
+                    return { success: false, message: `Allow access to ${hostPattern} to sync with it` };
+                }
+            } catch (error) {
+                return {
+                    success: false,
+                    message: "Could not ask for access to the provider",
+                    error: error instanceof Error ? error.message : String(error),
+                };
+            }
+        }
+        return this.action({ type: "CONFIGURE_SYNC", settings });
+    }
+
+    /**
+     * Store the credentials for a provider
+     */
+    async signIn(providerId: string, token: SyncToken): Promise<ActionResult> {
+        return this.action({ type: "SIGN_IN_SYNC", providerId, token });
+    }
+
+    /**
+     * Forget the credentials for a provider
+     */
+    async signOut(providerId: string): Promise<ActionResult> {
+        return this.action({ type: "SIGN_OUT_SYNC", providerId });
+    }
+
+    /**
+     * Run a full sync now
+     */
+    async syncNow(): Promise<ActionResult & { report?: SyncReport }> {
+        return this.action({ type: "SYNC_NOW" });
+    }
+
+    /**
+     * Settle a conflict kept by the "ask" strategy
+     */
+    async resolveConflict(animeId: string, keep: "local" | "remote"): Promise<ActionResult> {
+        return this.action({ type: "RESOLVE_SYNC_CONFLICT", animeId, keep });
+    }
+
+    private async action(message: SyncRequest): Promise<ActionResult> {
+        try {
+            return await this.request<ActionResult>(message);
+        } catch (error) {
+            return {
+                success: false,
+                message: "Could not reach the extension background",
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    private request<T>(message: SyncRequest): Promise<T> {
+        return new Promise((resolve, reject) => {
+            chrome.runtime.sendMessage(message, (response?: T) => {
+                if (chrome.runtime.lastError) {
+                    return reject(new Error(chrome.runtime.lastError.message));
+                }
+                if (!response) {
+                    return reject(new Error(`No response to ${message.type}`));
+                }
+                resolve(response);
+            });
+        });
+    }
+}
@@ -1,2 +1,5 @@
 export { AnimeService } from "./AnimeService";
 export { AnimeStateValidator } from "./AnimeStateValidator";
+export { LibraryBackupService } from "./LibraryBackupService";
+export { LocalAnimeService } from "./LocalAnimeService";
+export { SyncService } from "./SyncService";
@@ -0,0 +1,47 @@
+import type { SiteAdapterDefinition } from "@/commons/models";
+
+export const anikototvDefinition: SiteAdapterDefinition = {
+    id: "anikototv",
+    label: "AnikotoTV",
+    // The content script is loaded on <all_urls> by the manifest, but the
+    // adapter scopes itself to anikototv.to so the MutationObserver and other
+    // page-wide setup don't run on unrelated sites that happen to use generic
+    // `.item` / `#list-items` markup.
+    hosts: ["anikototv.to"],
+    list: {
+        containerSelector: "#list-items",
+        cardSelector: ".item",
+        titleSelector: "a.name.d-title",
+        // Anikoto has a single per-anime URL shape — the episode player at
+        // /watch/{slug}/ep-{n}. There is no separate anime detail page, so
+        // card links point at an episode too. Anchored at both ends (with an
+        // optional trailing slash) so paths like `/watch/foo/ep-1-extra` or
+        // `/watch/foo/ep-1/other` don't sneak through.
+        linkPattern: "^/watch/(?<slug>[^/]+)/ep-\\d+/?$",
+        // The real card markup nests the poster as `.ani.poster > a > img`
+        // with a plain absolute `src`; `data-src` covers lazy loading.
+        posterSelector: ".ani.poster img",
+        injectionSelector: ".ani.poster",
+    },
+    watchPage: {
+        pathPattern: "^/watch/(?<slug>[^/]+)/ep-(?<episode>\\d+)/?$",
+        urlTemplate: "https://anikototv.to/watch/{slug}/ep-{episode}",
+        // document.title typically contains the anime name plus episode info,
+        // sometimes prefixed with "Watch " and suffixed with the site brand.
+        // The brand is removed first, then the episode marker; each suffix
+        // optionally absorbs a preceding " - " / " | " separator so
+        // "Title - Episode 6 - AnikotoTV" collapses cleanly to "Title".
+        titlePrefixPatterns: ["^Watch\\s+"],
+        titleSuffixPatterns: [
+            "\\s*[-|]\\s+(?:Watch\\s+)?Anikoto(?:TV)?(?:\\s+.*)?$",
+            "(?:\\s*[-|])?\\s+Episode\\s+\\d+.*$",
+            "(?:\\s*[-|])?\\s+Ep\\.?\\s*\\d+.*$",
+        ],
+        // Ordered most- to least- specific
+        titleSelectors: ["h1.anime-title", "h1", "h2", "[class*='title']", ".anime-title"],
+        // The player usually lives in a cross-origin iframe, in which case
+        // no video is found and progress arrives as player messages instead.
+        videoSelector: "video",
+        playerMessages: true,
+    },
+};
@@ -0,0 +1,31 @@
+import type { SiteAdapterDefinition } from "@/commons/models";
+
+export const animetsuDefinition: SiteAdapterDefinition = {
+    id: "animetsu",
+    label: "Animetsu",
+    hosts: ["animetsu.to", "animetsu.cc"],
+    list: {
+        containerSelector: ".anime-grid",
+        cardSelector: ".anime-card",
+        titleSelector: ".anime-card-title",
+        linkSelector: "a.anime-card-link",
+        linkPattern: "^/anime/(?<slug>[^/]+)/?$",
+        posterSelector: ".anime-card-poster img",
+        injectionSelector: ".anime-card-poster",
+        // Every card sits in a padded grid slot; hiding only the card would
+        // leave an empty gap where the slot was.
+        tileSelector: ".grid-slot",
+        // The grid is rendered by React, which loses track of slots that
+        // are moved around or wrapped in folders outside its control.
+        supportsDragAndDrop: false,
+    },
+    watchPage: {
+        pathPattern: "^/watch/(?<slug>[^/]+)/(?<episode>\\d+)/?$",
+        urlTemplate: "https://animetsu.to/watch/{slug}/{episode}",
+        // "Frieren: Beyond Journey's End Episode 4 | Animetsu"
+        titleSuffixPatterns: ["\\s*[-|]\\s*Animetsu.*$", "\\s+Episode\\s+\\d+.*$"],
+        titleSelectors: [".anime-info h1", "h1"],
+        // The site's own player is an inline <video>
+        videoSelector: "video",
+    },
+};
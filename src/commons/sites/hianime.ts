@@ -0,0 +1,42 @@
+import type { SiteAdapterDefinition } from "@/commons/models";
+
+export const hianimeDefinition: SiteAdapterDefinition = {
+    id: "hianime",
+    label: "HiAnime",
+    // The site rotates through mirror domains; each one serves the same markup
+    hosts: ["hianime.to", "hianime.nz", "hianime.sx"],
+    list: {
+        containerSelector: ".film_list-wrap",
+        cardSelector: ".flw-item",
+        titleSelector: ".film-detail .film-name a",
+        // The link text is the English or Japanese name depending on the
+        // site's language toggle; the title attribute is always English.
+        titleAttribute: "title",
+        // Cards link either to the detail page (/{slug}) or straight to the
+        // player (/watch/{slug}). Slugs always end in the numeric anime id,
+        // which keeps menu links like /home or /az-list from matching.
+        linkPattern: "^/(?:watch/)?(?<slug>[a-z0-9-]+-\\d+)/?$",
+        // Posters are lazy-loaded: `src` holds a placeholder until scrolled into view
+        posterSelector: "img.film-poster-img",
+        posterAttributes: ["data-src", "src"],
+        injectionSelector: ".film-poster",
+        // No slot wrapper — the card is the tile
+    },
+    watchPage: {
+        // The episode is chosen with an opaque ?ep={episodeId} query
+        // parameter, so its number is read from the highlighted entry in the
+        // episode list instead of the path.
+        pathPattern: "^/watch/(?<slug>[a-z0-9-]+-\\d+)/?$",
+        // Episode ids can't be derived from the number, so links open the
+        // player and the site picks up where the user left off
+        urlTemplate: "https://hianime.to/watch/{slug}",
+        episodeSelector: ".ss-list a.ep-item.active",
+        episodeAttribute: "data-number",
+        // "Watch Frieren English Sub/Dub online Free on HiAnime.to"
+        titlePrefixPatterns: ["^Watch\\s+"],
+        titleSuffixPatterns: ["\\s+English\\s+Sub/Dub\\s+online\\s+Free\\s+on\\s+HiAnime.*$"],
+        titleSelectors: [".anisc-detail .film-name", "h2.film-name"],
+        // The player is a cross-origin iframe that reports progress by message
+        playerMessages: true,
+    },
+};
@@ -0,0 +1,36 @@
+import type { SiteAdapterDefinition } from "@/commons/models";
+import type { EpisodeUrlBuilder } from "@/commons/utils/watchUrl";
+import { fillEpisodeUrlTemplate } from "@/commons/utils/watchUrl";
+import { anikototvDefinition } from "./anikototv";
+import { animetsuDefinition } from "./animetsu";
+import { hianimeDefinition } from "./hianime";
+
+/** Definitions of the built-in sites, in registry order */
+export const builtInDefinitions: SiteAdapterDefinition[] = [anikototvDefinition, hianimeDefinition, animetsuDefinition];
+
+/**
+ * Built-in site with the given id, e.g. the one a tracked entry was recorded from
+ */
+export function findBuiltInSite(siteId: string | undefined): SiteAdapterDefinition | null {
+    return (siteId && builtInDefinitions.find((definition) => definition.id === siteId)) || null;
+}
+
+/**
+ * Name to show for the site an entry was recorded from
+ */
+export function getSiteLabel(siteId: string | undefined): string {
+    if (!siteId) return "Unknown site";
+    return findBuiltInSite(siteId)?.label ?? siteId;
+}
+
+/**
+ * Episode URL builder of a built-in site, for links back to where an entry
+ * was tracked. Custom sites have none; their entries carry the template.
+ */
+export function getEpisodeUrlBuilder(siteId: string | undefined): EpisodeUrlBuilder | undefined {
+    const urlTemplate = findBuiltInSite(siteId)?.watchPage?.urlTemplate;
+    if (!urlTemplate) return undefined;
+    return (slug, episode) => fillEpisodeUrlTemplate(urlTemplate, slug, episode);
+}
+
+export { anikototvDefinition, animetsuDefinition, hianimeDefinition };
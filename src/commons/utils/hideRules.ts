@@ -0,0 +1,53 @@
+import type { HideRule, HideRuleKind } from "@/commons/models";
+
+/** Longest keyword or pattern accepted; patterns run against every tile on a page */
+export const MAX_HIDE_RULE_LENGTH = 200;
+
+/**
+ * Why a rule's text can't be used, or null when it can
+ */
+export function validateHideRule(kind: HideRuleKind, value: string): string | null {
+    const text = value.trim();
+    if (!text) return "Enter a keyword or pattern";
+    if (text.length > MAX_HIDE_RULE_LENGTH) return `Keep rules under ${MAX_HIDE_RULE_LENGTH} characters`;
+    if (kind === "pattern") {
+        try {
+            new RegExp(text, "i");
+        } catch (error) {
+            return `Not a valid pattern: ${error instanceof Error ? error.message : error}`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Whether a rule matches a title. Disabled rules, and stored patterns that no
+ * longer compile, match nothing.
+ */
+export function matchesHideRule(rule: HideRule, title: string): boolean {
+    const text = rule.value.trim();
+    if (!rule.enabled || !text) return false;
+    if (rule.kind === "keyword") {
+        return title.toLowerCase().includes(text.toLowerCase());
+    }
+    try {
+        return new RegExp(text, "i").test(title);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The first rule matching a title, in the order the rules were added
+ */
+export function findMatchingHideRule(rules: HideRule[], title: string): HideRule | null {
+    return rules.find((rule) => matchesHideRule(rule, title)) ?? null;
+}
+
+/**
+ * How a rule is named on the page and in settings: keywords in quotes,
+ * patterns between slashes
+ */
+export function describeHideRule(rule: Pick<HideRule, "kind" | "value">): string {
+    return rule.kind === "pattern" ? `/${rule.value}/` : `"${rule.value}"`;
+}
@@ -0,0 +1,40 @@
+import type { AnimeListRecords } from "@/commons/models";
+
+/**
+ * How far along an entry is: completed beats any episode, an episode reached
+ * on any list beats a plan, and a plan beats a hidden or untracked entry
+ */
+export function listRecordRank(records: AnimeListRecords): number {
+    if (records.completed) return Number.POSITIVE_INFINITY;
+    const episodeRecord = records.progress ?? records.onHold ?? records.dropped;
+    if (episodeRecord) return episodeRecord.currentEpisode;
+    if (records.plan) return 0;
+    return records.hidden ? -1 : -2;
+}
+
+/**
+ * Whether a merge should keep the merged entry's records over the kept
+ * entry's. Ties go to the kept entry.
+ */
+export function mergedRecordsWin(keep: AnimeListRecords, merge: AnimeListRecords): boolean {
+    return listRecordRank(merge) > listRecordRank(keep);
+}
+
+/**
+ * Whether an entry is on any list, hidden included
+ */
+export function hasListRecords(records: AnimeListRecords): boolean {
+    return listRecordRank(records) > -2;
+}
+
+/**
+ * Short description of the list an entry is on, e.g. "dropped at episode 4"
+ */
+export function describeListRecords(records: AnimeListRecords): string {
+    if (records.completed) return "completed";
+    if (records.progress) return `watching at episode ${records.progress.currentEpisode}`;
+    if (records.onHold) return `on hold at episode ${records.onHold.currentEpisode}`;
+    if (records.dropped) return `dropped at episode ${records.dropped.currentEpisode}`;
+    if (records.plan) return "planned";
+    return records.hidden ? "hidden" : "not on a list";
+}
@@ -0,0 +1,73 @@
+import { StorageKeys } from "@/commons/models";
+
+/**
+ * Lists stored one storage key per anime (`<list>:<animeId>`) plus an index
+ * key holding the ids in insertion order. Changing one anime then rewrites a
+ * single small value instead of the whole list.
+ */
+export const PER_ANIME_LISTS = {
+    [StorageKeys.EPISODE_PROGRESS]: StorageKeys.EPISODE_PROGRESS_INDEX,
+    [StorageKeys.PLAN_TO_WATCH]: StorageKeys.PLAN_TO_WATCH_INDEX,
+} as const;
+
+export type PerAnimeList = keyof typeof PER_ANIME_LISTS;
+
+/**
+ * Append-only logs stored one storage key per day (`<log>:<YYYY-MM-DD>`) plus
+ * an index key holding the days in order. Adding an entry then rewrites that
+ * day's bucket instead of the whole log.
+ */
+export const DAILY_LOGS = {
+    [StorageKeys.WATCH_HISTORY]: StorageKeys.WATCH_HISTORY_INDEX,
+    [StorageKeys.ACTIVITY_LOG]: StorageKeys.ACTIVITY_LOG_INDEX,
+} as const;
+
+export type DailyLog = keyof typeof DAILY_LOGS;
+
+const LIST_KEYS = new Set<string>(Object.values(StorageKeys));
+
+/**
+ * Storage key of one anime's record in a per-anime list
+ */
+export function animeItemKey(list: PerAnimeList, animeId: string): string {
+    return `${list}:${animeId}`;
+}
+
+/**
+ * Storage key of one day's bucket in a daily log
+ */
+export function dayBucketKey(log: DailyLog, day: string): string {
+    return `${log}:${day}`;
+}
+
+/**
+ * Split a per-anime item key back into its list and anime id
+ */
+export function parseAnimeItemKey(key: string): { list: PerAnimeList; animeId: string } | null {
+    const separator = key.indexOf(":");
+    if (separator <= 0) return null;
+
+    const list = key.slice(0, separator);
+    if (!(list in PER_ANIME_LISTS)) return null;
+    return { list: list as PerAnimeList, animeId: key.slice(separator + 1) };
+}
+
+/**
+ * Resolve any storage key — a plain list key, a per-anime item key, a daily
+ * log bucket or an index key — to the list it belongs to. Unknown keys
+ * resolve to null.
+ */
+export function listKeyOf(key: string): StorageKeys | null {
+    const item = parseAnimeItemKey(key);
+    if (item) return item.list;
+
+    const prefix = key.slice(0, Math.max(0, key.indexOf(":")));
+    if (prefix in DAILY_LOGS) return prefix as StorageKeys;
+
+    const indexOf = [...Object.entries(PER_ANIME_LISTS), ...Object.entries(DAILY_LOGS)].find(
+        ([, index]) => index === key,
+    );
+    if (indexOf) return indexOf[0] as StorageKeys;
+
+    return LIST_KEYS.has(key) ? (key as StorageKeys) : null;
+}
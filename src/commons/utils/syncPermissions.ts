@@ -0,0 +1,12 @@
+/**
+ * Host permission pattern covering a sync provider's API address, e.g.
+ * `https://api.example.com/*`, or null when the address is not a web URL
+ */
+export function apiHostPattern(baseUrl: string): string | null {
+    try {
+        const url = new URL(baseUrl.trim());
+        return url.protocol === "https:" || url.protocol === "http:" ? `${url.origin}/*` : null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,109 @@
+/** An entry that could be merged with another */
+export interface MergeCandidate {
+    animeId: string;
+    animeTitle: string;
+    siteId?: string;
+    malId?: number;
+}
+
+/** Two entries that look like the same show */
+export interface MergeSuggestion {
+    first: MergeCandidate;
+    second: MergeCandidate;
+    /** 1 for a shared MyAnimeList id, otherwise the title similarity */
+    score: number;
+    reason: "malId" | "title";
+}
+
+/** Titles at least this similar are suggested for merging */
+export const DEFAULT_MERGE_THRESHOLD = 0.85;
+
+const ROMAN_NUMERALS: Record<string, string> = { ii: "2", iii: "3", iv: "4", v: "5", vi: "6" };
+const STOP_WORDS = new Set(["the", "a", "an", "no", "tv"]);
+
+/**
+ * Reduce a title to lowercase words so cosmetic differences between sites
+ * (punctuation, accents, "2nd Season" vs "Season 2", roman numerals) don't
+ * hide a match
+ */
+export function normalizeTitle(title: string): string {
+    const words = title
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/&/g, " and ")
+        .replace(/(\d+)(?:st|nd|rd|th)\s+season/g, "season $1")
+        .replace(/[^a-z0-9]+/g, " ")
+        .split(" ")
+        .filter((word) => word && !STOP_WORDS.has(word))
+        .map((word) => ROMAN_NUMERALS[word] ?? word);
+    return words.join(" ");
+}
+
+function bigrams(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    const compact = text.replace(/ /g, "");
+    for (let index = 0; index < compact.length - 1; index++) {
+        const pair = compact.slice(index, index + 2);
+        counts.set(pair, (counts.get(pair) ?? 0) + 1);
+    }
+    return counts;
+}
+
+function numbersIn(text: string): string {
+    return (text.match(/\d+/g) ?? []).join(" ");
+}
+
+/**
+ * Similarity of two titles from 0 to 1 (Dice coefficient over letter pairs
+ * of the normalized titles). Titles with different numbers are different
+ * shows — "Season 2" is not "Season 3" however alike the rest is — and score 0.
+ */
+export function titleSimilarity(a: string, b: string): number {
+    const left = normalizeTitle(a);
+    const right = normalizeTitle(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+    if (numbersIn(left) !== numbersIn(right)) return 0;
+
+    const leftPairs = bigrams(left);
+    const rightPairs = bigrams(right);
+    let shared = 0;
+    let total = 0;
+    leftPairs.forEach((count, pair) => {
+        shared += Math.min(count, rightPairs.get(pair) ?? 0);
+        total += count;
+    });
+    rightPairs.forEach((count) => (total += count));
+    return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/**
+ * Pairs of entries that are probably the same show tracked on different
+ * sites, best match first. Entries from the same site are never paired —
+ * a site lists a show once, so two of its entries are different shows.
+ */
+export function suggestMerges(
+    candidates: MergeCandidate[],
+    threshold: number = DEFAULT_MERGE_THRESHOLD,
+): MergeSuggestion[] {
+    const suggestions: MergeSuggestion[] = [];
+
+    candidates.forEach((first, index) => {
+        for (const second of candidates.slice(index + 1)) {
+            if (first.animeId === second.animeId) continue;
+            if (first.siteId && first.siteId === second.siteId) continue;
+
+            if (first.malId !== undefined && first.malId === second.malId) {
+                suggestions.push({ first, second, score: 1, reason: "malId" });
+                continue;
+            }
+            const score = titleSimilarity(first.animeTitle, second.animeTitle);
+            if (score >= threshold) {
+                suggestions.push({ first, second, score, reason: "title" });
+            }
+        }
+    });
+
+    return suggestions.sort((a, b) => b.score - a.score);
+}
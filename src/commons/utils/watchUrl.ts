@@ -1,16 +1,53 @@
 import type { EpisodeProgress } from "@/commons/models";
 
-// Anikoto's single per-anime URL shape (see WATCH_PATH_RE in
-// src/content/adapters/anikototv.ts). Duplicated here rather than imported —
-// commons must not depend on content-script code. Real site hrefs carry no
-// trailing slash, so none is generated.
-const WATCH_BASE_URL = "https://anikototv.to/watch";
+/** Builds the URL of one episode of an anime on a site */
+export type EpisodeUrlBuilder = (slug: string, episode: number) => string;
+
+// Anikoto's episode URL shape (see anikototvDefinition in
+// src/commons/sites/anikototv.ts). Entries tracked before the source site
+// was recorded all came from there. Kept as a literal so this module does
+// not depend on the site lookups, which import it.
+const LEGACY_EPISODE_URL_TEMPLATE = "https://anikototv.to/watch/{slug}/ep-{episode}";
+
+/**
+ * Fill the `{slug}` and `{episode}` placeholders of an episode URL template
+ */
+export function fillEpisodeUrlTemplate(template: string, slug: string, episode: number): string {
+    return template.replace(/\{slug\}/g, encodeURIComponent(slug)).replace(/\{episode\}/g, String(episode));
+}
+
+/**
+ * Whether a template fills in to an absolute http(s) URL. Templates end up in
+ * <a :href> on the options page, so anything else (javascript:, relative
+ * paths) is refused.
+ */
+export function isEpisodeUrlTemplate(template: string): boolean {
+    if (!template.includes("{slug}")) return false;
+    try {
+        const url = new URL(fillEpisodeUrlTemplate(template, "slug", 1));
+        return url.protocol === "http:" || url.protocol === "https:";
+    } catch {
+        return false;
+    }
+}
 
 /**
  * Build the "continue watching" URL for a tracked anime — the player page of
  * the episode the user is currently on (currentEpisode is the last watched
  * episode, not the next one).
+ *
+ * The site's own builder wins when the caller has one, so a built-in site
+ * that changes its URLs only needs its adapter updated. Otherwise the
+ * template recorded with the entry is used, and legacy entries without one
+ * fall back to Anikoto.
  */
-export function getContinueWatchingUrl(item: EpisodeProgress): string {
-    return `${WATCH_BASE_URL}/${item.animeSlug}/ep-${item.currentEpisode}`;
+export function getContinueWatchingUrl(item: EpisodeProgress, buildEpisodeUrl?: EpisodeUrlBuilder): string {
+    if (buildEpisodeUrl) {
+        return buildEpisodeUrl(item.animeSlug, item.currentEpisode);
+    }
+    const template =
+        item.episodeUrlTemplate && isEpisodeUrlTemplate(item.episodeUrlTemplate)
+            ? item.episodeUrlTemplate
+            : LEGACY_EPISODE_URL_TEMPLATE;
+    return fillEpisodeUrlTemplate(template, item.animeSlug, item.currentEpisode);
 }
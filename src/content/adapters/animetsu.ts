@@ -0,0 +1,5 @@
+import { animetsuDefinition } from "@/commons/sites";
+import { compileAdapter } from "./declarative";
+import type { SiteAdapter } from "./types";
+
+export const animetsuAdapter: SiteAdapter = compileAdapter(animetsuDefinition);
@@ -0,0 +1,20 @@
+import { CustomAdapterRepository } from "@/commons/repositories";
+import { compileAdapter } from "./declarative";
+import type { SiteAdapter } from "./types";
+
+/**
+ * Compile the adapters the user defined on the options page. Definitions
+ * that no longer compile are skipped so one broken entry can't disable the
+ * others.
+ */
+export async function loadCustomAdapters(repository = new CustomAdapterRepository()): Promise<SiteAdapter[]> {
+    const definitions = await repository.findAll();
+    return definitions.flatMap((definition) => {
+        try {
+            return [compileAdapter(definition)];
+        } catch (error) {
+            console.warn(`[Adapters] Skipping custom adapter "${definition.id}":`, error);
+            return [];
+        }
+    });
+}
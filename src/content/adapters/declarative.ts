@@ -0,0 +1,298 @@
+import type { AnimeData, SiteAdapterDefinition, WatchPageDefinition } from "@/commons/models";
+import { fillEpisodeUrlTemplate, isEpisodeUrlTemplate } from "@/commons/utils/watchUrl";
+import { readCommonPlayerMessage } from "./playback";
+import type { SiteAdapter, WatchPageAdapter } from "./types";
+
+const DEFAULT_POSTER_ATTRIBUTES = ["src", "data-src"];
+const DEFAULT_POSTER_META_SELECTOR = 'meta[property="og:image"]';
+
+function toSafePosterUrl(raw: string | null | undefined): string | undefined {
+    // Poster URLs come from an untrusted third-party page and end up bound to
+    // <img :src> in the privileged options page, so only absolute http/https
+    // URLs are accepted. Resolving against document.baseURI also turns
+    // relative src values into absolute ones (a relative path stored verbatim
+    // would resolve against chrome-extension:// on the options page) and
+    // rejects javascript:/data:/blob: values, including lazy-load
+    // placeholders.
+    if (!raw) return undefined;
+    try {
+        const url = new URL(raw, document.baseURI);
+        return url.protocol === "http:" || url.protocol === "https:" ? url.href : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function isValidSelector(selector: string): boolean {
+    try {
+        document.createDocumentFragment().querySelector(selector);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function isValidPattern(pattern: string): boolean {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Problems that would stop a definition from compiling or matching anything.
+ * An empty list means the definition is usable.
+ */
+export function validateAdapterDefinition(definition: SiteAdapterDefinition): string[] {
+    const errors: string[] = [];
+    const { list, watchPage } = definition;
+
+    if (!definition.id?.trim()) errors.push("id is required");
+    if (!definition.label?.trim()) errors.push("label is required");
+    if (!definition.hosts?.length || definition.hosts.some((host) => !host.trim())) {
+        errors.push("at least one host is required");
+    }
+    if (!list) return [...errors, "list page settings are required"];
+
+    const selectors: [string, string | undefined, boolean][] = [
+        ["list.containerSelector", list.containerSelector, true],
+        ["list.cardSelector", list.cardSelector, true],
+        ["list.titleSelector", list.titleSelector, true],
+        ["list.injectionSelector", list.injectionSelector, true],
+        ["list.linkSelector", list.linkSelector, false],
+        ["list.posterSelector", list.posterSelector, false],
+        ["list.tileSelector", list.tileSelector, false],
+        ["watchPage.episodeSelector", watchPage?.episodeSelector, false],
+        ["watchPage.posterMetaSelector", watchPage?.posterMetaSelector, false],
+        ["watchPage.videoSelector", watchPage?.videoSelector, false],
+        ...(watchPage?.titleSelectors ?? []).map((selector, index): [string, string, boolean] => [
+            `watchPage.titleSelectors[${index}]`,
+            selector,
+            true,
+        ]),
+    ];
+    for (const [field, selector, required] of selectors) {
+        if (!selector?.trim()) {
+            if (required) errors.push(`${field} is required`);
+        } else if (!isValidSelector(selector)) {
+            errors.push(`${field} is not a valid CSS selector`);
+        }
+    }
+
+    const patterns: [string, string | undefined][] = [
+        ["list.linkPattern", list.linkPattern],
+        ["watchPage.pathPattern", watchPage?.pathPattern],
+        ...(watchPage?.titlePrefixPatterns ?? []).map((pattern, index): [string, string] => [
+            `watchPage.titlePrefixPatterns[${index}]`,
+            pattern,
+        ]),
+        ...(watchPage?.titleSuffixPatterns ?? []).map((pattern, index): [string, string] => [
+            `watchPage.titleSuffixPatterns[${index}]`,
+            pattern,
+        ]),
+    ];
+    for (const [field, pattern] of patterns) {
+        if (pattern === undefined) continue;
+        if (!isValidPattern(pattern)) errors.push(`${field} is not a valid regular expression`);
+    }
+    if (!list.linkPattern) errors.push("list.linkPattern is required");
+
+    for (const [field, pattern] of [
+        ["list.linkPattern", list.linkPattern],
+        ["watchPage.pathPattern", watchPage?.pathPattern],
+    ] as const) {
+        if (pattern && isValidPattern(pattern) && !pattern.includes("(?<slug>")) {
+            errors.push(`${field} needs a (?<slug>…) group`);
+        }
+    }
+
+    if (watchPage?.urlTemplate !== undefined && !isEpisodeUrlTemplate(watchPage.urlTemplate)) {
+        errors.push("watchPage.urlTemplate must be an http(s) URL containing {slug}");
+    }
+
+    return errors;
+}
+
+/**
+ * Where an anime was read from, so entries tracked from it can link back.
+ * Keys without a value are left out.
+ */
+function siteFields(definition: SiteAdapterDefinition): Pick<AnimeData, "siteId" | "episodeUrlTemplate"> {
+    const urlTemplate = definition.watchPage?.urlTemplate;
+    return urlTemplate ? { siteId: definition.id, episodeUrlTemplate: urlTemplate } : { siteId: definition.id };
+}
+
+function compileWatchPage(
+    site: Pick<AnimeData, "siteId" | "episodeUrlTemplate">,
+    definition: WatchPageDefinition,
+    matchesHost: (hostname: string) => boolean,
+): WatchPageAdapter {
+    const pathPattern = new RegExp(definition.pathPattern);
+    const prefixPatterns = (definition.titlePrefixPatterns ?? []).map((pattern) => new RegExp(pattern, "i"));
+    const suffixPatterns = (definition.titleSuffixPatterns ?? []).map((pattern) => new RegExp(pattern, "i"));
+    const titleSelectors = definition.titleSelectors ?? [];
+    const posterMetaSelector = definition.posterMetaSelector ?? DEFAULT_POSTER_META_SELECTOR;
+
+    const matchPath = () => window.location.pathname.match(pathPattern);
+
+    function readTitle(fallback: string): string {
+        // Only the configured affixes are stripped — splitting on every
+        // " - " / " | " would truncate legitimate titles that contain those
+        // separators (e.g. "Steins;Gate - The Movie").
+        let title = (document.title || "").trim();
+        if (title) {
+            for (const pattern of prefixPatterns) title = title.replace(pattern, "");
+            for (const pattern of suffixPatterns) title = title.replace(pattern, "");
+            title = title.trim();
+            if (title) return title;
+        }
+        for (const selector of titleSelectors) {
+            const text = document.querySelector(selector)?.textContent?.trim();
+            if (text) return text;
+        }
+        return fallback;
+    }
+
+    const watchPage: WatchPageAdapter = {
+        matches: (url) => matchesHost(url.hostname) && pathPattern.test(url.pathname),
+        extractAnime(): AnimeData | null {
+            const slug = matchPath()?.groups?.slug;
+            if (!slug) return null;
+
+            return {
+                animeId: slug,
+                animeTitle: readTitle(slug),
+                animeSlug: slug,
+                // Best-effort only — nothing may depend on the meta tag existing
+                posterUrl: toSafePosterUrl(document.querySelector(posterMetaSelector)?.getAttribute("content")),
+                ...site,
+            };
+        },
+    };
+
+    const hasEpisodeGroup = definition.pathPattern.includes("(?<episode>");
+    if (hasEpisodeGroup || definition.episodeSelector) {
+        const { episodeSelector, episodeAttribute } = definition;
+        watchPage.extractEpisode = () => {
+            const fromPath = hasEpisodeGroup ? parseInt(matchPath()?.groups?.episode ?? "", 10) : NaN;
+            if (fromPath > 0) return fromPath;
+            if (!episodeSelector) return null;
+
+            // Episode lists are often rendered after load, so a missing element just means "not yet"
+            const element = document.querySelector(episodeSelector);
+            const raw = episodeAttribute ? element?.getAttribute(episodeAttribute) : element?.textContent;
+            const fromPage = parseInt(raw?.match(/\d+/)?.[0] ?? "", 10);
+            return fromPage > 0 ? fromPage : null;
+        };
+    }
+    if (definition.videoSelector) {
+        const videoSelector = definition.videoSelector;
+        watchPage.findVideo = () => document.querySelector<HTMLVideoElement>(videoSelector);
+    }
+    if (definition.playerMessages) {
+        watchPage.readPlayerMessage = readCommonPlayerMessage;
+    }
+
+    return watchPage;
+}
+
+/**
+ * Build a SiteAdapter from its declarative definition. Throws when the
+ * definition does not pass validateAdapterDefinition.
+ */
+export function compileAdapter(definition: SiteAdapterDefinition): SiteAdapter {
+    const errors = validateAdapterDefinition(definition);
+    if (errors.length > 0) {
+        throw new Error(`Invalid site adapter "${definition.id}": ${errors.join("; ")}`);
+    }
+
+    const { list } = definition;
+    const hosts = definition.hosts.map((host) => host.trim().toLowerCase());
+    const linkPattern = new RegExp(list.linkPattern);
+    const linkSelector = list.linkSelector ?? list.titleSelector;
+    const posterAttributes = list.posterAttributes ?? DEFAULT_POSTER_ATTRIBUTES;
+
+    const site = siteFields(definition);
+    const matchesHost = (hostname: string) => hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+
+    function extractSlug(href: string): string | null {
+        if (!href) return null;
+        let pathname = href;
+        try {
+            pathname = new URL(href, `https://${hosts[0]}`).pathname;
+        } catch {
+            // Fall through with the raw href; relative paths still match.
+        }
+        return pathname.match(linkPattern)?.groups?.slug ?? null;
+    }
+
+    function extractPosterUrl(card: Element): string | undefined {
+        // Each attribute is validated on its own so a data: placeholder in
+        // `src` (the standard lazy-load pattern) doesn't shadow a real URL in
+        // `data-src`.
+        if (!list.posterSelector) return undefined;
+        const img = card.querySelector(list.posterSelector);
+        for (const attribute of posterAttributes) {
+            const url = toSafePosterUrl(img?.getAttribute(attribute));
+            if (url) return url;
+        }
+        return undefined;
+    }
+
+    const adapter: SiteAdapter = {
+        id: definition.id,
+        matches: (url) => matchesHost(url.hostname),
+        containerSelector: list.containerSelector,
+        cardSelector: list.cardSelector,
+        extractAnime(card) {
+            const titleElement = card.querySelector(list.titleSelector);
+            const link = card.querySelector(linkSelector);
+            if (!titleElement || !link) return null;
+
+            const slug = extractSlug(link.getAttribute("href") || "");
+            if (!slug) return null;
+
+            const animeTitle = (
+                list.titleAttribute ? titleElement.getAttribute(list.titleAttribute) : titleElement.textContent
+            )?.trim();
+            if (!animeTitle) return null;
+
+            return {
+                animeId: slug,
+                animeTitle,
+                animeSlug: slug,
+                posterUrl: extractPosterUrl(card),
+                ...site,
+            };
+        },
+        getInjectionTarget(card) {
+            const target = card.querySelector<HTMLElement>(list.injectionSelector);
+            if (!target) return null;
+            if (target.style.position !== "relative") {
+                // Idempotent — keeps overlay positioning predictable across re-renders.
+                target.style.position = "relative";
+            }
+            return target;
+        },
+        watchPage: definition.watchPage ? compileWatchPage(site, definition.watchPage, matchesHost) : null,
+    };
+
+    if (definition.watchPage?.urlTemplate) {
+        const urlTemplate = definition.watchPage.urlTemplate;
+        adapter.buildEpisodeUrl = (slug, episode) => fillEpisodeUrlTemplate(urlTemplate, slug, episode);
+    }
+    if (list.tileSelector) {
+        const tileSelector = list.tileSelector;
+        adapter.getTileElement = (card) => card.closest(tileSelector) ?? card;
+    }
+    if (list.supportsClearHiddenButton !== undefined) {
+        adapter.supportsClearHiddenButton = list.supportsClearHiddenButton;
+    }
+    if (list.supportsDragAndDrop !== undefined) {
+        adapter.supportsDragAndDrop = list.supportsDragAndDrop;
+    }
+
+    return adapter;
+}
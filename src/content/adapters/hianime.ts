@@ -0,0 +1,5 @@
+import { hianimeDefinition } from "@/commons/sites";
+import { compileAdapter } from "./declarative";
+import type { SiteAdapter } from "./types";
+
+export const hianimeAdapter: SiteAdapter = compileAdapter(hianimeDefinition);
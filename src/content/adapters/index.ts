@@ -1,7 +1,9 @@
 import { anikototvAdapter } from "./anikototv";
+import { animetsuAdapter } from "./animetsu";
+import { hianimeAdapter } from "./hianime";
 import type { SiteAdapter } from "./types";
 
-export const adapters: SiteAdapter[] = [anikototvAdapter];
+export const adapters: SiteAdapter[] = [anikototvAdapter, hianimeAdapter, animetsuAdapter];
 
 /**
  * Resolve the SiteAdapter that should drive the content script for the given
@@ -15,5 +17,16 @@ export function selectAdapter(
     return candidates.find((adapter) => adapter.matches(url)) ?? null;
 }
 
-export type { SiteAdapter, WatchPageAdapter } from "./types";
-export { anikototvAdapter };
+/**
+ * Built-in adapter with the given id, e.g. the one a tracked entry was
+ * recorded from
+ */
+export function findAdapterById(id: string | undefined): SiteAdapter | null {
+    return (id && adapters.find((adapter) => adapter.id === id)) || null;
+}
+
+export type { PlaybackProgress, SiteAdapter, WatchPageAdapter } from "./types";
+export { anikototvAdapter, animetsuAdapter, hianimeAdapter };
+export { builtInDefinitions } from "@/commons/sites";
+export { loadCustomAdapters } from "./custom";
+export { compileAdapter, validateAdapterDefinition } from "./declarative";
@@ -0,0 +1,48 @@
+import type { PlaybackProgress } from "./types";
+
+// Field names embedded players commonly use for the playback position
+const POSITION_FIELDS = ["currentTime", "position", "seconds", "time"] as const;
+
+// Some players wrap the payload one level down (Vimeo-style `{ event, data }`)
+const NESTED_FIELDS = ["data", "info", "value"] as const;
+
+function readProgressFields(value: unknown): PlaybackProgress | null {
+    if (!value || typeof value !== "object") return null;
+    const record = value as Record<string, unknown>;
+
+    const duration = Number(record.duration);
+    if (!Number.isFinite(duration) || duration <= 0) return null;
+
+    for (const field of POSITION_FIELDS) {
+        const currentTime = Number(record[field]);
+        if (record[field] !== undefined && Number.isFinite(currentTime) && currentTime >= 0) {
+            return { currentTime, duration };
+        }
+    }
+    return null;
+}
+
+/**
+ * Best-effort reader for the progress messages common embeddable players post
+ * to their parent page — an object (or its JSON string) carrying a duration
+ * and a position, either at the top level or one level down.
+ */
+export function readCommonPlayerMessage(data: unknown): PlaybackProgress | null {
+    let payload = data;
+    if (typeof payload === "string") {
+        try {
+            payload = JSON.parse(payload);
+        } catch {
+            return null;
+        }
+    }
+
+    const direct = readProgressFields(payload);
+    if (direct || !payload || typeof payload !== "object") return direct;
+
+    for (const field of NESTED_FIELDS) {
+        const nested = readProgressFields((payload as Record<string, unknown>)[field]);
+        if (nested) return nested;
+    }
+    return null;
+}
@@ -1,8 +1,29 @@
 import type { AnimeData } from "@/commons/models";
 
+/** Position of the episode player, in seconds */
+export interface PlaybackProgress {
+    currentTime: number;
+    duration: number;
+}
+
 export interface WatchPageAdapter {
     matches(url: URL): boolean;
     extractAnime(): AnimeData | null;
+    /**
+     * Episode number the current watch page plays, when the site exposes it.
+     * Automatic episode tracking is skipped on sites without it.
+     */
+    extractEpisode?(): number | null;
+    /**
+     * The video element playing the episode, for sites with an inline player.
+     * Lets automatic tracking wait until enough of the episode has played.
+     */
+    findVideo?(): HTMLVideoElement | null;
+    /**
+     * Read playback progress from a message an embedded player iframe posted
+     * to the page. Returns null for anything that is not player progress.
+     */
+    readPlayerMessage?(data: unknown): PlaybackProgress | null;
 }
 
 export interface SiteAdapter {
@@ -20,6 +41,11 @@ export interface SiteAdapter {
      */
     getTileElement?(card: Element): Element;
     watchPage: WatchPageAdapter | null;
+    /**
+     * URL of an episode page, for sites with a known URL shape. The options
+     * page links tracked anime back to the site with it.
+     */
+    buildEpisodeUrl?(slug: string, episode: number): string;
     /**
      * Whether the host has a dedicated anime-list container suitable for
      * the "Clear Hidden" management button. Defaults to true.
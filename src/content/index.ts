@@ -1,8 +1,29 @@
-import type { AnimeData, AnimeStatus, TileOrder, Folder, FolderOrder } from "@/commons/models";
-import { StorageKeys } from "@/commons/models";
+import type {
+    ActionResult,
+    AnimeData,
+    AnimeStatus,
+    AnimeUserData,
+    AutoTrackSettings,
+    CustomList,
+    TileOrder,
+    Folder,
+    FolderOrder,
+    HiddenAnime,
+    HideRule,
+} from "@/commons/models";
+import { MAX_SCORE, MIN_SCORE, StorageKeys } from "@/commons/models";
+import { HideRuleRepository, SettingsRepository } from "@/commons/repositories";
 import { AnimeService } from "@/commons/services";
 import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
-import { selectAdapter, type SiteAdapter } from "@/content/adapters";
+import { describeHideRule, findMatchingHideRule } from "@/commons/utils/hideRules";
+import { parseAnimeItemKey } from "@/commons/utils/storageKeys";
+import {
+    loadCustomAdapters,
+    selectAdapter,
+    type PlaybackProgress,
+    type SiteAdapter,
+    type WatchPageAdapter,
+} from "@/content/adapters";
 
 /**
  * Content script for anime website integration
@@ -34,13 +55,6 @@ console.log("AnimeList content script loaded");
 // Initialize the anime service
 const animeService = new AnimeService();
 
-// Poster backfill writes are serialized through this chain. Episode progress
-// is stored as a single record, and updatePosterUrl does a read-modify-write
-// on it — concurrent backfills (initial page scan, MutationObserver batches)
-// would interleave those whole-record writes and drop each other's updates.
-// updatePosterUrl swallows its own errors, so the chain never rejects.
-let posterBackfillQueue: Promise<void> = Promise.resolve();
-
 // Resolve the active site adapter. When no adapter matches, the script self-disables.
 let activeAdapter: SiteAdapter | null = null;
 try {
@@ -69,6 +83,148 @@ const TILE_CLASS = "anime-list-tile";
 // Cache for anime data extracted from DOM
 const animeDataCache = new Map<string, AnimeData>();
 
+// Status of each anime rendered on this page. Listing pages fill it with one
+// batched lookup per scan; storage changes evict the affected entries.
+const statusCache = new Map<string, AnimeStatus>();
+
+// Lists kept under a single storage key — a change may affect any anime
+const WHOLE_STATUS_KEYS = new Set<string>([
+    StorageKeys.HIDDEN_ANIME,
+    StorageKeys.COMPLETED,
+    StorageKeys.DROPPED,
+    StorageKeys.ON_HOLD,
+    StorageKeys.ANIME_IDENTITIES,
+]);
+
+/**
+ * Forget every cached status
+ */
+export function clearStatusCache(): void {
+    statusCache.clear();
+}
+
+/**
+ * Evict cached statuses a storage change may have made stale. Per-anime keys
+ * evict just that anime; single-key lists evict everything. So does a change
+ * to an anime not on this page, which may be the entry one shown here was
+ * merged into.
+ */
+export function invalidateStatusCache(changes: Record<string, unknown>, areaName: string): void {
+    if (areaName !== "local") return;
+
+    for (const key of Object.keys(changes)) {
+        const item = parseAnimeItemKey(key);
+        if (item && statusCache.has(item.animeId)) {
+            statusCache.delete(item.animeId);
+        } else if (item || WHOLE_STATUS_KEYS.has(key)) {
+            statusCache.clear();
+            return;
+        }
+    }
+}
+
+/**
+ * Look up every status not cached yet in a single request. Failures are
+ * logged and left to the per-card lookup.
+ */
+async function primeStatusCache(animeIds: string[]): Promise<void> {
+    const missing = [...new Set(animeIds)].filter((animeId) => !statusCache.has(animeId));
+    if (missing.length === 0) return;
+
+    try {
+        const statuses = await animeService.getAnimeStatuses(missing);
+        Object.entries(statuses).forEach(([animeId, status]) => statusCache.set(animeId, status));
+    } catch (error) {
+        console.warn("[ContentScript] Batched status lookup failed:", error);
+    }
+}
+
+/**
+ * Cached status for a card, falling back to a single lookup on a miss
+ */
+async function getCachedStatus(animeId: string): Promise<AnimeStatus> {
+    const cached = statusCache.get(animeId);
+    if (cached) return cached;
+
+    const status = await animeService.getAnimeStatus(animeId);
+    statusCache.set(animeId, status);
+    return status;
+}
+
+const hideRuleRepository = new HideRuleRepository();
+
+// Hide rules, read once per page and dropped when they change in storage. The
+// pending read is cached so one that finishes after an edit cannot bring the
+// old rules back.
+let hideRulesCache: Promise<HideRule[]> | null = null;
+
+// Tiles the user chose to see despite a matching rule, until the page reloads
+const revealedTiles = new WeakSet<Element>();
+
+/**
+ * The user's hide rules. A failed read counts as no rules, so listings still
+ * get their controls.
+ */
+async function getHideRules(): Promise<HideRule[]> {
+    if (!hideRulesCache) {
+        const pending = hideRuleRepository.findAll();
+        hideRulesCache = pending;
+        // A failed read is retried on the next lookup
+        pending.catch(() => {
+            if (hideRulesCache === pending) hideRulesCache = null;
+        });
+    }
+    try {
+        return await hideRulesCache;
+    } catch (error) {
+        console.warn("[ContentScript] Failed to load hide rules:", error);
+        return [];
+    }
+}
+
+/**
+ * Forget the cached hide rules when they are edited on the options page, and
+ * check the listing against the new rules
+ */
+export function invalidateHideRules(changes: Record<string, unknown>, areaName: string): void {
+    if (areaName === "local" && StorageKeys.HIDE_RULES in changes) {
+        hideRulesCache = null;
+        void reapplyHideRules();
+    }
+}
+
+/**
+ * Re-run the rule check on tiles a rule collapsed and on clean tiles, the only
+ * ones a rule can apply to. Removing or disabling a rule restores its tiles,
+ * and adding one collapses the clean tiles it matches.
+ */
+async function reapplyHideRules(): Promise<void> {
+    if (!SELECTORS.ITEM) return;
+    try {
+        const cards = document.querySelectorAll(SELECTORS.ITEM);
+        if (cards.length === 0) return;
+
+        const rules = await getHideRules();
+        for (const card of cards) {
+            const tile = (activeAdapter?.getTileElement?.(card) ?? card) as HTMLElement;
+            if (tile.classList.contains("anime-rule-hidden")) {
+                tile.querySelector(".anime-list-rule-notice")?.remove();
+                tile.classList.remove("anime-rule-hidden");
+            } else {
+                const controls = card.querySelector(".anime-list-controls.clean-state");
+                const animeData = controls ? extractAnimeData(card) : null;
+                if (!animeData || revealedTiles.has(tile) || !findMatchingHideRule(rules, animeData.animeTitle)) {
+                    continue;
+                }
+                controls?.remove();
+            }
+            await addControlsToItem(card);
+        }
+    } catch (error) {
+        console.error("Error re-applying hide rules:", error);
+    }
+}
+
 /**
  * Resolve the user-visible tile for a given card and tag it with the shared
  * sentinel class. Adapters may opt into a wrapper element (e.g. Animetsu's
@@ -92,6 +248,9 @@ function resolveTile(card: Element): HTMLElement {
     return tile;
 }
 
+// Lists reached by finishing, abandoning or pausing a series
+type StatusList = "completed" | "dropped" | "onHold";
+
 // Toast notification system
 interface Toast {
     id: string;
@@ -100,6 +259,12 @@ interface Toast {
     element: HTMLDivElement;
 }
 
+// Button shown inside a toast, e.g. "Undo"
+interface ToastAction {
+    label: string;
+    onClick: () => void | Promise<void>;
+}
+
 let toastCounter = 0;
 const activeToasts = new Map<string, Toast>();
 
@@ -107,28 +272,70 @@ const activeToasts = new Map<string, Toast>();
  * Business rule validation functions
  */
 
+/**
+ * Check if anime sits in one of the completed / dropped / on-hold lists
+ */
+function isInStatusList(status: AnimeStatus): boolean {
+    return Boolean(status.isCompleted || status.isDropped || status.isOnHold);
+}
+
 /**
  * Check if anime can be added to plan list
- * Only if not planned, not watching, and not hidden
+ * Only if not planned, not watching, not hidden and not in a status list
  */
 export function canAddToPlan(status: AnimeStatus): boolean {
-    return !status.isPlanned && !status.isTracked && !status.isHidden;
+    return !status.isPlanned && !status.isTracked && !status.isHidden && !isInStatusList(status);
 }
 
 /**
  * Check if anime can start watching
- * Only if not already watching and not hidden
+ * Only if not already watching, not hidden and not in a status list
+ * (on-hold and dropped anime are resumed instead)
  */
 export function canStartWatching(status: AnimeStatus): boolean {
-    return !status.isTracked && !status.isHidden;
+    return !status.isTracked && !status.isHidden && !isInStatusList(status);
 }
 
 /**
  * Check if anime can be hidden
- * Only if not planned and not watching
+ * Only if not planned, not watching and not in a status list
  */
 export function canHide(status: AnimeStatus): boolean {
-    return !status.isPlanned && !status.isTracked;
+    return !status.isPlanned && !status.isTracked && !isInStatusList(status);
+}
+
+/**
+ * Whether a hidden record lacks details its tile shows: records stored with
+ * only an id use it as the title, and older ones have no poster
+ */
+export function needsHiddenDetails(record: HiddenAnime, animeData: AnimeData): boolean {
+    const hasPlaceholderTitle = record.animeTitle === record.animeId || record.animeTitle === record.animeSlug;
+    if (hasPlaceholderTitle && animeData.animeTitle && animeData.animeTitle !== record.animeTitle) return true;
+    return !record.posterUrl && Boolean(animeData.posterUrl);
+}
+
+/**
+ * Check if anime can be marked as completed or dropped
+ * Only if currently watching or on hold
+ */
+export function canFinish(status: AnimeStatus): boolean {
+    return status.isTracked || Boolean(status.isOnHold);
+}
+
+/**
+ * Check if anime can be put on hold
+ * Only if currently watching
+ */
+export function canPutOnHold(status: AnimeStatus): boolean {
+    return status.isTracked;
+}
+
+/**
+ * Check if anime can be resumed
+ * Only if on hold or dropped
+ */
+export function canResume(status: AnimeStatus): boolean {
+    return Boolean(status.isOnHold || status.isDropped);
 }
 
 /**
@@ -150,7 +357,7 @@ export function canStopWatching(status: AnimeStatus): boolean {
 /**
  * Toast notification system
  */
-export function showToast(message: string, type: "success" | "error" | "info"): void {
+export function showToast(message: string, type: "success" | "error" | "info", action?: ToastAction): void {
     // Skip toast creation in test environment
     if (typeof window === "undefined" || !window.document || (globalThis as any).vitest) {
         return;
@@ -164,6 +371,19 @@ export function showToast(message: string, type: "success" | "error" | "info"):
     toast.setAttribute("data-toast-id", toastId);
     toast.textContent = message;
 
+    if (action) {
+        const actionButton = document.createElement("button");
+        actionButton.className = "anime-list-toast-action";
+        actionButton.setAttribute("data-testid", "anime-toast-action");
+        actionButton.textContent = action.label;
+        actionButton.addEventListener("click", () => {
+            removeToast(toastId);
+            void action.onClick();
+        });
+        toast.classList.add("anime-list-toast-with-action");
+        toast.appendChild(actionButton);
+    }
+
     // Position toast in top-right corner
     toast.style.position = "fixed";
     toast.style.top = `${16 + activeToasts.size * 70}px`; // Stack toasts
@@ -182,10 +402,13 @@ export function showToast(message: string, type: "success" | "error" | "info"):
     };
     activeToasts.set(toastId, toastData);
 
-    // Auto-dismiss after 4 seconds
-    setTimeout(() => {
-        removeToast(toastId);
-    }, 4000);
+    // Auto-dismiss after 4 seconds, longer when there is an action to reach for
+    setTimeout(
+        () => {
+            removeToast(toastId);
+        },
+        action ? 8000 : 4000,
+    );
 
     // Add slide-in animation
     toast.style.transform = "translateX(100%)";
@@ -516,6 +739,99 @@ export function createClearHiddenButton(): HTMLButtonElement {
     return button;
 }
 
+/**
+ * Create the Done / Hold / Drop row shown under the episode controls
+ */
+export function createStatusActionButtons(animeData: AnimeData): HTMLDivElement {
+    const container = document.createElement("div");
+    container.className = "anime-list-status-actions";
+    container.setAttribute("data-testid", "anime-status-actions");
+    container.setAttribute("data-anime-id", animeData.animeId);
+
+    container.innerHTML = `
+        <button class="anime-list-status-btn status-complete" data-testid="anime-complete-button" title="Mark as completed">✅</button>
+        <button class="anime-list-status-btn status-hold" data-testid="anime-hold-button" title="Put on hold">⏸️</button>
+        <button class="anime-list-status-btn status-drop" data-testid="anime-drop-button" title="Drop">✖️</button>
+    `;
+
+    const completeBtn = container.querySelector(".status-complete") as HTMLButtonElement;
+    const holdBtn = container.querySelector(".status-hold") as HTMLButtonElement;
+    const dropBtn = container.querySelector(".status-drop") as HTMLButtonElement;
+
+    completeBtn.addEventListener("click", async (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        await handleCompleteClick(animeData);
+    });
+
+    holdBtn.addEventListener("click", async (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        await handlePutOnHoldClick(animeData);
+    });
+
+    dropBtn.addEventListener("click", async (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        await handleDropClick(animeData);
+    });
+
+    return container;
+}
+
+/**
+ * Create Resume button for on-hold / dropped anime
+ */
+export function createResumeButton(animeData: AnimeData, episodeNumber: number): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.className = "anime-list-resume-btn";
+    button.setAttribute("data-testid", "anime-resume-button");
+    button.setAttribute("data-anime-id", animeData.animeId);
+    button.setAttribute("title", `Resume "${animeData.animeTitle}" from episode ${episodeNumber}`);
+    button.innerHTML = `
+        <span class="button-icon">▶️</span>
+        <span class="button-text">Resume Ep ${episodeNumber}</span>
+    `;
+
+    button.addEventListener("click", async (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        await handleResumeClick(animeData);
+    });
+
+    return button;
+}
+
+/**
+ * Create the badge + remove button shown for completed / dropped / on-hold anime
+ */
+export function createStatusListControls(animeData: AnimeData, list: StatusList): HTMLDivElement {
+    const labels: Record<StatusList, { icon: string; text: string }> = {
+        completed: { icon: "✅", text: "Completed" },
+        dropped: { icon: "✖️", text: "Dropped" },
+        onHold: { icon: "⏸️", text: "On Hold" },
+    };
+
+    const container = document.createElement("div");
+    container.className = `anime-list-status-badge status-${list}`;
+    container.setAttribute("data-testid", "anime-status-badge");
+    container.setAttribute("data-anime-id", animeData.animeId);
+    container.innerHTML = `
+        <span class="button-icon">${labels[list].icon}</span>
+        <span class="button-text">${labels[list].text}</span>
+        <button class="status-remove-btn" data-testid="anime-status-remove-button" title="Remove from ${labels[list].text}">✕</button>
+    `;
+
+    const removeBtn = container.querySelector(".status-remove-btn") as HTMLButtonElement;
+    removeBtn.addEventListener("click", async (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        await handleRemoveFromStatusListClick(animeData, list);
+    });
+
+    return container;
+}
+
 /**
  * Handler functions for button actions
  */
@@ -713,6 +1029,150 @@ export async function handleRemovePlanClick(animeData: AnimeData): Promise<void>
     }
 }
 
+/**
+ * Handle Done button click (watching / on-hold -> completed)
+ */
+export async function handleCompleteClick(animeData: AnimeData): Promise<void> {
+    try {
+        const status = await animeService.getAnimeStatus(animeData.animeId);
+
+        if (!canFinish(status)) {
+            showToast("Anime is not being watched", "error");
+            return;
+        }
+
+        const result = await animeService.completeAnime(animeData.animeId);
+
+        if (result.success) {
+            showToast(`Completed "${animeData.animeTitle}"`, "success");
+            notifyAnimeStateChange(StorageKeys.COMPLETED, animeData.animeId);
+            notifyAnimeStateChange(
+                status.isOnHold ? StorageKeys.ON_HOLD : StorageKeys.EPISODE_PROGRESS,
+                animeData.animeId,
+            );
+            await refreshAnimeControls(animeData.animeId);
+        } else {
+            showToast(result.message, "error");
+        }
+    } catch (error) {
+        console.error("Error handling complete click:", error);
+        showToast("Error occurred while completing anime", "error");
+    }
+}
+
+/**
+ * Handle Drop button click (watching / on-hold -> dropped)
+ */
+export async function handleDropClick(animeData: AnimeData): Promise<void> {
+    try {
+        const status = await animeService.getAnimeStatus(animeData.animeId);
+
+        if (!canFinish(status)) {
+            showToast("Anime is not being watched", "error");
+            return;
+        }
+
+        const result = await animeService.dropAnime(animeData.animeId);
+
+        if (result.success) {
+            showToast(`Dropped "${animeData.animeTitle}"`, "info");
+            notifyAnimeStateChange(StorageKeys.DROPPED, animeData.animeId);
+            notifyAnimeStateChange(
+                status.isOnHold ? StorageKeys.ON_HOLD : StorageKeys.EPISODE_PROGRESS,
+                animeData.animeId,
+            );
+            await refreshAnimeControls(animeData.animeId);
+        } else {
+            showToast(result.message, "error");
+        }
+    } catch (error) {
+        console.error("Error handling drop click:", error);
+        showToast("Error occurred while dropping anime", "error");
+    }
+}
+
+/**
+ * Handle Hold button click (watching -> on-hold)
+ */
+export async function handlePutOnHoldClick(animeData: AnimeData): Promise<void> {
+    try {
+        const status = await animeService.getAnimeStatus(animeData.animeId);
+
+        if (!canPutOnHold(status)) {
+            showToast("Anime is not currently being watched", "error");
+            return;
+        }
+
+        const result = await animeService.putOnHold(animeData.animeId);
+
+        if (result.success) {
+            showToast(`Put "${animeData.animeTitle}" on hold`, "info");
+            notifyAnimeStateChange(StorageKeys.ON_HOLD, animeData.animeId);
+            notifyAnimeStateChange(StorageKeys.EPISODE_PROGRESS, animeData.animeId);
+            await refreshAnimeControls(animeData.animeId);
+        } else {
+            showToast(result.message, "error");
+        }
+    } catch (error) {
+        console.error("Error handling put on hold click:", error);
+        showToast("Error occurred while pausing anime", "error");
+    }
+}
+
+/**
+ * Handle Resume button click (on-hold / dropped -> watching)
+ */
+export async function handleResumeClick(animeData: AnimeData): Promise<void> {
+    try {
+        const status = await animeService.getAnimeStatus(animeData.animeId);
+
+        if (!canResume(status)) {
+            showToast("Anime is not on hold or dropped", "error");
+            return;
+        }
+
+        const result = await animeService.resumeWatching(animeData.animeId);
+
+        if (result.success) {
+            showToast(result.message, "success");
+            notifyAnimeStateChange(StorageKeys.EPISODE_PROGRESS, animeData.animeId);
+            notifyAnimeStateChange(status.isOnHold ? StorageKeys.ON_HOLD : StorageKeys.DROPPED, animeData.animeId);
+            await refreshAnimeControls(animeData.animeId);
+        } else {
+            showToast(result.message, "error");
+        }
+    } catch (error) {
+        console.error("Error handling resume click:", error);
+        showToast("Error occurred while resuming anime", "error");
+    }
+}
+
+/**
+ * Handle the remove button on a completed / dropped / on-hold badge
+ */
+export async function handleRemoveFromStatusListClick(animeData: AnimeData, list: StatusList): Promise<void> {
+    try {
+        const removals = {
+            completed: { run: () => animeService.removeFromCompleted(animeData.animeId), key: StorageKeys.COMPLETED },
+            dropped: { run: () => animeService.removeFromDropped(animeData.animeId), key: StorageKeys.DROPPED },
+            onHold: { run: () => animeService.removeFromOnHold(animeData.animeId), key: StorageKeys.ON_HOLD },
+        };
+
+        const result = await removals[list].run();
+
+        if (result.success) {
+            showToast(result.message, "info");
+            notifyAnimeStateChange(removals[list].key, animeData.animeId);
+            await refreshAnimeControls(animeData.animeId);
+        } else {
+            showToast(result.message, "error");
+        }
+    } catch (error) {
+        console.error("Error handling status list removal:", error);
+        showToast("Error occurred", "error");
+    }
+}
+
 /**
  * Refresh anime controls after state change
  */
@@ -728,7 +1188,9 @@ async function refreshAnimeControls(animeId: string): Promise<void> {
             existingControls.remove();
         }
 
-        // Re-add controls with updated state
+        // Re-add controls with updated state; the action just changed it, so
+        // do not wait for the storage change event to evict the old status
+        statusCache.delete(animeId);
         await addControlsToItem(animeItem);
     } catch (error) {
         console.error("Error refreshing anime controls:", error);
@@ -809,7 +1271,7 @@ export async function handleHideClick(animeData: AnimeData, button: HTMLButtonEl
         }
 
         // Add to hidden list
-        const result = await animeService.hideAnime(animeData.animeId);
+        const result = await animeService.hideAnime(animeData);
 
         if (result.success) {
             // Find the card, resolve its tile (the slot wrapper on adapters
@@ -881,28 +1343,39 @@ export async function addControlsToItem(element: Element): Promise<void> {
         // HiAnime).
         const tile = resolveTile(element);
 
-        // Get unified anime status
-        const status = await animeService.getAnimeStatus(animeData.animeId);
+        // Get unified anime status (usually prefetched by the batched lookup)
+        const status = await getCachedStatus(animeData.animeId);
 
         // Opportunistic poster backfill for entries created before posters
         // were captured. Uses the (cached) extraction result — no extra DOM
         // query — and only ever writes when the stored entry has no poster,
-        // so this fires at most once per legacy anime. Fire-and-forget from
-        // this function's perspective, but queued through posterBackfillQueue
-        // so read-modify-write cycles on the shared progress record never
-        // overlap and clobber each other.
+        // so this fires at most once per legacy anime. Fire-and-forget: the
+        // background worker serializes the write with other progress updates.
         if (status.isTracked && status.progress && !status.progress.posterUrl && animeData.posterUrl) {
-            const { animeId, posterUrl } = animeData;
-            posterBackfillQueue = posterBackfillQueue.then(() => animeService.updatePosterUrl(animeId, posterUrl));
+            void animeService.updatePosterUrl(animeData.animeId, animeData.posterUrl);
         }
 
         // Handle hidden anime - no controls shown, the entire tile is hidden
         if (status.isHidden) {
+            // Records migrated from the old id list only know the id; fill
+            // in what the tile shows, as the poster backfill does
+            if (status.hidden && needsHiddenDetails(status.hidden, animeData)) {
+                void animeService.updateHiddenDetails(animeData);
+            }
             tile.classList.add("anime-hidden");
             tile.style.display = "none";
             return;
         }
 
+        // Hide rules only apply where hiding by hand would, so anime on a list always keep their controls
+        if (canHide(status) && !revealedTiles.has(tile)) {
+            const rule = findMatchingHideRule(await getHideRules(), animeData.animeTitle);
+            if (rule) {
+                collapseRuleHiddenTile(element, tile, rule);
+                return;
+            }
+        }
+
         // Create controls container
         const controlsContainer = document.createElement("div");
         controlsContainer.className = "anime-list-controls";
@@ -919,10 +1392,25 @@ export async function addControlsToItem(element: Element): Promise<void> {
                 );
 
                 controlsContainer.appendChild(combinedWatchingControls);
+                controlsContainer.appendChild(createStatusActionButtons(animeData));
 
                 // Add visual indicator for watching state
                 controlsContainer.classList.add("watching-state");
             }
+        } else if (status.isOnHold || status.isDropped) {
+            // On hold / Dropped: status badge + Resume from the saved episode
+            const list: StatusList = status.isOnHold ? "onHold" : "dropped";
+            const savedEpisode = (status.onHold ?? status.dropped)?.currentEpisode ?? 1;
+
+            controlsContainer.appendChild(createStatusListControls(animeData, list));
+            controlsContainer.appendChild(createResumeButton(animeData, savedEpisode));
+
+            controlsContainer.classList.add(status.isOnHold ? "on-hold-state" : "dropped-state");
+        } else if (status.isCompleted) {
+            // Completed: status badge only
+            controlsContainer.appendChild(createStatusListControls(animeData, "completed"));
+
+            controlsContainer.classList.add("completed-state");
         } else if (status.isPlanned) {
             // Planned: Start Watching + Remove Plan (NO HIDE button)
             const startWatchingButton = createStartWatchingButton(animeData);
@@ -955,6 +1443,40 @@ export async function addControlsToItem(element: Element): Promise<void> {
     }
 }
 
+/**
+ * Collapse a tile a hide rule matched, leaving a notice that names the rule
+ * and a button to show the tile with its controls after all
+ */
+function collapseRuleHiddenTile(card: Element, tile: HTMLElement, rule: HideRule): void {
+    if (tile.querySelector(".anime-list-rule-notice")) return;
+    tile.classList.add("anime-rule-hidden");
+
+    const notice = document.createElement("div");
+    notice.className = "anime-list-rule-notice";
+    notice.setAttribute("data-testid", "anime-rule-notice");
+
+    const label = document.createElement("span");
+    label.textContent = `Hidden by rule ${describeHideRule(rule)}`;
+
+    const revealButton = document.createElement("button");
+    revealButton.type = "button";
+    revealButton.className = "anime-list-rule-reveal";
+    revealButton.setAttribute("data-testid", "anime-rule-reveal");
+    revealButton.textContent = "Show";
+    revealButton.addEventListener("click", (event) => {
+        // Tiles are often links; showing one must not open it
+        event.preventDefault();
+        event.stopPropagation();
+        revealedTiles.add(tile);
+        notice.remove();
+        tile.classList.remove("anime-rule-hidden");
+        void addControlsToItem(card);
+    });
+
+    notice.append(label, revealButton);
+    tile.appendChild(notice);
+}
+
 /**
  * Add Clear Hidden button to the list container
  */
@@ -994,6 +1516,9 @@ export async function initializeControls(): Promise<void> {
         const items = container.querySelectorAll(SELECTORS.ITEM);
         console.log(`Found ${items.length} anime items`);
 
+        // Resolve every card's status in one request before rendering
+        await primeStatusCache(collectAnimeIds(items));
+
         // Add controls to each item
         for (const item of items) {
             await addControlsToItem(item);
@@ -1008,6 +1533,31 @@ export async function initializeControls(): Promise<void> {
     }
 }
 
+/**
+ * Anime ids of the given cards, skipping ones without usable data
+ */
+function collectAnimeIds(items: Iterable<Element>): string[] {
+    const animeIds: string[] = [];
+    for (const item of items) {
+        const animeData = extractAnimeData(item);
+        if (animeData) animeIds.push(animeData.animeId);
+    }
+    return animeIds;
+}
+
+/**
+ * Add controls to cards inserted after the initial scan, resolving their
+ * statuses in one request first. Cards loaded while drag mode is on are made
+ * draggable like the rest.
+ */
+export async function addControlsToItems(items: Element[]): Promise<void> {
+    await primeStatusCache(collectAnimeIds(items));
+    for (const item of items) {
+        await addControlsToItem(item);
+        if (dragModeEnabled) makeTileDraggable(resolveTile(item));
+    }
+}
+
 /**
  * Observe DOM changes and add controls to new items
  */
@@ -1015,32 +1565,24 @@ export function setupObserver(): void {
     const observer = new MutationObserver((mutations) => {
         const itemSelector = SELECTORS.ITEM;
         if (!itemSelector) return;
+        const addedItems: Element[] = [];
         for (const mutation of mutations) {
             if (mutation.type === "childList") {
-                // Handle added nodes
+                // Collect added anime items; their controls are added below
+                // once all their statuses are fetched in one request
                 mutation.addedNodes.forEach((node) => {
                     if (node.nodeType === Node.ELEMENT_NODE) {
                         const element = node as Element;
 
                         // Check if the added node is an anime item
                         if (element.matches(itemSelector)) {
-                            addControlsToItem(element);
-                            // Make draggable if drag mode is active
-                            if (dragModeEnabled) {
-                                makeTileDraggable(resolveTile(element));
-                            }
+                            addedItems.push(element);
                         }
 
                         // Check if the added node contains anime items
                         const items = element.querySelectorAll?.(itemSelector);
                         if (items) {
-                            items.forEach((item) => {
-                                addControlsToItem(item);
-                                // Make draggable if drag mode is active
-                                if (dragModeEnabled) {
-                                    makeTileDraggable(resolveTile(item));
-                                }
-                            });
+                            items.forEach((item) => addedItems.push(item));
                         }
                     }
                 });
@@ -1067,6 +1609,10 @@ export function setupObserver(): void {
                 });
             }
         }
+
+        if (addedItems.length > 0) {
+            void addControlsToItems(addedItems);
+        }
     });
 
     // Start observing
@@ -1107,12 +1653,26 @@ function injectStyles(): void {
             border-left: 3px solid transparent;
         }
 
+        .anime-list-controls.completed-state {
+            border-left: 3px solid #22c55e; /* Bright green for completed */
+        }
+
+        .anime-list-controls.on-hold-state {
+            border-left: 3px solid #eab308; /* Yellow for on hold */
+        }
+
+        .anime-list-controls.dropped-state {
+            border-left: 3px solid #ef4444; /* Red for dropped */
+        }
+
         /* Base button styles */
         .anime-list-plan-btn,
         .anime-list-hide-btn,
         .anime-list-start-watching-btn,
         .anime-list-stop-watching-btn,
-        .anime-list-remove-plan-btn {
+        .anime-list-remove-plan-btn,
+        .anime-list-resume-btn,
+        .anime-list-status-badge {
             display: flex;
             align-items: center;
             gap: 4px;
@@ -1183,6 +1743,87 @@ function injectStyles(): void {
             color: white;
         }
 
+        /* Resume button */
+        .anime-list-resume-btn {
+            background: rgba(16, 185, 129, 0.2);
+            border-color: rgba(16, 185, 129, 0.3);
+            color: rgb(167, 243, 208);
+        }
+
+        .anime-list-resume-btn:hover {
+            background: rgba(16, 185, 129, 0.3);
+            border-color: rgba(16, 185, 129, 0.5);
+            color: white;
+        }
+
+        /* Completed / Dropped / On Hold badge */
+        .anime-list-status-badge {
+            cursor: default;
+        }
+
+        .anime-list-status-badge.status-completed {
+            background: rgba(34, 197, 94, 0.2);
+            border-color: rgba(34, 197, 94, 0.3);
+            color: rgb(187, 247, 208);
+        }
+
+        .anime-list-status-badge.status-onHold {
+            background: rgba(234, 179, 8, 0.2);
+            border-color: rgba(234, 179, 8, 0.3);
+            color: rgb(254, 240, 138);
+        }
+
+        .anime-list-status-badge.status-dropped {
+            background: rgba(239, 68, 68, 0.2);
+            border-color: rgba(239, 68, 68, 0.3);
+            color: rgb(252, 165, 165);
+        }
+
+        .anime-list-status-badge .status-remove-btn {
+            margin-left: 4px;
+            padding: 0 4px;
+            background: transparent;
+            border: none;
+            color: inherit;
+            font-size: 10px;
+            cursor: pointer;
+            opacity: 0.7;
+        }
+
+        .anime-list-status-badge .status-remove-btn:hover {
+            opacity: 1;
+        }
+
+        /* Done / Hold / Drop row - revealed on hover like the stop button */
+        .anime-list-status-actions {
+            display: flex;
+            gap: 3px;
+            max-height: 0;
+            opacity: 0;
+            overflow: hidden;
+            transition: all 0.3s ease;
+        }
+
+        .anime-list-controls.watching-state:hover .anime-list-status-actions {
+            max-height: 24px;
+            opacity: 1;
+        }
+
+        .anime-list-status-btn {
+            flex: 1;
+            padding: 2px 6px;
+            background: rgba(255, 255, 255, 0.1);
+            border: 1px solid rgba(255, 255, 255, 0.2);
+            border-radius: 5px;
+            font-size: 9px;
+            cursor: pointer;
+            transition: all 0.2s ease;
+        }
+
+        .anime-list-status-btn:hover {
+            background: rgba(255, 255, 255, 0.25);
+        }
+
         /* Watching Controls */
         .anime-list-watching-controls {
             display: flex;
@@ -1377,6 +2018,25 @@ function injectStyles(): void {
             word-wrap: break-word;
         }
 
+        .anime-list-toast-with-action {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            pointer-events: auto;
+        }
+
+        .anime-list-toast-action {
+            flex-shrink: 0;
+            padding: 4px 10px;
+            border-radius: 6px;
+            border: 1px solid currentColor;
+            background: transparent;
+            color: inherit;
+            font-size: 12px;
+            font-weight: 600;
+            cursor: pointer;
+        }
+
         .anime-list-toast-success {
             background: rgba(16, 185, 129, 0.2);
             border: 1px solid rgba(16, 185, 129, 0.4);
@@ -1448,6 +2108,38 @@ function injectStyles(): void {
             transition: all 0.3s ease;
         }
 
+        .anime-rule-hidden > :not(.anime-list-rule-notice) {
+            display: none !important;
+        }
+
+        .anime-list-rule-notice {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            gap: 8px;
+            padding: 8px 12px;
+            border: 1px dashed rgba(255, 255, 255, 0.25);
+            border-radius: 12px;
+            background: rgba(0, 0, 0, 0.35);
+            backdrop-filter: blur(8px);
+            color: rgba(255, 255, 255, 0.7);
+            font-size: 12px;
+        }
+
+        .anime-list-rule-reveal {
+            padding: 4px 10px;
+            border: 1px solid rgba(255, 255, 255, 0.2);
+            border-radius: 8px;
+            background: rgba(255, 255, 255, 0.1);
+            color: white;
+            font-size: 12px;
+            cursor: pointer;
+        }
+
+        .anime-list-rule-reveal:hover {
+            background: rgba(255, 255, 255, 0.2);
+        }
+
         .anime-list-feedback {
             padding: 8px 12px;
             border-radius: 8px;
@@ -1858,6 +2550,10 @@ export async function init(): Promise<void> {
         // Inject styles
         injectStyles();
 
+        // Keep cached statuses in step with changes made from other tabs or the dashboard
+        chrome.storage?.onChanged?.addListener(invalidateStatusCache);
+        chrome.storage?.onChanged?.addListener(invalidateHideRules);
+
         // Initialize controls
         await initializeControls();
 
@@ -1920,11 +2616,7 @@ export function isWatchPage(): boolean {
 export function extractSinglePageAnimeData(): AnimeData | null {
     try {
         if (!activeAdapter?.watchPage) return null;
-        const animeData = activeAdapter.watchPage.extractAnime();
-        if (animeData) {
-            console.log("Extracted anime data from watch page:", animeData);
-        }
-        return animeData;
+        return activeAdapter.watchPage.extractAnime();
     } catch (error) {
         console.error("Error extracting anime data:", error);
         return null;
@@ -2009,16 +2701,31 @@ async function openSinglePageModal(animeData: AnimeData): Promise<void> {
             }
         }
 
-        // Debug logging
-        console.log("Single Page Modal Debug:");
-        console.log("Anime Data:", animeData);
-        console.log("Anime Status:", status);
-        console.log("Is Tracked:", status.isTracked);
-        console.log("Is Planned:", status.isPlanned);
-        console.log("Is Hidden:", status.isHidden);
-        console.log("Progress:", status.progress);
+        // Lists are optional extras; the modal still opens without them
+        const customLists = await getSinglePageAnimeService()
+            .getCustomLists()
+            .catch((error) => {
+                console.warn("Failed to load custom lists:", error);
+                return [];
+            });
+
+        // Notes and list entries are keyed by the canonical id, which differs from the page's for a
+        // merged alias. Status records carry it; otherwise the details lookup resolves it.
+        const recordId =
+            (status.progress ?? status.plan ?? status.completed ?? status.dropped ?? status.onHold)?.animeId ??
+            (await getSinglePageAnimeService()
+                .getAnimeDetails(animeData.animeId)
+                .then((details) => details.animeId)
+                .catch(() => animeData.animeId));
+        const userData = await getSinglePageAnimeService()
+            .getUserData()
+            .then((all) => all[recordId])
+            .catch((error) => {
+                console.warn("Failed to load rating and notes:", error);
+                return undefined;
+            });
 
-        showSinglePageModal(animeData, status);
+        showSinglePageModal(animeData, status, customLists, userData, recordId);
     } catch (error) {
         console.error("Error opening modal:", error);
         showToast("Error loading anime information", "error");
@@ -2027,8 +2734,16 @@ async function openSinglePageModal(animeData: AnimeData): Promise<void> {
 
 /**
  * Show the modal
+ *
+ * `recordId` is the canonical id stored lists use for this anime, when it differs from the page's.
  */
-export function showSinglePageModal(animeData: AnimeData, status: AnimeStatus): void {
+export function showSinglePageModal(
+    animeData: AnimeData,
+    status: AnimeStatus,
+    customLists: CustomList[] = [],
+    userData?: AnimeUserData,
+    recordId: string = animeData.animeId,
+): void {
     if (singlePageModalElement) {
         closeSinglePageModal();
     }
@@ -2218,6 +2933,9 @@ export function showSinglePageModal(animeData: AnimeData, status: AnimeStatus):
         }
     });
 
+    const listsSection = customLists.length > 0 ? createCustomListSection(animeData, customLists, recordId) : null;
+    const userDataSection = createUserDataSection(animeData, userData);
+
     // Close button
     const closeButton = document.createElement("button");
     closeButton.textContent = "Close";
@@ -2236,6 +2954,10 @@ export function showSinglePageModal(animeData: AnimeData, status: AnimeStatus):
     modalContent.appendChild(title);
     modalContent.appendChild(statusText);
     modalContent.appendChild(actionsContainer);
+    if (listsSection) {
+        modalContent.appendChild(listsSection);
+    }
+    modalContent.appendChild(userDataSection);
     modalContent.appendChild(closeButton);
     singlePageModalElement.appendChild(modalContent);
 
@@ -2261,6 +2983,163 @@ export function showSinglePageModal(animeData: AnimeData, status: AnimeStatus):
     }, 10);
 }
 
+/**
+ * Checkboxes adding the anime to or removing it from each user list. Lists
+ * are independent of the watch status, so toggling one leaves the modal open.
+ */
+function createCustomListSection(animeData: AnimeData, customLists: CustomList[], recordId: string): HTMLElement {
+    const section = document.createElement("div");
+    section.className = "modal-custom-lists";
+    section.style.cssText = "margin-bottom: 1.5rem;";
+
+    const heading = document.createElement("h3");
+    heading.textContent = "Your Lists";
+    heading.style.cssText = "margin: 0 0 0.5rem 0; font-size: 1rem; opacity: 0.8;";
+    section.appendChild(heading);
+
+    customLists.forEach((list) => {
+        const label = document.createElement("label");
+        label.style.cssText = "display: flex; align-items: center; gap: 8px; padding: 4px 0; cursor: pointer;";
+
+        const checkbox = document.createElement("input");
+        checkbox.type = "checkbox";
+        checkbox.className = "modal-custom-list-checkbox";
+        checkbox.dataset.listId = list.id;
+        checkbox.checked = list.entries.some((entry) => entry.animeId === recordId);
+        checkbox.addEventListener("change", () => toggleCustomList(checkbox, list.id, animeData));
+
+        const name = document.createElement("span");
+        name.textContent = list.name;
+
+        label.appendChild(checkbox);
+        label.appendChild(name);
+        section.appendChild(label);
+    });
+
+    return section;
+}
+
+/**
+ * Add the anime to a user list or take it off, restoring the checkbox if that fails
+ */
+export async function toggleCustomList(
+    checkbox: HTMLInputElement,
+    listId: string,
+    animeData: AnimeData,
+): Promise<void> {
+    const adding = checkbox.checked;
+    checkbox.disabled = true;
+    try {
+        const result = adding
+            ? await getSinglePageAnimeService().addToCustomList(listId, animeData)
+            : await getSinglePageAnimeService().removeFromCustomList(listId, animeData.animeId);
+        if (!result.success) {
+            checkbox.checked = !adding;
+        }
+        showToast(result.message, result.success ? "success" : "error");
+    } catch (error) {
+        console.error("Error updating custom list:", error);
+        checkbox.checked = !adding;
+        showToast("Error updating list", "error");
+    } finally {
+        checkbox.disabled = false;
+    }
+}
+
+/**
+ * Score, tags and notes form. Like the list checkboxes it works whatever the
+ * watch status, and saving leaves the modal open.
+ */
+function createUserDataSection(animeData: AnimeData, userData?: AnimeUserData): HTMLElement {
+    const section = document.createElement("div");
+    section.className = "modal-user-data";
+    section.style.cssText = "margin-bottom: 1.5rem; display: flex; flex-direction: column; gap: 8px;";
+
+    const heading = document.createElement("h3");
+    heading.textContent = "Your Rating & Notes";
+    heading.style.cssText = "margin: 0; font-size: 1rem; opacity: 0.8;";
+
+    const fieldStyle = `
+        width: 100%;
+        box-sizing: border-box;
+        padding: 6px 8px;
+        background: rgba(255, 255, 255, 0.1);
+        color: white;
+        border: 1px solid rgba(255, 255, 255, 0.3);
+        border-radius: 6px;
+        font-size: 14px;
+    `;
+
+    const score = document.createElement("select");
+    score.className = "modal-user-data-score";
+    score.setAttribute("aria-label", "Score");
+    score.style.cssText = fieldStyle;
+    score.appendChild(new Option("Not rated", ""));
+    for (let value = MAX_SCORE; value >= MIN_SCORE; value--) {
+        score.appendChild(new Option(`${value} / ${MAX_SCORE}`, String(value)));
+    }
+    score.value = userData?.score !== undefined ? String(userData.score) : "";
+
+    const tags = document.createElement("input");
+    tags.type = "text";
+    tags.className = "modal-user-data-tags";
+    tags.placeholder = "Tags, separated by commas";
+    tags.setAttribute("aria-label", "Tags");
+    tags.style.cssText = fieldStyle;
+    tags.value = userData?.tags.join(", ") ?? "";
+
+    const notes = document.createElement("textarea");
+    notes.className = "modal-user-data-notes";
+    notes.placeholder = "Notes";
+    notes.setAttribute("aria-label", "Notes");
+    notes.rows = 3;
+    notes.maxLength = 2000;
+    notes.style.cssText = fieldStyle + "resize: vertical;";
+    notes.value = userData?.notes ?? "";
+
+    const saveButton = document.createElement("button");
+    saveButton.className = "modal-user-data-save";
+    saveButton.textContent = "Save";
+    saveButton.style.cssText = `
+        padding: 8px;
+        border: none;
+        border-radius: 6px;
+        cursor: pointer;
+        font-size: 14px;
+        ${getSinglePageButtonStyles("primary")}
+    `;
+    saveButton.addEventListener("click", () => {
+        saveUserData(animeData.animeId, saveButton, {
+            score: score.value ? Number(score.value) : null,
+            tags: tags.value.split(","),
+            notes: notes.value,
+        });
+    });
+
+    section.append(heading, score, tags, notes, saveButton);
+    return section;
+}
+
+/**
+ * Save the rating, tags and notes from the modal and toast the outcome
+ */
+export async function saveUserData(
+    animeId: string,
+    button: HTMLButtonElement,
+    changes: { score: number | null; tags: string[]; notes: string },
+): Promise<void> {
+    button.disabled = true;
+    try {
+        const result = await getSinglePageAnimeService().updateUserData(animeId, changes);
+        showToast(result.message, result.success ? "success" : "error");
+    } catch (error) {
+        console.error("Error saving rating and notes:", error);
+        showToast("Error saving rating and notes", "error");
+    } finally {
+        button.disabled = false;
+    }
+}
+
 /**
  * Get status text for modal display
  */
@@ -2270,6 +3149,9 @@ export function getSinglePageStatusText(status: AnimeStatus): string {
         return `Currently watching - Episode ${status.progress.currentEpisode}`;
     }
     if (status.isTracked) return "Currently watching";
+    if (status.isOnHold) return `On hold - Episode ${status.onHold?.currentEpisode ?? 1}`;
+    if (status.isDropped) return `Dropped - Episode ${status.dropped?.currentEpisode ?? 1}`;
+    if (status.isCompleted) return "Completed";
     if (status.isPlanned) return "Planned to watch";
     return "Not tracked";
 }
@@ -2280,6 +3162,20 @@ export function getSinglePageStatusText(status: AnimeStatus): string {
 export function getSinglePageModalActions(status: AnimeStatus) {
     if (status.isHidden) {
         return [{ type: "unhide", label: "Remove from Hidden", style: "success" }];
+    } else if (status.isOnHold) {
+        return [
+            { type: "resume", label: "Resume Watching", style: "primary" },
+            { type: "complete", label: "Mark as Completed", style: "success" },
+            { type: "drop", label: "Drop", style: "danger" },
+            { type: "removeOnHold", label: "Remove from On Hold", style: "warning" },
+        ];
+    } else if (status.isDropped) {
+        return [
+            { type: "resume", label: "Resume Watching", style: "primary" },
+            { type: "removeDropped", label: "Remove from Dropped", style: "warning" },
+        ];
+    } else if (status.isCompleted) {
+        return [{ type: "removeCompleted", label: "Remove from Completed", style: "warning" }];
     } else if (status.isPlanned) {
         return [
             { type: "removePlan", label: "Remove from Plan", style: "danger" },
@@ -2288,6 +3184,9 @@ export function getSinglePageModalActions(status: AnimeStatus) {
     } else if (status.isTracked) {
         return [
             { type: "episodeControls", label: "Episode Controls", style: "primary" },
+            { type: "complete", label: "Mark as Completed", style: "success" },
+            { type: "putOnHold", label: "Put on Hold", style: "warning" },
+            { type: "drop", label: "Drop", style: "danger" },
             { type: "stopWatching", label: "Stop Watching", style: "danger" },
         ];
     } else {
@@ -2317,7 +3216,20 @@ function getSinglePageButtonStyles(style: string): string {
 }
 
 /**
- * Handle modal action clicks
+ * Show how a status change from the modal went: the success message, or the
+ * reason the background worker refused it. Returns whether it happened.
+ */
+function showSinglePageResult(result: ActionResult, successMessage: string, type: "success" | "info"): boolean {
+    if (result.success) {
+        showToast(successMessage, type);
+    } else {
+        showToast(result.message, "error");
+    }
+    return result.success;
+}
+
+/**
+ * Handle modal action clicks. A refused status change leaves the modal open.
  */
 async function handleSinglePageAction(actionType: string, animeData: AnimeData): Promise<void> {
     try {
@@ -2339,13 +3251,48 @@ async function handleSinglePageAction(actionType: string, animeData: AnimeData):
                 showToast("Stopped watching", "info");
                 break;
             case "hide":
-                await getSinglePageAnimeService().hideAnime(animeData.animeId);
+                await getSinglePageAnimeService().hideAnime(animeData);
                 showToast("Anime hidden", "info");
                 break;
             case "unhide":
                 await getSinglePageAnimeService().unhideAnime(animeData.animeId);
                 showToast("Removed from hidden", "success");
                 break;
+            case "complete": {
+                const result = await getSinglePageAnimeService().completeAnime(animeData.animeId);
+                if (!showSinglePageResult(result, "Marked as completed", "success")) return;
+                break;
+            }
+            case "putOnHold": {
+                const result = await getSinglePageAnimeService().putOnHold(animeData.animeId);
+                if (!showSinglePageResult(result, "Put on hold", "info")) return;
+                break;
+            }
+            case "drop": {
+                const result = await getSinglePageAnimeService().dropAnime(animeData.animeId);
+                if (!showSinglePageResult(result, "Dropped", "info")) return;
+                break;
+            }
+            case "resume": {
+                const result = await getSinglePageAnimeService().resumeWatching(animeData.animeId);
+                if (!showSinglePageResult(result, "Resumed watching", "success")) return;
+                break;
+            }
+            case "removeCompleted": {
+                const result = await getSinglePageAnimeService().removeFromCompleted(animeData.animeId);
+                if (!showSinglePageResult(result, "Removed from completed", "info")) return;
+                break;
+            }
+            case "removeDropped": {
+                const result = await getSinglePageAnimeService().removeFromDropped(animeData.animeId);
+                if (!showSinglePageResult(result, "Removed from dropped", "info")) return;
+                break;
+            }
+            case "removeOnHold": {
+                const result = await getSinglePageAnimeService().removeFromOnHold(animeData.animeId);
+                if (!showSinglePageResult(result, "Removed from on hold", "info")) return;
+                break;
+            }
         }
         closeSinglePageModal();
     } catch (error) {
@@ -2380,13 +3327,11 @@ export async function updateSinglePageEpisode(animeId: string, newEpisode: numbe
 export function closeSinglePageModal(): void {
     if (!singlePageModalElement) return;
 
-    singlePageModalElement.style.opacity = "0";
-    setTimeout(() => {
-        if (singlePageModalElement && singlePageModalElement.parentNode) {
-            singlePageModalElement.parentNode.removeChild(singlePageModalElement);
-            singlePageModalElement = null;
-        }
-    }, 300);
+    // Forget the modal right away so one opened during the fade-out is not removed with it
+    const modal = singlePageModalElement;
+    singlePageModalElement = null;
+    modal.style.opacity = "0";
+    setTimeout(() => modal.remove(), 300);
 }
 
 /**
@@ -2401,6 +3346,356 @@ export function initializeSinglePage(): void {
     }
 }
 
+// =============================================================================
+// AUTOMATIC EPISODE TRACKING
+// =============================================================================
+
+const settingsRepository = new SettingsRepository();
+
+// Anime whose "start tracking" prompt was dismissed in this tab
+const AUTO_TRACK_DISMISSED_PREFIX = "anime-list-autotrack-dismissed:";
+
+// Bumped each time tracking is armed, so a wait for an earlier page gives up
+let autoTrackingRun = 0;
+
+/**
+ * Record the episode of the current watch page when automatic tracking is
+ * enabled. Waits until the player crosses the watched threshold, or for the
+ * dwell time on sites whose player cannot be observed, and gives up if the
+ * user has moved on to another page, or tracking was armed again, by then.
+ */
+export async function initializeAutoTracking(): Promise<void> {
+    const run = ++autoTrackingRun;
+    const watchPage = activeAdapter?.watchPage;
+    if (!watchPage?.extractEpisode || !isWatchPage()) return;
+
+    const pageUrl = window.location.href;
+    const isCurrent = () => run === autoTrackingRun && window.location.href === pageUrl;
+
+    try {
+        const { autoTrack } = await settingsRepository.get();
+        if (!autoTrack.enabled) return;
+
+        const animeData = extractSinglePageAnimeData();
+        const episode = watchPage.extractEpisode();
+        if (!animeData || !episode || episode > 999) return;
+
+        const canObservePlayback = Boolean(watchPage.findVideo || watchPage.readPlayerMessage);
+        if (autoTrack.trigger === "playback" && canObservePlayback) {
+            if (!(await waitForWatchedPlayback(watchPage, autoTrack, isCurrent))) return;
+        } else {
+            if (autoTrack.dwellSeconds > 0) {
+                await new Promise((resolve) => setTimeout(resolve, autoTrack.dwellSeconds * 1000));
+            }
+            if (!isCurrent()) return;
+        }
+
+        await trackWatchedEpisode(animeData, episode);
+    } catch (error) {
+        console.error("[AutoTrack] Failed to track episode:", error);
+    }
+}
+
+// How often the playback watcher looks for a (re)inserted video element and
+// checks the user is still on the same episode page, and how often the page
+// is checked for a new episode to track
+const PLAYBACK_POLL_MS = 2000;
+
+/**
+ * The page and episode tracking was last armed for; sites that switch
+ * episodes inside the player keep the URL but show another episode
+ */
+function currentEpisodePage(): string {
+    let episode: number | null = null;
+    try {
+        episode = activeAdapter?.watchPage?.extractEpisode?.() ?? null;
+    } catch {
+        // A page half-way through loading may not show its episode yet
+    }
+    return `${window.location.href}#${episode ?? ""}`;
+}
+
+/**
+ * Arm automatic tracking for the current page, and again whenever the site
+ * navigates to another page or episode without a reload, as single-page
+ * sites and in-player episode lists do. Returns a function that stops
+ * watching.
+ */
+export function watchForEpisodeChanges(): () => void {
+    let armedPage: string | null = null;
+    const arm = () => {
+        const page = currentEpisodePage();
+        if (page === armedPage) return;
+        armedPage = page;
+        void initializeAutoTracking();
+    };
+
+    arm();
+    const timer = setInterval(arm, PLAYBACK_POLL_MS);
+    return () => clearInterval(timer);
+}
+
+// How long a player gets to report progress before the watcher falls back to
+// the dwell time, as for players that can't be followed at all
+const PLAYER_SILENCE_MS = 60_000;
+
+/**
+ * Whether playback has reached the point where the episode counts as watched
+ */
+export function hasReachedWatchedThreshold(progress: PlaybackProgress, settings: AutoTrackSettings): boolean {
+    const { currentTime, duration } = progress;
+    if (!(duration > 0) || !(currentTime > 0)) return false;
+    if ((currentTime / duration) * 100 >= settings.watchedPercent) return true;
+    // Very short videos would count from the first second, so they use the percentage only
+    return duration > settings.watchedRemainingSeconds && duration - currentTime <= settings.watchedRemainingSeconds;
+}
+
+/**
+ * Whether a message came from one of the page's iframes rather than from an
+ * unrelated window
+ */
+function isFromPlayerFrame(event: MessageEvent): boolean {
+    return Array.from(document.querySelectorAll("iframe")).some((frame) => frame.contentWindow === event.source);
+}
+
+/**
+ * Resolve true once the episode player crosses the watched threshold, or
+ * false when the user leaves the page first (`isCurrent` turns false).
+ * Follows both an inline video element and progress messages from an
+ * embedded player iframe. A player that reports nothing within the dwell time
+ * (at least PLAYER_SILENCE_MS) counts as one that can't be followed, and the
+ * episode is recorded as for a visit.
+ */
+function waitForWatchedPlayback(
+    watchPage: WatchPageAdapter,
+    settings: AutoTrackSettings,
+    isCurrent: () => boolean,
+): Promise<boolean> {
+    return new Promise((resolve) => {
+        let video: HTMLVideoElement | null = null;
+        let settled = false;
+        // Whether a video element or a player progress message has been seen
+        let observed = false;
+
+        const finish = (watched: boolean) => {
+            if (settled) return;
+            settled = true;
+            clearInterval(timer);
+            clearTimeout(fallback);
+            video?.removeEventListener("timeupdate", onTimeUpdate);
+            window.removeEventListener("message", onMessage);
+            resolve(watched);
+        };
+
+        const check = (progress: PlaybackProgress) => {
+            if (hasReachedWatchedThreshold(progress, settings)) finish(true);
+        };
+
+        function onTimeUpdate(): void {
+            if (video) check({ currentTime: video.currentTime, duration: video.duration });
+        }
+
+        function onMessage(event: MessageEvent): void {
+            if (!isFromPlayerFrame(event)) return;
+            const progress = watchPage.readPlayerMessage?.(event.data);
+            if (!progress) return;
+            observed = true;
+            check(progress);
+        }
+
+        const poll = () => {
+            if (!isCurrent()) return finish(false);
+
+            try {
+                const found = watchPage.findVideo?.() ?? null;
+                if (found !== video) {
+                    video?.removeEventListener("timeupdate", onTimeUpdate);
+                    video = found;
+                    video?.addEventListener("timeupdate", onTimeUpdate);
+                }
+                observed ||= video !== null;
+            } catch (error) {
+                console.warn("[AutoTrack] Could not follow the player:", error);
+                finish(false);
+            }
+        };
+
+        const fallBackToDwell = () => {
+            if (!observed) finish(isCurrent());
+        };
+
+        const timer = setInterval(poll, PLAYBACK_POLL_MS);
+        const fallback = setTimeout(fallBackToDwell, Math.max(settings.dwellSeconds * 1000, PLAYER_SILENCE_MS));
+        if (watchPage.readPlayerMessage) window.addEventListener("message", onMessage);
+        poll();
+    });
+}
+
+/**
+ * Apply a watched episode to the anime's progress. Moving forward happens
+ * right away with an undo toast; moving backwards and starting to track an
+ * untracked anime both wait for the user to confirm.
+ */
+export async function trackWatchedEpisode(animeData: AnimeData, episode: number): Promise<void> {
+    const service = getSinglePageAnimeService();
+    const status = await service.getAnimeStatus(animeData.animeId);
+
+    if (status.isTracked && status.progress) {
+        const currentEpisode = status.progress.currentEpisode;
+        if (episode > currentEpisode) {
+            const result = await service.updateEpisodeProgress(animeData.animeId, episode, undefined, "auto");
+            if (result.success) {
+                showToast(`Marked episode ${episode} of "${animeData.animeTitle}" as watched`, "success", {
+                    label: "Undo",
+                    onClick: () => undoAutoTrackedEpisode(animeData, episode, currentEpisode),
+                });
+            } else {
+                showToast(result.message, "error");
+            }
+        } else if (episode < currentEpisode) {
+            showAutoTrackPrompt(
+                `"${animeData.animeTitle}" is at episode ${currentEpisode}. Move it back to episode ${episode}?`,
+                "Move back",
+                async () => {
+                    await updateSinglePageEpisode(animeData.animeId, episode);
+                },
+            );
+        }
+        return;
+    }
+
+    if (!canStartWatching(status) || isAutoTrackDismissed(animeData.animeId)) return;
+
+    showAutoTrackPrompt(
+        `Start tracking "${animeData.animeTitle}" from episode ${episode}?`,
+        "Start tracking",
+        async () => {
+            const result = await service.startWatching(animeData, episode, "auto");
+            if (result.success) {
+                showToast(`Started watching "${animeData.animeTitle}" from episode ${episode}`, "success");
+            } else {
+                showToast(result.message, "error");
+            }
+        },
+        () => rememberAutoTrackDismissal(animeData.animeId),
+    );
+}
+
+/**
+ * Put progress back where it was before an automatic update, removing the
+ * update from the watch history instead of recording the undo as a change
+ */
+export async function undoAutoTrackedEpisode(
+    animeData: AnimeData,
+    episode: number,
+    previousEpisode: number,
+): Promise<void> {
+    try {
+        const result = await getSinglePageAnimeService().undoAutoEpisodeUpdate(
+            animeData.animeId,
+            episode,
+            previousEpisode,
+        );
+        if (result.success) {
+            showToast(`Back to episode ${previousEpisode}`, "success");
+        } else {
+            showToast(result.message, "error");
+        }
+    } catch (error) {
+        console.error("[AutoTrack] Failed to undo episode update:", error);
+        showToast("Error updating episode", "error");
+    }
+}
+
+function isAutoTrackDismissed(animeId: string): boolean {
+    try {
+        return window.sessionStorage.getItem(AUTO_TRACK_DISMISSED_PREFIX + animeId) === "1";
+    } catch {
+        return false;
+    }
+}
+
+function rememberAutoTrackDismissal(animeId: string): void {
+    try {
+        window.sessionStorage.setItem(AUTO_TRACK_DISMISSED_PREFIX + animeId, "1");
+    } catch {
+        // Storage can be blocked by the page; the prompt just shows again next time
+    }
+}
+
+/**
+ * Show a small prompt in the bottom-right corner with a confirm and a
+ * dismiss button. Replaces any prompt already showing.
+ */
+export function showAutoTrackPrompt(
+    message: string,
+    confirmLabel: string,
+    onConfirm: () => Promise<void>,
+    onDismiss?: () => void,
+): HTMLElement {
+    document.getElementById("anime-list-autotrack-prompt")?.remove();
+
+    const prompt = document.createElement("div");
+    prompt.id = "anime-list-autotrack-prompt";
+    prompt.setAttribute("data-testid", "autotrack-prompt");
+    prompt.setAttribute("role", "dialog");
+    prompt.style.cssText = `
+        position: fixed;
+        bottom: 20px;
+        right: 20px;
+        z-index: 10000;
+        max-width: 320px;
+        padding: 14px 16px;
+        background: rgba(20, 20, 30, 0.92);
+        color: white;
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        border-radius: 12px;
+        box-shadow: 0 8px 32px rgba(0, 0, 0, 0.3);
+        backdrop-filter: blur(10px);
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        font-size: 13px;
+    `;
+
+    const text = document.createElement("p");
+    text.setAttribute("data-testid", "autotrack-message");
+    text.style.cssText = "margin: 0 0 10px;";
+    text.textContent = message;
+
+    const actions = document.createElement("div");
+    actions.style.cssText = "display: flex; justify-content: flex-end; gap: 8px;";
+
+    const buttonStyle =
+        "padding: 6px 12px; border-radius: 8px; border: 1px solid rgba(255, 255, 255, 0.2); color: white; cursor: pointer; font-size: 12px; font-weight: 600;";
+
+    const dismissButton = document.createElement("button");
+    dismissButton.setAttribute("data-testid", "autotrack-dismiss");
+    dismissButton.textContent = "Not now";
+    dismissButton.style.cssText = `${buttonStyle} background: rgba(255, 255, 255, 0.1);`;
+    dismissButton.addEventListener("click", () => {
+        prompt.remove();
+        onDismiss?.();
+    });
+
+    const confirmButton = document.createElement("button");
+    confirmButton.setAttribute("data-testid", "autotrack-confirm");
+    confirmButton.textContent = confirmLabel;
+    confirmButton.style.cssText = `${buttonStyle} background: rgba(139, 92, 246, 0.9);`;
+    confirmButton.addEventListener("click", async () => {
+        prompt.remove();
+        try {
+            await onConfirm();
+        } catch (error) {
+            console.error("[AutoTrack] Prompt action failed:", error);
+            showToast("Error updating episode", "error");
+        }
+    });
+
+    actions.append(dismissButton, confirmButton);
+    prompt.append(text, actions);
+    document.body.appendChild(prompt);
+    return prompt;
+}
+
 // =============================================================================
 // FOLDER FUNCTIONALITY
 // =============================================================================
@@ -2409,14 +3704,15 @@ export function initializeSinglePage(): void {
 const DEFAULT_FOLDER_COLORS = ["#FFD700", "#FF6B6B", "#4ECDC4", "#45B7D1", "#96CEB4", "#9B59B6"];
 
 /**
- * Load folder order from storage (with migration from old tileOrder)
+ * Load folder order from storage
+ * Falls back to the legacy tileOrder when the v1 storage migration has not run yet
  */
 export async function loadFolderOrder(): Promise<FolderOrder> {
     try {
         const stored = await StorageAdapter.get<FolderOrder>(StorageKeys.FOLDER_ORDER);
         if (stored) return stored;
 
-        // Migrate from existing tileOrder if no folderOrder exists
+        // Derive from existing tileOrder if no folderOrder exists
         const tileOrder = await loadTileOrder();
         return {
             folders: [],
@@ -2436,12 +3732,16 @@ export async function loadFolderOrder(): Promise<FolderOrder> {
 }
 
 /**
- * Save folder order to storage
+ * Save folder order through the background worker
  */
 export async function saveFolderOrder(folderOrder: FolderOrder): Promise<void> {
     try {
         folderOrder.lastUpdated = new Date().toISOString();
-        await StorageAdapter.set(StorageKeys.FOLDER_ORDER, folderOrder);
+        const result = await animeService.saveFolderOrder(folderOrder);
+        if (!result.success) {
+            console.error("Error saving folder order:", result.error ?? result.message);
+            return;
+        }
         console.log("[ContentScript] Saved folder order");
         // Notify other contexts
         notifyAnimeStateChange(StorageKeys.FOLDER_ORDER);
@@ -3130,16 +4430,16 @@ export async function loadTileOrder(): Promise<TileOrder | null> {
 }
 
 /**
- * Save tile order to storage
+ * Save tile order through the background worker
  * Note: Caller is responsible for debouncing to avoid excessive writes (see handleDrop)
  */
 export async function saveTileOrder(animeIds: string[]): Promise<void> {
     try {
-        const tileOrder: TileOrder = {
-            animeIds,
-            lastUpdated: new Date().toISOString(),
-        };
-        await StorageAdapter.set(StorageKeys.TILE_ORDER, tileOrder);
+        const result = await animeService.saveTileOrder(animeIds);
+        if (!result.success) {
+            console.error("Error saving tile order:", result.error ?? result.message);
+            return;
+        }
         console.log("[ContentScript] Saved tile order:", animeIds.length, "items");
     } catch (error) {
         console.error("Error saving tile order:", error);
@@ -3147,11 +4447,15 @@ export async function saveTileOrder(animeIds: string[]): Promise<void> {
 }
 
 /**
- * Clear tile order from storage
+ * Clear tile order through the background worker
  */
 export async function clearTileOrder(): Promise<void> {
     try {
-        await StorageAdapter.remove(StorageKeys.TILE_ORDER);
+        const result = await animeService.clearTileOrder();
+        if (!result.success) {
+            console.error("Error clearing tile order:", result.error ?? result.message);
+            return;
+        }
         console.log("[ContentScript] Cleared tile order");
     } catch (error) {
         console.error("Error clearing tile order:", error);
@@ -3768,17 +5072,32 @@ export async function initializeDragAndDrop(): Promise<void> {
     await restoreFolderOrder();
 }
 
-// Only auto-initialize if not in test environment AND a site adapter matched.
-if (
-    typeof window !== "undefined" &&
-    typeof document !== "undefined" &&
-    (globalThis as any).window?.location &&
-    activeAdapter
-) {
+/**
+ * Start the content script once the adapter for this page is known. Built-in
+ * adapters are resolved synchronously at load; the user's own definitions
+ * need a storage read, so they are only consulted when no built-in matched.
+ */
+export async function bootstrap(): Promise<void> {
+    if (!activeAdapter) {
+        try {
+            activeAdapter = selectAdapter(new URL(window.location.href), await loadCustomAdapters());
+        } catch (error) {
+            console.warn("[ContentScript] Failed to load custom site adapters:", error);
+        }
+        // No adapter matched the current host — content script self-disables.
+        if (!activeAdapter) return;
+    }
+
     init();
 
     // Initialize single page functionality
     setTimeout(() => {
         initializeSinglePage();
+        watchForEpisodeChanges();
     }, 1000);
 }
+
+// Only auto-initialize if not in test environment
+if (typeof window !== "undefined" && typeof document !== "undefined" && (globalThis as any).window?.location) {
+    void bootstrap();
+}
@@ -0,0 +1,71 @@
+import type { ActivityAction, ActivityEvent } from "@/commons/models";
+
+/** How each kind of change reads in the feed and its filter */
+export const ACTIVITY_LABELS: Record<ActivityAction, string> = {
+    started: "Started watching",
+    episode: "Episode updated",
+    planned: "Planned",
+    completed: "Completed",
+    dropped: "Dropped",
+    paused: "Put on hold",
+    resumed: "Resumed",
+    hidden: "Hidden",
+    unhidden: "Unhidden",
+    removed: "Removed",
+};
+
+export interface ActivityFilters {
+    /** Only this kind of change; empty for any */
+    action: ActivityAction | "";
+    /** Only this anime; empty for any */
+    animeId: string;
+}
+
+/** Events of one calendar day, newest first */
+export interface ActivityDay {
+    /** Local date as YYYY-MM-DD */
+    key: string;
+    label: string;
+    events: ActivityEvent[];
+}
+
+function dayKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function dayLabel(date: Date, now: Date): string {
+    const yesterday = new Date(now);
+    yesterday.setDate(now.getDate() - 1);
+    if (dayKey(date) === dayKey(now)) return "Today";
+    if (dayKey(date) === dayKey(yesterday)) return "Yesterday";
+    return date.toLocaleDateString(undefined, { weekday: "long", year: "numeric", month: "long", day: "numeric" });
+}
+
+/**
+ * Filter the log (oldest first, as stored) and group it into days, newest
+ * day and newest event first
+ */
+export function groupActivityByDay(
+    events: ActivityEvent[],
+    filters: ActivityFilters,
+    now: Date = new Date(),
+): ActivityDay[] {
+    const days: ActivityDay[] = [];
+    for (let index = events.length - 1; index >= 0; index--) {
+        const event = events[index];
+        if (filters.action && event.action !== filters.action) continue;
+        if (filters.animeId && event.animeId !== filters.animeId) continue;
+
+        const date = new Date(event.timestamp);
+        const key = dayKey(date);
+        const current = days[days.length - 1];
+        if (current?.key === key) {
+            current.events.push(event);
+        } else {
+            days.push({ key, label: dayLabel(date, now), events: [event] });
+        }
+    }
+    return days;
+}
@@ -0,0 +1,56 @@
+import type { AnimeData, SiteAdapterDefinition } from "@/commons/models";
+import { compileAdapter } from "@/content/adapters";
+
+export interface AdapterCardResult {
+    anime: AnimeData | null;
+    /** Whether the element the controls go on was found */
+    hasInjectionTarget: boolean;
+}
+
+export interface AdapterListTestResult {
+    containerFound: boolean;
+    /** Cards inside the container, or in the whole sample when the container is missing */
+    cards: AdapterCardResult[];
+}
+
+export interface AdapterUrlTestResult {
+    matchesHost: boolean;
+    isWatchPage: boolean;
+    slug?: string;
+    episode?: number;
+}
+
+/**
+ * Run a definition's list-page selectors against pasted sample HTML, the
+ * way the content script would on the live page
+ */
+export function testAdapterOnHtml(definition: SiteAdapterDefinition, html: string): AdapterListTestResult {
+    const adapter = compileAdapter(definition);
+    const page = new DOMParser().parseFromString(html, "text/html");
+    const container = page.querySelector(adapter.containerSelector);
+    const cards = Array.from((container ?? page).querySelectorAll(adapter.cardSelector));
+
+    return {
+        containerFound: container !== null,
+        cards: cards.map((card) => ({
+            anime: adapter.extractAnime(card),
+            hasInjectionTarget: adapter.getInjectionTarget(card) !== null,
+        })),
+    };
+}
+
+/**
+ * Check which of a definition's URL rules a page address satisfies
+ */
+export function testAdapterOnUrl(definition: SiteAdapterDefinition, url: URL): AdapterUrlTestResult {
+    const adapter = compileAdapter(definition);
+    const isWatchPage = adapter.watchPage?.matches(url) ?? false;
+    const result: AdapterUrlTestResult = { matchesHost: adapter.matches(url), isWatchPage };
+    if (!isWatchPage || !definition.watchPage) return result;
+
+    const groups = url.pathname.match(new RegExp(definition.watchPage.pathPattern))?.groups ?? {};
+    if (groups.slug) result.slug = groups.slug;
+    const episode = parseInt(groups.episode ?? "", 10);
+    if (episode > 0) result.episode = episode;
+    return result;
+}
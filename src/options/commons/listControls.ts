@@ -0,0 +1,40 @@
+import { normalizeTitle } from "@/commons/utils/titleMatching";
+
+export type ListSort = "added" | "title";
+
+/** How each sort order reads in the picker */
+export const LIST_SORT_LABELS: Record<ListSort, string> = {
+    added: "Recently added",
+    title: "Title",
+};
+
+/**
+ * Whether a title contains the search text, ignoring the cosmetic differences
+ * `normalizeTitle` ignores. An empty search matches everything.
+ */
+export function matchesTitleSearch(title: string, search: string): boolean {
+    const query = normalizeTitle(search);
+    return !query || normalizeTitle(title).includes(query);
+}
+
+/**
+ * Sort a list by title, or newest first by when each entry was added. Entries
+ * without a date count as added in list order, which is the order they were
+ * stored in.
+ */
+export function sortAnimeList<T extends { animeTitle: string }>(
+    items: T[],
+    sort: ListSort,
+    addedAt: (item: T) => string | undefined,
+): T[] {
+    if (sort === "title") {
+        return [...items].sort((a, b) => a.animeTitle.localeCompare(b.animeTitle, undefined, { sensitivity: "base" }));
+    }
+    return items
+        .map((item, index) => ({ item, index, time: Date.parse(addedAt(item) ?? "") }))
+        .sort((a, b) => {
+            if (!Number.isNaN(a.time) && !Number.isNaN(b.time) && a.time !== b.time) return b.time - a.time;
+            return b.index - a.index;
+        })
+        .map(({ item }) => item);
+}
@@ -0,0 +1,22 @@
+import type { AnimeUserData } from "@/commons/models";
+
+export interface UserDataFilters {
+    /** Only anime with this tag (compared case-insensitively); empty for any */
+    tag: string;
+    /** Only anime scored at least this; 0 for any, rated or not */
+    minScore: number;
+}
+
+/**
+ * Whether an anime with the given user data passes the tag and score filters
+ */
+export function matchesUserDataFilters(userData: AnimeUserData | undefined, filters: UserDataFilters): boolean {
+    if (filters.tag) {
+        const tag = filters.tag.toLowerCase();
+        if (!userData?.tags.some((candidate) => candidate.toLowerCase() === tag)) return false;
+    }
+    if (filters.minScore > 0) {
+        if (userData?.score === undefined || userData.score < filters.minScore) return false;
+    }
+    return true;
+}
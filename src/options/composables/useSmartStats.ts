@@ -1,7 +1,10 @@
 import type { EpisodeProgress } from "@/commons/models";
 import { watchThrottled } from "@vueuse/core";
 import { computed, ref } from "vue";
+import { useCompletedStore } from "../stores/completedStore";
+import { useDroppedStore } from "../stores/droppedStore";
 import { useHiddenStore } from "../stores/hiddenStore";
+import { useOnHoldStore } from "../stores/onHoldStore";
 import { usePlanToWatchStore } from "../stores/planToWatchStore";
 import { useWatchingStore } from "../stores/watchingStore";
 import { useStorageCache } from "./useStorageCache";
@@ -14,6 +17,9 @@ interface SmartStats {
     watching: number;
     planned: number;
     hidden: number;
+    completed: number;
+    dropped: number;
+    onHold: number;
     totalEpisodes: number;
     averageProgress: number;
     completionRate: number;
@@ -42,6 +48,9 @@ export function useSmartStats() {
     const watchingStore = useWatchingStore();
     const planStore = usePlanToWatchStore();
     const hiddenStore = useHiddenStore();
+    const completedStore = useCompletedStore();
+    const droppedStore = useDroppedStore();
+    const onHoldStore = useOnHoldStore();
     const { cachedStats, updateStatsCache, hasCache, isStale } = useStorageCache();
 
     // Track if we're currently computing expensive operations
@@ -78,6 +87,12 @@ export function useSmartStats() {
         const watchingCount = watchingItems.length > 0 ? watchingItems.length : resolveCount(watchingStore);
         const plannedCount = plannedItems.length > 0 ? plannedItems.length : resolveCount(planStore);
         const hiddenCount = hiddenItems.length > 0 ? hiddenItems.length : resolveCount(hiddenStore);
+        const completedItems = resolveItems(completedStore.items);
+        const droppedItems = resolveItems(droppedStore.items);
+        const onHoldItems = resolveItems(onHoldStore.items);
+        const completedCount = completedItems.length > 0 ? completedItems.length : resolveCount(completedStore);
+        const droppedCount = droppedItems.length > 0 ? droppedItems.length : resolveCount(droppedStore);
+        const onHoldCount = onHoldItems.length > 0 ? onHoldItems.length : resolveCount(onHoldStore);
         const totalItems = watchingCount + plannedCount;
 
         // Quick stats without expensive operations
@@ -85,6 +100,9 @@ export function useSmartStats() {
             watching: watchingCount,
             planned: plannedCount,
             hidden: hiddenCount,
+            completed: completedCount,
+            dropped: droppedCount,
+            onHold: onHoldCount,
             totalEpisodes: 0, // Will be computed separately if needed
             averageProgress: 0, // Will be computed separately if needed
             completionRate: 0, // Will be computed separately if needed
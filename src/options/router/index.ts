@@ -14,11 +14,76 @@ const router = createRouter({
             name: "watch-lists",
             component: () => import("@/options/views/AllWatchLists.vue"),
         },
+        {
+            path: "/lists/:listId",
+            name: "custom-list",
+            component: () => import("@/options/views/CustomListView.vue"),
+            props: true,
+        },
         {
             path: "/watching",
             name: "watching",
             component: () => import("@/options/views/CurrentlyWatching.vue"),
         },
+        {
+            path: "/plan",
+            name: "plan",
+            component: () => import("@/options/views/PlanToWatchView.vue"),
+        },
+        {
+            path: "/completed",
+            name: "completed",
+            component: () => import("@/options/views/StatusListView.vue"),
+            props: { list: "completed" },
+        },
+        {
+            path: "/on-hold",
+            name: "on-hold",
+            component: () => import("@/options/views/StatusListView.vue"),
+            props: { list: "on-hold" },
+        },
+        {
+            path: "/dropped",
+            name: "dropped",
+            component: () => import("@/options/views/StatusListView.vue"),
+            props: { list: "dropped" },
+        },
+        {
+            path: "/hidden",
+            name: "hidden",
+            component: () => import("@/options/views/HiddenView.vue"),
+        },
+        {
+            path: "/anime/:id",
+            name: "anime-details",
+            component: () => import("@/options/views/AnimeDetailsView.vue"),
+            props: true,
+        },
+        {
+            path: "/activity",
+            name: "activity",
+            component: () => import("@/options/views/ActivityView.vue"),
+        },
+        {
+            path: "/backup",
+            name: "backup",
+            component: () => import("@/options/views/BackupView.vue"),
+        },
+        {
+            path: "/settings",
+            name: "settings",
+            component: () => import("@/options/views/SettingsView.vue"),
+        },
+        {
+            path: "/adapters",
+            name: "adapters",
+            component: () => import("@/options/views/AdaptersView.vue"),
+        },
+        {
+            path: "/merge",
+            name: "merge",
+            component: () => import("@/options/views/MergeView.vue"),
+        },
     ],
 });
 
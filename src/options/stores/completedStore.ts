@@ -0,0 +1,169 @@
+import { getOfflineQueue, registerOfflineAction } from "@/options/composables";
+import { defineStore } from "pinia";
+import { computed, ref } from "vue";
+
+import type { CompletedAnime } from "@/commons/models";
+import { AnimeService } from "@/commons/services/AnimeService";
+import type { CompletedAnimeState, StoreActionResult } from "@/options/stores/types";
+
+/**
+ * Pinia store for managing completed anime
+ */
+export const useCompletedStore = defineStore("completed", () => {
+    // State
+    const state = ref<CompletedAnimeState>({
+        items: [],
+        itemsMap: {},
+        loading: false,
+        error: null,
+        initialized: false,
+    });
+
+    // Action error tracking
+    const lastError = ref<string | null>(null);
+
+    const animeService = new AnimeService();
+
+    // Getters
+    const count = computed(() => state.value.items.length);
+
+    const sortedByTitle = computed(() => {
+        return [...state.value.items].sort((a, b) =>
+            a.animeTitle.localeCompare(b.animeTitle, undefined, { sensitivity: "base" }),
+        );
+    });
+
+    const sortedByCompletedAt = computed(() => {
+        return [...state.value.items].sort(
+            (a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime(),
+        );
+    });
+
+    const byId = computed(() => (animeId: string): CompletedAnime | undefined => {
+        return state.value.itemsMap[animeId];
+    });
+
+    const isLoading = computed(() => state.value.loading);
+    const hasError = computed(() => state.value.error !== null);
+    const isInitialized = computed(() => state.value.initialized);
+
+    function applyItems(items: CompletedAnime[]): void {
+        const itemsMap: Record<string, CompletedAnime> = {};
+        items.forEach((item) => {
+            itemsMap[item.animeId] = item;
+        });
+        state.value.items = items;
+        state.value.itemsMap = itemsMap;
+    }
+
+    // Actions
+    async function init(): Promise<void> {
+        // Idempotent initialization - only run once
+        if (state.value.initialized) {
+            return;
+        }
+
+        state.value.loading = true;
+        state.value.error = null;
+
+        try {
+            const allAnimeData = await animeService.getAllAnime();
+            applyItems(allAnimeData.completed);
+            state.value.initialized = true;
+        } catch (error) {
+            state.value.error = error instanceof Error ? error.message : String(error);
+            console.error("Failed to initialize completed store:", error);
+        } finally {
+            state.value.loading = false;
+        }
+    }
+
+    /**
+     * Remove an anime from the completed list
+     */
+    async function removeFromCompleted(animeId: string): Promise<StoreActionResult> {
+        const currentItem = state.value.itemsMap[animeId];
+        const itemIndex = state.value.items.findIndex((item) => item.animeId === animeId);
+        if (!currentItem || itemIndex === -1) {
+            lastError.value = "Anime not found in completed list";
+            return { success: false, error: lastError.value };
+        }
+        const snapshot = { item: currentItem, index: itemIndex };
+        const offlineQueue = getOfflineQueue();
+        return offlineQueue.enqueueRunStoreAction(
+            {
+                run: () => animeService.removeFromCompleted(animeId),
+                onOptimistic: () => {
+                    state.value.items.splice(snapshot.index, 1);
+                    delete state.value.itemsMap[animeId];
+                },
+                onRollback: () => {
+                    state.value.items.splice(snapshot.index, 0, snapshot.item);
+                    state.value.itemsMap[animeId] = snapshot.item;
+                },
+                successToast: (r: any) => r?.message || "Removed from completed",
+                errorToast: (m) => m || "Removal failed",
+                setLastError: (m) => (lastError.value = m),
+            },
+            { type: "completed:remove", description: `Remove ${animeId} from completed`, payload: { animeId } },
+        );
+    }
+
+    /**
+     * Refresh store data from storage - called by storage sync plugin
+     */
+    async function refreshFromStorage(): Promise<void> {
+        console.log(`[CompletedStore] Refreshing from storage due to external changes`);
+        try {
+            const allAnimeData = await animeService.getAllAnime();
+            applyItems(allAnimeData.completed);
+            state.value.error = null;
+        } catch (error) {
+            state.value.error = error instanceof Error ? error.message : String(error);
+            console.error("Failed to refresh completed items:", error);
+        }
+    }
+
+    return {
+        // State (read-only)
+        items: computed(() => state.value.items),
+        itemsMap: computed(() => state.value.itemsMap),
+
+        // Getters
+        count,
+        sortedByTitle,
+        sortedByCompletedAt,
+        byId,
+        isLoading,
+        hasError,
+        isInitialized,
+        error: computed(() => state.value.error),
+
+        // Actions
+        init,
+        removeFromCompleted,
+        refreshFromStorage,
+
+        // Action state
+        lastError: computed(() => lastError.value),
+        __snapshot: () => ({
+            items: state.value.items.map((i) => ({ ...i })),
+        }),
+        __restore: (snap: any) => {
+            if (!snap || !Array.isArray(snap.items)) return;
+            applyItems(snap.items.map((i: CompletedAnime) => ({ ...i })));
+        },
+    };
+});
+
+registerOfflineAction("completed:remove", (payload: any) => {
+    const { animeId } = payload;
+    const service = new AnimeService();
+    return {
+        config: { run: () => service.removeFromCompleted(animeId), expectSuccessField: true },
+        validate: () => {
+            const store = useCompletedStore();
+            return Boolean(store.itemsMap[animeId]);
+        },
+    };
+});
@@ -0,0 +1,140 @@
+import { defineStore } from "pinia";
+import { computed, ref } from "vue";
+
+import type { ActionResult, CustomList } from "@/commons/models";
+import { AnimeService } from "@/commons/services/AnimeService";
+import { runStoreAction } from "@/options/commons/actionHelpers";
+import type { CustomListsState, StoreActionResult } from "@/options/stores/types";
+
+/**
+ * Pinia store for the lists the user created
+ */
+export const useCustomListsStore = defineStore("customLists", () => {
+    // State
+    const state = ref<CustomListsState>({
+        lists: [],
+        loading: false,
+        error: null,
+        initialized: false,
+    });
+
+    // Action error tracking
+    const lastError = ref<string | null>(null);
+
+    const animeService = new AnimeService();
+
+    // Getters
+    const count = computed(() => state.value.lists.length);
+
+    const byId = computed(() => (listId: string): CustomList | undefined => {
+        return state.value.lists.find((list) => list.id === listId);
+    });
+
+    const listsContaining = computed(() => (animeId: string): CustomList[] => {
+        return state.value.lists.filter((list) => list.entries.some((entry) => entry.animeId === animeId));
+    });
+
+    const isLoading = computed(() => state.value.loading);
+    const hasError = computed(() => state.value.error !== null);
+    const isInitialized = computed(() => state.value.initialized);
+
+    // Actions
+    async function init(): Promise<void> {
+        // Idempotent initialization - only run once
+        if (state.value.initialized) {
+            return;
+        }
+
+        state.value.loading = true;
+        state.value.error = null;
+
+        try {
+            state.value.lists = await animeService.getCustomLists();
+            state.value.initialized = true;
+        } catch (error) {
+            state.value.error = error instanceof Error ? error.message : String(error);
+            console.error("Failed to initialize custom lists store:", error);
+        } finally {
+            state.value.loading = false;
+        }
+    }
+
+    /**
+     * Run a list mutation, toasting its outcome, and reload the lists when it
+     * succeeds. The worker assigns ids and timestamps, so nothing is patched
+     * in locally.
+     */
+    async function mutate(run: () => Promise<ActionResult>): Promise<StoreActionResult> {
+        const result = await runStoreAction({ run, setLastError: (message) => (lastError.value = message) });
+        if (result.success) {
+            await refreshFromStorage();
+        }
+        return result;
+    }
+
+    /**
+     * Create an empty list
+     */
+    async function createList(name: string): Promise<StoreActionResult> {
+        return mutate(() => animeService.createCustomList(name));
+    }
+
+    /**
+     * Rename a list
+     */
+    async function renameList(listId: string, name: string): Promise<StoreActionResult> {
+        return mutate(() => animeService.renameCustomList(listId, name));
+    }
+
+    /**
+     * Delete a list
+     */
+    async function deleteList(listId: string): Promise<StoreActionResult> {
+        return mutate(() => animeService.deleteCustomList(listId));
+    }
+
+    /**
+     * Take an anime off a list
+     */
+    async function removeAnime(listId: string, animeId: string): Promise<StoreActionResult> {
+        return mutate(() => animeService.removeFromCustomList(listId, animeId));
+    }
+
+    /**
+     * Refresh store data from storage - called by storage sync plugin
+     */
+    async function refreshFromStorage(): Promise<void> {
+        try {
+            state.value.lists = await animeService.getCustomLists();
+            state.value.error = null;
+        } catch (error) {
+            state.value.error = error instanceof Error ? error.message : String(error);
+            console.error("Failed to refresh custom lists:", error);
+        }
+    }
+
+    return {
+        // State (read-only)
+        lists: computed(() => state.value.lists),
+
+        // Getters
+        count,
+        byId,
+        listsContaining,
+        isLoading,
+        hasError,
+        isInitialized,
+        error: computed(() => state.value.error),
+
+        // Actions
+        init,
+        createList,
+        renameList,
+        deleteList,
+        removeAnime,
+        refreshFromStorage,
+
+        // Action state
+        lastError: computed(() => lastError.value),
+    };
+});
@@ -0,0 +1,202 @@
+import { getOfflineQueue, registerOfflineAction } from "@/options/composables";
+import { defineStore } from "pinia";
+import { computed, ref } from "vue";
+
+import type { DroppedAnime } from "@/commons/models";
+import { AnimeService } from "@/commons/services/AnimeService";
+import type { DroppedAnimeState, StoreActionResult } from "@/options/stores/types";
+
+/**
+ * Pinia store for managing dropped anime
+ */
+export const useDroppedStore = defineStore("dropped", () => {
+    // State
+    const state = ref<DroppedAnimeState>({
+        items: [],
+        itemsMap: {},
+        loading: false,
+        error: null,
+        initialized: false,
+    });
+
+    // Action error tracking
+    const lastError = ref<string | null>(null);
+
+    const animeService = new AnimeService();
+
+    // Getters
+    const count = computed(() => state.value.items.length);
+
+    const sortedByTitle = computed(() => {
+        return [...state.value.items].sort((a, b) =>
+            a.animeTitle.localeCompare(b.animeTitle, undefined, { sensitivity: "base" }),
+        );
+    });
+
+    const byId = computed(() => (animeId: string): DroppedAnime | undefined => {
+        return state.value.itemsMap[animeId];
+    });
+
+    const isLoading = computed(() => state.value.loading);
+    const hasError = computed(() => state.value.error !== null);
+    const isInitialized = computed(() => state.value.initialized);
+
+    function applyItems(items: DroppedAnime[]): void {
+        const itemsMap: Record<string, DroppedAnime> = {};
+        items.forEach((item) => {
+            itemsMap[item.animeId] = item;
+        });
+        state.value.items = items;
+        state.value.itemsMap = itemsMap;
+    }
+
+    // Actions
+    async function init(): Promise<void> {
+        // Idempotent initialization - only run once
+        if (state.value.initialized) {
+            return;
+        }
+
+        state.value.loading = true;
+        state.value.error = null;
+
+        try {
+            const allAnimeData = await animeService.getAllAnime();
+            applyItems(allAnimeData.dropped);
+            state.value.initialized = true;
+        } catch (error) {
+            state.value.error = error instanceof Error ? error.message : String(error);
+            console.error("Failed to initialize dropped store:", error);
+        } finally {
+            state.value.loading = false;
+        }
+    }
+
+    /**
+     * Remove an item from this list optimistically while `run` executes
+     */
+    async function leaveList(
+        animeId: string,
+        run: () => Promise<any>,
+        queue: { type: string; description: string; fallbackSuccess: string; fallbackError: string },
+    ): Promise<StoreActionResult> {
+        const currentItem = state.value.itemsMap[animeId];
+        const itemIndex = state.value.items.findIndex((item) => item.animeId === animeId);
+        if (!currentItem || itemIndex === -1) {
+            lastError.value = "Anime not found in dropped list";
+            return { success: false, error: lastError.value };
+        }
+        const snapshot = { item: currentItem, index: itemIndex };
+        const offlineQueue = getOfflineQueue();
+        return offlineQueue.enqueueRunStoreAction(
+            {
+                run,
+                onOptimistic: () => {
+                    state.value.items.splice(snapshot.index, 1);
+                    delete state.value.itemsMap[animeId];
+                },
+                onRollback: () => {
+                    state.value.items.splice(snapshot.index, 0, snapshot.item);
+                    state.value.itemsMap[animeId] = snapshot.item;
+                },
+                successToast: (r: any) => r?.message || queue.fallbackSuccess,
+                errorToast: (m) => m || queue.fallbackError,
+                setLastError: (m) => (lastError.value = m),
+            },
+            { type: queue.type, description: queue.description, payload: { animeId } },
+        );
+    }
+
+    /**
+     * Resume watching a dropped anime from the episode it was left at
+     */
+    async function resume(animeId: string): Promise<StoreActionResult> {
+        return leaveList(animeId, () => animeService.resumeWatching(animeId), {
+            type: "dropped:resume",
+            description: `Resume ${animeId}`,
+            fallbackSuccess: "Resumed watching",
+            fallbackError: "Resume failed",
+        });
+    }
+
+    /**
+     * Remove an anime from the dropped list
+     */
+    async function removeFromDropped(animeId: string): Promise<StoreActionResult> {
+        return leaveList(animeId, () => animeService.removeFromDropped(animeId), {
+            type: "dropped:remove",
+            description: `Remove ${animeId} from dropped`,
+            fallbackSuccess: "Removed from dropped",
+            fallbackError: "Removal failed",
+        });
+    }
+
+    /**
+     * Refresh store data from storage - called by storage sync plugin
+     */
+    async function refreshFromStorage(): Promise<void> {
+        console.log(`[DroppedStore] Refreshing from storage due to external changes`);
+        try {
+            const allAnimeData = await animeService.getAllAnime();
+            applyItems(allAnimeData.dropped);
+            state.value.error = null;
+        } catch (error) {
+            state.value.error = error instanceof Error ? error.message : String(error);
+            console.error("Failed to refresh dropped items:", error);
+        }
+    }
+
+    return {
+        // State (read-only)
+        items: computed(() => state.value.items),
+        itemsMap: computed(() => state.value.itemsMap),
+
+        // Getters
+        count,
+        sortedByTitle,
+        byId,
+        isLoading,
+        hasError,
+        isInitialized,
+        error: computed(() => state.value.error),
+
+        // Actions
+        init,
+        resume,
+        removeFromDropped,
+        refreshFromStorage,
+
+        // Action state
+        lastError: computed(() => lastError.value),
+        __snapshot: () => ({
+            items: state.value.items.map((i) => ({ ...i })),
+        }),
+        __restore: (snap: any) => {
+            if (!snap || !Array.isArray(snap.items)) return;
+            applyItems(snap.items.map((i: DroppedAnime) => ({ ...i })));
+        },
+    };
+});
+
+registerOfflineAction("dropped:resume", (payload: any) => {
+    const { animeId } = payload;
+    const service = new AnimeService();
+    return {
+        config: { run: () => service.resumeWatching(animeId), expectSuccessField: true },
+        validate: () => {
+            const store = useDroppedStore();
+            return Boolean(store.itemsMap[animeId]);
+        },
+    };
+});
+registerOfflineAction("dropped:remove", (payload: any) => {
+    const { animeId } = payload;
+    const service = new AnimeService();
+    return {
+        config: { run: () => service.removeFromDropped(animeId), expectSuccessField: true },
+        validate: () => {
+            const store = useDroppedStore();
+            return Boolean(store.itemsMap[animeId]);
+        },
+    };
+});
@@ -2,7 +2,7 @@ import { getOfflineQueue, registerOfflineAction } from "@/options/composables";
 import { defineStore } from "pinia";
 import { computed, ref } from "vue";
 
-import type { AnimeData } from "@/commons/models";
+import type { AnimeData, HiddenAnime } from "@/commons/models";
 import { AnimeService } from "@/commons/services/AnimeService";
 import type { HiddenAnimeState, StoreActionResult } from "@/options/stores/types";
 
@@ -35,7 +35,7 @@ export const useHiddenStore = defineStore("hidden", () => {
         );
     });
 
-    const byId = computed(() => (animeId: string): AnimeData | undefined => {
+    const byId = computed(() => (animeId: string): HiddenAnime | undefined => {
         return state.value.itemsMap[animeId];
     });
 
@@ -60,18 +60,10 @@ export const useHiddenStore = defineStore("hidden", () => {
         try {
             // Get all anime data from the service
             const allAnimeData = await animeService.getAllAnime();
-            const hiddenIds = allAnimeData.hiddenAnime;
-
-            // Convert hidden anime IDs to AnimeData objects
-            // Note: Hidden anime only stores IDs, so we create minimal AnimeData objects
-            const hiddenItems: AnimeData[] = hiddenIds.map((animeId) => ({
-                animeId,
-                animeTitle: animeId, // Use ID as title since we only have ID
-                animeSlug: animeId, // Use ID as slug since we only have ID
-            }));
+            const hiddenItems = allAnimeData.hiddenAnime;
 
             // Create both array and map for efficient access
-            const itemsMap: Record<string, AnimeData> = {};
+            const itemsMap: Record<string, HiddenAnime> = {};
             hiddenItems.forEach((item) => {
                 itemsMap[item.animeId] = item;
             });
@@ -96,11 +88,19 @@ export const useHiddenStore = defineStore("hidden", () => {
         const offlineQueue = getOfflineQueue();
         return offlineQueue.enqueueRunStoreAction(
             {
-                run: () => animeService.hideAnime(anime.animeId),
+                run: () => animeService.hideAnime(anime),
                 onSuccessApply: () => {
                     if (!state.value.itemsMap[anime.animeId]) {
-                        state.value.items.push(anime);
-                        state.value.itemsMap[anime.animeId] = anime;
+                        const item: HiddenAnime = {
+                            animeId: anime.animeId,
+                            animeTitle: anime.animeTitle,
+                            animeSlug: anime.animeSlug,
+                            posterUrl: anime.posterUrl,
+                            siteId: anime.siteId,
+                            hiddenAt: new Date().toISOString(),
+                        };
+                        state.value.items.push(item);
+                        state.value.itemsMap[anime.animeId] = item;
                     }
                 },
                 successToast: (r: any) => r?.message || `Hidden ${anime.animeTitle}`,
@@ -173,18 +173,10 @@ export const useHiddenStore = defineStore("hidden", () => {
         try {
             // Get all anime data from the service
             const allAnimeData = await animeService.getAllAnime();
-            const hiddenIds = allAnimeData.hiddenAnime;
-
-            // Convert hidden anime IDs to AnimeData objects
-            // Note: Hidden anime only stores IDs, so we create minimal AnimeData objects
-            const hiddenItems: AnimeData[] = hiddenIds.map((animeId) => ({
-                animeId,
-                animeTitle: animeId, // Use ID as title since we only have ID
-                animeSlug: animeId, // Use ID as slug since we only have ID
-            }));
+            const hiddenItems = allAnimeData.hiddenAnime;
 
             // Create both array and map for efficient access
-            const itemsMap: Record<string, AnimeData> = {};
+            const itemsMap: Record<string, HiddenAnime> = {};
             hiddenItems.forEach((item) => {
                 itemsMap[item.animeId] = item;
             });
@@ -238,9 +230,9 @@ export const useHiddenStore = defineStore("hidden", () => {
         }),
         __restore: (snap: any) => {
             if (!snap || !Array.isArray(snap.items)) return;
-            const itemsMap: Record<string, AnimeData> = {};
-            snap.items.forEach((i: AnimeData) => (itemsMap[i.animeId] = { ...i }));
-            state.value.items = snap.items.map((i: AnimeData) => ({ ...i }));
+            const itemsMap: Record<string, HiddenAnime> = {};
+            snap.items.forEach((i: HiddenAnime) => (itemsMap[i.animeId] = { ...i }));
+            state.value.items = snap.items.map((i: HiddenAnime) => ({ ...i }));
             state.value.itemsMap = itemsMap;
         },
     };
@@ -250,7 +242,7 @@ registerOfflineAction("hidden:hide", (payload: any) => {
     const anime: AnimeData = payload.anime;
     const service = new AnimeService();
     return {
-        config: { run: () => service.hideAnime(anime.animeId), expectSuccessField: true },
+        config: { run: () => service.hideAnime(anime), expectSuccessField: true },
         validate: () => {
             const store = useHiddenStore();
             return !store.itemsMap[anime.animeId];
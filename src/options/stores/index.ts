@@ -33,6 +33,11 @@ export function setupPinia(app: App): void {
 export * from "@/options/stores/types";
 
 // Export stores
+export * from "@/options/stores/completedStore";
+export * from "@/options/stores/customListsStore";
+export * from "@/options/stores/droppedStore";
 export * from "@/options/stores/hiddenStore";
+export * from "@/options/stores/onHoldStore";
 export * from "@/options/stores/planToWatchStore";
+export * from "@/options/stores/userDataStore";
 export * from "@/options/stores/watchingStore";
@@ -0,0 +1,250 @@
+import { getOfflineQueue, registerOfflineAction } from "@/options/composables";
+import { defineStore } from "pinia";
+import { computed, ref } from "vue";
+
+import type { OnHoldAnime } from "@/commons/models";
+import { AnimeService } from "@/commons/services/AnimeService";
+import type { OnHoldAnimeState, StoreActionResult } from "@/options/stores/types";
+
+/**
+ * Pinia store for managing on-hold anime
+ */
+export const useOnHoldStore = defineStore("onHold", () => {
+    // State
+    const state = ref<OnHoldAnimeState>({
+        items: [],
+        itemsMap: {},
+        loading: false,
+        error: null,
+        initialized: false,
+    });
+
+    // Action error tracking
+    const lastError = ref<string | null>(null);
+
+    const animeService = new AnimeService();
+
+    // Getters
+    const count = computed(() => state.value.items.length);
+
+    const sortedByTitle = computed(() => {
+        return [...state.value.items].sort((a, b) =>
+            a.animeTitle.localeCompare(b.animeTitle, undefined, { sensitivity: "base" }),
+        );
+    });
+
+    const byId = computed(() => (animeId: string): OnHoldAnime | undefined => {
+        return state.value.itemsMap[animeId];
+    });
+
+    const isLoading = computed(() => state.value.loading);
+    const hasError = computed(() => state.value.error !== null);
+    const isInitialized = computed(() => state.value.initialized);
+
+    function applyItems(items: OnHoldAnime[]): void {
+        const itemsMap: Record<string, OnHoldAnime> = {};
+        items.forEach((item) => {
+            itemsMap[item.animeId] = item;
+        });
+        state.value.items = items;
+        state.value.itemsMap = itemsMap;
+    }
+
+    // Actions
+    async function init(): Promise<void> {
+        // Idempotent initialization - only run once
+        if (state.value.initialized) {
+            return;
+        }
+
+        state.value.loading = true;
+        state.value.error = null;
+
+        try {
+            const allAnimeData = await animeService.getAllAnime();
+            applyItems(allAnimeData.onHold);
+            state.value.initialized = true;
+        } catch (error) {
+            state.value.error = error instanceof Error ? error.message : String(error);
+            console.error("Failed to initialize on-hold store:", error);
+        } finally {
+            state.value.loading = false;
+        }
+    }
+
+    /**
+     * Remove an item from this list optimistically while `run` executes
+     */
+    async function leaveList(
+        animeId: string,
+        run: () => Promise<any>,
+        queue: { type: string; description: string; fallbackSuccess: string; fallbackError: string },
+    ): Promise<StoreActionResult> {
+        const currentItem = state.value.itemsMap[animeId];
+        const itemIndex = state.value.items.findIndex((item) => item.animeId === animeId);
+        if (!currentItem || itemIndex === -1) {
+            lastError.value = "Anime not found in on-hold list";
+            return { success: false, error: lastError.value };
+        }
+        const snapshot = { item: currentItem, index: itemIndex };
+        const offlineQueue = getOfflineQueue();
+        return offlineQueue.enqueueRunStoreAction(
+            {
+                run,
+                onOptimistic: () => {
+                    state.value.items.splice(snapshot.index, 1);
+                    delete state.value.itemsMap[animeId];
+                },
+                onRollback: () => {
+                    state.value.items.splice(snapshot.index, 0, snapshot.item);
+                    state.value.itemsMap[animeId] = snapshot.item;
+                },
+                successToast: (r: any) => r?.message || queue.fallbackSuccess,
+                errorToast: (m) => m || queue.fallbackError,
+                setLastError: (m) => (lastError.value = m),
+            },
+            { type: queue.type, description: queue.description, payload: { animeId } },
+        );
+    }
+
+    /**
+     * Resume watching an on-hold anime from the episode it was left at
+     */
+    async function resume(animeId: string): Promise<StoreActionResult> {
+        return leaveList(animeId, () => animeService.resumeWatching(animeId), {
+            type: "onHold:resume",
+            description: `Resume ${animeId}`,
+            fallbackSuccess: "Resumed watching",
+            fallbackError: "Resume failed",
+        });
+    }
+
+    /**
+     * Mark an on-hold anime as completed
+     */
+    async function complete(animeId: string): Promise<StoreActionResult> {
+        return leaveList(animeId, () => animeService.completeAnime(animeId), {
+            type: "onHold:complete",
+            description: `Complete ${animeId}`,
+            fallbackSuccess: "Marked as completed",
+            fallbackError: "Completion failed",
+        });
+    }
+
+    /**
+     * Drop an on-hold anime
+     */
+    async function drop(animeId: string): Promise<StoreActionResult> {
+        return leaveList(animeId, () => animeService.dropAnime(animeId), {
+            type: "onHold:drop",
+            description: `Drop ${animeId}`,
+            fallbackSuccess: "Dropped anime",
+            fallbackError: "Drop failed",
+        });
+    }
+
+    /**
+     * Remove an anime from the on-hold list
+     */
+    async function removeFromOnHold(animeId: string): Promise<StoreActionResult> {
+        return leaveList(animeId, () => animeService.removeFromOnHold(animeId), {
+            type: "onHold:remove",
+            description: `Remove ${animeId} from on hold`,
+            fallbackSuccess: "Removed from on hold",
+            fallbackError: "Removal failed",
+        });
+    }
+
+    /**
+     * Refresh store data from storage - called by storage sync plugin
+     */
+    async function refreshFromStorage(): Promise<void> {
+        console.log(`[OnHoldStore] Refreshing from storage due to external changes`);
+        try {
+            const allAnimeData = await animeService.getAllAnime();
+            applyItems(allAnimeData.onHold);
+            state.value.error = null;
+        } catch (error) {
+            state.value.error = error instanceof Error ? error.message : String(error);
+            console.error("Failed to refresh on-hold items:", error);
+        }
+    }
+
+    return {
+        // State (read-only)
+        items: computed(() => state.value.items),
+        itemsMap: computed(() => state.value.itemsMap),
+
+        // Getters
+        count,
+        sortedByTitle,
+        byId,
+        isLoading,
+        hasError,
+        isInitialized,
+        error: computed(() => state.value.error),
+
+        // Actions
+        init,
+        resume,
+        complete,
+        drop,
+        removeFromOnHold,
+        refreshFromStorage,
+
+        // Action state
+        lastError: computed(() => lastError.value),
+        __snapshot: () => ({
+            items: state.value.items.map((i) => ({ ...i })),
+        }),
+        __restore: (snap: any) => {
+            if (!snap || !Array.isArray(snap.items)) return;
+            applyItems(snap.items.map((i: OnHoldAnime) => ({ ...i })));
+        },
+    };
+});
+
+registerOfflineAction("onHold:resume", (payload: any) => {
+    const { animeId } = payload;
+    const service = new AnimeService();
+    return {
+        config: { run: () => service.resumeWatching(animeId), expectSuccessField: true },
+        validate: () => {
+            const store = useOnHoldStore();
+            return Boolean(store.itemsMap[animeId]);
+        },
+    };
+});
+registerOfflineAction("onHold:remove", (payload: any) => {
+    const { animeId } = payload;
+    const service = new AnimeService();
+    return {
+        config: { run: () => service.removeFromOnHold(animeId), expectSuccessField: true },
+        validate: () => {
+            const store = useOnHoldStore();
+            return Boolean(store.itemsMap[animeId]);
+        },
+    };
+});
+registerOfflineAction("onHold:complete", (payload: any) => {
+    const { animeId } = payload;
+    const service = new AnimeService();
+    return {
+        config: { run: () => service.completeAnime(animeId), expectSuccessField: true },
+        validate: () => {
+            const store = useOnHoldStore();
+            return Boolean(store.itemsMap[animeId]);
+        },
+    };
+});
+registerOfflineAction("onHold:drop", (payload: any) => {
+    const { animeId } = payload;
+    const service = new AnimeService();
+    return {
+        config: { run: () => service.dropAnime(animeId), expectSuccessField: true },
+        validate: () => {
+            const store = useOnHoldStore();
+            return Boolean(store.itemsMap[animeId]);
+        },
+    };
+});
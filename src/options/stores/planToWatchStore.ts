@@ -142,6 +142,49 @@ export const usePlanToWatchStore = defineStore("planToWatch", () => {
         );
     }
 
+    /**
+     * Start watching a planned anime from the given episode, which moves it
+     * off the plan
+     */
+    async function startWatching(animeId: string, episodeNumber: number = 1): Promise<StoreActionResult> {
+        const currentItem = state.value.itemsMap[animeId];
+        const itemIndex = state.value.items.findIndex((item) => item.animeId === animeId);
+        if (!currentItem || itemIndex === -1) {
+            lastError.value = "Anime not found in plan to watch list";
+            return { success: false, error: lastError.value };
+        }
+        const anime: AnimeData = {
+            animeId: currentItem.animeId,
+            animeTitle: currentItem.animeTitle,
+            animeSlug: currentItem.animeSlug,
+            ...(currentItem.siteId && { siteId: currentItem.siteId }),
+            ...(currentItem.episodeUrlTemplate && { episodeUrlTemplate: currentItem.episodeUrlTemplate }),
+        };
+        const snapshot = { item: currentItem, index: itemIndex };
+        const offlineQueue = getOfflineQueue();
+        return offlineQueue.enqueueRunStoreAction(
+            {
+                run: () => animeService.startWatching(anime, episodeNumber),
+                onOptimistic: () => {
+                    state.value.items.splice(snapshot.index, 1);
+                    delete state.value.itemsMap[animeId];
+                },
+                onRollback: () => {
+                    state.value.items.splice(snapshot.index, 0, snapshot.item);
+                    state.value.itemsMap[animeId] = snapshot.item;
+                },
+                successToast: (r: any) => r?.message || `Started ${anime.animeTitle}`,
+                errorToast: (m) => m || `Failed to start ${anime.animeTitle}`,
+                setLastError: (m) => (lastError.value = m),
+            },
+            {
+                type: "plan:start",
+                description: `Start ${anime.animeTitle} from episode ${episodeNumber}`,
+                payload: { anime, episodeNumber },
+            },
+        );
+    }
+
     // Internal helper methods
     async function refreshItems(): Promise<void> {
         try {
@@ -192,6 +235,7 @@ export const usePlanToWatchStore = defineStore("planToWatch", () => {
         init,
         addToPlan,
         removeFromPlan,
+        startWatching,
 
         // Phase 6: Storage sync integration
         refreshFromStorage,
@@ -233,3 +277,14 @@ registerOfflineAction("plan:remove", (payload: any) => {
         },
     };
 });
+registerOfflineAction("plan:start", (payload: any) => {
+    const anime: AnimeData = payload.anime;
+    const service = new AnimeService();
+    return {
+        config: { run: () => service.startWatching(anime, payload.episodeNumber), expectSuccessField: true },
+        validate: () => {
+            const store = usePlanToWatchStore();
+            return Boolean(store.itemsMap[anime.animeId]);
+        },
+    };
+});
@@ -1,4 +1,5 @@
 import { StorageKeys } from "@/commons/models";
+import { listKeyOf } from "@/commons/utils/storageKeys";
 import { useDebounceFn } from "@vueuse/core";
 import type { PiniaPluginContext } from "pinia";
 
@@ -58,6 +59,46 @@ function handleStorageChanges(stores: Map<string, any>): void {
                 break;
             }
 
+            case StorageKeys.COMPLETED: {
+                const completedStore = stores.get("completed");
+                if (completedStore && completedStore.refreshFromStorage) {
+                    completedStore.refreshFromStorage();
+                }
+                break;
+            }
+
+            case StorageKeys.DROPPED: {
+                const droppedStore = stores.get("dropped");
+                if (droppedStore && droppedStore.refreshFromStorage) {
+                    droppedStore.refreshFromStorage();
+                }
+                break;
+            }
+
+            case StorageKeys.ON_HOLD: {
+                const onHoldStore = stores.get("onHold");
+                if (onHoldStore && onHoldStore.refreshFromStorage) {
+                    onHoldStore.refreshFromStorage();
+                }
+                break;
+            }
+
+            case StorageKeys.CUSTOM_LISTS: {
+                const customListsStore = stores.get("customLists");
+                if (customListsStore && customListsStore.refreshFromStorage) {
+                    customListsStore.refreshFromStorage();
+                }
+                break;
+            }
+
+            case StorageKeys.USER_DATA: {
+                const userDataStore = stores.get("userData");
+                if (userDataStore && userDataStore.refreshFromStorage) {
+                    userDataStore.refreshFromStorage();
+                }
+                break;
+            }
+
             default:
                 console.log(`[StorageSyncPlugin] Ignoring unknown storage key: ${storageKey}`);
                 break;
@@ -102,12 +143,14 @@ function onStorageChanged(
     const relevantChanges: StorageKeys[] = [];
 
     for (const [key, change] of Object.entries(changes)) {
-        if (Object.values(StorageKeys).includes(key as StorageKeys)) {
+        // Per-anime item and index keys map back to the list they belong to
+        const listKey = listKeyOf(key);
+        if (listKey && !relevantChanges.includes(listKey)) {
             console.log(`[StorageSyncPlugin] Detected change in ${key}:`, {
                 oldValue: change.oldValue ? "present" : "empty",
                 newValue: change.newValue ? "present" : "empty",
             });
-            relevantChanges.push(key as StorageKeys);
+            relevantChanges.push(listKey);
         }
     }
 
@@ -180,6 +223,15 @@ export function storageSyncPlugin(context: PiniaPluginContext): void {
                 "hide",
                 "unhide",
                 "clearAllHidden",
+                "completeAnime",
+                "dropAnime",
+                "putOnHold",
+                "resume",
+                "complete",
+                "drop",
+                "removeFromCompleted",
+                "removeFromDropped",
+                "removeFromOnHold",
             ].includes(name)
         ) {
             isPluginWrite = true;
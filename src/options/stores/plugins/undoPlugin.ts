@@ -11,6 +11,15 @@ const TRACKED_ACTIONS = new Set([
     "hide",
     "unhide",
     "clearAllHidden",
+    "completeAnime",
+    "dropAnime",
+    "putOnHold",
+    "resume",
+    "complete",
+    "drop",
+    "removeFromCompleted",
+    "removeFromDropped",
+    "removeFromOnHold",
 ]);
 
 interface SnapshotCapableStore {
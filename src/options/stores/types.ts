@@ -1,4 +1,14 @@
-import type { AnimeData, EpisodeProgress, PlanToWatch } from "@/commons/models";
+import type {
+    AnimeData,
+    AnimeUserData,
+    CompletedAnime,
+    CustomList,
+    DroppedAnime,
+    EpisodeProgress,
+    HiddenAnime,
+    OnHoldAnime,
+    PlanToWatch,
+} from "@/commons/models";
 
 /**
  * Generic async state wrapper for store data
@@ -52,10 +62,71 @@ export interface PlanToWatchState extends Omit<AnimeListState, "items" | "itemsM
 }
 
 /**
- * Hidden anime state - uses basic AnimeData since we only need ID and title
+ * Completed anime specific state extending AnimeListState
  */
-export interface HiddenAnimeState extends AnimeListState {
-    // Uses the base AnimeListState as-is
+export interface CompletedAnimeState extends Omit<AnimeListState, "items" | "itemsMap"> {
+    /** Array of completed items */
+    items: CompletedAnime[];
+    /** Map for O(1) lookup by animeId */
+    itemsMap: Record<string, CompletedAnime>;
+}
+
+/**
+ * Dropped anime specific state extending AnimeListState
+ */
+export interface DroppedAnimeState extends Omit<AnimeListState, "items" | "itemsMap"> {
+    /** Array of dropped items */
+    items: DroppedAnime[];
+    /** Map for O(1) lookup by animeId */
+    itemsMap: Record<string, DroppedAnime>;
+}
+
+/**
+ * On-hold anime specific state extending AnimeListState
+ */
+export interface OnHoldAnimeState extends Omit<AnimeListState, "items" | "itemsMap"> {
+    /** Array of on-hold items */
+    items: OnHoldAnime[];
+    /** Map for O(1) lookup by animeId */
+    itemsMap: Record<string, OnHoldAnime>;
+}
+
+/**
+ * Hidden anime specific state extending AnimeListState
+ */
+export interface HiddenAnimeState extends Omit<AnimeListState, "items" | "itemsMap"> {
+    /** Array of hidden items */
+    items: HiddenAnime[];
+    /** Map for O(1) lookup by animeId */
+    itemsMap: Record<string, HiddenAnime>;
+}
+
+/**
+ * User-created lists state
+ */
+export interface CustomListsState {
+    /** Lists in the order they were created */
+    lists: CustomList[];
+    /** Loading state */
+    loading: boolean;
+    /** Error state */
+    error: string | null;
+    /** Whether the store has been initialized */
+    initialized: boolean;
+}
+
+/**
+ * Ratings, notes and tags state
+ */
+export interface UserDataState {
+    /** Records keyed by anime id; anime without any have no entry */
+    itemsMap: Record<string, AnimeUserData>;
+    /** Loading state */
+    loading: boolean;
+    /** Error state */
+    error: string | null;
+    /** Whether the store has been initialized */
+    initialized: boolean;
 }
 
 /**
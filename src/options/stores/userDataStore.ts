@@ -0,0 +1,115 @@
+import { defineStore } from "pinia";
+import { computed, ref } from "vue";
+
+import type { AnimeUserData, AnimeUserDataChanges } from "@/commons/models";
+import { AnimeService } from "@/commons/services/AnimeService";
+import { runStoreAction } from "@/options/commons/actionHelpers";
+import type { StoreActionResult, UserDataState } from "@/options/stores/types";
+
+/**
+ * Pinia store for the ratings, notes and tags the user keeps per anime
+ */
+export const useUserDataStore = defineStore("userData", () => {
+    // State
+    const state = ref<UserDataState>({
+        itemsMap: {},
+        loading: false,
+        error: null,
+        initialized: false,
+    });
+
+    // Action error tracking
+    const lastError = ref<string | null>(null);
+
+    const animeService = new AnimeService();
+
+    // Getters
+    const byId = computed(() => (animeId: string): AnimeUserData | undefined => {
+        return state.value.itemsMap[animeId];
+    });
+
+    /** Every tag in use, sorted; tags differing only in case are listed once */
+    const allTags = computed(() => {
+        const tags = new Map<string, string>();
+        Object.values(state.value.itemsMap).forEach((record) => {
+            record.tags.forEach((tag) => {
+                if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+            });
+        });
+        return [...tags.values()].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: "base" }));
+    });
+
+    const isLoading = computed(() => state.value.loading);
+    const hasError = computed(() => state.value.error !== null);
+    const isInitialized = computed(() => state.value.initialized);
+
+    // Actions
+    async function init(): Promise<void> {
+        // Idempotent initialization - only run once
+        if (state.value.initialized) {
+            return;
+        }
+
+        state.value.loading = true;
+        state.value.error = null;
+
+        try {
+            state.value.itemsMap = await animeService.getUserData();
+            state.value.initialized = true;
+        } catch (error) {
+            state.value.error = error instanceof Error ? error.message : String(error);
+            console.error("Failed to initialize user data store:", error);
+        } finally {
+            state.value.loading = false;
+        }
+    }
+
+    /**
+     * Save a rating, notes or tags, then reload so the stored (normalized)
+     * values are shown
+     */
+    async function update(animeId: string, changes: AnimeUserDataChanges): Promise<StoreActionResult> {
+        const result = await runStoreAction({
+            run: () => animeService.updateUserData(animeId, changes),
+            setLastError: (message) => (lastError.value = message),
+        });
+        if (result.success) {
+            await refreshFromStorage();
+        }
+        return result;
+    }
+
+    /**
+     * Refresh store data from storage - called by storage sync plugin
+     */
+    async function refreshFromStorage(): Promise<void> {
+        try {
+            state.value.itemsMap = await animeService.getUserData();
+            state.value.error = null;
+        } catch (error) {
+            state.value.error = error instanceof Error ? error.message : String(error);
+            console.error("Failed to refresh user data:", error);
+        }
+    }
+
+    return {
+        // State (read-only)
+        itemsMap: computed(() => state.value.itemsMap),
+
+        // Getters
+        byId,
+        allTags,
+        isLoading,
+        hasError,
+        isInitialized,
+        error: computed(() => state.value.error),
+
+        // Actions
+        init,
+        update,
+        refreshFromStorage,
+
+        // Action state
+        lastError: computed(() => lastError.value),
+    };
+});
@@ -231,6 +231,79 @@ export const useWatchingStore = defineStore("watching", () => {
         );
     }
 
+    /**
+     * Move an anime out of the watching list into completed / dropped / on-hold.
+     * The item leaves this store optimistically; the destination store picks
+     * it up through storage sync.
+     */
+    async function transitionOut(
+        animeId: string,
+        run: () => Promise<any>,
+        queue: { type: string; description: string; fallbackSuccess: string; fallbackError: string },
+    ): Promise<StoreActionResult> {
+        const currentItem = state.value.itemsMap[animeId];
+        const itemIndex = state.value.items.findIndex((item) => item.animeId === animeId);
+        if (!currentItem || itemIndex === -1) {
+            lastError.value = "Anime not found in watching list";
+            return { success: false, error: lastError.value };
+        }
+        const snapshot = { item: currentItem, index: itemIndex };
+        const offlineQueue = getOfflineQueue();
+        return offlineQueue.enqueueRunStoreAction(
+            {
+                run,
+                onOptimistic: () => {
+                    state.value.items.splice(snapshot.index, 1);
+                    delete state.value.itemsMap[animeId];
+                },
+                onRollback: () => {
+                    state.value.items.splice(snapshot.index, 0, snapshot.item);
+                    state.value.itemsMap[animeId] = snapshot.item;
+                },
+                successToast: (r: any) => r?.message || queue.fallbackSuccess,
+                errorToast: (m) => m || queue.fallbackError,
+                setLastError: (m) => (lastError.value = m),
+            },
+            { type: queue.type, description: queue.description, payload: { animeId } },
+        );
+    }
+
+    /**
+     * Mark an anime as completed
+     */
+    async function completeAnime(animeId: string): Promise<StoreActionResult> {
+        return transitionOut(animeId, () => animeService.completeAnime(animeId), {
+            type: "watching:complete",
+            description: `Complete ${animeId}`,
+            fallbackSuccess: "Marked as completed",
+            fallbackError: "Completion failed",
+        });
+    }
+
+    /**
+     * Drop an anime
+     */
+    async function dropAnime(animeId: string): Promise<StoreActionResult> {
+        return transitionOut(animeId, () => animeService.dropAnime(animeId), {
+            type: "watching:drop",
+            description: `Drop ${animeId}`,
+            fallbackSuccess: "Dropped anime",
+            fallbackError: "Drop failed",
+        });
+    }
+
+    /**
+     * Put an anime on hold
+     */
+    async function putOnHold(animeId: string): Promise<StoreActionResult> {
+        return transitionOut(animeId, () => animeService.putOnHold(animeId), {
+            type: "watching:hold",
+            description: `Put ${animeId} on hold`,
+            fallbackSuccess: "Put on hold",
+            fallbackError: "Pause failed",
+        });
+    }
+
     // Internal helper methods
     async function refreshItems(): Promise<void> {
         try {
@@ -282,6 +355,9 @@ export const useWatchingStore = defineStore("watching", () => {
         incrementEpisode,
         decrementEpisode,
         stopWatching,
+        completeAnime,
+        dropAnime,
+        putOnHold,
 
         // Phase 6: Storage sync integration
         refreshFromStorage,
@@ -363,3 +439,36 @@ registerOfflineAction("watching:stop", (payload: any) => {
         },
     };
 });
+registerOfflineAction("watching:complete", (payload: any) => {
+    const { animeId } = payload;
+    const service = new AnimeService();
+    return {
+        config: { run: () => service.completeAnime(animeId), expectSuccessField: true },
+        validate: () => {
+            const store = useWatchingStore();
+            return Boolean(store.itemsMap[animeId]);
+        },
+    };
+});
+registerOfflineAction("watching:drop", (payload: any) => {
+    const { animeId } = payload;
+    const service = new AnimeService();
+    return {
+        config: { run: () => service.dropAnime(animeId), expectSuccessField: true },
+        validate: () => {
+            const store = useWatchingStore();
+            return Boolean(store.itemsMap[animeId]);
+        },
+    };
+});
+registerOfflineAction("watching:hold", (payload: any) => {
+    const { animeId } = payload;
+    const service = new AnimeService();
+    return {
+        config: { run: () => service.putOnHold(animeId), expectSuccessField: true },
+        validate: () => {
+            const store = useWatchingStore();
+            return Boolean(store.itemsMap[animeId]);
+        },
+    };
+});
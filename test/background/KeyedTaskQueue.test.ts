@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import { KeyedTaskQueue } from "@/background/KeyedTaskQueue";
+
+function deferred() {
+    let resolve!: () => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("KeyedTaskQueue", () => {
+    it("should run tasks sharing a key one after another", async () => {
+        const queue = new KeyedTaskQueue();
+        const first = deferred();
+        const order: string[] = [];
+
+        const a = queue.run(["progress"], async () => {
+            order.push("a:start");
+            await first.promise;
+            order.push("a:end");
+        });
+        const b = queue.run(["progress", "plan"], async () => {
+            order.push("b");
+        });
+
+        await flush();
+        expect(order).toEqual(["a:start"]);
+
+        first.resolve();
+        await Promise.all([a, b]);
+        expect(order).toEqual(["a:start", "a:end", "b"]);
+    });
+
+    it("should run tasks on unrelated keys concurrently", async () => {
+        const queue = new KeyedTaskQueue();
+        const first = deferred();
+        const order: string[] = [];
+
+        void queue.run(["progress"], () => first.promise);
+        await queue.run(["hidden"], async () => {
+            order.push("hidden");
+        });
+
+        expect(order).toEqual(["hidden"]);
+        first.resolve();
+    });
+
+    it("should run tasks without keys immediately", async () => {
+        const queue = new KeyedTaskQueue();
+        void queue.run(["progress"], () => new Promise(() => {}));
+
+        await expect(queue.run([], async () => "read")).resolves.toBe("read");
+    });
+
+    it("should keep going after a task fails", async () => {
+        const queue = new KeyedTaskQueue();
+        const failing = queue.run(["progress"], async () => {
+            throw new Error("write failed");
+        });
+        const next = queue.run(["progress"], async () => "ok");
+
+        await expect(failing).rejects.toThrow("write failed");
+        await expect(next).resolves.toBe("ok");
+    });
+});
@@ -0,0 +1,379 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { AnimeRequestHandler, isAnimeRequest } from "@/background/animeMessages";
+import { MigrationRunner } from "@/commons/migrations";
+import type { EpisodeProgress } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { animeItemKey } from "@/commons/utils/storageKeys";
+import { ActivityLogRepository, WatchHistoryRepository } from "@/commons/repositories";
+import { LibraryBackupService } from "@/commons/services/LibraryBackupService";
+import { LocalAnimeService } from "@/commons/services/LocalAnimeService";
+
+let storage: Record<string, any> = {};
+
+/** Storage entries for progress records in the per-anime layout */
+const progressEntries = (...records: EpisodeProgress[]) => ({
+    [StorageKeys.EPISODE_PROGRESS_INDEX]: records.map((record) => record.animeId),
+    ...Object.fromEntries(
+        records.map((record) => [animeItemKey(StorageKeys.EPISODE_PROGRESS, record.animeId), record]),
+    ),
+});
+
+const storedProgress = (animeId: string) => storage[animeItemKey(StorageKeys.EPISODE_PROGRESS, animeId)];
+
+/** Storage whose callbacks fire on a later tick, so unserialized writes interleave like real ones */
+function useAsyncMemoryStorage(initial: Record<string, any>): void {
+    storage = JSON.parse(JSON.stringify(initial));
+    const local = chrome.storage.local as any;
+    local.get.mockImplementation((keys: string | string[], callback: (result: Record<string, any>) => void) => {
+        const result: Record<string, any> = {};
+        (Array.isArray(keys) ? keys : [keys]).forEach((key) => {
+            if (key in storage) result[key] = JSON.parse(JSON.stringify(storage[key]));
+        });
+        setTimeout(() => callback(result), 0);
+    });
+    local.set.mockImplementation((items: Record<string, any>, callback?: () => void) => {
+        setTimeout(() => {
+            Object.assign(storage, JSON.parse(JSON.stringify(items)));
+            callback?.();
+        }, 0);
+    });
+    local.remove.mockImplementation((keys: string | string[], callback?: () => void) => {
+        setTimeout(() => {
+            (Array.isArray(keys) ? keys : [keys]).forEach((key) => delete storage[key]);
+            callback?.();
+        }, 0);
+    });
+}
+
+const progress = (animeId: string, currentEpisode: number): EpisodeProgress => ({
+    animeId,
+    animeTitle: animeId,
+    animeSlug: animeId,
+    currentEpisode,
+    episodeId: `${animeId}-episode-${currentEpisode}`,
+    lastWatched: "2025-01-01T00:00:00.000Z",
+});
+
+describe("isAnimeRequest", () => {
+    it("should accept known anime request types", () => {
+        expect(isAnimeRequest({ type: "UPDATE_EPISODE", animeId: "a", episodeNumber: 2 })).toBe(true);
+        expect(isAnimeRequest({ type: "GET_ALL_ANIME" })).toBe(true);
+    });
+
+    it("should reject other messages", () => {
+        expect(isAnimeRequest({ type: "SYNC_NOW" })).toBe(false);
+        expect(isAnimeRequest({ type: "toString" })).toBe(false);
+        expect(isAnimeRequest(null)).toBe(false);
+        expect(isAnimeRequest("GET_STATUS")).toBe(false);
+    });
+});
+
+describe("AnimeRequestHandler", () => {
+    beforeEach(() => {
+        useAsyncMemoryStorage({
+            ...progressEntries(progress("a", 1), progress("b", 1)),
+        });
+    });
+
+    it("should not lose updates when two contexts change progress at the same time", async () => {
+        const handler = new AnimeRequestHandler();
+
+        const responses = await Promise.all([
+            handler.handle({ type: "UPDATE_EPISODE", animeId: "a", episodeNumber: 5 }),
+            handler.handle({ type: "UPDATE_EPISODE", animeId: "b", episodeNumber: 7 }),
+            handler.handle({ type: "UPDATE_POSTER", animeId: "a", posterUrl: "https://cdn.example/a.jpg" }),
+        ]);
+
+        expect(responses.every((response) => response.ok)).toBe(true);
+        expect(storedProgress("a")).toMatchObject({
+            currentEpisode: 5,
+            posterUrl: "https://cdn.example/a.jpg",
+        });
+        expect(storedProgress("b").currentEpisode).toBe(7);
+    });
+
+    it("should keep every watch history entry when progress changes at the same time", async () => {
+        const handler = new AnimeRequestHandler();
+
+        await Promise.all([
+            handler.handle({ type: "UPDATE_EPISODE", animeId: "a", episodeNumber: 2 }),
+            handler.handle({ type: "UPDATE_EPISODE", animeId: "b", episodeNumber: 2, source: "auto" }),
+        ]);
+
+        expect(await new WatchHistoryRepository().findAll()).toEqual([
+            expect.objectContaining({ animeId: "a", episode: 2, source: "manual" }),
+            expect.objectContaining({ animeId: "b", episode: 2, source: "auto" }),
+        ]);
+    });
+
+    it("should leave no history behind when an automatic update is undone", async () => {
+        const handler = new AnimeRequestHandler();
+        await handler.handle({ type: "UPDATE_EPISODE", animeId: "a", episodeNumber: 2 });
+        await handler.handle({ type: "UPDATE_EPISODE", animeId: "a", episodeNumber: 3, source: "auto" });
+
+        const undone = await handler.handle({
+            type: "UNDO_AUTO_EPISODE",
+            animeId: "a",
+            episodeNumber: 3,
+            previousEpisode: 2,
+        });
+
+        expect(undone).toMatchObject({ ok: true, result: { success: true } });
+        expect(storedProgress("a").currentEpisode).toBe(2);
+        expect(await new WatchHistoryRepository().findAll()).toEqual([
+            expect.objectContaining({ animeId: "a", episode: 2, source: "manual" }),
+        ]);
+        expect(await new ActivityLogRepository().findAll()).toEqual([
+            expect.objectContaining({ animeId: "a", action: "episode", episode: 2 }),
+        ]);
+    });
+
+    it("should keep every activity event when a progress change and an unhide run at the same time", async () => {
+        useAsyncMemoryStorage({
+            ...progressEntries(progress("a", 1)),
+            [StorageKeys.HIDDEN_ANIME]: {
+                h: { animeId: "h", animeTitle: "h", animeSlug: "h", hiddenAt: "2025-01-01T00:00:00.000Z" },
+            },
+        });
+        const handler = new AnimeRequestHandler();
+
+        await Promise.all([
+            handler.handle({ type: "UPDATE_EPISODE", animeId: "a", episodeNumber: 2 }),
+            handler.handle({ type: "UNHIDE", animeId: "h" }),
+        ]);
+
+        expect((await new ActivityLogRepository().findAll()).map(({ action }) => action).sort()).toEqual([
+            "episode",
+            "unhidden",
+        ]);
+    });
+
+    it("should not lose progress updates made while a backup is imported", async () => {
+        const handler = new AnimeRequestHandler();
+        const backup = LibraryBackupService.createBackup({
+            ...LibraryBackupService.emptyLibrary(),
+            [StorageKeys.EPISODE_PROGRESS]: { c: progress("c", 2) },
+        });
+
+        const [updated, imported] = await Promise.all([
+            handler.handle({ type: "UPDATE_EPISODE", animeId: "a", episodeNumber: 5 }),
+            handler.handle({ type: "IMPORT_LIBRARY", backup, modes: {} }),
+        ]);
+
+        expect(updated).toEqual({ ok: true, result: expect.objectContaining({ success: true }) });
+        expect(imported).toEqual({ ok: true, result: expect.objectContaining({ success: true }) });
+        expect(storedProgress("a").currentEpisode).toBe(5);
+        expect(storedProgress("c").currentEpisode).toBe(2);
+    });
+
+    it("should save the tile and folder order the content script sends", async () => {
+        const handler = new AnimeRequestHandler();
+        const folderOrder = { folders: [], rootItems: ["b", "a"], folderContents: {}, lastUpdated: "2025-01-01" };
+
+        await handler.handle({ type: "SAVE_FOLDER_ORDER", folderOrder });
+        await handler.handle({ type: "SAVE_TILE_ORDER", animeIds: ["b", "a"] });
+
+        expect(storage[StorageKeys.FOLDER_ORDER]).toEqual(folderOrder);
+        expect(storage[StorageKeys.TILE_ORDER]).toEqual({ animeIds: ["b", "a"], lastUpdated: expect.any(String) });
+
+        await handler.handle({ type: "CLEAR_TILE_ORDER" });
+        expect(storage[StorageKeys.TILE_ORDER]).toBeUndefined();
+    });
+
+    it("should answer with the service result", async () => {
+        const handler = new AnimeRequestHandler();
+
+        const response = await handler.handle({ type: "GET_STATUS", animeId: "a" });
+
+        expect(response).toEqual({ ok: true, result: expect.objectContaining({ isTracked: true, isHidden: false }) });
+    });
+
+    it("should answer a batched status lookup without waiting on queued writes", async () => {
+        const handler = new AnimeRequestHandler();
+        const run = vi.spyOn(handler.queue, "run");
+
+        const response = await handler.handle({ type: "GET_STATUSES", animeIds: ["a", "b"] });
+
+        expect(response).toEqual({
+            ok: true,
+            result: {
+                a: expect.objectContaining({ isTracked: true }),
+                b: expect.objectContaining({ isTracked: true }),
+            },
+        });
+        expect(run).toHaveBeenCalledWith([], expect.any(Function));
+    });
+
+    it("should answer for a merged entry from the entry it was merged into", async () => {
+        const handler = new AnimeRequestHandler();
+
+        const merged = await handler.handle({ type: "MERGE_ANIME", keepId: "a", mergeId: "b" });
+        const updated = await handler.handle({ type: "UPDATE_EPISODE", animeId: "b", episodeNumber: 3 });
+        const status = await handler.handle({ type: "GET_STATUS", animeId: "b" });
+
+        expect(merged).toEqual({ ok: true, result: expect.objectContaining({ success: true }) });
+        expect(updated).toEqual({ ok: true, result: expect.objectContaining({ success: true }) });
+        expect(status).toEqual({
+            ok: true,
+            result: expect.objectContaining({
+                isTracked: true,
+                progress: expect.objectContaining({ animeId: "a", currentEpisode: 3 }),
+            }),
+        });
+        expect(storedProgress("b")).toBeUndefined();
+    });
+
+    it("should answer with the error when the service throws", async () => {
+        class FailingService extends LocalAnimeService {
+            override async getAllAnime(): Promise<never> {
+                throw new Error("storage unavailable");
+            }
+        }
+        const handler = new AnimeRequestHandler(new FailingService());
+
+        await expect(handler.handle({ type: "GET_ALL_ANIME" })).resolves.toEqual({
+            ok: false,
+            error: "storage unavailable",
+        });
+        expect(console.error).toHaveBeenCalledWith("[Background] GET_ALL_ANIME failed:", expect.any(Error));
+    });
+
+    it("should hold requests until storage is migrated", async () => {
+        let finishMigrating!: () => void;
+        const migrated = new Promise<void>((resolve) => {
+            finishMigrating = resolve;
+        });
+        const handler = new AnimeRequestHandler(undefined, undefined, () => migrated);
+
+        const response = handler.handle({ type: "UPDATE_EPISODE", animeId: "a", episodeNumber: 4 });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(storedProgress("a").currentEpisode).toBe(1);
+
+        finishMigrating();
+        await expect(response).resolves.toEqual({ ok: true, result: expect.objectContaining({ success: true }) });
+        expect(storedProgress("a").currentEpisode).toBe(4);
+    });
+
+    it("should answer with the error when storage could not be migrated", async () => {
+        const handler = new AnimeRequestHandler(undefined, undefined, () => Promise.reject(new Error("quota")));
+
+        await expect(handler.handle({ type: "UPDATE_EPISODE", animeId: "a", episodeNumber: 4 })).resolves.toEqual({
+            ok: false,
+            error: "quota",
+        });
+        expect(storedProgress("a").currentEpisode).toBe(1);
+    });
+
+    it("should hide an anime against storage still in the pre-v5 layout", async () => {
+        useAsyncMemoryStorage({
+            [StorageKeys.SCHEMA_VERSION]: 4,
+            [StorageKeys.HIDDEN_ANIME]: ["old-anime"],
+        });
+        const runner = new MigrationRunner();
+        const handler = new AnimeRequestHandler(undefined, undefined, async () => {
+            await runner.run();
+        });
+
+        const hidden = await handler.handle({
+            type: "HIDE",
+            animeData: { animeId: "new-anime", animeTitle: "New Anime", animeSlug: "new-anime" },
+        });
+        const oldStatus = await handler.handle({ type: "GET_STATUS", animeId: "old-anime" });
+
+        expect(hidden).toEqual({ ok: true, result: expect.objectContaining({ success: true }) });
+        expect(oldStatus).toEqual({ ok: true, result: expect.objectContaining({ isHidden: true }) });
+        expect(storage[StorageKeys.HIDDEN_ANIME]).toEqual({
+            "old-anime": expect.objectContaining({ animeId: "old-anime" }),
+            "new-anime": expect.objectContaining({ animeId: "new-anime", animeTitle: "New Anime" }),
+        });
+    });
+
+    it("should not lose settings changes the options page makes at the same time", async () => {
+        const handler = new AnimeRequestHandler();
+
+        await Promise.all([
+            handler.handle({ type: "UPDATE_SETTINGS", section: "autoTrack", changes: { enabled: true } }),
+            handler.handle({ type: "UPDATE_SETTINGS", section: "autoTrack", changes: { dwellSeconds: 45 } }),
+        ]);
+
+        expect(storage[StorageKeys.SETTINGS].autoTrack).toEqual(
+            expect.objectContaining({ enabled: true, dwellSeconds: 45 }),
+        );
+    });
+
+    it("should save hide rules and refuse one that does not compile", async () => {
+        const handler = new AnimeRequestHandler();
+        const rule = {
+            id: "rule-1",
+            kind: "keyword" as const,
+            value: "Recap",
+            enabled: true,
+            createdAt: "2025-01-01T00:00:00.000Z",
+        };
+
+        await Promise.all([
+            handler.handle({ type: "SAVE_HIDE_RULE", rule }),
+            handler.handle({ type: "SAVE_HIDE_RULE", rule: { ...rule, id: "rule-2", value: "Dub" } }),
+        ]);
+        await handler.handle({ type: "UPDATE_HIDE_RULE", ruleId: "rule-1", changes: { enabled: false } });
+        const invalid = await handler.handle({
+            type: "SAVE_HIDE_RULE",
+            rule: { ...rule, id: "rule-3", kind: "pattern", value: "Season (2" },
+        });
+
+        expect(invalid).toEqual({ ok: true, result: expect.objectContaining({ success: false }) });
+        expect(storage[StorageKeys.HIDE_RULES]).toEqual([
+            { ...rule, enabled: false },
+            { ...rule, id: "rule-2", value: "Dub" },
+        ]);
+    });
+
+    it("should save, edit and delete custom adapters", async () => {
+        const handler = new AnimeRequestHandler();
+        const listPageOnly = {
+            id: "mysite",
+            label: "My Site",
+            hosts: ["mysite.example"],
+            list: {
+                containerSelector: ".grid",
+                cardSelector: ".card",
+                titleSelector: ".title",
+                linkSelector: "a",
+                linkPattern: "^/anime/(?<slug>[^/]+)$",
+                injectionSelector: ".poster",
+            },
+        };
+        const definition = {
+            ...listPageOnly,
+            watchPage: { pathPattern: "^/watch/(?<slug>[^/]+)/(?<episode>\\d+)$" },
+        };
+
+        await handler.handle({ type: "SAVE_CUSTOM_ADAPTER", definition });
+        await handler.handle({
+            type: "SAVE_CUSTOM_ADAPTER",
+            definition: { ...definition, id: "other", label: "Other" },
+        });
+        await handler.handle({
+            type: "SAVE_CUSTOM_ADAPTER",
+            definition: { ...listPageOnly, label: "Renamed" },
+            replaceId: "mysite",
+        });
+        await handler.handle({ type: "DELETE_CUSTOM_ADAPTER", adapterId: "other" });
+
+        expect(storage[StorageKeys.CUSTOM_ADAPTERS]).toEqual([{ ...listPageOnly, label: "Renamed" }]);
+    });
+
+    it("should dispatch every request type to the matching service method", async () => {
+        const service = new LocalAnimeService();
+        const hide = vi.spyOn(service, "hideAnime").mockResolvedValue({ success: true, message: "hidden" });
+        const handler = new AnimeRequestHandler(service);
+
+        const animeData = { animeId: "a", animeTitle: "A", animeSlug: "a" };
+        await expect(handler.handle({ type: "HIDE", animeData })).resolves.toEqual({
+            ok: true,
+            result: { success: true, message: "hidden" },
+        });
+        expect(hide).toHaveBeenCalledWith(animeData);
+    });
+});
@@ -0,0 +1,297 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { StorageKeys } from "@/commons/models";
+
+const mockRun = vi.fn();
+
+vi.mock("@/commons/migrations", () => ({
+    MigrationRunner: class {
+        run = mockRun;
+    },
+}));
+
+describe("background service worker", () => {
+    let onInstalledListener: (details: { reason: string }) => void;
+    let onMessageListener: (message: any, sender: unknown, sendResponse: (response: any) => void) => boolean;
+    let onChangedListener: (changes: Record<string, any>, areaName: string) => void;
+    let onAlarmListener: (alarm: { name: string }) => void;
+
+    beforeEach(async () => {
+        vi.resetModules();
+        mockRun.mockResolvedValue({ fromVersion: 0, toVersion: 3, applied: [1, 2, 3] });
+        (chrome.runtime as any).onInstalled = {
+            addListener: vi.fn((listener) => {
+                onInstalledListener = listener;
+            }),
+        };
+        (chrome.runtime as any).onMessage = {
+            addListener: vi.fn((listener) => {
+                onMessageListener = listener;
+            }),
+        };
+        (chrome.storage as any).onChanged = {
+            addListener: vi.fn((listener) => {
+                onChangedListener = listener;
+            }),
+        };
+        (chrome as any).alarms = {
+            create: vi.fn().mockResolvedValue(undefined),
+            clear: vi.fn().mockResolvedValue(true),
+            onAlarm: {
+                addListener: vi.fn((listener) => {
+                    onAlarmListener = listener;
+                }),
+            },
+        };
+        (chrome as any).permissions = { contains: vi.fn().mockResolvedValue(true) };
+        vi.mocked(chrome.storage.local.get).mockImplementation(((_keys: unknown, callback: (r: object) => void) =>
+            callback({})) as any);
+        await import("@/background");
+    });
+
+    it("should run storage migrations when the worker starts", async () => {
+        await vi.waitFor(() => expect(mockRun).toHaveBeenCalledTimes(1));
+    });
+
+    it("should share the startup run with install and update", async () => {
+        onInstalledListener({ reason: "install" });
+        onInstalledListener({ reason: "update" });
+        onInstalledListener({ reason: "chrome_update" });
+
+        await vi.waitFor(() => expect(mockRun).toHaveBeenCalledTimes(1));
+    });
+
+    it("should log and swallow migration failures", async () => {
+        vi.resetModules();
+        mockRun.mockClear().mockRejectedValue(new Error("quota"));
+        const { runStorageMigrations } = await import("@/background");
+
+        await expect(runStorageMigrations()).resolves.toBeUndefined();
+        expect(console.error).toHaveBeenCalledWith("[Background] Storage migration failed:", expect.any(Error));
+    });
+
+    it("should retry a failed startup migration on the next call", async () => {
+        vi.resetModules();
+        mockRun.mockClear().mockRejectedValueOnce(new Error("quota"));
+        const { ensureStorageMigrated } = await import("@/background");
+        await vi.waitFor(() =>
+            expect(console.error).toHaveBeenCalledWith("[Background] Storage migration failed:", expect.any(Error)),
+        );
+
+        await expect(ensureStorageMigrated()).resolves.toBeUndefined();
+        await ensureStorageMigrated();
+
+        expect(mockRun).toHaveBeenCalledTimes(2);
+    });
+
+    it("should route anime requests to the request handler", async () => {
+        const sendResponse = vi.fn();
+
+        expect(onMessageListener({ type: "GET_STATUS", animeId: "a" }, {}, sendResponse)).toBe(true);
+        await vi.waitFor(() =>
+            expect(sendResponse).toHaveBeenCalledWith({
+                ok: true,
+                result: expect.objectContaining({ isTracked: false, isHidden: false }),
+            }),
+        );
+    });
+
+    it("should answer anime requests only once storage is migrated", async () => {
+        vi.resetModules();
+        let finishMigrating!: (report: object) => void;
+        mockRun.mockReturnValue(
+            new Promise((resolve) => {
+                finishMigrating = resolve;
+            }),
+        );
+        await import("@/background");
+        const sendResponse = vi.fn();
+
+        onMessageListener({ type: "GET_STATUS", animeId: "a" }, {}, sendResponse);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(sendResponse).not.toHaveBeenCalled();
+
+        finishMigrating({ fromVersion: 5, toVersion: 5, applied: [] });
+        await vi.waitFor(() => expect(sendResponse).toHaveBeenCalledWith(expect.objectContaining({ ok: true })));
+    });
+
+    describe("sync", () => {
+        it("should answer SYNC_NOW asynchronously", async () => {
+            const sendResponse = vi.fn();
+
+            expect(onMessageListener({ type: "SYNC_NOW" }, {}, sendResponse)).toBe(true);
+            await vi.waitFor(() =>
+                expect(sendResponse).toHaveBeenCalledWith({ success: false, message: "Sync is not configured" }),
+            );
+        });
+
+        const settings = { enabled: true, providerId: "mal", baseUrl: "https://api.example.com", strategy: "ask" };
+        const waitingPush = {
+            providerId: "mal",
+            animeId: "a",
+            entry: { malId: 1, status: "watching", episode: 2, updatedAt: "2025-01-01T00:00:00.000Z" },
+            attempts: 1,
+            nextAttemptAt: "2999-01-01T00:01:00.000Z",
+        };
+
+        /** Back chrome.storage.local with an object so sync requests can read what they wrote */
+        function useStorage(initial: Record<string, any> = {}): Record<string, any> {
+            const data: Record<string, any> = { ...initial };
+            vi.mocked(chrome.storage.local.get).mockImplementation(((key: string, callback: (r: object) => void) =>
+                callback(key in data ? { [key]: data[key] } : {})) as any);
+            vi.mocked(chrome.storage.local.set).mockImplementation(((items: object, callback?: () => void) => {
+                Object.assign(data, items);
+                callback?.();
+            }) as any);
+            return data;
+        }
+
+        function send(message: object): Promise<any> {
+            return new Promise((resolve) => {
+                expect(onMessageListener(message, {}, resolve)).toBe(true);
+            });
+        }
+
+        it("should save the sync settings", async () => {
+            const data = useStorage();
+
+            await expect(send({ type: "CONFIGURE_SYNC", settings })).resolves.toEqual({
+                success: true,
+                message: "Sync settings saved",
+            });
+            expect(data[StorageKeys.SYNC_SETTINGS]).toEqual(settings);
+            expect(chrome.permissions.contains).toHaveBeenCalledWith({ origins: ["https://api.example.com/*"] });
+        });
+
+        it("should not turn sync on without access to the provider's API", async () => {
+            const data = useStorage();
+            vi.mocked(chrome.permissions.contains).mockResolvedValue(false as never);
+
+            await expect(send({ type: "CONFIGURE_SYNC", settings })).resolves.toEqual({
+                success: false,
+                message: "Allow access to https://api.example.com/* to sync with it",
+            });
+            expect(data[StorageKeys.SYNC_SETTINGS]).toBeUndefined();
+        });
+
+        it("should refuse settings for an unknown provider or address", async () => {
+            const data = useStorage();
+
+            await expect(
+                send({ type: "CONFIGURE_SYNC", settings: { ...settings, providerId: "kitsu" } }),
+            ).resolves.toMatchObject({ success: false });
+            await expect(
+                send({ type: "CONFIGURE_SYNC", settings: { ...settings, baseUrl: "api.example.com" } }),
+            ).resolves.toMatchObject({ success: false });
+            expect(data[StorageKeys.SYNC_SETTINGS]).toBeUndefined();
+        });
+
+        it("should store credentials on sign-in and report the status without them", async () => {
+            const data = useStorage({ [StorageKeys.SYNC_SETTINGS]: settings });
+
+            await expect(
+                send({ type: "SIGN_IN_SYNC", providerId: "mal", token: { accessToken: " secret " } }),
+            ).resolves.toEqual({ success: true, message: "Signed in to MyAnimeList" });
+            expect(data[StorageKeys.SYNC_TOKENS]).toEqual({ mal: { accessToken: "secret" } });
+
+            const status = await send({ type: "GET_SYNC_STATUS" });
+            expect(status).toEqual({ settings, signedIn: true, conflicts: [], queued: 0 });
+
+            await send({ type: "SIGN_OUT_SYNC", providerId: "mal" });
+            expect(data[StorageKeys.SYNC_TOKENS]).toEqual({});
+        });
+
+        it("should report conflicts kept for the user", async () => {
+            const conflict = {
+                animeId: "a",
+                malId: 1,
+                title: "A",
+                localEpisode: 3,
+                remoteEpisode: 5,
+                localModifiedAt: "2025-01-01T00:00:00.000Z",
+                remoteModifiedAt: "2025-01-02T00:00:00.000Z",
+            };
+            useStorage({
+                [StorageKeys.SYNC_SETTINGS]: settings,
+                [StorageKeys.SYNC_STATE]: {
+                    localModifiedAt: {},
+                    providers: { mal: { entries: {}, conflicts: { a: conflict }, lastSyncAt: "2025-01-03" } },
+                },
+                [StorageKeys.SYNC_QUEUE]: [waitingPush],
+            });
+
+            await expect(send({ type: "GET_SYNC_STATUS" })).resolves.toEqual({
+                settings,
+                signedIn: false,
+                lastSyncAt: "2025-01-03",
+                conflicts: [conflict],
+                queued: 1,
+            });
+        });
+
+        it("should answer conflict resolutions", async () => {
+            useStorage();
+            await expect(send({ type: "RESOLVE_SYNC_CONFLICT", animeId: "a", keep: "local" })).resolves.toEqual({
+                success: false,
+                message: "Sync is not configured",
+            });
+
+            useStorage({ [StorageKeys.SYNC_SETTINGS]: settings });
+            await expect(send({ type: "RESOLVE_SYNC_CONFLICT", animeId: "a", keep: "local" })).resolves.toEqual({
+                success: false,
+                message: "No conflict to resolve for this anime",
+            });
+        });
+
+        it("should set the retry alarm for the next queued push", async () => {
+            useStorage({ [StorageKeys.SYNC_QUEUE]: [waitingPush] });
+
+            await send({ type: "CONFIGURE_SYNC", settings });
+
+            expect(chrome.alarms.create).toHaveBeenCalledWith("sync-retry", {
+                when: Date.parse(waitingPush.nextAttemptAt),
+            });
+        });
+
+        it("should flush the retry queue when the alarm fires", async () => {
+            useStorage({ [StorageKeys.SYNC_SETTINGS]: settings, [StorageKeys.SYNC_QUEUE]: [waitingPush] });
+
+            onAlarmListener({ name: "sync-retry" });
+
+            await vi.waitFor(() =>
+                expect(chrome.alarms.create).toHaveBeenCalledWith("sync-retry", {
+                    when: Date.parse(waitingPush.nextAttemptAt),
+                }),
+            );
+        });
+
+        it("should stop the retry alarm once sync is turned off", async () => {
+            useStorage({ [StorageKeys.SYNC_QUEUE]: [waitingPush] });
+
+            onAlarmListener({ name: "sync-retry" });
+
+            await vi.waitFor(() => expect(chrome.alarms.clear).toHaveBeenCalledWith("sync-retry"));
+            expect(chrome.alarms.create).not.toHaveBeenCalled();
+        });
+
+        it("should ignore unrelated messages", () => {
+            expect(onMessageListener({ type: "OTHER" }, {}, vi.fn())).toBe(false);
+        });
+
+        it("should read the sync settings when local episode progress changes", async () => {
+            onChangedListener({ [`${StorageKeys.EPISODE_PROGRESS}:a`]: { newValue: { animeId: "a" } } }, "local");
+
+            await vi.waitFor(() =>
+                expect(chrome.storage.local.get).toHaveBeenCalledWith(StorageKeys.SYNC_SETTINGS, expect.any(Function)),
+            );
+        });
+
+        it("should ignore changes to other keys and areas", () => {
+            onChangedListener({ [StorageKeys.PLAN_TO_WATCH]: { newValue: {} } }, "local");
+            onChangedListener({ [`${StorageKeys.EPISODE_PROGRESS}:a`]: { newValue: { animeId: "a" } } }, "sync");
+            onChangedListener({ [StorageKeys.EPISODE_PROGRESS_INDEX]: { newValue: ["a"] } }, "local");
+
+            expect(chrome.storage.local.get).not.toHaveBeenCalled();
+        });
+    });
+});
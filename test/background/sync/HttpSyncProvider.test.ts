@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { HttpSyncProvider, SyncAuthError, SyncHttpError } from "@/background/sync";
+import { startMockProviderServer, type MockProviderServer } from "./mockProviderServer";
+
+describe("HttpSyncProvider", () => {
+    let server: MockProviderServer;
+    let provider: HttpSyncProvider;
+
+    beforeEach(async () => {
+        server = await startMockProviderServer();
+        provider = new HttpSyncProvider("mal", "MyAnimeList", `${server.baseUrl}/`);
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    it("should fetch remote entries with the bearer token", async () => {
+        server.entries.set(1, { malId: 1, status: "watching", episode: 3, updatedAt: "2025-01-01T00:00:00.000Z" });
+
+        const entries = await provider.fetchEntries({ accessToken: "access-1" });
+
+        expect(entries).toEqual([{ malId: 1, status: "watching", episode: 3, updatedAt: "2025-01-01T00:00:00.000Z" }]);
+        expect(server.requests[0]).toEqual({ method: "GET", path: "/entries", authorization: "Bearer access-1" });
+    });
+
+    it("should skip remote entries that are missing fields", async () => {
+        const valid = { malId: 1, status: "watching" as const, episode: 3, updatedAt: "2025-01-01T00:00:00.000Z" };
+        server.entries.set(1, valid);
+        server.entries.set(2, { ...valid, malId: 2, status: "rewatching" } as any);
+        server.entries.set(3, { malId: 3, status: "completed" } as any);
+
+        await expect(provider.fetchEntries({ accessToken: "access-1" })).resolves.toEqual([valid]);
+    });
+
+    it("should push an entry and return what the provider saved", async () => {
+        const entry = { malId: 7, status: "watching" as const, episode: 4, updatedAt: "2025-01-02T00:00:00.000Z" };
+
+        const saved = await provider.pushEntry({ accessToken: "access-1" }, entry);
+
+        expect(saved).toEqual(entry);
+        expect(server.entries.get(7)).toEqual(entry);
+    });
+
+    it("should raise an auth error for rejected tokens", async () => {
+        await expect(provider.fetchEntries({ accessToken: "wrong" })).rejects.toBeInstanceOf(SyncAuthError);
+    });
+
+    it("should raise an HTTP error with the status for other failures", async () => {
+        server.failPuts = 1;
+        const entry = { malId: 7, status: "watching" as const, episode: 4, updatedAt: "2025-01-02T00:00:00.000Z" };
+
+        const error = await provider.pushEntry({ accessToken: "access-1" }, entry).catch((e) => e);
+
+        expect(error).toBeInstanceOf(SyncHttpError);
+        expect(error.status).toBe(503);
+    });
+
+    it("should exchange a refresh token for new credentials", async () => {
+        const token = await provider.refreshToken({ accessToken: "old", refreshToken: "refresh-1" });
+
+        expect(token.accessToken).toBe("access-2");
+        expect(token.refreshToken).toBe("refresh-2");
+        expect(Date.parse(token.expiresAt as string)).toBeGreaterThan(Date.now());
+    });
+
+    it("should refuse to refresh without a refresh token", async () => {
+        await expect(provider.refreshToken({ accessToken: "old" })).rejects.toBeInstanceOf(SyncAuthError);
+    });
+});
@@ -0,0 +1,248 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { HttpSyncProvider, SyncAuthError, SyncEngine } from "@/background/sync";
+import type { EpisodeProgress, SyncState } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { animeItemKey } from "@/commons/utils/storageKeys";
+import { startMockProviderServer, type MockProviderServer } from "./mockProviderServer";
+
+let storage: Record<string, any> = {};
+
+/** Storage entries for progress records in the per-anime layout */
+const progressEntries = (...records: EpisodeProgress[]) => ({
+    [StorageKeys.EPISODE_PROGRESS_INDEX]: records.map((record) => record.animeId),
+    ...Object.fromEntries(
+        records.map((record) => [animeItemKey(StorageKeys.EPISODE_PROGRESS, record.animeId), record]),
+    ),
+});
+
+const storedProgress = (animeId: string) => storage[animeItemKey(StorageKeys.EPISODE_PROGRESS, animeId)];
+
+function useMemoryStorage(initial: Record<string, any>): void {
+    storage = JSON.parse(JSON.stringify(initial));
+    const local = chrome.storage.local as any;
+    local.get.mockImplementation((keys: string | string[], callback: (result: Record<string, any>) => void) => {
+        const result: Record<string, any> = {};
+        (Array.isArray(keys) ? keys : [keys]).forEach((key) => {
+            if (key in storage) result[key] = JSON.parse(JSON.stringify(storage[key]));
+        });
+        callback(result);
+    });
+    local.set.mockImplementation((items: Record<string, any>, callback?: () => void) => {
+        Object.assign(storage, JSON.parse(JSON.stringify(items)));
+        callback?.();
+    });
+}
+
+const progress = (animeId: string, currentEpisode: number, malId?: number): EpisodeProgress => ({
+    animeId,
+    animeTitle: `Title ${animeId}`,
+    animeSlug: animeId,
+    currentEpisode,
+    episodeId: `${animeId}-episode-${currentEpisode}`,
+    lastWatched: "2025-01-01T00:00:00.000Z",
+    ...(malId !== undefined ? { malId } : {}),
+});
+
+const remote = (malId: number, episode: number, updatedAt = "2025-01-01T00:00:00.000Z") => ({
+    malId,
+    status: "watching" as const,
+    episode,
+    updatedAt,
+});
+
+const syncedState = (animeId: string, malId: number, syncedEpisode: number): SyncState => ({
+    localModifiedAt: {},
+    providers: {
+        mal: {
+            entries: { [animeId]: { malId, syncedEpisode, syncedAt: "2025-01-01T00:00:00.000Z" } },
+            conflicts: {},
+        },
+    },
+});
+
+describe("SyncEngine", () => {
+    let server: MockProviderServer;
+    let now: Date;
+    let engine: SyncEngine;
+
+    beforeEach(async () => {
+        server = await startMockProviderServer();
+        now = new Date("2025-03-01T00:00:00.000Z");
+        engine = new SyncEngine(new HttpSyncProvider("mal", "MyAnimeList", server.baseUrl), { now: () => now });
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    const seed = (extra: Record<string, any> = {}) =>
+        useMemoryStorage({ [StorageKeys.SYNC_TOKENS]: { mal: { accessToken: "access-1" } }, ...extra });
+
+    it("should push linked local progress the provider does not have yet", async () => {
+        seed({ ...progressEntries(progress("a", 3, 100), progress("b", 1)) });
+
+        const report = await engine.sync("newest");
+
+        expect(report).toEqual({ pushed: 1, pulled: 0, conflicts: 0, queued: 0, unlinked: 1 });
+        expect(server.entries.get(100)).toMatchObject({ episode: 3, title: "Title a" });
+        expect(storage[StorageKeys.SYNC_STATE].providers.mal.entries.a.syncedEpisode).toBe(3);
+    });
+
+    it("should pull progress that only changed remotely", async () => {
+        seed({
+            ...progressEntries(progress("a", 3, 100)),
+            [StorageKeys.SYNC_STATE]: syncedState("a", 100, 3),
+        });
+        server.entries.set(100, { ...remote(100, 6), totalEpisodes: 12 });
+
+        const report = await engine.sync("local");
+
+        expect(report.pulled).toBe(1);
+        expect(storedProgress("a")).toMatchObject({
+            currentEpisode: 6,
+            episodeId: "a-episode-6",
+            totalEpisodes: 12,
+        });
+    });
+
+    it("should push progress that only changed locally", async () => {
+        seed({
+            ...progressEntries(progress("a", 5, 100)),
+            [StorageKeys.SYNC_STATE]: syncedState("a", 100, 3),
+        });
+        server.entries.set(100, remote(100, 3, "2025-02-20T00:00:00.000Z"));
+
+        const report = await engine.sync("newest");
+
+        expect(report.pushed).toBe(1);
+        expect(server.entries.get(100)?.episode).toBe(5);
+    });
+
+    describe("conflicts", () => {
+        const seedConflict = (localModifiedAt: string, remoteUpdatedAt: string) => {
+            seed({
+                ...progressEntries(progress("a", 5, 100)),
+                [StorageKeys.SYNC_STATE]: { ...syncedState("a", 100, 3), localModifiedAt: { a: localModifiedAt } },
+            });
+            server.entries.set(100, remote(100, 8, remoteUpdatedAt));
+        };
+
+        it("should let the newer remote change win with the newest strategy", async () => {
+            seedConflict("2025-02-01T00:00:00.000Z", "2025-02-02T00:00:00.000Z");
+
+            await engine.sync("newest");
+
+            expect(storedProgress("a").currentEpisode).toBe(8);
+        });
+
+        it("should let the newer local change win with the newest strategy", async () => {
+            seedConflict("2025-02-03T00:00:00.000Z", "2025-02-02T00:00:00.000Z");
+
+            await engine.sync("newest");
+
+            expect(server.entries.get(100)?.episode).toBe(5);
+            expect(storedProgress("a").currentEpisode).toBe(5);
+        });
+
+        it("should always push with the local strategy", async () => {
+            seedConflict("2025-02-01T00:00:00.000Z", "2025-02-02T00:00:00.000Z");
+
+            await engine.sync("local");
+
+            expect(server.entries.get(100)?.episode).toBe(5);
+        });
+
+        it("should keep the conflict for the user with the ask strategy", async () => {
+            seedConflict("2025-02-01T00:00:00.000Z", "2025-02-02T00:00:00.000Z");
+
+            const report = await engine.sync("ask");
+
+            expect(report.conflicts).toBe(1);
+            expect(storage[StorageKeys.SYNC_STATE].providers.mal.conflicts.a).toEqual({
+                animeId: "a",
+                malId: 100,
+                title: "Title a",
+                localEpisode: 5,
+                remoteEpisode: 8,
+                localModifiedAt: "2025-02-01T00:00:00.000Z",
+                remoteModifiedAt: "2025-02-02T00:00:00.000Z",
+            });
+            expect(server.entries.get(100)?.episode).toBe(8);
+            expect(storedProgress("a").currentEpisode).toBe(5);
+
+            await expect(engine.resolveConflict("a", "remote")).resolves.toBe(true);
+            expect(storedProgress("a").currentEpisode).toBe(8);
+            expect(storage[StorageKeys.SYNC_STATE].providers.mal.conflicts).toEqual({});
+        });
+    });
+
+    it("should queue failed pushes and retry them once due", async () => {
+        seed({ ...progressEntries(progress("a", 3, 100)) });
+        server.failPuts = 1;
+
+        const first = await engine.sync("newest");
+
+        expect(first).toMatchObject({ pushed: 0, queued: 1 });
+        expect(storage[StorageKeys.SYNC_QUEUE]).toEqual([
+            expect.objectContaining({ animeId: "a", attempts: 1, nextAttemptAt: "2025-03-01T00:01:00.000Z" }),
+        ]);
+
+        now = new Date("2025-03-01T00:02:00.000Z");
+        const pushed = await engine.flushQueue();
+
+        expect(pushed).toBe(1);
+        expect(server.entries.get(100)?.episode).toBe(3);
+        expect(storage[StorageKeys.SYNC_QUEUE]).toEqual([]);
+    });
+
+    it("should refresh an expiring token before syncing", async () => {
+        useMemoryStorage({
+            [StorageKeys.SYNC_TOKENS]: {
+                mal: { accessToken: "expired", refreshToken: "refresh-1", expiresAt: "2025-03-01T00:00:30.000Z" },
+            },
+        });
+
+        await engine.sync("newest");
+
+        expect(storage[StorageKeys.SYNC_TOKENS].mal.accessToken).toBe("access-2");
+        expect(server.requests.at(-1)?.authorization).toBe("Bearer access-2");
+    });
+
+    it("should fail with an auth error when not signed in", async () => {
+        useMemoryStorage({});
+
+        await expect(engine.sync("newest")).rejects.toBeInstanceOf(SyncAuthError);
+    });
+
+    describe("trackLocalChanges", () => {
+        it("should record the change time and push linked progress", async () => {
+            seed({ ...progressEntries(progress("a", 4, 100)) });
+
+            const scheduled = await engine.trackLocalChanges(
+                { a: progress("a", 3, 100), b: progress("b", 1) },
+                { a: progress("a", 4, 100), b: progress("b", 2) },
+            );
+            await engine.flushQueue();
+
+            expect(scheduled).toBe(1);
+            expect(storage[StorageKeys.SYNC_STATE].localModifiedAt).toEqual({
+                a: "2025-03-01T00:00:00.000Z",
+                b: "2025-03-01T00:00:00.000Z",
+            });
+            expect(server.entries.get(100)?.episode).toBe(4);
+        });
+
+        it("should ignore changes that match the synced episode", async () => {
+            seed({ [StorageKeys.SYNC_STATE]: syncedState("a", 100, 6) });
+
+            const scheduled = await engine.trackLocalChanges(
+                { a: progress("a", 3, 100) },
+                { a: progress("a", 6, 100) },
+            );
+
+            expect(scheduled).toBe(0);
+            expect(storage[StorageKeys.SYNC_QUEUE]).toBeUndefined();
+        });
+    });
+});
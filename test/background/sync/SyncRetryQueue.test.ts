@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { MAX_SYNC_ATTEMPTS, SyncRetryQueue } from "@/background/sync";
+import { StorageKeys } from "@/commons/models";
+
+let storage: Record<string, any> = {};
+
+describe("SyncRetryQueue", () => {
+    const entry = { malId: 1, status: "watching" as const, episode: 2, updatedAt: "2025-01-01T00:00:00.000Z" };
+    const now = new Date("2025-03-01T00:00:00.000Z");
+    let queue: SyncRetryQueue;
+
+    beforeEach(() => {
+        storage = {};
+        const local = chrome.storage.local as any;
+        local.get.mockImplementation((key: string, callback: (result: Record<string, any>) => void) =>
+            callback(key in storage ? { [key]: storage[key] } : {}),
+        );
+        local.set.mockImplementation((items: Record<string, any>, callback?: () => void) => {
+            Object.assign(storage, items);
+            callback?.();
+        });
+        queue = new SyncRetryQueue();
+    });
+
+    it("should keep one item per anime and provider", async () => {
+        await queue.schedule("mal", "a", entry, now);
+        await queue.schedule("mal", "a", { ...entry, episode: 3 }, now);
+        await queue.schedule("anilist", "a", entry, now);
+
+        expect(await queue.all()).toHaveLength(2);
+        expect((await queue.due("mal", now))[0].entry.episode).toBe(3);
+    });
+
+    it("should back off exponentially after failures", async () => {
+        await queue.recordFailure("mal", "a", entry, "503", now);
+        await queue.recordFailure("mal", "a", entry, "503", now);
+
+        const [item] = await queue.all();
+        expect(item).toMatchObject({ attempts: 2, lastError: "503", nextAttemptAt: "2025-03-01T00:02:00.000Z" });
+        expect(await queue.due("mal", now)).toEqual([]);
+        expect(await queue.due("mal", new Date("2025-03-01T00:02:00.000Z"))).toHaveLength(1);
+    });
+
+    it("should tell when the provider's earliest push is next due", async () => {
+        expect(await queue.nextAttemptAt("mal")).toBeNull();
+
+        await queue.recordFailure("mal", "a", entry, "503", now);
+        await queue.recordFailure("mal", "a", entry, "503", now);
+        await queue.recordFailure("mal", "b", entry, "503", now);
+        await queue.schedule("anilist", "a", entry, new Date("2025-02-01T00:00:00.000Z"));
+
+        expect(await queue.nextAttemptAt("mal")).toEqual(new Date("2025-03-01T00:01:00.000Z"));
+    });
+
+    it("should drop an item once it runs out of attempts", async () => {
+        for (let attempt = 1; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+            await expect(queue.recordFailure("mal", "a", entry, "503", now)).resolves.toBe(true);
+        }
+
+        await expect(queue.recordFailure("mal", "a", entry, "503", now)).resolves.toBe(false);
+        expect(storage[StorageKeys.SYNC_QUEUE]).toEqual([]);
+    });
+});
@@ -0,0 +1,91 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import type { RemoteEntry } from "@/commons/models";
+
+/**
+ * Local HTTP server implementing the sync provider API for tests
+ */
+export interface MockProviderServer {
+    baseUrl: string;
+    entries: Map<number, RemoteEntry>;
+    /** Access token the server accepts */
+    accessToken: string;
+    /** Refresh token the server exchanges for `refreshedAccessToken` */
+    refreshToken: string;
+    refreshedAccessToken: string;
+    /** Number of upcoming PUT requests to answer with 503 */
+    failPuts: number;
+    requests: { method: string; path: string; authorization?: string }[];
+    close(): Promise<void>;
+}
+
+function readBody(request: IncomingMessage): Promise<any> {
+    return new Promise((resolve) => {
+        let data = "";
+        request.on("data", (chunk) => (data += chunk));
+        request.on("end", () => resolve(data ? JSON.parse(data) : undefined));
+    });
+}
+
+function send(response: ServerResponse, status: number, body?: unknown): void {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+export async function startMockProviderServer(): Promise<MockProviderServer> {
+    const state: Omit<MockProviderServer, "baseUrl" | "close"> = {
+        entries: new Map(),
+        accessToken: "access-1",
+        refreshToken: "refresh-1",
+        refreshedAccessToken: "access-2",
+        failPuts: 0,
+        requests: [],
+    };
+
+    const server: Server = createServer(async (request, response) => {
+        const path = request.url ?? "/";
+        const method = request.method ?? "GET";
+        state.requests.push({ method, path, authorization: request.headers.authorization });
+        const body = await readBody(request);
+
+        if (method === "POST" && path === "/oauth/token") {
+            if (body?.refresh_token !== state.refreshToken) return send(response, 401);
+            state.accessToken = state.refreshedAccessToken;
+            return send(response, 200, {
+                access_token: state.accessToken,
+                refresh_token: "refresh-2",
+                expires_in: 3600,
+            });
+        }
+
+        if (request.headers.authorization !== `Bearer ${state.accessToken}`) {
+            return send(response, 401, { error: "invalid_token" });
+        }
+
+        if (method === "GET" && path === "/entries") {
+            return send(response, 200, { entries: Array.from(state.entries.values()) });
+        }
+
+        const match = path.match(/^\/entries\/(\d+)$/);
+        if (method === "PUT" && match) {
+            if (state.failPuts > 0) {
+                state.failPuts -= 1;
+                return send(response, 503, { error: "unavailable" });
+            }
+            const saved: RemoteEntry = { ...body, malId: Number(match[1]) };
+            state.entries.set(saved.malId, saved);
+            return send(response, 200, saved);
+        }
+
+        return send(response, 404);
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return Object.assign(state, {
+        baseUrl: `http://127.0.0.1:${port}`,
+        close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    });
+}
@@ -0,0 +1,103 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import { anilistImporter, importers, matchExternalEntries, parseAniListJson } from "@/commons/formats";
+import { StorageKeys } from "@/commons/models";
+import { LibraryBackupService } from "@/commons/services/LibraryBackupService";
+
+const ANILIST_EXPORT = readFileSync(join(__dirname, "fixtures", "anilist-export.json"), "utf8");
+
+describe("AniList JSON format", () => {
+    it("should be registered as an importer", () => {
+        expect(importers).toContain(anilistImporter);
+        expect(anilistImporter.parse).toBe(parseAniListJson);
+    });
+
+    it("should read entries from every status list and skip custom lists", () => {
+        const result = parseAniListJson(ANILIST_EXPORT);
+
+        expect(result).toEqual({
+            success: true,
+            entries: [
+                {
+                    title: "Demon Slayer: Kimetsu no Yaiba",
+                    alternativeTitles: ["Kimetsu no Yaiba", "鬼滅の刃"],
+                    status: "watching",
+                    watchedEpisodes: 12,
+                    totalEpisodes: 26,
+                    malId: 38000,
+                },
+                {
+                    title: "ONE PIECE",
+                    alternativeTitles: ["ONE PIECE"],
+                    status: "watching",
+                    watchedEpisodes: 3,
+                    malId: 21,
+                },
+                {
+                    title: "Attack on Titan",
+                    alternativeTitles: ["Shingeki no Kyojin", "進撃の巨人"],
+                    status: "completed",
+                    watchedEpisodes: 25,
+                    totalEpisodes: 25,
+                    malId: 16498,
+                },
+                {
+                    title: "Koe no Katachi",
+                    alternativeTitles: ["聲の形"],
+                    status: "on_hold",
+                    watchedEpisodes: 5,
+                    totalEpisodes: 24,
+                },
+                {
+                    title: "Death Note",
+                    alternativeTitles: ["DEATH NOTE", "デスノート"],
+                    status: "plan_to_watch",
+                    watchedEpisodes: 0,
+                    totalEpisodes: 37,
+                    malId: 1535,
+                },
+                { title: "Cowboy Bebop", status: "dropped", watchedEpisodes: 2, totalEpisodes: 26, malId: 1 },
+            ],
+        });
+    });
+
+    it("should accept the collection without the data envelope", () => {
+        const unwrapped = JSON.stringify(JSON.parse(ANILIST_EXPORT).data.MediaListCollection);
+
+        const result = parseAniListJson(unwrapped);
+
+        expect(result.success && result.entries).toHaveLength(6);
+    });
+
+    it("should reject files that are not AniList exports", () => {
+        expect(parseAniListJson("not json")).toEqual({ success: false, error: "File is not valid JSON" });
+        expect(parseAniListJson('{"data": []}')).toEqual({ success: false, error: "File is not an AniList export" });
+    });
+
+    it("should match romaji titles against local anime", () => {
+        const local = {
+            ...LibraryBackupService.emptyLibrary(),
+            [StorageKeys.PLAN_TO_WATCH]: {
+                "shingeki-no-kyojin": {
+                    animeId: "shingeki-no-kyojin",
+                    animeTitle: "Shingeki no Kyojin",
+                    animeSlug: "shingeki-no-kyojin",
+                    addedAt: "2025-01-01T00:00:00.000Z",
+                },
+            },
+        };
+        const parsed = parseAniListJson(ANILIST_EXPORT);
+        if (!parsed.success) throw new Error(parsed.error);
+
+        const result = matchExternalEntries(local, parsed.entries);
+
+        expect(result.matched).toBe(1);
+        expect(result.backup.data[StorageKeys.COMPLETED]["shingeki-no-kyojin"]).toMatchObject({
+            currentEpisode: 25,
+            malId: 16498,
+        });
+        expect(result.unmatched).toHaveLength(5);
+    });
+});
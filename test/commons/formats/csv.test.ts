@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+
+import { escapeCsvField, exportLibraryCsv } from "@/commons/formats";
+import type { LibraryData } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { LibraryBackupService } from "@/commons/services/LibraryBackupService";
+
+const library = (): LibraryData => ({
+    ...LibraryBackupService.emptyLibrary(),
+    [StorageKeys.EPISODE_PROGRESS]: {
+        kaguya: {
+            animeId: "kaguya",
+            animeTitle: 'Kaguya-sama: Love is War, "Ultra Romantic"',
+            animeSlug: "kaguya",
+            currentEpisode: 4,
+            episodeId: "kaguya-episode-4",
+            lastWatched: "2025-01-01T00:00:00.000Z",
+            totalEpisodes: 13,
+            posterUrl: "https://cdn/kaguya.jpg",
+        },
+    },
+    [StorageKeys.PLAN_TO_WATCH]: {
+        frieren: {
+            animeId: "frieren",
+            animeTitle: "Frieren",
+            animeSlug: "frieren",
+            addedAt: "2025-02-01T00:00:00.000Z",
+        },
+    },
+    [StorageKeys.HIDDEN_ANIME]: {
+        "boring-show": {
+            animeId: "boring-show",
+            animeTitle: "Boring Show",
+            animeSlug: "boring-show",
+            posterUrl: "https://example.com/boring.jpg",
+            hiddenAt: "2025-03-01T00:00:00.000Z",
+        },
+    },
+    [StorageKeys.USER_DATA]: {
+        kaguya: { animeId: "kaguya", score: 9, notes: "Best ED", tags: ["romcom", "school"], updatedAt: "" },
+    },
+    [StorageKeys.FOLDER_ORDER]: {
+        folders: [{ id: "f1", name: "Rom, Com", borderColor: "#fff", createdAt: "" }],
+        rootItems: ["folder:f1", "frieren"],
+        folderContents: { f1: ["kaguya"] },
+        lastUpdated: "",
+    },
+});
+
+describe("CSV export", () => {
+    describe("escapeCsvField", () => {
+        it("should leave plain fields untouched", () => {
+            expect(escapeCsvField("Frieren")).toBe("Frieren");
+        });
+
+        it("should quote fields with commas, quotes and line breaks", () => {
+            expect(escapeCsvField("a,b")).toBe('"a,b"');
+            expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""');
+            expect(escapeCsvField("line\nbreak")).toBe('"line\nbreak"');
+        });
+
+        it("should keep spreadsheets from running fields as formulas", () => {
+            expect(escapeCsvField('=HYPERLINK("https://evil.example")')).toBe(
+                '"\'=HYPERLINK(""https://evil.example"")"',
+            );
+            expect(escapeCsvField("+1")).toBe("'+1");
+            expect(escapeCsvField("-2")).toBe("'-2");
+            expect(escapeCsvField("@SUM(A1)")).toBe("'@SUM(A1)");
+            expect(escapeCsvField("\tTab")).toBe("'\tTab");
+            expect(escapeCsvField("\rReturn")).toBe('"\'\rReturn"');
+            expect(escapeCsvField("Re:Zero - Season 2")).toBe("Re:Zero - Season 2");
+        });
+    });
+
+    describe("exportLibraryCsv", () => {
+        it("should write a header and one CRLF-terminated row per anime across every list", () => {
+            const csv = exportLibraryCsv(library());
+
+            expect(csv.split("\r\n")).toEqual([
+                "Title,Slug,Status,Current Episode,Total Episodes,Last Watched,Added At,Folder,Poster URL,Score,Tags,Notes",
+                '"Kaguya-sama: Love is War, ""Ultra Romantic""",kaguya,Watching,4,13,2025-01-01T00:00:00.000Z,,"Rom, Com",https://cdn/kaguya.jpg,9,"romcom, school",Best ED',
+                "Frieren,frieren,Plan to Watch,,,,2025-02-01T00:00:00.000Z,,,,,",
+                "Boring Show,boring-show,Hidden,,,,2025-03-01T00:00:00.000Z,,https://example.com/boring.jpg,,,",
+                "",
+            ]);
+        });
+
+        it("should only include the selected columns in the given order", () => {
+            const csv = exportLibraryCsv(library(), { columns: ["status", "title"] });
+
+            expect(csv.split("\r\n")[0]).toBe("Status,Title");
+            expect(csv.split("\r\n")[2]).toBe("Plan to Watch,Frieren");
+        });
+
+        it("should filter rows by list", () => {
+            const csv = exportLibraryCsv(library(), { columns: ["title"], lists: ["plan_to_watch", "hidden"] });
+
+            expect(csv).toBe("Title\r\nFrieren\r\nBoring Show\r\n");
+        });
+
+        it("should export what was kept about hidden anime", () => {
+            const csv = exportLibraryCsv(library(), {
+                columns: ["title", "addedAt", "posterUrl"],
+                lists: ["hidden"],
+            });
+
+            expect(csv.split("\r\n")[1]).toBe("Boring Show,2025-03-01T00:00:00.000Z,https://example.com/boring.jpg");
+        });
+    });
+});
@@ -0,0 +1,52 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import { importers, kitsuImporter, parseKitsuJson, selectImporter } from "@/commons/formats";
+
+const KITSU_EXPORT = readFileSync(join(__dirname, "fixtures", "kitsu-export.json"), "utf8");
+
+describe("Kitsu JSON format", () => {
+    it("should be registered as an importer", () => {
+        expect(importers).toContain(kitsuImporter);
+        expect(selectImporter("kitsu")).toBe(kitsuImporter);
+        expect(selectImporter("unknown")).toBeNull();
+    });
+
+    it("should read library entries with their included anime", () => {
+        const result = parseKitsuJson(KITSU_EXPORT);
+
+        expect(result).toEqual({
+            success: true,
+            entries: [
+                {
+                    title: "Kimetsu no Yaiba",
+                    alternativeTitles: ["Demon Slayer: Kimetsu no Yaiba", "鬼滅の刃"],
+                    status: "watching",
+                    watchedEpisodes: 12,
+                    totalEpisodes: 26,
+                    malId: 38000,
+                },
+                {
+                    title: "Attack on Titan",
+                    alternativeTitles: ["Shingeki no Kyojin"],
+                    status: "completed",
+                    watchedEpisodes: 25,
+                    totalEpisodes: 25,
+                },
+                {
+                    title: "Koe no Katachi",
+                    alternativeTitles: ["A Silent Voice"],
+                    status: "on_hold",
+                    watchedEpisodes: 5,
+                },
+                { title: "Death Note", status: "plan_to_watch", watchedEpisodes: 0, totalEpisodes: 37 },
+            ],
+        });
+    });
+
+    it("should reject files that are not Kitsu exports", () => {
+        expect(parseKitsuJson("{")).toEqual({ success: false, error: "File is not valid JSON" });
+        expect(parseKitsuJson('{"lists": []}')).toEqual({ success: false, error: "File is not a Kitsu export" });
+    });
+});
@@ -0,0 +1,153 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import { exportMalXml, parseMalXml } from "@/commons/formats";
+import type { LibraryData } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { LibraryBackupService } from "@/commons/services/LibraryBackupService";
+
+const MAL_EXPORT = readFileSync(join(__dirname, "fixtures", "mal-export.xml"), "utf8");
+
+describe("MAL XML format", () => {
+    describe("parseMalXml", () => {
+        it("should read every entry with a known status", () => {
+            const result = parseMalXml(MAL_EXPORT);
+
+            expect(result).toEqual({
+                success: true,
+                entries: [
+                    {
+                        title: "Shingeki no Kyojin",
+                        status: "completed",
+                        watchedEpisodes: 25,
+                        totalEpisodes: 25,
+                        malId: 16498,
+                    },
+                    {
+                        title: "Kimetsu no Yaiba",
+                        status: "watching",
+                        watchedEpisodes: 12,
+                        totalEpisodes: 26,
+                        malId: 38000,
+                    },
+                    { title: "Unknown Length", status: "plan_to_watch", watchedEpisodes: 0 },
+                ],
+            });
+        });
+
+        it("should map MAL status labels onto our lists", () => {
+            const xml = (status: string) =>
+                `<myanimelist><anime><series_title>A</series_title><my_status>${status}</my_status></anime></myanimelist>`;
+            const statusOf = (status: string) => {
+                const result = parseMalXml(xml(status));
+                return result.success ? result.entries[0]?.status : undefined;
+            };
+
+            expect(statusOf("Watching")).toBe("watching");
+            expect(statusOf("On-Hold")).toBe("on_hold");
+            expect(statusOf("Dropped")).toBe("dropped");
+            expect(statusOf("Plan to Watch")).toBe("plan_to_watch");
+            expect(statusOf("2")).toBe("completed");
+        });
+
+        it("should reject malformed XML", () => {
+            expect(parseMalXml("<myanimelist><anime>")).toEqual({ success: false, error: "File is not valid XML" });
+        });
+
+        it("should reject XML that is not a MAL export", () => {
+            expect(parseMalXml("<library></library>")).toEqual({
+                success: false,
+                error: "File is not a MyAnimeList export",
+            });
+        });
+    });
+
+    describe("exportMalXml", () => {
+        const library = (): LibraryData => ({
+            ...LibraryBackupService.emptyLibrary(),
+            [StorageKeys.EPISODE_PROGRESS]: {
+                "demon-slayer": {
+                    animeId: "demon-slayer",
+                    animeTitle: "Demon Slayer",
+                    animeSlug: "demon-slayer",
+                    currentEpisode: 12,
+                    episodeId: "demon-slayer-episode-12",
+                    lastWatched: "2025-01-01T00:00:00.000Z",
+                    totalEpisodes: 26,
+                    malId: 38000,
+                },
+            },
+            [StorageKeys.COMPLETED]: {
+                aot: {
+                    animeId: "aot",
+                    animeTitle: "Attack on Titan",
+                    animeSlug: "aot",
+                    currentEpisode: 24,
+                    episodeId: "aot-episode-24",
+                    lastWatched: "2025-01-01T00:00:00.000Z",
+                    totalEpisodes: 25,
+                    completedAt: "2025-01-02T00:00:00.000Z",
+                },
+            },
+            [StorageKeys.PLAN_TO_WATCH]: {
+                odd: {
+                    animeId: "odd",
+                    animeTitle: "Tricky ]]> Title",
+                    animeSlug: "odd",
+                    addedAt: "2025-01-01T00:00:00.000Z",
+                },
+            },
+        });
+
+        it("should write MAL status, watched and series episodes", () => {
+            const xml = exportMalXml(library());
+
+            expect(xml).toContain("<series_animedb_id>38000</series_animedb_id>");
+            expect(xml).toContain("<my_status>Watching</my_status>");
+            expect(xml).toContain("<my_watched_episodes>12</my_watched_episodes>");
+            expect(xml).toContain("<series_episodes>26</series_episodes>");
+            expect(xml).toContain("<user_total_anime>3</user_total_anime>");
+        });
+
+        it("should write the user's score, notes and tags", () => {
+            const xml = exportMalXml({
+                ...library(),
+                [StorageKeys.USER_DATA]: {
+                    "demon-slayer": {
+                        animeId: "demon-slayer",
+                        score: 9,
+                        notes: "Ep 19 <3",
+                        tags: ["shonen", "animation"],
+                        updatedAt: "",
+                    },
+                },
+            });
+
+            expect(xml).toContain("<my_score>9</my_score>");
+            expect(xml).toContain("<my_comments><![CDATA[Ep 19 <3]]></my_comments>");
+            expect(xml).toContain("<my_tags><![CDATA[shonen, animation]]></my_tags>");
+            // Unrated anime are exported as MAL's "no score"
+            expect(xml.match(/<my_score>0<\/my_score>/g)).toHaveLength(2);
+        });
+
+        it("should round-trip through parseMalXml", () => {
+            const result = parseMalXml(exportMalXml(library()));
+
+            expect(result).toEqual({
+                success: true,
+                entries: [
+                    {
+                        title: "Demon Slayer",
+                        status: "watching",
+                        watchedEpisodes: 12,
+                        totalEpisodes: 26,
+                        malId: 38000,
+                    },
+                    { title: "Attack on Titan", status: "completed", watchedEpisodes: 25, totalEpisodes: 25 },
+                    { title: "Tricky ]]> Title", status: "plan_to_watch", watchedEpisodes: 0 },
+                ],
+            });
+        });
+    });
+});
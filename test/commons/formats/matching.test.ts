@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { matchExternalEntries, normalizeTitle } from "@/commons/formats";
+import type { EpisodeProgress, LibraryData } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { LibraryBackupService } from "@/commons/services/LibraryBackupService";
+
+const progress = (animeId: string, animeTitle: string, overrides: Partial<EpisodeProgress> = {}): EpisodeProgress => ({
+    animeId,
+    animeTitle,
+    animeSlug: animeId,
+    currentEpisode: 3,
+    episodeId: `${animeId}-episode-3`,
+    lastWatched: "2025-01-01T00:00:00.000Z",
+    ...overrides,
+});
+
+const library = (overrides: Partial<LibraryData> = {}): LibraryData => ({
+    ...LibraryBackupService.emptyLibrary(),
+    ...overrides,
+});
+
+describe("matchExternalEntries", () => {
+    beforeEach(() => {
+        vi.setSystemTime(new Date("2025-03-01T00:00:00.000Z"));
+    });
+
+    it("should normalize titles for comparison", () => {
+        expect(normalizeTitle("Re:ZERO - Starting Life")).toBe(normalizeTitle("re zero starting life"));
+        expect(normalizeTitle("Pokémon")).toBe("pokemon");
+    });
+
+    it("should match by MAL id before title", () => {
+        const local = library({
+            [StorageKeys.EPISODE_PROGRESS]: {
+                a: progress("a", "Some Other Name", { malId: 5 }),
+                b: progress("b", "Kimetsu no Yaiba"),
+            },
+        });
+
+        const result = matchExternalEntries(local, [
+            { title: "Kimetsu no Yaiba", status: "watching", watchedEpisodes: 7, malId: 5 },
+        ]);
+
+        expect(result.matched).toBe(1);
+        expect(Object.keys(result.backup.data[StorageKeys.EPISODE_PROGRESS])).toEqual(["a"]);
+    });
+
+    it("should match by normalized title and keep local details", () => {
+        const local = library({
+            [StorageKeys.EPISODE_PROGRESS]: {
+                "re-zero": progress("re-zero", "Re:Zero", { posterUrl: "https://cdn/poster.jpg" }),
+            },
+        });
+
+        const result = matchExternalEntries(local, [
+            { title: "RE ZERO", status: "watching", watchedEpisodes: 10, totalEpisodes: 25, malId: 31240 },
+        ]);
+
+        expect(result.backup.data[StorageKeys.EPISODE_PROGRESS]["re-zero"]).toEqual({
+            animeId: "re-zero",
+            animeTitle: "Re:Zero",
+            animeSlug: "re-zero",
+            currentEpisode: 10,
+            episodeId: "re-zero-episode-10",
+            lastWatched: "2025-01-01T00:00:00.000Z",
+            totalEpisodes: 25,
+            posterUrl: "https://cdn/poster.jpg",
+            malId: 31240,
+        });
+    });
+
+    it("should place entries in the list matching their status", () => {
+        const local = library({ [StorageKeys.EPISODE_PROGRESS]: { a: progress("a", "Alpha") } });
+
+        const result = matchExternalEntries(local, [
+            { title: "Alpha", status: "completed", watchedEpisodes: 0, totalEpisodes: 12 },
+        ]);
+
+        expect(result.backup.data[StorageKeys.EPISODE_PROGRESS]).toEqual({});
+        expect(result.backup.data[StorageKeys.COMPLETED].a).toMatchObject({
+            currentEpisode: 12,
+            completedAt: "2025-03-01T00:00:00.000Z",
+        });
+    });
+
+    it("should report entries with no local anime as unmatched", () => {
+        const entry = { title: "Never Seen", status: "plan_to_watch" as const, watchedEpisodes: 0 };
+
+        const result = matchExternalEntries(library(), [entry]);
+
+        expect(result.matched).toBe(0);
+        expect(result.unmatched).toEqual([entry]);
+    });
+
+    it("should feed the import preview so status moves go through the validator", () => {
+        const local = library({
+            [StorageKeys.EPISODE_PROGRESS]: { a: progress("a", "Alpha") },
+            [StorageKeys.COMPLETED]: { c: { ...progress("c", "Gamma"), completedAt: "2025-01-01T00:00:00.000Z" } },
+        });
+
+        const external = matchExternalEntries(local, [
+            { title: "Alpha", status: "completed", watchedEpisodes: 12 },
+            { title: "Gamma", status: "watching", watchedEpisodes: 2 },
+        ]);
+        const plan = LibraryBackupService.planImport(local, external.backup);
+
+        expect(plan.result[StorageKeys.COMPLETED]).toHaveProperty("a");
+        expect(plan.result[StorageKeys.EPISODE_PROGRESS]).toEqual({});
+        expect(plan.lists[StorageKeys.EPISODE_PROGRESS].removed).toEqual([{ id: "a", title: "Alpha" }]);
+        expect(plan.lists[StorageKeys.EPISODE_PROGRESS].conflicts).toEqual([
+            { id: "c", title: "Gamma", reason: "Action not available for completed anime" },
+        ]);
+    });
+});
@@ -0,0 +1,33 @@
+import type { Mock } from "vitest";
+
+type MockedStorageAdapter = Record<"get" | "set" | "remove" | "getMultiple" | "setMultiple" | "removeMultiple", Mock>;
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+/**
+ * Back a mocked StorageAdapter with an in-memory object so repositories can
+ * be exercised end to end. Returns the live backing object.
+ */
+export function installMemoryStorage(adapter: unknown, initial: Record<string, unknown> = {}): Record<string, any> {
+    const data: Record<string, any> = clone(initial);
+    const mock = adapter as MockedStorageAdapter;
+
+    mock.get.mockImplementation(async (key: string) => (key in data ? clone(data[key]) : null));
+    mock.set.mockImplementation(async (key: string, value: unknown) => {
+        data[key] = clone(value);
+    });
+    mock.remove.mockImplementation(async (key: string) => {
+        delete data[key];
+    });
+    mock.getMultiple.mockImplementation(async (keys: string[]) =>
+        Object.fromEntries(keys.filter((key) => key in data).map((key) => [key, clone(data[key])])),
+    );
+    mock.setMultiple.mockImplementation(async (items: Record<string, unknown>) => {
+        Object.assign(data, clone(items));
+    });
+    mock.removeMultiple.mockImplementation(async (keys: string[]) => {
+        keys.forEach((key) => delete data[key]);
+    });
+
+    return data;
+}
@@ -0,0 +1,116 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import { MigrationRunner } from "@/commons/migrations/MigrationRunner";
+import type { StorageMigration } from "@/commons/migrations/types";
+import { StorageKeys } from "@/commons/models";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// In-memory storage behind the mocked StorageAdapter
+let mockStorage: Record<string, any> = {};
+
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(async (key: string) => mockStorage[key] ?? null),
+        set: vi.fn(async (key: string, value: any) => {
+            mockStorage[key] = value;
+        }),
+        getMultiple: vi.fn(async (keys: string[]) =>
+            Object.fromEntries(keys.filter((k) => k in mockStorage).map((k) => [k, mockStorage[k]])),
+        ),
+        setMultiple: vi.fn(async (items: Record<string, any>) => {
+            Object.assign(mockStorage, items);
+        }),
+        removeMultiple: vi.fn(async (keys: string[]) => {
+            keys.forEach((k) => delete mockStorage[k]);
+        }),
+    },
+}));
+
+const createMigration = (version: number, migrate: StorageMigration["migrate"]): StorageMigration => ({
+    version,
+    description: `step ${version}`,
+    keys: ["counter"],
+    migrate: vi.fn(migrate),
+});
+
+describe("MigrationRunner", () => {
+    beforeEach(() => {
+        mockStorage = {};
+    });
+
+    it("should treat unversioned storage as version 0", async () => {
+        const runner = new MigrationRunner([]);
+
+        expect(await runner.getStoredVersion()).toBe(0);
+    });
+
+    it("should apply pending migrations in order and store the final version", async () => {
+        const first = createMigration(1, () => ({ set: { counter: 1 } }));
+        const second = createMigration(2, (snapshot) => ({ set: { counter: (snapshot.counter as number) + 1 } }));
+        const runner = new MigrationRunner([first, second]);
+
+        const report = await runner.run();
+
+        expect(report).toEqual({ fromVersion: 0, toVersion: 2, applied: [1, 2] });
+        expect(mockStorage.counter).toBe(2);
+        expect(mockStorage[StorageKeys.SCHEMA_VERSION]).toBe(2);
+    });
+
+    it("should skip migrations at or below the stored version", async () => {
+        mockStorage[StorageKeys.SCHEMA_VERSION] = 1;
+        const first = createMigration(1, () => ({ set: { counter: 100 } }));
+        const second = createMigration(2, () => ({ set: { counter: 2 } }));
+        const runner = new MigrationRunner([first, second]);
+
+        const report = await runner.run();
+
+        expect(first.migrate).not.toHaveBeenCalled();
+        expect(report.applied).toEqual([2]);
+        expect(mockStorage.counter).toBe(2);
+    });
+
+    it("should do nothing when already up to date", async () => {
+        mockStorage[StorageKeys.SCHEMA_VERSION] = 2;
+        const runner = new MigrationRunner([createMigration(1, () => ({})), createMigration(2, () => ({}))]);
+
+        const report = await runner.run();
+
+        expect(report).toEqual({ fromVersion: 2, toVersion: 2, applied: [] });
+        expect(StorageAdapter.set).not.toHaveBeenCalled();
+    });
+
+    it("should remove keys requested by a migration", async () => {
+        mockStorage.legacy = "value";
+        const runner = new MigrationRunner([createMigration(1, () => ({ remove: ["legacy"] }))]);
+
+        await runner.run();
+
+        expect(mockStorage).not.toHaveProperty("legacy");
+    });
+
+    it("should keep the version of the last completed step when a step fails", async () => {
+        const runner = new MigrationRunner([
+            createMigration(1, () => ({ set: { counter: 1 } })),
+            createMigration(2, () => {
+                throw new Error("boom");
+            }),
+        ]);
+
+        await expect(runner.run()).rejects.toThrow("boom");
+        expect(mockStorage[StorageKeys.SCHEMA_VERSION]).toBe(1);
+    });
+
+    it("should share one run between concurrent callers", async () => {
+        const step = createMigration(1, () => ({ set: { counter: 1 } }));
+        const runner = new MigrationRunner([step]);
+
+        await Promise.all([runner.run(), runner.run()]);
+
+        expect(step.migrate).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject migrations registered out of order", () => {
+        expect(() => new MigrationRunner([createMigration(2, () => ({})), createMigration(1, () => ({}))])).toThrow(
+            "Migrations must be registered in strictly increasing version order",
+        );
+    });
+});
@@ -0,0 +1,282 @@
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS } from "@/commons/migrations";
+import { folderOrderFromTileOrder } from "@/commons/migrations/steps/v1FolderOrderFromTileOrder";
+import { normalizeEpisodeProgress } from "@/commons/migrations/steps/v2NormalizeEpisodeProgress";
+import { normalizeHiddenAnime } from "@/commons/migrations/steps/v3NormalizeHiddenAnime";
+import { splitPerAnimeKeys } from "@/commons/migrations/steps/v4SplitPerAnimeKeys";
+import { hiddenAnimeRecords } from "@/commons/migrations/steps/v5HiddenAnimeRecords";
+import { dailyWatchHistory } from "@/commons/migrations/steps/v6DailyWatchHistory";
+import { dailyActivityLog } from "@/commons/migrations/steps/v7DailyActivityLog";
+import type { StorageMigration, StorageSnapshot } from "@/commons/migrations/types";
+import { StorageKeys } from "@/commons/models";
+import { describe, expect, it } from "vitest";
+
+/**
+ * Apply a step, then apply it again to its own output - a second run must be a no-op
+ */
+function applyTwice(migration: StorageMigration, snapshot: StorageSnapshot) {
+    const first = migration.migrate(snapshot);
+    const migrated = { ...snapshot, ...first.set };
+    const second = migration.migrate(migrated);
+    return { first, migrated, second };
+}
+
+describe("storage migrations", () => {
+    describe("registry", () => {
+        it("should register steps with consecutive versions starting at 1", () => {
+            expect(MIGRATIONS.map((m) => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+            expect(CURRENT_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+        });
+    });
+
+    describe("v1 folderOrderFromTileOrder", () => {
+        it("should seed folderOrder from tileOrder", () => {
+            const { first, second } = applyTwice(folderOrderFromTileOrder, {
+                [StorageKeys.TILE_ORDER]: { animeIds: ["a", "b"], lastUpdated: "2025-01-01T00:00:00.000Z" },
+            });
+
+            expect(first.set?.[StorageKeys.FOLDER_ORDER]).toEqual({
+                folders: [],
+                rootItems: ["a", "b"],
+                folderContents: {},
+                lastUpdated: "2025-01-01T00:00:00.000Z",
+            });
+            expect(second).toEqual({});
+        });
+
+        it("should leave an existing folderOrder untouched", () => {
+            const result = folderOrderFromTileOrder.migrate({
+                [StorageKeys.FOLDER_ORDER]: { folders: [], rootItems: ["x"], folderContents: {}, lastUpdated: "" },
+                [StorageKeys.TILE_ORDER]: { animeIds: ["a"], lastUpdated: "" },
+            });
+
+            expect(result).toEqual({});
+        });
+
+        it("should do nothing without a tileOrder", () => {
+            expect(folderOrderFromTileOrder.migrate({})).toEqual({});
+        });
+    });
+
+    describe("v2 normalizeEpisodeProgress", () => {
+        it("should coerce episode numbers and fill missing fields", () => {
+            const { migrated, second } = applyTwice(normalizeEpisodeProgress, {
+                [StorageKeys.EPISODE_PROGRESS]: {
+                    "naruto-1": {
+                        animeId: "naruto-1",
+                        animeTitle: "Naruto",
+                        animeSlug: "naruto",
+                        currentEpisode: "7",
+                        totalEpisodes: "220",
+                        lastWatched: "2025-01-01T00:00:00.000Z",
+                    },
+                },
+            });
+
+            expect(migrated[StorageKeys.EPISODE_PROGRESS]).toEqual({
+                "naruto-1": {
+                    animeId: "naruto-1",
+                    animeTitle: "Naruto",
+                    animeSlug: "naruto",
+                    currentEpisode: 7,
+                    totalEpisodes: 220,
+                    episodeId: "naruto-episode-7",
+                    lastWatched: "2025-01-01T00:00:00.000Z",
+                },
+            });
+            expect(second).toEqual({});
+        });
+
+        it("should re-key records by animeId and drop unusable entries", () => {
+            const result = normalizeEpisodeProgress.migrate({
+                [StorageKeys.EPISODE_PROGRESS]: {
+                    wrongKey: {
+                        animeId: "bleach",
+                        animeTitle: "Bleach",
+                        animeSlug: "bleach",
+                        currentEpisode: 3,
+                        episodeId: "bleach-episode-3",
+                        lastWatched: "2025-01-01T00:00:00.000Z",
+                    },
+                    broken: null,
+                },
+            });
+
+            expect(Object.keys(result.set?.[StorageKeys.EPISODE_PROGRESS] as object)).toEqual(["bleach"]);
+        });
+
+        it("should return no changes for already valid records", () => {
+            const result = normalizeEpisodeProgress.migrate({
+                [StorageKeys.EPISODE_PROGRESS]: {
+                    bleach: {
+                        animeId: "bleach",
+                        animeTitle: "Bleach",
+                        animeSlug: "bleach",
+                        currentEpisode: 3,
+                        episodeId: "bleach-episode-3",
+                        lastWatched: "2025-01-01T00:00:00.000Z",
+                    },
+                },
+            });
+
+            expect(result).toEqual({});
+        });
+    });
+
+    describe("v3 normalizeHiddenAnime", () => {
+        it("should deduplicate ids and drop invalid entries", () => {
+            const { first, second } = applyTwice(normalizeHiddenAnime, {
+                [StorageKeys.HIDDEN_ANIME]: ["a", "b", "a", "", 42],
+            });
+
+            expect(first.set?.[StorageKeys.HIDDEN_ANIME]).toEqual(["a", "b"]);
+            expect(second).toEqual({});
+        });
+
+        it("should do nothing when hiddenAnime is absent", () => {
+            expect(normalizeHiddenAnime.migrate({})).toEqual({});
+        });
+    });
+
+    describe("v4 splitPerAnimeKeys", () => {
+        const record = (animeId: string) => ({ animeId, animeTitle: animeId });
+
+        it("should move each record to its own key, build the index and drop the old map", () => {
+            const changes = splitPerAnimeKeys.migrate({
+                [StorageKeys.EPISODE_PROGRESS]: { a: record("a"), b: record("b") },
+                [StorageKeys.PLAN_TO_WATCH]: { p: record("p") },
+            });
+
+            expect(changes).toEqual({
+                set: {
+                    "episodeProgress:a": record("a"),
+                    "episodeProgress:b": record("b"),
+                    [StorageKeys.EPISODE_PROGRESS_INDEX]: ["a", "b"],
+                    "planToWatch:p": record("p"),
+                    [StorageKeys.PLAN_TO_WATCH_INDEX]: ["p"],
+                },
+                remove: [StorageKeys.EPISODE_PROGRESS, StorageKeys.PLAN_TO_WATCH],
+            });
+        });
+
+        it("should keep ids already in an index", () => {
+            const changes = splitPerAnimeKeys.migrate({
+                [StorageKeys.PLAN_TO_WATCH]: { p: record("p"), q: record("q") },
+                [StorageKeys.PLAN_TO_WATCH_INDEX]: ["q", "z"],
+            });
+
+            expect(changes.set?.[StorageKeys.PLAN_TO_WATCH_INDEX]).toEqual(["q", "z", "p"]);
+        });
+
+        it("should drop an old map that is not a record map", () => {
+            expect(splitPerAnimeKeys.migrate({ [StorageKeys.EPISODE_PROGRESS]: ["bad"] })).toEqual({
+                set: {},
+                remove: [StorageKeys.EPISODE_PROGRESS],
+            });
+        });
+
+        it("should do nothing once the old maps are gone", () => {
+            expect(
+                splitPerAnimeKeys.migrate({
+                    [StorageKeys.EPISODE_PROGRESS_INDEX]: ["a"],
+                    [StorageKeys.PLAN_TO_WATCH_INDEX]: [],
+                }),
+            ).toEqual({});
+        });
+    });
+
+    describe("v5 hiddenAnimeRecords", () => {
+        it("should turn each hidden id into a record named after it", () => {
+            const { first, second } = applyTwice(hiddenAnimeRecords, {
+                [StorageKeys.HIDDEN_ANIME]: ["boruto", "mashle", "boruto", ""],
+            });
+
+            expect(first.set?.[StorageKeys.HIDDEN_ANIME]).toEqual({
+                boruto: {
+                    animeId: "boruto",
+                    animeTitle: "boruto",
+                    animeSlug: "boruto",
+                    hiddenAt: "1970-01-01T00:00:00.000Z",
+                },
+                mashle: {
+                    animeId: "mashle",
+                    animeTitle: "mashle",
+                    animeSlug: "mashle",
+                    hiddenAt: "1970-01-01T00:00:00.000Z",
+                },
+            });
+            expect(second).toEqual({});
+        });
+
+        it("should do nothing when hiddenAnime is absent", () => {
+            expect(hiddenAnimeRecords.migrate({})).toEqual({});
+        });
+    });
+
+    describe("v6 dailyWatchHistory", () => {
+        const entry = (episode: number, timestamp: string) => ({ animeId: "a", episode, timestamp });
+
+        it("should move entries to one key per day, build the index and drop the array", () => {
+            const changes = dailyWatchHistory.migrate({
+                [StorageKeys.WATCH_HISTORY]: [
+                    entry(1, "2025-05-01T20:00:00.000Z"),
+                    entry(2, "2025-05-01T23:30:00.000Z"),
+                    entry(3, "2025-05-03T08:00:00.000Z"),
+                    { animeId: "a" },
+                ],
+            });
+
+            expect(changes).toEqual({
+                set: {
+                    "watchHistory:2025-05-01": [
+                        entry(1, "2025-05-01T20:00:00.000Z"),
+                        entry(2, "2025-05-01T23:30:00.000Z"),
+                    ],
+                    "watchHistory:2025-05-03": [entry(3, "2025-05-03T08:00:00.000Z")],
+                    [StorageKeys.WATCH_HISTORY_INDEX]: ["2025-05-01", "2025-05-03"],
+                },
+                remove: [StorageKeys.WATCH_HISTORY],
+            });
+        });
+
+        it("should drop a history that is not an array", () => {
+            expect(dailyWatchHistory.migrate({ [StorageKeys.WATCH_HISTORY]: { a: 1 } })).toEqual({
+                set: {},
+                remove: [StorageKeys.WATCH_HISTORY],
+            });
+        });
+
+        it("should do nothing once the array is gone", () => {
+            expect(dailyWatchHistory.migrate({})).toEqual({});
+        });
+    });
+
+    describe("v7 dailyActivityLog", () => {
+        const event = (action: string, timestamp: string) => ({ animeId: "a", action, timestamp });
+
+        it("should move events to one key per day, build the index and drop the array", () => {
+            const { first } = applyTwice(dailyActivityLog, {
+                [StorageKeys.ACTIVITY_LOG]: [
+                    event("planned", "2025-05-03T08:00:00.000Z"),
+                    event("started", "2025-05-04T08:00:00.000Z"),
+                    event("completed", "2025-05-04T09:00:00.000Z"),
+                ],
+            });
+
+            expect(first).toEqual({
+                set: {
+                    "activityLog:2025-05-03": [event("planned", "2025-05-03T08:00:00.000Z")],
+                    "activityLog:2025-05-04": [
+                        event("started", "2025-05-04T08:00:00.000Z"),
+                        event("completed", "2025-05-04T09:00:00.000Z"),
+                    ],
+                    [StorageKeys.ACTIVITY_LOG_INDEX]: ["2025-05-03", "2025-05-04"],
+                },
+                remove: [StorageKeys.ACTIVITY_LOG],
+            });
+        });
+
+        it("should do nothing once the array is gone", () => {
+            expect(dailyActivityLog.migrate({ [StorageKeys.ACTIVITY_LOG_INDEX]: ["2025-05-03"] })).toEqual({});
+        });
+    });
+});
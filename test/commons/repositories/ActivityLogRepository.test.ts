@@ -0,0 +1,99 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { ActivityEvent } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { ActivityLogRepository } from "@/commons/repositories/ActivityLogRepository";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
+
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(),
+        set: vi.fn(),
+        remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
+    },
+}));
+
+function event(
+    animeId: string,
+    action: ActivityEvent["action"],
+    timestamp: string = "2025-05-01T00:00:00.000Z",
+): ActivityEvent {
+    return { animeId, animeTitle: animeId, action, timestamp };
+}
+
+describe("ActivityLogRepository", () => {
+    let storage: Record<string, any>;
+
+    beforeEach(() => {
+        storage = installMemoryStorage(StorageAdapter, {});
+    });
+
+    it("should append events in the order they happened", async () => {
+        const repository = new ActivityLogRepository();
+
+        await repository.append(event("a", "planned"));
+        await repository.append(event("a", "started"), event("b", "hidden"));
+
+        expect((await repository.findAll()).map(({ action }) => action)).toEqual(["planned", "started", "hidden"]);
+        expect((await repository.findByAnimeId("a")).map(({ action }) => action)).toEqual(["planned", "started"]);
+        expect(await repository.count()).toBe(3);
+    });
+
+    it("should drop the oldest events beyond the limit", async () => {
+        const repository = new ActivityLogRepository(2);
+
+        await repository.append(event("a", "planned"), event("a", "started"), event("a", "completed"));
+
+        expect((await repository.findAll()).map(({ action }) => action)).toEqual(["started", "completed"]);
+    });
+
+    it("should store events one key per day", async () => {
+        const repository = new ActivityLogRepository();
+        await repository.append(event("a", "planned"), event("a", "started", "2025-05-02T09:00:00.000Z"));
+        vi.mocked(StorageAdapter.setMultiple).mockClear();
+
+        await repository.append(event("b", "hidden", "2025-05-02T10:00:00.000Z"));
+
+        expect(storage[StorageKeys.ACTIVITY_LOG_INDEX]).toEqual(["2025-05-01", "2025-05-02"]);
+        expect(StorageAdapter.setMultiple).toHaveBeenCalledTimes(1);
+        expect(StorageAdapter.setMultiple).toHaveBeenCalledWith({
+            "activityLog:2025-05-02": [
+                event("a", "started", "2025-05-02T09:00:00.000Z"),
+                event("b", "hidden", "2025-05-02T10:00:00.000Z"),
+            ],
+        });
+    });
+
+    it("should remove only the newest event that matches", async () => {
+        const repository = new ActivityLogRepository();
+        await repository.append(
+            event("a", "episode"),
+            event("b", "episode"),
+            event("a", "episode"),
+            event("a", "paused"),
+        );
+
+        await repository.removeLast(({ animeId, action }) => animeId === "a" && action === "episode");
+        await repository.removeLast(({ animeId }) => animeId === "c");
+
+        expect((await repository.findAll()).map(({ animeId, action }) => `${animeId} ${action}`)).toEqual([
+            "a episode",
+            "b episode",
+            "a paused",
+        ]);
+    });
+
+    it("should move events to the id an anime was merged into", async () => {
+        const repository = new ActivityLogRepository();
+        await repository.append(event("a", "planned"), event("b", "started"));
+
+        await repository.replaceAnimeId("b", "a");
+
+        expect((await repository.findAll()).every(({ animeId }) => animeId === "a")).toBe(true);
+        await repository.clear();
+        expect(storage).toEqual({});
+    });
+});
@@ -0,0 +1,57 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { AnimeIdentity } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { AnimeIdentityRepository } from "@/commons/repositories/AnimeIdentityRepository";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
+
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(),
+        set: vi.fn(),
+        remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
+    },
+}));
+
+const identity: AnimeIdentity = {
+    animeId: "frieren-aaaaa",
+    animeTitle: "Frieren",
+    aliases: [
+        { animeId: "hianime-frieren-18542", animeSlug: "frieren-18542", siteId: "hianime" },
+        { animeId: "animetsu-frieren", animeSlug: "frieren", siteId: "animetsu" },
+    ],
+    updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+describe("AnimeIdentityRepository", () => {
+    let repository: AnimeIdentityRepository;
+
+    beforeEach(() => {
+        installMemoryStorage(StorageAdapter, { [StorageKeys.ANIME_IDENTITIES]: { [identity.animeId]: identity } });
+        repository = new AnimeIdentityRepository();
+    });
+
+    it("should find an identity by its canonical id or any alias", async () => {
+        await expect(repository.findByAnyId("frieren-aaaaa")).resolves.toEqual(identity);
+        await expect(repository.findByAnyId("animetsu-frieren")).resolves.toEqual(identity);
+        await expect(repository.findByAnyId("unrelated")).resolves.toBeNull();
+    });
+
+    it("should resolve aliases to the canonical id and leave other ids alone", async () => {
+        await expect(repository.resolveIds(["hianime-frieren-18542", "frieren-aaaaa", "unrelated"])).resolves.toEqual({
+            "hianime-frieren-18542": "frieren-aaaaa",
+            "frieren-aaaaa": "frieren-aaaaa",
+            unrelated: "unrelated",
+        });
+        await expect(repository.resolveId("animetsu-frieren")).resolves.toBe("frieren-aaaaa");
+    });
+
+    it("should stop resolving an alias once its identity is deleted", async () => {
+        await repository.delete("frieren-aaaaa");
+
+        await expect(repository.resolveId("animetsu-frieren")).resolves.toBe("animetsu-frieren");
+    });
+});
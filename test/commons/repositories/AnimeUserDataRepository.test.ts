@@ -0,0 +1,92 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { AnimeUserData } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { AnimeUserDataRepository } from "@/commons/repositories/AnimeUserDataRepository";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
+
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(),
+        set: vi.fn(),
+        remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
+    },
+}));
+
+function userData(animeId: string, overrides: Partial<AnimeUserData> = {}): AnimeUserData {
+    return { animeId, tags: [], updatedAt: "2025-01-01T00:00:00.000Z", ...overrides };
+}
+
+describe("AnimeUserDataRepository", () => {
+    let repository: AnimeUserDataRepository;
+    let storage: Record<string, any>;
+
+    beforeEach(() => {
+        storage = installMemoryStorage(StorageAdapter, {});
+        repository = new AnimeUserDataRepository();
+    });
+
+    it("should store records keyed by anime id", async () => {
+        await repository.create(userData("frieren", { score: 10 }));
+
+        expect(storage[StorageKeys.USER_DATA]).toEqual({ frieren: userData("frieren", { score: 10 }) });
+        expect(await repository.findById("frieren")).toEqual(userData("frieren", { score: 10 }));
+    });
+
+    describe("replaceAnimeId", () => {
+        it("should move a record to the new id", async () => {
+            storage[StorageKeys.USER_DATA] = { alias: userData("alias", { score: 7 }) };
+
+            await repository.replaceAnimeId("alias", "canonical");
+
+            expect(storage[StorageKeys.USER_DATA]).toEqual({ canonical: userData("canonical", { score: 7 }) });
+        });
+
+        it("should keep the target's score and combine notes and tags", async () => {
+            storage[StorageKeys.USER_DATA] = {
+                alias: userData("alias", {
+                    score: 3,
+                    notes: "Dub is better",
+                    tags: ["Isekai", "rewatch"],
+                    updatedAt: "2025-02-01T00:00:00.000Z",
+                }),
+                canonical: userData("canonical", { score: 9, notes: "Great OST", tags: ["rewatch"] }),
+            };
+
+            await repository.replaceAnimeId("alias", "canonical");
+
+            expect(storage[StorageKeys.USER_DATA]).toEqual({
+                canonical: userData("canonical", {
+                    score: 9,
+                    notes: "Great OST\n\nDub is better",
+                    tags: ["rewatch", "Isekai"],
+                    updatedAt: "2025-02-01T00:00:00.000Z",
+                }),
+            });
+        });
+
+        it("should take the source's score when the target has none", async () => {
+            storage[StorageKeys.USER_DATA] = {
+                alias: userData("alias", { score: 6 }),
+                canonical: userData("canonical", { notes: "Same notes" }),
+            };
+
+            await repository.replaceAnimeId("alias", "canonical");
+
+            expect(storage[StorageKeys.USER_DATA]).toEqual({
+                canonical: userData("canonical", { score: 6, notes: "Same notes" }),
+            });
+        });
+
+        it("should not write when the source has no record", async () => {
+            storage[StorageKeys.USER_DATA] = { canonical: userData("canonical") };
+
+            await repository.replaceAnimeId("alias", "canonical");
+
+            expect(StorageAdapter.set).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,101 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { CompletedAnime } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { CompletedAnimeRepository } from "@/commons/repositories/CompletedAnimeRepository";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the StorageAdapter
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(),
+        set: vi.fn(),
+        remove: vi.fn(),
+    },
+}));
+
+type MockStorageAdapter = {
+    get: ReturnType<typeof vi.fn>;
+    set: ReturnType<typeof vi.fn>;
+    remove: ReturnType<typeof vi.fn>;
+};
+
+const mockStorageAdapter = StorageAdapter as unknown as MockStorageAdapter;
+
+describe("CompletedAnimeRepository", () => {
+    let repository: CompletedAnimeRepository;
+    let mockCompleted: CompletedAnime;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        repository = new CompletedAnimeRepository();
+        mockCompleted = {
+            animeId: "123",
+            animeTitle: "Test Anime",
+            animeSlug: "test-anime",
+            currentEpisode: 12,
+            episodeId: "test-anime-episode-12",
+            lastWatched: "2025-07-19T10:00:00.000Z",
+            totalEpisodes: 12,
+            completedAt: "2025-07-20T10:00:00.000Z",
+        };
+    });
+
+    describe("create", () => {
+        it("should store the record under the completed key", async () => {
+            mockStorageAdapter.get.mockResolvedValue(null);
+            mockStorageAdapter.set.mockResolvedValue(undefined);
+
+            await repository.create(mockCompleted);
+
+            expect(mockStorageAdapter.get).toHaveBeenCalledWith(StorageKeys.COMPLETED);
+            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.COMPLETED, { "123": mockCompleted });
+        });
+    });
+
+    describe("findById", () => {
+        it("should return the record when it exists", async () => {
+            mockStorageAdapter.get.mockResolvedValue({ "123": mockCompleted });
+
+            expect(await repository.findById("123")).toEqual(mockCompleted);
+        });
+
+        it("should return null when the record does not exist", async () => {
+            mockStorageAdapter.get.mockResolvedValue({});
+
+            expect(await repository.findById("missing")).toBeNull();
+        });
+    });
+
+    describe("delete", () => {
+        it("should remove only the given record", async () => {
+            const other = { ...mockCompleted, animeId: "456" };
+            mockStorageAdapter.get.mockResolvedValue({ "123": mockCompleted, "456": other });
+            mockStorageAdapter.set.mockResolvedValue(undefined);
+
+            await repository.delete("123");
+
+            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.COMPLETED, { "456": other });
+        });
+    });
+
+    describe("getRecentlyCompleted", () => {
+        it("should return records sorted by completion date, newest first", async () => {
+            const older = { ...mockCompleted, animeId: "1", completedAt: "2025-01-01T00:00:00.000Z" };
+            const newer = { ...mockCompleted, animeId: "2", completedAt: "2025-06-01T00:00:00.000Z" };
+            mockStorageAdapter.get.mockResolvedValue({ "1": older, "2": newer });
+
+            const result = await repository.getRecentlyCompleted(1);
+
+            expect(result).toEqual([newer]);
+        });
+    });
+
+    describe("isCompleted", () => {
+        it("should report whether the anime is completed", async () => {
+            mockStorageAdapter.get.mockResolvedValue({ "123": mockCompleted });
+
+            expect(await repository.isCompleted("123")).toBe(true);
+            expect(await repository.isCompleted("456")).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { SiteAdapterDefinition } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { CustomAdapterRepository } from "@/commons/repositories/CustomAdapterRepository";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
+
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(),
+        set: vi.fn(),
+        remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
+    },
+}));
+
+function definition(id: string, overrides: Partial<SiteAdapterDefinition> = {}): SiteAdapterDefinition {
+    return {
+        id,
+        label: id.toUpperCase(),
+        hosts: [`${id}.example`],
+        list: {
+            containerSelector: "#list",
+            cardSelector: ".card",
+            titleSelector: ".title",
+            linkPattern: "^/anime/(?<slug>[^/]+)$",
+            injectionSelector: ".poster",
+        },
+        ...overrides,
+    };
+}
+
+describe("CustomAdapterRepository", () => {
+    let repository: CustomAdapterRepository;
+    let storage: Record<string, any>;
+
+    beforeEach(() => {
+        storage = installMemoryStorage(StorageAdapter, {});
+        repository = new CustomAdapterRepository();
+    });
+
+    it("should keep definitions in the order they were added", async () => {
+        await repository.create(definition("one"));
+        await repository.create(definition("two"));
+
+        expect((await repository.findAll()).map((saved) => saved.id)).toEqual(["one", "two"]);
+        expect(storage[StorageKeys.CUSTOM_ADAPTERS]).toHaveLength(2);
+    });
+
+    it("should replace a definition created again with the same id", async () => {
+        await repository.create(definition("one"));
+        await repository.create(definition("two"));
+        await repository.create(definition("one", { label: "Renamed" }));
+
+        const all = await repository.findAll();
+        expect(all.map((saved) => saved.label)).toEqual(["Renamed", "TWO"]);
+    });
+
+    it("should find a definition by id", async () => {
+        await repository.create(definition("one"));
+
+        expect(await repository.findById("one")).toEqual(definition("one"));
+        expect(await repository.findById("missing")).toBeNull();
+        expect(await repository.exists("one")).toBe(true);
+    });
+
+    it("should update a definition in place, including its id", async () => {
+        await repository.create(definition("one"));
+        await repository.create(definition("two"));
+
+        await repository.update("one", { id: "first", hosts: ["first.example"] });
+
+        const all = await repository.findAll();
+        expect(all.map((saved) => saved.id)).toEqual(["first", "two"]);
+        expect(all[0].hosts).toEqual(["first.example"]);
+    });
+
+    it("should throw when updating an unknown definition", async () => {
+        await expect(repository.update("missing", { label: "x" })).rejects.toThrow(
+            'Custom adapter "missing" not found',
+        );
+    });
+
+    it("should delete and clear definitions", async () => {
+        await repository.create(definition("one"));
+        await repository.create(definition("two"));
+
+        await repository.delete("one");
+        expect(await repository.count()).toBe(1);
+
+        await repository.clear();
+        expect(await repository.count()).toBe(0);
+    });
+});
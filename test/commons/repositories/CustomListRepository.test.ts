@@ -0,0 +1,76 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { CustomList } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { CustomListRepository } from "@/commons/repositories/CustomListRepository";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
+
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(),
+        set: vi.fn(),
+        remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
+    },
+}));
+
+function list(id: string, animeIds: string[] = []): CustomList {
+    return {
+        id,
+        name: id,
+        entries: animeIds.map((animeId) => ({
+            animeId,
+            animeTitle: animeId,
+            animeSlug: animeId,
+            addedAt: "2025-01-01T00:00:00.000Z",
+        })),
+        createdAt: "2025-01-01T00:00:00.000Z",
+        updatedAt: "2025-01-01T00:00:00.000Z",
+    };
+}
+
+describe("CustomListRepository", () => {
+    let repository: CustomListRepository;
+    let storage: Record<string, any>;
+
+    beforeEach(() => {
+        storage = installMemoryStorage(StorageAdapter, {});
+        repository = new CustomListRepository();
+    });
+
+    it("should keep lists in the order they were created", async () => {
+        await repository.create(list("one"));
+        await repository.create(list("two"));
+        await repository.create({ ...list("one"), name: "renamed" });
+
+        expect((await repository.findAll()).map((saved) => saved.name)).toEqual(["renamed", "two"]);
+        expect(storage[StorageKeys.CUSTOM_LISTS]).toHaveLength(2);
+    });
+
+    it("should update and delete lists by id", async () => {
+        await repository.create(list("one"));
+
+        await repository.update("one", { name: "Rewatch" });
+        expect((await repository.findById("one"))?.name).toBe("Rewatch");
+
+        await repository.delete("one");
+        await expect(repository.exists("one")).resolves.toBe(false);
+    });
+
+    it("should refuse to update a list that does not exist", async () => {
+        await expect(repository.update("missing", { name: "x" })).rejects.toThrow('Custom list "missing" not found');
+    });
+
+    it("should move entries to a new anime id without duplicating them", async () => {
+        await repository.create(list("one", ["old-id", "other"]));
+        await repository.create(list("two", ["old-id", "new-id"]));
+
+        await repository.replaceAnimeId("old-id", "new-id");
+
+        const [one, two] = await repository.findAll();
+        expect(one.entries.map((entry) => entry.animeId)).toEqual(["new-id", "other"]);
+        expect(two.entries.map((entry) => entry.animeId)).toEqual(["new-id"]);
+    });
+});
@@ -3,6 +3,7 @@ import type { EpisodeProgress } from "@/commons/models";
 import { StorageKeys } from "@/commons/models";
 import { EpisodeProgressRepository } from "@/commons/repositories/EpisodeProgressRepository";
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
 
 // Mock the StorageAdapter
 vi.mock("@/commons/adapters/StorageAdapter", () => ({
@@ -10,20 +11,28 @@ vi.mock("@/commons/adapters/StorageAdapter", () => ({
         get: vi.fn(),
         set: vi.fn(),
         remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
     },
 }));
 
-type MockStorageAdapter = {
-    get: ReturnType<typeof vi.fn>;
-    set: ReturnType<typeof vi.fn>;
-    remove: ReturnType<typeof vi.fn>;
-};
+const mockStorageAdapter = vi.mocked(StorageAdapter);
 
-const mockStorageAdapter = StorageAdapter as unknown as MockStorageAdapter;
+const INDEX = StorageKeys.EPISODE_PROGRESS_INDEX;
+const key = (animeId: string) => `${StorageKeys.EPISODE_PROGRESS}:${animeId}`;
 
 describe("EpisodeProgressRepository", () => {
     let repository: EpisodeProgressRepository;
     let mockProgress: EpisodeProgress;
+    let storage: Record<string, any>;
+
+    const seed = (...records: EpisodeProgress[]) => {
+        storage = installMemoryStorage(StorageAdapter, {
+            [INDEX]: records.map((record) => record.animeId),
+            ...Object.fromEntries(records.map((record) => [key(record.animeId), record])),
+        });
+    };
 
     beforeEach(() => {
         vi.clearAllMocks();
@@ -38,102 +47,112 @@ describe("EpisodeProgressRepository", () => {
             lastWatched: "2025-07-19T10:00:00.000Z",
             totalEpisodes: 24,
         };
+        seed();
     });
 
     describe("create", () => {
-        it("should create a new episode progress record", async () => {
-            const existingProgress = { "456": { ...mockProgress, animeId: "456" } };
-            mockStorageAdapter.get.mockResolvedValue(existingProgress);
-            mockStorageAdapter.set.mockResolvedValue(undefined);
+        it("should store the record under its own key and append it to the index", async () => {
+            seed({ ...mockProgress, animeId: "456" });
 
             await repository.create(mockProgress);
 
-            expect(mockStorageAdapter.get).toHaveBeenCalledWith(StorageKeys.EPISODE_PROGRESS);
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.EPISODE_PROGRESS, {
-                "456": { ...mockProgress, animeId: "456" },
-                "123": mockProgress,
+            expect(mockStorageAdapter.setMultiple).toHaveBeenCalledWith({
+                [key("123")]: mockProgress,
+                [INDEX]: ["456", "123"],
             });
+            expect(storage[key("456")]).toEqual({ ...mockProgress, animeId: "456" });
         });
 
         it("should handle empty storage", async () => {
-            mockStorageAdapter.get.mockResolvedValue(null);
-            mockStorageAdapter.set.mockResolvedValue(undefined);
-
             await repository.create(mockProgress);
 
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.EPISODE_PROGRESS, { "123": mockProgress });
+            expect(storage).toEqual({ [INDEX]: ["123"], [key("123")]: mockProgress });
+        });
+
+        it("should replace an existing record without touching the index", async () => {
+            seed(mockProgress);
+
+            await repository.create({ ...mockProgress, currentEpisode: 9 });
+
+            expect(mockStorageAdapter.set).toHaveBeenCalledWith(key("123"), { ...mockProgress, currentEpisode: 9 });
+            expect(mockStorageAdapter.setMultiple).not.toHaveBeenCalled();
         });
     });
 
     describe("findById", () => {
         it("should find episode progress by anime ID", async () => {
-            const progressData = { "123": mockProgress };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
+            seed(mockProgress);
 
             const result = await repository.findById("123");
 
             expect(result).toEqual(mockProgress);
-            expect(mockStorageAdapter.get).toHaveBeenCalledWith(StorageKeys.EPISODE_PROGRESS);
+            expect(mockStorageAdapter.get).toHaveBeenCalledWith(key("123"));
         });
 
         it("should return null for non-existent anime", async () => {
-            mockStorageAdapter.get.mockResolvedValue({});
-
             const result = await repository.findById("999");
 
             expect(result).toBeNull();
         });
+    });
 
-        it("should handle null storage", async () => {
-            mockStorageAdapter.get.mockResolvedValue(null);
+    describe("findByIds", () => {
+        it("should read every requested record with one batched read", async () => {
+            const other = { ...mockProgress, animeId: "456" };
+            seed(mockProgress, other, { ...mockProgress, animeId: "789" });
 
-            const result = await repository.findById("123");
+            const result = await repository.findByIds(["456", "123", "missing"]);
 
-            expect(result).toBeNull();
+            expect(result).toEqual({ "456": other, "123": mockProgress });
+            expect(mockStorageAdapter.getMultiple).toHaveBeenCalledTimes(1);
+            expect(mockStorageAdapter.getMultiple).toHaveBeenCalledWith([key("456"), key("123"), key("missing")]);
+            expect(mockStorageAdapter.get).not.toHaveBeenCalled();
+        });
+
+        it("should not read storage for an empty id list", async () => {
+            expect(await repository.findByIds([])).toEqual({});
+            expect(mockStorageAdapter.getMultiple).not.toHaveBeenCalled();
         });
     });
 
     describe("findAll", () => {
-        it("should return all episode progress records", async () => {
-            const progressData = {
-                "123": mockProgress,
-                "456": { ...mockProgress, animeId: "456", animeTitle: "Another Anime" },
-            };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
+        it("should return all records in index order with one batched read", async () => {
+            const other = { ...mockProgress, animeId: "456", animeTitle: "Another Anime" };
+            seed(other, mockProgress);
 
             const result = await repository.findAll();
 
-            expect(result).toHaveLength(2);
-            expect(result).toEqual(Object.values(progressData));
+            expect(result).toEqual([other, mockProgress]);
+            expect(mockStorageAdapter.getMultiple).toHaveBeenCalledTimes(1);
+            expect(mockStorageAdapter.getMultiple).toHaveBeenCalledWith([key("456"), key("123")]);
         });
 
         it("should return empty array for empty storage", async () => {
-            mockStorageAdapter.get.mockResolvedValue(null);
-
             const result = await repository.findAll();
 
             expect(result).toEqual([]);
+            expect(mockStorageAdapter.getMultiple).not.toHaveBeenCalled();
+        });
+
+        it("should skip index entries whose record is missing", async () => {
+            seed(mockProgress);
+            storage[INDEX].push("ghost");
+
+            expect(await repository.findAll()).toEqual([mockProgress]);
         });
     });
 
     describe("update", () => {
         it("should update existing episode progress", async () => {
-            const progressData = { "123": mockProgress };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
-            mockStorageAdapter.set.mockResolvedValue(undefined);
+            seed(mockProgress);
 
             const updateData = { currentEpisode: 6, lastWatched: "2025-07-19T11:00:00.000Z" };
             await repository.update("123", updateData);
 
-            const expectedUpdated = { ...mockProgress, ...updateData };
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.EPISODE_PROGRESS, {
-                "123": expectedUpdated,
-            });
+            expect(mockStorageAdapter.set).toHaveBeenCalledWith(key("123"), { ...mockProgress, ...updateData });
         });
 
         it("should not update non-existent anime", async () => {
-            mockStorageAdapter.get.mockResolvedValue({});
-
             await repository.update("999", { currentEpisode: 10 });
 
             expect(mockStorageAdapter.set).not.toHaveBeenCalled();
@@ -141,72 +160,96 @@ describe("EpisodeProgressRepository", () => {
     });
 
     describe("delete", () => {
-        it("should delete episode progress by anime ID", async () => {
-            const progressData = { "123": mockProgress, "456": { ...mockProgress, animeId: "456" } };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
-            mockStorageAdapter.set.mockResolvedValue(undefined);
+        it("should remove the record key and drop it from the index", async () => {
+            seed(mockProgress, { ...mockProgress, animeId: "456" });
 
             await repository.delete("123");
 
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.EPISODE_PROGRESS, {
-                "456": { ...mockProgress, animeId: "456" },
-            });
+            expect(storage).toEqual({ [INDEX]: ["456"], [key("456")]: { ...mockProgress, animeId: "456" } });
         });
     });
 
     describe("exists", () => {
         it("should return true for existing anime", async () => {
-            const progressData = { "123": mockProgress };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
+            seed(mockProgress);
 
-            const result = await repository.exists("123");
-
-            expect(result).toBe(true);
+            expect(await repository.exists("123")).toBe(true);
         });
 
         it("should return false for non-existent anime", async () => {
-            mockStorageAdapter.get.mockResolvedValue({});
-
-            const result = await repository.exists("999");
-
-            expect(result).toBe(false);
+            expect(await repository.exists("999")).toBe(false);
         });
     });
 
     describe("clear", () => {
-        it("should clear all episode progress", async () => {
-            mockStorageAdapter.remove.mockResolvedValue(undefined);
+        it("should remove every record key and the index", async () => {
+            seed(mockProgress, { ...mockProgress, animeId: "456" });
 
             await repository.clear();
 
-            expect(mockStorageAdapter.remove).toHaveBeenCalledWith(StorageKeys.EPISODE_PROGRESS);
+            expect(mockStorageAdapter.removeMultiple).toHaveBeenCalledWith([key("123"), key("456"), INDEX]);
+            expect(storage).toEqual({});
         });
     });
 
     describe("count", () => {
         it("should return count of tracked anime", async () => {
-            const progressData = { "123": mockProgress, "456": { ...mockProgress, animeId: "456" } };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
+            seed(mockProgress, { ...mockProgress, animeId: "456" });
 
-            const result = await repository.count();
-
-            expect(result).toBe(2);
+            expect(await repository.count()).toBe(2);
         });
 
         it("should return 0 for empty storage", async () => {
-            mockStorageAdapter.get.mockResolvedValue(null);
+            expect(await repository.count()).toBe(0);
+        });
+    });
 
-            const result = await repository.count();
+    describe("replaceAll", () => {
+        it("should write the new records and remove ones no longer present", async () => {
+            seed(mockProgress, { ...mockProgress, animeId: "456" });
+            const incoming = { ...mockProgress, animeId: "789" };
 
-            expect(result).toBe(0);
+            await repository.replaceAll({ "456": { ...mockProgress, animeId: "456" }, "789": incoming });
+
+            expect(storage).toEqual({
+                [INDEX]: ["456", "789"],
+                [key("456")]: { ...mockProgress, animeId: "456" },
+                [key("789")]: incoming,
+            });
+        });
+    });
+
+    describe("single-item update cost", () => {
+        const library = (size: number) =>
+            Array.from({ length: size }, (_, i) => ({ ...mockProgress, animeId: `anime-${i}` }));
+
+        const measureUpdate = async (size: number) => {
+            seed(...library(size));
+            vi.clearAllMocks();
+
+            await repository.update("anime-0", { currentEpisode: 12 });
+
+            const calls = Object.values(mockStorageAdapter).map((fn) => vi.mocked(fn).mock.calls.length);
+            const bytesWritten = vi
+                .mocked(mockStorageAdapter.set)
+                .mock.calls.reduce((sum, [, value]) => sum + JSON.stringify(value).length, 0);
+            return { calls, bytesWritten };
+        };
+
+        it("should do the same storage work for an update in a 10 or a 5000 entry library", async () => {
+            const small = await measureUpdate(10);
+            const large = await measureUpdate(5000);
+
+            expect(large).toEqual(small);
+            expect(mockStorageAdapter.get).toHaveBeenCalledTimes(1);
+            expect(mockStorageAdapter.set).toHaveBeenCalledTimes(1);
+            expect(mockStorageAdapter.getMultiple).not.toHaveBeenCalled();
         });
     });
 
     describe("updateEpisode", () => {
         it("should update episode number for tracked anime", async () => {
-            const progressData = { "123": mockProgress };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
-            mockStorageAdapter.set.mockResolvedValue(undefined);
+            seed(mockProgress);
 
             // Mock Date.now for consistent timestamp
             const mockDate = new Date("2025-07-19T12:00:00.000Z");
@@ -214,20 +257,16 @@ describe("EpisodeProgressRepository", () => {
 
             await repository.updateEpisode("123", 7);
 
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.EPISODE_PROGRESS, {
-                "123": {
-                    ...mockProgress,
-                    currentEpisode: 7,
-                    lastWatched: mockDate.toISOString(),
-                },
+            expect(storage[key("123")]).toEqual({
+                ...mockProgress,
+                currentEpisode: 7,
+                lastWatched: mockDate.toISOString(),
             });
 
-            vi.restoreAllMocks();
+            vi.useRealTimers();
         });
 
         it("should not update episode for non-existent anime", async () => {
-            mockStorageAdapter.get.mockResolvedValue({});
-
             await repository.updateEpisode("999", 10);
 
             expect(mockStorageAdapter.set).not.toHaveBeenCalled();
@@ -239,9 +278,7 @@ describe("EpisodeProgressRepository", () => {
             const progress1 = { ...mockProgress, animeId: "1", lastWatched: "2025-07-19T10:00:00.000Z" };
             const progress2 = { ...mockProgress, animeId: "2", lastWatched: "2025-07-19T12:00:00.000Z" };
             const progress3 = { ...mockProgress, animeId: "3", lastWatched: "2025-07-19T11:00:00.000Z" };
-
-            const progressData = { "1": progress1, "2": progress2, "3": progress3 };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
+            seed(progress1, progress2, progress3);
 
             const result = await repository.getRecentlyWatched(2);
 
@@ -251,20 +288,14 @@ describe("EpisodeProgressRepository", () => {
         });
 
         it("should default to limit of 5", async () => {
-            const progressData = Array.from({ length: 10 }, (_, i) => ({
-                ...mockProgress,
-                animeId: i.toString(),
-                lastWatched: new Date(2025, 6, 19, 10, i).toISOString(),
-            })).reduce(
-                (acc, progress) => {
-                    acc[progress.animeId] = progress;
-                    return acc;
-                },
-                {} as Record<string, EpisodeProgress>,
+            seed(
+                ...Array.from({ length: 10 }, (_, i) => ({
+                    ...mockProgress,
+                    animeId: i.toString(),
+                    lastWatched: new Date(2025, 6, 19, 10, i).toISOString(),
+                })),
             );
 
-            mockStorageAdapter.get.mockResolvedValue(progressData);
-
             const result = await repository.getRecentlyWatched();
 
             expect(result).toHaveLength(5);
@@ -273,26 +304,21 @@ describe("EpisodeProgressRepository", () => {
 
     describe("compatibility methods", () => {
         it("should support save method as alias for create", async () => {
-            mockStorageAdapter.get.mockResolvedValue({});
-            mockStorageAdapter.set.mockResolvedValue(undefined);
-
             await repository.save(mockProgress);
 
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.EPISODE_PROGRESS, { "123": mockProgress });
+            expect(storage[key("123")]).toEqual(mockProgress);
         });
 
         it("should support getAll method", async () => {
-            const progressData = { "123": mockProgress };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
+            seed(mockProgress);
 
             const result = await repository.getAll();
 
-            expect(result).toEqual(progressData);
+            expect(result).toEqual({ "123": mockProgress });
         });
 
         it("should support getAllAsArrayCompat method", async () => {
-            const progressData = { "123": mockProgress };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
+            seed(mockProgress);
 
             const result = await repository.getAllAsArrayCompat();
 
@@ -300,27 +326,21 @@ describe("EpisodeProgressRepository", () => {
         });
 
         it("should support isTracked method", async () => {
-            const progressData = { "123": mockProgress };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
-
-            const result = await repository.isTracked("123");
+            seed(mockProgress);
 
-            expect(result).toBe(true);
+            expect(await repository.isTracked("123")).toBe(true);
         });
 
         it("should support remove method", async () => {
-            const progressData = { "123": mockProgress };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
-            mockStorageAdapter.set.mockResolvedValue(undefined);
+            seed(mockProgress);
 
             await repository.remove("123");
 
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.EPISODE_PROGRESS, {});
+            expect(storage).toEqual({ [INDEX]: [] });
         });
 
         it("should support getByAnimeId method", async () => {
-            const progressData = { "123": mockProgress };
-            mockStorageAdapter.get.mockResolvedValue(progressData);
+            seed(mockProgress);
 
             const result = await repository.getByAnimeId("123");
 
@@ -0,0 +1,62 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import { StorageKeys } from "@/commons/models";
+import { FolderOrderRepository } from "@/commons/repositories/FolderOrderRepository";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
+
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(),
+        set: vi.fn(),
+        remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
+    },
+}));
+
+const fantasy = { id: "folder-1", name: "Fantasy", borderColor: "#a855f7", createdAt: "2025-05-01T00:00:00.000Z" };
+const comedy = { id: "folder-2", name: "Comedy", borderColor: "#22c55e", createdAt: "2025-05-01T00:00:00.000Z" };
+
+describe("FolderOrderRepository", () => {
+    let storage: Record<string, any>;
+
+    beforeEach(() => {
+        storage = installMemoryStorage(StorageAdapter, {});
+    });
+
+    it("should find nothing before any folder was made", async () => {
+        const repository = new FolderOrderRepository();
+
+        expect(await repository.get()).toBeNull();
+        expect(await repository.findFolderOf(["frieren"])).toBeNull();
+    });
+
+    it("should find the folder holding any of the ids", async () => {
+        storage[StorageKeys.FOLDER_ORDER] = {
+            folders: [fantasy, comedy],
+            rootItems: ["folder-1", "folder-2", "dandadan"],
+            folderContents: { "folder-1": ["frieren-old"], "folder-2": ["spy-family"] },
+            lastUpdated: "2025-05-01T00:00:00.000Z",
+        };
+        const repository = new FolderOrderRepository();
+
+        expect(await repository.findFolderOf(["frieren", "frieren-old"])).toEqual(fantasy);
+        expect(await repository.findFolderOf(["dandadan"])).toBeNull();
+    });
+
+    it("should save the layout it is given", async () => {
+        const order = {
+            folders: [comedy],
+            rootItems: ["folder-2"],
+            folderContents: { "folder-2": ["spy-family"] },
+            lastUpdated: "2025-05-02T00:00:00.000Z",
+        };
+        const repository = new FolderOrderRepository();
+
+        await repository.save(order);
+
+        expect(storage[StorageKeys.FOLDER_ORDER]).toEqual(order);
+        expect(await repository.get()).toEqual(order);
+    });
+});
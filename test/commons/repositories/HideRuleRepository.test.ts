@@ -0,0 +1,78 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { HideRule } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { HideRuleRepository } from "@/commons/repositories/HideRuleRepository";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
+
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(),
+        set: vi.fn(),
+        remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
+    },
+}));
+
+function rule(id: string, overrides: Partial<HideRule> = {}): HideRule {
+    return {
+        id,
+        kind: "keyword",
+        value: id,
+        enabled: true,
+        createdAt: "2025-07-20T10:00:00.000Z",
+        ...overrides,
+    };
+}
+
+describe("HideRuleRepository", () => {
+    let repository: HideRuleRepository;
+    let storage: Record<string, any>;
+
+    beforeEach(() => {
+        storage = installMemoryStorage(StorageAdapter, {});
+        repository = new HideRuleRepository();
+    });
+
+    it("should keep rules in the order they were added", async () => {
+        await repository.create(rule("recap"));
+        await repository.create(rule("dub"));
+
+        expect((await repository.findAll()).map((saved) => saved.id)).toEqual(["recap", "dub"]);
+        expect(storage[StorageKeys.HIDE_RULES]).toHaveLength(2);
+    });
+
+    it("should replace a rule created again with the same id", async () => {
+        await repository.create(rule("recap"));
+        await repository.create(rule("recap", { value: "Recap Special" }));
+
+        expect(await repository.findAll()).toEqual([rule("recap", { value: "Recap Special" })]);
+    });
+
+    it("should update a rule in place without changing its id", async () => {
+        await repository.create(rule("recap"));
+        await repository.create(rule("dub"));
+
+        await repository.update("recap", { id: "other", enabled: false });
+
+        expect(await repository.findById("recap")).toEqual(rule("recap", { enabled: false }));
+        expect(await repository.exists("other")).toBe(false);
+    });
+
+    it("should throw when updating an unknown rule", async () => {
+        await expect(repository.update("missing", { enabled: false })).rejects.toThrow('Hide rule "missing" not found');
+    });
+
+    it("should delete and clear rules", async () => {
+        await repository.create(rule("recap"));
+        await repository.create(rule("dub"));
+
+        await repository.delete("recap");
+        expect(await repository.count()).toBe(1);
+
+        await repository.clear();
+        expect(await repository.count()).toBe(0);
+    });
+});
@@ -3,6 +3,7 @@ import type { PlanToWatch } from "@/commons/models";
 import { StorageKeys } from "@/commons/models";
 import { PlanToWatchRepository } from "@/commons/repositories/PlanToWatchRepository";
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
 
 // Mock the StorageAdapter
 vi.mock("@/commons/adapters/StorageAdapter", () => ({
@@ -10,20 +11,28 @@ vi.mock("@/commons/adapters/StorageAdapter", () => ({
         get: vi.fn(),
         set: vi.fn(),
         remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
     },
 }));
 
-type MockStorageAdapter = {
-    get: ReturnType<typeof vi.fn>;
-    set: ReturnType<typeof vi.fn>;
-    remove: ReturnType<typeof vi.fn>;
-};
+const mockStorageAdapter = vi.mocked(StorageAdapter);
 
-const mockStorageAdapter = StorageAdapter as unknown as MockStorageAdapter;
+const INDEX = StorageKeys.PLAN_TO_WATCH_INDEX;
+const key = (animeId: string) => `${StorageKeys.PLAN_TO_WATCH}:${animeId}`;
 
 describe("PlanToWatchRepository", () => {
     let repository: PlanToWatchRepository;
     let mockPlan: PlanToWatch;
+    let storage: Record<string, any>;
+
+    const seed = (...records: PlanToWatch[]) => {
+        storage = installMemoryStorage(StorageAdapter, {
+            [INDEX]: records.map((record) => record.animeId),
+            ...Object.fromEntries(records.map((record) => [key(record.animeId), record])),
+        });
+    };
 
     beforeEach(() => {
         vi.clearAllMocks();
@@ -34,100 +43,71 @@ describe("PlanToWatchRepository", () => {
             animeSlug: "test-anime",
             addedAt: "2025-07-19T10:00:00.000Z",
         };
+        seed();
     });
 
     describe("create", () => {
-        it("should create a new plan to watch record", async () => {
-            const existingPlans = { "456": { ...mockPlan, animeId: "456" } };
-            mockStorageAdapter.get.mockResolvedValue(existingPlans);
-            mockStorageAdapter.set.mockResolvedValue(undefined);
+        it("should store the record under its own key and append it to the index", async () => {
+            seed({ ...mockPlan, animeId: "456" });
 
             await repository.create(mockPlan);
 
-            expect(mockStorageAdapter.get).toHaveBeenCalledWith(StorageKeys.PLAN_TO_WATCH);
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.PLAN_TO_WATCH, {
-                "456": { ...mockPlan, animeId: "456" },
-                "123": mockPlan,
+            expect(mockStorageAdapter.setMultiple).toHaveBeenCalledWith({
+                [key("123")]: mockPlan,
+                [INDEX]: ["456", "123"],
             });
         });
 
         it("should handle empty storage", async () => {
-            mockStorageAdapter.get.mockResolvedValue(null);
-            mockStorageAdapter.set.mockResolvedValue(undefined);
-
             await repository.create(mockPlan);
 
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.PLAN_TO_WATCH, { "123": mockPlan });
+            expect(storage).toEqual({ [INDEX]: ["123"], [key("123")]: mockPlan });
         });
     });
 
     describe("findById", () => {
         it("should find plan to watch by anime ID", async () => {
-            const planData = { "123": mockPlan };
-            mockStorageAdapter.get.mockResolvedValue(planData);
+            seed(mockPlan);
 
-            const result = await repository.findById("123");
-
-            expect(result).toEqual(mockPlan);
+            expect(await repository.findById("123")).toEqual(mockPlan);
+            expect(mockStorageAdapter.get).toHaveBeenCalledWith(key("123"));
         });
 
         it("should return null for non-existent anime", async () => {
-            mockStorageAdapter.get.mockResolvedValue({});
-
-            const result = await repository.findById("999");
-
-            expect(result).toBeNull();
-        });
-
-        it("should handle null storage", async () => {
-            mockStorageAdapter.get.mockResolvedValue(null);
-
-            const result = await repository.findById("123");
-
-            expect(result).toBeNull();
+            expect(await repository.findById("999")).toBeNull();
         });
     });
 
     describe("findAll", () => {
         it("should return all plan to watch records", async () => {
-            const planData = {
-                "123": mockPlan,
-                "456": { ...mockPlan, animeId: "456", animeTitle: "Another Anime" },
-            };
-            mockStorageAdapter.get.mockResolvedValue(planData);
+            const other = { ...mockPlan, animeId: "456", animeTitle: "Another Anime" };
+            seed(mockPlan, other);
 
             const result = await repository.findAll();
 
-            expect(result).toHaveLength(2);
-            expect(result).toEqual(Object.values(planData));
+            expect(result).toEqual([mockPlan, other]);
+            expect(mockStorageAdapter.getMultiple).toHaveBeenCalledTimes(1);
         });
 
         it("should return empty array for empty storage", async () => {
-            mockStorageAdapter.get.mockResolvedValue(null);
-
-            const result = await repository.findAll();
-
-            expect(result).toEqual([]);
+            expect(await repository.findAll()).toEqual([]);
         });
     });
 
     describe("update", () => {
         it("should update existing plan to watch", async () => {
-            const planData = { "123": mockPlan };
-            mockStorageAdapter.get.mockResolvedValue(planData);
-            mockStorageAdapter.set.mockResolvedValue(undefined);
+            seed(mockPlan);
 
-            const updateData = { addedAt: "2025-07-19T11:00:00.000Z" };
-            await repository.update("123", updateData);
+            await repository.update("123", { animeTitle: "Updated Title" });
 
-            const expectedUpdated = { ...mockPlan, ...updateData };
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.PLAN_TO_WATCH, { "123": expectedUpdated });
+            expect(mockStorageAdapter.set).toHaveBeenCalledWith(key("123"), {
+                ...mockPlan,
+                animeTitle: "Updated Title",
+            });
         });
 
         it("should not update non-existent anime", async () => {
-            mockStorageAdapter.get.mockResolvedValue({});
-
-            await repository.update("999", { addedAt: "2025-07-19T11:00:00.000Z" });
+            await repository.update("999", { animeTitle: "Updated Title" });
 
             expect(mockStorageAdapter.set).not.toHaveBeenCalled();
         });
@@ -135,74 +115,53 @@ describe("PlanToWatchRepository", () => {
 
     describe("delete", () => {
         it("should delete plan to watch by anime ID", async () => {
-            const planData = { "123": mockPlan, "456": { ...mockPlan, animeId: "456" } };
-            mockStorageAdapter.get.mockResolvedValue(planData);
-            mockStorageAdapter.set.mockResolvedValue(undefined);
+            seed(mockPlan, { ...mockPlan, animeId: "456" });
 
             await repository.delete("123");
 
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.PLAN_TO_WATCH, {
-                "456": { ...mockPlan, animeId: "456" },
-            });
+            expect(storage).toEqual({ [INDEX]: ["456"], [key("456")]: { ...mockPlan, animeId: "456" } });
         });
     });
 
     describe("exists", () => {
         it("should return true for existing anime", async () => {
-            const planData = { "123": mockPlan };
-            mockStorageAdapter.get.mockResolvedValue(planData);
+            seed(mockPlan);
 
-            const result = await repository.exists("123");
-
-            expect(result).toBe(true);
+            expect(await repository.exists("123")).toBe(true);
         });
 
         it("should return false for non-existent anime", async () => {
-            mockStorageAdapter.get.mockResolvedValue({});
-
-            const result = await repository.exists("999");
-
-            expect(result).toBe(false);
+            expect(await repository.exists("999")).toBe(false);
         });
     });
 
     describe("clear", () => {
         it("should clear all plan to watch records", async () => {
-            mockStorageAdapter.remove.mockResolvedValue(undefined);
+            seed(mockPlan);
 
             await repository.clear();
 
-            expect(mockStorageAdapter.remove).toHaveBeenCalledWith(StorageKeys.PLAN_TO_WATCH);
+            expect(storage).toEqual({});
         });
     });
 
     describe("count", () => {
         it("should return count of planned anime", async () => {
-            const planData = { "123": mockPlan, "456": { ...mockPlan, animeId: "456" } };
-            mockStorageAdapter.get.mockResolvedValue(planData);
+            seed(mockPlan, { ...mockPlan, animeId: "456" });
 
-            const result = await repository.count();
-
-            expect(result).toBe(2);
+            expect(await repository.count()).toBe(2);
         });
 
         it("should return 0 for empty storage", async () => {
-            mockStorageAdapter.get.mockResolvedValue(null);
-
-            const result = await repository.count();
-
-            expect(result).toBe(0);
+            expect(await repository.count()).toBe(0);
         });
     });
 
     describe("add", () => {
         it("should add anime to plan to watch", async () => {
-            mockStorageAdapter.get.mockResolvedValue({});
-            mockStorageAdapter.set.mockResolvedValue(undefined);
-
             await repository.add(mockPlan);
 
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.PLAN_TO_WATCH, { "123": mockPlan });
+            expect(storage[key("123")]).toEqual(mockPlan);
         });
     });
 
@@ -211,9 +170,7 @@ describe("PlanToWatchRepository", () => {
             const plan1 = { ...mockPlan, animeId: "1", addedAt: "2025-07-19T10:00:00.000Z" };
             const plan2 = { ...mockPlan, animeId: "2", addedAt: "2025-07-19T12:00:00.000Z" };
             const plan3 = { ...mockPlan, animeId: "3", addedAt: "2025-07-19T11:00:00.000Z" };
-
-            const planData = { "1": plan1, "2": plan2, "3": plan3 };
-            mockStorageAdapter.get.mockResolvedValue(planData);
+            seed(plan1, plan2, plan3);
 
             const result = await repository.getRecentlyAdded(2);
 
@@ -223,23 +180,15 @@ describe("PlanToWatchRepository", () => {
         });
 
         it("should default to limit of 5", async () => {
-            const planData = Array.from({ length: 10 }, (_, i) => ({
-                ...mockPlan,
-                animeId: i.toString(),
-                addedAt: new Date(2025, 6, 19, 10, i).toISOString(),
-            })).reduce(
-                (acc, plan) => {
-                    acc[plan.animeId] = plan;
-                    return acc;
-                },
-                {} as Record<string, PlanToWatch>,
+            seed(
+                ...Array.from({ length: 10 }, (_, i) => ({
+                    ...mockPlan,
+                    animeId: i.toString(),
+                    addedAt: new Date(2025, 6, 19, 10, i).toISOString(),
+                })),
             );
 
-            mockStorageAdapter.get.mockResolvedValue(planData);
-
-            const result = await repository.getRecentlyAdded();
-
-            expect(result).toHaveLength(5);
+            expect(await repository.getRecentlyAdded()).toHaveLength(5);
         });
     });
 
@@ -248,21 +197,15 @@ describe("PlanToWatchRepository", () => {
             const plan1 = { ...mockPlan, animeId: "1", animeTitle: "Attack on Titan" };
             const plan2 = { ...mockPlan, animeId: "2", animeTitle: "My Hero Academia" };
             const plan3 = { ...mockPlan, animeId: "3", animeTitle: "Attack on Titan Season 2" };
-
-            const planData = { "1": plan1, "2": plan2, "3": plan3 };
-            mockStorageAdapter.get.mockResolvedValue(planData);
+            seed(plan1, plan2, plan3);
 
             const result = await repository.searchByTitle("Attack");
 
-            expect(result).toHaveLength(2);
-            expect(result).toContain(plan1);
-            expect(result).toContain(plan3);
-            expect(result).not.toContain(plan2);
+            expect(result).toEqual([plan1, plan3]);
         });
 
         it("should search case-insensitively", async () => {
-            const planData = { "123": { ...mockPlan, animeTitle: "Attack on Titan" } };
-            mockStorageAdapter.get.mockResolvedValue(planData);
+            seed({ ...mockPlan, animeTitle: "Attack on Titan" });
 
             const result = await repository.searchByTitle("attack");
 
@@ -273,49 +216,35 @@ describe("PlanToWatchRepository", () => {
 
     describe("compatibility methods", () => {
         it("should support isPlanned method", async () => {
-            const planData = { "123": mockPlan };
-            mockStorageAdapter.get.mockResolvedValue(planData);
+            seed(mockPlan);
 
-            const result = await repository.isPlanned("123");
-
-            expect(result).toBe(true);
+            expect(await repository.isPlanned("123")).toBe(true);
         });
 
         it("should support remove method", async () => {
-            const planData = { "123": mockPlan };
-            mockStorageAdapter.get.mockResolvedValue(planData);
-            mockStorageAdapter.set.mockResolvedValue(undefined);
+            seed(mockPlan);
 
             await repository.remove("123");
 
-            expect(mockStorageAdapter.set).toHaveBeenCalledWith(StorageKeys.PLAN_TO_WATCH, {});
+            expect(storage).toEqual({ [INDEX]: [] });
         });
 
         it("should support getByAnimeId method", async () => {
-            const planData = { "123": mockPlan };
-            mockStorageAdapter.get.mockResolvedValue(planData);
-
-            const result = await repository.getByAnimeId("123");
+            seed(mockPlan);
 
-            expect(result).toEqual(mockPlan);
+            expect(await repository.getByAnimeId("123")).toEqual(mockPlan);
         });
 
         it("should support getAll method", async () => {
-            const planData = { "123": mockPlan };
-            mockStorageAdapter.get.mockResolvedValue(planData);
+            seed(mockPlan);
 
-            const result = await repository.getAll();
-
-            expect(result).toEqual(planData);
+            expect(await repository.getAll()).toEqual({ "123": mockPlan });
         });
 
         it("should support getAllAsArrayCompat method", async () => {
-            const planData = { "123": mockPlan };
-            mockStorageAdapter.get.mockResolvedValue(planData);
-
-            const result = await repository.getAllAsArrayCompat();
+            seed(mockPlan);
 
-            expect(result).toEqual([mockPlan]);
+            expect(await repository.getAllAsArrayCompat()).toEqual([mockPlan]);
         });
     });
 });
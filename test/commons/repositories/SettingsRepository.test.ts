@@ -0,0 +1,57 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import { DEFAULT_SETTINGS, StorageKeys } from "@/commons/models";
+import { SettingsRepository } from "@/commons/repositories/SettingsRepository";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
+
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(),
+        set: vi.fn(),
+        remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
+    },
+}));
+
+describe("SettingsRepository", () => {
+    let repository: SettingsRepository;
+
+    beforeEach(() => {
+        repository = new SettingsRepository();
+    });
+
+    it("should read defaults when nothing is stored", async () => {
+        installMemoryStorage(StorageAdapter, {});
+
+        expect(await repository.get()).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it("should fill fields missing from a stored section with their defaults", async () => {
+        installMemoryStorage(StorageAdapter, { [StorageKeys.SETTINGS]: { autoTrack: { enabled: true } } });
+
+        expect((await repository.get()).autoTrack).toEqual({ ...DEFAULT_SETTINGS.autoTrack, enabled: true });
+    });
+
+    it("should change only the given fields of a section", async () => {
+        const storage = installMemoryStorage(StorageAdapter, {
+            [StorageKeys.SETTINGS]: { autoTrack: { ...DEFAULT_SETTINGS.autoTrack, enabled: true, dwellSeconds: 30 } },
+        });
+
+        const updated = await repository.update("autoTrack", { dwellSeconds: 0 });
+
+        const expected = { ...DEFAULT_SETTINGS.autoTrack, enabled: true, dwellSeconds: 0 };
+        expect(updated.autoTrack).toEqual(expected);
+        expect(storage[StorageKeys.SETTINGS]).toEqual({ autoTrack: expected });
+    });
+
+    it("should not share the defaults object between reads", async () => {
+        installMemoryStorage(StorageAdapter, {});
+
+        const settings = await repository.get();
+        settings.autoTrack.enabled = true;
+
+        expect(DEFAULT_SETTINGS.autoTrack.enabled).toBe(false);
+    });
+});
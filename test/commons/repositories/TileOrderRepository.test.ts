@@ -0,0 +1,41 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import { StorageKeys } from "@/commons/models";
+import { TileOrderRepository } from "@/commons/repositories/TileOrderRepository";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
+
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(),
+        set: vi.fn(),
+        remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
+    },
+}));
+
+describe("TileOrderRepository", () => {
+    let storage: Record<string, any>;
+    let repository: TileOrderRepository;
+
+    beforeEach(() => {
+        storage = installMemoryStorage(StorageAdapter, {});
+        repository = new TileOrderRepository();
+    });
+
+    it("should find nothing before tiles were reordered", async () => {
+        expect(await repository.get()).toBeNull();
+    });
+
+    it("should save and clear the order", async () => {
+        const order = { animeIds: ["frieren", "dandadan"], lastUpdated: "2025-05-01T00:00:00.000Z" };
+
+        await repository.save(order);
+        expect(storage[StorageKeys.TILE_ORDER]).toEqual(order);
+        expect(await repository.get()).toEqual(order);
+
+        await repository.clear();
+        expect(storage[StorageKeys.TILE_ORDER]).toBeUndefined();
+    });
+});
@@ -0,0 +1,145 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { WatchHistoryEntry } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { WatchHistoryRepository, compactWatchHistory } from "@/commons/repositories/WatchHistoryRepository";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
+
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(),
+        set: vi.fn(),
+        remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
+    },
+}));
+
+const NOW = new Date("2025-06-01T12:00:00.000Z");
+
+function entry(animeId: string, episode: number, timestamp: string): WatchHistoryEntry {
+    return { animeId, animeTitle: animeId, episode, timestamp, source: "manual" };
+}
+
+describe("compactWatchHistory", () => {
+    it("should drop entries past the retention period", () => {
+        const history = [entry("a", 1, "2023-01-01T00:00:00.000Z"), entry("a", 2, "2025-05-01T00:00:00.000Z")];
+
+        expect(compactWatchHistory(history, NOW)).toEqual([history[1]]);
+    });
+
+    it("should collapse a burst of changes to one anime to its last entry", () => {
+        const history = [
+            entry("a", 2, "2025-05-01T20:00:00.000Z"),
+            entry("b", 7, "2025-05-01T20:02:00.000Z"),
+            entry("a", 3, "2025-05-01T20:04:00.000Z"),
+            entry("a", 4, "2025-05-01T20:08:00.000Z"),
+            entry("a", 5, "2025-05-01T21:00:00.000Z"),
+        ];
+
+        expect(compactWatchHistory(history, NOW).map(({ animeId, episode }) => `${animeId}${episode}`)).toEqual([
+            "b7",
+            "a4",
+            "a5",
+        ]);
+    });
+
+    it("should keep only the newest entries when still over the limit", () => {
+        const history = [
+            entry("a", 1, "2025-05-01T00:00:00.000Z"),
+            entry("a", 2, "2025-05-02T00:00:00.000Z"),
+            entry("a", 3, "2025-05-03T00:00:00.000Z"),
+        ];
+
+        expect(compactWatchHistory(history, NOW, 2)).toEqual(history.slice(1));
+    });
+});
+
+describe("WatchHistoryRepository", () => {
+    let storage: Record<string, any>;
+
+    beforeEach(() => {
+        vi.setSystemTime(NOW);
+        storage = installMemoryStorage(StorageAdapter, {});
+    });
+
+    it("should append entries in the order they happened", async () => {
+        const repository = new WatchHistoryRepository();
+
+        await repository.append(entry("a", 1, "2025-05-01T00:00:00.000Z"));
+        await repository.append(entry("b", 1, "2025-05-02T00:00:00.000Z"), entry("a", 2, "2025-05-03T00:00:00.000Z"));
+
+        expect((await repository.findAll()).map(({ animeId, episode }) => `${animeId}${episode}`)).toEqual([
+            "a1",
+            "b1",
+            "a2",
+        ]);
+        expect((await repository.findByAnimeId("a")).map(({ episode }) => episode)).toEqual([1, 2]);
+        expect(await repository.count()).toBe(3);
+    });
+
+    it("should write only the day an entry belongs to", async () => {
+        const repository = new WatchHistoryRepository();
+        await repository.append(entry("a", 1, "2025-05-01T00:00:00.000Z"));
+        vi.mocked(StorageAdapter.setMultiple).mockClear();
+
+        await repository.append(entry("a", 2, "2025-05-01T20:00:00.000Z"));
+
+        expect(StorageAdapter.setMultiple).toHaveBeenCalledTimes(1);
+        expect(StorageAdapter.setMultiple).toHaveBeenCalledWith({
+            "watchHistory:2025-05-01": [
+                entry("a", 1, "2025-05-01T00:00:00.000Z"),
+                entry("a", 2, "2025-05-01T20:00:00.000Z"),
+            ],
+        });
+        expect(storage[StorageKeys.WATCH_HISTORY_INDEX]).toEqual(["2025-05-01"]);
+    });
+
+    it("should compact once a new day starts with the log over the limit", async () => {
+        const repository = new WatchHistoryRepository(2);
+        await repository.append(entry("a", 1, "2025-05-01T00:00:00.000Z"), entry("a", 2, "2025-05-02T00:00:00.000Z"));
+
+        await repository.append(entry("a", 3, "2025-05-03T00:00:00.000Z"));
+
+        expect((await repository.findAll()).map(({ episode }) => episode)).toEqual([2, 3]);
+        expect(storage[StorageKeys.WATCH_HISTORY_INDEX]).toEqual(["2025-05-02", "2025-05-03"]);
+        expect(storage["watchHistory:2025-05-01"]).toBeUndefined();
+    });
+
+    it("should drop days past the retention period on every append", async () => {
+        const repository = new WatchHistoryRepository();
+        Object.assign(storage, {
+            [StorageKeys.WATCH_HISTORY_INDEX]: ["2023-01-01", "2025-05-02"],
+            "watchHistory:2023-01-01": [entry("a", 1, "2023-01-01T00:00:00.000Z")],
+            "watchHistory:2025-05-02": [entry("a", 2, "2025-05-02T00:00:00.000Z")],
+        });
+
+        await repository.append(entry("a", 3, "2025-05-02T10:00:00.000Z"));
+
+        expect((await repository.findAll()).map(({ episode }) => episode)).toEqual([2, 3]);
+        expect(storage["watchHistory:2023-01-01"]).toBeUndefined();
+    });
+
+    it("should leave storage alone when there is nothing to compact", async () => {
+        const repository = new WatchHistoryRepository();
+        await repository.append(entry("a", 1, "2025-05-01T00:00:00.000Z"));
+        vi.mocked(StorageAdapter.setMultiple).mockClear();
+
+        await repository.compact();
+
+        expect(StorageAdapter.setMultiple).not.toHaveBeenCalled();
+        expect(StorageAdapter.removeMultiple).not.toHaveBeenCalled();
+    });
+
+    it("should move entries to the id an anime was merged into", async () => {
+        const repository = new WatchHistoryRepository();
+        await repository.append(entry("a", 1, "2025-05-01T00:00:00.000Z"), entry("b", 4, "2025-05-02T00:00:00.000Z"));
+
+        await repository.replaceAnimeId("b", "a");
+
+        expect((await repository.findByAnimeId("a")).map(({ episode }) => episode)).toEqual([1, 4]);
+        await repository.clear();
+        expect(storage).toEqual({});
+    });
+});
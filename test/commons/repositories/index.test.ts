@@ -1,7 +1,10 @@
 import {
     BaseRepository,
+    CompletedAnimeRepository,
+    DroppedAnimeRepository,
     EpisodeProgressRepository,
     HiddenAnimeRepository,
+    OnHoldAnimeRepository,
     PlanToWatchRepository,
 } from "@/commons/repositories";
 import { describe, expect, it } from "vitest";
@@ -12,6 +15,9 @@ describe("Repository Index Exports", () => {
         expect(EpisodeProgressRepository).toBeDefined();
         expect(HiddenAnimeRepository).toBeDefined();
         expect(PlanToWatchRepository).toBeDefined();
+        expect(CompletedAnimeRepository).toBeDefined();
+        expect(DroppedAnimeRepository).toBeDefined();
+        expect(OnHoldAnimeRepository).toBeDefined();
     });
 
     it("should create repository instances", () => {
@@ -22,5 +28,8 @@ describe("Repository Index Exports", () => {
         expect(episodeRepo).toBeInstanceOf(BaseRepository);
         expect(hiddenRepo).toBeInstanceOf(BaseRepository);
         expect(planRepo).toBeInstanceOf(BaseRepository);
+        expect(new CompletedAnimeRepository()).toBeInstanceOf(BaseRepository);
+        expect(new DroppedAnimeRepository()).toBeInstanceOf(BaseRepository);
+        expect(new OnHoldAnimeRepository()).toBeInstanceOf(BaseRepository);
     });
 });
@@ -159,6 +159,122 @@ describe("AnimeStateValidator", () => {
         });
     });
 
+    describe("validateTransition - Status Lists", () => {
+        const pausedProgress = {
+            animeId: "123",
+            animeTitle: "Test Anime",
+            animeSlug: "test-anime",
+            currentEpisode: 7,
+            episodeId: "ep-7",
+            lastWatched: "2025-07-19T10:00:00.000Z",
+        };
+
+        const watchStatus: AnimeStatus = { isTracked: true, isPlanned: false, isHidden: false };
+        const onHoldStatus: AnimeStatus = {
+            isTracked: false,
+            isPlanned: false,
+            isHidden: false,
+            isOnHold: true,
+            onHold: { ...pausedProgress, pausedAt: "2025-07-20T10:00:00.000Z" },
+        };
+        const droppedStatus: AnimeStatus = {
+            isTracked: false,
+            isPlanned: false,
+            isHidden: false,
+            isDropped: true,
+            dropped: { ...pausedProgress, droppedAt: "2025-07-20T10:00:00.000Z" },
+        };
+        const completedStatus: AnimeStatus = { isTracked: false, isPlanned: false, isHidden: false, isCompleted: true };
+        const cleanStatus: AnimeStatus = { isTracked: false, isPlanned: false, isHidden: false };
+
+        it("should allow completing, dropping and pausing while watching", () => {
+            expect(AnimeStateValidator.validateTransition(watchStatus, AnimeAction.COMPLETE).allowed).toBe(true);
+            expect(AnimeStateValidator.validateTransition(watchStatus, AnimeAction.DROP).allowed).toBe(true);
+            expect(AnimeStateValidator.validateTransition(watchStatus, AnimeAction.PUT_ON_HOLD).allowed).toBe(true);
+        });
+
+        it("should allow completing before the last episode", () => {
+            const status: AnimeStatus = {
+                ...watchStatus,
+                progress: { ...pausedProgress, totalEpisodes: 24 },
+            };
+
+            expect(AnimeStateValidator.hasReachedFinale(status.progress)).toBe(false);
+            expect(AnimeStateValidator.validateTransition(status, AnimeAction.COMPLETE).allowed).toBe(true);
+        });
+
+        it("should not allow status transitions for anime that is not being watched", () => {
+            const result = AnimeStateValidator.validateTransition(cleanStatus, AnimeAction.COMPLETE);
+            expect(result.allowed).toBe(false);
+            expect(result.reason).toBe("Anime is not being watched");
+        });
+
+        it("should allow resuming, completing and dropping on-hold anime", () => {
+            expect(AnimeStateValidator.validateTransition(onHoldStatus, AnimeAction.RESUME).allowed).toBe(true);
+            expect(AnimeStateValidator.validateTransition(onHoldStatus, AnimeAction.COMPLETE).allowed).toBe(true);
+            expect(AnimeStateValidator.validateTransition(onHoldStatus, AnimeAction.DROP).allowed).toBe(true);
+            expect(AnimeStateValidator.validateTransition(onHoldStatus, AnimeAction.REMOVE_FROM_ON_HOLD).allowed).toBe(
+                true,
+            );
+        });
+
+        it("should not allow putting on-hold anime on hold again", () => {
+            const result = AnimeStateValidator.validateTransition(onHoldStatus, AnimeAction.PUT_ON_HOLD);
+            expect(result.allowed).toBe(false);
+            expect(result.reason).toBe("Anime is already on hold");
+        });
+
+        it("should allow resuming dropped anime but not completing it", () => {
+            expect(AnimeStateValidator.validateTransition(droppedStatus, AnimeAction.RESUME).allowed).toBe(true);
+            expect(AnimeStateValidator.validateTransition(droppedStatus, AnimeAction.COMPLETE).allowed).toBe(false);
+        });
+
+        it("should not allow hiding or planning completed anime", () => {
+            const hide = AnimeStateValidator.validateTransition(completedStatus, AnimeAction.HIDE);
+            expect(hide.allowed).toBe(false);
+            expect(hide.reason).toBe("Cannot hide completed anime");
+
+            const plan = AnimeStateValidator.validateTransition(completedStatus, AnimeAction.ADD_TO_PLAN);
+            expect(plan.allowed).toBe(false);
+            expect(plan.reason).toBe("Cannot add completed anime to plan list");
+        });
+
+        it("should allow removing completed anime", () => {
+            const result = AnimeStateValidator.validateTransition(completedStatus, AnimeAction.REMOVE_FROM_COMPLETED);
+            expect(result.allowed).toBe(true);
+        });
+
+        it("should describe status list states", () => {
+            expect(AnimeStateValidator.getStateDescription(onHoldStatus)).toBe("On Hold (Episode 7)");
+            expect(AnimeStateValidator.getStateDescription(droppedStatus)).toBe("Dropped (Episode 7)");
+            expect(AnimeStateValidator.getStateDescription(completedStatus)).toBe("Completed");
+        });
+    });
+
+    describe("hasReachedFinale", () => {
+        const progress = {
+            animeId: "123",
+            animeTitle: "Test Anime",
+            animeSlug: "test-anime",
+            currentEpisode: 12,
+            episodeId: "ep-12",
+            lastWatched: "2025-07-19T10:00:00.000Z",
+        };
+
+        it("should be true once the current episode reaches the total", () => {
+            expect(AnimeStateValidator.hasReachedFinale({ ...progress, totalEpisodes: 12 })).toBe(true);
+        });
+
+        it("should be false before the last episode", () => {
+            expect(AnimeStateValidator.hasReachedFinale({ ...progress, totalEpisodes: 24 })).toBe(false);
+        });
+
+        it("should be false when the total is unknown", () => {
+            expect(AnimeStateValidator.hasReachedFinale(progress)).toBe(false);
+            expect(AnimeStateValidator.hasReachedFinale(undefined)).toBe(false);
+        });
+    });
+
     describe("getAvailableActions", () => {
         it("should return available actions for clean state", () => {
             const cleanStatus: AnimeStatus = { isTracked: false, isPlanned: false, isHidden: false };
@@ -260,6 +376,25 @@ describe("AnimeStateValidator", () => {
             expect(recommended).toEqual([AnimeAction.UPDATE_EPISODE, AnimeAction.REMOVE_FROM_WATCH]);
         });
 
+        it("should recommend completing once the last episode is reached", () => {
+            const finaleStatus: AnimeStatus = {
+                isTracked: true,
+                isPlanned: false,
+                isHidden: false,
+                progress: {
+                    animeId: "123",
+                    animeTitle: "Test Anime",
+                    animeSlug: "test-anime",
+                    currentEpisode: 12,
+                    episodeId: "ep-12",
+                    lastWatched: "2025-07-19T10:00:00.000Z",
+                    totalEpisodes: 12,
+                },
+            };
+            const recommended = AnimeStateValidator.getRecommendedActions(finaleStatus);
+            expect(recommended).toEqual([AnimeAction.COMPLETE, AnimeAction.UPDATE_EPISODE]);
+        });
+
         it("should recommend watch and remove for plan state", () => {
             const planStatus: AnimeStatus = { isTracked: false, isPlanned: true, isHidden: false };
             const recommended = AnimeStateValidator.getRecommendedActions(planStatus);
@@ -0,0 +1,444 @@
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import { CURRENT_SCHEMA_VERSION } from "@/commons/migrations";
+import type {
+    AnimeUserData,
+    EpisodeProgress,
+    HiddenAnime,
+    LibraryBackup,
+    LibraryData,
+    PlanToWatch,
+} from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import { LibraryBackupService } from "@/commons/services/LibraryBackupService";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { installMemoryStorage } from "../memoryStorage";
+
+// Mock the StorageAdapter
+vi.mock("@/commons/adapters/StorageAdapter", () => ({
+    StorageAdapter: {
+        get: vi.fn(),
+        set: vi.fn(),
+        remove: vi.fn(),
+        getMultiple: vi.fn(),
+        setMultiple: vi.fn(),
+        removeMultiple: vi.fn(),
+    },
+}));
+
+const mockStorageAdapter = StorageAdapter as unknown as {
+    getMultiple: ReturnType<typeof vi.fn>;
+    setMultiple: ReturnType<typeof vi.fn>;
+};
+
+const progress = (animeId: string, currentEpisode = 1): EpisodeProgress => ({
+    animeId,
+    animeTitle: `Title ${animeId}`,
+    animeSlug: animeId,
+    currentEpisode,
+    episodeId: `${animeId}-episode-${currentEpisode}`,
+    lastWatched: "2025-01-01T00:00:00.000Z",
+});
+
+const plan = (animeId: string): PlanToWatch => ({
+    animeId,
+    animeTitle: `Title ${animeId}`,
+    animeSlug: animeId,
+    addedAt: "2025-01-01T00:00:00.000Z",
+});
+
+const hidden = (animeId: string): HiddenAnime => ({
+    animeId,
+    animeTitle: `Title ${animeId}`,
+    animeSlug: animeId,
+    hiddenAt: "2025-01-01T00:00:00.000Z",
+});
+
+const rating = (animeId: string, score: number): AnimeUserData => ({
+    animeId,
+    score,
+    tags: [],
+    updatedAt: "2025-01-01T00:00:00.000Z",
+});
+
+const library = (overrides: Partial<LibraryData> = {}): LibraryData => ({
+    [StorageKeys.EPISODE_PROGRESS]: {},
+    [StorageKeys.PLAN_TO_WATCH]: {},
+    [StorageKeys.COMPLETED]: {},
+    [StorageKeys.ON_HOLD]: {},
+    [StorageKeys.DROPPED]: {},
+    [StorageKeys.HIDDEN_ANIME]: {},
+    [StorageKeys.USER_DATA]: {},
+    [StorageKeys.FOLDER_ORDER]: null,
+    [StorageKeys.TILE_ORDER]: null,
+    ...overrides,
+});
+
+const backupOf = (data: LibraryData): LibraryBackup => ({
+    format: "anime-list-backup",
+    version: 1,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: "2025-02-01T00:00:00.000Z",
+    data,
+});
+
+describe("LibraryBackupService", () => {
+    let service: LibraryBackupService;
+
+    beforeEach(() => {
+        vi.setSystemTime(new Date("2025-02-01T00:00:00.000Z"));
+        service = new LibraryBackupService();
+    });
+
+    describe("exportLibrary", () => {
+        it("should serialize every stored list into a versioned document", async () => {
+            installMemoryStorage(StorageAdapter, {
+                [StorageKeys.EPISODE_PROGRESS_INDEX]: ["a"],
+                [`${StorageKeys.EPISODE_PROGRESS}:a`]: progress("a"),
+                [StorageKeys.HIDDEN_ANIME]: { h: hidden("h") },
+                [StorageKeys.USER_DATA]: { a: rating("a", 8) },
+                [StorageKeys.SCHEMA_VERSION]: CURRENT_SCHEMA_VERSION,
+            });
+
+            const backup = await service.exportLibrary();
+
+            expect(backup).toEqual(
+                backupOf(
+                    library({
+                        [StorageKeys.EPISODE_PROGRESS]: { a: progress("a") },
+                        [StorageKeys.HIDDEN_ANIME]: { h: hidden("h") },
+                        [StorageKeys.USER_DATA]: { a: rating("a", 8) },
+                    }),
+                ),
+            );
+        });
+
+        it("should round-trip through serialize and parse", async () => {
+            installMemoryStorage(StorageAdapter, {
+                [StorageKeys.PLAN_TO_WATCH_INDEX]: ["p"],
+                [`${StorageKeys.PLAN_TO_WATCH}:p`]: plan("p"),
+            });
+
+            const backup = await service.exportLibrary();
+            const parsed = LibraryBackupService.parse(LibraryBackupService.serialize(backup));
+
+            expect(parsed).toEqual({ success: true, backup });
+        });
+    });
+
+    describe("parse", () => {
+        it("should reject invalid JSON", () => {
+            expect(LibraryBackupService.parse("{nope")).toEqual({ success: false, error: "File is not valid JSON" });
+        });
+
+        it("should reject documents that are not backups", () => {
+            expect(LibraryBackupService.parse('{"foo": 1}')).toEqual({
+                success: false,
+                error: "File is not an AnimeList backup",
+            });
+        });
+
+        it("should reject backups from a newer version", () => {
+            const text = JSON.stringify({ ...backupOf(library()), version: 99 });
+            expect(LibraryBackupService.parse(text).success).toBe(false);
+        });
+
+        it("should reject lists with the wrong shape", () => {
+            const text = JSON.stringify({ ...backupOf(library()), data: { [StorageKeys.HIDDEN_ANIME]: ["a"] } });
+            expect(LibraryBackupService.parse(text)).toEqual({
+                success: false,
+                error: 'Backup entry "hiddenAnime" has an invalid format',
+            });
+        });
+
+        it("should upgrade old backups through the storage migrations", () => {
+            const text = JSON.stringify({
+                format: "anime-list-backup",
+                version: 1,
+                schemaVersion: 0,
+                exportedAt: "2024-01-01T00:00:00.000Z",
+                data: { [StorageKeys.HIDDEN_ANIME]: ["a", "a"] },
+            });
+
+            const result = LibraryBackupService.parse(text);
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.backup.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+                expect(result.backup.data[StorageKeys.HIDDEN_ANIME]).toEqual({
+                    a: { animeId: "a", animeTitle: "a", animeSlug: "a", hiddenAt: "1970-01-01T00:00:00.000Z" },
+                });
+            }
+        });
+    });
+
+    describe("planImport", () => {
+        it("should report added, changed and unchanged entries when merging", () => {
+            const local = library({ [StorageKeys.EPISODE_PROGRESS]: { a: progress("a", 1), b: progress("b", 2) } });
+            const incoming = library({
+                [StorageKeys.EPISODE_PROGRESS]: { a: progress("a", 5), b: progress("b", 2), c: progress("c", 1) },
+            });
+
+            const result = LibraryBackupService.planImport(local, backupOf(incoming));
+            const list = result.lists[StorageKeys.EPISODE_PROGRESS];
+
+            expect(list.added.map((e) => e.id)).toEqual(["c"]);
+            expect(list.changed.map((e) => e.id)).toEqual(["a"]);
+            expect(list.unchanged).toBe(1);
+            expect(result.result[StorageKeys.EPISODE_PROGRESS].a.currentEpisode).toBe(5);
+            expect(result.touched).toEqual([StorageKeys.EPISODE_PROGRESS]);
+        });
+
+        it("should keep local-only entries when merging and remove them when replacing", () => {
+            const local = library({ [StorageKeys.PLAN_TO_WATCH]: { old: plan("old") } });
+            const incoming = library({ [StorageKeys.PLAN_TO_WATCH]: { fresh: plan("fresh") } });
+
+            const merged = LibraryBackupService.planImport(local, backupOf(incoming));
+            expect(Object.keys(merged.result[StorageKeys.PLAN_TO_WATCH])).toEqual(["old", "fresh"]);
+
+            const replaced = LibraryBackupService.planImport(local, backupOf(incoming), {
+                [StorageKeys.PLAN_TO_WATCH]: "replace",
+            });
+            expect(Object.keys(replaced.result[StorageKeys.PLAN_TO_WATCH])).toEqual(["fresh"]);
+            expect(replaced.lists[StorageKeys.PLAN_TO_WATCH].removed.map((e) => e.id)).toEqual(["old"]);
+        });
+
+        it("should leave skipped lists untouched", () => {
+            const incoming = library({ [StorageKeys.HIDDEN_ANIME]: { x: hidden("x") } });
+
+            const result = LibraryBackupService.planImport(library(), backupOf(incoming), {
+                [StorageKeys.HIDDEN_ANIME]: "skip",
+            });
+
+            expect(result.result[StorageKeys.HIDDEN_ANIME]).toEqual({});
+            expect(result.touched).toEqual([]);
+        });
+
+        it("should never produce an anime that is both hidden and watching", () => {
+            const local = library({ [StorageKeys.EPISODE_PROGRESS]: { a: progress("a") } });
+            const incoming = library({ [StorageKeys.HIDDEN_ANIME]: { a: hidden("a") } });
+
+            const result = LibraryBackupService.planImport(local, backupOf(incoming));
+
+            expect(result.result[StorageKeys.HIDDEN_ANIME]).toEqual({});
+            expect(result.lists[StorageKeys.HIDDEN_ANIME].conflicts).toEqual([
+                { id: "a", title: "Title a", reason: "Cannot hide while watching" },
+            ]);
+        });
+
+        it("should resolve conflicts inside the backup itself", () => {
+            const incoming = library({
+                [StorageKeys.EPISODE_PROGRESS]: { a: progress("a") },
+                [StorageKeys.HIDDEN_ANIME]: { a: hidden("a") },
+            });
+
+            const result = LibraryBackupService.planImport(library(), backupOf(incoming));
+
+            expect(result.result[StorageKeys.EPISODE_PROGRESS]).toHaveProperty("a");
+            expect(result.result[StorageKeys.HIDDEN_ANIME]).toEqual({});
+            expect(result.lists[StorageKeys.HIDDEN_ANIME].conflicts).toHaveLength(1);
+        });
+
+        it("should move a planned anime out of plan when the backup has it as watching", () => {
+            const local = library({ [StorageKeys.PLAN_TO_WATCH]: { a: plan("a") } });
+            const incoming = library({ [StorageKeys.EPISODE_PROGRESS]: { a: progress("a", 3) } });
+
+            const result = LibraryBackupService.planImport(local, backupOf(incoming));
+
+            expect(result.result[StorageKeys.PLAN_TO_WATCH]).toEqual({});
+            expect(result.lists[StorageKeys.PLAN_TO_WATCH].removed.map((e) => e.id)).toEqual(["a"]);
+            expect(result.touched).toEqual([StorageKeys.EPISODE_PROGRESS, StorageKeys.PLAN_TO_WATCH]);
+        });
+
+        it("should move an anime between status lists when the transition is allowed", () => {
+            const local = library({ [StorageKeys.EPISODE_PROGRESS]: { a: progress("a", 12) } });
+            const incoming = library({
+                [StorageKeys.COMPLETED]: { a: { ...progress("a", 12), completedAt: "2025-01-05T00:00:00.000Z" } },
+            });
+
+            const result = LibraryBackupService.planImport(local, backupOf(incoming));
+
+            expect(result.result[StorageKeys.EPISODE_PROGRESS]).toEqual({});
+            expect(result.result[StorageKeys.COMPLETED]).toHaveProperty("a");
+            expect(result.lists[StorageKeys.EPISODE_PROGRESS].removed.map((e) => e.id)).toEqual(["a"]);
+            expect(result.lists[StorageKeys.COMPLETED].added.map((e) => e.id)).toEqual(["a"]);
+        });
+
+        it("should keep a completed anime when the backup has it as watching", () => {
+            const local = library({
+                [StorageKeys.COMPLETED]: { a: { ...progress("a", 12), completedAt: "2025-01-05T00:00:00.000Z" } },
+            });
+            const incoming = library({ [StorageKeys.EPISODE_PROGRESS]: { a: progress("a", 3) } });
+
+            const result = LibraryBackupService.planImport(local, backupOf(incoming));
+
+            expect(result.result[StorageKeys.EPISODE_PROGRESS]).toEqual({});
+            expect(result.lists[StorageKeys.EPISODE_PROGRESS].conflicts).toEqual([
+                { id: "a", title: "Title a", reason: "Action not available for completed anime" },
+            ]);
+        });
+
+        it("should allow a replaced list to take over entries from the list it replaces", () => {
+            const local = library({ [StorageKeys.HIDDEN_ANIME]: { a: hidden("a") } });
+            const incoming = library({
+                [StorageKeys.EPISODE_PROGRESS]: { a: progress("a") },
+                [StorageKeys.HIDDEN_ANIME]: {},
+            });
+
+            const result = LibraryBackupService.planImport(local, backupOf(incoming), {
+                [StorageKeys.HIDDEN_ANIME]: "replace",
+            });
+
+            expect(result.lists[StorageKeys.EPISODE_PROGRESS].added.map((e) => e.id)).toEqual(["a"]);
+            expect(result.result[StorageKeys.HIDDEN_ANIME]).toEqual({});
+        });
+
+        it("should merge folders by id and union their contents", () => {
+            const local = library({
+                [StorageKeys.FOLDER_ORDER]: {
+                    folders: [{ id: "f1", name: "Shonen", borderColor: "#fff", createdAt: "" }],
+                    rootItems: ["folder:f1", "a"],
+                    folderContents: { f1: ["x"] },
+                    lastUpdated: "",
+                },
+            });
+            const incoming = library({
+                [StorageKeys.FOLDER_ORDER]: {
+                    folders: [
+                        { id: "f1", name: "Shonen", borderColor: "#fff", createdAt: "" },
+                        { id: "f2", name: "Romance", borderColor: "#f00", createdAt: "" },
+                    ],
+                    rootItems: ["folder:f2", "b"],
+                    folderContents: { f1: ["y"], f2: [] },
+                    lastUpdated: "",
+                },
+            });
+
+            const result = LibraryBackupService.planImport(local, backupOf(incoming));
+            const merged = result.result[StorageKeys.FOLDER_ORDER];
+
+            expect(result.lists[StorageKeys.FOLDER_ORDER].added).toEqual([{ id: "f2", title: "Romance" }]);
+            expect(merged?.folders.map((f) => f.id)).toEqual(["f1", "f2"]);
+            expect(merged?.rootItems).toEqual(["folder:f1", "a", "folder:f2", "b"]);
+            expect(merged?.folderContents).toEqual({ f1: ["x", "y"], f2: [] });
+        });
+
+        it("should merge ratings by anime id whatever list the anime is on", () => {
+            const local = library({
+                [StorageKeys.HIDDEN_ANIME]: { a: hidden("a") },
+                [StorageKeys.USER_DATA]: { a: rating("a", 3), b: rating("b", 5), c: rating("c", 7) },
+            });
+            const incoming = library({
+                [StorageKeys.USER_DATA]: { a: rating("a", 4), b: rating("b", 5), d: rating("d", 9) },
+            });
+
+            const merged = LibraryBackupService.planImport(local, backupOf(incoming));
+            const plan = merged.lists[StorageKeys.USER_DATA];
+
+            expect(plan.added).toEqual([{ id: "d", title: "d" }]);
+            expect(plan.changed).toEqual([{ id: "a", title: "a" }]);
+            expect(plan.unchanged).toBe(1);
+            expect(plan.conflicts).toEqual([]);
+            expect(Object.keys(merged.result[StorageKeys.USER_DATA])).toEqual(["a", "b", "c", "d"]);
+            expect(merged.touched).toContain(StorageKeys.USER_DATA);
+
+            const replaced = LibraryBackupService.planImport(local, backupOf(incoming), {
+                [StorageKeys.USER_DATA]: "replace",
+            });
+            expect(replaced.lists[StorageKeys.USER_DATA].removed).toEqual([{ id: "c", title: "c" }]);
+            expect(Object.keys(replaced.result[StorageKeys.USER_DATA])).toEqual(["a", "b", "d"]);
+        });
+    });
+
+    describe("applyImport", () => {
+        it("should write only the touched lists", async () => {
+            const incoming = library({ [StorageKeys.HIDDEN_ANIME]: { x: hidden("x") } });
+            const importPlan = LibraryBackupService.planImport(library(), backupOf(incoming));
+
+            const result = await service.applyImport(importPlan);
+
+            expect(result).toEqual({ success: true, message: "Imported 1 entries" });
+            expect(mockStorageAdapter.setMultiple).toHaveBeenCalledWith({
+                [StorageKeys.HIDDEN_ANIME]: { x: hidden("x") },
+            });
+        });
+
+        it("should write per-anime lists one key per anime and drop replaced entries", async () => {
+            const storage = installMemoryStorage(StorageAdapter, {
+                [StorageKeys.EPISODE_PROGRESS_INDEX]: ["old"],
+                [`${StorageKeys.EPISODE_PROGRESS}:old`]: progress("old"),
+            });
+            const local = library({ [StorageKeys.EPISODE_PROGRESS]: { old: progress("old") } });
+            const incoming = library({ [StorageKeys.EPISODE_PROGRESS]: { a: progress("a", 4) } });
+            const importPlan = LibraryBackupService.planImport(local, backupOf(incoming), {
+                [StorageKeys.EPISODE_PROGRESS]: "replace",
+            });
+
+            await service.applyImport(importPlan);
+
+            expect(storage).toEqual({
+                [StorageKeys.EPISODE_PROGRESS_INDEX]: ["a"],
+                [`${StorageKeys.EPISODE_PROGRESS}:a`]: progress("a", 4),
+                [StorageKeys.WATCH_HISTORY_INDEX]: ["2025-02-01"],
+                [`${StorageKeys.WATCH_HISTORY}:2025-02-01`]: [
+                    expect.objectContaining({ animeId: "a", episode: 4, source: "import" }),
+                ],
+            });
+            expect(mockStorageAdapter.setMultiple).not.toHaveBeenCalledWith(
+                expect.objectContaining({ [StorageKeys.EPISODE_PROGRESS]: expect.anything() }),
+            );
+        });
+
+        it("should add imported episode changes to the watch history", async () => {
+            const storage = installMemoryStorage(StorageAdapter, {
+                [StorageKeys.EPISODE_PROGRESS_INDEX]: ["same", "behind"],
+                [`${StorageKeys.EPISODE_PROGRESS}:same`]: progress("same", 3),
+                [`${StorageKeys.EPISODE_PROGRESS}:behind`]: progress("behind", 2),
+            });
+            const local = library({
+                [StorageKeys.EPISODE_PROGRESS]: { same: progress("same", 3), behind: progress("behind", 2) },
+            });
+            const incoming = library({
+                [StorageKeys.EPISODE_PROGRESS]: {
+                    same: progress("same", 3),
+                    behind: progress("behind", 9),
+                    added: progress("added", 1),
+                },
+            });
+
+            await service.applyImport(
+                LibraryBackupService.planImport(local, backupOf(incoming), {
+                    [StorageKeys.EPISODE_PROGRESS]: "replace",
+                }),
+            );
+
+            expect(storage[`${StorageKeys.WATCH_HISTORY}:2025-02-01`]).toEqual([
+                {
+                    animeId: "behind",
+                    animeTitle: "Title behind",
+                    episode: 9,
+                    timestamp: "2025-02-01T00:00:00.000Z",
+                    source: "import",
+                },
+                {
+                    animeId: "added",
+                    animeTitle: "Title added",
+                    episode: 1,
+                    timestamp: "2025-02-01T00:00:00.000Z",
+                    source: "import",
+                },
+            ]);
+        });
+
+        it("should report storage failures", async () => {
+            mockStorageAdapter.setMultiple.mockRejectedValue(new Error("quota"));
+            const importPlan = LibraryBackupService.planImport(
+                library(),
+                backupOf(library({ [StorageKeys.HIDDEN_ANIME]: { x: hidden("x") } })),
+            );
+
+            const result = await service.applyImport(importPlan);
+
+            expect(result).toEqual({ success: false, message: "Failed to import library", error: "quota" });
+        });
+    });
+});
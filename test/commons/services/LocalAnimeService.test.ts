@@ -0,0 +1,2263 @@
+import type { AnimeData, AnimeIdentity, CustomList, EpisodeProgress, HiddenAnime, PlanToWatch } from "@/commons/models";
+import {
+    ActivityLogRepository,
+    AnimeIdentityRepository,
+    AnimeUserDataRepository,
+    CompletedAnimeRepository,
+    CustomListRepository,
+    DroppedAnimeRepository,
+    EpisodeProgressRepository,
+    FolderOrderRepository,
+    HiddenAnimeRepository,
+    OnHoldAnimeRepository,
+    PlanToWatchRepository,
+    WatchHistoryRepository,
+} from "@/commons/repositories";
+import { LocalAnimeService } from "@/commons/services/LocalAnimeService";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock repositories
+const createMockEpisodeProgressRepository = () => ({
+    findById: vi.fn(),
+    findByIds: vi.fn(),
+    findAll: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    exists: vi.fn(),
+    clear: vi.fn(),
+    count: vi.fn(),
+});
+
+const createMockPlanToWatchRepository = () => ({
+    findById: vi.fn(),
+    findByIds: vi.fn(),
+    findAll: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    exists: vi.fn(),
+    clear: vi.fn(),
+    count: vi.fn(),
+});
+
+const createMockHiddenAnimeRepository = () => ({
+    findById: vi.fn(),
+    findAll: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    exists: vi.fn(),
+    clear: vi.fn(),
+    count: vi.fn(),
+    remove: vi.fn(),
+    isHidden: vi.fn(),
+    getAll: vi.fn().mockResolvedValue({}),
+});
+
+// Completed, Dropped and On-Hold share the same record repository surface
+const createMockStatusListRepository = () => ({
+    findById: vi.fn().mockResolvedValue(null),
+    findAll: vi.fn().mockResolvedValue([]),
+    getAll: vi.fn().mockResolvedValue({}),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn().mockResolvedValue(undefined),
+    exists: vi.fn(),
+    clear: vi.fn(),
+    count: vi.fn(),
+});
+
+// Ids resolve to themselves unless a test links them
+const createMockIdentityRepository = () => ({
+    findById: vi.fn().mockResolvedValue(null),
+    findByAnyId: vi.fn().mockResolvedValue(null),
+    findAll: vi.fn().mockResolvedValue([]),
+    resolveId: vi.fn(async (animeId: string) => animeId),
+    resolveIds: vi.fn(async (animeIds: string[]) => Object.fromEntries(animeIds.map((animeId) => [animeId, animeId]))),
+    create: vi.fn().mockResolvedValue(undefined),
+    update: vi.fn().mockResolvedValue(undefined),
+    delete: vi.fn().mockResolvedValue(undefined),
+});
+
+const createMockCustomListRepository = () => ({
+    findById: vi.fn().mockResolvedValue(null),
+    findAll: vi.fn().mockResolvedValue([]),
+    create: vi.fn().mockResolvedValue(undefined),
+    update: vi.fn().mockResolvedValue(undefined),
+    delete: vi.fn().mockResolvedValue(undefined),
+    replaceAnimeId: vi.fn().mockResolvedValue(undefined),
+});
+
+const createMockUserDataRepository = () => ({
+    findById: vi.fn().mockResolvedValue(null),
+    getAll: vi.fn().mockResolvedValue({}),
+    create: vi.fn().mockResolvedValue(undefined),
+    delete: vi.fn().mockResolvedValue(undefined),
+    replaceAnimeId: vi.fn().mockResolvedValue(undefined),
+});
+
+const createMockWatchHistoryRepository = () => ({
+    append: vi.fn().mockResolvedValue(undefined),
+    removeLast: vi.fn().mockResolvedValue(undefined),
+    findAll: vi.fn().mockResolvedValue([]),
+    findByAnimeId: vi.fn().mockResolvedValue([]),
+    replaceAnimeId: vi.fn().mockResolvedValue(undefined),
+});
+
+const createMockActivityLogRepository = () => ({
+    append: vi.fn().mockResolvedValue(undefined),
+    removeLast: vi.fn().mockResolvedValue(undefined),
+    findAll: vi.fn().mockResolvedValue([]),
+    findByAnimeId: vi.fn().mockResolvedValue([]),
+    replaceAnimeId: vi.fn().mockResolvedValue(undefined),
+});
+
+const createMockFolderOrderRepository = () => ({
+    get: vi.fn().mockResolvedValue(null),
+    findFolderOf: vi.fn().mockResolvedValue(null),
+});
+
+type MockEpisodeProgressRepository = ReturnType<typeof createMockEpisodeProgressRepository>;
+type MockPlanToWatchRepository = ReturnType<typeof createMockPlanToWatchRepository>;
+type MockHiddenAnimeRepository = ReturnType<typeof createMockHiddenAnimeRepository>;
+type MockStatusListRepository = ReturnType<typeof createMockStatusListRepository>;
+type MockIdentityRepository = ReturnType<typeof createMockIdentityRepository>;
+type MockCustomListRepository = ReturnType<typeof createMockCustomListRepository>;
+type MockUserDataRepository = ReturnType<typeof createMockUserDataRepository>;
+type MockWatchHistoryRepository = ReturnType<typeof createMockWatchHistoryRepository>;
+type MockActivityLogRepository = ReturnType<typeof createMockActivityLogRepository>;
+type MockFolderOrderRepository = ReturnType<typeof createMockFolderOrderRepository>;
+
+describe("LocalAnimeService", () => {
+    let animeService: LocalAnimeService;
+    let mockEpisodeProgressRepo: MockEpisodeProgressRepository;
+    let mockPlanToWatchRepo: MockPlanToWatchRepository;
+    let mockHiddenAnimeRepo: MockHiddenAnimeRepository;
+    let mockCompletedRepo: MockStatusListRepository;
+    let mockDroppedRepo: MockStatusListRepository;
+    let mockOnHoldRepo: MockStatusListRepository;
+    let mockIdentityRepo: MockIdentityRepository;
+    let mockCustomListRepo: MockCustomListRepository;
+    let mockUserDataRepo: MockUserDataRepository;
+    let mockWatchHistoryRepo: MockWatchHistoryRepository;
+    let mockActivityLogRepo: MockActivityLogRepository;
+    let mockFolderOrderRepo: MockFolderOrderRepository;
+
+    const sampleAnimeData: AnimeData = {
+        animeId: "test-anime-1",
+        animeTitle: "Test Anime",
+        animeSlug: "test-anime",
+    };
+
+    const sampleEpisodeProgress: EpisodeProgress = {
+        animeId: "test-anime-1",
+        animeTitle: "Test Anime",
+        animeSlug: "test-anime",
+        currentEpisode: 5,
+        episodeId: "test-anime-episode-5",
+        lastWatched: "2024-01-15T10:30:00.000Z",
+        totalEpisodes: 12,
+    };
+
+    const samplePlanToWatch: PlanToWatch = {
+        animeId: "test-anime-1",
+        animeTitle: "Test Anime",
+        animeSlug: "test-anime",
+        addedAt: "2024-01-10T09:00:00.000Z",
+    };
+
+    const hiddenRecord = (animeId: string): HiddenAnime => ({
+        animeId,
+        animeTitle: `Title ${animeId}`,
+        animeSlug: animeId,
+        hiddenAt: "2024-01-10T09:00:00.000Z",
+    });
+
+    beforeEach(() => {
+        vi.setSystemTime(new Date("2024-01-15T10:30:00.000Z"));
+
+        mockEpisodeProgressRepo = createMockEpisodeProgressRepository();
+        mockPlanToWatchRepo = createMockPlanToWatchRepository();
+        mockHiddenAnimeRepo = createMockHiddenAnimeRepository();
+        mockCompletedRepo = createMockStatusListRepository();
+        mockDroppedRepo = createMockStatusListRepository();
+        mockOnHoldRepo = createMockStatusListRepository();
+        mockIdentityRepo = createMockIdentityRepository();
+        mockCustomListRepo = createMockCustomListRepository();
+        mockUserDataRepo = createMockUserDataRepository();
+        mockWatchHistoryRepo = createMockWatchHistoryRepository();
+        mockActivityLogRepo = createMockActivityLogRepository();
+        mockFolderOrderRepo = createMockFolderOrderRepository();
+
+        animeService = new LocalAnimeService(
+            mockEpisodeProgressRepo as unknown as EpisodeProgressRepository,
+            mockPlanToWatchRepo as unknown as PlanToWatchRepository,
+            mockHiddenAnimeRepo as unknown as HiddenAnimeRepository,
+            mockCompletedRepo as unknown as CompletedAnimeRepository,
+            mockDroppedRepo as unknown as DroppedAnimeRepository,
+            mockOnHoldRepo as unknown as OnHoldAnimeRepository,
+            mockIdentityRepo as unknown as AnimeIdentityRepository,
+            mockCustomListRepo as unknown as CustomListRepository,
+            mockUserDataRepo as unknown as AnimeUserDataRepository,
+            mockWatchHistoryRepo as unknown as WatchHistoryRepository,
+            mockActivityLogRepo as unknown as ActivityLogRepository,
+            mockFolderOrderRepo as unknown as FolderOrderRepository,
+        );
+    });
+
+    describe("constructor", () => {
+        it("should create instances with default repositories when no parameters provided", () => {
+            const service = new LocalAnimeService();
+            expect(service).toBeInstanceOf(LocalAnimeService);
+        });
+
+        it("should use provided repositories when parameters given", () => {
+            const service = new LocalAnimeService(
+                mockEpisodeProgressRepo as unknown as EpisodeProgressRepository,
+                mockPlanToWatchRepo as unknown as PlanToWatchRepository,
+                mockHiddenAnimeRepo as unknown as HiddenAnimeRepository,
+            );
+            expect(service).toBeInstanceOf(LocalAnimeService);
+        });
+    });
+
+    describe("getAnimeStatus", () => {
+        it("should return clean state when anime is not in any list", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const status = await animeService.getAnimeStatus("test-anime-1");
+
+            expect(status).toEqual({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: false,
+                progress: undefined,
+                plan: undefined,
+                isCompleted: false,
+                isDropped: false,
+                isOnHold: false,
+                completed: undefined,
+                dropped: undefined,
+                onHold: undefined,
+            });
+        });
+
+        it("should return tracked status when anime has episode progress", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const status = await animeService.getAnimeStatus("test-anime-1");
+
+            expect(status).toEqual({
+                isTracked: true,
+                isPlanned: false,
+                isHidden: false,
+                progress: sampleEpisodeProgress,
+                plan: undefined,
+                isCompleted: false,
+                isDropped: false,
+                isOnHold: false,
+                completed: undefined,
+                dropped: undefined,
+                onHold: undefined,
+            });
+        });
+
+        it("should return planned status when anime is in plan to watch", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(samplePlanToWatch);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const status = await animeService.getAnimeStatus("test-anime-1");
+
+            expect(status).toEqual({
+                isTracked: false,
+                isPlanned: true,
+                isHidden: false,
+                progress: undefined,
+                plan: samplePlanToWatch,
+                isCompleted: false,
+                isDropped: false,
+                isOnHold: false,
+                completed: undefined,
+                dropped: undefined,
+                onHold: undefined,
+            });
+        });
+
+        it("should return hidden status when anime is hidden", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(true);
+
+            const status = await animeService.getAnimeStatus("test-anime-1");
+
+            expect(status).toEqual({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: true,
+                progress: undefined,
+                plan: undefined,
+                isCompleted: false,
+                isDropped: false,
+                isOnHold: false,
+                completed: undefined,
+                dropped: undefined,
+                onHold: undefined,
+            });
+        });
+    });
+
+    describe("getAnimeStatuses", () => {
+        it("should resolve every id from one read of each list", async () => {
+            const plan: PlanToWatch = {
+                animeId: "planned-anime",
+                animeTitle: "Planned Anime",
+                animeSlug: "planned-anime",
+                addedAt: "2024-01-01T00:00:00.000Z",
+            };
+            mockEpisodeProgressRepo.findByIds.mockResolvedValue({ "test-anime-1": sampleEpisodeProgress });
+            mockPlanToWatchRepo.findByIds.mockResolvedValue({ "planned-anime": plan });
+            mockHiddenAnimeRepo.getAll.mockResolvedValue({ "hidden-anime": hiddenRecord("hidden-anime") });
+
+            const statuses = await animeService.getAnimeStatuses([
+                "test-anime-1",
+                "planned-anime",
+                "hidden-anime",
+                "unknown-anime",
+                "test-anime-1",
+            ]);
+
+            expect(mockEpisodeProgressRepo.findByIds).toHaveBeenCalledTimes(1);
+            expect(mockEpisodeProgressRepo.findByIds).toHaveBeenCalledWith([
+                "test-anime-1",
+                "planned-anime",
+                "hidden-anime",
+                "unknown-anime",
+            ]);
+            expect(mockPlanToWatchRepo.findByIds).toHaveBeenCalledTimes(1);
+            expect(mockHiddenAnimeRepo.getAll).toHaveBeenCalledTimes(1);
+            expect(mockEpisodeProgressRepo.findById).not.toHaveBeenCalled();
+
+            expect(Object.keys(statuses)).toEqual(["test-anime-1", "planned-anime", "hidden-anime", "unknown-anime"]);
+            expect(statuses["test-anime-1"]).toMatchObject({ isTracked: true, progress: sampleEpisodeProgress });
+            expect(statuses["planned-anime"]).toMatchObject({ isPlanned: true, plan });
+            expect(statuses["hidden-anime"]).toMatchObject({ isHidden: true, isTracked: false });
+            expect(statuses["unknown-anime"]).toEqual({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: false,
+                isCompleted: false,
+                isDropped: false,
+                isOnHold: false,
+                progress: undefined,
+                plan: undefined,
+                completed: undefined,
+                dropped: undefined,
+                onHold: undefined,
+            });
+        });
+
+        it("should match getAnimeStatus for completed, dropped and on-hold anime", async () => {
+            const record = { ...sampleEpisodeProgress, completedAt: "2024-01-01T00:00:00.000Z" };
+            mockEpisodeProgressRepo.findByIds.mockResolvedValue({});
+            mockPlanToWatchRepo.findByIds.mockResolvedValue({});
+            mockCompletedRepo.getAll.mockResolvedValue({ "done-anime": record });
+            mockDroppedRepo.getAll.mockResolvedValue({ "dropped-anime": record });
+            mockOnHoldRepo.getAll.mockResolvedValue({ "paused-anime": record });
+
+            const statuses = await animeService.getAnimeStatuses(["done-anime", "dropped-anime", "paused-anime"]);
+
+            expect(statuses["done-anime"]).toMatchObject({ isCompleted: true, completed: record });
+            expect(statuses["dropped-anime"]).toMatchObject({ isDropped: true, dropped: record });
+            expect(statuses["paused-anime"]).toMatchObject({ isOnHold: true, onHold: record });
+        });
+
+        it("should not touch storage for an empty id list", async () => {
+            expect(await animeService.getAnimeStatuses([])).toEqual({});
+            expect(mockEpisodeProgressRepo.findByIds).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("addToPlanToWatch", () => {
+        it("should add anime to plan to watch when in clean state", async () => {
+            // Mock clean state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockPlanToWatchRepo.create.mockResolvedValue(undefined);
+
+            const result = await animeService.addToPlanToWatch(sampleAnimeData);
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Added "Test Anime" to plan to watch');
+            expect(result.newStatus).toEqual({
+                isTracked: false,
+                isPlanned: true,
+                isHidden: false,
+            });
+
+            expect(mockPlanToWatchRepo.create).toHaveBeenCalledWith({
+                animeId: "test-anime-1",
+                animeTitle: "Test Anime",
+                animeSlug: "test-anime",
+                addedAt: "2024-01-15T10:30:00.000Z",
+            });
+        });
+
+        it("should record the site the anime was planned from", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            await animeService.addToPlanToWatch({
+                ...sampleAnimeData,
+                siteId: "animetsu",
+                episodeUrlTemplate: "https://animetsu.to/watch/{slug}/{episode}",
+            });
+
+            expect(mockPlanToWatchRepo.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    siteId: "animetsu",
+                    episodeUrlTemplate: "https://animetsu.to/watch/{slug}/{episode}",
+                }),
+            );
+        });
+
+        it("should fail when anime is already in plan", async () => {
+            // Mock planned state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(samplePlanToWatch);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.addToPlanToWatch(sampleAnimeData);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Anime is already in plan list");
+            expect(mockPlanToWatchRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should fail when anime is currently being watched", async () => {
+            // Mock watching state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.addToPlanToWatch(sampleAnimeData);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Cannot add to plan while watching");
+            expect(mockPlanToWatchRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should fail when anime is hidden", async () => {
+            // Mock hidden state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(true);
+
+            const result = await animeService.addToPlanToWatch(sampleAnimeData);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Cannot add hidden anime to plan list");
+            expect(mockPlanToWatchRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should handle repository errors gracefully", async () => {
+            // Mock clean state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockPlanToWatchRepo.create.mockRejectedValue(new Error("Storage error"));
+
+            const result = await animeService.addToPlanToWatch(sampleAnimeData);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Failed to add anime to plan to watch");
+            expect(result.error).toBe("Storage error");
+        });
+    });
+
+    describe("removeFromPlanToWatch", () => {
+        it("should remove anime from plan to watch", async () => {
+            // Mock planned state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(samplePlanToWatch);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockPlanToWatchRepo.delete.mockResolvedValue(undefined);
+
+            const result = await animeService.removeFromPlanToWatch("test-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Removed "Test Anime" from plan to watch');
+            expect(result.newStatus).toEqual({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: false,
+            });
+
+            expect(mockPlanToWatchRepo.delete).toHaveBeenCalledWith("test-anime-1");
+        });
+
+        it("should fail when anime is not in plan list", async () => {
+            // Mock clean state - anime is not in plan
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.removeFromPlanToWatch("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Anime is not in plan list");
+            expect(mockPlanToWatchRepo.delete).not.toHaveBeenCalled();
+        });
+
+        it("should handle repository errors gracefully", async () => {
+            // Mock planned state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(samplePlanToWatch);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockPlanToWatchRepo.delete.mockRejectedValue(new Error("Delete failed"));
+
+            const result = await animeService.removeFromPlanToWatch("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Failed to remove anime from plan to watch");
+            expect(result.error).toBe("Delete failed");
+        });
+    });
+
+    describe("startWatching", () => {
+        it("should start watching from clean state", async () => {
+            // Mock clean state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.create.mockResolvedValue(undefined);
+
+            const result = await animeService.startWatching(sampleAnimeData, 1);
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Started watching "Test Anime" from episode 1');
+            expect(result.newStatus).toEqual({
+                isTracked: true,
+                isPlanned: false,
+                isHidden: false,
+            });
+
+            expect(mockEpisodeProgressRepo.create).toHaveBeenCalledWith({
+                animeId: "test-anime-1",
+                animeTitle: "Test Anime",
+                animeSlug: "test-anime",
+                currentEpisode: 1,
+                episodeId: "test-anime-episode-1",
+                lastWatched: "2024-01-15T10:30:00.000Z",
+            });
+        });
+
+        it("should start watching from planned state and remove from plan", async () => {
+            // Mock planned state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(samplePlanToWatch);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.create.mockResolvedValue(undefined);
+            mockPlanToWatchRepo.delete.mockResolvedValue(undefined);
+
+            const result = await animeService.startWatching(sampleAnimeData, 3);
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Started watching "Test Anime" from episode 3');
+
+            expect(mockEpisodeProgressRepo.create).toHaveBeenCalled();
+            expect(mockPlanToWatchRepo.delete).toHaveBeenCalledWith("test-anime-1");
+        });
+
+        it("should start watching from clean state without removing from plan", async () => {
+            // Mock clean state (not planned, so removesFromPlan should be false/undefined)
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.create.mockResolvedValue(undefined);
+
+            const result = await animeService.startWatching(sampleAnimeData, 2);
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Started watching "Test Anime" from episode 2');
+
+            expect(mockEpisodeProgressRepo.create).toHaveBeenCalled();
+            // Should NOT call delete since it wasn't planned
+            expect(mockPlanToWatchRepo.delete).not.toHaveBeenCalled();
+        });
+
+        it("should fail when anime is already being watched", async () => {
+            // Mock watching state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.startWatching(sampleAnimeData);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Anime is already being watched");
+            expect(mockEpisodeProgressRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should fail when anime is hidden", async () => {
+            // Mock hidden state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(true);
+
+            const result = await animeService.startWatching(sampleAnimeData);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Cannot add hidden anime to watch list");
+            expect(mockEpisodeProgressRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should persist the poster URL when the anime data includes one", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.create.mockResolvedValue(undefined);
+
+            const animeDataWithPoster: AnimeData = {
+                ...sampleAnimeData,
+                posterUrl: "https://cdn.anipixcdn.co/thumbnail/test.jpg",
+            };
+
+            const result = await animeService.startWatching(animeDataWithPoster, 1);
+
+            expect(result.success).toBe(true);
+            expect(mockEpisodeProgressRepo.create).toHaveBeenCalledWith({
+                animeId: "test-anime-1",
+                animeTitle: "Test Anime",
+                animeSlug: "test-anime",
+                currentEpisode: 1,
+                episodeId: "test-anime-episode-1",
+                lastWatched: "2024-01-15T10:30:00.000Z",
+                posterUrl: "https://cdn.anipixcdn.co/thumbnail/test.jpg",
+            });
+        });
+
+        it("should not include a posterUrl key when the anime data has none", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.create.mockResolvedValue(undefined);
+
+            await animeService.startWatching(sampleAnimeData, 1);
+
+            const createdProgress = mockEpisodeProgressRepo.create.mock.calls[0][0] as EpisodeProgress;
+            expect("posterUrl" in createdProgress).toBe(false);
+        });
+
+        it("should record the site the anime was tracked on", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.create.mockResolvedValue(undefined);
+
+            await animeService.startWatching({ ...sampleAnimeData, siteId: "hianime" }, 1);
+
+            const createdProgress = mockEpisodeProgressRepo.create.mock.calls[0][0] as EpisodeProgress;
+            expect(createdProgress.siteId).toBe("hianime");
+        });
+
+        it("should take the site from the plan entry when the anime data has none", async () => {
+            const plannedFromHiAnime = {
+                ...samplePlanToWatch,
+                siteId: "hianime",
+                episodeUrlTemplate: "https://hianime.to/watch/{slug}",
+            };
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(plannedFromHiAnime);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            await animeService.startWatching(sampleAnimeData, 1);
+
+            expect(mockEpisodeProgressRepo.create).toHaveBeenCalledWith(
+                expect.objectContaining({ siteId: "hianime", episodeUrlTemplate: "https://hianime.to/watch/{slug}" }),
+            );
+        });
+
+        it("should not store URL templates that do not produce an http(s) link", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            await animeService.startWatching({ ...sampleAnimeData, episodeUrlTemplate: "javascript:'{slug}'" }, 1);
+
+            const createdProgress = mockEpisodeProgressRepo.create.mock.calls[0][0] as EpisodeProgress;
+            expect("episodeUrlTemplate" in createdProgress).toBe(false);
+        });
+
+        it.each([
+            ["javascript: scheme", "javascript:alert(1)"],
+            ["data: scheme", "data:image/png;base64,iVBORw0KGgo="],
+            ["blob: scheme", "blob:https://anikototv.to/8f6f3b1c"],
+            ["relative path", "/thumbnail/relative.jpg"],
+            ["not a URL", "not a url"],
+        ])("should omit posterUrl when it is not absolute http(s) (%s)", async (_label, unsafeUrl) => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.create.mockResolvedValue(undefined);
+
+            const animeDataWithUnsafePoster: AnimeData = {
+                ...sampleAnimeData,
+                posterUrl: unsafeUrl,
+            };
+
+            const result = await animeService.startWatching(animeDataWithUnsafePoster, 1);
+
+            expect(result.success).toBe(true);
+            const createdProgress = mockEpisodeProgressRepo.create.mock.calls[0][0] as EpisodeProgress;
+            expect("posterUrl" in createdProgress).toBe(false);
+        });
+
+        it("should handle repository errors gracefully", async () => {
+            // Mock clean state for validation
+            mockEpisodeProgressRepo.findById
+                .mockResolvedValueOnce(null) // startWatching getAnimeStatus call
+                .mockResolvedValueOnce(null); // validateAction getAnimeStatus call
+            mockPlanToWatchRepo.findById
+                .mockResolvedValueOnce(null) // startWatching getAnimeStatus call
+                .mockResolvedValueOnce(null); // validateAction getAnimeStatus call
+            mockHiddenAnimeRepo.exists
+                .mockResolvedValueOnce(false) // startWatching getAnimeStatus call
+                .mockResolvedValueOnce(false); // validateAction getAnimeStatus call
+            mockEpisodeProgressRepo.create.mockRejectedValue(new Error("Create failed"));
+
+            const result = await animeService.startWatching(sampleAnimeData);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Failed to start watching anime");
+            expect(result.error).toBe("Create failed");
+        });
+    });
+
+    describe("updatePosterUrl", () => {
+        const posterUrl = "https://cdn.anipixcdn.co/thumbnail/updated.jpg";
+
+        it("should update the poster URL when the anime is tracked", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockEpisodeProgressRepo.update.mockResolvedValue(undefined);
+
+            await animeService.updatePosterUrl("test-anime-1", posterUrl);
+
+            expect(mockEpisodeProgressRepo.update).toHaveBeenCalledWith("test-anime-1", { posterUrl });
+        });
+
+        it("should not update when the poster URL is empty", async () => {
+            await animeService.updatePosterUrl("test-anime-1", "");
+
+            expect(mockEpisodeProgressRepo.findById).not.toHaveBeenCalled();
+            expect(mockEpisodeProgressRepo.update).not.toHaveBeenCalled();
+        });
+
+        it.each([
+            ["javascript: scheme", "javascript:alert(1)"],
+            ["data: scheme", "data:image/png;base64,iVBORw0KGgo="],
+            ["blob: scheme", "blob:https://anikototv.to/8f6f3b1c"],
+            ["relative path", "/thumbnail/relative.jpg"],
+            ["not a URL", "not a url"],
+        ])("should not update when the poster URL is not absolute http(s) (%s)", async (_label, unsafeUrl) => {
+            await animeService.updatePosterUrl("test-anime-1", unsafeUrl);
+
+            expect(mockEpisodeProgressRepo.findById).not.toHaveBeenCalled();
+            expect(mockEpisodeProgressRepo.update).not.toHaveBeenCalled();
+        });
+
+        it("should not update when the anime is not tracked", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+
+            await animeService.updatePosterUrl("test-anime-1", posterUrl);
+
+            expect(mockEpisodeProgressRepo.update).not.toHaveBeenCalled();
+        });
+
+        it("should not update when the stored poster URL is already up to date", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue({
+                ...sampleEpisodeProgress,
+                posterUrl,
+            });
+
+            await animeService.updatePosterUrl("test-anime-1", posterUrl);
+
+            expect(mockEpisodeProgressRepo.update).not.toHaveBeenCalled();
+        });
+
+        it("should swallow repository errors so callers can fire-and-forget", async () => {
+            mockEpisodeProgressRepo.findById.mockRejectedValue(new Error("Storage failed"));
+
+            await expect(animeService.updatePosterUrl("test-anime-1", posterUrl)).resolves.toBeUndefined();
+
+            expect(console.error).toHaveBeenCalledWith("Failed to update poster URL:", expect.any(Error));
+        });
+    });
+
+    describe("updateHiddenDetails", () => {
+        const tileData: AnimeData = {
+            ...sampleAnimeData,
+            animeId: "test-anime",
+            posterUrl: "https://cdn.anipixcdn.co/thumbnail/hidden.jpg",
+        };
+
+        it("should fill in the title and poster of a record that only knows the id", async () => {
+            mockHiddenAnimeRepo.findById.mockResolvedValue({ ...hiddenRecord("test-anime"), animeTitle: "test-anime" });
+
+            await animeService.updateHiddenDetails(tileData);
+
+            expect(mockHiddenAnimeRepo.update).toHaveBeenCalledWith("test-anime", {
+                animeTitle: "Test Anime",
+                posterUrl: "https://cdn.anipixcdn.co/thumbnail/hidden.jpg",
+            });
+        });
+
+        it("should keep a title the record already has and only add the missing poster", async () => {
+            mockHiddenAnimeRepo.findById.mockResolvedValue({ ...hiddenRecord("test-anime"), animeTitle: "Kept" });
+
+            await animeService.updateHiddenDetails(tileData);
+
+            expect(mockHiddenAnimeRepo.update).toHaveBeenCalledWith("test-anime", {
+                posterUrl: "https://cdn.anipixcdn.co/thumbnail/hidden.jpg",
+            });
+        });
+
+        it("should not store a poster that is not an absolute http(s) URL", async () => {
+            mockHiddenAnimeRepo.findById.mockResolvedValue({ ...hiddenRecord("test-anime"), animeTitle: "Kept" });
+
+            await animeService.updateHiddenDetails({ ...tileData, posterUrl: "javascript:alert(1)" });
+
+            expect(mockHiddenAnimeRepo.update).not.toHaveBeenCalled();
+        });
+
+        it("should do nothing for anime that are not hidden", async () => {
+            mockHiddenAnimeRepo.findById.mockResolvedValue(null);
+
+            await animeService.updateHiddenDetails(tileData);
+
+            expect(mockHiddenAnimeRepo.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("updateEpisodeProgress", () => {
+        it("should update episode progress for currently watching anime", async () => {
+            // Mock watching state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.update.mockResolvedValue(undefined);
+
+            const result = await animeService.updateEpisodeProgress("test-anime-1", 7, 12);
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Updated "Test Anime" to episode 7');
+            expect(result.newStatus).toEqual({
+                isTracked: true,
+                isPlanned: false,
+                isHidden: false,
+            });
+
+            expect(mockEpisodeProgressRepo.update).toHaveBeenCalledWith("test-anime-1", {
+                currentEpisode: 7,
+                episodeId: "test-anime-episode-7",
+                lastWatched: "2024-01-15T10:30:00.000Z",
+                totalEpisodes: 12,
+            });
+        });
+
+        it("should update episode progress without total episodes", async () => {
+            // Mock watching state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.update.mockResolvedValue(undefined);
+
+            const result = await animeService.updateEpisodeProgress("test-anime-1", 7);
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Updated "Test Anime" to episode 7');
+
+            // Verify update was called without totalEpisodes
+            expect(mockEpisodeProgressRepo.update).toHaveBeenCalledWith("test-anime-1", {
+                currentEpisode: 7,
+                episodeId: "test-anime-episode-7",
+                lastWatched: "2024-01-15T10:30:00.000Z",
+            });
+        });
+
+        it("should fail when anime is not being watched", async () => {
+            // Mock clean state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.updateEpisodeProgress("test-anime-1", 7);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Anime is not being watched");
+            expect(mockEpisodeProgressRepo.update).not.toHaveBeenCalled();
+        });
+
+        it("should handle repository errors gracefully", async () => {
+            // Mock watching state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.update.mockRejectedValue(new Error("Update failed"));
+
+            const result = await animeService.updateEpisodeProgress("test-anime-1", 7, 12);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Failed to update episode progress");
+            expect(result.error).toBe("Update failed");
+        });
+
+        it("should fail when episode progress is missing after validation", async () => {
+            // Mock watching state for validation but then return null in the actual check
+            mockEpisodeProgressRepo.findById
+                .mockResolvedValueOnce(sampleEpisodeProgress) // updateEpisodeProgress getAnimeStatus call
+                .mockResolvedValueOnce(sampleEpisodeProgress) // validateAction getAnimeStatus call
+                .mockResolvedValueOnce(null); // existingProgress check - progress was deleted
+            mockPlanToWatchRepo.findById
+                .mockResolvedValueOnce(null) // updateEpisodeProgress getAnimeStatus call
+                .mockResolvedValueOnce(null); // validateAction getAnimeStatus call
+            mockHiddenAnimeRepo.exists
+                .mockResolvedValueOnce(false) // updateEpisodeProgress getAnimeStatus call
+                .mockResolvedValueOnce(false); // validateAction getAnimeStatus call
+
+            const result = await animeService.updateEpisodeProgress("test-anime-1", 7, 12);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("No episode progress found for this anime");
+        });
+    });
+
+    describe("stopWatching", () => {
+        it("should stop watching anime", async () => {
+            // Mock watching state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.delete.mockResolvedValue(undefined);
+
+            const result = await animeService.stopWatching("test-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Stopped watching "Test Anime"');
+            expect(result.newStatus).toEqual({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: false,
+            });
+
+            expect(mockEpisodeProgressRepo.delete).toHaveBeenCalledWith("test-anime-1");
+        });
+
+        it("should fail when anime is not being watched", async () => {
+            // Mock clean state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.stopWatching("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Anime is not being watched");
+            expect(mockEpisodeProgressRepo.delete).not.toHaveBeenCalled();
+        });
+
+        it("should handle repository errors gracefully", async () => {
+            // Mock watching state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.delete.mockRejectedValue(new Error("Delete failed"));
+
+            const result = await animeService.stopWatching("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Failed to stop watching anime");
+            expect(result.error).toBe("Delete failed");
+        });
+    });
+
+    describe("hideAnime", () => {
+        it("should hide anime from clean state", async () => {
+            // Mock clean state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockHiddenAnimeRepo.create.mockResolvedValue(undefined);
+
+            const result = await animeService.hideAnime(sampleAnimeData);
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Hidden "Test Anime" from listings');
+            expect(result.newStatus).toEqual({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: true,
+            });
+
+            expect(mockHiddenAnimeRepo.create).toHaveBeenCalledWith({
+                animeId: "test-anime-1",
+                animeTitle: "Test Anime",
+                animeSlug: "test-anime",
+                hiddenAt: "2024-01-15T10:30:00.000Z",
+            });
+        });
+
+        it("should keep the poster and site the anime was hidden from", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            await animeService.hideAnime({
+                ...sampleAnimeData,
+                posterUrl: "https://example.com/poster.jpg",
+                siteId: "animestream",
+            });
+
+            expect(mockHiddenAnimeRepo.create).toHaveBeenCalledWith(
+                expect.objectContaining({ posterUrl: "https://example.com/poster.jpg", siteId: "animestream" }),
+            );
+        });
+
+        it("should not keep a poster that is not an http(s) URL", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            await animeService.hideAnime({ ...sampleAnimeData, posterUrl: "javascript:alert(1)" });
+
+            expect(mockHiddenAnimeRepo.create.mock.calls[0][0]).not.toHaveProperty("posterUrl");
+        });
+
+        it("should fail when anime is currently watching", async () => {
+            // Mock watching state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.hideAnime(sampleAnimeData);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Cannot hide while watching");
+            expect(mockHiddenAnimeRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should fail when anime is planned to watch", async () => {
+            // Mock planned state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(samplePlanToWatch);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.hideAnime(sampleAnimeData);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Cannot hide planned anime");
+            expect(mockHiddenAnimeRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should handle repository errors gracefully", async () => {
+            // Mock clean state for validation to pass
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            // Make the create operation fail after validation passes
+            mockHiddenAnimeRepo.create.mockRejectedValue(new Error("Add failed"));
+
+            const result = await animeService.hideAnime(sampleAnimeData);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Failed to hide anime");
+            expect(result.error).toBe("Add failed");
+        });
+
+        it("should handle already hidden anime", async () => {
+            // Mock hidden state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(true);
+
+            const result = await animeService.hideAnime(sampleAnimeData);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Anime is already hidden");
+            expect(mockHiddenAnimeRepo.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("unhideAnime", () => {
+        it("should unhide anime", async () => {
+            // Mock hidden state - need to account for 3 getAnimeStatus calls
+            mockEpisodeProgressRepo.findById
+                .mockResolvedValueOnce(null) // unhideAnime getAnimeStatus call (for currentStatus)
+                .mockResolvedValueOnce(null) // validateAction getAnimeStatus call
+                .mockResolvedValueOnce(null); // final getAnimeStatus call (for newStatus)
+            mockPlanToWatchRepo.findById
+                .mockResolvedValueOnce(null) // unhideAnime getAnimeStatus call
+                .mockResolvedValueOnce(null) // validateAction getAnimeStatus call
+                .mockResolvedValueOnce(null); // final getAnimeStatus call
+            mockHiddenAnimeRepo.exists
+                .mockResolvedValueOnce(true) // unhideAnime getAnimeStatus call (anime is hidden)
+                .mockResolvedValueOnce(true) // validateAction getAnimeStatus call (anime is hidden)
+                .mockResolvedValueOnce(false); // final getAnimeStatus call (after unhiding)
+            mockHiddenAnimeRepo.remove.mockResolvedValue(undefined);
+
+            const result = await animeService.unhideAnime("test-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe("Anime unhidden from listings");
+            expect(result.newStatus).toEqual({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: false,
+                progress: undefined,
+                plan: undefined,
+                isCompleted: false,
+                isDropped: false,
+                isOnHold: false,
+                completed: undefined,
+                dropped: undefined,
+                onHold: undefined,
+            });
+
+            expect(mockHiddenAnimeRepo.remove).toHaveBeenCalledWith("test-anime-1");
+        });
+
+        it("should fail when anime is not hidden", async () => {
+            // Mock clean state
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.unhideAnime("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Anime is not hidden");
+            expect(mockHiddenAnimeRepo.remove).not.toHaveBeenCalled();
+        });
+
+        it("should handle repository errors gracefully", async () => {
+            // Mock hidden state - need to account for 3 getAnimeStatus calls
+            mockEpisodeProgressRepo.findById
+                .mockResolvedValueOnce(null) // unhideAnime getAnimeStatus call (for currentStatus)
+                .mockResolvedValueOnce(null) // validateAction getAnimeStatus call
+                .mockResolvedValueOnce(null); // final getAnimeStatus call (for newStatus)
+            mockPlanToWatchRepo.findById
+                .mockResolvedValueOnce(null) // unhideAnime getAnimeStatus call
+                .mockResolvedValueOnce(null) // validateAction getAnimeStatus call
+                .mockResolvedValueOnce(null); // final getAnimeStatus call
+            mockHiddenAnimeRepo.exists
+                .mockResolvedValueOnce(true) // unhideAnime getAnimeStatus call (anime is hidden)
+                .mockResolvedValueOnce(true) // validateAction getAnimeStatus call (anime is hidden)
+                .mockResolvedValueOnce(false); // final getAnimeStatus call (after unhiding)
+            mockHiddenAnimeRepo.remove.mockRejectedValue(new Error("Remove failed"));
+
+            const result = await animeService.unhideAnime("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Failed to unhide anime");
+            expect(result.error).toBe("Remove failed");
+        });
+    });
+
+    describe("getAnimeDetails", () => {
+        it("should return complete anime details", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const details = await animeService.getAnimeDetails("test-anime-1");
+
+            expect(details).toEqual({
+                animeId: "test-anime-1",
+                status: {
+                    isTracked: true,
+                    isPlanned: false,
+                    isHidden: false,
+                    progress: sampleEpisodeProgress,
+                    plan: undefined,
+                    isCompleted: false,
+                    isDropped: false,
+                    isOnHold: false,
+                    completed: undefined,
+                    dropped: undefined,
+                    onHold: undefined,
+                },
+                episodeProgress: sampleEpisodeProgress,
+                planToWatch: undefined,
+                isHidden: false,
+                completed: undefined,
+                dropped: undefined,
+                onHold: undefined,
+                userData: undefined,
+                customLists: [],
+                folder: undefined,
+                watchHistory: [],
+                activity: [],
+            });
+        });
+
+        it("should include notes, lists, folder and history of the canonical entry", async () => {
+            const folder = { id: "f1", name: "Seasonal", borderColor: "#fff", createdAt: "" };
+            const history = [
+                {
+                    animeId: "test-anime-1",
+                    animeTitle: "Test Anime",
+                    episode: 5,
+                    timestamp: "",
+                    source: "auto" as const,
+                },
+            ];
+            mockIdentityRepo.resolveId.mockResolvedValue("test-anime-1");
+            mockIdentityRepo.findById.mockResolvedValue({
+                animeId: "test-anime-1",
+                animeTitle: "Test Anime",
+                aliases: [{ animeId: "hianime-test-anime", animeSlug: "test-anime" }],
+                updatedAt: "",
+            });
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockCustomListRepo.findAll.mockResolvedValue([
+                { id: "l1", name: "Rewatch", entries: [{ animeId: "test-anime-1" }] },
+                { id: "l2", name: "Later", entries: [{ animeId: "other" }] },
+            ]);
+            mockFolderOrderRepo.findFolderOf.mockResolvedValue(folder);
+            mockWatchHistoryRepo.findByAnimeId.mockResolvedValue(history);
+
+            const details = await animeService.getAnimeDetails("hianime-test-anime");
+
+            expect(details.animeId).toBe("test-anime-1");
+            expect(details.customLists.map((list) => list.id)).toEqual(["l1"]);
+            expect(details.folder).toEqual(folder);
+            expect(details.watchHistory).toEqual(history);
+            expect(mockFolderOrderRepo.findFolderOf).toHaveBeenCalledWith(["test-anime-1", "hianime-test-anime"]);
+        });
+    });
+
+    describe("getAllAnime", () => {
+        it("should return all anime data across repositories", async () => {
+            const episodeProgressList = [sampleEpisodeProgress];
+            const planToWatchList = [samplePlanToWatch];
+            const hiddenAnimeList = [hiddenRecord("hidden-anime-1"), hiddenRecord("hidden-anime-2")];
+
+            mockEpisodeProgressRepo.findAll.mockResolvedValue(episodeProgressList);
+            mockPlanToWatchRepo.findAll.mockResolvedValue(planToWatchList);
+            mockHiddenAnimeRepo.findAll.mockResolvedValue(hiddenAnimeList);
+
+            const result = await animeService.getAllAnime();
+
+            expect(result).toEqual({
+                currentlyWatching: episodeProgressList,
+                planToWatch: planToWatchList,
+                hiddenAnime: hiddenAnimeList,
+                completed: [],
+                dropped: [],
+                onHold: [],
+                totalCount: 4,
+            });
+        });
+    });
+
+    describe("clearAnimeData", () => {
+        it("should clear all data for an anime", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockEpisodeProgressRepo.delete.mockResolvedValue(undefined);
+            mockPlanToWatchRepo.delete.mockResolvedValue(undefined);
+            mockHiddenAnimeRepo.remove.mockResolvedValue(undefined);
+
+            const result = await animeService.clearAnimeData("test-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Cleared all data for "Test Anime"');
+            expect(result.newStatus).toEqual({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: false,
+            });
+
+            expect(mockEpisodeProgressRepo.delete).toHaveBeenCalledWith("test-anime-1");
+            expect(mockPlanToWatchRepo.delete).toHaveBeenCalledWith("test-anime-1");
+            expect(mockHiddenAnimeRepo.remove).toHaveBeenCalledWith("test-anime-1");
+        });
+
+        it("should clear data for anime that only has plan entry", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(samplePlanToWatch);
+            mockEpisodeProgressRepo.delete.mockResolvedValue(undefined);
+            mockPlanToWatchRepo.delete.mockResolvedValue(undefined);
+            mockHiddenAnimeRepo.remove.mockResolvedValue(undefined);
+
+            const result = await animeService.clearAnimeData("test-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Cleared all data for "Test Anime"');
+            expect(result.newStatus).toEqual({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: false,
+            });
+
+            expect(mockEpisodeProgressRepo.delete).toHaveBeenCalledWith("test-anime-1");
+            expect(mockPlanToWatchRepo.delete).toHaveBeenCalledWith("test-anime-1");
+            expect(mockHiddenAnimeRepo.remove).toHaveBeenCalledWith("test-anime-1");
+        });
+
+        it("should handle errors gracefully during cleanup", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockEpisodeProgressRepo.delete.mockRejectedValue(new Error("Delete error"));
+            mockPlanToWatchRepo.delete.mockResolvedValue(undefined);
+            mockHiddenAnimeRepo.remove.mockResolvedValue(undefined);
+
+            const result = await animeService.clearAnimeData("test-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Cleared all data for "Test Anime"');
+        });
+
+        it("should handle all repository errors during cleanup", async () => {
+            // Make the initial findById calls fail to trigger the catch block
+            mockEpisodeProgressRepo.findById.mockRejectedValue(new Error("Episode find error"));
+            mockPlanToWatchRepo.findById.mockResolvedValue(samplePlanToWatch);
+
+            const result = await animeService.clearAnimeData("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Failed to clear anime data");
+            expect(result.error).toContain("Episode find error");
+        });
+
+        it("should handle clearAnimeData when anime has no title available", async () => {
+            // Mock state where neither progress nor plan entries exist but repository operations still need to run
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockEpisodeProgressRepo.delete.mockResolvedValue(undefined);
+            mockPlanToWatchRepo.delete.mockResolvedValue(undefined);
+            mockHiddenAnimeRepo.remove.mockResolvedValue(undefined);
+
+            const result = await animeService.clearAnimeData("unknown-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Cleared all data for "Unknown anime"');
+        });
+    });
+
+    describe("clearAllHidden", () => {
+        it("should clear all hidden anime successfully", async () => {
+            const hiddenAnimeList = [hiddenRecord("anime-1"), hiddenRecord("anime-2"), hiddenRecord("anime-3")];
+            mockHiddenAnimeRepo.findAll.mockResolvedValue(hiddenAnimeList);
+            mockHiddenAnimeRepo.clear.mockResolvedValue(undefined);
+
+            const result = await animeService.clearAllHidden();
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe("Restored 3 hidden anime");
+            expect(result.newStatus).toEqual({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: false,
+            });
+
+            expect(mockHiddenAnimeRepo.findAll).toHaveBeenCalled();
+            expect(mockHiddenAnimeRepo.clear).toHaveBeenCalled();
+        });
+
+        it("should handle when no hidden anime exist", async () => {
+            mockHiddenAnimeRepo.findAll.mockResolvedValue([]);
+
+            const result = await animeService.clearAllHidden();
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe("No hidden anime to restore");
+            expect(result.newStatus).toEqual({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: false,
+            });
+
+            expect(mockHiddenAnimeRepo.findAll).toHaveBeenCalled();
+            expect(mockHiddenAnimeRepo.clear).not.toHaveBeenCalled();
+        });
+
+        it("should handle repository errors gracefully", async () => {
+            const hiddenAnimeList = [hiddenRecord("anime-1"), hiddenRecord("anime-2")];
+            mockHiddenAnimeRepo.findAll.mockResolvedValue(hiddenAnimeList);
+            mockHiddenAnimeRepo.clear.mockRejectedValue(new Error("Clear failed"));
+
+            const result = await animeService.clearAllHidden();
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Failed to clear hidden anime");
+            expect(result.error).toBe("Clear failed");
+        });
+
+        it("should handle findAll errors gracefully", async () => {
+            mockHiddenAnimeRepo.findAll.mockRejectedValue(new Error("FindAll failed"));
+
+            const result = await animeService.clearAllHidden();
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Failed to clear hidden anime");
+            expect(result.error).toBe("FindAll failed");
+        });
+    });
+
+    describe("completeAnime", () => {
+        it("should move watched anime to completed at the final episode", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.delete.mockResolvedValue(undefined);
+
+            const result = await animeService.completeAnime("test-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Completed "Test Anime"');
+            expect(result.newStatus?.isCompleted).toBe(true);
+            expect(mockCompletedRepo.create).toHaveBeenCalledWith({
+                ...sampleEpisodeProgress,
+                currentEpisode: 12,
+                episodeId: "test-anime-episode-12",
+                completedAt: "2024-01-15T10:30:00.000Z",
+            });
+            expect(mockEpisodeProgressRepo.delete).toHaveBeenCalledWith("test-anime-1");
+            expect(mockWatchHistoryRepo.append).toHaveBeenCalledWith({
+                animeId: "test-anime-1",
+                animeTitle: "Test Anime",
+                episode: 12,
+                timestamp: "2024-01-15T10:30:00.000Z",
+                source: "manual",
+            });
+        });
+
+        it("should not add a watch history entry when already at the final episode", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue({ ...sampleEpisodeProgress, currentEpisode: 12 });
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            await animeService.completeAnime("test-anime-1");
+
+            expect(mockCompletedRepo.create).toHaveBeenCalled();
+            expect(mockWatchHistoryRepo.append).not.toHaveBeenCalled();
+        });
+
+        it("should keep the site the anime was tracked on", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue({ ...sampleEpisodeProgress, siteId: "animetsu" });
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            await animeService.completeAnime("test-anime-1");
+
+            expect(mockCompletedRepo.create).toHaveBeenCalledWith(expect.objectContaining({ siteId: "animetsu" }));
+        });
+
+        it("should complete on-hold anime and clear the on-hold entry", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockOnHoldRepo.findById.mockResolvedValue({
+                ...sampleEpisodeProgress,
+                pausedAt: "2024-01-14T10:30:00.000Z",
+            });
+
+            const result = await animeService.completeAnime("test-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(mockCompletedRepo.create).toHaveBeenCalled();
+            expect(mockOnHoldRepo.delete).toHaveBeenCalledWith("test-anime-1");
+            expect(mockEpisodeProgressRepo.delete).not.toHaveBeenCalled();
+        });
+
+        it("should fail when anime is not being watched", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.completeAnime("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Anime is not being watched");
+            expect(mockCompletedRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should handle repository errors gracefully", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockCompletedRepo.create.mockRejectedValue(new Error("Create failed"));
+
+            const result = await animeService.completeAnime("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Failed to complete anime");
+            expect(result.error).toBe("Create failed");
+        });
+    });
+
+    describe("dropAnime", () => {
+        it("should move watched anime to dropped keeping the episode reached", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.delete.mockResolvedValue(undefined);
+
+            const result = await animeService.dropAnime("test-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Dropped "Test Anime" at episode 5');
+            expect(mockDroppedRepo.create).toHaveBeenCalledWith({
+                ...sampleEpisodeProgress,
+                droppedAt: "2024-01-15T10:30:00.000Z",
+            });
+            expect(mockEpisodeProgressRepo.delete).toHaveBeenCalledWith("test-anime-1");
+        });
+
+        it("should fail for planned anime", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(samplePlanToWatch);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.dropAnime("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(mockDroppedRepo.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("putOnHold", () => {
+        it("should move watched anime to on hold", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockEpisodeProgressRepo.delete.mockResolvedValue(undefined);
+
+            const result = await animeService.putOnHold("test-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Put "Test Anime" on hold at episode 5');
+            expect(result.newStatus?.isOnHold).toBe(true);
+            expect(mockOnHoldRepo.create).toHaveBeenCalledWith({
+                ...sampleEpisodeProgress,
+                pausedAt: "2024-01-15T10:30:00.000Z",
+            });
+            expect(mockEpisodeProgressRepo.delete).toHaveBeenCalledWith("test-anime-1");
+        });
+
+        it("should fail when anime is already on hold", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockOnHoldRepo.findById.mockResolvedValue({ ...sampleEpisodeProgress, pausedAt: "2024-01-14" });
+
+            const result = await animeService.putOnHold("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("Anime is already on hold");
+        });
+    });
+
+    describe("resumeWatching", () => {
+        it("should move dropped anime back to watching from the saved episode", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockDroppedRepo.findById.mockResolvedValue({
+                ...sampleEpisodeProgress,
+                lastWatched: "2024-01-01T00:00:00.000Z",
+                droppedAt: "2024-01-02T00:00:00.000Z",
+            });
+            mockEpisodeProgressRepo.create.mockResolvedValue(undefined);
+
+            const result = await animeService.resumeWatching("test-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Resumed "Test Anime" from episode 5');
+            expect(result.newStatus?.isTracked).toBe(true);
+            expect(mockEpisodeProgressRepo.create).toHaveBeenCalledWith(sampleEpisodeProgress);
+            expect(mockDroppedRepo.delete).toHaveBeenCalledWith("test-anime-1");
+            expect(mockOnHoldRepo.delete).not.toHaveBeenCalled();
+        });
+
+        it("should fail when anime is not paused or dropped", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.resumeWatching("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(mockEpisodeProgressRepo.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("removeFromCompleted", () => {
+        it("should remove anime from completed list", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+            mockCompletedRepo.findById.mockResolvedValue({ ...sampleEpisodeProgress, completedAt: "2024-01-14" });
+
+            const result = await animeService.removeFromCompleted("test-anime-1");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Removed "Test Anime" from completed');
+            expect(mockCompletedRepo.delete).toHaveBeenCalledWith("test-anime-1");
+        });
+
+        it("should fail when anime is not completed", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.removeFromCompleted("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(mockCompletedRepo.delete).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("cross-site identities", () => {
+        const identity: AnimeIdentity = {
+            animeId: "test-anime-1",
+            animeTitle: "Test Anime",
+            aliases: [{ animeId: "hianime-test-anime", animeSlug: "test-anime-123", siteId: "hianime" }],
+            updatedAt: "2024-01-14T00:00:00.000Z",
+        };
+
+        beforeEach(() => {
+            mockEpisodeProgressRepo.delete.mockResolvedValue(undefined);
+            mockPlanToWatchRepo.delete.mockResolvedValue(undefined);
+            mockHiddenAnimeRepo.remove.mockResolvedValue(undefined);
+        });
+
+        it("should answer a status request for an alias from the canonical entry", async () => {
+            mockIdentityRepo.resolveId.mockResolvedValue("test-anime-1");
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+
+            const status = await animeService.getAnimeStatus("hianime-test-anime");
+
+            expect(mockEpisodeProgressRepo.findById).toHaveBeenCalledWith("test-anime-1");
+            expect(status.isTracked).toBe(true);
+        });
+
+        it("should key batched statuses by the requested ids", async () => {
+            mockIdentityRepo.resolveIds.mockResolvedValue({
+                "hianime-test-anime": "test-anime-1",
+                "other-anime": "other-anime",
+            });
+            mockEpisodeProgressRepo.findByIds.mockResolvedValue({ "test-anime-1": sampleEpisodeProgress });
+            mockPlanToWatchRepo.findByIds.mockResolvedValue({});
+
+            const statuses = await animeService.getAnimeStatuses(["hianime-test-anime", "other-anime"]);
+
+            expect(mockEpisodeProgressRepo.findByIds).toHaveBeenCalledWith(["test-anime-1", "other-anime"]);
+            expect(statuses["hianime-test-anime"].isTracked).toBe(true);
+            expect(statuses["other-anime"].isTracked).toBe(false);
+        });
+
+        it("should hide the canonical entry when an alias is hidden", async () => {
+            mockIdentityRepo.resolveId.mockResolvedValue("test-anime-1");
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+
+            const result = await animeService.hideAnime({ ...sampleAnimeData, animeId: "hianime-test-anime" });
+
+            expect(result.success).toBe(true);
+            expect(mockHiddenAnimeRepo.create).toHaveBeenCalledWith(
+                expect.objectContaining({ animeId: "test-anime-1", animeTitle: "Test Anime" }),
+            );
+        });
+
+        it("should plan the canonical entry when an alias is planned", async () => {
+            mockIdentityRepo.resolveId.mockResolvedValue("test-anime-1");
+            mockPlanToWatchRepo.create.mockResolvedValue(undefined);
+
+            await animeService.addToPlanToWatch({ ...sampleAnimeData, animeId: "hianime-test-anime" });
+
+            expect(mockPlanToWatchRepo.create).toHaveBeenCalledWith(
+                expect.objectContaining({ animeId: "test-anime-1", animeSlug: "test-anime" }),
+            );
+        });
+
+        it("should keep the kept entry's further-along records and stash the merged entry's on its alias", async () => {
+            const mergedPlan = {
+                ...samplePlanToWatch,
+                animeId: "hianime-test-anime",
+                animeSlug: "test-anime-123",
+                siteId: "hianime",
+                malId: 42,
+            };
+            mockEpisodeProgressRepo.findById.mockImplementation(async (id: string) =>
+                id === "test-anime-1" ? sampleEpisodeProgress : null,
+            );
+            mockPlanToWatchRepo.findById.mockImplementation(async (id: string) =>
+                id === "hianime-test-anime" ? mergedPlan : null,
+            );
+
+            const result = await animeService.mergeAnime("test-anime-1", "hianime-test-anime");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Merged "Test Anime" into "Test Anime"');
+            expect(mockPlanToWatchRepo.delete).toHaveBeenCalledWith("hianime-test-anime");
+            expect(mockEpisodeProgressRepo.create).not.toHaveBeenCalled();
+            expect(mockIdentityRepo.create).toHaveBeenCalledWith({
+                ...identity,
+                aliases: [{ ...identity.aliases[0], records: { plan: mergedPlan } }],
+                malId: 42,
+                updatedAt: "2024-01-15T10:30:00.000Z",
+            });
+            expect(mockCustomListRepo.replaceAnimeId).toHaveBeenCalledWith("hianime-test-anime", "test-anime-1");
+            expect(mockUserDataRepo.replaceAnimeId).toHaveBeenCalledWith("hianime-test-anime", "test-anime-1");
+            expect(mockWatchHistoryRepo.replaceAnimeId).toHaveBeenCalledWith("hianime-test-anime", "test-anime-1");
+            expect(mockActivityLogRepo.replaceAnimeId).toHaveBeenCalledWith("hianime-test-anime", "test-anime-1");
+        });
+
+        it("should move the merged entry's records when the kept entry has none", async () => {
+            mockEpisodeProgressRepo.findById.mockImplementation(async (id: string) =>
+                id === "hianime-test-anime"
+                    ? { ...sampleEpisodeProgress, animeId: "hianime-test-anime", siteId: "hianime" }
+                    : null,
+            );
+            mockEpisodeProgressRepo.create.mockResolvedValue(undefined);
+
+            const result = await animeService.mergeAnime("test-anime-1", "hianime-test-anime");
+
+            expect(result.success).toBe(true);
+            expect(mockEpisodeProgressRepo.delete).toHaveBeenCalledWith("hianime-test-anime");
+            expect(mockEpisodeProgressRepo.create).toHaveBeenCalledWith({
+                ...sampleEpisodeProgress,
+                animeId: "test-anime-1",
+                siteId: "hianime",
+            });
+        });
+
+        it("should take the merged entry's records when it is further along", async () => {
+            const mergedProgress = {
+                ...sampleEpisodeProgress,
+                animeId: "hianime-test-anime",
+                currentEpisode: 12,
+                siteId: "hianime",
+            };
+            mockEpisodeProgressRepo.findById.mockImplementation(async (id: string) =>
+                id === "hianime-test-anime" ? mergedProgress : null,
+            );
+            mockPlanToWatchRepo.findById.mockImplementation(async (id: string) =>
+                id === "test-anime-1" ? samplePlanToWatch : null,
+            );
+            mockEpisodeProgressRepo.create.mockResolvedValue(undefined);
+
+            const result = await animeService.mergeAnime("test-anime-1", "hianime-test-anime");
+
+            expect(result.success).toBe(true);
+            expect(mockPlanToWatchRepo.delete).toHaveBeenCalledWith("test-anime-1");
+            expect(mockEpisodeProgressRepo.delete).toHaveBeenCalledWith("hianime-test-anime");
+            expect(mockEpisodeProgressRepo.create).toHaveBeenCalledWith({ ...mergedProgress, animeId: "test-anime-1" });
+            expect(mockIdentityRepo.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    aliases: [
+                        expect.objectContaining({ records: expect.objectContaining({ progress: mergedProgress }) }),
+                    ],
+                }),
+            );
+        });
+
+        it("should keep the kept entry's records on a tie", async () => {
+            mockEpisodeProgressRepo.findById.mockImplementation(async (id: string) =>
+                id === "hianime-test-anime" ? { ...sampleEpisodeProgress, animeId: id } : sampleEpisodeProgress,
+            );
+
+            await animeService.mergeAnime("test-anime-1", "hianime-test-anime");
+
+            expect(mockEpisodeProgressRepo.delete).toHaveBeenCalledWith("hianime-test-anime");
+            expect(mockEpisodeProgressRepo.delete).not.toHaveBeenCalledWith("test-anime-1");
+            expect(mockEpisodeProgressRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should move the merged entry's hidden record under the kept id", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockImplementation(async (id: string) => id === "hianime-test-anime");
+            mockHiddenAnimeRepo.findById.mockResolvedValue(hiddenRecord("hianime-test-anime"));
+
+            const result = await animeService.mergeAnime("test-anime-1", "hianime-test-anime");
+
+            expect(result.success).toBe(true);
+            expect(mockHiddenAnimeRepo.remove).toHaveBeenCalledWith("hianime-test-anime");
+            expect(mockHiddenAnimeRepo.create).toHaveBeenCalledWith({
+                ...hiddenRecord("hianime-test-anime"),
+                animeId: "test-anime-1",
+            });
+        });
+
+        it("should fold the merged entry's own aliases into the kept identity", async () => {
+            const mergedIdentity: AnimeIdentity = {
+                animeId: "hianime-test-anime",
+                animeTitle: "Test Anime",
+                aliases: [{ animeId: "animetsu-test-anime", animeSlug: "test-anime", siteId: "animetsu" }],
+                updatedAt: "2024-01-14T00:00:00.000Z",
+            };
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockIdentityRepo.findById.mockImplementation(async (id: string) =>
+                id === "hianime-test-anime" ? mergedIdentity : null,
+            );
+
+            await animeService.mergeAnime("test-anime-1", "hianime-test-anime");
+
+            expect(mockIdentityRepo.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    animeId: "test-anime-1",
+                    aliases: [
+                        { animeId: "hianime-test-anime", animeSlug: "hianime-test-anime" },
+                        ...mergedIdentity.aliases,
+                    ],
+                }),
+            );
+            expect(mockIdentityRepo.delete).toHaveBeenCalledWith("hianime-test-anime");
+        });
+
+        it("should refuse to merge entries that are already linked", async () => {
+            mockIdentityRepo.resolveId.mockResolvedValue("test-anime-1");
+
+            const result = await animeService.mergeAnime("test-anime-1", "hianime-test-anime");
+
+            expect(result.success).toBe(false);
+            expect(result.message).toBe("These entries are already linked");
+            expect(mockIdentityRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should delete an identity when its last alias is split off", async () => {
+            mockIdentityRepo.findByAnyId.mockResolvedValue(identity);
+
+            const result = await animeService.splitAnime("hianime-test-anime");
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Split "test-anime-123" from "Test Anime"');
+            expect(mockIdentityRepo.delete).toHaveBeenCalledWith("test-anime-1");
+        });
+
+        it("should keep the other aliases when one is split off", async () => {
+            const alias = { animeId: "animetsu-test-anime", animeSlug: "test-anime", siteId: "animetsu" };
+            mockIdentityRepo.findByAnyId.mockResolvedValue({ ...identity, aliases: [...identity.aliases, alias] });
+
+            await animeService.splitAnime("hianime-test-anime");
+
+            expect(mockIdentityRepo.update).toHaveBeenCalledWith("test-anime-1", {
+                aliases: [alias],
+                updatedAt: "2024-01-15T10:30:00.000Z",
+            });
+            expect(mockIdentityRepo.delete).not.toHaveBeenCalled();
+        });
+
+        it("should give a split entry back the records it had when it was merged", async () => {
+            const mergedProgress = { ...sampleEpisodeProgress, animeId: "hianime-test-anime", currentEpisode: 12 };
+            mockIdentityRepo.findByAnyId.mockResolvedValue({
+                ...identity,
+                aliases: [{ ...identity.aliases[0], records: { progress: mergedProgress } }],
+            });
+            mockEpisodeProgressRepo.create.mockResolvedValue(undefined);
+
+            await animeService.splitAnime("hianime-test-anime");
+
+            expect(mockEpisodeProgressRepo.create).toHaveBeenCalledWith(mergedProgress);
+            expect(mockPlanToWatchRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should not split an entry that is not linked", async () => {
+            const result = await animeService.splitAnime("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(mockIdentityRepo.update).not.toHaveBeenCalled();
+            expect(mockIdentityRepo.delete).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("custom lists", () => {
+        const list: CustomList = {
+            id: "list-1",
+            name: "Rewatch",
+            entries: [],
+            createdAt: "2024-01-01T00:00:00.000Z",
+            updatedAt: "2024-01-01T00:00:00.000Z",
+        };
+
+        it("should create an empty list with a trimmed name", async () => {
+            const result = await animeService.createCustomList("  Seasonal 2026 ");
+
+            expect(result).toEqual({ success: true, message: 'Created list "Seasonal 2026"' });
+            expect(mockCustomListRepo.create).toHaveBeenCalledWith({
+                id: expect.stringMatching(/^list-/),
+                name: "Seasonal 2026",
+                entries: [],
+                createdAt: "2024-01-15T10:30:00.000Z",
+                updatedAt: "2024-01-15T10:30:00.000Z",
+            });
+        });
+
+        it.each([
+            ["   ", "List name cannot be empty"],
+            ["x".repeat(61), "List name must be at most 60 characters"],
+            ["rewatch", 'A list named "rewatch" already exists'],
+        ])("should refuse to create a list named %j", async (name, message) => {
+            mockCustomListRepo.findAll.mockResolvedValue([list]);
+
+            const result = await animeService.createCustomList(name);
+
+            expect(result).toEqual({ success: false, message });
+            expect(mockCustomListRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should rename a list, allowing a change of case to its own name", async () => {
+            mockCustomListRepo.findAll.mockResolvedValue([list]);
+
+            const result = await animeService.renameCustomList("list-1", "REWATCH");
+
+            expect(result.success).toBe(true);
+            expect(mockCustomListRepo.update).toHaveBeenCalledWith("list-1", {
+                name: "REWATCH",
+                updatedAt: "2024-01-15T10:30:00.000Z",
+            });
+        });
+
+        it("should delete a list", async () => {
+            mockCustomListRepo.findById.mockResolvedValue(list);
+
+            const result = await animeService.deleteCustomList("list-1");
+
+            expect(result).toEqual({ success: true, message: 'Deleted list "Rewatch"' });
+            expect(mockCustomListRepo.delete).toHaveBeenCalledWith("list-1");
+        });
+
+        it("should add an anime under its canonical id whatever its watch status", async () => {
+            mockIdentityRepo.resolveId.mockResolvedValue("test-anime-1");
+            mockCustomListRepo.findById.mockResolvedValue(list);
+
+            const result = await animeService.addToCustomList("list-1", {
+                ...sampleAnimeData,
+                animeId: "hianime-test-anime",
+                posterUrl: "javascript:alert(1)",
+                siteId: "hianime",
+            });
+
+            expect(result).toEqual({ success: true, message: 'Added "Test Anime" to "Rewatch"' });
+            expect(mockCustomListRepo.update).toHaveBeenCalledWith("list-1", {
+                entries: [
+                    {
+                        animeId: "test-anime-1",
+                        animeTitle: "Test Anime",
+                        animeSlug: "test-anime",
+                        siteId: "hianime",
+                        addedAt: "2024-01-15T10:30:00.000Z",
+                    },
+                ],
+                updatedAt: "2024-01-15T10:30:00.000Z",
+            });
+            expect(mockEpisodeProgressRepo.create).not.toHaveBeenCalled();
+            expect(mockPlanToWatchRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should not add an anime to a list twice", async () => {
+            mockCustomListRepo.findById.mockResolvedValue({
+                ...list,
+                entries: [{ ...sampleAnimeData, addedAt: "2024-01-02T00:00:00.000Z" }],
+            });
+
+            const result = await animeService.addToCustomList("list-1", sampleAnimeData);
+
+            expect(result).toEqual({ success: false, message: '"Test Anime" is already on "Rewatch"' });
+            expect(mockCustomListRepo.update).not.toHaveBeenCalled();
+        });
+
+        it("should remove an anime from a list", async () => {
+            mockCustomListRepo.findById.mockResolvedValue({
+                ...list,
+                entries: [{ ...sampleAnimeData, addedAt: "2024-01-02T00:00:00.000Z" }],
+            });
+
+            const result = await animeService.removeFromCustomList("list-1", "test-anime-1");
+
+            expect(result).toEqual({ success: true, message: 'Removed "Test Anime" from "Rewatch"' });
+            expect(mockCustomListRepo.update).toHaveBeenCalledWith("list-1", {
+                entries: [],
+                updatedAt: "2024-01-15T10:30:00.000Z",
+            });
+        });
+
+        it("should fail for a list that does not exist", async () => {
+            await expect(animeService.addToCustomList("missing", sampleAnimeData)).resolves.toEqual({
+                success: false,
+                message: "List not found",
+            });
+            await expect(animeService.deleteCustomList("missing")).resolves.toEqual({
+                success: false,
+                message: "List not found",
+            });
+        });
+    });
+
+    describe("watch history", () => {
+        beforeEach(() => {
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+        });
+
+        it("should record the starting episode and where it came from", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+
+            await animeService.startWatching(sampleAnimeData, 3, "auto");
+
+            expect(mockWatchHistoryRepo.append).toHaveBeenCalledWith({
+                animeId: "test-anime-1",
+                animeTitle: "Test Anime",
+                episode: 3,
+                timestamp: "2024-01-15T10:30:00.000Z",
+                source: "auto",
+            });
+        });
+
+        it("should record each episode change, as manual unless told otherwise", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+
+            await animeService.updateEpisodeProgress("test-anime-1", 6);
+
+            expect(mockWatchHistoryRepo.append).toHaveBeenCalledWith({
+                animeId: "test-anime-1",
+                animeTitle: "Test Anime",
+                episode: 6,
+                timestamp: "2024-01-15T10:30:00.000Z",
+                source: "manual",
+            });
+        });
+
+        it("should not record an update that leaves the episode unchanged", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+
+            const result = await animeService.updateEpisodeProgress("test-anime-1", 5, 24);
+
+            expect(result.success).toBe(true);
+            expect(mockWatchHistoryRepo.append).not.toHaveBeenCalled();
+        });
+
+        it("should still report success when the history can't be written", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+            mockWatchHistoryRepo.append.mockRejectedValue(new Error("Quota exceeded"));
+            const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+            const result = await animeService.updateEpisodeProgress("test-anime-1", 6);
+
+            expect(result.success).toBe(true);
+            expect(warn).toHaveBeenCalledWith("Failed to record watch history:", expect.any(Error));
+        });
+
+        it("should take an undone automatic update out of the history instead of adding to it", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue({ ...sampleEpisodeProgress, currentEpisode: 6 });
+
+            const result = await animeService.undoAutoEpisodeUpdate("test-anime-1", 6, 5);
+
+            expect(result).toMatchObject({ success: true, message: 'Put "Test Anime" back to episode 5' });
+            expect(mockEpisodeProgressRepo.update).toHaveBeenCalledWith("test-anime-1", {
+                currentEpisode: 5,
+                episodeId: "test-anime-episode-5",
+            });
+            expect(mockWatchHistoryRepo.append).not.toHaveBeenCalled();
+            expect(mockActivityLogRepo.append).not.toHaveBeenCalled();
+
+            const [removesWatch] = mockWatchHistoryRepo.removeLast.mock.calls[0];
+            expect(removesWatch({ animeId: "test-anime-1", episode: 6, source: "auto" })).toBe(true);
+            expect(removesWatch({ animeId: "test-anime-1", episode: 6, source: "manual" })).toBe(false);
+            const [removesEvent] = mockActivityLogRepo.removeLast.mock.calls[0];
+            expect(removesEvent({ animeId: "test-anime-1", action: "episode", episode: 6 })).toBe(true);
+            expect(removesEvent({ animeId: "test-anime-1", action: "paused", episode: 6 })).toBe(false);
+        });
+
+        it("should refuse to undo an automatic update once progress has moved on", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue({ ...sampleEpisodeProgress, currentEpisode: 7 });
+
+            const result = await animeService.undoAutoEpisodeUpdate("test-anime-1", 6, 5);
+
+            expect(result.success).toBe(false);
+            expect(mockEpisodeProgressRepo.update).not.toHaveBeenCalled();
+            expect(mockWatchHistoryRepo.removeLast).not.toHaveBeenCalled();
+        });
+
+        it("should read one anime's history through its canonical id", async () => {
+            mockIdentityRepo.resolveId.mockResolvedValue("test-anime-1");
+
+            await animeService.getWatchHistory("hianime-test-anime");
+
+            expect(mockWatchHistoryRepo.findByAnimeId).toHaveBeenCalledWith("test-anime-1");
+        });
+    });
+
+    describe("activity log", () => {
+        beforeEach(() => {
+            mockPlanToWatchRepo.findById.mockResolvedValue(null);
+            mockHiddenAnimeRepo.exists.mockResolvedValue(false);
+        });
+
+        it("should log a successful change with its time", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+
+            await animeService.addToPlanToWatch(sampleAnimeData);
+
+            expect(mockActivityLogRepo.append).toHaveBeenCalledWith({
+                action: "planned",
+                animeId: "test-anime-1",
+                animeTitle: "Test Anime",
+                timestamp: "2024-01-15T10:30:00.000Z",
+            });
+        });
+
+        it("should log the episode an anime moved to", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(sampleEpisodeProgress);
+
+            await animeService.putOnHold("test-anime-1");
+
+            expect(mockActivityLogRepo.append).toHaveBeenCalledWith(
+                expect.objectContaining({ action: "paused", episode: 5 }),
+            );
+        });
+
+        it("should name hidden anime by the title their tile showed", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+
+            await animeService.hideAnime(sampleAnimeData);
+
+            expect(mockActivityLogRepo.append).toHaveBeenCalledWith(
+                expect.objectContaining({ action: "hidden", animeTitle: "Test Anime" }),
+            );
+        });
+
+        it("should name unhidden anime by their hidden record", async () => {
+            mockHiddenAnimeRepo.exists.mockResolvedValue(true);
+            mockHiddenAnimeRepo.findById.mockResolvedValue(hiddenRecord("test-anime-1"));
+
+            await animeService.unhideAnime("test-anime-1");
+
+            expect(mockActivityLogRepo.append).toHaveBeenCalledWith(
+                expect.objectContaining({ action: "unhidden", animeTitle: "Title test-anime-1" }),
+            );
+        });
+
+        it("should not log a change that was refused", async () => {
+            mockEpisodeProgressRepo.findById.mockResolvedValue(null);
+
+            const result = await animeService.stopWatching("test-anime-1");
+
+            expect(result.success).toBe(false);
+            expect(mockActivityLogRepo.append).not.toHaveBeenCalled();
+        });
+
+        it("should log every anime restored by clearing the hidden list", async () => {
+            mockHiddenAnimeRepo.findAll.mockResolvedValue([hiddenRecord("a"), hiddenRecord("b")]);
+            mockHiddenAnimeRepo.clear.mockResolvedValue(undefined);
+
+            await animeService.clearAllHidden();
+
+            expect(mockActivityLogRepo.append).toHaveBeenCalledWith(
+                expect.objectContaining({ action: "unhidden", animeId: "a", animeTitle: "Title a" }),
+                expect.objectContaining({ action: "unhidden", animeId: "b", animeTitle: "Title b" }),
+            );
+        });
+    });
+
+    describe("user data", () => {
+        it("should return every anime's rating, notes and tags", async () => {
+            const userData = { "test-anime-1": { animeId: "test-anime-1", score: 8, tags: [], updatedAt: "" } };
+            mockUserDataRepo.getAll.mockResolvedValue(userData);
+
+            expect(await animeService.getUserData()).toEqual(userData);
+        });
+
+        it("should save a score, trimmed notes and normalized tags", async () => {
+            const result = await animeService.updateUserData("test-anime-1", {
+                score: 9,
+                notes: "  Rewatch the finale  ",
+                tags: [" comfy ", "Comfy", "", "slow  burn"],
+            });
+
+            expect(result).toEqual({ success: true, message: "Saved rating, notes and tags" });
+            expect(mockUserDataRepo.create).toHaveBeenCalledWith({
+                animeId: "test-anime-1",
+                score: 9,
+                notes: "Rewatch the finale",
+                tags: ["comfy", "slow burn"],
+                updatedAt: "2024-01-15T10:30:00.000Z",
+            });
+        });
+
+        it("should keep fields that aren't changed and clear a null score", async () => {
+            mockUserDataRepo.findById.mockResolvedValue({
+                animeId: "test-anime-1",
+                score: 6,
+                notes: "Slow start",
+                tags: ["isekai"],
+                updatedAt: "",
+            });
+
+            await animeService.updateUserData("test-anime-1", { score: null });
+
+            expect(mockUserDataRepo.create).toHaveBeenCalledWith({
+                animeId: "test-anime-1",
+                notes: "Slow start",
+                tags: ["isekai"],
+                updatedAt: "2024-01-15T10:30:00.000Z",
+            });
+        });
+
+        it("should remove the record once nothing is left", async () => {
+            mockUserDataRepo.findById.mockResolvedValue({ animeId: "test-anime-1", score: 6, tags: [], updatedAt: "" });
+
+            const result = await animeService.updateUserData("test-anime-1", { score: null, notes: " ", tags: [] });
+
+            expect(result).toEqual({ success: true, message: "Cleared rating, notes and tags" });
+            expect(mockUserDataRepo.delete).toHaveBeenCalledWith("test-anime-1");
+            expect(mockUserDataRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should save under the canonical id of a merged alias", async () => {
+            mockIdentityRepo.resolveId.mockResolvedValue("test-anime-1");
+
+            await animeService.updateUserData("hianime-test-anime", { score: 7 });
+
+            expect(mockUserDataRepo.create).toHaveBeenCalledWith(expect.objectContaining({ animeId: "test-anime-1" }));
+        });
+
+        it.each([
+            [{ score: 0 }, "Score must be a whole number from 1 to 10"],
+            [{ score: 7.5 }, "Score must be a whole number from 1 to 10"],
+            [{ score: 11 }, "Score must be a whole number from 1 to 10"],
+            [{ notes: "x".repeat(2001) }, "Notes must be at most 2000 characters"],
+            [{ tags: Array.from({ length: 21 }, (_, index) => `tag ${index}`) }, "An anime can have at most 20 tags"],
+            [{ tags: ["x".repeat(31)] }, "Tags must be at most 30 characters"],
+        ])("should refuse %o", async (changes, message) => {
+            const result = await animeService.updateUserData("test-anime-1", changes);
+
+            expect(result).toEqual({ success: false, message });
+            expect(mockUserDataRepo.create).not.toHaveBeenCalled();
+        });
+
+        it("should report storage failures", async () => {
+            mockUserDataRepo.create.mockRejectedValue(new Error("quota exceeded"));
+
+            const result = await animeService.updateUserData("test-anime-1", { score: 5 });
+
+            expect(result).toEqual({
+                success: false,
+                message: "Failed to save rating, notes and tags",
+                error: "quota exceeded",
+            });
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { SyncRequest } from "@/commons/models";
+import { SyncService } from "@/commons/services/SyncService";
+
+describe("SyncService", () => {
+    let respond: (message: SyncRequest) => unknown;
+    let sendMessage: ReturnType<typeof vi.fn>;
+    let service: SyncService;
+
+    const settings = { enabled: true, providerId: "mal", baseUrl: "https://api.example.com", strategy: "ask" as const };
+
+    beforeEach(() => {
+        (chrome.runtime as any).lastError = undefined;
+        respond = () => ({ success: true, message: "done" });
+        sendMessage = vi.fn((message: SyncRequest, callback: (response: unknown) => void) =>
+            callback(respond(message)),
+        );
+        (chrome.runtime as any).sendMessage = sendMessage;
+        (chrome as any).permissions = { request: vi.fn().mockResolvedValue(true) };
+        service = new SyncService();
+    });
+
+    it.each([
+        ["getStatus", [], { type: "GET_SYNC_STATUS" }],
+        ["configure", [settings], { type: "CONFIGURE_SYNC", settings }],
+        [
+            "signIn",
+            ["mal", { accessToken: "t" }],
+            { type: "SIGN_IN_SYNC", providerId: "mal", token: { accessToken: "t" } },
+        ],
+        ["signOut", ["mal"], { type: "SIGN_OUT_SYNC", providerId: "mal" }],
+        ["syncNow", [], { type: "SYNC_NOW" }],
+        ["resolveConflict", ["a", "remote"], { type: "RESOLVE_SYNC_CONFLICT", animeId: "a", keep: "remote" }],
+    ])("should forward %s to the background worker", async (method, args, message) => {
+        await (service as any)[method](...args);
+
+        expect(sendMessage).toHaveBeenCalledWith(message, expect.any(Function));
+    });
+
+    it("should ask for access to the provider's API before turning sync on", async () => {
+        await service.configure(settings);
+        await service.configure({ ...settings, enabled: false });
+
+        expect(chrome.permissions.request).toHaveBeenCalledTimes(1);
+        expect(chrome.permissions.request).toHaveBeenCalledWith({ origins: ["https://api.example.com/*"] });
+    });
+
+    it("should not save the settings when access is refused", async () => {
+        vi.mocked(chrome.permissions.request).mockResolvedValue(false as never);
+
+        await expect(service.configure(settings)).resolves.toEqual({
+            success: false,
+            message: "Allow access to https://api.example.com/* to sync with it",
+        });
+        expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it("should resolve with the worker's status", async () => {
+        const status = { settings, signedIn: true, conflicts: [], queued: 2 };
+        respond = () => status;
+
+        await expect(service.getStatus()).resolves.toEqual(status);
+    });
+
+    it("should turn a failed round trip into a failed action result", async () => {
+        respond = () => {
+            (chrome.runtime as any).lastError = { message: "Receiving end does not exist." };
+            return undefined;
+        };
+
+        await expect(service.syncNow()).resolves.toEqual({
+            success: false,
+            message: "Could not reach the extension background",
+            error: "Receiving end does not exist.",
+        });
+    });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+
+import { findBuiltInSite, getEpisodeUrlBuilder, getSiteLabel } from "@/commons/sites";
+
+describe("built-in sites", () => {
+    it("should find a site by id", () => {
+        expect(findBuiltInSite("hianime")?.label).toBe("HiAnime");
+        expect(findBuiltInSite("my-custom-site")).toBeNull();
+        expect(findBuiltInSite(undefined)).toBeNull();
+    });
+
+    it.each([
+        ["animetsu", "Animetsu"],
+        ["my-custom-site", "my-custom-site"],
+        [undefined, "Unknown site"],
+    ])("should label %s as %s", (siteId, label) => {
+        expect(getSiteLabel(siteId)).toBe(label);
+    });
+
+    it("should build episode URLs from a built-in site's template", () => {
+        expect(getEpisodeUrlBuilder("anikototv")?.("frieren", 3)).toBe("https://anikototv.to/watch/frieren/ep-3");
+        expect(getEpisodeUrlBuilder("my-custom-site")).toBeUndefined();
+    });
+});
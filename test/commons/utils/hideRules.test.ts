@@ -0,0 +1,66 @@
+import type { HideRule } from "@/commons/models";
+import {
+    MAX_HIDE_RULE_LENGTH,
+    describeHideRule,
+    findMatchingHideRule,
+    matchesHideRule,
+    validateHideRule,
+} from "@/commons/utils/hideRules";
+import { describe, expect, it } from "vitest";
+
+function rule(kind: HideRule["kind"], value: string, enabled = true): HideRule {
+    return { id: value, kind, value, enabled, createdAt: "2025-07-20T10:00:00.000Z" };
+}
+
+describe("validateHideRule", () => {
+    it("should accept keywords and patterns that compile", () => {
+        expect(validateHideRule("keyword", "Recap")).toBeNull();
+        expect(validateHideRule("pattern", "Season \\d+ Dub")).toBeNull();
+    });
+
+    it("should refuse empty, overlong and broken rules", () => {
+        expect(validateHideRule("keyword", "   ")).toBe("Enter a keyword or pattern");
+        expect(validateHideRule("keyword", "x".repeat(MAX_HIDE_RULE_LENGTH + 1))).toBe(
+            `Keep rules under ${MAX_HIDE_RULE_LENGTH} characters`,
+        );
+        expect(validateHideRule("pattern", "Season (2")).toMatch(/^Not a valid pattern: /);
+    });
+
+    it("should take keywords literally", () => {
+        expect(validateHideRule("keyword", "Season (2")).toBeNull();
+    });
+});
+
+describe("matchesHideRule", () => {
+    it("should match keywords anywhere in the title, ignoring case", () => {
+        expect(matchesHideRule(rule("keyword", "recap"), "Frieren Recap Special")).toBe(true);
+        expect(matchesHideRule(rule("keyword", "Season 2 Dub"), "Frieren Season 2")).toBe(false);
+    });
+
+    it("should match patterns as case-insensitive regular expressions", () => {
+        expect(matchesHideRule(rule("pattern", "season \\d+ dub$"), "Frieren Season 2 Dub")).toBe(true);
+        expect(matchesHideRule(rule("pattern", "season \\d+ dub$"), "Frieren Season 2 Dub Part 2")).toBe(false);
+    });
+
+    it("should never match with disabled, empty or broken rules", () => {
+        expect(matchesHideRule(rule("keyword", "Recap", false), "Recap")).toBe(false);
+        expect(matchesHideRule(rule("keyword", "  "), "Recap")).toBe(false);
+        expect(matchesHideRule(rule("pattern", "Season (2"), "Season (2")).toBe(false);
+    });
+});
+
+describe("findMatchingHideRule", () => {
+    it("should return the first matching rule", () => {
+        const rules = [rule("keyword", "Movie"), rule("keyword", "Recap"), rule("pattern", "^re")];
+
+        expect(findMatchingHideRule(rules, "Frieren Recap")).toBe(rules[1]);
+        expect(findMatchingHideRule(rules, "Frieren")).toBeNull();
+    });
+});
+
+describe("describeHideRule", () => {
+    it("should quote keywords and wrap patterns in slashes", () => {
+        expect(describeHideRule(rule("keyword", "Recap"))).toBe('"Recap"');
+        expect(describeHideRule(rule("pattern", "Dub$"))).toBe("/Dub$/");
+    });
+});
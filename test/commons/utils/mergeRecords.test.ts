@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import type { AnimeListRecords, EpisodeProgress } from "@/commons/models";
+import { describeListRecords, hasListRecords, mergedRecordsWin } from "@/commons/utils/mergeRecords";
+
+const progress = (currentEpisode: number): EpisodeProgress => ({
+    animeId: "frieren",
+    animeTitle: "Frieren",
+    animeSlug: "frieren",
+    currentEpisode,
+    episodeId: `frieren-episode-${currentEpisode}`,
+    lastWatched: "2025-05-01T00:00:00.000Z",
+});
+const plan = { animeId: "frieren", animeTitle: "Frieren", animeSlug: "frieren", addedAt: "2025-05-01T00:00:00.000Z" };
+const hidden = {
+    animeId: "frieren",
+    animeTitle: "Frieren",
+    animeSlug: "frieren",
+    hiddenAt: "2025-05-01T00:00:00.000Z",
+};
+
+describe("mergedRecordsWin", () => {
+    it.each<[string, AnimeListRecords, AnimeListRecords, boolean]>([
+        ["watching over planned", { plan }, { progress: progress(12) }, true],
+        ["the later episode", { progress: progress(3) }, { dropped: { ...progress(8), droppedAt: "" } }, true],
+        [
+            "completed over any episode",
+            { completed: { ...progress(1), completedAt: "" } },
+            { progress: progress(24) },
+            false,
+        ],
+        ["planned over hidden", { hidden }, { plan }, true],
+        ["hidden over nothing", {}, { hidden }, true],
+        ["the kept entry on a tie", { progress: progress(5) }, { progress: progress(5) }, false],
+    ])("should prefer %s", (_case, keep, merge, expected) => {
+        expect(mergedRecordsWin(keep, merge)).toBe(expected);
+    });
+});
+
+describe("hasListRecords", () => {
+    it("should count hidden entries and nothing else as on a list", () => {
+        expect(hasListRecords({ hidden })).toBe(true);
+        expect(hasListRecords({})).toBe(false);
+    });
+});
+
+describe("describeListRecords", () => {
+    it("should name the list and episode", () => {
+        expect(describeListRecords({ onHold: { ...progress(7), pausedAt: "" } })).toBe("on hold at episode 7");
+        expect(describeListRecords({ plan })).toBe("planned");
+    });
+});
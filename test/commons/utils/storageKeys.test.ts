@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+
+import { StorageKeys } from "@/commons/models";
+import { animeItemKey, dayBucketKey, listKeyOf, parseAnimeItemKey } from "@/commons/utils/storageKeys";
+
+describe("storageKeys", () => {
+    it("should build and parse per-anime item keys", () => {
+        const key = animeItemKey(StorageKeys.EPISODE_PROGRESS, "re-zero:season-2");
+
+        expect(key).toBe("episodeProgress:re-zero:season-2");
+        expect(parseAnimeItemKey(key)).toEqual({ list: StorageKeys.EPISODE_PROGRESS, animeId: "re-zero:season-2" });
+    });
+
+    it("should not parse keys of lists stored under a single key", () => {
+        expect(parseAnimeItemKey("completed:a")).toBeNull();
+        expect(parseAnimeItemKey(":a")).toBeNull();
+        expect(parseAnimeItemKey(StorageKeys.PLAN_TO_WATCH)).toBeNull();
+    });
+
+    it("should resolve item, index and plain keys to their list", () => {
+        expect(listKeyOf("planToWatch:abc")).toBe(StorageKeys.PLAN_TO_WATCH);
+        expect(listKeyOf(StorageKeys.EPISODE_PROGRESS_INDEX)).toBe(StorageKeys.EPISODE_PROGRESS);
+        expect(listKeyOf(StorageKeys.HIDDEN_ANIME)).toBe(StorageKeys.HIDDEN_ANIME);
+        expect(listKeyOf(dayBucketKey(StorageKeys.WATCH_HISTORY, "2025-05-01"))).toBe(StorageKeys.WATCH_HISTORY);
+        expect(listKeyOf(StorageKeys.WATCH_HISTORY_INDEX)).toBe(StorageKeys.WATCH_HISTORY);
+        expect(listKeyOf("unknownKey")).toBeNull();
+    });
+});
@@ -0,0 +1,66 @@
+import { normalizeTitle, suggestMerges, titleSimilarity } from "@/commons/utils/titleMatching";
+import { describe, expect, it } from "vitest";
+
+describe("normalizeTitle", () => {
+    it("should drop punctuation, accents and filler words", () => {
+        expect(normalizeTitle("The Café: Terrace & Its Goddesses!")).toBe("cafe terrace and its goddesses");
+    });
+
+    it("should write seasons and roman numerals the same way", () => {
+        expect(normalizeTitle("Mushoku Tensei II")).toBe("mushoku tensei 2");
+        expect(normalizeTitle("Spy x Family 2nd Season")).toBe(normalizeTitle("Spy x Family Season 2"));
+    });
+});
+
+describe("titleSimilarity", () => {
+    it("should score titles that differ only cosmetically as identical", () => {
+        expect(titleSimilarity("Frieren: Beyond Journey's End", "Frieren - Beyond Journeys End")).toBe(1);
+    });
+
+    it("should score close titles highly and unrelated ones low", () => {
+        expect(titleSimilarity("Sousou no Frieren", "Sousou no Frieren (TV)")).toBe(1);
+        expect(titleSimilarity("Kaguya-sama: Love is War", "Kaguya-sama wa Kokurasetai")).toBeLessThan(0.85);
+        expect(titleSimilarity("Naruto", "Bleach")).toBeLessThan(0.2);
+    });
+
+    it("should never match different seasons", () => {
+        expect(titleSimilarity("Attack on Titan Season 2", "Attack on Titan Season 3")).toBe(0);
+        expect(titleSimilarity("Attack on Titan", "Attack on Titan Season 2")).toBe(0);
+    });
+});
+
+describe("suggestMerges", () => {
+    it("should pair entries from different sites with similar titles, best first", () => {
+        const suggestions = suggestMerges([
+            { animeId: "a", animeTitle: "Frieren: Beyond Journey's End", siteId: "anikototv" },
+            { animeId: "b", animeTitle: "Frieren Beyond Journeys End", siteId: "hianime" },
+            { animeId: "c", animeTitle: "Dandadan", siteId: "animetsu" },
+            { animeId: "d", animeTitle: "Dan Da Dan", siteId: "hianime" },
+        ]);
+
+        expect(suggestions.map(({ first, second }) => [first.animeId, second.animeId])).toEqual([
+            ["a", "b"],
+            ["c", "d"],
+        ]);
+        expect(suggestions[0]).toMatchObject({ score: 1, reason: "title" });
+    });
+
+    it("should pair entries sharing a MyAnimeList id whatever their titles", () => {
+        const suggestions = suggestMerges([
+            { animeId: "a", animeTitle: "Shingeki no Kyojin", malId: 16498 },
+            { animeId: "b", animeTitle: "Attack on Titan", siteId: "hianime", malId: 16498 },
+        ]);
+
+        expect(suggestions).toHaveLength(1);
+        expect(suggestions[0]).toMatchObject({ score: 1, reason: "malId" });
+    });
+
+    it("should not pair two entries from the same site", () => {
+        expect(
+            suggestMerges([
+                { animeId: "a", animeTitle: "One Piece", siteId: "hianime" },
+                { animeId: "b", animeTitle: "One Piece", siteId: "hianime" },
+            ]),
+        ).toEqual([]);
+    });
+});
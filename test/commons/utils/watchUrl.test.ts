@@ -1,7 +1,7 @@
 import { describe, expect, it } from "vitest";
 
 import type { EpisodeProgress } from "@/commons/models";
-import { getContinueWatchingUrl } from "@/commons/utils/watchUrl";
+import { getContinueWatchingUrl, isEpisodeUrlTemplate } from "@/commons/utils/watchUrl";
 
 describe("getContinueWatchingUrl", () => {
     it("should build the anikototv watch URL from slug and current episode", () => {
@@ -15,4 +15,53 @@ describe("getContinueWatchingUrl", () => {
 
         expect(getContinueWatchingUrl(item)).toBe("https://anikototv.to/watch/candy-caries-vm1jn/ep-1");
     });
+
+    it("should use the site's own URL builder when given one", () => {
+        const item = { animeSlug: "frieren-18542", currentEpisode: 3, siteId: "hianime" } as EpisodeProgress;
+
+        expect(getContinueWatchingUrl(item, (slug, episode) => `https://site.example/${slug}/${episode}`)).toBe(
+            "https://site.example/frieren-18542/3",
+        );
+    });
+
+    it("should fill the URL template recorded with the entry", () => {
+        const item = {
+            animeSlug: "chainsaw-man",
+            currentEpisode: 12,
+            siteId: "my-site",
+            episodeUrlTemplate: "https://my-site.example/watch/{slug}?episode={episode}",
+        } as EpisodeProgress;
+
+        expect(getContinueWatchingUrl(item)).toBe("https://my-site.example/watch/chainsaw-man?episode=12");
+    });
+
+    it("should fall back to anikototv for entries without a usable template", () => {
+        const legacy = { animeSlug: "candy-caries-vm1jn", currentEpisode: 2 } as EpisodeProgress;
+        const unsafe = { ...legacy, episodeUrlTemplate: "javascript:alert('{slug}')" } as EpisodeProgress;
+
+        expect(getContinueWatchingUrl(legacy)).toBe("https://anikototv.to/watch/candy-caries-vm1jn/ep-2");
+        expect(getContinueWatchingUrl(unsafe)).toBe("https://anikototv.to/watch/candy-caries-vm1jn/ep-2");
+    });
+
+    it("should encode the slug", () => {
+        const item = {
+            animeSlug: "a/b?c",
+            currentEpisode: 1,
+            episodeUrlTemplate: "https://my-site.example/{slug}/{episode}",
+        } as EpisodeProgress;
+
+        expect(getContinueWatchingUrl(item)).toBe("https://my-site.example/a%2Fb%3Fc/1");
+    });
+});
+
+describe("isEpisodeUrlTemplate", () => {
+    it.each([
+        ["https://site.example/watch/{slug}/{episode}", true],
+        ["http://site.example/{slug}", true],
+        ["https://site.example/watch/{episode}", false],
+        ["/watch/{slug}", false],
+        ["javascript:alert('{slug}')", false],
+    ])("should judge %s as %s", (template, expected) => {
+        expect(isEpisodeUrlTemplate(template)).toBe(expected);
+    });
 });
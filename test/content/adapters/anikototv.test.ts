@@ -18,11 +18,7 @@ function buildCard({
     imgDataSrc,
     includeImg = true,
 }: CardOptions = {}): HTMLDivElement {
-    const imgAttrs = [
-        `alt="${title}"`,
-        imgSrc ? `src="${imgSrc}"` : "",
-        imgDataSrc ? `data-src="${imgDataSrc}"` : "",
-    ]
+    const imgAttrs = [`alt="${title}"`, imgSrc ? `src="${imgSrc}"` : "", imgDataSrc ? `data-src="${imgDataSrc}"` : ""]
         .filter(Boolean)
         .join(" ");
     const img = includeImg ? `<img ${imgAttrs}>` : "";
@@ -79,6 +75,8 @@ describe("anikototv adapter", () => {
             animeId: "the-warrior-princess-and-the-barbaric-king-snxwm",
             animeTitle: "The Warrior Princess and the Barbaric King",
             animeSlug: "the-warrior-princess-and-the-barbaric-king-snxwm",
+            siteId: "anikototv",
+            episodeUrlTemplate: "https://anikototv.to/watch/{slug}/ep-{episode}",
         });
     });
 
@@ -260,6 +258,8 @@ describe("anikototv adapter — watch page", () => {
             animeId: "the-warrior-princess-and-the-barbaric-king-snxwm",
             animeTitle: "The Warrior Princess and the Barbaric King",
             animeSlug: "the-warrior-princess-and-the-barbaric-king-snxwm",
+            siteId: "anikototv",
+            episodeUrlTemplate: "https://anikototv.to/watch/{slug}/ep-{episode}",
         });
     });
 
@@ -328,6 +328,35 @@ describe("anikototv adapter — watch page", () => {
         expect(watchPage.extractAnime()).toBeNull();
     });
 
+    it("extracts the episode number from the watch path", () => {
+        vi.spyOn(window, "location", "get").mockReturnValue({
+            pathname: "/watch/some-slug-abcde/ep-12",
+        } as Location);
+        expect(watchPage.extractEpisode?.()).toBe(12);
+    });
+
+    it("returns no episode off watch pages or for episode 0", () => {
+        const location = vi.spyOn(window, "location", "get");
+        location.mockReturnValue({ pathname: "/recent" } as Location);
+        expect(watchPage.extractEpisode?.()).toBeNull();
+        location.mockReturnValue({ pathname: "/watch/some-slug-abcde/ep-0" } as Location);
+        expect(watchPage.extractEpisode?.()).toBeNull();
+    });
+
+    it("finds the inline video player when the page has one", () => {
+        expect(watchPage.findVideo?.()).toBeNull();
+        const video = document.createElement("video");
+        document.body.appendChild(video);
+        expect(watchPage.findVideo?.()).toBe(video);
+    });
+
+    it("reads progress messages from embedded players", () => {
+        expect(watchPage.readPlayerMessage?.({ currentTime: 30, duration: 1440 })).toEqual({
+            currentTime: 30,
+            duration: 1440,
+        });
+    });
+
     it("strips trailing site suffixes from document.title", () => {
         vi.spyOn(window, "location", "get").mockReturnValue({
             pathname: "/watch/demon-slayer-abcde/ep-1",
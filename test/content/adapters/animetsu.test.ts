@@ -0,0 +1,94 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { animetsuAdapter } from "@/content/adapters/animetsu";
+
+const fixture = (file: string) => readFileSync(join(__dirname, "fixtures", "animetsu", file), "utf8");
+
+function cards(): Element[] {
+    document.body.innerHTML = fixture("list.html");
+    return Array.from(document.querySelectorAll(animetsuAdapter.cardSelector));
+}
+
+describe("animetsu adapter", () => {
+    afterEach(() => {
+        document.body.innerHTML = "";
+    });
+
+    it("matches Animetsu hosts only", () => {
+        expect(animetsuAdapter.id).toBe("animetsu");
+        expect(animetsuAdapter.matches(new URL("https://animetsu.to/home"))).toBe(true);
+        expect(animetsuAdapter.matches(new URL("https://www.animetsu.cc/anime/chainsaw-man"))).toBe(true);
+        expect(animetsuAdapter.matches(new URL("https://hianime.to/home"))).toBe(false);
+    });
+
+    it("hides and reorders the grid slot wrapping each card", () => {
+        const [frieren] = cards();
+
+        expect(animetsuAdapter.getTileElement?.(frieren)).toBe(frieren.parentElement);
+        expect(frieren.parentElement?.classList.contains("grid-slot")).toBe(true);
+    });
+
+    it("falls back to the card when it is rendered outside a slot", () => {
+        document.body.innerHTML = '<div class="anime-card"></div>';
+        const card = document.querySelector(".anime-card")!;
+
+        expect(animetsuAdapter.getTileElement?.(card)).toBe(card);
+    });
+
+    it("turns off drag-and-drop on the React-rendered grid", () => {
+        expect(animetsuAdapter.supportsDragAndDrop).toBe(false);
+        expect(animetsuAdapter.supportsClearHiddenButton).toBeUndefined();
+    });
+
+    it("reads the slug from absolute links with a trailing slash", () => {
+        expect(animetsuAdapter.extractAnime(cards()[1])?.animeSlug).toBe("kusuriya-no-hitorigoto");
+    });
+
+    it("skips placeholder cards that do not link to an anime", () => {
+        expect(animetsuAdapter.extractAnime(cards()[3])).toBeNull();
+    });
+
+    it("places controls on the poster inside the card", () => {
+        const [frieren] = cards();
+
+        expect(animetsuAdapter.getInjectionTarget(frieren)).toBe(frieren.querySelector(".anime-card-poster"));
+    });
+});
+
+describe("animetsu adapter — watch page", () => {
+    const watchPage = animetsuAdapter.watchPage!;
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+        document.title = "";
+    });
+
+    it("matches episode paths only", () => {
+        expect(watchPage.matches(new URL("https://animetsu.to/watch/chainsaw-man/12"))).toBe(true);
+        expect(watchPage.matches(new URL("https://animetsu.to/watch/chainsaw-man/12/"))).toBe(true);
+        expect(watchPage.matches(new URL("https://animetsu.to/watch/chainsaw-man/special"))).toBe(false);
+        expect(watchPage.matches(new URL("https://animetsu.to/anime/chainsaw-man"))).toBe(false);
+    });
+
+    it("reads the episode from the path", () => {
+        vi.spyOn(window, "location", "get").mockReturnValue({ pathname: "/watch/chainsaw-man/12" } as Location);
+
+        expect(watchPage.extractEpisode?.()).toBe(12);
+    });
+
+    it("strips the episode and brand from a dash-separated title", () => {
+        vi.spyOn(window, "location", "get").mockReturnValue({ pathname: "/watch/chainsaw-man/12" } as Location);
+        document.title = "Chainsaw Man Episode 12 - Animetsu";
+
+        expect(watchPage.extractAnime()?.animeTitle).toBe("Chainsaw Man");
+    });
+
+    it("finds the site's inline video player", () => {
+        document.body.innerHTML = new DOMParser().parseFromString(fixture("watch.html"), "text/html").body.innerHTML;
+
+        expect(watchPage.findVideo?.()).toBe(document.querySelector("video.player-video"));
+        expect(watchPage.readPlayerMessage).toBeUndefined();
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { SiteAdapterDefinition } from "@/commons/models";
+import type { CustomAdapterRepository } from "@/commons/repositories";
+import { loadCustomAdapters, selectAdapter } from "@/content/adapters";
+
+const definition = (id: string, overrides: Partial<SiteAdapterDefinition> = {}): SiteAdapterDefinition => ({
+    id,
+    label: id,
+    hosts: [`${id}.example`],
+    list: {
+        containerSelector: ".grid",
+        cardSelector: ".card",
+        titleSelector: ".title",
+        linkPattern: "^/anime/(?<slug>[^/]+)$",
+        injectionSelector: ".poster",
+    },
+    ...overrides,
+});
+
+const repositoryWith = (definitions: SiteAdapterDefinition[]) =>
+    ({ findAll: vi.fn().mockResolvedValue(definitions) }) as unknown as CustomAdapterRepository;
+
+describe("loadCustomAdapters", () => {
+    it("should compile stored definitions in order", async () => {
+        const loaded = await loadCustomAdapters(repositoryWith([definition("one"), definition("two")]));
+
+        expect(loaded.map((adapter) => adapter.id)).toEqual(["one", "two"]);
+        expect(selectAdapter(new URL("https://two.example/home"), loaded)?.id).toBe("two");
+    });
+
+    it("should skip definitions that no longer compile", async () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const broken = definition("broken", { hosts: [] });
+
+        const loaded = await loadCustomAdapters(repositoryWith([broken, definition("ok")]));
+
+        expect(loaded.map((adapter) => adapter.id)).toEqual(["ok"]);
+        expect(warn).toHaveBeenCalledWith('[Adapters] Skipping custom adapter "broken":', expect.any(Error));
+    });
+});
@@ -0,0 +1,184 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { AnimeData, SiteAdapterDefinition } from "@/commons/models";
+import { adapters, builtInDefinitions, compileAdapter, validateAdapterDefinition } from "@/content/adapters";
+
+/**
+ * Captured pages for each built-in definition live in fixtures/<id>/:
+ * list.html (a listing container), watch.html (an episode page) and
+ * expected.json (what the adapter must read from them).
+ */
+interface FixtureExpectations {
+    listUrl: string;
+    /** One entry per card in list.html; null for cards that must be skipped */
+    cards: (AnimeData | null)[];
+    watch: { url: string; title: string; anime: AnimeData; episode: number | null };
+    notWatchUrls: string[];
+}
+
+const fixture = (id: string, file: string) => readFileSync(join(__dirname, "fixtures", id, file), "utf8");
+
+function loadWatchPage(id: string, url: string, title: string): void {
+    const page = new DOMParser().parseFromString(fixture(id, "watch.html"), "text/html");
+    document.head.append(...Array.from(page.head.children));
+    document.body.innerHTML = page.body.innerHTML;
+    document.title = title;
+    const { pathname, href } = new URL(url);
+    vi.spyOn(window, "location", "get").mockReturnValue({ pathname, href } as Location);
+}
+
+const validDefinition = (): SiteAdapterDefinition => ({
+    id: "example",
+    label: "Example",
+    hosts: ["example.com"],
+    list: {
+        containerSelector: ".grid",
+        cardSelector: ".card",
+        titleSelector: "a.title",
+        linkPattern: "^/anime/(?<slug>[^/]+)$",
+        injectionSelector: ".poster",
+    },
+});
+
+describe.each(builtInDefinitions.map((definition) => [definition.id, definition] as const))(
+    "built-in adapter definition %s",
+    (id, definition) => {
+        const expected = JSON.parse(fixture(id, "expected.json")) as FixtureExpectations;
+        const adapter = compileAdapter(definition);
+
+        afterEach(() => {
+            document.head.innerHTML = "";
+            document.title = "";
+        });
+
+        it("should be valid and registered", () => {
+            expect(validateAdapterDefinition(definition)).toEqual([]);
+            expect(adapters.map((registered) => registered.id)).toContain(id);
+        });
+
+        it("should read every card of the captured list page", () => {
+            document.body.innerHTML = fixture(id, "list.html");
+            expect(adapter.matches(new URL(expected.listUrl))).toBe(true);
+
+            const container = document.querySelector(adapter.containerSelector);
+            expect(container).not.toBeNull();
+            const cards = Array.from(container!.querySelectorAll(adapter.cardSelector));
+
+            expect(cards.map((card) => adapter.extractAnime(card))).toEqual(expected.cards);
+            cards.forEach((card) => {
+                const target = adapter.getInjectionTarget(card);
+                expect(target).not.toBeNull();
+                expect(card.contains(target)).toBe(true);
+            });
+        });
+
+        it("should read the captured watch page", () => {
+            loadWatchPage(id, expected.watch.url, expected.watch.title);
+            const watchPage = adapter.watchPage!;
+
+            expect(watchPage.matches(new URL(expected.watch.url))).toBe(true);
+            expect(watchPage.extractAnime()).toEqual(expected.watch.anime);
+            expect(watchPage.extractEpisode?.() ?? null).toBe(expected.watch.episode);
+            expected.notWatchUrls.forEach((url) => expect(watchPage.matches(new URL(url))).toBe(false));
+        });
+    },
+);
+
+describe("validateAdapterDefinition", () => {
+    it("should accept a minimal definition", () => {
+        expect(validateAdapterDefinition(validDefinition())).toEqual([]);
+    });
+
+    it("should report missing identity and hosts", () => {
+        const errors = validateAdapterDefinition({ ...validDefinition(), id: " ", label: "", hosts: [] });
+
+        expect(errors).toEqual(["id is required", "label is required", "at least one host is required"]);
+    });
+
+    it("should report broken selectors and patterns", () => {
+        const definition = validDefinition();
+        definition.list.cardSelector = "div[";
+        definition.list.linkPattern = "^/anime/(";
+        definition.watchPage = { pathPattern: "^/watch/(?<id>\\d+)$", titleSuffixPatterns: ["(unclosed"] };
+
+        expect(validateAdapterDefinition(definition)).toEqual([
+            "list.cardSelector is not a valid CSS selector",
+            "list.linkPattern is not a valid regular expression",
+            "watchPage.titleSuffixPatterns[0] is not a valid regular expression",
+            "watchPage.pathPattern needs a (?<slug>…) group",
+        ]);
+    });
+});
+
+describe("episode URL templates", () => {
+    it("should reject templates that are not absolute http(s) URLs with a slug", () => {
+        for (const urlTemplate of ["/watch/{slug}", "https://site.example/watch/{episode}", "javascript:'{slug}'"]) {
+            const definition = { ...validDefinition(), watchPage: { pathPattern: "^/w/(?<slug>[^/]+)$", urlTemplate } };
+
+            expect(validateAdapterDefinition(definition)).toEqual([
+                "watchPage.urlTemplate must be an http(s) URL containing {slug}",
+            ]);
+        }
+    });
+
+    it("should build episode URLs and record the template with extracted anime", () => {
+        const urlTemplate = "https://example.com/watch/{slug}/{episode}";
+        const adapter = compileAdapter({
+            ...validDefinition(),
+            watchPage: { pathPattern: "^/watch/(?<slug>[^/]+)/(?<episode>\\d+)$", urlTemplate },
+        });
+        document.body.innerHTML = '<div class="card"><a class="title" href="/anime/one-piece">One Piece</a></div>';
+
+        expect(adapter.buildEpisodeUrl?.("one-piece", 7)).toBe("https://example.com/watch/one-piece/7");
+        expect(adapter.extractAnime(document.querySelector(".card")!)).toMatchObject({
+            siteId: "example",
+            episodeUrlTemplate: urlTemplate,
+        });
+    });
+
+    it("should leave sites without a template unable to build links", () => {
+        expect(compileAdapter(validDefinition()).buildEpisodeUrl).toBeUndefined();
+    });
+});
+
+describe("compileAdapter", () => {
+    it("should refuse an invalid definition", () => {
+        expect(() => compileAdapter({ ...validDefinition(), hosts: [] })).toThrow(
+            'Invalid site adapter "example": at least one host is required',
+        );
+    });
+
+    it("should read the title from an attribute and wrap cards in their tile", () => {
+        const definition = validDefinition();
+        definition.list.titleAttribute = "data-jname";
+        definition.list.tileSelector = ".slot";
+        const adapter = compileAdapter(definition);
+        document.body.innerHTML = `
+            <div class="grid"><div class="slot"><div class="card">
+                <div class="poster"></div>
+                <a class="title" href="/anime/one-piece" data-jname="One Piece">ワンピース</a>
+            </div></div></div>`;
+        const card = document.querySelector(".card")!;
+
+        expect(adapter.extractAnime(card)).toEqual({
+            animeId: "one-piece",
+            animeTitle: "One Piece",
+            animeSlug: "one-piece",
+            siteId: "example",
+        });
+        expect(adapter.getTileElement?.(card)).toBe(document.querySelector(".slot"));
+    });
+
+    it("should leave out watch-page hooks the definition does not describe", () => {
+        const definition = validDefinition();
+        definition.watchPage = { pathPattern: "^/watch/(?<slug>[^/]+)$" };
+        const { watchPage } = compileAdapter(definition);
+
+        expect(watchPage?.extractEpisode).toBeUndefined();
+        expect(watchPage?.findVideo).toBeUndefined();
+        expect(watchPage?.readPlayerMessage).toBeUndefined();
+        expect(compileAdapter(validDefinition()).watchPage).toBeNull();
+    });
+});
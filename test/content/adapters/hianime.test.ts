@@ -0,0 +1,112 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { hianimeAdapter } from "@/content/adapters/hianime";
+
+const fixture = (file: string) => readFileSync(join(__dirname, "fixtures", "hianime", file), "utf8");
+
+function cards(): Element[] {
+    document.body.innerHTML = fixture("list.html");
+    return Array.from(document.querySelectorAll(hianimeAdapter.cardSelector));
+}
+
+function visitWatchPage(pathname: string, body: string = fixture("watch.html")): void {
+    document.body.innerHTML = new DOMParser().parseFromString(body, "text/html").body.innerHTML;
+    vi.spyOn(window, "location", "get").mockReturnValue({ pathname } as Location);
+}
+
+describe("hianime adapter", () => {
+    afterEach(() => {
+        document.body.innerHTML = "";
+        document.title = "";
+    });
+
+    it("matches HiAnime and its mirror domains only", () => {
+        expect(hianimeAdapter.id).toBe("hianime");
+        expect(hianimeAdapter.matches(new URL("https://hianime.to/home"))).toBe(true);
+        expect(hianimeAdapter.matches(new URL("https://hianime.sx/most-popular"))).toBe(true);
+        expect(hianimeAdapter.matches(new URL("https://anikototv.to/recent"))).toBe(false);
+        expect(hianimeAdapter.matches(new URL("https://hianime.to.example.com/home"))).toBe(false);
+    });
+
+    it("reads the English title from the link's title attribute, not the Japanese link text", () => {
+        const [frieren] = cards();
+
+        expect(frieren.querySelector(".dynamic-name")?.textContent).toBe("Sousou no Frieren");
+        expect(hianimeAdapter.extractAnime(frieren)?.animeTitle).toBe("Frieren: Beyond Journey's End");
+    });
+
+    it("prefers the lazy-load data-src over the placeholder src", () => {
+        const [frieren, , onePiece] = cards();
+
+        expect(hianimeAdapter.extractAnime(frieren)?.posterUrl).toBe(
+            "https://cdn.noitatnemucod.net/thumbnail/300x400/100/frieren.jpg",
+        );
+        expect(hianimeAdapter.extractAnime(onePiece)?.posterUrl).toBeUndefined();
+    });
+
+    it("accepts detail and player links, with or without a query string", () => {
+        const [frieren, danDaDan] = cards();
+
+        expect(hianimeAdapter.extractAnime(frieren)?.animeSlug).toBe("frieren-beyond-journeys-end-18542");
+        expect(hianimeAdapter.extractAnime(danDaDan)?.animeSlug).toBe("dan-da-dan-19319");
+    });
+
+    it("skips cards linking to site pages rather than an anime", () => {
+        expect(hianimeAdapter.extractAnime(cards()[3])).toBeNull();
+    });
+
+    it("places controls on the poster and treats the card as its own tile", () => {
+        const [frieren] = cards();
+
+        expect(hianimeAdapter.getInjectionTarget(frieren)).toBe(frieren.querySelector(".film-poster"));
+        expect(hianimeAdapter.getTileElement).toBeUndefined();
+        expect(hianimeAdapter.supportsDragAndDrop).toBeUndefined();
+    });
+});
+
+describe("hianime adapter — watch page", () => {
+    const watchPage = hianimeAdapter.watchPage!;
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+        document.title = "";
+    });
+
+    it("matches the player path, whatever episode is selected in the query", () => {
+        expect(watchPage.matches(new URL("https://hianime.to/watch/frieren-beyond-journeys-end-18542"))).toBe(true);
+        expect(watchPage.matches(new URL("https://hianime.to/watch/frieren-beyond-journeys-end-18542?ep=107259"))).toBe(
+            true,
+        );
+        expect(watchPage.matches(new URL("https://hianime.to/frieren-beyond-journeys-end-18542"))).toBe(false);
+        expect(watchPage.matches(new URL("https://hianime.to/watch/frieren"))).toBe(false);
+    });
+
+    it("reads the episode number from the highlighted episode in the list", () => {
+        visitWatchPage("/watch/frieren-beyond-journeys-end-18542");
+
+        expect(watchPage.extractEpisode?.()).toBe(3);
+    });
+
+    it("reports no episode until the episode list has rendered", () => {
+        visitWatchPage("/watch/frieren-beyond-journeys-end-18542", "<div id='ani_detail'></div>");
+
+        expect(watchPage.extractEpisode?.()).toBeNull();
+    });
+
+    it("falls back to the detail heading when the page title is empty", () => {
+        visitWatchPage("/watch/frieren-beyond-journeys-end-18542");
+        document.title = "";
+
+        expect(watchPage.extractAnime()?.animeTitle).toBe("Frieren: Beyond Journey's End");
+    });
+
+    it("follows the embedded player through its messages", () => {
+        expect(watchPage.findVideo).toBeUndefined();
+        expect(watchPage.readPlayerMessage?.({ event: "time", currentTime: 600, duration: 1440 })).toEqual({
+            currentTime: 600,
+            duration: 1440,
+        });
+    });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+
+import { readCommonPlayerMessage } from "@/content/adapters/playback";
+
+describe("readCommonPlayerMessage", () => {
+    it.each([
+        ["currentTime", { currentTime: 12, duration: 1440 }],
+        ["position", { event: "time", position: 12, duration: 1440 }],
+        ["a nested Vimeo-style payload", { event: "timeupdate", data: { seconds: 12, duration: 1440 } }],
+        ["a JSON string", JSON.stringify({ time: 12, duration: 1440 })],
+    ])("should read %s", (_label, message) => {
+        expect(readCommonPlayerMessage(message)).toEqual({ currentTime: 12, duration: 1440 });
+    });
+
+    it.each([
+        ["unrelated messages", { type: "resize", height: 400 }],
+        ["a missing duration", { currentTime: 12 }],
+        ["a zero duration", { currentTime: 0, duration: 0 }],
+        ["a negative position", { currentTime: -1, duration: 1440 }],
+        ["text that is not JSON", "ready"],
+        ["non-objects", 42],
+        ["null", null],
+    ])("should ignore %s", (_label, message) => {
+        expect(readCommonPlayerMessage(message)).toBeNull();
+    });
+});
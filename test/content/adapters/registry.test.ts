@@ -1,9 +1,16 @@
 import { describe, expect, it } from "vitest";
-import { adapters, anikototvAdapter, selectAdapter } from "@/content/adapters";
+import {
+    adapters,
+    anikototvAdapter,
+    animetsuAdapter,
+    findAdapterById,
+    hianimeAdapter,
+    selectAdapter,
+} from "@/content/adapters";
 
 describe("content/adapters registry", () => {
-    it("registers the anikototv adapter as the sole built-in", () => {
-        expect(adapters).toEqual([anikototvAdapter]);
+    it("registers the built-in adapters, anikototv first", () => {
+        expect(adapters).toEqual([anikototvAdapter, hianimeAdapter, animetsuAdapter]);
     });
 
     it("selects the anikototv adapter for anikototv.to URLs", () => {
@@ -11,7 +18,12 @@ describe("content/adapters registry", () => {
         expect(adapter).toBe(anikototvAdapter);
     });
 
-    it("returns null for non-anikototv hosts so the script self-disables", () => {
+    it("selects the adapter for each built-in site", () => {
+        expect(selectAdapter(new URL("https://hianime.to/home"))).toBe(hianimeAdapter);
+        expect(selectAdapter(new URL("https://animetsu.cc/anime/sousou-no-frieren"))).toBe(animetsuAdapter);
+    });
+
+    it("returns null for unsupported hosts so the script self-disables", () => {
         // The manifest still ships <all_urls>, so the script may load on
         // unrelated pages. Returning null here is what stops the adapter
         // from attaching MutationObservers and controls everywhere.
@@ -26,4 +38,10 @@ describe("content/adapters registry", () => {
         const adapter = selectAdapter(new URL("https://example.com/anything"), [fakeAdapter]);
         expect(adapter).toBeNull();
     });
+
+    it("finds built-in adapters by the id recorded on tracked entries", () => {
+        expect(findAdapterById("hianime")).toBe(hianimeAdapter);
+        expect(findAdapterById("my-custom-site")).toBeNull();
+        expect(findAdapterById(undefined)).toBeNull();
+    });
 });
@@ -0,0 +1,411 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockAnimeService = vi.hoisted(() => ({
+    getAnimeStatus: vi.fn(),
+    getAnimeStatuses: vi.fn(),
+    updateEpisodeProgress: vi.fn(),
+    undoAutoEpisodeUpdate: vi.fn(),
+    updatePosterUrl: vi.fn(),
+    startWatching: vi.fn(),
+}));
+const settings = vi.hoisted(() => ({ get: vi.fn() }));
+
+vi.mock("@/commons/services", () => ({
+    AnimeService: vi.fn(() => mockAnimeService),
+}));
+
+vi.mock("@/commons/repositories", () => ({
+    HideRuleRepository: class {
+        findAll = async () => [];
+    },
+    SettingsRepository: class {
+        get = () => settings.get();
+    },
+}));
+
+import { DEFAULT_SETTINGS } from "@/commons/models";
+import {
+    hasReachedWatchedThreshold,
+    initializeAutoTracking,
+    resetSinglePageAnimeService,
+    showAutoTrackPrompt,
+    trackWatchedEpisode,
+    watchForEpisodeChanges,
+} from "@/content/index";
+
+const animeData = { animeId: "frieren-abcde", animeTitle: "Frieren", animeSlug: "frieren-abcde" };
+
+const untracked = { isTracked: false, isPlanned: false, isHidden: false };
+const trackedAt = (currentEpisode: number) => ({
+    isTracked: true,
+    isPlanned: false,
+    isHidden: false,
+    progress: { ...animeData, currentEpisode, episodeId: `ep-${currentEpisode}`, lastWatched: "2025-01-01" },
+});
+
+function visit(pathname: string): void {
+    vi.spyOn(window, "location", "get").mockReturnValue({
+        pathname,
+        href: `https://anikototv.to${pathname}`,
+    } as Location);
+}
+
+/** Enabled settings that record on arrival unless a test says otherwise */
+const autoTrack = (overrides: object = {}) => ({
+    autoTrack: { ...DEFAULT_SETTINGS.autoTrack, enabled: true, trigger: "visit", dwellSeconds: 0, ...overrides },
+});
+
+function addVideo(duration: number): HTMLVideoElement {
+    const video = document.createElement("video");
+    Object.defineProperty(video, "duration", { value: duration });
+    document.body.appendChild(video);
+    return video;
+}
+
+function playTo(video: HTMLVideoElement, currentTime: number): void {
+    Object.defineProperty(video, "currentTime", { value: currentTime, configurable: true });
+    video.dispatchEvent(new Event("timeupdate"));
+}
+
+const prompt = () => document.querySelector<HTMLElement>('[data-testid="autotrack-prompt"]');
+const click = (testId: string) => document.querySelector<HTMLButtonElement>(`[data-testid="${testId}"]`)!.click();
+
+describe("Automatic episode tracking", () => {
+    beforeEach(() => {
+        resetSinglePageAnimeService();
+        window.sessionStorage.clear();
+        document.title = "Frieren Episode 5 - AnikotoTV";
+        settings.get.mockResolvedValue(autoTrack());
+        mockAnimeService.updateEpisodeProgress.mockResolvedValue({ success: true, message: "ok" });
+        mockAnimeService.startWatching.mockResolvedValue({ success: true, message: "ok" });
+        mockAnimeService.undoAutoEpisodeUpdate.mockResolvedValue({ success: true, message: "ok" });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe("initializeAutoTracking", () => {
+        it("should move tracked progress forward to the visited episode", async () => {
+            visit("/watch/frieren-abcde/ep-5");
+            mockAnimeService.getAnimeStatus.mockResolvedValue(trackedAt(3));
+
+            await initializeAutoTracking();
+
+            expect(mockAnimeService.updateEpisodeProgress).toHaveBeenCalledWith("frieren-abcde", 5, undefined, "auto");
+            expect(prompt()).toBeNull();
+        });
+
+        it("should do nothing while the setting is off", async () => {
+            visit("/watch/frieren-abcde/ep-5");
+            settings.get.mockResolvedValue(autoTrack({ enabled: false }));
+
+            await initializeAutoTracking();
+
+            expect(mockAnimeService.getAnimeStatus).not.toHaveBeenCalled();
+        });
+
+        it("should do nothing off watch pages", async () => {
+            visit("/recent");
+
+            await initializeAutoTracking();
+
+            expect(settings.get).not.toHaveBeenCalled();
+            expect(mockAnimeService.getAnimeStatus).not.toHaveBeenCalled();
+        });
+
+        it("should wait the dwell time before recording", async () => {
+            vi.useFakeTimers();
+            visit("/watch/frieren-abcde/ep-5");
+            settings.get.mockResolvedValue(autoTrack({ dwellSeconds: 30 }));
+            mockAnimeService.getAnimeStatus.mockResolvedValue(trackedAt(4));
+
+            const tracking = initializeAutoTracking();
+            await vi.advanceTimersByTimeAsync(29_000);
+            expect(mockAnimeService.getAnimeStatus).not.toHaveBeenCalled();
+
+            await vi.advanceTimersByTimeAsync(1_000);
+            await tracking;
+            expect(mockAnimeService.updateEpisodeProgress).toHaveBeenCalledWith("frieren-abcde", 5, undefined, "auto");
+        });
+
+        it("should skip recording when the user left the page during the dwell time", async () => {
+            vi.useFakeTimers();
+            visit("/watch/frieren-abcde/ep-5");
+            settings.get.mockResolvedValue(autoTrack({ dwellSeconds: 30 }));
+
+            const tracking = initializeAutoTracking();
+            await vi.advanceTimersByTimeAsync(10_000);
+            visit("/watch/frieren-abcde/ep-6");
+            await vi.advanceTimersByTimeAsync(20_000);
+            await tracking;
+
+            expect(mockAnimeService.getAnimeStatus).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("watchForEpisodeChanges", () => {
+        it("should track again when the site moves to another episode without a reload", async () => {
+            vi.useFakeTimers();
+            visit("/watch/frieren-abcde/ep-5");
+            mockAnimeService.getAnimeStatus.mockResolvedValue(trackedAt(4));
+
+            const stop = watchForEpisodeChanges();
+            await vi.advanceTimersByTimeAsync(0);
+            expect(mockAnimeService.updateEpisodeProgress).toHaveBeenCalledWith("frieren-abcde", 5, undefined, "auto");
+
+            mockAnimeService.getAnimeStatus.mockResolvedValue(trackedAt(5));
+            visit("/watch/frieren-abcde/ep-6");
+            await vi.advanceTimersByTimeAsync(2000);
+            stop();
+
+            expect(mockAnimeService.updateEpisodeProgress).toHaveBeenCalledWith("frieren-abcde", 6, undefined, "auto");
+            expect(mockAnimeService.updateEpisodeProgress).toHaveBeenCalledTimes(2);
+        });
+
+        it("should drop the wait for an episode the user moved on from", async () => {
+            vi.useFakeTimers();
+            visit("/watch/frieren-abcde/ep-5");
+            settings.get.mockResolvedValue(autoTrack({ dwellSeconds: 30 }));
+            mockAnimeService.getAnimeStatus.mockResolvedValue(trackedAt(4));
+
+            const stop = watchForEpisodeChanges();
+            await vi.advanceTimersByTimeAsync(10_000);
+            visit("/watch/frieren-abcde/ep-6");
+            await vi.advanceTimersByTimeAsync(2000);
+            visit("/watch/frieren-abcde/ep-5");
+            await vi.advanceTimersByTimeAsync(18_000);
+
+            // The first arm for episode 5 gave up; only the latest one, still waiting, may record
+            expect(mockAnimeService.getAnimeStatus).not.toHaveBeenCalled();
+            await vi.advanceTimersByTimeAsync(14_000);
+            stop();
+            expect(mockAnimeService.updateEpisodeProgress).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("playback detection", () => {
+        beforeEach(() => {
+            visit("/watch/frieren-abcde/ep-5");
+            settings.get.mockResolvedValue(autoTrack({ trigger: "playback" }));
+            mockAnimeService.getAnimeStatus.mockResolvedValue(trackedAt(4));
+        });
+
+        it("should record the episode once the video crosses the watched percentage", async () => {
+            const video = addVideo(1000);
+
+            const tracking = initializeAutoTracking();
+            await vi.waitFor(() => expect(settings.get).toHaveBeenCalled());
+            await Promise.resolve();
+
+            playTo(video, 500);
+            await Promise.resolve();
+            expect(mockAnimeService.getAnimeStatus).not.toHaveBeenCalled();
+
+            playTo(video, 860);
+            await tracking;
+            expect(mockAnimeService.updateEpisodeProgress).toHaveBeenCalledWith("frieren-abcde", 5, undefined, "auto");
+        });
+
+        it("should follow progress messages from an embedded player iframe", async () => {
+            const frame = document.createElement("iframe");
+            document.body.appendChild(frame);
+
+            const tracking = initializeAutoTracking();
+            await vi.waitFor(() => expect(settings.get).toHaveBeenCalled());
+            await Promise.resolve();
+
+            window.dispatchEvent(
+                new MessageEvent("message", {
+                    data: { event: "timeupdate", data: { seconds: 1400, duration: 1440 } },
+                    source: frame.contentWindow,
+                }),
+            );
+            await tracking;
+
+            expect(mockAnimeService.updateEpisodeProgress).toHaveBeenCalledWith("frieren-abcde", 5, undefined, "auto");
+        });
+
+        it("should ignore progress messages that do not come from a page iframe", async () => {
+            vi.useFakeTimers();
+            const tracking = initializeAutoTracking();
+            await vi.advanceTimersByTimeAsync(0);
+
+            window.dispatchEvent(new MessageEvent("message", { data: { currentTime: 1400, duration: 1440 } }));
+            await vi.advanceTimersByTimeAsync(0);
+            expect(mockAnimeService.getAnimeStatus).not.toHaveBeenCalled();
+
+            // Leaving the page ends the wait
+            visit("/watch/frieren-abcde/ep-6");
+            await vi.advanceTimersByTimeAsync(2000);
+            await tracking;
+            expect(mockAnimeService.updateEpisodeProgress).not.toHaveBeenCalled();
+        });
+
+        it("should fall back to the dwell time when the player never reports progress", async () => {
+            vi.useFakeTimers();
+            document.body.appendChild(document.createElement("iframe"));
+            settings.get.mockResolvedValue(autoTrack({ trigger: "playback", dwellSeconds: 90 }));
+
+            const tracking = initializeAutoTracking();
+            await vi.advanceTimersByTimeAsync(89_000);
+            expect(mockAnimeService.getAnimeStatus).not.toHaveBeenCalled();
+
+            await vi.advanceTimersByTimeAsync(1_000);
+            await tracking;
+            expect(mockAnimeService.updateEpisodeProgress).toHaveBeenCalledWith("frieren-abcde", 5, undefined, "auto");
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        it("should give a silent player at least a minute before falling back", async () => {
+            vi.useFakeTimers();
+
+            const tracking = initializeAutoTracking();
+            await vi.advanceTimersByTimeAsync(59_000);
+            expect(mockAnimeService.getAnimeStatus).not.toHaveBeenCalled();
+
+            await vi.advanceTimersByTimeAsync(1_000);
+            await tracking;
+            expect(mockAnimeService.updateEpisodeProgress).toHaveBeenCalled();
+        });
+
+        it("should keep following a video that has not reached the threshold", async () => {
+            vi.useFakeTimers();
+            addVideo(1000);
+
+            const tracking = initializeAutoTracking();
+            await vi.advanceTimersByTimeAsync(120_000);
+            expect(mockAnimeService.getAnimeStatus).not.toHaveBeenCalled();
+
+            visit("/watch/frieren-abcde/ep-6");
+            await vi.advanceTimersByTimeAsync(2000);
+            await tracking;
+            expect(mockAnimeService.updateEpisodeProgress).not.toHaveBeenCalled();
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        it("should offer an undo that takes the automatic update back", async () => {
+            vi.stubGlobal("vitest", undefined);
+            try {
+                await trackWatchedEpisode(animeData, 5);
+
+                const toast = document.querySelector('[data-testid="anime-toast"]');
+                expect(toast?.textContent).toContain('Marked episode 5 of "Frieren" as watched');
+
+                click("anime-toast-action");
+                await vi.waitFor(() =>
+                    expect(mockAnimeService.undoAutoEpisodeUpdate).toHaveBeenCalledWith("frieren-abcde", 5, 4),
+                );
+                // Undoing is not a manual change of its own
+                expect(mockAnimeService.updateEpisodeProgress).toHaveBeenCalledTimes(1);
+            } finally {
+                vi.unstubAllGlobals();
+            }
+        });
+    });
+
+    describe("hasReachedWatchedThreshold", () => {
+        const thresholds = { ...DEFAULT_SETTINGS.autoTrack, watchedPercent: 85, watchedRemainingSeconds: 120 };
+
+        it.each([
+            [{ currentTime: 850, duration: 1000 }, true],
+            [{ currentTime: 849, duration: 1000 }, false],
+            [{ currentTime: 1320, duration: 1440 }, true],
+            [{ currentTime: 1000, duration: 1440 }, false],
+            [{ currentTime: 60, duration: 100 }, false],
+            [{ currentTime: 0, duration: 1440 }, false],
+            [{ currentTime: 10, duration: NaN }, false],
+        ])("should judge %o as watched: %s", (progress, expected) => {
+            expect(hasReachedWatchedThreshold(progress, thresholds)).toBe(expected);
+        });
+    });
+
+    describe("trackWatchedEpisode", () => {
+        it("should leave progress alone when the episode is the current one", async () => {
+            mockAnimeService.getAnimeStatus.mockResolvedValue(trackedAt(5));
+
+            await trackWatchedEpisode(animeData, 5);
+
+            expect(mockAnimeService.updateEpisodeProgress).not.toHaveBeenCalled();
+            expect(prompt()).toBeNull();
+        });
+
+        it("should ask before moving progress backwards", async () => {
+            mockAnimeService.getAnimeStatus.mockResolvedValue(trackedAt(8));
+
+            await trackWatchedEpisode(animeData, 5);
+
+            expect(mockAnimeService.updateEpisodeProgress).not.toHaveBeenCalled();
+            expect(prompt()?.textContent).toContain('"Frieren" is at episode 8. Move it back to episode 5?');
+
+            click("autotrack-confirm");
+            await vi.waitFor(() =>
+                expect(mockAnimeService.updateEpisodeProgress).toHaveBeenCalledWith("frieren-abcde", 5),
+            );
+            expect(prompt()).toBeNull();
+        });
+
+        it("should keep progress when moving backwards is declined", async () => {
+            mockAnimeService.getAnimeStatus.mockResolvedValue(trackedAt(8));
+
+            await trackWatchedEpisode(animeData, 5);
+            click("autotrack-dismiss");
+
+            expect(prompt()).toBeNull();
+            expect(mockAnimeService.updateEpisodeProgress).not.toHaveBeenCalled();
+        });
+
+        it("should offer to start tracking an untracked anime from the visited episode", async () => {
+            mockAnimeService.getAnimeStatus.mockResolvedValue(untracked);
+
+            await trackWatchedEpisode(animeData, 5);
+
+            expect(prompt()?.textContent).toContain('Start tracking "Frieren" from episode 5?');
+            click("autotrack-confirm");
+            await vi.waitFor(() => expect(mockAnimeService.startWatching).toHaveBeenCalledWith(animeData, 5, "auto"));
+        });
+
+        it("should not offer tracking again in this tab once dismissed", async () => {
+            mockAnimeService.getAnimeStatus.mockResolvedValue(untracked);
+
+            await trackWatchedEpisode(animeData, 5);
+            click("autotrack-dismiss");
+            await trackWatchedEpisode(animeData, 6);
+
+            expect(prompt()).toBeNull();
+            expect(mockAnimeService.startWatching).not.toHaveBeenCalled();
+        });
+
+        it("should not offer tracking for hidden or finished anime", async () => {
+            mockAnimeService.getAnimeStatus.mockResolvedValue({ ...untracked, isHidden: true });
+            await trackWatchedEpisode(animeData, 5);
+            expect(prompt()).toBeNull();
+
+            mockAnimeService.getAnimeStatus.mockResolvedValue({ ...untracked, isCompleted: true });
+            await trackWatchedEpisode(animeData, 5);
+            expect(prompt()).toBeNull();
+        });
+    });
+
+    describe("showAutoTrackPrompt", () => {
+        it("should replace a prompt that is already showing", () => {
+            showAutoTrackPrompt("First?", "Yes", vi.fn());
+            showAutoTrackPrompt("Second?", "Yes", vi.fn());
+
+            const prompts = document.querySelectorAll('[data-testid="autotrack-prompt"]');
+            expect(prompts).toHaveLength(1);
+            expect(prompts[0].textContent).toContain("Second?");
+        });
+
+        it("should log a failing confirm action instead of throwing", async () => {
+            const onConfirm = vi.fn().mockRejectedValue(new Error("boom"));
+            showAutoTrackPrompt("Go?", "Yes", onConfirm);
+
+            click("autotrack-confirm");
+
+            await vi.waitFor(() =>
+                expect(console.error).toHaveBeenCalledWith("[AutoTrack] Prompt action failed:", expect.any(Error)),
+            );
+        });
+    });
+});
@@ -395,7 +395,7 @@ describe("Content Script Button Creation Functions", () => {
             // Wait for async operation
             await new Promise((resolve) => setTimeout(resolve, 10));
 
-            expect(mockAnimeService.hideAnime).toHaveBeenCalledWith("hide-click-test");
+            expect(mockAnimeService.hideAnime).toHaveBeenCalledWith(animeData);
         });
     });
 
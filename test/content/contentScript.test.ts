@@ -1,15 +1,20 @@
 // @vitest-environment jsdom
 
+import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
+import type { HideRule } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 // Mock the AnimeService before importing the main script
 const mockAnimeService = {
     getAnimeStatus: vi.fn(),
+    getAnimeStatuses: vi.fn(),
     addToPlanToWatch: vi.fn(),
     removeFromPlanToWatch: vi.fn(),
     startWatching: vi.fn(),
     updateEpisodeProgress: vi.fn(),
     updatePosterUrl: vi.fn(),
+    updateHiddenDetails: vi.fn(),
     stopWatching: vi.fn(),
     hideAnime: vi.fn(),
     unhideAnime: vi.fn(),
@@ -59,7 +64,7 @@ const ITEM_TWO_HTML = `
 `;
 
 describe("Content Script", () => {
-    beforeEach(() => {
+    beforeEach(async () => {
         // Clear document body and setup DOM structure
         document.body.innerHTML = `
             <div id="list-items">
@@ -83,6 +88,11 @@ describe("Content Script", () => {
 
         // Reset all mocks
         vi.clearAllMocks();
+
+        // Statuses come from the per-card lookup unless a test batches them
+        mockAnimeService.getAnimeStatuses.mockResolvedValue({});
+        const { clearStatusCache } = await import("@/content/index");
+        clearStatusCache();
     });
 
     afterEach(() => {
@@ -232,7 +242,9 @@ describe("Content Script", () => {
             hideButton.click();
             await new Promise((resolve) => setTimeout(resolve, 0));
 
-            expect(mockAnimeService.hideAnime).toHaveBeenCalledWith(expect.any(String));
+            expect(mockAnimeService.hideAnime).toHaveBeenCalledWith(
+                expect.objectContaining({ animeId: expect.any(String), animeTitle: expect.any(String) }),
+            );
         });
 
         it("should handle clear hidden button click", async () => {
@@ -480,6 +492,101 @@ describe("Content Script", () => {
         });
     });
 
+    describe("Batched Status Lookup", () => {
+        const idleStatus = { isTracked: false, isPlanned: false, isHidden: false };
+
+        it("should resolve every card's status with one batched request", async () => {
+            mockAnimeService.getAnimeStatuses.mockResolvedValue({
+                "test-anime-aaaaa": idleStatus,
+                "another-anime-bbbbb": { ...idleStatus, isPlanned: true },
+            });
+
+            const { initializeControls } = await import("@/content/index");
+            await initializeControls();
+
+            expect(mockAnimeService.getAnimeStatuses).toHaveBeenCalledTimes(1);
+            expect(mockAnimeService.getAnimeStatuses).toHaveBeenCalledWith(["test-anime-aaaaa", "another-anime-bbbbb"]);
+            expect(mockAnimeService.getAnimeStatus).not.toHaveBeenCalled();
+            expect(document.querySelectorAll(".anime-list-controls")).toHaveLength(2);
+            expect(document.querySelectorAll('[data-testid="anime-remove-plan-button"]')).toHaveLength(1);
+        });
+
+        it("should fall back to per-card lookups when the batch fails", async () => {
+            vi.spyOn(console, "warn").mockImplementation(() => {});
+            mockAnimeService.getAnimeStatuses.mockRejectedValue(new Error("background asleep"));
+            mockAnimeService.getAnimeStatus.mockResolvedValue(idleStatus);
+
+            const { initializeControls } = await import("@/content/index");
+            await initializeControls();
+
+            expect(mockAnimeService.getAnimeStatus).toHaveBeenCalledTimes(2);
+            expect(document.querySelectorAll(".anime-list-controls")).toHaveLength(2);
+        });
+
+        it("should only fetch statuses that are not cached yet", async () => {
+            mockAnimeService.getAnimeStatuses.mockResolvedValue({
+                "test-anime-aaaaa": idleStatus,
+                "another-anime-bbbbb": idleStatus,
+            });
+
+            const { initializeControls, invalidateStatusCache } = await import("@/content/index");
+            await initializeControls();
+            invalidateStatusCache({ "episodeProgress:another-anime-bbbbb": {} }, "local");
+            await initializeControls();
+
+            expect(mockAnimeService.getAnimeStatuses).toHaveBeenLastCalledWith(["another-anime-bbbbb"]);
+        });
+
+        it("should drop every cached status when an anime not on the page changes", async () => {
+            mockAnimeService.getAnimeStatuses.mockResolvedValue({
+                "test-anime-aaaaa": idleStatus,
+                "another-anime-bbbbb": idleStatus,
+            });
+
+            const { initializeControls, invalidateStatusCache } = await import("@/content/index");
+            await initializeControls();
+            invalidateStatusCache({ "planToWatch:merged-elsewhere-ccccc": {} }, "local");
+            await initializeControls();
+
+            expect(mockAnimeService.getAnimeStatuses).toHaveBeenLastCalledWith([
+                "test-anime-aaaaa",
+                "another-anime-bbbbb",
+            ]);
+        });
+
+        it("should drop every cached status when a single-key list changes", async () => {
+            mockAnimeService.getAnimeStatuses.mockResolvedValue({
+                "test-anime-aaaaa": idleStatus,
+                "another-anime-bbbbb": idleStatus,
+            });
+
+            const { initializeControls, invalidateStatusCache } = await import("@/content/index");
+            await initializeControls();
+            invalidateStatusCache({ hiddenAnime: {} }, "local");
+            await initializeControls();
+
+            expect(mockAnimeService.getAnimeStatuses).toHaveBeenCalledTimes(2);
+            expect(mockAnimeService.getAnimeStatuses).toHaveBeenLastCalledWith([
+                "test-anime-aaaaa",
+                "another-anime-bbbbb",
+            ]);
+        });
+
+        it("should ignore changes outside local storage", async () => {
+            mockAnimeService.getAnimeStatuses.mockResolvedValue({
+                "test-anime-aaaaa": idleStatus,
+                "another-anime-bbbbb": idleStatus,
+            });
+
+            const { initializeControls, invalidateStatusCache } = await import("@/content/index");
+            await initializeControls();
+            invalidateStatusCache({ hiddenAnime: {} }, "sync");
+            await initializeControls();
+
+            expect(mockAnimeService.getAnimeStatuses).toHaveBeenCalledTimes(1);
+        });
+    });
+
     describe("Poster Backfill", () => {
         function buildTrackedItem(slug: string, imgSrc?: string): HTMLElement {
             const item = document.createElement("div");
@@ -567,7 +674,54 @@ describe("Content Script", () => {
             expect(mockAnimeService.updatePosterUrl).not.toHaveBeenCalled();
         });
 
-        it("should serialize backfill writes so a second write only starts after the first resolves", async () => {
+        function hiddenStatus(animeId: string, hidden: object) {
+            return {
+                isTracked: false,
+                isPlanned: false,
+                isHidden: true,
+                hidden: {
+                    animeId,
+                    animeTitle: animeId,
+                    animeSlug: animeId,
+                    hiddenAt: new Date(0).toISOString(),
+                    ...hidden,
+                },
+            };
+        }
+
+        it("should fill in a hidden record that only knows the anime's id", async () => {
+            const slug = "migrated-hidden-iiiii";
+            const posterUrl = "https://cdn.anipixcdn.co/thumbnail/hidden.jpg";
+            const item = buildTrackedItem(slug, posterUrl);
+            mockAnimeService.getAnimeStatus.mockResolvedValue(hiddenStatus(slug, {}));
+            mockAnimeService.updateHiddenDetails.mockResolvedValue(undefined);
+
+            const { addControlsToItem } = await import("@/content/index");
+            await addControlsToItem(item);
+
+            expect(mockAnimeService.updateHiddenDetails).toHaveBeenCalledWith(
+                expect.objectContaining({ animeId: slug, animeTitle: "Tracked Anime", posterUrl }),
+            );
+            expect(item.style.display).toBe("none");
+        });
+
+        it("should leave a hidden record with a title and poster alone", async () => {
+            const slug = "complete-hidden-jjjjj";
+            const item = buildTrackedItem(slug, "https://cdn.anipixcdn.co/thumbnail/fresh.jpg");
+            mockAnimeService.getAnimeStatus.mockResolvedValue(
+                hiddenStatus(slug, {
+                    animeTitle: "Stored Title",
+                    posterUrl: "https://cdn.anipixcdn.co/thumbnail/stored.jpg",
+                }),
+            );
+
+            const { addControlsToItem } = await import("@/content/index");
+            await addControlsToItem(item);
+
+            expect(mockAnimeService.updateHiddenDetails).not.toHaveBeenCalled();
+        });
+
+        it("should send each backfill straight to the background without waiting for earlier ones", async () => {
             const firstSlug = "serial-first-ggggg";
             const secondSlug = "serial-second-hhhhh";
             const firstPoster = "https://cdn.anipixcdn.co/thumbnail/serial-first.jpg";
@@ -577,34 +731,175 @@ describe("Content Script", () => {
             mockAnimeService.getAnimeStatus.mockImplementation((animeId: string) =>
                 Promise.resolve(trackedStatus(animeId)),
             );
-
-            let resolveFirstBackfill!: () => void;
+            // The first write never settles; the worker, not the content script, orders them
             mockAnimeService.updatePosterUrl
-                .mockImplementationOnce(
-                    () =>
-                        new Promise<void>((resolve) => {
-                            resolveFirstBackfill = resolve;
-                        }),
-                )
+                .mockImplementationOnce(() => new Promise<void>(() => {}))
                 .mockResolvedValueOnce(undefined);
 
             const { addControlsToItem } = await import("@/content/index");
             await addControlsToItem(firstItem);
             await addControlsToItem(secondItem);
-            // Flush microtasks so the queued first backfill has started.
-            await Promise.resolve();
 
-            // The first write is in flight and unresolved — the second must
-            // not have started yet (no overlapping read-modify-write cycles).
-            expect(mockAnimeService.updatePosterUrl).toHaveBeenCalledTimes(1);
-            expect(mockAnimeService.updatePosterUrl).toHaveBeenCalledWith(firstSlug, firstPoster);
+            expect(mockAnimeService.updatePosterUrl).toHaveBeenCalledTimes(2);
+            expect(mockAnimeService.updatePosterUrl).toHaveBeenNthCalledWith(1, firstSlug, firstPoster);
+            expect(mockAnimeService.updatePosterUrl).toHaveBeenNthCalledWith(2, secondSlug, secondPoster);
+        });
+    });
 
-            resolveFirstBackfill();
-            await Promise.resolve();
-            await Promise.resolve();
+    describe("Hide Rules", () => {
+        const recapRule: HideRule = {
+            id: "rule-1",
+            kind: "keyword",
+            value: "Recap",
+            enabled: true,
+            createdAt: "2025-07-20T10:00:00.000Z",
+        };
 
-            expect(mockAnimeService.updatePosterUrl).toHaveBeenCalledTimes(2);
-            expect(mockAnimeService.updatePosterUrl).toHaveBeenLastCalledWith(secondSlug, secondPoster);
+        function buildItem(slug: string, title: string): HTMLElement {
+            const item = document.createElement("div");
+            item.className = "item";
+            item.innerHTML = `
+                <div class="inner">
+                    <div class="ani poster"><a href="/watch/${slug}/ep-1"><img alt="${title}"></a></div>
+                    <div class="info">
+                        <div class="b1">
+                            <a class="name d-title" href="/watch/${slug}/ep-1">${title}</a>
+                        </div>
+                    </div>
+                </div>
+            `;
+            document.querySelector("#list-items")?.appendChild(item);
+            return item;
+        }
+
+        beforeEach(async () => {
+            vi.mocked(StorageAdapter.get).mockImplementation(async (key: string) =>
+                key === StorageKeys.HIDE_RULES ? [recapRule] : null,
+            );
+            const { invalidateHideRules } = await import("@/content/index");
+            invalidateHideRules({ [StorageKeys.HIDE_RULES]: {} }, "local");
+        });
+
+        afterEach(async () => {
+            vi.mocked(StorageAdapter.get).mockResolvedValue(null);
+            const { invalidateHideRules } = await import("@/content/index");
+            invalidateHideRules({ [StorageKeys.HIDE_RULES]: {} }, "local");
+        });
+
+        it("should collapse a matching tile and name the rule instead of adding controls", async () => {
+            const item = buildItem("show-recap-iiiii", "Show Recap Special");
+            mockAnimeService.getAnimeStatus.mockResolvedValue({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: false,
+            });
+
+            const { addControlsToItem } = await import("@/content/index");
+            await addControlsToItem(item);
+
+            expect(item.classList.contains("anime-rule-hidden")).toBe(true);
+            expect(item.querySelector('[data-testid="anime-rule-notice"]')?.textContent).toContain(
+                'Hidden by rule "Recap"',
+            );
+            expect(item.querySelector('[data-testid="anime-controls"]')).toBeNull();
+            expect(mockAnimeService.hideAnime).not.toHaveBeenCalled();
+        });
+
+        it("should show the tile with its controls once revealed", async () => {
+            const item = buildItem("show-recap-jjjjj", "Show Recap Special");
+            mockAnimeService.getAnimeStatus.mockResolvedValue({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: false,
+            });
+
+            const { addControlsToItem } = await import("@/content/index");
+            await addControlsToItem(item);
+            item.querySelector<HTMLButtonElement>('[data-testid="anime-rule-reveal"]')?.click();
+
+            await vi.waitFor(() => {
+                expect(item.querySelector('[data-testid="anime-controls"]')).toBeTruthy();
+            });
+            expect(item.classList.contains("anime-rule-hidden")).toBe(false);
+            expect(item.querySelector('[data-testid="anime-rule-notice"]')).toBeNull();
+        });
+
+        it("should leave anime on a list alone even when a rule matches", async () => {
+            const item = buildItem("tracked-recap-kkkkk", "Tracked Recap");
+            mockAnimeService.getAnimeStatus.mockResolvedValue({
+                isTracked: false,
+                isPlanned: true,
+                isHidden: false,
+            });
+
+            const { addControlsToItem } = await import("@/content/index");
+            await addControlsToItem(item);
+
+            expect(item.classList.contains("anime-rule-hidden")).toBe(false);
+            expect(item.querySelector('[data-testid="anime-controls"]')).toBeTruthy();
+        });
+
+        it("should ignore disabled rules", async () => {
+            vi.mocked(StorageAdapter.get).mockImplementation(async (key: string) =>
+                key === StorageKeys.HIDE_RULES ? [{ ...recapRule, enabled: false }] : null,
+            );
+            const item = buildItem("show-recap-lllll", "Show Recap Special");
+            mockAnimeService.getAnimeStatus.mockResolvedValue({
+                isTracked: false,
+                isPlanned: false,
+                isHidden: false,
+            });
+
+            const { addControlsToItem, invalidateHideRules } = await import("@/content/index");
+            invalidateHideRules({ [StorageKeys.HIDE_RULES]: {} }, "local");
+            await addControlsToItem(item);
+
+            expect(item.classList.contains("anime-rule-hidden")).toBe(false);
+            expect(item.querySelector('[data-testid="anime-controls"]')).toBeTruthy();
+        });
+
+        it.each([
+            ["removed", []],
+            ["disabled", [{ ...recapRule, enabled: false }]],
+        ])("should restore a collapsed tile once its rule is %s", async (_change, rules) => {
+            const item = buildItem("show-recap-mmmmm", "Show Recap Special");
+            mockAnimeService.getAnimeStatus.mockResolvedValue({ isTracked: false, isPlanned: false, isHidden: false });
+
+            const { addControlsToItem, invalidateHideRules } = await import("@/content/index");
+            await addControlsToItem(item);
+            vi.mocked(StorageAdapter.get).mockImplementation(async (key: string) =>
+                key === StorageKeys.HIDE_RULES ? rules : null,
+            );
+            invalidateHideRules({ [StorageKeys.HIDE_RULES]: {} }, "local");
+
+            await vi.waitFor(() => {
+                expect(item.querySelector('[data-testid="anime-controls"]')).toBeTruthy();
+            });
+            expect(item.classList.contains("anime-rule-hidden")).toBe(false);
+            expect(item.querySelector('[data-testid="anime-rule-notice"]')).toBeNull();
+        });
+
+        it("should collapse a clean tile once a matching rule is added", async () => {
+            vi.mocked(StorageAdapter.get).mockResolvedValue(null);
+            const { addControlsToItem, invalidateHideRules } = await import("@/content/index");
+            invalidateHideRules({ [StorageKeys.HIDE_RULES]: {} }, "local");
+            const item = buildItem("show-recap-nnnnn", "Show Recap Special");
+            const other = buildItem("other-show-ooooo", "Other Show");
+            mockAnimeService.getAnimeStatus.mockResolvedValue({ isTracked: false, isPlanned: false, isHidden: false });
+            await addControlsToItem(item);
+            await addControlsToItem(other);
+            const otherControls = other.querySelector('[data-testid="anime-controls"]');
+
+            vi.mocked(StorageAdapter.get).mockImplementation(async (key: string) =>
+                key === StorageKeys.HIDE_RULES ? [recapRule] : null,
+            );
+            invalidateHideRules({ [StorageKeys.HIDE_RULES]: {} }, "local");
+
+            await vi.waitFor(() => {
+                expect(item.classList.contains("anime-rule-hidden")).toBe(true);
+            });
+            expect(item.querySelector('[data-testid="anime-controls"]')).toBeNull();
+            expect(other.querySelector('[data-testid="anime-controls"]')).toBe(otherControls);
         });
     });
 
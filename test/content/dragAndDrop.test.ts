@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 import { StorageKeys } from "../../src/commons/models";
 import { StorageAdapter } from "../../src/commons/adapters/StorageAdapter";
 import {
+    addControlsToItems,
     clearTileOrder,
     createDragToolbar,
     disableDragMode,
@@ -28,13 +29,22 @@ vi.mock("../../src/commons/adapters/StorageAdapter", () => ({
 }));
 
 const mockGet = StorageAdapter.get as ReturnType<typeof vi.fn>;
-const mockSet = StorageAdapter.set as ReturnType<typeof vi.fn>;
-const mockRemove = StorageAdapter.remove as ReturnType<typeof vi.fn>;
+
+/** Stands in for the background worker, which now writes the tile and folder order */
+const mockSendMessage = vi.fn();
+
+function answerWith(result: unknown): void {
+    mockSendMessage.mockImplementation((_message: unknown, callback: (response: unknown) => void) =>
+        callback({ ok: true, result }),
+    );
+}
 
 describe("Drag and Drop Tile Reordering", () => {
     beforeEach(() => {
         document.body.innerHTML = "";
         vi.clearAllMocks();
+        (chrome.runtime as any).sendMessage = mockSendMessage;
+        answerWith({ success: true, message: "Saved" });
     });
 
     describe("Storage Operations", () => {
@@ -67,50 +77,41 @@ describe("Drag and Drop Tile Reordering", () => {
             expect(result).toBeNull();
         });
 
-        it("should save tile order to storage", async () => {
-            mockSet.mockResolvedValue(undefined);
+        it("should send the tile order to the background worker", async () => {
             const animeIds = ["123", "456", "789"];
 
             await saveTileOrder(animeIds);
 
-            expect(mockSet).toHaveBeenCalledWith(
-                StorageKeys.TILE_ORDER,
-                expect.objectContaining({
-                    animeIds,
-                    lastUpdated: expect.any(String),
-                }),
-            );
+            expect(mockSendMessage).toHaveBeenCalledWith({ type: "SAVE_TILE_ORDER", animeIds }, expect.any(Function));
         });
 
-        it("should handle storage errors when saving", async () => {
+        it("should log a failed save", async () => {
             const consoleErrorSpy = vi.spyOn(console, "error");
-            mockSet.mockRejectedValue(new Error("Storage error"));
+            answerWith({ success: false, message: "Failed to save tile order", error: "Storage error" });
 
             // Should not throw
             await saveTileOrder(["123"]);
 
             // Should log the error
-            expect(consoleErrorSpy).toHaveBeenCalledWith("Error saving tile order:", expect.any(Error));
+            expect(consoleErrorSpy).toHaveBeenCalledWith("Error saving tile order:", "Storage error");
             consoleErrorSpy.mockRestore();
         });
 
-        it("should clear tile order from storage", async () => {
-            mockRemove.mockResolvedValue(undefined);
-
+        it("should ask the background worker to clear the tile order", async () => {
             await clearTileOrder();
 
-            expect(mockRemove).toHaveBeenCalledWith(StorageKeys.TILE_ORDER);
+            expect(mockSendMessage).toHaveBeenCalledWith({ type: "CLEAR_TILE_ORDER" }, expect.any(Function));
         });
 
-        it("should handle storage errors when clearing", async () => {
+        it("should log a failed clear", async () => {
             const consoleErrorSpy = vi.spyOn(console, "error");
-            mockRemove.mockRejectedValue(new Error("Storage error"));
+            answerWith({ success: false, message: "Failed to reset tile order", error: "Storage error" });
 
             // Should not throw
             await clearTileOrder();
 
             // Should log the error
-            expect(consoleErrorSpy).toHaveBeenCalledWith("Error clearing tile order:", expect.any(Error));
+            expect(consoleErrorSpy).toHaveBeenCalledWith("Error clearing tile order:", "Storage error");
             consoleErrorSpy.mockRestore();
         });
     });
@@ -206,6 +207,18 @@ describe("Drag and Drop Tile Reordering", () => {
             expect(item?.getAttribute("draggable")).toBe("true");
         });
 
+        it("should make tiles loaded while drag mode is on draggable", async () => {
+            enableDragMode();
+            const item = document.createElement("div");
+            item.className = "item";
+            item.innerHTML = `<div class="b1"><a class="name d-title" href="/watch/anime-twoxx/ep-1">Later</a></div>`;
+            document.querySelector("#list-items")?.appendChild(item);
+
+            await addControlsToItems([item]);
+
+            expect(item.getAttribute("draggable")).toBe("true");
+        });
+
         it("should update toolbar UI when enabled", () => {
             enableDragMode();
 
@@ -312,7 +325,6 @@ describe("Drag and Drop Tile Reordering", () => {
 
         it("should handle drop event on different element", async () => {
             vi.useFakeTimers();
-            mockSet.mockResolvedValue(undefined);
 
             const item1 = document.querySelector("#item1") as HTMLElement;
             const item2 = document.querySelector("#item2") as HTMLElement;
@@ -327,7 +339,7 @@ describe("Drag and Drop Tile Reordering", () => {
             // Advance timers to trigger debounced save
             await vi.advanceTimersByTimeAsync(600);
 
-            expect(mockSet).toHaveBeenCalled();
+            expect(mockSendMessage).toHaveBeenCalled();
             vi.useRealTimers();
         });
 
@@ -453,7 +465,6 @@ describe("Drag and Drop Tile Reordering", () => {
     describe("Reset Order", () => {
         it("should clear storage and reload page", async () => {
             vi.useFakeTimers();
-            mockRemove.mockResolvedValue(undefined);
 
             // Mock window.location.reload
             const reloadMock = vi.fn();
@@ -464,7 +475,7 @@ describe("Drag and Drop Tile Reordering", () => {
 
             await resetTileOrder();
 
-            expect(mockRemove).toHaveBeenCalledWith(StorageKeys.TILE_ORDER);
+            expect(mockSendMessage).toHaveBeenCalledWith({ type: "CLEAR_TILE_ORDER" }, expect.any(Function));
 
             // Advance timers to trigger reload
             await vi.advanceTimersByTimeAsync(500);
@@ -571,7 +582,6 @@ describe("Drag and Drop Tile Reordering", () => {
 
         it("should move selected tile with ArrowDown", async () => {
             vi.useFakeTimers();
-            mockSet.mockResolvedValue(undefined);
 
             const item1 = document.querySelector("#item1") as HTMLElement;
 
@@ -645,7 +655,6 @@ describe("Drag and Drop Tile Reordering", () => {
 
         it("should debounce multiple rapid drops", async () => {
             vi.useFakeTimers();
-            mockSet.mockResolvedValue(undefined);
 
             const item1 = document.querySelector("#item1") as HTMLElement;
             const item2 = document.querySelector("#item2") as HTMLElement;
@@ -662,7 +671,7 @@ describe("Drag and Drop Tile Reordering", () => {
             await vi.advanceTimersByTimeAsync(600);
 
             // Should have been called (debounced)
-            expect(mockSet).toHaveBeenCalled();
+            expect(mockSendMessage).toHaveBeenCalled();
 
             vi.useRealTimers();
         });
@@ -693,7 +702,6 @@ describe("Drag and Drop Tile Reordering", () => {
 
         it("should move selected tile to another position with Enter", async () => {
             vi.useFakeTimers();
-            mockSet.mockResolvedValue(undefined);
 
             const item1 = document.querySelector("#item1") as HTMLElement;
             const item3 = document.querySelector("#item3") as HTMLElement;
@@ -736,7 +744,6 @@ describe("Drag and Drop Tile Reordering", () => {
 
         it("should move selected tile up with ArrowUp", async () => {
             vi.useFakeTimers();
-            mockSet.mockResolvedValue(undefined);
 
             const item2 = document.querySelector("#item2") as HTMLElement;
 
@@ -774,7 +781,6 @@ describe("Drag and Drop Tile Reordering", () => {
 
         it("should handle horizontal layout drop (before position)", async () => {
             vi.useFakeTimers();
-            mockSet.mockResolvedValue(undefined);
 
             const item1 = document.querySelector("#item1") as HTMLElement;
             const item2 = document.querySelector("#item2") as HTMLElement;
@@ -805,14 +811,13 @@ describe("Drag and Drop Tile Reordering", () => {
             item2.dispatchEvent(dropEvent);
 
             await vi.advanceTimersByTimeAsync(600);
-            expect(mockSet).toHaveBeenCalled();
+            expect(mockSendMessage).toHaveBeenCalled();
 
             vi.useRealTimers();
         });
 
         it("should handle horizontal layout drop (after position)", async () => {
             vi.useFakeTimers();
-            mockSet.mockResolvedValue(undefined);
 
             const item1 = document.querySelector("#item1") as HTMLElement;
             const item2 = document.querySelector("#item2") as HTMLElement;
@@ -843,7 +848,7 @@ describe("Drag and Drop Tile Reordering", () => {
             item2.dispatchEvent(dropEvent);
 
             await vi.advanceTimersByTimeAsync(600);
-            expect(mockSet).toHaveBeenCalled();
+            expect(mockSendMessage).toHaveBeenCalled();
 
             vi.useRealTimers();
         });
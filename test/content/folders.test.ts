@@ -1,6 +1,9 @@
 // @vitest-environment jsdom
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
+// Folder saves go through the background worker
+const mockSaveFolderOrder = vi.hoisted(() => vi.fn());
+
 // Mock chrome API before importing module
 vi.mock("@/commons/services", () => ({
     AnimeService: vi.fn().mockImplementation(() => ({
@@ -18,6 +21,7 @@ vi.mock("@/commons/services", () => ({
         unhideAnime: vi.fn().mockResolvedValue({ success: true }),
         updateEpisodeProgress: vi.fn().mockResolvedValue({ success: true }),
         clearAllHidden: vi.fn().mockResolvedValue({ success: true, message: "Cleared" }),
+        saveFolderOrder: (...args: unknown[]) => mockSaveFolderOrder(...args),
     })),
 }));
 
@@ -37,6 +41,11 @@ vi.mock("@/commons/adapters/StorageAdapter", () => ({
     },
 }));
 
+mockSaveFolderOrder.mockImplementation((folderOrder: unknown) => {
+    mockStorage.folderOrder = folderOrder;
+    return Promise.resolve({ success: true, message: "Saved folders" });
+});
+
 // Import after mocks
 import {
     createFolderElement,
@@ -52,7 +61,6 @@ import {
     restoreFolderOrder,
 } from "@/content/index";
 import type { Folder, FolderOrder } from "@/commons/models";
-import { StorageAdapter } from "@/commons/adapters/StorageAdapter";
 
 describe("Folder Functionality", () => {
     beforeEach(() => {
@@ -247,10 +255,12 @@ describe("Folder Functionality", () => {
 
             await saveFolderOrder(folderOrder);
 
-            expect(StorageAdapter.set).toHaveBeenCalledWith("folderOrder", expect.objectContaining({
-                folders: folderOrder.folders,
-                rootItems: folderOrder.rootItems,
-            }));
+            expect(mockSaveFolderOrder).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    folders: folderOrder.folders,
+                    rootItems: folderOrder.rootItems,
+                }),
+            );
         });
 
         it("should update lastUpdated timestamp", async () => {
@@ -263,8 +273,7 @@ describe("Folder Functionality", () => {
 
             await saveFolderOrder(folderOrder);
 
-            expect(StorageAdapter.set).toHaveBeenCalledWith(
-                "folderOrder",
+            expect(mockSaveFolderOrder).toHaveBeenCalledWith(
                 expect.objectContaining({
                     lastUpdated: expect.any(String),
                 }),
@@ -293,12 +302,9 @@ describe("Folder Functionality", () => {
         it("should save folder to storage", async () => {
             await createFolder();
 
-            expect(StorageAdapter.set).toHaveBeenCalledWith(
-                "folderOrder",
+            expect(mockSaveFolderOrder).toHaveBeenCalledWith(
                 expect.objectContaining({
-                    folders: expect.arrayContaining([
-                        expect.objectContaining({ name: "New Folder" }),
-                    ]),
+                    folders: expect.arrayContaining([expect.objectContaining({ name: "New Folder" })]),
                 }),
             );
         });
@@ -315,12 +321,9 @@ describe("Folder Functionality", () => {
 
             await renameFolder("folder-1", "New Name");
 
-            expect(StorageAdapter.set).toHaveBeenCalledWith(
-                "folderOrder",
+            expect(mockSaveFolderOrder).toHaveBeenCalledWith(
                 expect.objectContaining({
-                    folders: expect.arrayContaining([
-                        expect.objectContaining({ id: "folder-1", name: "New Name" }),
-                    ]),
+                    folders: expect.arrayContaining([expect.objectContaining({ id: "folder-1", name: "New Name" })]),
                 }),
             );
         });
@@ -335,7 +338,7 @@ describe("Folder Functionality", () => {
 
             await renameFolder("folder-1", "Same Name");
 
-            expect(StorageAdapter.set).not.toHaveBeenCalled();
+            expect(mockSaveFolderOrder).not.toHaveBeenCalled();
         });
 
         it("should update aria-label on folder element", async () => {
@@ -370,8 +373,7 @@ describe("Folder Functionality", () => {
 
             await changeFolderColor("folder-1", "#FF6B6B");
 
-            expect(StorageAdapter.set).toHaveBeenCalledWith(
-                "folderOrder",
+            expect(mockSaveFolderOrder).toHaveBeenCalledWith(
                 expect.objectContaining({
                     folders: expect.arrayContaining([
                         expect.objectContaining({ id: "folder-1", borderColor: "#FF6B6B" }),
@@ -411,8 +413,7 @@ describe("Folder Functionality", () => {
 
             await deleteFolder("folder-1");
 
-            expect(StorageAdapter.set).toHaveBeenCalledWith(
-                "folderOrder",
+            expect(mockSaveFolderOrder).toHaveBeenCalledWith(
                 expect.objectContaining({
                     folders: [],
                     rootItems: ["anime-1", "anime-2"], // Items moved to root
@@ -474,7 +475,8 @@ describe("Folder Functionality", () => {
             const folderEl = document.createElement("div");
             folderEl.className = "anime-folder";
             folderEl.setAttribute("data-folder-id", "folder-empty");
-            folderEl.innerHTML = '<div class="anime-folder-content"><div class="folder-empty-placeholder" style="display: none;">Drop here</div></div>';
+            folderEl.innerHTML =
+                '<div class="anime-folder-content"><div class="folder-empty-placeholder" style="display: none;">Drop here</div></div>';
             container?.appendChild(folderEl);
 
             updateFolderEmptyState("folder-empty");
@@ -488,7 +490,8 @@ describe("Folder Functionality", () => {
             const folderEl = document.createElement("div");
             folderEl.className = "anime-folder";
             folderEl.setAttribute("data-folder-id", "folder-empty-class");
-            folderEl.innerHTML = '<div class="anime-folder-content"><div class="folder-empty-placeholder">Drop here</div></div>';
+            folderEl.innerHTML =
+                '<div class="anime-folder-content"><div class="folder-empty-placeholder">Drop here</div></div>';
             container?.appendChild(folderEl);
 
             updateFolderEmptyState("folder-empty-class");
@@ -535,7 +538,6 @@ describe("Folder Functionality", () => {
             const content = folderEl.querySelector(".anime-folder-content");
             expect(content?.classList.contains("empty-state")).toBe(false);
         });
-
     });
 
     describe("makeFolderDraggable / removeFolderDraggable", () => {
@@ -658,7 +660,7 @@ describe("Folder Functionality", () => {
             // Wait for async operations
             await new Promise((resolve) => setTimeout(resolve, 0));
 
-            expect(StorageAdapter.set).toHaveBeenCalled();
+            expect(mockSaveFolderOrder).toHaveBeenCalled();
         });
 
         it("should handle enter key press to blur name input", () => {
@@ -704,7 +706,7 @@ describe("Folder Functionality", () => {
             // Wait for async
             await new Promise((resolve) => setTimeout(resolve, 0));
 
-            expect(StorageAdapter.set).toHaveBeenCalled();
+            expect(mockSaveFolderOrder).toHaveBeenCalled();
         });
 
         it("should handle color button click to show color picker", () => {
@@ -784,7 +786,7 @@ describe("Folder Functionality", () => {
 
             await new Promise((resolve) => setTimeout(resolve, 0));
 
-            expect(StorageAdapter.set).toHaveBeenCalled();
+            expect(mockSaveFolderOrder).toHaveBeenCalled();
 
             // Clean up
             document.body.removeChild(element);
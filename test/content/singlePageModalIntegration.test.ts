@@ -11,7 +11,17 @@ vi.mock("@/commons/services", () => {
         hideAnime: vi.fn(),
         unhideAnime: vi.fn(),
         updateEpisodeProgress: vi.fn(),
+        completeAnime: vi.fn(),
+        putOnHold: vi.fn(),
+        dropAnime: vi.fn(),
+        resumeWatching: vi.fn(),
         clearAllHidden: vi.fn(),
+        getCustomLists: vi.fn(async () => []),
+        addToCustomList: vi.fn(),
+        removeFromCustomList: vi.fn(),
+        getUserData: vi.fn(async () => ({})),
+        updateUserData: vi.fn(),
+        getAnimeDetails: vi.fn(),
     };
 
     return {
@@ -261,15 +271,14 @@ describe("Single Page Modal Integration", () => {
 
                     // The modal should be closed after the action
                     // Check that the modal element is no longer visible
-                    setTimeout(() => {
-                        const visibleModal = document.querySelector(
-                            '[style*="position: fixed"][style*="z-index: 10000"][style*="opacity: 1"]',
-                        );
-                        // The modal should either be removed or have opacity 0
-                        if (visibleModal) {
-                            expect(visibleModal.getAttribute("style")).toContain("opacity: 0");
-                        }
-                    }, 350);
+                    await new Promise((resolve) => setTimeout(resolve, 350));
+                    const visibleModal = document.querySelector(
+                        '[style*="position: fixed"][style*="z-index: 10000"][style*="opacity: 1"]',
+                    );
+                    // The modal should either be removed or have opacity 0
+                    if (visibleModal) {
+                        expect(visibleModal.getAttribute("style")).toContain("opacity: 0");
+                    }
                 }
             }
         });
@@ -362,9 +371,9 @@ describe("Single Page Modal Integration", () => {
             };
 
             const actions = getSinglePageModalActions(mockStatus);
-            expect(actions).toHaveLength(2);
+            expect(actions).toHaveLength(5);
             expect(actions[0].type).toBe("episodeControls");
-            expect(actions[1].type).toBe("stopWatching");
+            expect(actions[4].type).toBe("stopWatching");
         });
 
         it("should test initializeSinglePage function", () => {
@@ -391,6 +400,18 @@ describe("Single Page Modal Integration", () => {
             const basicTrackedStatus = { isHidden: false, isTracked: true, isPlanned: false, progress: undefined };
             const basicStatusText = getSinglePageStatusText(basicTrackedStatus);
             expect(basicStatusText).toBe("Currently watching");
+
+            const completedStatus = { isHidden: false, isTracked: false, isPlanned: false, isCompleted: true };
+            expect(getSinglePageStatusText(completedStatus)).toBe("Completed");
+
+            const onHoldStatus = {
+                isHidden: false,
+                isTracked: false,
+                isPlanned: false,
+                isOnHold: true,
+                onHold: { animeId: "a", animeTitle: "A", animeSlug: "a", currentEpisode: 4, pausedAt: "" },
+            };
+            expect(getSinglePageStatusText(onHoldStatus as any)).toBe("On hold - Episode 4");
         });
 
         it("should return correct modal actions for different states", () => {
@@ -523,9 +544,31 @@ describe("Single Page Modal Integration", () => {
             const trackedActions = getSinglePageModalActions(trackedStatus);
             expect(trackedActions).toEqual([
                 { type: "episodeControls", label: "Episode Controls", style: "primary" },
+                { type: "complete", label: "Mark as Completed", style: "success" },
+                { type: "putOnHold", label: "Put on Hold", style: "warning" },
+                { type: "drop", label: "Drop", style: "danger" },
                 { type: "stopWatching", label: "Stop Watching", style: "danger" },
             ]);
 
+            // Test on-hold status actions
+            const onHoldStatus = { isHidden: false, isTracked: false, isPlanned: false, isOnHold: true };
+            expect(getSinglePageModalActions(onHoldStatus).map((a) => a.type)).toEqual([
+                "resume",
+                "complete",
+                "drop",
+                "removeOnHold",
+            ]);
+
+            // Test dropped status actions
+            const droppedStatus = { isHidden: false, isTracked: false, isPlanned: false, isDropped: true };
+            expect(getSinglePageModalActions(droppedStatus).map((a) => a.type)).toEqual(["resume", "removeDropped"]);
+
+            // Test completed status actions
+            const completedStatus = { isHidden: false, isTracked: false, isPlanned: false, isCompleted: true };
+            expect(getSinglePageModalActions(completedStatus)).toEqual([
+                { type: "removeCompleted", label: "Remove from Completed", style: "warning" },
+            ]);
+
             // Test not tracked status actions
             const notTrackedStatus = { isHidden: false, isTracked: false, isPlanned: false, progress: undefined };
             const notTrackedActions = getSinglePageModalActions(notTrackedStatus);
@@ -594,6 +637,69 @@ describe("Single Page Modal Integration", () => {
             expect(mockAnimeService.getAnimeStatus).toHaveBeenCalledTimes(2);
         });
 
+        it.each([
+            ["Mark as Completed", "completeAnime"],
+            ["Put on Hold", "putOnHold"],
+            ["Drop", "dropAnime"],
+        ])("should show why '%s' was refused and keep the modal open", async (label, method) => {
+            vi.stubGlobal("vitest", undefined);
+            try {
+                mockAnimeService[method].mockResolvedValue({ success: false, message: "Refused by the worker" });
+                const animeData = { animeId: "refused-test", animeTitle: "Refused", animeSlug: "refused-test" };
+                const progress = {
+                    ...animeData,
+                    currentEpisode: 3,
+                    episodeId: "ep-3",
+                    lastWatched: "2025-01-01T00:00:00.000Z",
+                };
+                showSinglePageModal(animeData, { isTracked: true, isPlanned: false, isHidden: false, progress });
+
+                const button = Array.from(document.querySelectorAll("button")).find(
+                    (candidate) => candidate.textContent?.trim() === label,
+                );
+                button!.click();
+
+                await vi.waitFor(() =>
+                    expect(document.querySelector('[data-testid="anime-toast"]')?.textContent).toContain(
+                        "Refused by the worker",
+                    ),
+                );
+                expect(mockAnimeService[method]).toHaveBeenCalledWith("refused-test");
+                const modal = document.querySelector<HTMLElement>(
+                    '[style*="position: fixed"][style*="z-index: 10000"]',
+                );
+                expect(modal?.style.opacity).not.toBe("0");
+            } finally {
+                vi.unstubAllGlobals();
+            }
+        });
+
+        it("should resume from the modal and report it", async () => {
+            vi.stubGlobal("vitest", undefined);
+            try {
+                mockAnimeService.resumeWatching.mockResolvedValue({ success: true, message: "Resumed" });
+                const animeData = { animeId: "resume-test", animeTitle: "Resume", animeSlug: "resume-test" };
+                showSinglePageModal(animeData, {
+                    isTracked: false,
+                    isPlanned: false,
+                    isHidden: false,
+                    isDropped: true,
+                });
+
+                Array.from(document.querySelectorAll("button"))
+                    .find((candidate) => candidate.textContent?.trim() === "Resume Watching")!
+                    .click();
+
+                await vi.waitFor(() =>
+                    expect(document.querySelector('[data-testid="anime-toast"]')?.textContent).toContain(
+                        "Resumed watching",
+                    ),
+                );
+            } finally {
+                vi.unstubAllGlobals();
+            }
+        });
+
         it("should handle service errors gracefully", async () => {
             const animeData = {
                 animeId: "error-test",
@@ -802,6 +908,137 @@ describe("Single Page Modal Integration", () => {
         });
     });
 
+    describe("Custom Lists", () => {
+        const animeData = { animeId: "lists-test", animeTitle: "Lists Test Anime", animeSlug: "lists-test-anime" };
+        const idleStatus = { isTracked: false, isPlanned: false, isHidden: false };
+        const lists = [
+            { id: "list-1", name: "Rewatch", entries: [], createdAt: "", updatedAt: "" },
+            {
+                id: "list-2",
+                name: "Seasonal 2026",
+                entries: [{ ...animeData, addedAt: "" }],
+                createdAt: "",
+                updatedAt: "",
+            },
+        ];
+
+        const checkboxes = () => Array.from(document.querySelectorAll<HTMLInputElement>(".modal-custom-list-checkbox"));
+
+        it("should tick the lists the anime is already on", () => {
+            showSinglePageModal(animeData, idleStatus, lists);
+
+            expect(checkboxes().map((checkbox) => [checkbox.dataset.listId, checkbox.checked])).toEqual([
+                ["list-1", false],
+                ["list-2", true],
+            ]);
+        });
+
+        it("should tick lists holding the canonical id when the page uses a merged alias", () => {
+            const aliasData = { ...animeData, animeId: "lists-test-alias" };
+
+            showSinglePageModal(aliasData, idleStatus, lists, undefined, "lists-test");
+
+            expect(checkboxes().map((checkbox) => checkbox.checked)).toEqual([false, true]);
+        });
+
+        it("should resolve the canonical id before opening the modal from the info button", async () => {
+            mockAnimeService.getCustomLists.mockResolvedValue(lists);
+            mockAnimeService.getAnimeDetails.mockResolvedValue({ animeId: "lists-test" });
+            createSinglePageInfoButton({ ...animeData, animeId: "lists-test-alias" });
+
+            document.getElementById("anime-list-info-button")?.click();
+            await vi.waitFor(() => expect(checkboxes()).toHaveLength(2));
+
+            expect(mockAnimeService.getAnimeDetails).toHaveBeenCalledWith("lists-test-alias");
+            expect(checkboxes().map((checkbox) => checkbox.checked)).toEqual([false, true]);
+        });
+
+        it("should leave the lists section out when the user has no lists", () => {
+            showSinglePageModal(animeData, idleStatus);
+
+            expect(document.querySelector(".modal-custom-lists")).toBeNull();
+        });
+
+        it("should add the anime to a list when its box is ticked", async () => {
+            mockAnimeService.addToCustomList.mockResolvedValue({ success: true, message: "Added" });
+            showSinglePageModal(animeData, idleStatus, lists);
+
+            const [rewatch] = checkboxes();
+            rewatch.click();
+            await vi.waitFor(() => expect(rewatch.disabled).toBe(false));
+
+            expect(mockAnimeService.addToCustomList).toHaveBeenCalledWith("list-1", animeData);
+            expect(rewatch.checked).toBe(true);
+        });
+
+        it("should restore the box when removing from a list fails", async () => {
+            mockAnimeService.removeFromCustomList.mockResolvedValue({ success: false, message: "Not on list" });
+            showSinglePageModal(animeData, idleStatus, lists);
+
+            const seasonal = checkboxes()[1];
+            seasonal.click();
+            await vi.waitFor(() => expect(seasonal.disabled).toBe(false));
+
+            expect(mockAnimeService.removeFromCustomList).toHaveBeenCalledWith("list-2", "lists-test");
+            expect(seasonal.checked).toBe(true);
+        });
+    });
+
+    describe("Rating, Notes and Tags", () => {
+        const animeData = { animeId: "notes-test", animeTitle: "Notes Test Anime", animeSlug: "notes-test-anime" };
+        const idleStatus = { isTracked: false, isPlanned: false, isHidden: false };
+
+        const field = <T extends Element>(selector: string) => document.querySelector<T>(selector)!;
+
+        it("should prefill the form with the saved rating, tags and notes", () => {
+            showSinglePageModal(animeData, idleStatus, [], {
+                animeId: "notes-test",
+                score: 8,
+                notes: "Great OST",
+                tags: ["mecha", "rewatch"],
+                updatedAt: "",
+            });
+
+            expect(field<HTMLSelectElement>(".modal-user-data-score").value).toBe("8");
+            expect(field<HTMLInputElement>(".modal-user-data-tags").value).toBe("mecha, rewatch");
+            expect(field<HTMLTextAreaElement>(".modal-user-data-notes").value).toBe("Great OST");
+        });
+
+        it("should save what the user entered", async () => {
+            mockAnimeService.updateUserData.mockResolvedValue({ success: true, message: "Saved" });
+            showSinglePageModal(animeData, idleStatus);
+
+            field<HTMLSelectElement>(".modal-user-data-score").value = "10";
+            field<HTMLInputElement>(".modal-user-data-tags").value = "comfy, slice of life";
+            field<HTMLTextAreaElement>(".modal-user-data-notes").value = "Watch with friends";
+            const save = field<HTMLButtonElement>(".modal-user-data-save");
+            save.click();
+            await vi.waitFor(() => expect(save.disabled).toBe(false));
+
+            expect(mockAnimeService.updateUserData).toHaveBeenCalledWith("notes-test", {
+                score: 10,
+                tags: ["comfy", " slice of life"],
+                notes: "Watch with friends",
+            });
+        });
+
+        it("should clear the score when 'Not rated' is picked", async () => {
+            mockAnimeService.updateUserData.mockResolvedValue({ success: true, message: "Saved" });
+            showSinglePageModal(animeData, idleStatus, [], {
+                animeId: "notes-test",
+                score: 3,
+                tags: [],
+                updatedAt: "",
+            });
+
+            field<HTMLSelectElement>(".modal-user-data-score").value = "";
+            field<HTMLButtonElement>(".modal-user-data-save").click();
+            await vi.waitFor(() => expect(mockAnimeService.updateUserData).toHaveBeenCalled());
+
+            expect(mockAnimeService.updateUserData.mock.calls[0][1].score).toBeNull();
+        });
+    });
+
     describe("Modal UI Interactions", () => {
         it("should handle escape key to close modal", async () => {
             const animeData = {
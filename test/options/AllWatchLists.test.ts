@@ -5,11 +5,17 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 import { ref } from "vue";
 
 // Mock the stores
+import { useCompletedStore } from "@/options/stores/completedStore";
+import { useDroppedStore } from "@/options/stores/droppedStore";
+import { useOnHoldStore } from "@/options/stores/onHoldStore";
 import { usePlanToWatchStore } from "@/options/stores/planToWatchStore";
 import { useWatchingStore } from "@/options/stores/watchingStore";
 
 vi.mock("@/options/stores/watchingStore");
 vi.mock("@/options/stores/planToWatchStore");
+vi.mock("@/options/stores/completedStore");
+vi.mock("@/options/stores/droppedStore");
+vi.mock("@/options/stores/onHoldStore");
 
 describe("AllWatchLists", () => {
     let pinia: ReturnType<typeof createPinia>;
@@ -28,6 +34,13 @@ describe("AllWatchLists", () => {
         init: vi.fn().mockResolvedValue(undefined),
     };
 
+    const createStatusListStore = (count: number) => ({
+        count: ref(count),
+        isLoading: ref(false),
+        hasError: false,
+        init: vi.fn().mockResolvedValue(undefined),
+    });
+
     beforeEach(() => {
         pinia = createPinia();
         setActivePinia(pinia);
@@ -47,6 +60,9 @@ describe("AllWatchLists", () => {
         // Mock store implementations
         vi.mocked(useWatchingStore).mockReturnValue(mockWatchingStore as any);
         vi.mocked(usePlanToWatchStore).mockReturnValue(mockPlanToWatchStore as any);
+        vi.mocked(useCompletedStore).mockReturnValue(createStatusListStore(87) as any);
+        vi.mocked(useOnHoldStore).mockReturnValue(createStatusListStore(5) as any);
+        vi.mocked(useDroppedStore).mockReturnValue(createStatusListStore(8) as any);
     });
 
     const createWrapper = () => {
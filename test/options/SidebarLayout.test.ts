@@ -8,6 +8,7 @@ const mockRouter = createRouter({
     routes: [
         { path: "/", name: "home", component: { template: "<div>Home</div>" } },
         { path: "/watch-lists", name: "watch-lists", component: { template: "<div>Watch Lists</div>" } },
+        { path: "/backup", name: "backup", component: { template: "<div>Backup</div>" } },
         { path: "/favorites", name: "favorites", component: { template: "<div>Favorites</div>" } },
     ],
 });
@@ -100,6 +101,107 @@ describe("SidebarLayout", () => {
             expect(watchlistsLink.text()).toContain("Watch Lists");
         });
 
+        it("should render Backup navigation link", () => {
+            const wrapper = createWrapper();
+            const backupLink = wrapper.find('[data-testid="nav-backup"]');
+            const backupIcon = wrapper.find('[data-testid="backup-icon"]');
+
+            expect(backupLink.exists()).toBe(true);
+            expect(backupLink.attributes("href")).toBe("/backup");
+            expect(backupIcon.text()).toBe("💾");
+            expect(backupLink.text()).toContain("Backup & Restore");
+        });
+
+        it("should render Settings navigation link", () => {
+            const wrapper = createWrapper();
+            const settingsLink = wrapper.find('[data-testid="nav-settings"]');
+            const settingsIcon = wrapper.find('[data-testid="settings-icon"]');
+
+            expect(settingsLink.exists()).toBe(true);
+            expect(settingsLink.attributes("href")).toBe("/settings");
+            expect(settingsIcon.text()).toBe("⚙️");
+            expect(settingsLink.text()).toContain("Settings");
+        });
+
+        it("should render Site Adapters navigation link", () => {
+            const wrapper = createWrapper();
+            const adaptersLink = wrapper.find('[data-testid="nav-adapters"]');
+            const adaptersIcon = wrapper.find('[data-testid="adapters-icon"]');
+
+            expect(adaptersLink.exists()).toBe(true);
+            expect(adaptersLink.attributes("href")).toBe("/adapters");
+            expect(adaptersIcon.text()).toBe("🧩");
+            expect(adaptersLink.text()).toContain("Site Adapters");
+        });
+
+        it("should render Merge Entries navigation link", () => {
+            const wrapper = createWrapper();
+            const mergeLink = wrapper.find('[data-testid="nav-merge"]');
+            const mergeIcon = wrapper.find('[data-testid="merge-icon"]');
+
+            expect(mergeLink.exists()).toBe(true);
+            expect(mergeLink.attributes("href")).toBe("/merge");
+            expect(mergeIcon.text()).toBe("🔗");
+            expect(mergeLink.text()).toContain("Merge Entries");
+        });
+
+        it("should render Plan to Watch navigation link", () => {
+            const wrapper = createWrapper();
+            const planLink = wrapper.find('[data-testid="nav-plan"]');
+
+            expect(planLink.attributes("href")).toBe("/plan");
+            expect(wrapper.find('[data-testid="plan-icon"]').text()).toBe("📋");
+            expect(planLink.text()).toContain("Plan to Watch");
+        });
+
+        it("should render Hidden navigation link", () => {
+            const wrapper = createWrapper();
+            const hiddenLink = wrapper.find('[data-testid="nav-hidden"]');
+
+            expect(hiddenLink.attributes("href")).toBe("/hidden");
+            expect(wrapper.find('[data-testid="hidden-icon"]').text()).toBe("🙈");
+            expect(hiddenLink.text()).toContain("Hidden");
+        });
+
+        it.each([
+            ["completed", "/completed", "✅", "Completed"],
+            ["on-hold", "/on-hold", "⏸️", "On Hold"],
+            ["dropped", "/dropped", "❌", "Dropped"],
+        ])("should render the %s list navigation link", (id, href, icon, label) => {
+            const wrapper = createWrapper();
+            const link = wrapper.find(`[data-testid="nav-${id}"]`);
+
+            expect(link.attributes("href")).toBe(href);
+            expect(wrapper.find(`[data-testid="${id}-icon"]`).text()).toBe(icon);
+            expect(link.text()).toContain(label);
+        });
+
+        it("should list the status lists between plan and hidden", () => {
+            const wrapper = createWrapper();
+            const links = wrapper
+                .findAll('[data-testid="sidebar-nav"] > a')
+                .map((link) => link.attributes("data-testid"));
+
+            expect(links.slice(links.indexOf("nav-plan"), links.indexOf("nav-hidden") + 1)).toEqual([
+                "nav-plan",
+                "nav-completed",
+                "nav-on-hold",
+                "nav-dropped",
+                "nav-hidden",
+            ]);
+        });
+
+        it("should render Activity navigation link", () => {
+            const wrapper = createWrapper();
+            const activityLink = wrapper.find('[data-testid="nav-activity"]');
+            const activityIcon = wrapper.find('[data-testid="activity-icon"]');
+
+            expect(activityLink.exists()).toBe(true);
+            expect(activityLink.attributes("href")).toBe("/activity");
+            expect(activityIcon.text()).toBe("📜");
+            expect(activityLink.text()).toContain("Activity");
+        });
+
         it("should render Favorites navigation link", () => {
             const wrapper = createWrapper();
             const favoritesLink = wrapper.find('[data-testid="nav-favorites"]');
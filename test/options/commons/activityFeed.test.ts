@@ -0,0 +1,43 @@
+import type { ActivityEvent } from "@/commons/models";
+import { groupActivityByDay } from "@/options/commons/activityFeed";
+import { describe, expect, it } from "vitest";
+
+const NOW = new Date(2025, 4, 10, 18, 0);
+
+function event(animeId: string, action: ActivityEvent["action"], date: Date): ActivityEvent {
+    return { animeId, animeTitle: animeId, action, timestamp: date.toISOString() };
+}
+
+const log = [
+    event("a", "planned", new Date(2025, 4, 1, 9, 0)),
+    event("a", "started", new Date(2025, 4, 9, 20, 0)),
+    event("b", "hidden", new Date(2025, 4, 10, 8, 0)),
+    event("a", "episode", new Date(2025, 4, 10, 9, 0)),
+];
+
+describe("groupActivityByDay", () => {
+    it("should group events by day, newest first", () => {
+        const days = groupActivityByDay(log, { action: "", animeId: "" }, NOW);
+
+        expect(days.map((day) => day.label)).toEqual([
+            "Today",
+            "Yesterday",
+            new Date(2025, 4, 1).toLocaleDateString(undefined, {
+                weekday: "long",
+                year: "numeric",
+                month: "long",
+                day: "numeric",
+            }),
+        ]);
+        expect(days[0].events.map(({ action }) => action)).toEqual(["episode", "hidden"]);
+    });
+
+    it("should filter by action and anime", () => {
+        expect(groupActivityByDay(log, { action: "hidden", animeId: "" }, NOW)[0].events).toEqual([log[2]]);
+        expect(
+            groupActivityByDay(log, { action: "", animeId: "a" }, NOW).flatMap((day) =>
+                day.events.map((e) => e.action),
+            ),
+        ).toEqual(["episode", "started", "planned"]);
+    });
+});
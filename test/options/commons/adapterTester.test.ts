@@ -0,0 +1,60 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import { anikototvDefinition } from "@/commons/sites";
+import { testAdapterOnHtml, testAdapterOnUrl } from "@/options/commons/adapterTester";
+
+const fixturesDir = join(__dirname, "../../content/adapters/fixtures/anikototv");
+const listHtml = readFileSync(join(fixturesDir, "list.html"), "utf8");
+const expected = JSON.parse(readFileSync(join(fixturesDir, "expected.json"), "utf8"));
+
+describe("adapterTester", () => {
+    describe("testAdapterOnHtml", () => {
+        it("should read every card in the sample the way the content script would", () => {
+            const result = testAdapterOnHtml(anikototvDefinition, listHtml);
+
+            expect(result.containerFound).toBe(true);
+            expect(result.cards.map((card) => card.anime)).toEqual(expected.cards);
+            expect(result.cards.every((card) => card.hasInjectionTarget)).toBe(true);
+        });
+
+        it("should report a missing container and still look for cards", () => {
+            const result = testAdapterOnHtml(
+                { ...anikototvDefinition, list: { ...anikototvDefinition.list, containerSelector: "#nope" } },
+                listHtml,
+            );
+
+            expect(result.containerFound).toBe(false);
+            expect(result.cards).toHaveLength(expected.cards.length);
+        });
+
+        it("should find nothing in unrelated markup", () => {
+            const result = testAdapterOnHtml(anikototvDefinition, "<p>Hello</p>");
+
+            expect(result).toEqual({ containerFound: false, cards: [] });
+        });
+    });
+
+    describe("testAdapterOnUrl", () => {
+        it("should read the slug and episode from a watch page URL", () => {
+            expect(testAdapterOnUrl(anikototvDefinition, new URL(expected.watch.url))).toEqual({
+                matchesHost: true,
+                isWatchPage: true,
+                slug: expected.watch.anime.animeSlug,
+                episode: expected.watch.episode,
+            });
+        });
+
+        it("should tell listing pages and other hosts apart", () => {
+            expect(testAdapterOnUrl(anikototvDefinition, new URL(expected.listUrl))).toEqual({
+                matchesHost: true,
+                isWatchPage: false,
+            });
+            expect(testAdapterOnUrl(anikototvDefinition, new URL("https://example.com/watch/foo/ep-1"))).toEqual({
+                matchesHost: false,
+                isWatchPage: false,
+            });
+        });
+    });
+});
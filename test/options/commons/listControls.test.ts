@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+
+import { matchesTitleSearch, sortAnimeList } from "@/options/commons/listControls";
+
+describe("matchesTitleSearch", () => {
+    it("should match any part of the title, ignoring case and accents", () => {
+        expect(matchesTitleSearch("Pokémon Horizons", "pokemon")).toBe(true);
+        expect(matchesTitleSearch("Frieren", "  RIEREN ")).toBe(true);
+        expect(matchesTitleSearch("Frieren", "dandadan")).toBe(false);
+    });
+
+    it("should match everything when the search is empty", () => {
+        expect(matchesTitleSearch("Frieren", "")).toBe(true);
+    });
+});
+
+describe("sortAnimeList", () => {
+    const items = [
+        { animeTitle: "frieren", addedAt: "2025-05-02T00:00:00.000Z" },
+        { animeTitle: "Dandadan", addedAt: "2025-05-03T00:00:00.000Z" },
+        { animeTitle: "Apothecary Diaries", addedAt: "2025-05-01T00:00:00.000Z" },
+    ];
+
+    it("should sort by title regardless of case", () => {
+        expect(sortAnimeList(items, "title", (item) => item.addedAt).map((item) => item.animeTitle)).toEqual([
+            "Apothecary Diaries",
+            "Dandadan",
+            "frieren",
+        ]);
+    });
+
+    it("should put the most recently added first", () => {
+        expect(sortAnimeList(items, "added", (item) => item.addedAt).map((item) => item.animeTitle)).toEqual([
+            "Dandadan",
+            "frieren",
+            "Apothecary Diaries",
+        ]);
+    });
+
+    it("should treat list order as the order entries without a date were added", () => {
+        expect(sortAnimeList(items, "added", () => undefined).map((item) => item.animeTitle)).toEqual([
+            "Apothecary Diaries",
+            "Dandadan",
+            "frieren",
+        ]);
+    });
+});
@@ -0,0 +1,80 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import UserDataEditor from "@/options/components/userData/UserDataEditor.vue";
+import { useUserDataStore } from "@/options/stores/userDataStore";
+
+vi.mock("@/options/stores/userDataStore");
+
+describe("UserDataEditor", () => {
+    let mockStore: { items: Record<string, any>; byId: (animeId: string) => any; update: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+        mockStore = {
+            items: {},
+            byId: (animeId: string) => mockStore.items[animeId],
+            update: vi.fn().mockResolvedValue({ success: true }),
+        };
+        vi.mocked(useUserDataStore).mockReturnValue(mockStore as any);
+    });
+
+    const mountEditor = () => mount(UserDataEditor, { props: { animeId: "frieren", animeTitle: "Frieren" } });
+
+    it("should offer to rate an anime without user data", () => {
+        const wrapper = mountEditor();
+
+        expect(wrapper.find('[data-testid="user-data-score-badge"]').exists()).toBe(false);
+        expect(wrapper.find('[data-testid="user-data-edit"]').text()).toBe("Rate & tag");
+    });
+
+    it("should show the score, tags and a notes marker", () => {
+        mockStore.items.frieren = { animeId: "frieren", score: 9, notes: "Ep 10!", tags: ["fantasy", "comfy"] };
+
+        const wrapper = mountEditor();
+
+        expect(wrapper.find('[data-testid="user-data-score-badge"]').text()).toBe("★ 9");
+        expect(wrapper.findAll('[data-testid="user-data-tag"]').map((tag) => tag.text())).toEqual(["fantasy", "comfy"]);
+        expect(wrapper.find('[data-testid="user-data-has-notes"]').attributes("title")).toBe("Ep 10!");
+    });
+
+    it("should prefill the form and save the edited values", async () => {
+        mockStore.items.frieren = { animeId: "frieren", score: 9, notes: "Ep 10!", tags: ["fantasy"] };
+        const wrapper = mountEditor();
+
+        await wrapper.find('[data-testid="user-data-edit"]').trigger("click");
+        expect((wrapper.find('[data-testid="user-data-tags"]').element as HTMLInputElement).value).toBe("fantasy");
+
+        await wrapper.find('[data-testid="user-data-score"]').setValue(10);
+        await wrapper.find('[data-testid="user-data-tags"]').setValue("fantasy, comfy");
+        await wrapper.find('[data-testid="user-data-form"]').trigger("submit");
+        await flushPromises();
+
+        expect(mockStore.update).toHaveBeenCalledWith("frieren", {
+            score: 10,
+            tags: ["fantasy", " comfy"],
+            notes: "Ep 10!",
+        });
+        expect(wrapper.find('[data-testid="user-data-form"]').exists()).toBe(false);
+    });
+
+    it("should keep the form open when saving fails", async () => {
+        mockStore.update.mockResolvedValue({ success: false, error: "Tags must be at most 30 characters" });
+        const wrapper = mountEditor();
+
+        await wrapper.find('[data-testid="user-data-edit"]').trigger("click");
+        await wrapper.find('[data-testid="user-data-form"]').trigger("submit");
+        await flushPromises();
+
+        expect(wrapper.find('[data-testid="user-data-form"]').exists()).toBe(true);
+    });
+
+    it("should drop the changes on cancel", async () => {
+        const wrapper = mountEditor();
+
+        await wrapper.find('[data-testid="user-data-edit"]').trigger("click");
+        await wrapper.find('[data-testid="user-data-cancel"]').trigger("click");
+
+        expect(wrapper.find('[data-testid="user-data-form"]').exists()).toBe(false);
+        expect(mockStore.update).not.toHaveBeenCalled();
+    });
+});
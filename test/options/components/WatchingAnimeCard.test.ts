@@ -1,11 +1,14 @@
 import { mount } from "@vue/test-utils";
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryHistory, createRouter } from "vue-router";
 
 import type { EpisodeProgress } from "@/commons/models";
 import WatchingAnimeCard from "@/options/components/watching/WatchingAnimeCard.vue";
+import { useUserDataStore } from "@/options/stores/userDataStore";
 import { useWatchingStore } from "@/options/stores/watchingStore";
 
 vi.mock("@/options/stores/watchingStore");
+vi.mock("@/options/stores/userDataStore");
 
 const baseItem: EpisodeProgress = {
     animeId: "attack-on-titan-aaaaa",
@@ -23,6 +26,9 @@ describe("WatchingAnimeCard", () => {
         incrementEpisode: ReturnType<typeof vi.fn>;
         decrementEpisode: ReturnType<typeof vi.fn>;
         stopWatching: ReturnType<typeof vi.fn>;
+        completeAnime: ReturnType<typeof vi.fn>;
+        putOnHold: ReturnType<typeof vi.fn>;
+        dropAnime: ReturnType<typeof vi.fn>;
     };
 
     beforeEach(() => {
@@ -31,8 +37,12 @@ describe("WatchingAnimeCard", () => {
             incrementEpisode: vi.fn().mockResolvedValue({ success: true }),
             decrementEpisode: vi.fn().mockResolvedValue({ success: true }),
             stopWatching: vi.fn().mockResolvedValue({ success: true }),
+            completeAnime: vi.fn().mockResolvedValue({ success: true }),
+            putOnHold: vi.fn().mockResolvedValue({ success: true }),
+            dropAnime: vi.fn().mockResolvedValue({ success: true }),
         };
         vi.mocked(useWatchingStore).mockReturnValue(mockWatchingStore as any);
+        vi.mocked(useUserDataStore).mockReturnValue({ byId: () => undefined, update: vi.fn() } as any);
     });
 
     const mountCard = (item: EpisodeProgress = baseItem) => mount(WatchingAnimeCard, { props: { item } });
@@ -96,6 +106,23 @@ describe("WatchingAnimeCard", () => {
             expect(title.attributes("title")).toBe("Attack on Titan");
         });
 
+        it("should open the details page when the title is clicked", async () => {
+            const router = createRouter({
+                history: createMemoryHistory(),
+                routes: [
+                    { path: "/", name: "home", component: { template: "<div />" } },
+                    { path: "/anime/:id", name: "anime-details", component: { template: "<div />" } },
+                ],
+            });
+            router.push("/");
+            await router.isReady();
+            const wrapper = mount(WatchingAnimeCard, { props: { item: baseItem }, global: { plugins: [router] } });
+
+            await wrapper.find('[data-testid="watching-card-details"]').trigger("click");
+
+            await vi.waitFor(() => expect(router.currentRoute.value.path).toBe("/anime/attack-on-titan-aaaaa"));
+        });
+
         it("should show current and total episodes when totalEpisodes is set", () => {
             const wrapper = mountCard();
 
@@ -119,6 +146,14 @@ describe("WatchingAnimeCard", () => {
             expect(link.attributes("rel")).toBe("noopener noreferrer");
         });
 
+        it("should link to the site the anime was tracked on", () => {
+            const wrapper = mountCard({ ...baseItem, animeSlug: "frieren-18542", siteId: "hianime" });
+
+            expect(wrapper.find('[data-testid="watching-card-link"]').attributes("href")).toBe(
+                "https://hianime.to/watch/frieren-18542",
+            );
+        });
+
         it("should update the link when the current episode changes", async () => {
             const wrapper = mountCard();
 
@@ -232,4 +267,24 @@ describe("WatchingAnimeCard", () => {
             expect(remove.classes()).toContain("focus-visible:opacity-100");
         });
     });
+
+    describe("Status Actions", () => {
+        it.each([
+            ["watching-card-complete", "completeAnime"],
+            ["watching-card-hold", "putOnHold"],
+            ["watching-card-drop", "dropAnime"],
+        ] as const)("should call the store action behind %s with the anime id", async (testId, action) => {
+            const wrapper = mountCard();
+
+            await wrapper.find(`[data-testid="${testId}"]`).trigger("click");
+
+            expect(mockWatchingStore[action]).toHaveBeenCalledWith(baseItem.animeId);
+        });
+
+        it("should offer completing before the last episode", () => {
+            const wrapper = mountCard({ ...baseItem, currentEpisode: 3 });
+
+            expect(wrapper.find('[data-testid="watching-card-complete"]').attributes("disabled")).toBeUndefined();
+        });
+    });
 });
@@ -26,6 +26,27 @@ vi.mock("@/options/stores/hiddenStore", () => ({
     }),
 }));
 
+vi.mock("@/options/stores/completedStore", () => ({
+    useCompletedStore: () => ({
+        items: [],
+        refreshFromStorage: vi.fn(),
+    }),
+}));
+
+vi.mock("@/options/stores/droppedStore", () => ({
+    useDroppedStore: () => ({
+        items: [],
+        refreshFromStorage: vi.fn(),
+    }),
+}));
+
+vi.mock("@/options/stores/onHoldStore", () => ({
+    useOnHoldStore: () => ({
+        items: [],
+        refreshFromStorage: vi.fn(),
+    }),
+}));
+
 describe("VueUse Composables", () => {
     beforeEach(() => {
         vi.clearAllMocks();
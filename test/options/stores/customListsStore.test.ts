@@ -0,0 +1,77 @@
+import { createPinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { CustomList } from "@/commons/models";
+import { AnimeService } from "@/commons/services/AnimeService";
+import { useCustomListsStore } from "@/options/stores/customListsStore";
+
+const toast = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() }));
+
+vi.mock("vue-toastification", () => ({
+    useToast: () => toast,
+}));
+
+vi.mock("@/commons/services/AnimeService");
+
+const rewatch: CustomList = {
+    id: "list-1",
+    name: "Rewatch",
+    entries: [{ animeId: "anime-1", animeTitle: "Frieren", animeSlug: "frieren", addedAt: "2025-01-01" }],
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+};
+
+describe("useCustomListsStore", () => {
+    let service: Record<string, ReturnType<typeof vi.fn>>;
+
+    beforeEach(() => {
+        setActivePinia(createPinia());
+
+        service = {
+            getCustomLists: vi.fn().mockResolvedValue([rewatch]),
+            createCustomList: vi.fn().mockResolvedValue({ success: true, message: 'Created list "Seasonal"' }),
+            renameCustomList: vi.fn(),
+            deleteCustomList: vi.fn(),
+            removeFromCustomList: vi.fn(),
+        };
+        vi.mocked(AnimeService).mockImplementation(() => service as any);
+    });
+
+    it("should load the lists once", async () => {
+        const store = useCustomListsStore();
+
+        await store.init();
+        await store.init();
+
+        expect(service.getCustomLists).toHaveBeenCalledTimes(1);
+        expect(store.count).toBe(1);
+        expect(store.byId("list-1")?.name).toBe("Rewatch");
+        expect(store.listsContaining("anime-1").map((list) => list.id)).toEqual(["list-1"]);
+        expect(store.listsContaining("anime-2")).toEqual([]);
+    });
+
+    it("should reload the lists and toast after a successful change", async () => {
+        const store = useCustomListsStore();
+        await store.init();
+
+        const result = await store.createList("Seasonal");
+
+        expect(result.success).toBe(true);
+        expect(service.createCustomList).toHaveBeenCalledWith("Seasonal");
+        expect(service.getCustomLists).toHaveBeenCalledTimes(2);
+        expect(toast.success).toHaveBeenCalledWith('Created list "Seasonal"');
+    });
+
+    it("should report a refused change without reloading", async () => {
+        service.renameCustomList.mockResolvedValue({ success: false, message: 'A list named "x" already exists' });
+        const store = useCustomListsStore();
+        await store.init();
+
+        const result = await store.renameList("list-1", "x");
+
+        expect(result).toEqual({ success: false, error: 'A list named "x" already exists' });
+        expect(store.lastError).toBe('A list named "x" already exists');
+        expect(service.getCustomLists).toHaveBeenCalledTimes(1);
+        expect(toast.error).toHaveBeenCalledWith('A list named "x" already exists');
+    });
+});
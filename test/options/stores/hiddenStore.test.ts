@@ -1,14 +1,22 @@
 import { createPinia, setActivePinia } from "pinia";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
+import type { HiddenAnime } from "@/commons/models";
 import { AnimeService } from "@/commons/services/AnimeService";
 import { useHiddenStore } from "@/options/stores/hiddenStore";
 
 // Mock the AnimeService
 vi.mock("@/commons/services/AnimeService");
 
+const hidden = (animeId: string, animeTitle: string): HiddenAnime => ({
+    animeId,
+    animeTitle,
+    animeSlug: animeId,
+    hiddenAt: "2024-01-01T00:00:00.000Z",
+});
+
 describe("useHiddenStore", () => {
-    const sampleHiddenAnimeIds = ["anime-1", "anime-2"];
+    const sampleHiddenAnime = [hidden("anime-1", "Anime One"), hidden("anime-2", "Anime Two")];
 
     beforeEach(() => {
         setActivePinia(createPinia());
@@ -18,7 +26,7 @@ describe("useHiddenStore", () => {
         const mockGetAllAnime = vi.fn().mockResolvedValue({
             currentlyWatching: [],
             planToWatch: [],
-            hiddenAnime: sampleHiddenAnimeIds,
+            hiddenAnime: sampleHiddenAnime,
             totalCount: 2,
         });
 
@@ -50,28 +58,10 @@ describe("useHiddenStore", () => {
 
             await store.init();
 
-            expect(store.items).toHaveLength(2);
-            expect(store.items[0]).toEqual({
-                animeId: "anime-1",
-                animeTitle: "anime-1",
-                animeSlug: "anime-1",
-            });
-            expect(store.items[1]).toEqual({
-                animeId: "anime-2",
-                animeTitle: "anime-2",
-                animeSlug: "anime-2",
-            });
+            expect(store.items).toEqual(sampleHiddenAnime);
             expect(store.itemsMap).toEqual({
-                "anime-1": {
-                    animeId: "anime-1",
-                    animeTitle: "anime-1",
-                    animeSlug: "anime-1",
-                },
-                "anime-2": {
-                    animeId: "anime-2",
-                    animeTitle: "anime-2",
-                    animeSlug: "anime-2",
-                },
+                "anime-1": sampleHiddenAnime[0],
+                "anime-2": sampleHiddenAnime[1],
             });
             expect(store.count).toBe(2);
             expect(store.isInitialized).toBe(true);
@@ -156,7 +146,6 @@ describe("useHiddenStore", () => {
             const store = useHiddenStore();
             const sorted = store.sortedByTitle;
 
-            // Since we use ID as title, they should be sorted by ID
             expect(sorted[0].animeId).toBe("anime-1");
             expect(sorted[1].animeId).toBe("anime-2");
         });
@@ -165,16 +154,8 @@ describe("useHiddenStore", () => {
             const store = useHiddenStore();
             const byId = store.byId;
 
-            expect(byId("anime-1")).toEqual({
-                animeId: "anime-1",
-                animeTitle: "anime-1",
-                animeSlug: "anime-1",
-            });
-            expect(byId("anime-2")).toEqual({
-                animeId: "anime-2",
-                animeTitle: "anime-2",
-                animeSlug: "anime-2",
-            });
+            expect(byId("anime-1")).toEqual(sampleHiddenAnime[0]);
+            expect(byId("anime-2")).toEqual(sampleHiddenAnime[1]);
             expect(byId("non-existent")).toBeUndefined();
         });
 
@@ -189,13 +170,17 @@ describe("useHiddenStore", () => {
     });
 
     describe("sorting with different IDs", () => {
-        it("should sort anime IDs alphabetically", async () => {
-            const testHiddenIds = ["z-anime", "a-anime", "m-anime"];
+        it("should sort hidden anime by title", async () => {
+            const testHidden = [
+                hidden("z-anime", "Zom 100"),
+                hidden("a-anime", "Ao Ashi"),
+                hidden("m-anime", "Mashle"),
+            ];
 
             const mockGetAllAnime = vi.fn().mockResolvedValue({
                 currentlyWatching: [],
                 planToWatch: [],
-                hiddenAnime: testHiddenIds,
+                hiddenAnime: testHidden,
                 totalCount: 3,
             });
 
@@ -242,7 +227,7 @@ describe("useHiddenStore", () => {
             resolvePromise!({
                 currentlyWatching: [],
                 planToWatch: [],
-                hiddenAnime: sampleHiddenAnimeIds,
+                hiddenAnime: sampleHiddenAnime,
                 totalCount: 2,
             });
 
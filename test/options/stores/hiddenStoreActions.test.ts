@@ -75,9 +75,12 @@ describe("useHiddenStore - Actions", () => {
             const result = await store.hide(sampleAnime);
 
             expect(result.success).toBe(true);
-            expect(mockHideAnime).toHaveBeenCalledWith("anime-1");
+            expect(mockHideAnime).toHaveBeenCalledWith(sampleAnime);
             expect(store.count).toBe(1);
-            expect(store.isHidden("anime-1")).toBe(true);
+            expect(store.byId("anime-1")).toMatchObject({
+                animeTitle: sampleAnime.animeTitle,
+                hiddenAt: expect.any(String),
+            });
         });
 
         it("should handle service failure gracefully", async () => {
@@ -101,7 +104,7 @@ describe("useHiddenStore - Actions", () => {
             mockGetAllAnime.mockResolvedValue({
                 currentlyWatching: [],
                 planToWatch: [],
-                hiddenAnime: ["anime-1"], // Hidden anime are stored as array of IDs
+                hiddenAnime: [{ ...sampleAnime, hiddenAt: "2024-01-01T00:00:00.000Z" }],
                 totalCount: 1,
             });
 
@@ -127,7 +130,10 @@ describe("useHiddenStore - Actions", () => {
             mockGetAllAnime.mockResolvedValue({
                 currentlyWatching: [],
                 planToWatch: [],
-                hiddenAnime: ["anime-1", "anime-2"], // Hidden anime are stored as array of IDs
+                hiddenAnime: [
+                    { ...sampleAnime, hiddenAt: "2024-01-01T00:00:00.000Z" },
+                    { ...sampleAnime, animeId: "anime-2", hiddenAt: "2024-01-02T00:00:00.000Z" },
+                ],
                 totalCount: 2,
             });
 
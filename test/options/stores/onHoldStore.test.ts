@@ -0,0 +1,109 @@
+import { createPinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { OnHoldAnime } from "@/commons/models";
+import { AnimeService } from "@/commons/services/AnimeService";
+import { useOnHoldStore } from "@/options/stores/onHoldStore";
+vi.mock("vue-toastification", () => ({
+    useToast: () => ({ success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() }),
+}));
+
+// Mock the AnimeService
+vi.mock("@/commons/services/AnimeService");
+
+describe("useOnHoldStore", () => {
+    let mockResumeWatching: any;
+    let mockCompleteAnime: any;
+
+    const sampleOnHold: OnHoldAnime[] = [
+        {
+            animeId: "anime-1",
+            animeTitle: "Vinland Saga",
+            animeSlug: "vinland-saga",
+            currentEpisode: 8,
+            episodeId: "vinland-saga-episode-8",
+            lastWatched: "2024-01-10T10:00:00.000Z",
+            pausedAt: "2024-01-12T10:00:00.000Z",
+        },
+        {
+            animeId: "anime-2",
+            animeTitle: "Attack on Titan",
+            animeSlug: "attack-on-titan",
+            currentEpisode: 3,
+            episodeId: "attack-on-titan-episode-3",
+            lastWatched: "2024-01-11T10:00:00.000Z",
+            pausedAt: "2024-01-13T10:00:00.000Z",
+        },
+    ];
+
+    beforeEach(() => {
+        setActivePinia(createPinia());
+        vi.clearAllMocks();
+
+        mockResumeWatching = vi.fn().mockResolvedValue({ success: true, message: "Resumed" });
+        mockCompleteAnime = vi.fn().mockResolvedValue({ success: true, message: "Completed" });
+
+        vi.mocked(AnimeService).mockImplementation(
+            () =>
+                ({
+                    getAllAnime: vi.fn().mockResolvedValue({
+                        currentlyWatching: [],
+                        planToWatch: [],
+                        hiddenAnime: [],
+                        completed: [],
+                        dropped: [],
+                        onHold: sampleOnHold.map((item) => ({ ...item })),
+                        totalCount: 2,
+                    }),
+                    resumeWatching: mockResumeWatching,
+                    completeAnime: mockCompleteAnime,
+                }) as any,
+        );
+    });
+
+    it("should initialize with on-hold items from the anime service", async () => {
+        const store = useOnHoldStore();
+
+        await store.init();
+
+        expect(store.count).toBe(2);
+        expect(store.byId("anime-1")?.currentEpisode).toBe(8);
+        expect(store.sortedByTitle.map((item) => item.animeId)).toEqual(["anime-2", "anime-1"]);
+        expect(store.isInitialized).toBe(true);
+    });
+
+    it("should remove the item when resuming", async () => {
+        const store = useOnHoldStore();
+        await store.init();
+
+        const result = await store.resume("anime-1");
+
+        expect(result.success).toBe(true);
+        expect(mockResumeWatching).toHaveBeenCalledWith("anime-1");
+        expect(store.byId("anime-1")).toBeUndefined();
+        expect(store.count).toBe(1);
+    });
+
+    it("should roll back when completing fails", async () => {
+        mockCompleteAnime.mockResolvedValue({ success: false, message: "Cannot complete anime" });
+        const store = useOnHoldStore();
+        await store.init();
+
+        const result = await store.complete("anime-2");
+
+        expect(result.success).toBe(false);
+        expect(store.byId("anime-2")).toBeDefined();
+        expect(store.count).toBe(2);
+    });
+
+    it("should fail for anime that is not on hold", async () => {
+        const store = useOnHoldStore();
+        await store.init();
+
+        const result = await store.resume("missing");
+
+        expect(result.success).toBe(false);
+        expect(store.lastError).toBe("Anime not found in on-hold list");
+        expect(mockResumeWatching).not.toHaveBeenCalled();
+    });
+});
@@ -16,6 +16,7 @@ describe("usePlanToWatchStore - Actions", () => {
     let mockGetAllAnime: any;
     let mockAddToPlanToWatch: any;
     let mockRemoveFromPlanToWatch: any;
+    let mockStartWatching: any;
 
     const sampleAnime: AnimeData = {
         animeId: "anime-1",
@@ -49,6 +50,11 @@ describe("usePlanToWatchStore - Actions", () => {
             message: "Removed from plan",
         });
 
+        mockStartWatching = vi.fn().mockResolvedValue({
+            success: true,
+            message: "Started watching",
+        });
+
         // Mock the AnimeService constructor
         vi.mocked(AnimeService).mockImplementation(
             () =>
@@ -56,6 +62,7 @@ describe("usePlanToWatchStore - Actions", () => {
                     getAllAnime: mockGetAllAnime,
                     addToPlanToWatch: mockAddToPlanToWatch,
                     removeFromPlanToWatch: mockRemoveFromPlanToWatch,
+                    startWatching: mockStartWatching,
                 }) as any,
         );
 
@@ -127,4 +134,57 @@ describe("usePlanToWatchStore - Actions", () => {
             expect(store.lastError).toBe("Anime not found in plan to watch list");
         });
     });
+
+    describe("startWatching", () => {
+        beforeEach(async () => {
+            mockGetAllAnime.mockResolvedValue({
+                currentlyWatching: [],
+                planToWatch: [
+                    {
+                        animeId: "anime-1",
+                        animeTitle: "Attack on Titan",
+                        animeSlug: "attack-on-titan",
+                        addedAt: "2024-01-01T00:00:00.000Z",
+                        siteId: "anizone",
+                    },
+                ],
+                hiddenAnime: [],
+                totalCount: 1,
+            });
+
+            await store.init();
+        });
+
+        it("should start from the chosen episode and drop the anime from the plan", async () => {
+            const result = await store.startWatching("anime-1", 5);
+
+            expect(result.success).toBe(true);
+            expect(mockStartWatching).toHaveBeenCalledWith(
+                {
+                    animeId: "anime-1",
+                    animeTitle: "Attack on Titan",
+                    animeSlug: "attack-on-titan",
+                    siteId: "anizone",
+                },
+                5,
+            );
+            expect(store.count).toBe(0);
+        });
+
+        it("should keep the anime planned when starting fails", async () => {
+            mockStartWatching.mockResolvedValueOnce({ success: false, message: "Cannot start watching anime" });
+
+            const result = await store.startWatching("anime-1", 2);
+
+            expect(result.success).toBe(false);
+            expect(store.count).toBe(1);
+        });
+
+        it("should handle non-existent anime", async () => {
+            const result = await store.startWatching("non-existent");
+
+            expect(result.success).toBe(false);
+            expect(mockStartWatching).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -186,6 +186,31 @@ describe("storageSyncPlugin", () => {
             vi.useRealTimers();
         });
 
+        it("should refresh the watching store once for per-anime progress key changes", async () => {
+            vi.useFakeTimers();
+            const mockRefresh = vi.fn();
+            const useTestStore = defineStore("watching", () => ({
+                data: [] as any[],
+                refreshFromStorage: mockRefresh,
+            }));
+
+            useTestStore();
+
+            // Creating an anime writes its item key and the index in one change event
+            mockStorageListener(
+                {
+                    "episodeProgress:frieren-xyz": { newValue: { animeId: "frieren-xyz" } },
+                    episodeProgressIndex: { newValue: ["frieren-xyz"], oldValue: [] },
+                },
+                "local",
+            );
+
+            vi.advanceTimersByTime(600);
+
+            expect(mockRefresh).toHaveBeenCalledTimes(1);
+            vi.useRealTimers();
+        });
+
         it("should handle planToWatch storage changes", async () => {
             vi.useFakeTimers();
             const mockRefresh = vi.fn();
@@ -224,6 +249,42 @@ describe("storageSyncPlugin", () => {
             vi.useRealTimers();
         });
 
+        it("should handle customLists storage changes", async () => {
+            vi.useFakeTimers();
+            const mockRefresh = vi.fn();
+            const useTestStore = defineStore("customLists", () => ({
+                lists: [] as any[],
+                refreshFromStorage: mockRefresh,
+            }));
+
+            useTestStore();
+
+            mockStorageListener({ customLists: { newValue: [], oldValue: null } }, "local");
+
+            vi.advanceTimersByTime(600);
+
+            expect(mockRefresh).toHaveBeenCalled();
+            vi.useRealTimers();
+        });
+
+        it("should handle userData storage changes", async () => {
+            vi.useFakeTimers();
+            const mockRefresh = vi.fn();
+            const useTestStore = defineStore("userData", () => ({
+                itemsMap: {},
+                refreshFromStorage: mockRefresh,
+            }));
+
+            useTestStore();
+
+            mockStorageListener({ userData: { newValue: {}, oldValue: null } }, "local");
+
+            vi.advanceTimersByTime(600);
+
+            expect(mockRefresh).toHaveBeenCalled();
+            vi.useRealTimers();
+        });
+
         it("should ignore unknown storage keys", async () => {
             vi.useFakeTimers();
             const mockRefresh = vi.fn();
@@ -256,10 +317,7 @@ describe("storageSyncPlugin", () => {
             useTestStore();
 
             // Simulate runtime message
-            mockMessageListener(
-                { type: "ANIME_STATE_CHANGED", storageKey: "episodeProgress" },
-                { tab: { id: 1 } },
-            );
+            mockMessageListener({ type: "ANIME_STATE_CHANGED", storageKey: "episodeProgress" }, { tab: { id: 1 } });
 
             vi.advanceTimersByTime(600);
 
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import type { AnimeData, EpisodeProgress, PlanToWatch } from "@/commons/models";
+import type { AnimeData, EpisodeProgress, HiddenAnime, PlanToWatch } from "@/commons/models";
 import type {
     AnimeListState,
     AsyncState,
@@ -126,10 +126,11 @@ describe("store types", () => {
 
     describe("HiddenAnimeState", () => {
         it("should define correct structure for HiddenAnimeState", () => {
-            const testHidden: AnimeData = {
+            const testHidden: HiddenAnime = {
                 animeId: "123",
                 animeTitle: "Test Anime",
                 animeSlug: "test-anime",
+                hiddenAt: "2024-01-01T00:00:00Z",
             };
 
             const hiddenState: HiddenAnimeState = {
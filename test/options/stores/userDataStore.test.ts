@@ -0,0 +1,75 @@
+import { createPinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { AnimeUserData } from "@/commons/models";
+import { AnimeService } from "@/commons/services/AnimeService";
+import { useUserDataStore } from "@/options/stores/userDataStore";
+
+const toast = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() }));
+
+vi.mock("vue-toastification", () => ({
+    useToast: () => toast,
+}));
+
+vi.mock("@/commons/services/AnimeService");
+
+const stored: Record<string, AnimeUserData> = {
+    frieren: { animeId: "frieren", score: 10, tags: ["Comfy", "fantasy"], updatedAt: "" },
+    yuru: { animeId: "yuru", tags: ["comfy", "camping"], updatedAt: "" },
+};
+
+describe("useUserDataStore", () => {
+    let service: Record<string, ReturnType<typeof vi.fn>>;
+
+    beforeEach(() => {
+        setActivePinia(createPinia());
+
+        service = {
+            getUserData: vi.fn().mockResolvedValue(stored),
+            updateUserData: vi.fn().mockResolvedValue({ success: true, message: "Saved rating, notes and tags" }),
+        };
+        vi.mocked(AnimeService).mockImplementation(() => service as any);
+    });
+
+    it("should load the records once", async () => {
+        const store = useUserDataStore();
+
+        await store.init();
+        await store.init();
+
+        expect(service.getUserData).toHaveBeenCalledTimes(1);
+        expect(store.byId("frieren")?.score).toBe(10);
+        expect(store.byId("unknown")).toBeUndefined();
+    });
+
+    it("should list every tag once regardless of case", async () => {
+        const store = useUserDataStore();
+        await store.init();
+
+        expect(store.allTags).toEqual(["camping", "Comfy", "fantasy"]);
+    });
+
+    it("should reload after saving", async () => {
+        const store = useUserDataStore();
+        await store.init();
+
+        const result = await store.update("yuru", { score: 8 });
+
+        expect(result.success).toBe(true);
+        expect(service.updateUserData).toHaveBeenCalledWith("yuru", { score: 8 });
+        expect(service.getUserData).toHaveBeenCalledTimes(2);
+        expect(toast.success).toHaveBeenCalledWith("Saved rating, notes and tags");
+    });
+
+    it("should report a refused change without reloading", async () => {
+        service.updateUserData.mockResolvedValue({ success: false, message: "Score must be a whole number" });
+        const store = useUserDataStore();
+        await store.init();
+
+        const result = await store.update("yuru", { score: 11 });
+
+        expect(result.success).toBe(false);
+        expect(store.lastError).toBe("Score must be a whole number");
+        expect(service.getUserData).toHaveBeenCalledTimes(1);
+    });
+});
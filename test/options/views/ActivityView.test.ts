@@ -0,0 +1,116 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryHistory, createRouter } from "vue-router";
+
+import type { ActivityEvent } from "@/commons/models";
+import ActivityView from "@/options/views/ActivityView.vue";
+
+const toast = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() }));
+const service = vi.hoisted(() => ({
+    getActivity: vi.fn(),
+}));
+
+vi.mock("vue-toastification", () => ({
+    useToast: () => toast,
+}));
+
+vi.mock("@/commons/services/AnimeService", () => ({
+    AnimeService: class {
+        getActivity = () => service.getActivity();
+    },
+}));
+
+const event = (animeId: string, animeTitle: string, action: ActivityEvent["action"], timestamp: string) => ({
+    animeId,
+    animeTitle,
+    action,
+    timestamp,
+});
+
+const log: ActivityEvent[] = [
+    event("frieren", "Frieren", "planned", "2025-05-01T10:00:00.000Z"),
+    event("frieren", "Frieren", "started", "2025-05-03T10:00:00.000Z"),
+    { ...event("frieren", "Frieren", "episode", "2025-05-03T11:00:00.000Z"), episode: 2 },
+    event("dandadan", "Dandadan", "hidden", "2025-05-03T12:00:00.000Z"),
+];
+
+async function mountView() {
+    const wrapper = mount(ActivityView);
+    await flushPromises();
+    return wrapper;
+}
+
+describe("ActivityView", () => {
+    beforeEach(() => {
+        service.getActivity.mockResolvedValue(log);
+    });
+
+    it("should list changes grouped by day, newest first", async () => {
+        const wrapper = await mountView();
+
+        const days = wrapper.findAll('[data-testid="activity-day"]');
+        expect(days).toHaveLength(2);
+        const newest = days[0].findAll('[data-testid="activity-event"]');
+        expect(newest).toHaveLength(3);
+        expect(newest[0].text()).toContain("Dandadan");
+        expect(newest[0].text()).toContain("Hidden");
+        expect(newest[1].text()).toContain("Episode updated · episode 2");
+        expect(newest[2].text()).toContain("Started watching");
+    });
+
+    it("should filter by kind of change", async () => {
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="activity-action-filter"]').setValue("planned");
+
+        const events = wrapper.findAll('[data-testid="activity-event"]');
+        expect(events).toHaveLength(1);
+        expect(events[0].text()).toContain("Planned");
+    });
+
+    it("should filter by anime and say when nothing matches", async () => {
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="activity-anime-filter"]').setValue("dandadan");
+        expect(wrapper.findAll('[data-testid="activity-event"]')).toHaveLength(1);
+
+        await wrapper.find('[data-testid="activity-action-filter"]').setValue("completed");
+        expect(wrapper.find('[data-testid="activity-filter-empty"]').exists()).toBe(true);
+    });
+
+    it("should open an anime's details page when one of its changes is clicked", async () => {
+        const router = createRouter({
+            history: createMemoryHistory(),
+            routes: [
+                { path: "/", name: "home", component: { template: "<div />" } },
+                { path: "/anime/:id", name: "anime-details", component: { template: "<div />" } },
+            ],
+        });
+        router.push("/");
+        await router.isReady();
+        const wrapper = mount(ActivityView, { global: { plugins: [router] } });
+        await flushPromises();
+
+        await wrapper.findAll('[data-testid="activity-event"]')[1].trigger("click");
+
+        await vi.waitFor(() => expect(router.currentRoute.value.path).toBe("/anime/frieren"));
+    });
+
+    it("should explain an empty log", async () => {
+        service.getActivity.mockResolvedValue([]);
+
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="activity-empty"]').exists()).toBe(true);
+        expect(wrapper.find('[data-testid="activity-action-filter"]').exists()).toBe(false);
+    });
+
+    it("should report a failed load", async () => {
+        service.getActivity.mockRejectedValue(new Error("offline"));
+        vi.spyOn(console, "error").mockImplementation(() => {});
+
+        await mountView();
+
+        expect(toast.error).toHaveBeenCalledWith("Failed to load activity");
+    });
+});
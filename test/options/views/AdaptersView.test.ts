@@ -0,0 +1,179 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { SiteAdapterDefinition } from "@/commons/models";
+import AdaptersView from "@/options/views/AdaptersView.vue";
+
+const toast = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() }));
+const service = vi.hoisted(() => ({
+    getCustomAdapters: vi.fn(),
+    saveCustomAdapter: vi.fn(),
+    deleteCustomAdapter: vi.fn(),
+}));
+
+vi.mock("vue-toastification", () => ({
+    useToast: () => toast,
+}));
+
+vi.mock("@/commons/services/AnimeService", () => ({
+    AnimeService: class {
+        getCustomAdapters = () => service.getCustomAdapters();
+        saveCustomAdapter = (...args: unknown[]) => service.saveCustomAdapter(...args);
+        deleteCustomAdapter = (...args: unknown[]) => service.deleteCustomAdapter(...args);
+    },
+}));
+
+const definition = (overrides: Partial<SiteAdapterDefinition> = {}): SiteAdapterDefinition => ({
+    id: "mysite",
+    label: "My Site",
+    hosts: ["mysite.example"],
+    list: {
+        containerSelector: ".grid",
+        cardSelector: ".card",
+        titleSelector: ".title",
+        linkSelector: "a",
+        linkPattern: "^/anime/(?<slug>[^/]+)$",
+        injectionSelector: ".poster",
+    },
+    watchPage: { pathPattern: "^/watch/(?<slug>[^/]+)/(?<episode>\\d+)$" },
+    ...overrides,
+});
+
+async function mountView() {
+    const wrapper = mount(AdaptersView);
+    await flushPromises();
+    return wrapper;
+}
+
+describe("AdaptersView", () => {
+    beforeEach(() => {
+        service.getCustomAdapters.mockResolvedValue([]);
+        service.saveCustomAdapter.mockImplementation(async (saved: SiteAdapterDefinition) => ({
+            success: true,
+            message: `Saved "${saved.label}"`,
+        }));
+        service.deleteCustomAdapter.mockResolvedValue({ success: true, message: "Deleted adapter" });
+    });
+
+    it("should list saved custom adapters", async () => {
+        service.getCustomAdapters.mockResolvedValue([definition()]);
+
+        const wrapper = await mountView();
+
+        const items = wrapper.findAll('[data-testid="adapter-list-item"]');
+        expect(items).toHaveLength(1);
+        expect(items[0].text()).toContain("My Site");
+        expect(items[0].text()).toContain("mysite.example");
+    });
+
+    it("should show an empty state without custom adapters", async () => {
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="adapter-list-empty"]').exists()).toBe(true);
+        expect(wrapper.find('[data-testid="adapter-editor-section"]').exists()).toBe(false);
+    });
+
+    it("should start a new adapter from a valid template and save it", async () => {
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="new-adapter-button"]').trigger("click");
+        expect(wrapper.find('[data-testid="adapter-errors"]').exists()).toBe(false);
+
+        service.getCustomAdapters.mockResolvedValue([{ id: "my-site", label: "My Site", hosts: ["example.com"] }]);
+        await wrapper.find('[data-testid="save-adapter-button"]').trigger("click");
+        await flushPromises();
+
+        expect(service.saveCustomAdapter).toHaveBeenCalledWith(expect.objectContaining({ id: "my-site" }), undefined);
+        expect(toast.success).toHaveBeenCalledWith('Saved "My Site"');
+        expect(wrapper.find('[data-testid="adapter-editor-section"]').exists()).toBe(false);
+        expect(wrapper.findAll('[data-testid="adapter-list-item"]')).toHaveLength(1);
+    });
+
+    it("should show errors and block saving for an invalid definition", async () => {
+        const wrapper = await mountView();
+        await wrapper.find('[data-testid="new-adapter-button"]').trigger("click");
+
+        await wrapper.find('[data-testid="adapter-json"]').setValue("{ not json");
+        expect(wrapper.find('[data-testid="adapter-errors"]').text()).toContain("Not valid JSON");
+        expect(wrapper.find('[data-testid="save-adapter-button"]').attributes("disabled")).toBeDefined();
+
+        await wrapper
+            .find('[data-testid="adapter-json"]')
+            .setValue(JSON.stringify(definition({ hosts: [], list: { ...definition().list, cardSelector: "[" } })));
+        const errors = wrapper.find('[data-testid="adapter-errors"]').text();
+        expect(errors).toContain("at least one host is required");
+        expect(errors).toContain("list.cardSelector is not a valid CSS selector");
+    });
+
+    it("should reject ids taken by a built-in adapter", async () => {
+        const wrapper = await mountView();
+        await wrapper.find('[data-testid="new-adapter-button"]').trigger("click");
+
+        await wrapper.find('[data-testid="adapter-json"]').setValue(JSON.stringify(definition({ id: "anikototv" })));
+
+        expect(wrapper.find('[data-testid="adapter-errors"]').text()).toContain("used by a built-in adapter");
+    });
+
+    it("should update the adapter being edited", async () => {
+        service.getCustomAdapters.mockResolvedValue([definition()]);
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="edit-adapter-button"]').trigger("click");
+        await wrapper.find('[data-testid="adapter-json"]').setValue(JSON.stringify(definition({ label: "Renamed" })));
+        await wrapper.find('[data-testid="save-adapter-button"]').trigger("click");
+        await flushPromises();
+
+        expect(service.saveCustomAdapter).toHaveBeenCalledWith(expect.objectContaining({ label: "Renamed" }), "mysite");
+    });
+
+    it("should delete an adapter", async () => {
+        service.getCustomAdapters.mockResolvedValue([definition()]);
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="delete-adapter-button"]').trigger("click");
+        await flushPromises();
+
+        expect(service.deleteCustomAdapter).toHaveBeenCalledWith("mysite");
+        expect(wrapper.findAll('[data-testid="adapter-list-item"]')).toHaveLength(0);
+        expect(toast.success).toHaveBeenCalledWith('Deleted "My Site"');
+    });
+
+    it("should test the definition against sample HTML and a URL", async () => {
+        service.getCustomAdapters.mockResolvedValue([definition()]);
+        const wrapper = await mountView();
+        await wrapper.find('[data-testid="edit-adapter-button"]').trigger("click");
+
+        await wrapper
+            .find('[data-testid="adapter-test-html"]')
+            .setValue(
+                '<div class="grid">' +
+                    '<div class="card"><div class="poster"></div><a href="/anime/frieren"><span class="title">Frieren</span></a></div>' +
+                    '<div class="card"><span class="title">No link</span></div>' +
+                    "</div>",
+            );
+        await wrapper.find('[data-testid="adapter-test-url"]').setValue("https://mysite.example/watch/frieren/4");
+
+        const rows = wrapper.findAll('[data-testid="adapter-card-result"]');
+        expect(wrapper.find('[data-testid="adapter-html-result"]').text()).toContain("2 card(s) matched");
+        expect(rows[0].text()).toContain("Frieren");
+        expect(rows[0].text()).toContain("frieren");
+        expect(rows[1].text()).toContain("Skipped");
+        expect(wrapper.find('[data-testid="adapter-url-result"]').text()).toContain("episode 4");
+    });
+
+    it("should report a failed save", async () => {
+        service.saveCustomAdapter.mockResolvedValue({
+            success: false,
+            message: "Failed to save adapter",
+            error: "quota",
+        });
+        const wrapper = await mountView();
+        await wrapper.find('[data-testid="new-adapter-button"]').trigger("click");
+
+        await wrapper.find('[data-testid="save-adapter-button"]').trigger("click");
+        await flushPromises();
+
+        expect(toast.error).toHaveBeenCalledWith("Failed to save adapter");
+        expect(wrapper.find('[data-testid="adapter-editor-section"]').exists()).toBe(true);
+    });
+});
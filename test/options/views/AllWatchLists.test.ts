@@ -4,7 +4,11 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 import { ref } from "vue";
 import { createMemoryHistory, createRouter } from "vue-router";
 
+import { useCompletedStore } from "@/options/stores/completedStore";
+import { useCustomListsStore } from "@/options/stores/customListsStore";
+import { useDroppedStore } from "@/options/stores/droppedStore";
 import { useHiddenStore } from "@/options/stores/hiddenStore";
+import { useOnHoldStore } from "@/options/stores/onHoldStore";
 import { usePlanToWatchStore } from "@/options/stores/planToWatchStore";
 import { useWatchingStore } from "@/options/stores/watchingStore";
 import AllWatchLists from "@/options/views/AllWatchLists.vue";
@@ -13,6 +17,10 @@ import AllWatchLists from "@/options/views/AllWatchLists.vue";
 vi.mock("@/options/stores/watchingStore");
 vi.mock("@/options/stores/planToWatchStore");
 vi.mock("@/options/stores/hiddenStore");
+vi.mock("@/options/stores/completedStore");
+vi.mock("@/options/stores/customListsStore");
+vi.mock("@/options/stores/droppedStore");
+vi.mock("@/options/stores/onHoldStore");
 
 // Mock the useStorageCache composable used by useSmartStats
 vi.mock("@/options/composables/useStorageCache", () => ({
@@ -50,6 +58,19 @@ describe("AllWatchLists - Phase 4 Store Integration", () => {
         init: vi.fn().mockResolvedValue(undefined),
     };
 
+    const createStatusListStore = (size: number) => ({
+        items: ref(Array.from({ length: size }, () => ({}))),
+        isLoading: ref(false),
+        hasError: false,
+        init: vi.fn().mockResolvedValue(undefined),
+    });
+
+    const mockCustomListsStore = {
+        lists: [] as any[],
+        init: vi.fn().mockResolvedValue(undefined),
+        createList: vi.fn(),
+    };
+
     beforeEach(() => {
         pinia = createPinia();
         setActivePinia(pinia);
@@ -74,6 +95,13 @@ describe("AllWatchLists - Phase 4 Store Integration", () => {
         vi.mocked(useWatchingStore).mockReturnValue(mockWatchingStore as any);
         vi.mocked(usePlanToWatchStore).mockReturnValue(mockPlanToWatchStore as any);
         vi.mocked(useHiddenStore).mockReturnValue(mockHiddenStore as any);
+        vi.mocked(useCompletedStore).mockReturnValue(createStatusListStore(87) as any);
+        vi.mocked(useOnHoldStore).mockReturnValue(createStatusListStore(5) as any);
+        vi.mocked(useDroppedStore).mockReturnValue(createStatusListStore(8) as any);
+
+        mockCustomListsStore.lists = [];
+        mockCustomListsStore.createList.mockResolvedValue({ success: true });
+        vi.mocked(useCustomListsStore).mockReturnValue(mockCustomListsStore as any);
     });
 
     describe("Store Integration", () => {
@@ -224,7 +252,7 @@ describe("AllWatchLists - Phase 4 Store Integration", () => {
     });
 
     describe("Static Content Preservation", () => {
-        it("should maintain hardcoded values for non-store managed lists", async () => {
+        it("should display completed, on-hold and dropped counts from their stores", async () => {
             const wrapper = mount(AllWatchLists, {
                 global: {
                     plugins: [pinia],
@@ -233,7 +261,6 @@ describe("AllWatchLists - Phase 4 Store Integration", () => {
 
             await wrapper.vm.$nextTick();
 
-            // These should remain hardcoded until Phase 6 stats store
             expect(wrapper.find('[data-testid="completed-count"]').text()).toContain("87 series");
             expect(wrapper.find('[data-testid="on-hold-count"]').text()).toContain("5 series");
             expect(wrapper.find('[data-testid="dropped-count"]').text()).toContain("8 series");
@@ -285,6 +312,108 @@ describe("AllWatchLists - Phase 4 Store Integration", () => {
 
             await vi.waitFor(() => expect(router.currentRoute.value.name).toBe("watching"));
         });
+
+        it("should navigate to the plan page when the planned View button is clicked", async () => {
+            const router = createRouter({
+                history: createMemoryHistory(),
+                routes: [
+                    { path: "/", name: "home", component: { template: "<div />" } },
+                    { path: "/plan", name: "plan", component: { template: "<div />" } },
+                ],
+            });
+            router.push("/");
+            await router.isReady();
+
+            const wrapper = mount(AllWatchLists, { global: { plugins: [pinia, router] } });
+            await wrapper.vm.$nextTick();
+            await wrapper.find('[data-testid="view-planned"]').trigger("click");
+
+            await vi.waitFor(() => expect(router.currentRoute.value.name).toBe("plan"));
+        });
+
+        it.each([
+            ["view-completed", "completed"],
+            ["view-on-hold", "on-hold"],
+            ["view-dropped", "dropped"],
+        ])("should navigate from %s to the %s page", async (testId, routeName) => {
+            const router = createRouter({
+                history: createMemoryHistory(),
+                routes: [
+                    { path: "/", name: "home", component: { template: "<div />" } },
+                    { path: `/${routeName}`, name: routeName, component: { template: "<div />" } },
+                ],
+            });
+            router.push("/");
+            await router.isReady();
+
+            const wrapper = mount(AllWatchLists, { global: { plugins: [pinia, router] } });
+            await wrapper.vm.$nextTick();
+            await wrapper.find(`[data-testid="${testId}"]`).trigger("click");
+
+            await vi.waitFor(() => expect(router.currentRoute.value.name).toBe(routeName));
+        });
+    });
+
+    describe("Custom Lists", () => {
+        it("should show a card for each user list", async () => {
+            mockCustomListsStore.lists = [
+                { id: "list-1", name: "Rewatch with friends", entries: [{}, {}] },
+                { id: "list-2", name: "Seasonal 2026", entries: [] },
+            ];
+
+            const wrapper = mount(AllWatchLists, { global: { plugins: [pinia] } });
+            await wrapper.vm.$nextTick();
+
+            const cards = wrapper.findAll('[data-testid="custom-list-card"]');
+            expect(cards).toHaveLength(2);
+            expect(cards[0].find('[data-testid="custom-list-name"]').text()).toBe("Rewatch with friends");
+            expect(cards[0].find('[data-testid="custom-list-count"]').text()).toBe("2 series");
+        });
+
+        it("should create a list from the New List form", async () => {
+            const wrapper = mount(AllWatchLists, { global: { plugins: [pinia] } });
+            await wrapper.vm.$nextTick();
+
+            expect(wrapper.find('[data-testid="new-list-form"]').exists()).toBe(false);
+            await wrapper.find('[data-testid="add-list-button"]').trigger("click");
+            await wrapper.find('[data-testid="new-list-name"]').setValue("Seasonal 2026");
+            await wrapper.find('[data-testid="new-list-form"]').trigger("submit");
+            await vi.waitFor(() => expect(wrapper.find('[data-testid="new-list-form"]').exists()).toBe(false));
+
+            expect(mockCustomListsStore.createList).toHaveBeenCalledWith("Seasonal 2026");
+        });
+
+        it("should keep the form open when the list can't be created", async () => {
+            mockCustomListsStore.createList.mockResolvedValue({ success: false, error: "duplicate" });
+            const wrapper = mount(AllWatchLists, { global: { plugins: [pinia] } });
+            await wrapper.vm.$nextTick();
+
+            await wrapper.find('[data-testid="list-custom"]').trigger("click");
+            await wrapper.find('[data-testid="new-list-name"]').setValue("Rewatch");
+            await wrapper.find('[data-testid="new-list-form"]').trigger("submit");
+            await vi.waitFor(() => expect(mockCustomListsStore.createList).toHaveBeenCalled());
+
+            expect(wrapper.find('[data-testid="new-list-form"]').exists()).toBe(true);
+        });
+
+        it("should open a user list from its card", async () => {
+            mockCustomListsStore.lists = [{ id: "list-1", name: "Rewatch", entries: [] }];
+            const router = createRouter({
+                history: createMemoryHistory(),
+                routes: [
+                    { path: "/", name: "home", component: { template: "<div />" } },
+                    { path: "/lists/:listId", name: "custom-list", component: { template: "<div />" } },
+                ],
+            });
+            router.push("/");
+            await router.isReady();
+
+            const wrapper = mount(AllWatchLists, { global: { plugins: [pinia, router] } });
+            await wrapper.vm.$nextTick();
+            await wrapper.find('[data-testid="view-custom-list"]').trigger("click");
+
+            await vi.waitFor(() => expect(router.currentRoute.value.path).toBe("/lists/list-1"));
+        });
     });
 
     describe("Loading Behavior Combinations", () => {
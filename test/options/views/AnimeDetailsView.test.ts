@@ -0,0 +1,281 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryHistory, createRouter } from "vue-router";
+
+import AnimeDetailsView from "@/options/views/AnimeDetailsView.vue";
+
+const toast = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() }));
+const service = vi.hoisted(() => ({
+    getAnimeDetails: vi.fn(),
+    updateEpisodeProgress: vi.fn(),
+    completeAnime: vi.fn(),
+    addToPlanToWatch: vi.fn(),
+    hideAnime: vi.fn(),
+}));
+const userData = vi.hoisted(() => ({
+    items: {} as Record<string, any>,
+    allTags: [] as string[],
+    byId: (animeId: string) => userData.items[animeId],
+    init: vi.fn(),
+    update: vi.fn(),
+}));
+
+vi.mock("vue-toastification", () => ({
+    useToast: () => toast,
+}));
+
+vi.mock("@/commons/services/AnimeService", () => ({
+    AnimeService: class {
+        getAnimeDetails = (animeId: string) => service.getAnimeDetails(animeId);
+        updateEpisodeProgress = (animeId: string, episode: number) => service.updateEpisodeProgress(animeId, episode);
+        completeAnime = (animeId: string) => service.completeAnime(animeId);
+        addToPlanToWatch = (animeData: unknown) => service.addToPlanToWatch(animeData);
+        hideAnime = (animeData: unknown) => service.hideAnime(animeData);
+    },
+}));
+
+vi.mock("@/options/stores/userDataStore", () => ({
+    useUserDataStore: () => userData,
+}));
+
+const progress = {
+    animeId: "frieren",
+    animeTitle: "Frieren",
+    animeSlug: "frieren",
+    currentEpisode: 4,
+    episodeId: "frieren-episode-4",
+    lastWatched: "2025-05-03T11:00:00.000Z",
+    totalEpisodes: 28,
+    posterUrl: "https://cdn.example/frieren.jpg",
+};
+
+function details(overrides: Record<string, unknown> = {}) {
+    return {
+        animeId: "frieren",
+        status: { isTracked: true, isPlanned: false, isHidden: false, progress },
+        episodeProgress: progress,
+        isHidden: false,
+        customLists: [{ id: "list-1", name: "Rewatch", entries: [], createdAt: "", updatedAt: "" }],
+        folder: { id: "folder-1", name: "Fantasy", borderColor: "#fff", createdAt: "" },
+        watchHistory: [
+            {
+                animeId: "frieren",
+                animeTitle: "Frieren",
+                episode: 4,
+                timestamp: "2025-05-03T11:00:00.000Z",
+                source: "auto",
+            },
+        ],
+        activity: [
+            { animeId: "frieren", animeTitle: "Frieren", action: "started", timestamp: "2025-05-03T10:00:00.000Z" },
+        ],
+        ...overrides,
+    };
+}
+
+async function mountView(id = "frieren", plugins: any[] = []) {
+    const wrapper = mount(AnimeDetailsView, { props: { id }, global: { plugins } });
+    await flushPromises();
+    return wrapper;
+}
+
+describe("AnimeDetailsView", () => {
+    beforeEach(() => {
+        service.getAnimeDetails.mockResolvedValue(details());
+        service.updateEpisodeProgress.mockResolvedValue({ success: true, message: "Updated" });
+        service.completeAnime.mockResolvedValue({ success: true, message: "Completed" });
+        service.addToPlanToWatch.mockResolvedValue({ success: true, message: "Planned" });
+        userData.items = {};
+        userData.init.mockResolvedValue(undefined);
+    });
+
+    it("should show the poster, title, status and membership", async () => {
+        const wrapper = await mountView();
+
+        expect(service.getAnimeDetails).toHaveBeenCalledWith("frieren");
+        expect(userData.init).toHaveBeenCalled();
+        expect(wrapper.find('[data-testid="details-poster"]').attributes("src")).toBe(progress.posterUrl);
+        expect(wrapper.find('[data-testid="page-title"]').text()).toBe("Frieren");
+        expect(wrapper.find('[data-testid="details-status"]').text()).toBe("Watching (Episode 4)");
+        expect(wrapper.find('[data-testid="details-folder"]').text()).toContain("Fantasy");
+        expect(wrapper.find('[data-testid="details-list"]').text()).toContain("Rewatch");
+    });
+
+    it("should offer the actions allowed for the status, without the episode update", async () => {
+        const wrapper = await mountView();
+
+        expect(
+            wrapper.findAll('[data-testid="details-action"]').map((button) => button.attributes("data-action")),
+        ).toEqual(["removeFromWatch", "complete", "drop", "putOnHold"]);
+    });
+
+    it("should run an action and reload", async () => {
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-action="complete"]').trigger("click");
+        await flushPromises();
+
+        expect(service.completeAnime).toHaveBeenCalledWith("frieren");
+        expect(toast.success).toHaveBeenCalledWith("Completed");
+        expect(service.getAnimeDetails).toHaveBeenCalledTimes(2);
+    });
+
+    it("should step and set the episode", async () => {
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="details-increment"]').trigger("click");
+        await flushPromises();
+        expect(service.updateEpisodeProgress).toHaveBeenCalledWith("frieren", 5);
+
+        await wrapper.find('[data-testid="details-episode-input"]').setValue(12);
+        await wrapper.find('[data-testid="details-progress"]').trigger("submit");
+        await flushPromises();
+        expect(service.updateEpisodeProgress).toHaveBeenLastCalledWith("frieren", 12);
+    });
+
+    it("should list status and episode changes newest first", async () => {
+        const wrapper = await mountView();
+
+        expect(wrapper.findAll('[data-testid="details-history-entry"]').map((entry) => entry.text())).toEqual([
+            expect.stringContaining("Episode 4, auto-tracked"),
+            expect.stringContaining("Started watching"),
+        ]);
+    });
+
+    it("should show the notes", async () => {
+        userData.items.frieren = { animeId: "frieren", notes: "Rewatch the finale", tags: [] };
+
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="details-notes-text"]').text()).toBe("Rewatch the finale");
+    });
+
+    it("should offer to start a planned anime, without episode controls", async () => {
+        const plan = {
+            animeId: "frieren",
+            animeTitle: "Frieren",
+            animeSlug: "frieren",
+            addedAt: "2025-05-01T10:00:00.000Z",
+            siteId: "anizone",
+        };
+        service.getAnimeDetails.mockResolvedValue(
+            details({
+                status: { isTracked: false, isPlanned: true, isHidden: false, plan },
+                episodeProgress: undefined,
+                planToWatch: plan,
+            }),
+        );
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="details-progress"]').exists()).toBe(false);
+        expect(wrapper.find('[data-testid="details-poster-placeholder"]').exists()).toBe(true);
+        expect(wrapper.find('[data-action="removeFromPlan"]').exists()).toBe(true);
+        expect(wrapper.find('[data-action="addToWatch"]').exists()).toBe(true);
+    });
+
+    it("should name an anime known only from its log", async () => {
+        service.getAnimeDetails.mockResolvedValue(
+            details({
+                status: { isTracked: false, isPlanned: false, isHidden: false },
+                episodeProgress: undefined,
+                customLists: [],
+                folder: undefined,
+                activity: [
+                    {
+                        animeId: "frieren",
+                        animeTitle: "Frieren",
+                        action: "removed",
+                        timestamp: "2025-05-04T10:00:00.000Z",
+                    },
+                ],
+            }),
+        );
+
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="page-title"]').text()).toBe("Frieren");
+        // Nothing to plan or start from without a record
+        expect(
+            wrapper.findAll('[data-testid="details-action"]').map((button) => button.attributes("data-action")),
+        ).toEqual(["hide"]);
+
+        service.hideAnime.mockResolvedValue({ success: true, message: "Hidden" });
+        await wrapper.find('[data-action="hide"]').trigger("click");
+        await flushPromises();
+
+        expect(service.hideAnime).toHaveBeenCalledWith({
+            animeId: "frieren",
+            animeTitle: "Frieren",
+            animeSlug: "frieren",
+        });
+    });
+
+    it("should show the title and poster kept for a hidden anime", async () => {
+        service.getAnimeDetails.mockResolvedValue(
+            details({
+                status: { isTracked: false, isPlanned: false, isHidden: true },
+                episodeProgress: undefined,
+                isHidden: true,
+                hidden: {
+                    animeId: "frieren",
+                    animeTitle: "Frieren: Beyond Journey's End",
+                    animeSlug: "frieren",
+                    posterUrl: "https://cdn.example/hidden.jpg",
+                    hiddenAt: "2025-05-04T10:00:00.000Z",
+                },
+                customLists: [],
+                folder: undefined,
+                watchHistory: [],
+                activity: [],
+            }),
+        );
+
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="page-title"]').text()).toBe("Frieren: Beyond Journey's End");
+        expect(wrapper.find('[data-testid="details-poster"]').attributes("src")).toBe("https://cdn.example/hidden.jpg");
+    });
+
+    it("should say so when nothing is known about the anime", async () => {
+        service.getAnimeDetails.mockResolvedValue(
+            details({
+                status: { isTracked: false, isPlanned: false, isHidden: false },
+                episodeProgress: undefined,
+                customLists: [],
+                folder: undefined,
+                watchHistory: [],
+                activity: [],
+            }),
+        );
+
+        const wrapper = await mountView("unknown");
+
+        expect(wrapper.find('[data-testid="details-missing"]').exists()).toBe(true);
+    });
+
+    it("should open a list it is on", async () => {
+        const router = createRouter({
+            history: createMemoryHistory(),
+            routes: [
+                { path: "/", name: "home", component: { template: "<div />" } },
+                { path: "/lists/:listId", name: "custom-list", component: { template: "<div />" } },
+            ],
+        });
+        router.push("/");
+        await router.isReady();
+        const wrapper = await mountView("frieren", [router]);
+
+        await wrapper.find('[data-testid="details-list"]').trigger("click");
+
+        await vi.waitFor(() => expect(router.currentRoute.value.path).toBe("/lists/list-1"));
+    });
+
+    it("should report a failed load", async () => {
+        service.getAnimeDetails.mockRejectedValue(new Error("offline"));
+        vi.spyOn(console, "error").mockImplementation(() => {});
+
+        await mountView();
+
+        expect(toast.error).toHaveBeenCalledWith("Failed to load anime details");
+    });
+});
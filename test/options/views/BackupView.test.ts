@@ -0,0 +1,315 @@
+import { mount } from "@vue/test-utils";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { ImportPlan, LibraryBackup } from "@/commons/models";
+import { StorageKeys } from "@/commons/models";
+import BackupView from "@/options/views/BackupView.vue";
+
+const toast = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() }));
+const service = vi.hoisted(() => ({
+    exportLibrary: vi.fn(),
+    previewImport: vi.fn(),
+    loadLibrary: vi.fn(),
+    parse: vi.fn(),
+}));
+const animeService = vi.hoisted(() => ({ importLibrary: vi.fn() }));
+const formats = vi.hoisted(() => ({
+    exportMalXml: vi.fn(),
+    parseMalXml: vi.fn(),
+    parseAniListJson: vi.fn(),
+    matchExternalEntries: vi.fn(),
+    exportLibraryCsv: vi.fn(),
+}));
+
+vi.mock("vue-toastification", () => ({
+    useToast: () => toast,
+}));
+
+vi.mock("@/commons/services/LibraryBackupService", () => ({
+    LibraryBackupService: class {
+        static serialize = (backup: unknown) => JSON.stringify(backup);
+        static parse = (text: string) => service.parse(text);
+        exportLibrary = () => service.exportLibrary();
+        previewImport = (...args: unknown[]) => service.previewImport(...args);
+        loadLibrary = () => service.loadLibrary();
+    },
+}));
+
+vi.mock("@/commons/services/AnimeService", () => ({
+    AnimeService: class {
+        importLibrary = (...args: unknown[]) => animeService.importLibrary(...args);
+    },
+}));
+
+vi.mock("@/commons/formats", () => ({
+    importers: [
+        { id: "mal", label: "MyAnimeList", accept: ".xml", parse: (text: string) => formats.parseMalXml(text) },
+        { id: "anilist", label: "AniList", accept: ".json", parse: (text: string) => formats.parseAniListJson(text) },
+    ],
+    CSV_COLUMNS: [
+        { id: "title", label: "Title" },
+        { id: "status", label: "Status" },
+        { id: "posterUrl", label: "Poster URL" },
+    ],
+    CSV_LISTS: [
+        { id: "watching", label: "Watching" },
+        { id: "hidden", label: "Hidden" },
+    ],
+    exportLibraryCsv: (...args: unknown[]) => formats.exportLibraryCsv(...args),
+    exportMalXml: (...args: unknown[]) => formats.exportMalXml(...args),
+    matchExternalEntries: (...args: unknown[]) => formats.matchExternalEntries(...args),
+}));
+
+const backup = {
+    format: "anime-list-backup",
+    version: 1,
+    schemaVersion: 3,
+    exportedAt: "2025-02-01T00:00:00.000Z",
+    data: {},
+} as unknown as LibraryBackup;
+
+const listPlan = (key: string, overrides = {}) => ({
+    key,
+    mode: "merge",
+    added: [],
+    changed: [],
+    removed: [],
+    conflicts: [],
+    unchanged: 0,
+    ...overrides,
+});
+
+const plan = {
+    lists: {
+        [StorageKeys.EPISODE_PROGRESS]: listPlan(StorageKeys.EPISODE_PROGRESS, {
+            added: [{ id: "a", title: "Attack on Titan" }],
+        }),
+        [StorageKeys.HIDDEN_ANIME]: listPlan(StorageKeys.HIDDEN_ANIME, {
+            conflicts: [{ id: "a", title: "a", reason: "Cannot hide while watching" }],
+        }),
+    },
+    result: {},
+    touched: [StorageKeys.EPISODE_PROGRESS],
+} as unknown as ImportPlan;
+
+async function selectFile(wrapper: ReturnType<typeof mount>, content = "{}", testId = "import-file-input") {
+    const input = wrapper.find(`[data-testid="${testId}"]`);
+    const file = new File([content], "backup.json", { type: "application/json" });
+    Object.defineProperty(input.element, "files", { value: [file], configurable: true });
+    await input.trigger("change");
+}
+
+describe("BackupView", () => {
+    beforeEach(() => {
+        service.parse.mockReturnValue({ success: true, backup });
+        service.previewImport.mockResolvedValue(plan);
+        animeService.importLibrary.mockResolvedValue({ success: true, message: "Imported 1 entries" });
+    });
+
+    describe("Export", () => {
+        it("should download the serialized library", async () => {
+            service.exportLibrary.mockResolvedValue(backup);
+            URL.createObjectURL = vi.fn(() => "blob:backup");
+            URL.revokeObjectURL = vi.fn();
+            const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+
+            const wrapper = mount(BackupView);
+            await wrapper.find('[data-testid="export-button"]').trigger("click");
+
+            await vi.waitFor(() => expect(toast.success).toHaveBeenCalledWith("Library exported"));
+            expect(click).toHaveBeenCalled();
+            expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:backup");
+        });
+
+        it("should show an error toast when the export fails", async () => {
+            service.exportLibrary.mockRejectedValue(new Error("boom"));
+
+            const wrapper = mount(BackupView);
+            await wrapper.find('[data-testid="export-button"]').trigger("click");
+
+            await vi.waitFor(() => expect(toast.error).toHaveBeenCalledWith("Failed to export library"));
+        });
+
+        it("should say what the JSON backup leaves out", () => {
+            const wrapper = mount(BackupView);
+
+            const note = wrapper.find('[data-testid="backup-excluded"]').text();
+            expect(note).toContain("custom lists");
+            expect(note).toContain("watch history");
+        });
+    });
+
+    describe("Import", () => {
+        it("should show the parse error for an invalid file", async () => {
+            service.parse.mockReturnValue({ success: false, error: "File is not valid JSON" });
+
+            const wrapper = mount(BackupView);
+            await selectFile(wrapper, "{nope");
+
+            await vi.waitFor(() =>
+                expect(wrapper.find('[data-testid="import-error"]').text()).toBe("File is not valid JSON"),
+            );
+            expect(wrapper.find('[data-testid="import-preview"]').exists()).toBe(false);
+        });
+
+        it("should preview the changes per list with conflicts", async () => {
+            const wrapper = mount(BackupView);
+            await selectFile(wrapper);
+
+            await vi.waitFor(() => expect(wrapper.find('[data-testid="import-preview"]').exists()).toBe(true));
+            expect(wrapper.find('[data-testid="import-summary"]').text()).toContain("1 new");
+            expect(wrapper.find('[data-testid="import-summary"]').text()).toContain("1 conflicts");
+            expect(wrapper.find('[data-testid="import-list-hiddenAnime"]').text()).toContain(
+                "Cannot hide while watching",
+            );
+        });
+
+        it("should recompute the preview when a list mode changes", async () => {
+            const wrapper = mount(BackupView);
+            await selectFile(wrapper);
+            await vi.waitFor(() => expect(wrapper.find('[data-testid="import-preview"]').exists()).toBe(true));
+
+            await wrapper.find('[data-testid="import-mode-hiddenAnime"]').setValue("replace");
+
+            await vi.waitFor(() =>
+                expect(service.previewImport).toHaveBeenLastCalledWith(backup, {
+                    [StorageKeys.HIDDEN_ANIME]: "replace",
+                }),
+            );
+        });
+
+        it("should send the backup and modes to the background and reset", async () => {
+            const wrapper = mount(BackupView);
+            await selectFile(wrapper);
+            await vi.waitFor(() => expect(wrapper.find('[data-testid="import-preview"]').exists()).toBe(true));
+
+            await wrapper.find('[data-testid="import-apply"]').trigger("click");
+
+            await vi.waitFor(() => expect(toast.success).toHaveBeenCalledWith("Imported 1 entries"));
+            expect(animeService.importLibrary).toHaveBeenCalledWith(backup, {});
+            expect(wrapper.find('[data-testid="import-preview"]').exists()).toBe(false);
+        });
+
+        it("should keep the preview when the import fails", async () => {
+            animeService.importLibrary.mockResolvedValue({ success: false, message: "Failed to import library" });
+
+            const wrapper = mount(BackupView);
+            await selectFile(wrapper);
+            await vi.waitFor(() => expect(wrapper.find('[data-testid="import-preview"]').exists()).toBe(true));
+
+            await wrapper.find('[data-testid="import-apply"]').trigger("click");
+
+            await vi.waitFor(() => expect(toast.error).toHaveBeenCalledWith("Failed to import library"));
+            expect(wrapper.find('[data-testid="import-preview"]').exists()).toBe(true);
+        });
+    });
+
+    describe("Other trackers", () => {
+        it("should download the library as MAL XML", async () => {
+            service.exportLibrary.mockResolvedValue(backup);
+            formats.exportMalXml.mockReturnValue("<myanimelist />");
+            URL.createObjectURL = vi.fn(() => "blob:mal");
+            URL.revokeObjectURL = vi.fn();
+            vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+
+            const wrapper = mount(BackupView);
+            await wrapper.find('[data-testid="mal-export-button"]').trigger("click");
+
+            await vi.waitFor(() => expect(toast.success).toHaveBeenCalledWith("MyAnimeList list exported"));
+            expect(formats.exportMalXml).toHaveBeenCalledWith(backup.data);
+        });
+
+        it("should show the MAL parse error", async () => {
+            formats.parseMalXml.mockReturnValue({ success: false, error: "File is not a MyAnimeList export" });
+
+            const wrapper = mount(BackupView);
+            await selectFile(wrapper, "<library />", "import-mal-input");
+
+            await vi.waitFor(() =>
+                expect(wrapper.find('[data-testid="import-error"]').text()).toBe("File is not a MyAnimeList export"),
+            );
+        });
+
+        it("should preview matched entries and list the unmatched ones", async () => {
+            const entries = [{ title: "Never Seen", status: "watching", watchedEpisodes: 1 }];
+            const library = { episodeProgress: {} };
+            formats.parseMalXml.mockReturnValue({ success: true, entries });
+            formats.matchExternalEntries.mockReturnValue({ backup, matched: 3, unmatched: entries });
+            service.loadLibrary.mockResolvedValue(library);
+
+            const wrapper = mount(BackupView);
+            await selectFile(wrapper, "<myanimelist />", "import-mal-input");
+
+            await vi.waitFor(() => expect(wrapper.find('[data-testid="import-preview"]').exists()).toBe(true));
+            expect(formats.matchExternalEntries).toHaveBeenCalledWith(library, entries);
+            expect(service.previewImport).toHaveBeenCalledWith(backup, {});
+            expect(wrapper.find('[data-testid="import-summary"]').text()).toContain("3 matched, 1 not found");
+            expect(wrapper.find('[data-testid="import-unmatched"]').text()).toContain("Never Seen");
+        });
+
+        it("should render one file picker per registered importer", () => {
+            const wrapper = mount(BackupView);
+
+            expect(wrapper.find('[data-testid="import-mal-input"]').exists()).toBe(true);
+            expect(wrapper.find('[data-testid="import-anilist-input"]').exists()).toBe(true);
+        });
+
+        it("should parse the file with the importer it was picked for", async () => {
+            formats.parseAniListJson.mockReturnValue({ success: true, entries: [] });
+            formats.matchExternalEntries.mockReturnValue({ backup, matched: 0, unmatched: [] });
+            service.loadLibrary.mockResolvedValue({});
+
+            const wrapper = mount(BackupView);
+            await selectFile(wrapper, "{}", "import-anilist-input");
+
+            await vi.waitFor(() =>
+                expect(wrapper.find('[data-testid="import-summary"]').text()).toContain("AniList export"),
+            );
+            expect(formats.parseMalXml).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("CSV", () => {
+        beforeEach(() => {
+            service.exportLibrary.mockResolvedValue(backup);
+            formats.exportLibraryCsv.mockReturnValue("Title\r\n");
+            URL.createObjectURL = vi.fn(() => "blob:csv");
+            URL.revokeObjectURL = vi.fn();
+            vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+        });
+
+        it("should export every column and list by default", async () => {
+            const wrapper = mount(BackupView);
+            await wrapper.find('[data-testid="csv-export-button"]').trigger("click");
+
+            await vi.waitFor(() => expect(toast.success).toHaveBeenCalledWith("CSV exported"));
+            expect(formats.exportLibraryCsv).toHaveBeenCalledWith(backup.data, {
+                columns: ["title", "status", "posterUrl"],
+                lists: ["watching", "hidden"],
+            });
+        });
+
+        it("should export only the selected columns and lists", async () => {
+            const wrapper = mount(BackupView);
+            await wrapper.find('[data-testid="csv-column-status"]').setValue(false);
+            await wrapper.find('[data-testid="csv-list-hidden"]').setValue(false);
+            await wrapper.find('[data-testid="csv-export-button"]').trigger("click");
+
+            await vi.waitFor(() =>
+                expect(formats.exportLibraryCsv).toHaveBeenCalledWith(backup.data, {
+                    columns: ["title", "posterUrl"],
+                    lists: ["watching"],
+                }),
+            );
+        });
+
+        it("should disable the export when no column is selected", async () => {
+            const wrapper = mount(BackupView);
+            for (const id of ["title", "status", "posterUrl"]) {
+                await wrapper.find(`[data-testid="csv-column-${id}"]`).setValue(false);
+            }
+
+            expect(wrapper.find('[data-testid="csv-export-button"]').attributes("disabled")).toBeDefined();
+        });
+    });
+});
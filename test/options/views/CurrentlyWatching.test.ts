@@ -2,7 +2,7 @@ import { mount } from "@vue/test-utils";
 import { createPinia, setActivePinia } from "pinia";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
-import type { EpisodeProgress } from "@/commons/models";
+import type { AnimeUserData, EpisodeProgress } from "@/commons/models";
 import { AnimeService } from "@/commons/services/AnimeService";
 import { useWatchingStore } from "@/options/stores/watchingStore";
 import CurrentlyWatching from "@/options/views/CurrentlyWatching.vue";
@@ -35,7 +35,7 @@ const sampleItems: EpisodeProgress[] = [
     },
 ];
 
-function mockGetAllAnime(currentlyWatching: EpisodeProgress[]): void {
+function mockGetAllAnime(currentlyWatching: EpisodeProgress[], userData: Record<string, AnimeUserData> = {}): void {
     vi.mocked(AnimeService).mockImplementation(
         () =>
             ({
@@ -47,6 +47,7 @@ function mockGetAllAnime(currentlyWatching: EpisodeProgress[]): void {
                 }),
                 updateEpisodeProgress: vi.fn().mockResolvedValue({ success: true }),
                 stopWatching: vi.fn().mockResolvedValue({ success: true }),
+                getUserData: vi.fn().mockResolvedValue(userData),
             }) as any,
     );
 }
@@ -230,7 +231,12 @@ describe("CurrentlyWatching", () => {
 
         it("should disable the stepper buttons at the episode boundaries", async () => {
             const wrapper = await mountWithGrid([
-                { ...sampleItems[1], currentEpisode: 1, totalEpisodes: 1, episodeId: "attack-on-titan-aaaaa-episode-1" },
+                {
+                    ...sampleItems[1],
+                    currentEpisode: 1,
+                    totalEpisodes: 1,
+                    episodeId: "attack-on-titan-aaaaa-episode-1",
+                },
             ]);
 
             const card = wrapper.find('[data-testid="watching-card"]');
@@ -257,4 +263,47 @@ describe("CurrentlyWatching", () => {
             expect(wrapper.find('[data-testid="watching-grid"]').exists()).toBe(false);
         });
     });
+
+    describe("Tag and Score Filters", () => {
+        const userData: Record<string, AnimeUserData> = {
+            "demon-slayer-bbbbb": { animeId: "demon-slayer-bbbbb", score: 9, tags: ["Shonen"], updatedAt: "" },
+            "attack-on-titan-aaaaa": {
+                animeId: "attack-on-titan-aaaaa",
+                score: 7,
+                tags: ["shonen", "dark"],
+                updatedAt: "",
+            },
+        };
+
+        const titles = (wrapper: ReturnType<typeof mountView>) =>
+            wrapper.findAll('[data-testid="watching-card-title"]').map((title) => title.text());
+
+        it("should offer every tag in use", async () => {
+            mockGetAllAnime(sampleItems, userData);
+            const wrapper = mountView();
+
+            await vi.waitFor(() => expect(wrapper.findAll('[data-testid="tag-filter"] option')).toHaveLength(3));
+            expect(wrapper.findAll('[data-testid="tag-filter"] option').map((option) => option.text())).toEqual([
+                "Any",
+                "dark",
+                "Shonen",
+            ]);
+        });
+
+        it("should show only anime with the chosen tag and at least the chosen score", async () => {
+            mockGetAllAnime(sampleItems, userData);
+            const wrapper = mountView();
+            await vi.waitFor(() => expect(wrapper.findAll('[data-testid="tag-filter"] option')).toHaveLength(3));
+
+            await wrapper.find('[data-testid="tag-filter"]').setValue("Shonen");
+            expect(titles(wrapper)).toEqual(["Attack on Titan", "Demon Slayer"]);
+
+            await wrapper.find('[data-testid="score-filter"]').setValue("8");
+            expect(titles(wrapper)).toEqual(["Demon Slayer"]);
+
+            await wrapper.find('[data-testid="tag-filter"]').setValue("dark");
+            expect(wrapper.find('[data-testid="filter-empty-state"]').exists()).toBe(true);
+            expect(wrapper.find('[data-testid="empty-state"]').exists()).toBe(false);
+        });
+    });
 });
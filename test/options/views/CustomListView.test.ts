@@ -0,0 +1,160 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryHistory, createRouter } from "vue-router";
+
+import CustomListView from "@/options/views/CustomListView.vue";
+
+const store = vi.hoisted(() => ({
+    lists: [] as any[],
+    isLoading: false,
+    byId: (listId: string) => store.lists.find((list) => list.id === listId),
+    init: vi.fn(),
+    renameList: vi.fn(),
+    deleteList: vi.fn(),
+    removeAnime: vi.fn(),
+}));
+
+const userData = vi.hoisted(() => ({
+    items: {} as Record<string, any>,
+    allTags: [] as string[],
+    byId: (animeId: string) => userData.items[animeId],
+    init: vi.fn(),
+}));
+
+vi.mock("@/options/stores/customListsStore", () => ({
+    useCustomListsStore: () => store,
+}));
+
+vi.mock("@/options/stores/userDataStore", () => ({
+    useUserDataStore: () => userData,
+}));
+
+const rewatch = {
+    id: "list-1",
+    name: "Rewatch",
+    entries: [
+        { animeId: "anime-1", animeTitle: "Frieren", animeSlug: "frieren", addedAt: "2025-01-01" },
+        {
+            animeId: "anime-2",
+            animeTitle: "Dandadan",
+            animeSlug: "dandadan",
+            posterUrl: "https://cdn.example/dandadan.jpg",
+            addedAt: "2025-01-02",
+        },
+    ],
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-02",
+};
+
+async function mountView(listId = "list-1") {
+    const wrapper = mount(CustomListView, { props: { listId } });
+    await flushPromises();
+    return wrapper;
+}
+
+describe("CustomListView", () => {
+    beforeEach(() => {
+        store.lists = [rewatch];
+        store.init.mockResolvedValue(undefined);
+        store.renameList.mockResolvedValue({ success: true });
+        store.deleteList.mockResolvedValue({ success: true });
+        store.removeAnime.mockResolvedValue({ success: true });
+        userData.items = {};
+        userData.allTags = [];
+    });
+
+    it("should show the list's name and entries", async () => {
+        const wrapper = await mountView();
+
+        expect(store.init).toHaveBeenCalled();
+        expect(wrapper.find('[data-testid="page-title"]').text()).toBe("Rewatch");
+        const entries = wrapper.findAll('[data-testid="custom-list-entry"]');
+        expect(entries).toHaveLength(2);
+        expect(entries[1].find("img").attributes("src")).toBe("https://cdn.example/dandadan.jpg");
+    });
+
+    it("should open an entry's details page", async () => {
+        const router = createRouter({
+            history: createMemoryHistory(),
+            routes: [
+                { path: "/", name: "home", component: { template: "<div />" } },
+                { path: "/anime/:id", name: "anime-details", component: { template: "<div />" } },
+            ],
+        });
+        router.push("/");
+        await router.isReady();
+        const wrapper = mount(CustomListView, { props: { listId: "list-1" }, global: { plugins: [router] } });
+        await flushPromises();
+
+        await wrapper.findAll('[data-testid="list-entry-details"]')[1].trigger("click");
+
+        await vi.waitFor(() => expect(router.currentRoute.value.path).toBe("/anime/anime-2"));
+    });
+
+    it("should say so when the list no longer exists", async () => {
+        const wrapper = await mountView("gone");
+
+        expect(wrapper.find('[data-testid="custom-list-missing"]').exists()).toBe(true);
+    });
+
+    it("should show an empty state for a list without entries", async () => {
+        store.lists = [{ ...rewatch, entries: [] }];
+
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="custom-list-empty"]').exists()).toBe(true);
+    });
+
+    it("should rename the list", async () => {
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="rename-list-button"]').trigger("click");
+        await wrapper.find('[data-testid="rename-list-name"]').setValue("Rewatch with friends");
+        await wrapper.find('[data-testid="rename-list-form"]').trigger("submit");
+        await flushPromises();
+
+        expect(store.renameList).toHaveBeenCalledWith("list-1", "Rewatch with friends");
+        expect(wrapper.find('[data-testid="rename-list-form"]').exists()).toBe(false);
+    });
+
+    it("should only delete the list on a second click", async () => {
+        const wrapper = await mountView();
+        const button = wrapper.find('[data-testid="delete-list-button"]');
+
+        await button.trigger("click");
+        expect(store.deleteList).not.toHaveBeenCalled();
+        expect(button.text()).toBe("Click again to delete");
+
+        await button.trigger("click");
+        await flushPromises();
+        expect(store.deleteList).toHaveBeenCalledWith("list-1");
+    });
+
+    it("should take an anime off the list", async () => {
+        const wrapper = await mountView();
+
+        await wrapper.findAll('[data-testid="remove-entry-button"]')[0].trigger("click");
+
+        expect(store.removeAnime).toHaveBeenCalledWith("list-1", "anime-1");
+    });
+
+    it("should narrow the entries to a tag and a minimum score", async () => {
+        userData.items = {
+            "anime-1": { animeId: "anime-1", score: 9, tags: ["Comfy"], updatedAt: "" },
+            "anime-2": { animeId: "anime-2", score: 6, tags: ["comfy"], updatedAt: "" },
+        };
+        userData.allTags = ["Comfy"];
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="tag-filter"]').setValue("Comfy");
+        expect(wrapper.findAll('[data-testid="custom-list-entry"]')).toHaveLength(2);
+
+        await wrapper.find('[data-testid="score-filter"]').setValue("8");
+        const entries = wrapper.findAll('[data-testid="custom-list-entry"]');
+        expect(entries).toHaveLength(1);
+        expect(entries[0].text()).toContain("Frieren");
+
+        await wrapper.find('[data-testid="score-filter"]').setValue("10");
+        expect(wrapper.find('[data-testid="filter-empty-state"]').exists()).toBe(true);
+    });
+});
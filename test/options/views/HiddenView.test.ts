@@ -0,0 +1,120 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { createPinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { HiddenAnime } from "@/commons/models";
+import { AnimeService } from "@/commons/services/AnimeService";
+import HiddenView from "@/options/views/HiddenView.vue";
+
+vi.mock("vue-toastification", () => ({
+    useToast: () => ({ success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() }),
+}));
+
+vi.mock("@/commons/services/AnimeService");
+
+let unhideAnime: ReturnType<typeof vi.fn>;
+
+const hidden = (animeId: string, animeTitle: string, hiddenAt: string, posterUrl?: string): HiddenAnime => ({
+    animeId,
+    animeTitle,
+    animeSlug: animeId,
+    hiddenAt,
+    ...(posterUrl && { posterUrl }),
+});
+
+function mockService(hiddenAnime: HiddenAnime[]): void {
+    unhideAnime = vi.fn().mockResolvedValue({ success: true, message: "Unhidden" });
+    vi.mocked(AnimeService).mockImplementation(
+        () =>
+            ({
+                getAllAnime: vi.fn().mockResolvedValue({
+                    currentlyWatching: [],
+                    planToWatch: [],
+                    hiddenAnime,
+                    totalCount: hiddenAnime.length,
+                }),
+                unhideAnime,
+            }) as any,
+    );
+}
+
+describe("HiddenView", () => {
+    let pinia: ReturnType<typeof createPinia>;
+
+    beforeEach(() => {
+        pinia = createPinia();
+        setActivePinia(pinia);
+        vi.clearAllMocks();
+        mockService([
+            hidden("mashle", "Mashle", "2025-03-01T00:00:00.000Z"),
+            hidden("boruto", "Boruto", "2025-01-01T00:00:00.000Z", "https://example.com/boruto.jpg"),
+            hidden("ao-ashi", "Ao Ashi", "2025-02-01T00:00:00.000Z"),
+        ]);
+    });
+
+    async function mountView() {
+        const wrapper = mount(HiddenView, { global: { plugins: [pinia] } });
+        await flushPromises();
+        return wrapper;
+    }
+
+    const titles = (wrapper: Awaited<ReturnType<typeof mountView>>) =>
+        wrapper.findAll('[data-testid="hidden-card-details"]').map((title) => title.text());
+
+    it("should list the most recently hidden first", async () => {
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="page-subtitle"]').text()).toBe("3 series kept out of listings");
+        expect(titles(wrapper)).toEqual(["Mashle", "Ao Ashi", "Boruto"]);
+    });
+
+    it("should show the poster kept from the listing tile", async () => {
+        const wrapper = await mountView();
+
+        const posters = wrapper.findAll('[data-testid="hidden-poster"]');
+        expect(posters).toHaveLength(1);
+        expect(posters[0].attributes("src")).toBe("https://example.com/boruto.jpg");
+    });
+
+    it("should list anime hidden before dates were kept last, in the order they were hidden", async () => {
+        const unknown = new Date(0).toISOString();
+        mockService([
+            hidden("old-1", "Old One", unknown),
+            hidden("old-2", "Old Two", unknown),
+            hidden("boruto", "Boruto", "2025-01-01T00:00:00.000Z"),
+        ]);
+
+        const wrapper = await mountView();
+
+        expect(titles(wrapper)).toEqual(["Boruto", "Old Two", "Old One"]);
+        expect(wrapper.text()).not.toContain("1970");
+    });
+
+    it("should sort by title and search", async () => {
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="hidden-sort"]').setValue("title");
+        expect(titles(wrapper)).toEqual(["Ao Ashi", "Boruto", "Mashle"]);
+
+        await wrapper.find('[data-testid="hidden-search"]').setValue("BOR");
+        expect(titles(wrapper)).toEqual(["Boruto"]);
+    });
+
+    it("should unhide one anime", async () => {
+        const wrapper = await mountView();
+
+        await wrapper.findAll('[data-testid="hidden-unhide"]')[1].trigger("click");
+        await flushPromises();
+
+        expect(unhideAnime).toHaveBeenCalledWith("ao-ashi");
+        expect(titles(wrapper)).toEqual(["Mashle", "Boruto"]);
+    });
+
+    it("should explain an empty hidden list", async () => {
+        mockService([]);
+
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="empty-state"]').exists()).toBe(true);
+    });
+});
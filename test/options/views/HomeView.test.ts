@@ -3,7 +3,10 @@ import { createPinia, setActivePinia } from "pinia";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { ref } from "vue";
 
+import { useCompletedStore } from "@/options/stores/completedStore";
+import { useDroppedStore } from "@/options/stores/droppedStore";
 import { useHiddenStore } from "@/options/stores/hiddenStore";
+import { useOnHoldStore } from "@/options/stores/onHoldStore";
 import { usePlanToWatchStore } from "@/options/stores/planToWatchStore";
 import { useWatchingStore } from "@/options/stores/watchingStore";
 import HomeView from "@/options/views/HomeView.vue";
@@ -12,6 +15,9 @@ import HomeView from "@/options/views/HomeView.vue";
 vi.mock("@/options/stores/watchingStore");
 vi.mock("@/options/stores/planToWatchStore");
 vi.mock("@/options/stores/hiddenStore");
+vi.mock("@/options/stores/completedStore");
+vi.mock("@/options/stores/droppedStore");
+vi.mock("@/options/stores/onHoldStore");
 
 describe("HomeView - Phase 4 Store Integration", () => {
     let pinia: ReturnType<typeof createPinia>;
@@ -35,6 +41,13 @@ describe("HomeView - Phase 4 Store Integration", () => {
         init: vi.fn().mockResolvedValue(undefined),
     };
 
+    const createStatusListStore = (count: number) => ({
+        count: ref(count),
+        isLoading: ref(false),
+        hasError: false,
+        init: vi.fn().mockResolvedValue(undefined),
+    });
+
     beforeEach(() => {
         pinia = createPinia();
         setActivePinia(pinia);
@@ -57,6 +70,9 @@ describe("HomeView - Phase 4 Store Integration", () => {
         vi.mocked(useWatchingStore).mockReturnValue(mockWatchingStore as any);
         vi.mocked(usePlanToWatchStore).mockReturnValue(mockPlanToWatchStore as any);
         vi.mocked(useHiddenStore).mockReturnValue(mockHiddenStore as any);
+        vi.mocked(useCompletedStore).mockReturnValue(createStatusListStore(87) as any);
+        vi.mocked(useDroppedStore).mockReturnValue(createStatusListStore(8) as any);
+        vi.mocked(useOnHoldStore).mockReturnValue(createStatusListStore(5) as any);
     });
 
     describe("Store Integration", () => {
@@ -249,7 +265,7 @@ describe("HomeView - Phase 4 Store Integration", () => {
             expect(wrapper.find('[data-testid="action-view-lists"]').exists()).toBe(true);
         });
 
-        it("should preserve hardcoded values for non-store data", async () => {
+        it("should display the completed count from its store", async () => {
             const wrapper = mount(HomeView, {
                 global: {
                     plugins: [pinia],
@@ -258,7 +274,6 @@ describe("HomeView - Phase 4 Store Integration", () => {
 
             await wrapper.vm.$nextTick();
 
-            // Completed count should remain hardcoded
             const completedCount = wrapper.find('[data-testid="completed-count"]');
             expect(completedCount.text()).toBe("87");
         });
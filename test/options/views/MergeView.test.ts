@@ -0,0 +1,169 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { AnimeIdentity } from "@/commons/models";
+import MergeView from "@/options/views/MergeView.vue";
+
+const toast = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() }));
+const service = vi.hoisted(() => ({
+    getAllAnime: vi.fn(),
+    getAnimeIdentities: vi.fn(),
+    mergeAnime: vi.fn(),
+    splitAnime: vi.fn(),
+}));
+
+vi.mock("vue-toastification", () => ({
+    useToast: () => toast,
+}));
+
+vi.mock("@/commons/services/AnimeService", () => ({
+    AnimeService: class {
+        getAllAnime = () => service.getAllAnime();
+        getAnimeIdentities = () => service.getAnimeIdentities();
+        mergeAnime = (...args: unknown[]) => service.mergeAnime(...args);
+        splitAnime = (...args: unknown[]) => service.splitAnime(...args);
+    },
+}));
+
+const plan = (animeId: string, animeTitle: string, siteId?: string) => ({
+    animeId,
+    animeTitle,
+    animeSlug: animeId,
+    addedAt: "2025-01-01T00:00:00.000Z",
+    siteId,
+});
+
+const allAnime = (planToWatch: ReturnType<typeof plan>[]) => ({
+    currentlyWatching: [],
+    planToWatch,
+    hiddenAnime: [],
+    completed: [],
+    dropped: [],
+    onHold: [],
+    totalCount: planToWatch.length,
+});
+
+const identity: AnimeIdentity = {
+    animeId: "frieren-aaaaa",
+    animeTitle: "Frieren",
+    aliases: [{ animeId: "hianime-frieren", animeSlug: "frieren-18542", siteId: "hianime" }],
+    updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+async function mountView() {
+    const wrapper = mount(MergeView);
+    await flushPromises();
+    return wrapper;
+}
+
+describe("MergeView", () => {
+    beforeEach(() => {
+        service.getAllAnime.mockResolvedValue(
+            allAnime([
+                plan("frieren-aaaaa", "Frieren: Beyond Journey's End", "anikototv"),
+                plan("hianime-frieren", "Frieren Beyond Journeys End", "hianime"),
+                plan("naruto-bbbbb", "Naruto", "anikototv"),
+            ]),
+        );
+        service.getAnimeIdentities.mockResolvedValue([]);
+        service.mergeAnime.mockResolvedValue({ success: true, message: "Merged" });
+        service.splitAnime.mockResolvedValue({ success: true, message: "Split" });
+    });
+
+    it("should suggest merging the same show tracked on two sites", async () => {
+        const wrapper = await mountView();
+
+        const suggestions = wrapper.findAll('[data-testid="merge-suggestion"]');
+        expect(suggestions).toHaveLength(1);
+        expect(suggestions[0].text()).toContain("AnikotoTV");
+        expect(suggestions[0].text()).toContain("HiAnime");
+    });
+
+    it("should merge a suggestion into the side the user keeps", async () => {
+        const wrapper = await mountView();
+
+        const keepHiAnime = wrapper
+            .findAll('[data-testid="merge-suggestion"] button')
+            .find((button) => button.text() === "Keep HiAnime");
+        await keepHiAnime!.trigger("click");
+        await flushPromises();
+
+        expect(service.mergeAnime).toHaveBeenCalledWith("hianime-frieren", "frieren-aaaaa");
+        expect(toast.success).toHaveBeenCalledWith("Merged");
+        expect(service.getAllAnime).toHaveBeenCalledTimes(2);
+    });
+
+    it("should merge two entries picked by hand", async () => {
+        const wrapper = await mountView();
+        const button = wrapper.find('[data-testid="manual-merge-button"]');
+
+        await wrapper.find('[data-testid="merge-keep-select"]').setValue("naruto-bbbbb");
+        expect(button.attributes("disabled")).toBeDefined();
+        await wrapper.find('[data-testid="merge-other-select"]').setValue("frieren-aaaaa");
+        await button.trigger("click");
+        await flushPromises();
+
+        expect(service.mergeAnime).toHaveBeenCalledWith("naruto-bbbbb", "frieren-aaaaa");
+    });
+
+    it("should report a refused merge", async () => {
+        service.mergeAnime.mockResolvedValue({ success: false, message: "These entries are already linked" });
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="keep-first-button"]').trigger("click");
+        await flushPromises();
+
+        expect(toast.error).toHaveBeenCalledWith("These entries are already linked");
+    });
+
+    it("should ask before a merge replaces episode progress", async () => {
+        const watching = (animeId: string, siteId: string, currentEpisode: number) => ({
+            ...plan(animeId, "Frieren", siteId),
+            currentEpisode,
+            episodeId: `${animeId}-episode-${currentEpisode}`,
+            lastWatched: "2025-05-01T00:00:00.000Z",
+        });
+        service.getAllAnime.mockResolvedValue({
+            ...allAnime([]),
+            currentlyWatching: [watching("frieren-aaaaa", "anikototv", 3), watching("hianime-frieren", "hianime", 12)],
+        });
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="keep-first-button"]').trigger("click");
+        await flushPromises();
+
+        expect(service.mergeAnime).not.toHaveBeenCalled();
+        const confirmation = wrapper.find('[data-testid="merge-confirmation"]');
+        expect(confirmation.text()).toContain("watching at episode 3");
+        expect(confirmation.text()).toContain('The merged entry keeps "watching at episode 12"');
+
+        await wrapper.find('[data-testid="confirm-merge-button"]').trigger("click");
+        await flushPromises();
+
+        expect(service.mergeAnime).toHaveBeenCalledWith("frieren-aaaaa", "hianime-frieren");
+        expect(wrapper.find('[data-testid="merge-confirmation"]').exists()).toBe(false);
+    });
+
+    it("should list linked entries and split an alias off", async () => {
+        service.getAnimeIdentities.mockResolvedValue([identity]);
+        const wrapper = await mountView();
+
+        const aliases = wrapper.findAll('[data-testid="identity-alias"]');
+        expect(aliases).toHaveLength(1);
+        expect(aliases[0].text()).toContain("frieren-18542");
+
+        await wrapper.find('[data-testid="split-alias-button"]').trigger("click");
+        await flushPromises();
+
+        expect(service.splitAnime).toHaveBeenCalledWith("hianime-frieren");
+        expect(toast.success).toHaveBeenCalledWith("Split");
+    });
+
+    it("should show empty states when nothing matches or is linked", async () => {
+        service.getAllAnime.mockResolvedValue(allAnime([plan("naruto-bbbbb", "Naruto")]));
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="merge-suggestions-empty"]').exists()).toBe(true);
+        expect(wrapper.find('[data-testid="identities-empty"]').exists()).toBe(true);
+    });
+});
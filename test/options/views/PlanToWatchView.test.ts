@@ -0,0 +1,150 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { createPinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryHistory, createRouter } from "vue-router";
+
+import type { AnimeUserData, PlanToWatch } from "@/commons/models";
+import { AnimeService } from "@/commons/services/AnimeService";
+import PlanToWatchView from "@/options/views/PlanToWatchView.vue";
+
+vi.mock("vue-toastification", () => ({
+    useToast: () => ({ success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() }),
+}));
+
+vi.mock("@/commons/services/AnimeService");
+
+const planned: PlanToWatch[] = [
+    { animeId: "frieren", animeTitle: "Frieren", animeSlug: "frieren", addedAt: "2025-05-01T00:00:00.000Z" },
+    { animeId: "dandadan", animeTitle: "Dandadan", animeSlug: "dandadan", addedAt: "2025-05-03T00:00:00.000Z" },
+    {
+        animeId: "apothecary",
+        animeTitle: "The Apothecary Diaries",
+        animeSlug: "apothecary",
+        addedAt: "2025-05-02T00:00:00.000Z",
+        siteId: "anizone",
+    },
+];
+
+let startWatching: ReturnType<typeof vi.fn>;
+
+function mockService(planToWatch: PlanToWatch[], userData: Record<string, AnimeUserData> = {}): void {
+    startWatching = vi.fn().mockResolvedValue({ success: true, message: "Started watching" });
+    vi.mocked(AnimeService).mockImplementation(
+        () =>
+            ({
+                getAllAnime: vi.fn().mockResolvedValue({
+                    currentlyWatching: [],
+                    planToWatch,
+                    hiddenAnime: [],
+                    totalCount: planToWatch.length,
+                }),
+                removeFromPlanToWatch: vi.fn().mockResolvedValue({ success: true }),
+                startWatching,
+                getUserData: vi.fn().mockResolvedValue(userData),
+            }) as any,
+    );
+}
+
+describe("PlanToWatchView", () => {
+    let pinia: ReturnType<typeof createPinia>;
+
+    beforeEach(() => {
+        pinia = createPinia();
+        setActivePinia(pinia);
+        vi.clearAllMocks();
+        mockService(planned.map((item) => ({ ...item })));
+    });
+
+    async function mountView(plugins: any[] = []) {
+        const wrapper = mount(PlanToWatchView, { global: { plugins: [pinia, ...plugins] } });
+        await flushPromises();
+        return wrapper;
+    }
+
+    const titles = (wrapper: Awaited<ReturnType<typeof mountView>>) =>
+        wrapper.findAll('[data-testid="plan-card-details"]').map((title) => title.text());
+
+    it("should list the most recently planned first", async () => {
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="page-subtitle"]').text()).toBe("3 series planned");
+        expect(titles(wrapper)).toEqual(["Dandadan", "The Apothecary Diaries", "Frieren"]);
+    });
+
+    it("should sort by title and search", async () => {
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="plan-sort"]').setValue("title");
+        expect(titles(wrapper)).toEqual(["Dandadan", "Frieren", "The Apothecary Diaries"]);
+
+        await wrapper.find('[data-testid="plan-search"]').setValue("apothecary");
+        expect(titles(wrapper)).toEqual(["The Apothecary Diaries"]);
+
+        await wrapper.find('[data-testid="plan-search"]').setValue("bleach");
+        expect(wrapper.find('[data-testid="filter-empty-state"]').exists()).toBe(true);
+    });
+
+    it("should filter by tag", async () => {
+        mockService(planned, { frieren: { animeId: "frieren", tags: ["fantasy"], updatedAt: "" } });
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="tag-filter"]').setValue("fantasy");
+
+        expect(titles(wrapper)).toEqual(["Frieren"]);
+    });
+
+    it("should start watching from the chosen episode", async () => {
+        const wrapper = await mountView();
+        const card = wrapper.findAll('[data-testid="plan-card"]')[1];
+
+        await card.find('[data-testid="plan-start-episode"]').setValue(4);
+        await card.find('[data-testid="plan-start"]').trigger("submit");
+        await flushPromises();
+
+        expect(startWatching).toHaveBeenCalledWith(
+            {
+                animeId: "apothecary",
+                animeTitle: "The Apothecary Diaries",
+                animeSlug: "apothecary",
+                siteId: "anizone",
+            },
+            4,
+        );
+        expect(titles(wrapper)).toEqual(["Dandadan", "Frieren"]);
+    });
+
+    it("should start from the first episode when none is given", async () => {
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="plan-start"]').trigger("submit");
+        await flushPromises();
+
+        expect(startWatching).toHaveBeenCalledWith(expect.objectContaining({ animeId: "dandadan" }), 1);
+    });
+
+    it("should open an anime's details page", async () => {
+        const router = createRouter({
+            history: createMemoryHistory(),
+            routes: [
+                { path: "/", name: "home", component: { template: "<div />" } },
+                { path: "/anime/:id", name: "anime-details", component: { template: "<div />" } },
+            ],
+        });
+        router.push("/");
+        await router.isReady();
+        const wrapper = await mountView([router]);
+
+        await wrapper.find('[data-testid="plan-card-details"]').trigger("click");
+
+        await vi.waitFor(() => expect(router.currentRoute.value.path).toBe("/anime/dandadan"));
+    });
+
+    it("should explain an empty plan", async () => {
+        mockService([]);
+
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="empty-state"]').exists()).toBe(true);
+        expect(wrapper.find('[data-testid="plan-search"]').exists()).toBe(false);
+    });
+});
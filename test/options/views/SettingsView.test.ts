@@ -0,0 +1,318 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { HideRule } from "@/commons/models";
+import { DEFAULT_SETTINGS } from "@/commons/models";
+import SettingsView from "@/options/views/SettingsView.vue";
+
+const toast = vi.hoisted(() => ({ success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() }));
+const service = vi.hoisted(() => ({
+    getSettings: vi.fn(),
+    updateSettings: vi.fn(),
+    getHideRules: vi.fn(),
+    saveHideRule: vi.fn(),
+    updateHideRule: vi.fn(),
+    deleteHideRule: vi.fn(),
+}));
+const sync = vi.hoisted(() => ({
+    getStatus: vi.fn(),
+    configure: vi.fn(),
+    signIn: vi.fn(),
+    signOut: vi.fn(),
+    syncNow: vi.fn(),
+    resolveConflict: vi.fn(),
+}));
+
+vi.mock("vue-toastification", () => ({
+    useToast: () => toast,
+}));
+
+vi.mock("@/commons/services/AnimeService", () => ({
+    AnimeService: class {
+        getSettings = () => service.getSettings();
+        updateSettings = (...args: unknown[]) => service.updateSettings(...args);
+        getHideRules = () => service.getHideRules();
+        saveHideRule = (...args: unknown[]) => service.saveHideRule(...args);
+        updateHideRule = (...args: unknown[]) => service.updateHideRule(...args);
+        deleteHideRule = (...args: unknown[]) => service.deleteHideRule(...args);
+    },
+}));
+
+vi.mock("@/commons/services/SyncService", () => ({
+    SyncService: class {
+        getStatus = () => sync.getStatus();
+        configure = (...args: unknown[]) => sync.configure(...args);
+        signIn = (...args: unknown[]) => sync.signIn(...args);
+        signOut = (...args: unknown[]) => sync.signOut(...args);
+        syncNow = () => sync.syncNow();
+        resolveConflict = (...args: unknown[]) => sync.resolveConflict(...args);
+    },
+}));
+
+const recapRule: HideRule = {
+    id: "rule-1",
+    kind: "keyword",
+    value: "Recap",
+    enabled: true,
+    createdAt: "2025-07-20T10:00:00.000Z",
+};
+
+async function mountView() {
+    const wrapper = mount(SettingsView);
+    await flushPromises();
+    return wrapper;
+}
+
+describe("SettingsView", () => {
+    beforeEach(() => {
+        service.getSettings.mockResolvedValue({ autoTrack: { ...DEFAULT_SETTINGS.autoTrack } });
+        service.updateSettings.mockResolvedValue({ success: true, message: "Settings saved" });
+        service.getHideRules.mockResolvedValue([]);
+        for (const action of [service.saveHideRule, service.updateHideRule, service.deleteHideRule]) {
+            action.mockResolvedValue({ success: true, message: "Done" });
+        }
+        sync.getStatus.mockResolvedValue({ settings: null, signedIn: false, conflicts: [], queued: 0 });
+        for (const action of [sync.configure, sync.signIn, sync.signOut, sync.syncNow, sync.resolveConflict]) {
+            action.mockResolvedValue({ success: true, message: "Done" });
+        }
+    });
+
+    it("should show the stored automatic tracking settings", async () => {
+        service.getSettings.mockResolvedValue({
+            autoTrack: {
+                enabled: true,
+                trigger: "visit",
+                dwellSeconds: 15,
+                watchedPercent: 90,
+                watchedRemainingSeconds: 60,
+            },
+        });
+
+        const wrapper = await mountView();
+
+        expect((wrapper.find('[data-testid="auto-track-enabled"]').element as HTMLInputElement).checked).toBe(true);
+        expect((wrapper.find('[data-testid="auto-track-trigger-visit"]').element as HTMLInputElement).checked).toBe(
+            true,
+        );
+        expect((wrapper.find('[data-testid="auto-track-dwell"]').element as HTMLInputElement).value).toBe("15");
+        expect((wrapper.find('[data-testid="auto-track-percent"]').element as HTMLInputElement).value).toBe("90");
+        expect((wrapper.find('[data-testid="auto-track-remaining"]').element as HTMLInputElement).value).toBe("60");
+    });
+
+    it("should keep the tracking options disabled while tracking is off", async () => {
+        const wrapper = await mountView();
+
+        expect(wrapper.find('[data-testid="auto-track-dwell"]').element.matches(":disabled")).toBe(true);
+        expect(wrapper.find('[data-testid="auto-track-trigger-playback"]').element.matches(":disabled")).toBe(true);
+    });
+
+    it("should save the toggle", async () => {
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="auto-track-enabled"]').setValue(true);
+        await flushPromises();
+
+        expect(service.updateSettings).toHaveBeenCalledWith("autoTrack", { enabled: true });
+        expect(toast.success).toHaveBeenCalledWith("Settings saved");
+        expect(wrapper.find('[data-testid="auto-track-dwell"]').element.matches(":disabled")).toBe(false);
+    });
+
+    it("should clamp the dwell time to the allowed range", async () => {
+        service.getSettings.mockResolvedValue({ autoTrack: { ...DEFAULT_SETTINGS.autoTrack, enabled: true } });
+        const wrapper = await mountView();
+        const dwell = wrapper.find('[data-testid="auto-track-dwell"]');
+
+        await dwell.setValue("-5");
+        await flushPromises();
+        expect(service.updateSettings).toHaveBeenLastCalledWith("autoTrack", { dwellSeconds: 0 });
+
+        await dwell.setValue("5000");
+        await flushPromises();
+        expect(service.updateSettings).toHaveBeenLastCalledWith("autoTrack", { dwellSeconds: 600 });
+    });
+
+    it("should keep the watched percentage between 1 and 100", async () => {
+        service.getSettings.mockResolvedValue({ autoTrack: { ...DEFAULT_SETTINGS.autoTrack, enabled: true } });
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="auto-track-percent"]').setValue("0");
+        await flushPromises();
+        expect(service.updateSettings).toHaveBeenLastCalledWith("autoTrack", { watchedPercent: 1 });
+
+        await wrapper.find('[data-testid="auto-track-remaining"]').setValue("90");
+        await flushPromises();
+        expect(service.updateSettings).toHaveBeenLastCalledWith("autoTrack", { watchedRemainingSeconds: 90 });
+    });
+
+    it("should save the chosen trigger", async () => {
+        service.getSettings.mockResolvedValue({ autoTrack: { ...DEFAULT_SETTINGS.autoTrack, enabled: true } });
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="auto-track-trigger-visit"]').setValue(true);
+        await flushPromises();
+
+        expect(service.updateSettings).toHaveBeenCalledWith("autoTrack", { trigger: "visit" });
+    });
+
+    it("should report a failed save", async () => {
+        service.updateSettings.mockResolvedValue({
+            success: false,
+            message: "Failed to save settings",
+            error: "quota",
+        });
+        const wrapper = await mountView();
+
+        await wrapper.find('[data-testid="auto-track-enabled"]').setValue(true);
+        await flushPromises();
+
+        expect(toast.error).toHaveBeenCalledWith("Failed to save settings");
+    });
+
+    describe("hide rules", () => {
+        it("should list the stored rules", async () => {
+            service.getHideRules.mockResolvedValue([
+                recapRule,
+                { ...recapRule, id: "rule-2", kind: "pattern", value: "Dub$" },
+            ]);
+
+            const wrapper = await mountView();
+            const items = wrapper.findAll('[data-testid="hide-rule-item"]');
+
+            expect(items).toHaveLength(2);
+            expect(items[0]!.text()).toContain('"Recap"');
+            expect(items[1]!.text()).toContain("/Dub$/");
+            expect(wrapper.find('[data-testid="hide-rules-empty"]').exists()).toBe(false);
+        });
+
+        it("should add a trimmed, enabled rule", async () => {
+            const wrapper = await mountView();
+
+            await wrapper.find('[data-testid="hide-rule-kind"]').setValue("pattern");
+            await wrapper.find('[data-testid="hide-rule-value"]').setValue("  Season \\d+ Dub ");
+            await wrapper.find('[data-testid="hide-rule-form"]').trigger("submit");
+            await flushPromises();
+
+            expect(service.saveHideRule).toHaveBeenCalledWith(
+                expect.objectContaining({ kind: "pattern", value: "Season \\d+ Dub", enabled: true }),
+            );
+            expect(wrapper.findAll('[data-testid="hide-rule-item"]')).toHaveLength(1);
+            expect((wrapper.find('[data-testid="hide-rule-value"]').element as HTMLInputElement).value).toBe("");
+        });
+
+        it("should refuse a pattern that does not compile", async () => {
+            const wrapper = await mountView();
+
+            await wrapper.find('[data-testid="hide-rule-kind"]').setValue("pattern");
+            await wrapper.find('[data-testid="hide-rule-value"]').setValue("Season (2");
+            await wrapper.find('[data-testid="hide-rule-form"]').trigger("submit");
+            await flushPromises();
+
+            expect(service.saveHideRule).not.toHaveBeenCalled();
+            expect(wrapper.find('[data-testid="hide-rule-error"]').text()).toContain("Not a valid pattern");
+        });
+
+        it("should switch a rule off without deleting it", async () => {
+            service.getHideRules.mockResolvedValue([recapRule]);
+            const wrapper = await mountView();
+
+            await wrapper.find('[data-testid="hide-rule-enabled"]').setValue(false);
+            await flushPromises();
+
+            expect(service.updateHideRule).toHaveBeenCalledWith("rule-1", { enabled: false });
+            expect(wrapper.findAll('[data-testid="hide-rule-item"]')).toHaveLength(1);
+        });
+
+        it("should delete a rule", async () => {
+            service.getHideRules.mockResolvedValue([recapRule]);
+            const wrapper = await mountView();
+
+            await wrapper.find('[data-testid="hide-rule-delete"]').trigger("click");
+            await flushPromises();
+
+            expect(service.deleteHideRule).toHaveBeenCalledWith("rule-1");
+            expect(wrapper.find('[data-testid="hide-rules-empty"]').exists()).toBe(true);
+        });
+
+        it("should keep a rule the background worker refused to delete", async () => {
+            service.getHideRules.mockResolvedValue([recapRule]);
+            service.deleteHideRule.mockResolvedValue({ success: false, message: "Failed to delete hide rule" });
+            const wrapper = await mountView();
+
+            await wrapper.find('[data-testid="hide-rule-delete"]').trigger("click");
+            await flushPromises();
+
+            expect(toast.error).toHaveBeenCalledWith("Failed to delete hide rule");
+            expect(wrapper.findAll('[data-testid="hide-rule-item"]')).toHaveLength(1);
+        });
+    });
+
+    describe("sync", () => {
+        const settings = { enabled: true, providerId: "anilist", baseUrl: "https://api.example.com", strategy: "ask" };
+        const conflict = {
+            animeId: "frieren",
+            malId: 52991,
+            title: "Frieren",
+            localEpisode: 3,
+            remoteEpisode: 5,
+            localModifiedAt: "2025-01-01T00:00:00.000Z",
+            remoteModifiedAt: "2025-01-02T00:00:00.000Z",
+        };
+
+        it("should save the sync settings through the background worker", async () => {
+            const wrapper = await mountView();
+
+            await wrapper.find('[data-testid="sync-enabled"]').setValue(true);
+            await wrapper.find('[data-testid="sync-provider"]').setValue("anilist");
+            await wrapper.find('[data-testid="sync-strategy"]').setValue("ask");
+            await wrapper.find('[data-testid="sync-base-url"]').setValue("https://api.example.com");
+            await wrapper.find('[data-testid="sync-settings-form"]').trigger("submit");
+            await flushPromises();
+
+            expect(sync.configure).toHaveBeenCalledWith(settings);
+            expect(toast.success).toHaveBeenCalledWith("Done");
+        });
+
+        it("should sign in with the access token and then offer to sync", async () => {
+            sync.getStatus.mockResolvedValue({ settings, signedIn: false, conflicts: [], queued: 0 });
+            const wrapper = await mountView();
+            expect(wrapper.find('[data-testid="sync-now"]').attributes("disabled")).toBeDefined();
+
+            sync.getStatus.mockResolvedValue({ settings, signedIn: true, conflicts: [], queued: 0 });
+            await wrapper.find('[data-testid="sync-access-token"]').setValue(" token ");
+            await wrapper.find('[data-testid="sync-sign-in-form"]').trigger("submit");
+            await flushPromises();
+
+            expect(sync.signIn).toHaveBeenCalledWith("anilist", { accessToken: "token" });
+            expect(wrapper.find('[data-testid="sync-signed-in"]').text()).toBe("Signed in to AniList");
+
+            await wrapper.find('[data-testid="sync-now"]').trigger("click");
+            await flushPromises();
+            expect(sync.syncNow).toHaveBeenCalled();
+        });
+
+        it("should report a failed sync", async () => {
+            sync.getStatus.mockResolvedValue({ settings, signedIn: true, conflicts: [], queued: 0 });
+            sync.syncNow.mockResolvedValue({ success: false, message: "Sync failed", error: "401" });
+            const wrapper = await mountView();
+
+            await wrapper.find('[data-testid="sync-now"]').trigger("click");
+            await flushPromises();
+
+            expect(toast.error).toHaveBeenCalledWith("Sync failed: 401");
+        });
+
+        it("should resolve a conflict with the chosen side", async () => {
+            sync.getStatus.mockResolvedValue({ settings, signedIn: true, conflicts: [conflict], queued: 0 });
+            const wrapper = await mountView();
+
+            const keepRemote = wrapper.find('[data-testid="sync-conflict-keep-remote"]');
+            expect(keepRemote.text()).toBe("Keep AniList (ep 5)");
+            sync.getStatus.mockResolvedValue({ settings, signedIn: true, conflicts: [], queued: 0 });
+            await keepRemote.trigger("click");
+            await flushPromises();
+
+            expect(sync.resolveConflict).toHaveBeenCalledWith("frieren", "remote");
+            expect(wrapper.find('[data-testid="sync-conflict"]').exists()).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,138 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { createPinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { CompletedAnime, DroppedAnime, OnHoldAnime } from "@/commons/models";
+import { AnimeService } from "@/commons/services/AnimeService";
+import StatusListView from "@/options/views/StatusListView.vue";
+
+vi.mock("vue-toastification", () => ({
+    useToast: () => ({ success: vi.fn(), error: vi.fn(), info: vi.fn(), warning: vi.fn() }),
+}));
+
+vi.mock("@/commons/services/AnimeService");
+
+const progress = (animeId: string, animeTitle: string, currentEpisode: number) => ({
+    animeId,
+    animeTitle,
+    animeSlug: animeId,
+    currentEpisode,
+    episodeId: `${animeId}-episode-${currentEpisode}`,
+    lastWatched: "2025-05-01T00:00:00.000Z",
+    totalEpisodes: 12,
+});
+
+const completed: CompletedAnime[] = [
+    { ...progress("frieren", "Frieren", 12), completedAt: "2025-05-01T00:00:00.000Z" },
+    { ...progress("dandadan", "Dandadan", 12), completedAt: "2025-05-03T00:00:00.000Z" },
+];
+const onHold: OnHoldAnime[] = [
+    { ...progress("apothecary", "The Apothecary Diaries", 7), pausedAt: "2025-05-02T00:00:00.000Z" },
+];
+const dropped: DroppedAnime[] = [{ ...progress("bleach", "Bleach", 40), droppedAt: "2025-05-04T00:00:00.000Z" }];
+
+let service: Record<string, ReturnType<typeof vi.fn>>;
+
+function mockService(): void {
+    const ok = () => vi.fn().mockResolvedValue({ success: true, message: "Done" });
+    service = {
+        getAllAnime: vi.fn().mockResolvedValue({
+            currentlyWatching: [],
+            planToWatch: [],
+            hiddenAnime: [],
+            completed: completed.map((item) => ({ ...item })),
+            onHold: onHold.map((item) => ({ ...item })),
+            dropped: dropped.map((item) => ({ ...item })),
+        }),
+        getUserData: vi.fn().mockResolvedValue({}),
+        resumeWatching: ok(),
+        completeAnime: ok(),
+        dropAnime: ok(),
+        removeFromCompleted: ok(),
+        removeFromOnHold: ok(),
+        removeFromDropped: ok(),
+    };
+    vi.mocked(AnimeService).mockImplementation(() => service as any);
+}
+
+describe("StatusListView", () => {
+    let pinia: ReturnType<typeof createPinia>;
+
+    beforeEach(() => {
+        pinia = createPinia();
+        setActivePinia(pinia);
+        vi.clearAllMocks();
+        mockService();
+    });
+
+    async function mountView(list: "completed" | "on-hold" | "dropped") {
+        const wrapper = mount(StatusListView, { props: { list }, global: { plugins: [pinia] } });
+        await flushPromises();
+        return wrapper;
+    }
+
+    const titles = (wrapper: Awaited<ReturnType<typeof mountView>>) =>
+        wrapper.findAll('[data-testid="status-list-card-details"]').map((title) => title.text());
+
+    it("should list completed anime, most recently completed first", async () => {
+        const wrapper = await mountView("completed");
+
+        expect(wrapper.find('[data-testid="page-title"]').text()).toBe("Completed");
+        expect(wrapper.find('[data-testid="page-subtitle"]').text()).toBe("2 series finished");
+        expect(titles(wrapper)).toEqual(["Dandadan", "Frieren"]);
+        expect(wrapper.find('[data-testid="status-list-resume"]').exists()).toBe(false);
+    });
+
+    it("should remove an anime from completed", async () => {
+        const wrapper = await mountView("completed");
+
+        await wrapper.find('[data-testid="status-list-remove"]').trigger("click");
+        await flushPromises();
+
+        expect(service.removeFromCompleted).toHaveBeenCalledWith("dandadan");
+        expect(titles(wrapper)).toEqual(["Frieren"]);
+    });
+
+    it.each([
+        ["resume", "resumeWatching"],
+        ["complete", "completeAnime"],
+        ["drop", "dropAnime"],
+    ])("should %s an on-hold anime", async (action, method) => {
+        const wrapper = await mountView("on-hold");
+        expect(wrapper.find('[data-testid="status-list-card-episodes"]').text()).toBe("Ep 7 / 12");
+
+        await wrapper.find(`[data-testid="status-list-${action}"]`).trigger("click");
+        await flushPromises();
+
+        expect(service[method]).toHaveBeenCalledWith("apothecary");
+        expect(wrapper.find('[data-testid="empty-state"]').exists()).toBe(true);
+    });
+
+    it("should resume a dropped anime", async () => {
+        const wrapper = await mountView("dropped");
+
+        expect(wrapper.find('[data-testid="status-list-complete"]').exists()).toBe(false);
+        await wrapper.find('[data-testid="status-list-resume"]').trigger("click");
+        await flushPromises();
+
+        expect(service.resumeWatching).toHaveBeenCalledWith("bleach");
+    });
+
+    it("should switch lists when the route changes the list", async () => {
+        const wrapper = await mountView("completed");
+
+        await wrapper.setProps({ list: "dropped" });
+        await flushPromises();
+
+        expect(wrapper.find('[data-testid="page-title"]').text()).toBe("Dropped");
+        expect(titles(wrapper)).toEqual(["Bleach"]);
+    });
+
+    it("should search titles", async () => {
+        const wrapper = await mountView("completed");
+
+        await wrapper.find('[data-testid="status-list-search"]').setValue("frieren");
+
+        expect(titles(wrapper)).toEqual(["Frieren"]);
+    });
+});